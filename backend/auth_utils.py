@@ -4,15 +4,16 @@ from datetime import UTC, datetime, timedelta
 import aiosqlite
 import bcrypt
 import jwt
-from fastapi import Depends, HTTPException, status
+from fastapi import Depends, HTTPException, Request, status
 from fastapi.security import HTTPAuthorizationCredentials, HTTPBearer
 from jwt.exceptions import InvalidTokenError
 
 from config import get_config
 from db.database import get_db
+from services.auth_cookies import ACCESS_TOKEN_COOKIE, verify_csrf
 
 ALGORITHM = "HS256"
-TOKEN_EXPIRE_HOURS = 24
+ACCESS_TOKEN_EXPIRE_MINUTES = 15
 DEFAULT_BCRYPT_ROUNDS = 12
 
 
@@ -51,28 +52,35 @@ def verify_password(plain: str, hashed: str | None) -> bool:
 
 # --- JWT Token creation ---
 def create_access_token(user_id: int) -> str:
-    """Create a JWT token for the given user ID."""
+    """Create a short-lived JWT token for the given user ID; refresh tokens renew it."""
     payload = {
         "sub": str(user_id),
-        "exp": datetime.now(UTC) + timedelta(hours=TOKEN_EXPIRE_HOURS),
+        "exp": datetime.now(UTC) + timedelta(minutes=ACCESS_TOKEN_EXPIRE_MINUTES),
     }
     return jwt.encode(payload, get_config().secret_key, algorithm=ALGORITHM)
 
 
 # --- get_current_user dependency ---
 async def get_current_user(
+    request: Request,
     credentials: HTTPAuthorizationCredentials | None = Depends(security),
     db: aiosqlite.Connection = Depends(get_db),
 ):
+    """Resolve the user from a bearer token, or from a cookie session guarded by CSRF."""
     unauthorized = HTTPException(
         status_code=status.HTTP_401_UNAUTHORIZED,
         detail="Could not validate credentials",
         headers={"WWW-Authenticate": "Bearer"},
     )
-    if credentials is None:
-        raise unauthorized
+    if credentials is not None:
+        token = credentials.credentials
+    else:
+        token = request.cookies.get(ACCESS_TOKEN_COOKIE)
+        if token is None:
+            raise unauthorized
+        verify_csrf(request)
     try:
-        payload = jwt.decode(credentials.credentials, get_config().secret_key, algorithms=[ALGORITHM])
+        payload = jwt.decode(token, get_config().secret_key, algorithms=[ALGORITHM])
         user_id: str | None = payload.get("sub")
         if user_id is None:
             raise unauthorized
@@ -87,6 +95,20 @@ async def get_current_user(
         return dict(user)
 
 
+async def get_optional_current_user(
+    request: Request,
+    credentials: HTTPAuthorizationCredentials | None = Depends(security),
+    db: aiosqlite.Connection = Depends(get_db),
+) -> dict | None:
+    """Like get_current_user, but None instead of a 401 when there is no valid access token."""
+    try:
+        return await get_current_user(request, credentials, db)
+    except HTTPException as exc:
+        if exc.status_code != status.HTTP_401_UNAUTHORIZED:
+            raise
+        return None
+
+
 async def require_admin(current_user: dict = Depends(get_current_user)) -> dict:
     """Dependency that restricts access to admin users (is_admin=1)."""
     if not current_user.get("is_admin"):
@@ -31,6 +31,16 @@ class Config:
     session_cookie_secure: bool = False  # a boolean flag passed to SessionMiddleware
     debug_mode: bool = False
 
+    # Outgoing mail (verification and password reset)
+    mail_transport: str = "console"  # console | file | smtp
+    mail_from: str = "WonderComic <no-reply@wondercomic.local>"
+    mail_file_dir: str = "mail_outbox"  # where the file transport writes .eml files
+    smtp_host: str | None = None
+    smtp_port: int = 587
+    smtp_username: str | None = None
+    smtp_password: str | None = None
+    smtp_use_tls: bool = True  # STARTTLS after connecting
+
 
 def get_env_or_default(name: str, default: str) -> str:
     """Return default when the env var is missing or blank."""
@@ -75,6 +85,14 @@ def validate_environment() -> Config:
         ),
         session_cookie_secure=os.getenv("SESSION_COOKIE_SECURE", "").lower() in ("true", "1", "yes"),
         debug_mode=os.getenv("DEBUG", "").lower() in ("true", "1", "yes"),
+        mail_transport=get_env_or_default("MAIL_TRANSPORT", "console").lower(),
+        mail_from=get_env_or_default("MAIL_FROM", "WonderComic <no-reply@wondercomic.local>"),
+        mail_file_dir=get_env_or_default("MAIL_FILE_DIR", "mail_outbox"),
+        smtp_host=get_optional_env("SMTP_HOST"),
+        smtp_port=int(get_env_or_default("SMTP_PORT", "587")),
+        smtp_username=get_optional_env("SMTP_USERNAME"),
+        smtp_password=get_optional_env("SMTP_PASSWORD"),
+        smtp_use_tls=get_env_or_default("SMTP_USE_TLS", "true").lower() in ("true", "1", "yes"),
     )
 
 
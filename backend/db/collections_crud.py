@@ -0,0 +1,196 @@
+"""CRUD operations for story collections (bookshelves).
+
+A collection belongs to one user and holds any number of that user's stories;
+a story can sit on several collections. Sharing a collection with friends
+shares every story on it, whatever the story's own visibility. Trashed stories
+stay on their collections but are hidden and uncounted until restored.
+"""
+
+import aiosqlite
+
+from db.stories_crud import list_stories_in_collection
+from schemas.collections import (
+    CollectionCreateRequest,
+    CollectionDetailResponse,
+    CollectionResponse,
+    CollectionUpdateRequest,
+)
+
+_COLLECTION_SELECT = """
+    SELECT c.*,
+        (
+            SELECT COUNT(*)
+            FROM collection_stories cs
+            JOIN stories s ON s.id = cs.story_id
+            WHERE cs.collection_id = c.id AND s.deleted_at IS NULL
+        ) AS story_count,
+        (
+            SELECT s.cover_image_path
+            FROM collection_stories cs
+            JOIN stories s ON s.id = cs.story_id
+            WHERE cs.collection_id = c.id AND s.deleted_at IS NULL AND s.cover_image_path IS NOT NULL
+            ORDER BY cs.added_at DESC, cs.rowid DESC
+            LIMIT 1
+        ) AS cover_image_path
+    FROM collections c
+"""
+
+
+def _row_to_collection(row: aiosqlite.Row) -> CollectionResponse:
+    return CollectionResponse(
+        id=row["id"],
+        name=row["name"],
+        visibility=row["visibility"],
+        story_count=row["story_count"],
+        cover_image_url=row["cover_image_path"],
+        created_at=row["created_at"],
+        updated_at=row["updated_at"],
+    )
+
+
+async def _get_collection_row(db: aiosqlite.Connection, collection_id: int, user_id: int) -> aiosqlite.Row | None:
+    cursor = await db.execute(f"{_COLLECTION_SELECT} WHERE c.id = ? AND c.user_id = ?", (collection_id, user_id))
+    return await cursor.fetchone()
+
+
+async def get_collection_summary(
+    db: aiosqlite.Connection, collection_id: int, user_id: int
+) -> CollectionResponse | None:
+    """Get one of the user's collections without its stories."""
+    row = await _get_collection_row(db, collection_id, user_id)
+    return _row_to_collection(row) if row else None
+
+
+async def list_collections(db: aiosqlite.Connection, user_id: int) -> list[CollectionResponse]:
+    """List the user's collections by name."""
+    cursor = await db.execute(
+        f"{_COLLECTION_SELECT} WHERE c.user_id = ? ORDER BY c.name COLLATE NOCASE, c.id", (user_id,)
+    )
+    return [_row_to_collection(row) for row in await cursor.fetchall()]
+
+
+async def get_collection(db: aiosqlite.Connection, collection_id: int, user_id: int) -> CollectionDetailResponse | None:
+    """Get one of the user's collections with its stories."""
+    row = await _get_collection_row(db, collection_id, user_id)
+    if row is None:
+        return None
+    stories = await list_stories_in_collection(db, collection_id, for_owner=True)
+    return CollectionDetailResponse(**_row_to_collection(row).model_dump(), stories=stories)
+
+
+async def create_collection(
+    db: aiosqlite.Connection, user_id: int, request: CollectionCreateRequest
+) -> CollectionResponse:
+    """Create a collection. Raises ValueError when the user already has one by that name."""
+    name = request.name.strip()
+    try:
+        cursor = await db.execute(
+            "INSERT INTO collections (user_id, name, visibility) VALUES (?, ?, ?)",
+            (user_id, name, request.visibility),
+        )
+        await db.commit()
+    except aiosqlite.IntegrityError as exc:
+        raise ValueError("A collection with this name already exists") from exc
+
+    collection = await get_collection_summary(db, cursor.lastrowid, user_id)
+    if collection is None:
+        raise RuntimeError("Failed to create collection")
+    return collection
+
+
+async def update_collection(
+    db: aiosqlite.Connection, collection_id: int, user_id: int, update: CollectionUpdateRequest
+) -> CollectionResponse | None:
+    """Rename or re-share a collection. Raises ValueError when the new name is taken."""
+    if await _get_collection_row(db, collection_id, user_id) is None:
+        return None
+
+    updates: list[str] = []
+    values: list = []
+    if update.name is not None:
+        updates.append("name = ?")
+        values.append(update.name.strip())
+    if update.visibility is not None:
+        updates.append("visibility = ?")
+        values.append(update.visibility)
+    if updates:
+        updates.append("updated_at = CURRENT_TIMESTAMP")
+        try:
+            await db.execute(f"UPDATE collections SET {', '.join(updates)} WHERE id = ?", (*values, collection_id))
+            await db.commit()
+        except aiosqlite.IntegrityError as exc:
+            raise ValueError("A collection with this name already exists") from exc
+
+    return await get_collection_summary(db, collection_id, user_id)
+
+
+async def delete_collection(db: aiosqlite.Connection, collection_id: int, user_id: int) -> bool:
+    """Delete a collection; its stories stay in the library."""
+    cursor = await db.execute("DELETE FROM collections WHERE id = ? AND user_id = ?", (collection_id, user_id))
+    await db.commit()
+    return cursor.rowcount > 0
+
+
+async def add_story_to_collection(
+    db: aiosqlite.Connection, collection_id: int, story_id: int, user_id: int
+) -> CollectionResponse | None:
+    """Put one of the user's stories on one of their collections; adding it twice is a no-op.
+
+    Returns None when either the collection or the story is not the user's.
+    """
+    if await _get_collection_row(db, collection_id, user_id) is None:
+        return None
+    cursor = await db.execute(
+        "SELECT 1 FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL", (story_id, user_id)
+    )
+    if await cursor.fetchone() is None:
+        return None
+
+    cursor = await db.execute(
+        "INSERT OR IGNORE INTO collection_stories (collection_id, story_id) VALUES (?, ?)",
+        (collection_id, story_id),
+    )
+    if cursor.rowcount:
+        await db.execute("UPDATE collections SET updated_at = CURRENT_TIMESTAMP WHERE id = ?", (collection_id,))
+    await db.commit()
+    return await get_collection_summary(db, collection_id, user_id)
+
+
+async def remove_story_from_collection(
+    db: aiosqlite.Connection, collection_id: int, story_id: int, user_id: int
+) -> CollectionResponse | None:
+    """Take a story off a collection. Returns None when the collection is not the user's."""
+    if await _get_collection_row(db, collection_id, user_id) is None:
+        return None
+
+    cursor = await db.execute(
+        "DELETE FROM collection_stories WHERE collection_id = ? AND story_id = ?", (collection_id, story_id)
+    )
+    if cursor.rowcount:
+        await db.execute("UPDATE collections SET updated_at = CURRENT_TIMESTAMP WHERE id = ?", (collection_id,))
+    await db.commit()
+    return await get_collection_summary(db, collection_id, user_id)
+
+
+async def list_shared_collections_for_friend(db: aiosqlite.Connection, owner_user_id: int) -> list[CollectionResponse]:
+    """List the collections an owner shares with friends."""
+    cursor = await db.execute(
+        f"""
+        {_COLLECTION_SELECT}
+        WHERE c.user_id = ? AND c.visibility = 'shared_with_friends'
+        ORDER BY c.name COLLATE NOCASE, c.id
+        """,
+        (owner_user_id,),
+    )
+    return [_row_to_collection(row) for row in await cursor.fetchall()]
+
+
+async def get_shared_collection_for_friend(
+    db: aiosqlite.Connection, collection_id: int, owner_user_id: int
+) -> CollectionDetailResponse | None:
+    """Get one collection an owner shares with friends, with its stories."""
+    row = await _get_collection_row(db, collection_id, owner_user_id)
+    if row is None or row["visibility"] != "shared_with_friends":
+        return None
+    stories = await list_stories_in_collection(db, collection_id, for_owner=False)
+    return CollectionDetailResponse(**_row_to_collection(row).model_dump(), stories=stories)
@@ -12,7 +12,11 @@ from auth_utils import hash_password
 # --- User identity ---
 async def create_oauth_user(db: aiosqlite.Connection, username: str, email: str) -> int:
     """Create a new OAuth-only user (no password) and return their ID."""
-    cursor = await db.execute("INSERT INTO users (username, email) VALUES (?, ?)", (username, email))
+    # Google only signs in accounts whose email it has verified.
+    cursor = await db.execute(
+        "INSERT INTO users (username, email, email_verified_at) VALUES (?, ?, CURRENT_TIMESTAMP)",
+        (username, email),
+    )
     await db.commit()
     return cursor.lastrowid
 
@@ -111,6 +111,213 @@ async def _create_oauth_results_table(db: aiosqlite.Connection) -> None:
     )
 
 
+async def _create_refresh_tokens_table(db: aiosqlite.Connection) -> None:
+    """Create the refresh_tokens table if it doesn't exist. Only token hashes are stored."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS refresh_tokens (
+            token_hash      TEXT PRIMARY KEY,
+            user_id         INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            expires_at      TIMESTAMP NOT NULL,
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+
+
+async def _create_mfa_tables(db: aiosqlite.Connection) -> None:
+    """Create the two-factor tables if they don't exist. Recovery codes and challenges are stored hashed."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS user_mfa (
+            user_id         INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+            totp_secret     TEXT NOT NULL,
+            enabled_at      TIMESTAMP,          -- NULL until the first code is confirmed
+            last_used_step  INTEGER,            -- TOTP time step of the last accepted code
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+            code_hash       TEXT PRIMARY KEY,
+            user_id         INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE
+        );
+        """
+    )
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS mfa_challenges (
+            token_hash      TEXT PRIMARY KEY,
+            user_id         INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            attempts        INTEGER NOT NULL DEFAULT 0,
+            expires_at      TIMESTAMP NOT NULL,
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+
+
+async def _create_email_tokens_table(db: aiosqlite.Connection) -> None:
+    """Create the email_tokens table if it doesn't exist. Only token hashes are stored."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS email_tokens (
+            token_hash      TEXT PRIMARY KEY,
+            user_id         INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            purpose         TEXT NOT NULL CHECK(purpose IN ('verify_email', 'reset_password')),
+            expires_at      TIMESTAMP NOT NULL,
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+
+
+async def _add_users_email_verified_column(db: aiosqlite.Connection) -> None:
+    """Add users.email_verified_at; accounts that predate verification count as verified."""
+    if await _users_table_has_column(db, "email_verified_at"):
+        return
+    await db.execute("ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP")
+    await db.execute("UPDATE users SET email_verified_at = CURRENT_TIMESTAMP")
+
+
+async def _create_image_versions_table(db: aiosqlite.Connection) -> None:
+    """Create the image_versions table if it doesn't exist."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS image_versions (
+            id              INTEGER PRIMARY KEY AUTOINCREMENT,
+            story_id        INTEGER NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+            panel_id        INTEGER REFERENCES panels(id) ON DELETE CASCADE, -- NULL for the cover
+            image_path      TEXT NOT NULL,
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+    await db.execute("CREATE INDEX IF NOT EXISTS idx_image_versions_target ON image_versions(story_id, panel_id)")
+
+
+async def _stories_visibility_allows_public_link(db: aiosqlite.Connection) -> bool:
+    """Return True if the live stories.visibility CHECK constraint accepts 'public_link'."""
+    async with db.execute("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'stories'") as cursor:
+        row = await cursor.fetchone()
+    return row is None or "public_link" in row[0]
+
+
+async def _migrate_stories_visibility_public_link(db: aiosqlite.Connection) -> None:
+    """Widen the stories.visibility CHECK constraint to allow public share links."""
+    if await _stories_visibility_allows_public_link(db):
+        return  # fresh or already migrated schema
+    await db.commit()  # PRAGMA foreign_keys is ignored inside an open transaction
+    await db.execute("PRAGMA foreign_keys=OFF")
+    try:
+        await db.execute(
+            """
+            CREATE TABLE stories_new (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                kid_profile_id INTEGER NOT NULL REFERENCES kid_profiles(id) ON DELETE CASCADE,
+                title TEXT,
+                foreword TEXT,
+                character_description TEXT,
+                cover_image_prompt TEXT,
+                cover_image_path TEXT,
+                visibility TEXT NOT NULL DEFAULT 'private'
+                    CHECK(visibility IN ('private', 'shared_with_friends', 'public_link')),
+                is_unlocked BOOLEAN NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+            """
+        )
+        await db.execute(
+            """
+            INSERT INTO stories_new (
+                id, user_id, kid_profile_id, title, foreword, character_description,
+                cover_image_prompt, cover_image_path, visibility, is_unlocked, created_at, updated_at
+            )
+            SELECT
+                id, user_id, kid_profile_id, title, foreword, character_description,
+                cover_image_prompt, cover_image_path, visibility, is_unlocked, created_at, updated_at
+            FROM stories
+            """
+        )
+        await db.execute("DROP TABLE stories")
+        await db.execute("ALTER TABLE stories_new RENAME TO stories")
+    finally:
+        await db.execute("PRAGMA foreign_keys=ON")
+
+
+async def _create_story_share_links_table(db: aiosqlite.Connection) -> None:
+    """Create the story_share_links table if it doesn't exist."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS story_share_links (
+            id              INTEGER PRIMARY KEY AUTOINCREMENT,
+            story_id        INTEGER NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+            token           TEXT NOT NULL UNIQUE,
+            expires_at      TIMESTAMP, -- NULL for links that never expire
+            revoked_at      TIMESTAMP,
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+    await db.execute("CREATE INDEX IF NOT EXISTS idx_story_share_links_story ON story_share_links(story_id)")
+
+
+async def _add_story_series_columns(db: aiosqlite.Connection) -> None:
+    """Add the series columns to stories; ``series_id`` is the id of the series' first episode."""
+    for column in ("series_id INTEGER", "episode_number INTEGER"):
+        try:
+            await db.execute(f"ALTER TABLE stories ADD COLUMN {column}")
+        except aiosqlite.OperationalError as exc:
+            if "duplicate column name" not in str(exc).lower():
+                raise
+    await db.execute("CREATE INDEX IF NOT EXISTS idx_stories_series ON stories(user_id, series_id)")
+
+
+async def _add_story_deleted_at_column(db: aiosqlite.Connection) -> None:
+    """Add stories.deleted_at; a story with it set is in the trash."""
+    try:
+        await db.execute("ALTER TABLE stories ADD COLUMN deleted_at TIMESTAMP")
+    except aiosqlite.OperationalError as exc:
+        if "duplicate column name" not in str(exc).lower():
+            raise
+    await db.execute("CREATE INDEX IF NOT EXISTS idx_stories_deleted_at ON stories(user_id, deleted_at)")
+
+
+async def _create_collections_tables(db: aiosqlite.Connection) -> None:
+    """Create the collections and collection_stories tables if they don't exist."""
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS collections (
+            id              INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id         INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            name            TEXT NOT NULL,
+            visibility      TEXT NOT NULL DEFAULT 'private'
+                CHECK(visibility IN ('private', 'shared_with_friends')),
+            created_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            updated_at      TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+        """
+    )
+    await db.execute(
+        "CREATE UNIQUE INDEX IF NOT EXISTS idx_collections_user_name ON collections(user_id, name COLLATE NOCASE)"
+    )
+    await db.execute(
+        """
+        CREATE TABLE IF NOT EXISTS collection_stories (
+            collection_id   INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+            story_id        INTEGER NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+            added_at        TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (collection_id, story_id)
+        );
+        """
+    )
+    await db.execute("CREATE INDEX IF NOT EXISTS idx_collection_stories_story ON collection_stories(story_id)")
+
+
 async def _create_tables(db: aiosqlite.Connection):
     """Create tables if they don't exist."""
     await db.executescript("""
@@ -164,7 +371,7 @@ async def _create_tables(db: aiosqlite.Connection):
             cover_image_prompt TEXT,
             cover_image_path TEXT,
             visibility TEXT NOT NULL DEFAULT 'private'
-                CHECK(visibility IN ('private', 'shared_with_friends')),
+                CHECK(visibility IN ('private', 'shared_with_friends', 'public_link')),
             is_unlocked BOOLEAN NOT NULL DEFAULT 1,
             created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
             updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -196,13 +403,17 @@ async def _create_tables(db: aiosqlite.Connection):
     await _migrate_users_password_hash_nullable(db)
     await _create_oauth_accounts_table(db)
     await _create_oauth_results_table(db)
+    await _create_refresh_tokens_table(db)
+    await _create_mfa_tables(db)
+    await _create_email_tokens_table(db)
+    await _create_image_versions_table(db)
 
     try:
         await db.execute(
             """
             ALTER TABLE stories
             ADD COLUMN visibility TEXT NOT NULL DEFAULT 'private'
-                CHECK(visibility IN ('private', 'shared_with_friends'))
+                CHECK(visibility IN ('private', 'shared_with_friends', 'public_link'))
             """
         )
     except aiosqlite.OperationalError as exc:
@@ -219,11 +430,17 @@ async def _create_tables(db: aiosqlite.Connection):
         if "duplicate column name" not in str(exc).lower():
             raise
     await db.execute("UPDATE stories SET visibility = 'private' WHERE visibility IS NULL")
+    await _migrate_stories_visibility_public_link(db)
+    await _create_story_share_links_table(db)
+    await _add_story_series_columns(db)
+    await _add_story_deleted_at_column(db)
+    await _create_collections_tables(db)
     try:
         await db.execute("ALTER TABLE users ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT 0")
     except aiosqlite.OperationalError as exc:
         if "duplicate column name" not in str(exc).lower():
             raise
+    await _add_users_email_verified_column(db)
     # Seed a default local user for dev mode and mark it admin
     await db.execute("""
         INSERT OR IGNORE INTO users (id, email, username, password_hash)
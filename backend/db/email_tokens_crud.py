@@ -0,0 +1,37 @@
+"""CRUD helpers for emailed one-time tokens (email verification, password reset). Only hashes are stored."""
+
+import aiosqlite
+
+
+async def create_email_token(
+    db: aiosqlite.Connection,
+    token_hash: str,
+    user_id: int,
+    purpose: str,
+    expires_at: str,
+) -> None:
+    """Store a token hash. Earlier tokens for the same purpose stop working, so only the newest link does."""
+    await db.execute(
+        "DELETE FROM email_tokens WHERE (user_id = ? AND purpose = ?) OR expires_at <= CURRENT_TIMESTAMP",
+        (user_id, purpose),
+    )
+    await db.execute(
+        "INSERT INTO email_tokens (token_hash, user_id, purpose, expires_at) VALUES (?, ?, ?, ?)",
+        (token_hash, user_id, purpose, expires_at),
+    )
+    await db.commit()
+
+
+async def consume_email_token(db: aiosqlite.Connection, token_hash: str, purpose: str) -> int | None:
+    """Atomically delete an unexpired token for the purpose and return its user ID."""
+    cursor = await db.execute(
+        """
+        DELETE FROM email_tokens
+        WHERE token_hash = ? AND purpose = ? AND expires_at > CURRENT_TIMESTAMP
+        RETURNING user_id
+        """,
+        (token_hash, purpose),
+    )
+    row = await cursor.fetchone()
+    await db.commit()
+    return row[0] if row else None
@@ -0,0 +1,97 @@
+"""CRUD helpers for the saved heroes library.
+
+Every story stores its own copy of the kid profile, so a hero is the group of
+a user's profiles that share a name and appearance. The newest profile in the
+group stands for the hero and its id is the hero id.
+"""
+
+import aiosqlite
+
+from schemas.heroes import HeroResponse, HeroUpdateRequest
+
+_HERO_KEY_COLUMNS = "LOWER(TRIM(kp.name)), kp.gender, kp.skin_tone, kp.hair_color, kp.eye_color"
+
+_HERO_SELECT = f"""
+    SELECT kp.*, grouped.story_count, grouped.last_used_at
+    FROM kid_profiles kp
+    JOIN (
+        SELECT MAX(kp.id) AS latest_id, COUNT(s.id) AS story_count, MAX(s.created_at) AS last_used_at
+        FROM kid_profiles kp
+        JOIN stories s ON s.kid_profile_id = kp.id AND s.deleted_at IS NULL
+        WHERE kp.user_id = ?
+        GROUP BY {_HERO_KEY_COLUMNS}
+    ) grouped ON grouped.latest_id = kp.id
+"""
+
+
+def _row_to_hero(row: aiosqlite.Row) -> HeroResponse:
+    return HeroResponse(
+        id=row["id"],
+        name=row["name"],
+        gender=row["gender"],
+        skin_tone=row["skin_tone"],
+        hair_color=row["hair_color"],
+        eye_color=row["eye_color"],
+        favorite_color=row["favorite_color"],
+        archetype=row["archetype"],
+        art_style=row["art_style"],
+        language=row["language"],
+        story_count=row["story_count"],
+        last_used_at=row["last_used_at"],
+    )
+
+
+async def list_heroes(db: aiosqlite.Connection, user_id: int) -> list[HeroResponse]:
+    """List the user's distinct heroes, most recently used first."""
+    cursor = await db.execute(f"{_HERO_SELECT} ORDER BY grouped.last_used_at DESC, kp.id DESC", (user_id,))
+    return [_row_to_hero(row) for row in await cursor.fetchall()]
+
+
+async def _get_hero_for_profile(db: aiosqlite.Connection, user_id: int, profile_id: int) -> HeroResponse | None:
+    """Return the hero whose group contains ``profile_id``."""
+    cursor = await db.execute(
+        f"""
+        {_HERO_SELECT}
+        WHERE ({_HERO_KEY_COLUMNS}) = (
+            SELECT {_HERO_KEY_COLUMNS} FROM kid_profiles kp WHERE kp.id = ? AND kp.user_id = ?
+        )
+        """,
+        (user_id, profile_id, user_id),
+    )
+    row = await cursor.fetchone()
+    return _row_to_hero(row) if row else None
+
+
+async def update_hero(
+    db: aiosqlite.Connection, user_id: int, hero_id: int, update: HeroUpdateRequest
+) -> HeroResponse | None:
+    """Apply ``update`` to every profile of the hero. Returns None when the hero is not the user's."""
+    hero = await _get_hero_for_profile(db, user_id, hero_id)
+    if hero is None:
+        return None
+
+    await db.execute(
+        """
+        UPDATE kid_profiles
+        SET name = ?, gender = ?, skin_tone = ?, hair_color = ?, eye_color = ?, favorite_color = ?
+        WHERE user_id = ?
+          AND LOWER(TRIM(name)) = LOWER(TRIM(?))
+          AND gender = ? AND skin_tone = ? AND hair_color = ? AND eye_color = ?
+        """,
+        (
+            update.name.strip(),
+            update.gender,
+            update.skin_tone,
+            update.hair_color,
+            update.eye_color,
+            update.favorite_color,
+            user_id,
+            hero.name,
+            hero.gender,
+            hero.skin_tone,
+            hero.hair_color,
+            hero.eye_color,
+        ),
+    )
+    await db.commit()
+    return await _get_hero_for_profile(db, user_id, hero_id)
@@ -0,0 +1,98 @@
+"""CRUD operations for earlier panel and cover images.
+
+A version row holds an image that was replaced by a revision. ``panel_id`` is
+NULL for the story cover. None of these helpers commit — callers own the
+transaction and delete pruned image files only after it commits.
+"""
+
+import aiosqlite
+
+from schemas.stories import ImageVersionResponse
+
+MAX_IMAGE_VERSIONS = 10
+
+
+def _target_clause(panel_id: int | None) -> tuple[str, tuple]:
+    """Build the WHERE fragment that matches one panel, or the cover when ``panel_id`` is None."""
+    if panel_id is None:
+        return "panel_id IS NULL", ()
+    return "panel_id = ?", (panel_id,)
+
+
+async def record_image_version(
+    db: aiosqlite.Connection, story_id: int, panel_id: int | None, image_path: str
+) -> list[str]:
+    """Keep ``image_path`` as an earlier version and return image paths pruned past the cap."""
+    await db.execute(
+        "INSERT INTO image_versions (story_id, panel_id, image_path) VALUES (?, ?, ?)",
+        (story_id, panel_id, image_path),
+    )
+
+    target_sql, target_params = _target_clause(panel_id)
+    cursor = await db.execute(
+        f"""
+        SELECT id, image_path FROM image_versions
+        WHERE story_id = ? AND {target_sql}
+        ORDER BY id DESC
+        LIMIT -1 OFFSET ?
+        """,
+        (story_id, *target_params, MAX_IMAGE_VERSIONS),
+    )
+    pruned_rows = await cursor.fetchall()
+    for row in pruned_rows:
+        await db.execute("DELETE FROM image_versions WHERE id = ?", (row["id"],))
+
+    return [row["image_path"] for row in pruned_rows]
+
+
+async def list_image_versions(
+    db: aiosqlite.Connection, story_id: int, panel_id: int | None
+) -> list[ImageVersionResponse]:
+    """List earlier images for one panel or the cover, newest first."""
+    target_sql, target_params = _target_clause(panel_id)
+    cursor = await db.execute(
+        f"""
+        SELECT id, image_path, created_at FROM image_versions
+        WHERE story_id = ? AND {target_sql}
+        ORDER BY id DESC
+        """,
+        (story_id, *target_params),
+    )
+    rows = await cursor.fetchall()
+    return [
+        ImageVersionResponse(id=row["id"], image_url=row["image_path"], created_at=row["created_at"]) for row in rows
+    ]
+
+
+async def pop_image_version(
+    db: aiosqlite.Connection, version_id: int, story_id: int, panel_id: int | None
+) -> str | None:
+    """Remove one version of the given target and return its image path."""
+    target_sql, target_params = _target_clause(panel_id)
+    cursor = await db.execute(
+        f"SELECT image_path FROM image_versions WHERE id = ? AND story_id = ? AND {target_sql}",
+        (version_id, story_id, *target_params),
+    )
+    row = await cursor.fetchone()
+    if not row:
+        return None
+
+    await db.execute("DELETE FROM image_versions WHERE id = ?", (version_id,))
+    return row["image_path"]
+
+
+async def list_version_image_paths(
+    db: aiosqlite.Connection, story_id: int, panel_ids: list[int] | None = None
+) -> list[str]:
+    """Return stored version images for a whole story, or only for ``panel_ids``."""
+    if panel_ids is None:
+        cursor = await db.execute("SELECT image_path FROM image_versions WHERE story_id = ?", (story_id,))
+    elif not panel_ids:
+        return []
+    else:
+        placeholders = ", ".join("?" for _ in panel_ids)
+        cursor = await db.execute(
+            f"SELECT image_path FROM image_versions WHERE story_id = ? AND panel_id IN ({placeholders})",
+            (story_id, *panel_ids),
+        )
+    return [row["image_path"] for row in await cursor.fetchall()]
@@ -0,0 +1,132 @@
+"""CRUD helpers for two-factor authentication: TOTP secrets, recovery codes and login challenges."""
+
+import aiosqlite
+
+
+async def get_user_mfa(db: aiosqlite.Connection, user_id: int) -> dict | None:
+    """Fetch a user's TOTP row (enrolled or still pending), or None."""
+    async with db.execute(
+        "SELECT user_id, totp_secret, enabled_at, last_used_step FROM user_mfa WHERE user_id = ?",
+        (user_id,),
+    ) as cursor:
+        row = await cursor.fetchone()
+    return dict(row) if row else None
+
+
+async def save_pending_totp_secret(db: aiosqlite.Connection, user_id: int, secret: str) -> None:
+    """Store a not-yet-confirmed TOTP secret, replacing an earlier pending one."""
+    await db.execute(
+        """
+        INSERT INTO user_mfa (user_id, totp_secret)
+        VALUES (?, ?)
+        ON CONFLICT(user_id) DO UPDATE SET
+            totp_secret = excluded.totp_secret,
+            enabled_at = NULL,
+            last_used_step = NULL,
+            created_at = CURRENT_TIMESTAMP
+        WHERE user_mfa.enabled_at IS NULL
+        """,
+        (user_id, secret),
+    )
+    await db.commit()
+
+
+async def enable_totp(
+    db: aiosqlite.Connection,
+    user_id: int,
+    time_step: int,
+    recovery_code_hashes: list[str],
+) -> None:
+    """Turn on the pending secret and replace the user's recovery codes in one transaction."""
+    await db.execute(
+        "UPDATE user_mfa SET enabled_at = CURRENT_TIMESTAMP, last_used_step = ? WHERE user_id = ?",
+        (time_step, user_id),
+    )
+    await db.execute("DELETE FROM mfa_recovery_codes WHERE user_id = ?", (user_id,))
+    await db.executemany(
+        "INSERT INTO mfa_recovery_codes (code_hash, user_id) VALUES (?, ?)",
+        [(code_hash, user_id) for code_hash in recovery_code_hashes],
+    )
+    await db.commit()
+
+
+async def record_totp_step(db: aiosqlite.Connection, user_id: int, time_step: int) -> bool:
+    """
+    Mark a TOTP time step as used. Returns False when it (or a later one) already was,
+    so each code signs in at most once.
+    """
+    cursor = await db.execute(
+        """
+        UPDATE user_mfa SET last_used_step = ?
+        WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)
+        """,
+        (time_step, user_id, time_step),
+    )
+    await db.commit()
+    return cursor.rowcount > 0
+
+
+async def consume_recovery_code(db: aiosqlite.Connection, user_id: int, code_hash: str) -> bool:
+    """Delete one of the user's recovery codes. Returns False when it was not theirs or already used."""
+    cursor = await db.execute(
+        "DELETE FROM mfa_recovery_codes WHERE code_hash = ? AND user_id = ?",
+        (code_hash, user_id),
+    )
+    await db.commit()
+    return cursor.rowcount > 0
+
+
+async def count_recovery_codes(db: aiosqlite.Connection, user_id: int) -> int:
+    """Return how many unused recovery codes the user has left."""
+    async with db.execute("SELECT COUNT(*) FROM mfa_recovery_codes WHERE user_id = ?", (user_id,)) as cursor:
+        row = await cursor.fetchone()
+    return row[0]
+
+
+async def delete_user_mfa(db: aiosqlite.Connection, user_id: int) -> None:
+    """Remove the user's TOTP secret, recovery codes and open challenges."""
+    await db.execute("DELETE FROM user_mfa WHERE user_id = ?", (user_id,))
+    await db.execute("DELETE FROM mfa_recovery_codes WHERE user_id = ?", (user_id,))
+    await db.execute("DELETE FROM mfa_challenges WHERE user_id = ?", (user_id,))
+    await db.commit()
+
+
+async def create_mfa_challenge(
+    db: aiosqlite.Connection,
+    token_hash: str,
+    user_id: int,
+    expires_at: str,
+) -> None:
+    """Store a login challenge hash and drop expired challenges."""
+    await db.execute("DELETE FROM mfa_challenges WHERE expires_at <= CURRENT_TIMESTAMP")
+    await db.execute(
+        "INSERT INTO mfa_challenges (token_hash, user_id, expires_at) VALUES (?, ?, ?)",
+        (token_hash, user_id, expires_at),
+    )
+    await db.commit()
+
+
+async def get_mfa_challenge_user(db: aiosqlite.Connection, token_hash: str, max_attempts: int) -> int | None:
+    """Return the user ID of an unexpired challenge that still has attempts left, or None."""
+    async with db.execute(
+        """
+        SELECT user_id FROM mfa_challenges
+        WHERE token_hash = ? AND expires_at > CURRENT_TIMESTAMP AND attempts < ?
+        """,
+        (token_hash, max_attempts),
+    ) as cursor:
+        row = await cursor.fetchone()
+    return row[0] if row else None
+
+
+async def record_failed_mfa_attempt(db: aiosqlite.Connection, token_hash: str) -> None:
+    """Count a wrong code against a challenge."""
+    await db.execute("UPDATE mfa_challenges SET attempts = attempts + 1 WHERE token_hash = ?", (token_hash,))
+    await db.commit()
+
+
+async def delete_mfa_challenge(db: aiosqlite.Connection, token_hash: str) -> bool:
+    """Spend a challenge. Returns False when another request already did."""
+    cursor = await db.execute("DELETE FROM mfa_challenges WHERE token_hash = ?", (token_hash,))
+    await db.commit()
+    return cursor.rowcount > 0
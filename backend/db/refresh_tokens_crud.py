@@ -0,0 +1,62 @@
+"""CRUD helpers for refresh tokens. Rows are keyed by a hash of the token, never the token itself."""
+
+import aiosqlite
+
+
+async def create_refresh_token(
+    db: aiosqlite.Connection,
+    token_hash: str,
+    user_id: int,
+    expires_at: str,
+) -> None:
+    """Store a refresh token hash and drop the user's expired ones."""
+    await db.execute(
+        "DELETE FROM refresh_tokens WHERE user_id = ? AND expires_at <= CURRENT_TIMESTAMP",
+        (user_id,),
+    )
+    await db.execute(
+        """
+        INSERT INTO refresh_tokens (token_hash, user_id, expires_at)
+        VALUES (?, ?, ?)
+        """,
+        (token_hash, user_id, expires_at),
+    )
+    await db.commit()
+
+
+async def consume_refresh_token(
+    db: aiosqlite.Connection,
+    token_hash: str,
+) -> int | None:
+    """Atomically delete an unexpired refresh token and return its user ID."""
+    cursor = await db.execute(
+        """
+        DELETE FROM refresh_tokens
+        WHERE token_hash = ? AND expires_at > CURRENT_TIMESTAMP
+        RETURNING user_id
+        """,
+        (token_hash,),
+    )
+    row = await cursor.fetchone()
+    await db.commit()
+    return row[0] if row else None
+
+
+async def delete_refresh_token(
+    db: aiosqlite.Connection,
+    token_hash: str,
+    user_id: int,
+) -> bool:
+    """Revoke one of the user's refresh tokens. Returns False when it was not theirs or already gone."""
+    cursor = await db.execute(
+        "DELETE FROM refresh_tokens WHERE token_hash = ? AND user_id = ?",
+        (token_hash, user_id),
+    )
+    await db.commit()
+    return cursor.rowcount > 0
+
+
+async def delete_user_refresh_tokens(db: aiosqlite.Connection, user_id: int) -> None:
+    """Revoke every refresh token the user holds, signing out all their sessions."""
+    await db.execute("DELETE FROM refresh_tokens WHERE user_id = ?", (user_id,))
+    await db.commit()
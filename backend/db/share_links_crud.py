@@ -0,0 +1,67 @@
+"""CRUD helpers for public story share links.
+
+A story has at most one active link: creating a new one revokes the previous
+link, and revoked or expired rows are kept so old URLs keep returning 404.
+"""
+
+import secrets
+from datetime import UTC, datetime, timedelta
+
+import aiosqlite
+
+from schemas.stories import StoryShareLinkResponse
+
+_SHARE_TOKEN_BYTES = 24
+
+_ACTIVE_LINK_CONDITION = "revoked_at IS NULL AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)"
+
+
+def _row_to_share_link(row: aiosqlite.Row) -> StoryShareLinkResponse:
+    return StoryShareLinkResponse(token=row["token"], expires_at=row["expires_at"], created_at=row["created_at"])
+
+
+async def get_active_share_link(db: aiosqlite.Connection, story_id: int) -> StoryShareLinkResponse | None:
+    """Return the link that currently opens the story, if any."""
+    cursor = await db.execute(
+        f"""
+        SELECT token, expires_at, created_at
+        FROM story_share_links
+        WHERE story_id = ? AND {_ACTIVE_LINK_CONDITION}
+        ORDER BY id DESC
+        LIMIT 1
+        """,
+        (story_id,),
+    )
+    row = await cursor.fetchone()
+    return _row_to_share_link(row) if row else None
+
+
+async def get_story_id_for_share_token(db: aiosqlite.Connection, token: str) -> int | None:
+    """Resolve an active token to its story id."""
+    cursor = await db.execute(
+        f"SELECT story_id FROM story_share_links WHERE token = ? AND {_ACTIVE_LINK_CONDITION}",
+        (token,),
+    )
+    row = await cursor.fetchone()
+    return row["story_id"] if row else None
+
+
+async def revoke_share_links(db: aiosqlite.Connection, story_id: int) -> None:
+    """Revoke every active link of a story. The caller commits."""
+    await db.execute(
+        "UPDATE story_share_links SET revoked_at = CURRENT_TIMESTAMP WHERE story_id = ? AND revoked_at IS NULL",
+        (story_id,),
+    )
+
+
+async def create_share_link(db: aiosqlite.Connection, story_id: int, expires_in_days: int | None) -> None:
+    """Replace the story's link with a fresh unguessable token. The caller commits."""
+    expires_at = None
+    if expires_in_days is not None:
+        expires_at = (datetime.now(UTC) + timedelta(days=expires_in_days)).strftime("%Y-%m-%d %H:%M:%S")
+
+    await revoke_share_links(db, story_id)
+    await db.execute(
+        "INSERT INTO story_share_links (story_id, token, expires_at) VALUES (?, ?, ?)",
+        (story_id, secrets.token_urlsafe(_SHARE_TOKEN_BYTES), expires_at),
+    )
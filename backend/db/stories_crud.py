@@ -1,22 +1,72 @@
-"""CRUD operations for stories."""
+"""CRUD operations for stories.
+
+Deleting a story from the library moves it to the trash, where it stays restorable for
+``TRASH_RETENTION_DAYS`` days; every library, friend and public view skips trashed stories.
+"""
 
 import aiosqlite
 
+from db.image_versions_crud import (
+    list_image_versions,
+    list_version_image_paths,
+    pop_image_version,
+    record_image_version,
+)
 from db.kid_profiles_crud import create_kid_profile, get_kid_profile
 from db.panels_crud import create_panels, get_panels_for_story
+from db.share_links_crud import (
+    create_share_link,
+    get_active_share_link,
+    get_story_id_for_share_token,
+    revoke_share_links,
+)
 from schemas.stories import (
+    ImageVersionResponse,
     KidProfileResponse,
     PanelResponse,
     StoryCreate,
     StoryListItem,
+    StoryPanelUpdate,
+    StoryRemixRequest,
     StoryResponse,
+    StorySearchFacets,
+    StorySearchQuery,
+    StorySearchResponse,
+    StorySeriesInfo,
+    StoryShareLinkResponse,
+    StorySort,
     StoryUpdatePanels,
     StoryVisibility,
+    TrashedStoryItem,
 )
-from services.image_storage import delete_local_image, save_base64_image
+from services.image_storage import copy_local_image, delete_local_image, save_base64_image
+
+TRASH_RETENTION_DAYS = 30
+
+_PURGE_AT = f"datetime(deleted_at, '+{TRASH_RETENTION_DAYS} days')"
+
+# Friends can open a story shared on its own or sitting on a collection shared with friends.
+_FRIEND_VISIBLE_CONDITION = """
+    stories.deleted_at IS NULL
+    AND (
+        stories.visibility = 'shared_with_friends'
+        OR EXISTS (
+            SELECT 1
+            FROM collection_stories cs
+            JOIN collections c ON c.id = cs.collection_id
+            WHERE cs.story_id = stories.id AND c.visibility = 'shared_with_friends'
+        )
+    )
+"""
 
 
-def _build_story_response(row, profile: KidProfileResponse, panels: list[PanelResponse]) -> StoryResponse:
+def _build_story_response(
+    row,
+    profile: KidProfileResponse,
+    panels: list[PanelResponse],
+    share_link: StoryShareLinkResponse | None = None,
+    series: StorySeriesInfo | None = None,
+) -> StoryResponse:
     """Map a story row plus related entities into the response model."""
     return StoryResponse(
         id=row["id"],
@@ -26,16 +76,75 @@ def _build_story_response(row, profile: KidProfileResponse, panels: list[PanelRe
         cover_image_prompt=row["cover_image_prompt"],
         cover_image_url=row["cover_image_path"],
         visibility=row["visibility"],
+        share_link=share_link,
         is_unlocked=bool(row["is_unlocked"]),
         created_at=row["created_at"],
         updated_at=row["updated_at"],
         profile=profile,
         panels=panels,
+        series=series,
     )
 
 
+async def _get_story_series(db: aiosqlite.Connection, row, *, friend_view: bool = False) -> StorySeriesInfo | None:
+    """Place a story in its series; a friend only steps through the episodes they can open."""
+    if row["series_id"] is None:
+        return None
+
+    visible = f"AND {_FRIEND_VISIBLE_CONDITION}" if friend_view else ""
+    cursor = await db.execute(
+        f"""
+        SELECT id FROM stories
+        WHERE user_id = ? AND series_id = ? AND deleted_at IS NULL {visible}
+        ORDER BY episode_number, id
+        """,
+        (row["user_id"], row["series_id"]),
+    )
+    episode_ids = [episode["id"] for episode in await cursor.fetchall()]
+    position = episode_ids.index(row["id"])
+    return StorySeriesInfo(
+        id=row["series_id"],
+        episode_number=row["episode_number"],
+        previous_story_id=episode_ids[position - 1] if position > 0 else None,
+        next_story_id=episode_ids[position + 1] if position + 1 < len(episode_ids) else None,
+    )
+
+
+async def _claim_next_episode(db: aiosqlite.Connection, previous_story_id: int, user_id: int) -> tuple[int, int]:
+    """Return the series id and episode number for a story continuing ``previous_story_id``.
+
+    A story continued for the first time becomes episode 1 of a new series named after its own id.
+    New episodes always go to the end, even when an earlier episode is the one continued.
+    """
+    cursor = await db.execute(
+        "SELECT id, series_id FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+        (previous_story_id, user_id),
+    )
+    previous = await cursor.fetchone()
+    if not previous:
+        raise ValueError("Story to continue not found")
+
+    series_id = previous["series_id"]
+    if series_id is None:
+        series_id = previous["id"]
+        await db.execute("UPDATE stories SET series_id = ?, episode_number = 1 WHERE id = ?", (series_id, series_id))
+
+    cursor = await db.execute(
+        "SELECT MAX(episode_number) AS last_episode FROM stories WHERE user_id = ? AND series_id = ?",
+        (user_id, series_id),
+    )
+    return series_id, (await cursor.fetchone())["last_episode"] + 1
+
+
 async def create_story(db: aiosqlite.Connection, story: StoryCreate, user_id: int) -> StoryResponse:
-    """Create a story with profile and panels."""
+    """Create a story with profile and panels.
+
+    Raises ValueError when ``continues_story_id`` is not one of the user's stories.
+    """
+    series_id = episode_number = None
+    if story.continues_story_id is not None:
+        series_id, episode_number = await _claim_next_episode(db, story.continues_story_id, user_id)
+
     profile_id = await create_kid_profile(db, story.profile, user_id)
 
     cover_filename = None
@@ -46,8 +155,8 @@ async def create_story(db: aiosqlite.Connection, story: StoryCreate, user_id: in
         """
         INSERT INTO stories (
             kid_profile_id, title, foreword, character_description,
-            cover_image_prompt, cover_image_path, user_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+            cover_image_prompt, cover_image_path, user_id, series_id, episode_number
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     """,
         (
             profile_id,
@@ -57,6 +166,8 @@ async def create_story(db: aiosqlite.Connection, story: StoryCreate, user_id: in
             story.cover_image_prompt,
             cover_filename,
             user_id,
+            series_id,
+            episode_number,
         ),
     )
     await db.commit()
@@ -67,50 +178,299 @@ async def create_story(db: aiosqlite.Connection, story: StoryCreate, user_id: in
     return await get_story_by_id(db, story_id, user_id)
 
 
+async def remix_story(
+    db: aiosqlite.Connection, story_id: int, user_id: int, remix: StoryRemixRequest
+) -> StoryResponse | None:
+    """Copy one of the user's stories into a new private draft written for ``remix.profile``.
+
+    The remix keeps the script and, when asked, copies of the images. It starts locked and outside
+    any series, and is finished through the same full-story generation as any other draft.
+    """
+    cursor = await db.execute(
+        "SELECT * FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL", (story_id, user_id)
+    )
+    source = await cursor.fetchone()
+    if not source:
+        return None
+
+    panel_cursor = await db.execute(
+        "SELECT panel_order, text, image_prompt, image_path FROM panels WHERE story_id = ? ORDER BY panel_order",
+        (story_id,),
+    )
+    source_panels = await panel_cursor.fetchall()
+
+    profile_id = await create_kid_profile(db, remix.profile, user_id)
+    cover_filename = copy_local_image(source["cover_image_path"], "cover") if remix.keep_images else None
+
+    cursor = await db.execute(
+        """
+        INSERT INTO stories (
+            kid_profile_id, title, foreword, character_description,
+            cover_image_prompt, cover_image_path, is_unlocked, user_id
+        ) VALUES (?, ?, ?, ?, ?, ?, 0, ?)
+    """,
+        (
+            profile_id,
+            source["title"],
+            source["foreword"],
+            source["character_description"],
+            source["cover_image_prompt"],
+            cover_filename,
+            user_id,
+        ),
+    )
+    remix_id = cursor.lastrowid
+
+    for panel in source_panels:
+        panel_filename = copy_local_image(panel["image_path"], f"panel_{remix_id}") if remix.keep_images else None
+        await db.execute(
+            """
+            INSERT INTO panels (story_id, panel_order, text, image_prompt, image_path)
+            VALUES (?, ?, ?, ?, ?)
+        """,
+            (remix_id, panel["panel_order"], panel["text"], panel["image_prompt"], panel_filename),
+        )
+    await db.commit()
+
+    return await get_story_by_id(db, remix_id, user_id)
+
+
 async def get_story_by_id(db: aiosqlite.Connection, story_id: int, user_id: int) -> StoryResponse | None:
-    """Get a complete story with profile and panels."""
-    cursor = await db.execute("SELECT * FROM stories WHERE id = ? AND user_id = ?", (story_id, user_id))
+    """Get a complete story with profile and panels; trashed stories are not found."""
+    cursor = await db.execute(
+        "SELECT * FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL", (story_id, user_id)
+    )
     row = await cursor.fetchone()
     if not row:
         return None
 
     profile = await get_kid_profile(db, row["kid_profile_id"])
     panels = await get_panels_for_story(db, story_id)
-    return _build_story_response(row, profile, panels)
+    return _build_story_response(
+        row, profile, panels, await _get_owner_share_link(db, row), await _get_story_series(db, row)
+    )
+
+
+async def _get_owner_share_link(db: aiosqlite.Connection, row) -> StoryShareLinkResponse | None:
+    """Only the owner's views carry the link, and only while the story is shared by link."""
+    if row["visibility"] != "public_link":
+        return None
+    return await get_active_share_link(db, row["id"])
 
 
 async def list_stories(db: aiosqlite.Connection, user_id: int) -> list[StoryListItem]:
     """Get all stories with summary info."""
     cursor = await db.execute(
         """
-        SELECT id, title, cover_image_path, visibility, is_unlocked, created_at, kid_profile_id
+        SELECT id, title, cover_image_path, visibility, is_unlocked, created_at, kid_profile_id,
+               series_id, episode_number
         FROM stories
-        WHERE user_id = ?
+        WHERE user_id = ? AND deleted_at IS NULL
         ORDER BY created_at DESC
     """,
         (user_id,),
     )
     rows = await cursor.fetchall()
 
-    results = []
-    for row in rows:
-        profile = await get_kid_profile(db, row["kid_profile_id"])
-        results.append(
-            StoryListItem(
-                id=row["id"],
-                title=row["title"],
-                cover_image_url=row["cover_image_path"],
-                visibility=row["visibility"],
-                is_unlocked=bool(row["is_unlocked"]),
-                created_at=row["created_at"],
-                profile=profile,
-            )
+    return [await _build_owner_list_item(db, row) for row in rows]
+
+
+async def _build_owner_list_item(db: aiosqlite.Connection, row) -> StoryListItem:
+    """Map a story summary row of the owner's library into the list model."""
+    return StoryListItem(
+        id=row["id"],
+        title=row["title"],
+        cover_image_url=row["cover_image_path"],
+        visibility=row["visibility"],
+        share_link=await _get_owner_share_link(db, row),
+        is_unlocked=bool(row["is_unlocked"]),
+        created_at=row["created_at"],
+        profile=await get_kid_profile(db, row["kid_profile_id"]),
+        series_id=row["series_id"],
+        episode_number=row["episode_number"],
+    )
+
+
+_STORY_SORT_ORDER: dict[StorySort, str] = {
+    "newest": "s.created_at DESC, s.id DESC",
+    "oldest": "s.created_at ASC, s.id ASC",
+    # Untitled drafts go last in both title orders.
+    "title": "s.title IS NULL, s.title COLLATE NOCASE ASC, s.id DESC",
+    "title_desc": "s.title IS NULL, s.title COLLATE NOCASE DESC, s.id DESC",
+}
+
+
+def _escape_like(text: str) -> str:
+    return text.replace("\\", "\\\\").replace("%", "\\%").replace("_", "\\_")
+
+
+def _build_story_search_filter(user_id: int, query: StorySearchQuery) -> tuple[str, list]:
+    """Build the WHERE clause shared by the page and count queries."""
+    clauses = ["s.user_id = ?", "s.deleted_at IS NULL"]
+    params: list = [user_id]
+
+    # Every word must appear in the title, the foreword or a caption.
+    for term in (query.q or "").split():
+        pattern = f"%{_escape_like(term)}%"
+        clauses.append(
+            """(
+                s.title LIKE ? ESCAPE '\\'
+                OR s.foreword LIKE ? ESCAPE '\\'
+                OR EXISTS (SELECT 1 FROM panels p WHERE p.story_id = s.id AND p.text LIKE ? ESCAPE '\\')
+            )"""
         )
-    return results
+        params.extend([pattern, pattern, pattern])
+
+    if query.hero:
+        clauses.append("LOWER(TRIM(kp.name)) = LOWER(TRIM(?))")
+        params.append(query.hero)
+    for column in ("archetype", "art_style", "language"):
+        value = getattr(query, column)
+        if value:
+            clauses.append(f"kp.{column} = ?")
+            params.append(value)
+    if query.visibility:
+        clauses.append("s.visibility = ?")
+        params.append(query.visibility)
+    if query.status:
+        clauses.append("s.is_unlocked = ?")
+        params.append(1 if query.status == "unlocked" else 0)
+
+    return " AND ".join(clauses), params
+
+
+async def _list_story_facet(db: aiosqlite.Connection, user_id: int, expression: str, column: str) -> list[str]:
+    cursor = await db.execute(
+        f"""
+        SELECT MIN({expression}) AS value
+        FROM stories s
+        JOIN kid_profiles kp ON kp.id = s.kid_profile_id
+        WHERE s.user_id = ? AND s.deleted_at IS NULL AND kp.{column} IS NOT NULL AND TRIM(kp.{column}) != ''
+        GROUP BY LOWER({expression})
+        ORDER BY value COLLATE NOCASE
+        """,
+        (user_id,),
+    )
+    return [row["value"] for row in await cursor.fetchall()]
+
+
+async def search_stories(db: aiosqlite.Connection, user_id: int, query: StorySearchQuery) -> StorySearchResponse:
+    """Get one page of the user's stories matching the search, filters and sort."""
+    where, params = _build_story_search_filter(user_id, query)
+    source = "FROM stories s JOIN kid_profiles kp ON kp.id = s.kid_profile_id"
+
+    cursor = await db.execute(f"SELECT COUNT(*) AS total {source} WHERE {where}", params)
+    total = (await cursor.fetchone())["total"]
+
+    cursor = await db.execute(
+        f"""
+        SELECT s.id, s.title, s.cover_image_path, s.visibility, s.is_unlocked, s.created_at, s.kid_profile_id,
+               s.series_id, s.episode_number
+        {source}
+        WHERE {where}
+        ORDER BY {_STORY_SORT_ORDER[query.sort]}
+        LIMIT ? OFFSET ?
+        """,
+        [*params, query.limit, query.offset],
+    )
+    rows = await cursor.fetchall()
+
+    facets = StorySearchFacets(
+        hero_names=await _list_story_facet(db, user_id, "TRIM(kp.name)", "name"),
+        archetypes=await _list_story_facet(db, user_id, "kp.archetype", "archetype"),
+        art_styles=await _list_story_facet(db, user_id, "kp.art_style", "art_style"),
+        languages=await _list_story_facet(db, user_id, "kp.language", "language"),
+    )
+    return StorySearchResponse(
+        items=[await _build_owner_list_item(db, row) for row in rows],
+        total=total,
+        limit=query.limit,
+        offset=query.offset,
+        facets=facets,
+    )
+
+
+async def _is_active_story(db: aiosqlite.Connection, story_id: int, user_id: int) -> bool:
+    """Return True when the story is the user's and not in the trash."""
+    cursor = await db.execute(
+        "SELECT 1 FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL", (story_id, user_id)
+    )
+    return await cursor.fetchone() is not None
+
+
+async def move_story_to_trash(db: aiosqlite.Connection, story_id: int, user_id: int) -> bool:
+    """Move a story to the trash; it keeps its panels, images, shelves and links until purged."""
+    cursor = await db.execute(
+        "UPDATE stories SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+        (story_id, user_id),
+    )
+    await db.commit()
+    return cursor.rowcount > 0
+
+
+async def restore_story(db: aiosqlite.Connection, story_id: int, user_id: int) -> StoryResponse | None:
+    """Take a story out of the trash, back to where it was in the library."""
+    cursor = await db.execute(
+        "UPDATE stories SET deleted_at = NULL WHERE id = ? AND user_id = ? AND deleted_at IS NOT NULL",
+        (story_id, user_id),
+    )
+    await db.commit()
+    if cursor.rowcount == 0:
+        return None
+    return await get_story_by_id(db, story_id, user_id)
+
+
+async def list_trashed_stories(db: aiosqlite.Connection, user_id: int) -> list[TrashedStoryItem]:
+    """List the user's trashed stories, most recently deleted first, after purging expired ones."""
+    await purge_expired_trash(db, user_id)
+    cursor = await db.execute(
+        f"""
+        SELECT id, title, cover_image_path, visibility, is_unlocked, created_at, kid_profile_id,
+               series_id, episode_number, deleted_at, {_PURGE_AT} AS purge_at
+        FROM stories
+        WHERE user_id = ? AND deleted_at IS NOT NULL
+        ORDER BY deleted_at DESC, id DESC
+        """,
+        (user_id,),
+    )
+    rows = await cursor.fetchall()
+
+    return [
+        TrashedStoryItem(
+            id=row["id"],
+            title=row["title"],
+            cover_image_url=row["cover_image_path"],
+            visibility=row["visibility"],
+            is_unlocked=bool(row["is_unlocked"]),
+            created_at=row["created_at"],
+            profile=await get_kid_profile(db, row["kid_profile_id"]),
+            series_id=row["series_id"],
+            episode_number=row["episode_number"],
+            deleted_at=row["deleted_at"],
+            purge_at=row["purge_at"],
+        )
+        for row in rows
+    ]
+
+
+async def purge_expired_trash(db: aiosqlite.Connection, user_id: int | None = None) -> int:
+    """Delete for good every story that has been in the trash too long; all users when ``user_id`` is None."""
+    owner_filter = "AND user_id = ?" if user_id is not None else ""
+    cursor = await db.execute(
+        f"""
+        SELECT id, user_id FROM stories
+        WHERE deleted_at IS NOT NULL AND {_PURGE_AT} <= CURRENT_TIMESTAMP {owner_filter}
+        """,
+        (user_id,) if user_id is not None else (),
+    )
+    expired = await cursor.fetchall()
+    for row in expired:
+        await delete_story(db, row["id"], row["user_id"])
+    return len(expired)
 
 
 async def delete_story(db: aiosqlite.Connection, story_id: int, user_id: int) -> bool:
-    """Delete a story and its associated images."""
+    """Delete a story and its associated images for good, whether or not it is in the trash."""
     cursor = await db.execute("SELECT cover_image_path FROM stories WHERE id = ? AND user_id = ?", (story_id, user_id))
     story_row = await cursor.fetchone()
     if not story_row:
@@ -125,6 +485,7 @@ async def delete_story(db: aiosqlite.Connection, story_id: int, user_id: int) ->
     for row in panel_rows:
         if row["image_path"]:
             image_paths.append(row["image_path"])
+    image_paths.extend(await list_version_image_paths(db, story_id))
 
     await db.execute("DELETE FROM stories WHERE id = ? AND user_id = ?", (story_id, user_id))
     await db.commit()
@@ -139,23 +500,42 @@ async def update_story_panels(
     db: aiosqlite.Connection, story_id: int, update: StoryUpdatePanels, user_id: int
 ) -> StoryResponse | None:
     """Update story and panel images."""
-    cursor = await db.execute("SELECT id FROM stories WHERE id = ? AND user_id = ?", (story_id, user_id))
+    cursor = await db.execute(
+        "SELECT id, cover_image_path FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL",
+        (story_id, user_id),
+    )
     row = await cursor.fetchone()
     if not row:
         return None
 
+    orphaned_image_paths: list[str] = []
+
     await db.execute(
         """
         UPDATE stories
-        SET is_unlocked = ?, updated_at = CURRENT_TIMESTAMP
+        SET is_unlocked = ?,
+            title = COALESCE(?, title),
+            foreword = COALESCE(?, foreword),
+            character_description = COALESCE(?, character_description),
+            cover_image_prompt = COALESCE(?, cover_image_prompt),
+            updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
     """,
-        (update.is_unlocked, story_id),
+        (
+            update.is_unlocked,
+            update.title,
+            update.foreword,
+            update.character_description,
+            update.cover_image_prompt,
+            story_id,
+        ),
     )
 
     if update.cover_image_base64:
         cover_filename = save_base64_image(update.cover_image_base64, "cover")
         if cover_filename:
+            if row["cover_image_path"]:
+                orphaned_image_paths += await record_image_version(db, story_id, None, row["cover_image_path"])
             await db.execute(
                 """
                 UPDATE stories SET cover_image_path = ?, updated_at = CURRENT_TIMESTAMP
@@ -164,48 +544,102 @@ async def update_story_panels(
                 (cover_filename, story_id),
             )
 
-    for panel in update.panels:
-        if panel.image_base64:
-            panel_filename = save_base64_image(panel.image_base64, f"panel_{story_id}")
+    if update.replace_panels:
+        orphaned_image_paths += await _replace_story_panels(db, story_id, update.panels)
+    else:
+        for panel in update.panels:
+            if panel.image_base64:
+                panel_filename = save_base64_image(panel.image_base64, f"panel_{story_id}")
+                await db.execute(
+                    """
+                    UPDATE panels
+                    SET image_path = ?
+                    WHERE story_id = ? AND panel_order = ?
+                """,
+                    (panel_filename, story_id, panel.panel_order),
+                )
+
+    await db.commit()
+
+    for path in orphaned_image_paths:
+        delete_local_image(path)
+
+    return await get_story_by_id(db, story_id, user_id)
+
+
+async def _replace_story_panels(db: aiosqlite.Connection, story_id: int, panels: list[StoryPanelUpdate]) -> list[str]:
+    """Rewrite a story's panels to match ``panels`` and return images nothing uses anymore.
+
+    Panels that point back at an existing row keep that row, so their image
+    history survives re-ordering. Does not commit — caller owns the transaction.
+    """
+    cursor = await db.execute("SELECT id, panel_order, image_path FROM panels WHERE story_id = ?", (story_id,))
+    existing_rows = {row["panel_order"]: row for row in await cursor.fetchall()}
+
+    # Park every row outside the final range so UNIQUE(story_id, panel_order)
+    # cannot trip while rows move around.
+    await db.execute("UPDATE panels SET panel_order = -1 - panel_order WHERE story_id = ?", (story_id,))
+
+    reused_panel_ids: set[int] = set()
+    kept_image_paths: set[str] = set()
+    pruned_image_paths: list[str] = []
+    for panel in panels:
+        source_row = existing_rows.get(panel.source_panel_order) if panel.source_panel_order is not None else None
+        image_path = source_row["image_path"] if source_row else None
+
+        if source_row and source_row["id"] not in reused_panel_ids:
+            reused_panel_ids.add(source_row["id"])
+            if panel.image_base64:
+                if image_path:
+                    pruned_image_paths += await record_image_version(db, story_id, source_row["id"], image_path)
+                image_path = save_base64_image(panel.image_base64, f"panel_{story_id}")
             await db.execute(
                 """
                 UPDATE panels
-                SET image_path = ?
-                WHERE story_id = ? AND panel_order = ?
+                SET panel_order = ?, text = ?, image_prompt = ?, image_path = ?
+                WHERE id = ?
+            """,
+                (panel.panel_order, panel.text, panel.image_prompt, image_path, source_row["id"]),
+            )
+        else:
+            if panel.image_base64:
+                image_path = save_base64_image(panel.image_base64, f"panel_{story_id}")
+            await db.execute(
+                """
+                INSERT INTO panels (story_id, panel_order, text, image_prompt, image_path)
+                VALUES (?, ?, ?, ?, ?)
             """,
-                (panel_filename, story_id, panel.panel_order),
+                (story_id, panel.panel_order, panel.text, panel.image_prompt, image_path),
             )
 
-    await db.commit()
-    return await get_story_by_id(db, story_id, user_id)
+        if image_path:
+            kept_image_paths.add(image_path)
 
+    removed_rows = [row for row in existing_rows.values() if row["id"] not in reused_panel_ids]
+    removed_panel_ids = [row["id"] for row in removed_rows]
+    removed_image_paths = [row["image_path"] for row in removed_rows if row["image_path"]]
+    removed_image_paths += await list_version_image_paths(db, story_id, removed_panel_ids)
+    for panel_id in removed_panel_ids:
+        await db.execute("DELETE FROM panels WHERE id = ?", (panel_id,))
 
-async def update_panel_image(
-    db: aiosqlite.Connection, story_id: int, panel_order: int, image_base64: str, user_id: int
-) -> bool:
-    """Update a single panel's image."""
+    return [path for path in removed_image_paths if path not in kept_image_paths] + pruned_image_paths
+
+
+async def _get_owned_panel(db: aiosqlite.Connection, story_id: int, panel_order: int, user_id: int):
+    """Return the panel row at ``panel_order`` when the story belongs to ``user_id``."""
     cursor = await db.execute(
         """
-        SELECT p.id FROM panels p
+        SELECT p.id, p.image_path FROM panels p
         JOIN stories s ON p.story_id = s.id
-        WHERE p.story_id = ? AND p.panel_order = ? AND s.user_id = ?
+        WHERE p.story_id = ? AND p.panel_order = ? AND s.user_id = ? AND s.deleted_at IS NULL
     """,
         (story_id, panel_order, user_id),
     )
-    row = await cursor.fetchone()
-    if not row:
-        return False
+    return await cursor.fetchone()
 
-    panel_filename = save_base64_image(image_base64, f"panel_{story_id}")
-    await db.execute(
-        """
-        UPDATE panels
-        SET image_path = ?
-        WHERE story_id = ? AND panel_order = ?
-    """,
-        (panel_filename, story_id, panel_order),
-    )
 
+async def _touch_story(db: aiosqlite.Connection, story_id: int) -> None:
+    """Bump a story's updated_at. Does not commit."""
     await db.execute(
         """
         UPDATE stories
@@ -215,16 +649,129 @@ async def update_panel_image(
         (story_id,),
     )
 
+
+async def update_panel_image(
+    db: aiosqlite.Connection,
+    story_id: int,
+    panel_order: int,
+    image_base64: str,
+    user_id: int,
+    image_prompt: str | None = None,
+) -> bool:
+    """Update a single panel's image, keeping the replaced one as a version.
+
+    ``image_prompt`` replaces the stored prompt when the image was redrawn from scratch.
+    """
+    row = await _get_owned_panel(db, story_id, panel_order, user_id)
+    if not row:
+        return False
+
+    pruned_image_paths: list[str] = []
+    if row["image_path"]:
+        pruned_image_paths = await record_image_version(db, story_id, row["id"], row["image_path"])
+
+    panel_filename = save_base64_image(image_base64, f"panel_{story_id}")
+    await db.execute(
+        """
+        UPDATE panels
+        SET image_path = ?, image_prompt = COALESCE(?, image_prompt)
+        WHERE id = ?
+    """,
+        (panel_filename, image_prompt, row["id"]),
+    )
+    await _touch_story(db, story_id)
     await db.commit()
+
+    for path in pruned_image_paths:
+        delete_local_image(path)
+
     return True
 
 
+async def list_panel_image_versions(
+    db: aiosqlite.Connection, story_id: int, panel_order: int, user_id: int
+) -> list[ImageVersionResponse] | None:
+    """List earlier images of one owned panel, or None when the panel is not found."""
+    row = await _get_owned_panel(db, story_id, panel_order, user_id)
+    if not row:
+        return None
+    return await list_image_versions(db, story_id, row["id"])
+
+
+async def restore_panel_image_version(
+    db: aiosqlite.Connection, story_id: int, panel_order: int, version_id: int, user_id: int
+) -> str | None:
+    """Swap a panel's image with one of its versions and return the restored image path.
+
+    The image being replaced becomes a version itself, so a restore can be undone.
+    """
+    row = await _get_owned_panel(db, story_id, panel_order, user_id)
+    if not row:
+        return None
+
+    restored_path = await pop_image_version(db, version_id, story_id, row["id"])
+    if not restored_path:
+        return None
+
+    pruned_image_paths: list[str] = []
+    if row["image_path"]:
+        pruned_image_paths = await record_image_version(db, story_id, row["id"], row["image_path"])
+
+    await db.execute("UPDATE panels SET image_path = ? WHERE id = ?", (restored_path, row["id"]))
+    await _touch_story(db, story_id)
+    await db.commit()
+
+    for path in pruned_image_paths:
+        delete_local_image(path)
+
+    return restored_path
+
+
+async def list_cover_image_versions(
+    db: aiosqlite.Connection, story_id: int, user_id: int
+) -> list[ImageVersionResponse] | None:
+    """List earlier cover images of an owned story, or None when the story is not found."""
+    if not await _is_active_story(db, story_id, user_id):
+        return None
+    return await list_image_versions(db, story_id, None)
+
+
+async def restore_cover_image_version(
+    db: aiosqlite.Connection, story_id: int, version_id: int, user_id: int
+) -> str | None:
+    """Swap a story's cover with one of its versions and return the restored image path."""
+    cursor = await db.execute(
+        "SELECT cover_image_path FROM stories WHERE id = ? AND user_id = ? AND deleted_at IS NULL", (story_id, user_id)
+    )
+    story_row = await cursor.fetchone()
+    if not story_row:
+        return None
+
+    restored_path = await pop_image_version(db, version_id, story_id, None)
+    if not restored_path:
+        return None
+
+    pruned_image_paths: list[str] = []
+    if story_row["cover_image_path"]:
+        pruned_image_paths = await record_image_version(db, story_id, None, story_row["cover_image_path"])
+
+    await db.execute(
+        "UPDATE stories SET cover_image_path = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        (restored_path, story_id),
+    )
+    await db.commit()
+
+    for path in pruned_image_paths:
+        delete_local_image(path)
+
+    return restored_path
+
+
 async def update_story_visibility(
     db: aiosqlite.Connection, story_id: int, user_id: int, visibility: StoryVisibility
 ) -> StoryResponse | None:
     """Update the sharing visibility of an owned story."""
-    cursor = await db.execute("SELECT id FROM stories WHERE id = ? AND user_id = ?", (story_id, user_id))
-    if await cursor.fetchone() is None:
+    if not await _is_active_story(db, story_id, user_id):
         return None
 
     await db.execute(
@@ -235,47 +782,113 @@ async def update_story_visibility(
         """,
         (visibility, story_id, user_id),
     )
+    if visibility != "public_link":
+        await revoke_share_links(db, story_id)
+    await db.commit()
+    return await get_story_by_id(db, story_id, user_id)
+
+
+async def create_story_share_link(
+    db: aiosqlite.Connection, story_id: int, user_id: int, expires_in_days: int | None
+) -> StoryResponse | None:
+    """Share an owned story by public link, replacing any earlier link."""
+    if not await _is_active_story(db, story_id, user_id):
+        return None
+
+    await create_share_link(db, story_id, expires_in_days)
+    await db.execute(
+        """
+        UPDATE stories
+        SET visibility = 'public_link', updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND user_id = ?
+        """,
+        (story_id, user_id),
+    )
     await db.commit()
     return await get_story_by_id(db, story_id, user_id)
 
 
+async def revoke_story_share_link(db: aiosqlite.Connection, story_id: int, user_id: int) -> StoryResponse | None:
+    """Revoke the public link of an owned story and make it private again."""
+    return await update_story_visibility(db, story_id, user_id, "private")
+
+
+async def get_story_by_share_token(db: aiosqlite.Connection, token: str) -> StoryResponse | None:
+    """Get the story behind an active public link, without owner-only fields."""
+    story_id = await get_story_id_for_share_token(db, token)
+    if story_id is None:
+        return None
+
+    cursor = await db.execute(
+        "SELECT * FROM stories WHERE id = ? AND visibility = 'public_link' AND deleted_at IS NULL", (story_id,)
+    )
+    row = await cursor.fetchone()
+    if not row:
+        return None
+
+    profile = await get_kid_profile(db, row["kid_profile_id"])
+    panels = await get_panels_for_story(db, story_id)
+    return _build_story_response(row, profile, panels)
+
+
+def _build_shared_list_item(row, profile: KidProfileResponse) -> StoryListItem:
+    """Map a story summary row seen by a friend; share links stay with the owner."""
+    return StoryListItem(
+        id=row["id"],
+        title=row["title"],
+        cover_image_url=row["cover_image_path"],
+        visibility=row["visibility"],
+        is_unlocked=bool(row["is_unlocked"]),
+        created_at=row["created_at"],
+        profile=profile,
+        series_id=row["series_id"],
+        episode_number=row["episode_number"],
+    )
+
+
 async def list_shared_stories_for_friend(db: aiosqlite.Connection, owner_user_id: int) -> list[StoryListItem]:
     """List all friend-shared stories for a given owner."""
     cursor = await db.execute(
         """
-        SELECT id, title, cover_image_path, visibility, is_unlocked, created_at, kid_profile_id
+        SELECT id, title, cover_image_path, visibility, is_unlocked, created_at, kid_profile_id,
+               series_id, episode_number
         FROM stories
-        WHERE user_id = ? AND visibility = 'shared_with_friends'
+        WHERE user_id = ? AND visibility = 'shared_with_friends' AND deleted_at IS NULL
         ORDER BY created_at DESC
         """,
         (owner_user_id,),
     )
     rows = await cursor.fetchall()
 
-    results = []
-    for row in rows:
-        profile = await get_kid_profile(db, row["kid_profile_id"])
-        results.append(
-            StoryListItem(
-                id=row["id"],
-                title=row["title"],
-                cover_image_url=row["cover_image_path"],
-                visibility=row["visibility"],
-                is_unlocked=bool(row["is_unlocked"]),
-                created_at=row["created_at"],
-                profile=profile,
-            )
-        )
-    return results
+    return [_build_shared_list_item(row, await get_kid_profile(db, row["kid_profile_id"])) for row in rows]
 
 
-async def get_shared_story_by_id(db: aiosqlite.Connection, story_id: int, owner_user_id: int) -> StoryResponse | None:
-    """Get one story shared by a given owner."""
+async def list_stories_in_collection(
+    db: aiosqlite.Connection, collection_id: int, *, for_owner: bool
+) -> list[StoryListItem]:
+    """List a collection's stories, most recently added first."""
     cursor = await db.execute(
         """
-        SELECT * FROM stories
-        WHERE id = ? AND user_id = ? AND visibility = 'shared_with_friends'
+        SELECT s.id, s.title, s.cover_image_path, s.visibility, s.is_unlocked, s.created_at, s.kid_profile_id,
+               s.series_id, s.episode_number
+        FROM collection_stories cs
+        JOIN stories s ON s.id = cs.story_id
+        WHERE cs.collection_id = ? AND s.deleted_at IS NULL
+        ORDER BY cs.added_at DESC, cs.rowid DESC
         """,
+        (collection_id,),
+    )
+    rows = await cursor.fetchall()
+
+    if for_owner:
+        return [await _build_owner_list_item(db, row) for row in rows]
+    return [_build_shared_list_item(row, await get_kid_profile(db, row["kid_profile_id"])) for row in rows]
+
+
+async def get_shared_story_by_id(db: aiosqlite.Connection, story_id: int, owner_user_id: int) -> StoryResponse | None:
+    """Get one story shared by a given owner, on its own or through a shared collection."""
+    cursor = await db.execute(
+        f"SELECT * FROM stories WHERE id = ? AND user_id = ? AND {_FRIEND_VISIBLE_CONDITION}",
         (story_id, owner_user_id),
     )
     row = await cursor.fetchone()
@@ -284,4 +897,4 @@ async def get_shared_story_by_id(db: aiosqlite.Connection, story_id: int, owner_
 
     profile = await get_kid_profile(db, row["kid_profile_id"])
     panels = await get_panels_for_story(db, story_id)
-    return _build_story_response(row, profile, panels)
+    return _build_story_response(row, profile, panels, series=await _get_story_series(db, row, friend_view=True))
@@ -73,6 +73,9 @@ async def update_user(
     if email is not None:
         updates.append("email = ?")
         values.append(email)
+        if email != current_user["email"]:
+            # A new address has to be verified again.
+            updates.append("email_verified_at = NULL")
     if not updates:
         return current_user
 
@@ -91,6 +94,27 @@ async def update_user(
     return await get_user_by_id(db, user_id)
 
 
+async def mark_email_verified(db: aiosqlite.Connection, user_id: int) -> None:
+    """Record that the user proved they own their email address."""
+    await db.execute(
+        """
+        UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+        WHERE id = ?
+        """,
+        (user_id,),
+    )
+    await db.commit()
+
+
+async def update_password(db: aiosqlite.Connection, user_id: int, password: str) -> None:
+    """Replace a user's password (also gives OAuth-only users one)."""
+    await db.execute(
+        "UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        (hash_password(password), user_id),
+    )
+    await db.commit()
+
+
 async def update_avatar(db: aiosqlite.Connection, user_id: int, avatar_path: str) -> Row | None:
     """Update a user's avatar path."""
     current_user = await get_user_by_id(db, user_id)
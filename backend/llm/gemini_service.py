@@ -17,10 +17,18 @@ from google.genai import types
 
 from llm.streaming import StoryIntroStreamer
 from metrics import gemini_failures_total, gemini_request_duration_seconds
-from schemas import GenerateStoryScriptResponse, KidProfileCreate
+from schemas import CastMemberCreate, GenerateStoryScriptResponse, KidProfileCreate, PreviousEpisode
 
 STORY_SCRIPT_MODEL = "gemini-3-flash-preview"
 INTRO_FIELDS: tuple[str, ...] = ("title", "foreword")
+DEFAULT_PANEL_COUNT = 10
+DEFAULT_READING_LEVEL = "developing"
+READING_LEVEL_GUIDES: dict[str, str] = {
+    "early": "Very simple words a beginning reader can sound out, 3-6 words per panel",
+    "developing": "Simple vocabulary, 6-10 words per panel",
+    "fluent": "Richer vocabulary and one or two full sentences, 10-20 words per panel",
+}
+CAST_LABEL_PREFIX = "Featuring: "
 
 load_dotenv(Path(__file__).resolve().parent.parent.parent / ".env")
 
@@ -108,10 +116,76 @@ async def with_retry(fn, max_retries: int = 3, base_delay: float = 2.0):
     raise last_error
 
 
-def _build_story_script_prompt(profile: KidProfileCreate) -> str:
+def _panel_range(first: int, last: int) -> str:
+    return f"Panel {first}" if first == last else f"Panels {first}-{last}"
+
+
+def _build_story_structure(panel_count: int) -> str:
+    """Split ``panel_count`` panels into setup, conflict and resolution beats.
+
+    Ten panels keep the original 3/4/3 split; short stories collapse the
+    beats that no longer have a panel of their own.
+    """
+    if panel_count < 3:
+        return "Introduce the hero, then resolve the adventure happily."
+
+    outer = max(1, round(panel_count * 0.3))
+    setup_end = outer
+    conflict_end = panel_count - outer
+    return (
+        f"{_panel_range(1, setup_end)} setup, "
+        f"{_panel_range(setup_end + 1, conflict_end)} conflict, "
+        f"{_panel_range(conflict_end + 1, panel_count)} resolution."
+    )
+
+
+def _reference_photos(profile: KidProfileCreate) -> list[str]:
+    """Reference photos in the order the prompt numbers them: hero first, then the cast."""
+    photos = [profile.photo_base64] if profile.photo_base64 else []
+    photos.extend(member.photo_base64 for member in profile.cast if member.photo_base64)
+    return photos
+
+
+def _describe_cast_member(member: CastMemberCreate, photo_number: int | None) -> str:
+    if photo_number is not None:
+        looks = f"the {member.role} in attached photo {photo_number}"
+    elif member.role == "pet":
+        looks = f"a pet with {member.hair_color} fur and {member.eye_color} eyes"
+    else:
+        looks = (
+            f"a {member.gender or 'neutral'} child ({member.role}) with "
+            f"{member.skin_tone or 'any'} skin, {member.hair_color} hair, {member.eye_color} eyes"
+        )
+    return f"- {member.name}: {looks}"
+
+
+def _build_cast_section(profile: KidProfileCreate) -> str:
+    """List the extra characters, numbering their photos after the hero's."""
+    photo_number = 2 if profile.photo_base64 else 1
+    lines = []
+    for member in profile.cast:
+        lines.append(_describe_cast_member(member, photo_number if member.photo_base64 else None))
+        if member.photo_base64:
+            photo_number += 1
+    return "\n".join(lines)
+
+
+def _build_continuity_section(previous_episode: PreviousEpisode) -> str:
+    """Tell the model which episode came before, so the series keeps its characters and history."""
+    return f"""PREVIOUS EPISODE: "{previous_episode.title}"
+WHAT HAPPENED: {previous_episode.summary}
+CONTINUITY: This story is the next episode. Open with a short nod to what happened, then tell a new, complete adventure.
+Start characterDescription from the previous one below. Keep every returning character's looks and outfits word for word
+and only add new characters:
+{previous_episode.character_description}
+"""
+
+
+def _build_story_script_prompt(profile: KidProfileCreate, previous_episode: PreviousEpisode | None = None) -> str:
     """Build the Gemini prompt used for both batch and streaming generation."""
     if profile.photo_base64:
-        hero_desc = f"The child in the attached photo ({profile.gender})"
+        photo_label = "attached photo 1" if len(_reference_photos(profile)) > 1 else "the attached photo"
+        hero_desc = f"The child in {photo_label} ({profile.gender})"
     else:
         hero_desc = (
             f"A {profile.gender} child with {profile.skin_tone} skin, "
@@ -129,27 +203,55 @@ def _build_story_script_prompt(profile: KidProfileCreate) -> str:
             "Keep characterDescription, coverImagePrompt, and imagePrompt in English.\n"
         )
 
-    return f"""{language_instruction}Create a 10-panel children's comic story. Simple vocabulary, 6-10 words per panel.
+    panel_count = profile.panel_count or DEFAULT_PANEL_COUNT
+    reading_guide = READING_LEVEL_GUIDES[profile.reading_level or DEFAULT_READING_LEVEL]
 
-HERO: {hero_desc}, depicted as a 5-6 year old. Do NOT age up.
-THEME: {theme}. Favorite color: {profile.favorite_color}. Art style: {profile.art_style or "classic comic"}.
-STRUCTURE: Panels 1-3 setup, 4-7 conflict, 8-10 resolution.
+    if profile.cast:
+        cast_block = f"CAST (everyone joins the adventure):\n{_build_cast_section(profile)}\n"
+        cast_instruction = (
+            f'In characterDescription, describe the hero as "{profile.name}" and every CAST member by name, '
+            "each with physical traits and outfits for visual consistency.\n"
+            f'In each panel, list in characters the names of everyone who appears, using "{profile.name}" for the hero.'
+        )
+        name_rule = "Write names in story text and the characters list only, not inside imagePrompt."
+    else:
+        cast_block = ""
+        cast_instruction = (
+            "In characterDescription, describe the hero + a companion with physical traits and outfits "
+            "for visual consistency."
+        )
+        name_rule = f'Use hero\'s name "{profile.name}" only in story text, not image prompts.'
+    continuity_block = _build_continuity_section(previous_episode) if previous_episode else ""
+
+    return f"""{language_instruction}Create a {panel_count}-panel children's comic story. {reading_guide}.
 
-In characterDescription, describe the hero + a companion with physical traits and outfits for visual consistency.
+HERO: {hero_desc}, depicted as a 5-6 year old. Do NOT age up.
+{cast_block}THEME: {theme}. Favorite color: {profile.favorite_color}. Art style: {profile.art_style or "classic comic"}.
+STRUCTURE: {_build_story_structure(panel_count)} Return exactly {panel_count} panels.
+{continuity_block}
+{cast_instruction}
 In coverImagePrompt, use a dynamic cinematic composition (no side-by-side posing).
 In each panel imagePrompt, use cinematic angles and show characters interacting — NEVER facing the camera.
-Foreword: max 30 words. Use hero's name "{profile.name}" only in story text, not image prompts."""
+Foreword: max 30 words. {name_rule}"""
 
 
-def _build_story_script_contents(prompt: str, photo_base64: str | None) -> list | str:
-    """Wrap the text prompt with an optional reference photo part."""
-    if not photo_base64:
+def _build_story_script_contents(prompt: str, photos: list[str]) -> list | str:
+    """Wrap the text prompt with the reference photo parts, in prompt order."""
+    if not photos:
         return prompt
-    image_data = types.Part.from_bytes(
-        data=base64.b64decode(photo_base64),
-        mime_type="image/png",
-    )
-    return [image_data, prompt]
+    image_parts = [types.Part.from_bytes(data=base64.b64decode(photo), mime_type="image/png") for photo in photos]
+    return [*image_parts, prompt]
+
+
+def _label_panel_casts(script: GenerateStoryScriptResponse) -> GenerateStoryScriptResponse:
+    """Start each image prompt with who appears, so every panel image gets the same cast cue.
+
+    Revisions copy unchanged prompts verbatim, so already-labelled prompts are left alone.
+    """
+    for panel in script.panels:
+        if panel.characters and not panel.imagePrompt.startswith(CAST_LABEL_PREFIX):
+            panel.imagePrompt = f"{CAST_LABEL_PREFIX}{', '.join(panel.characters)}. {panel.imagePrompt}"
+    return script
 
 
 _STORY_SCRIPT_CONFIG: dict[str, Any] = {
@@ -160,11 +262,12 @@ _STORY_SCRIPT_CONFIG: dict[str, Any] = {
 
 async def generate_story_script(
     profile: KidProfileCreate,
+    previous_episode: PreviousEpisode | None = None,
 ) -> dict:
-    """Generate a 10-panel story script."""
+    """Generate a story script with the profile's panel count and reading level."""
 
-    prompt = _build_story_script_prompt(profile)
-    contents = _build_story_script_contents(prompt, profile.photo_base64)
+    prompt = _build_story_script_prompt(profile, previous_episode)
+    contents = _build_story_script_contents(prompt, _reference_photos(profile))
 
     async def _generate() -> dict:
         response = await _get_client().aio.models.generate_content(
@@ -172,7 +275,7 @@ async def generate_story_script(
             contents=contents,
             config=_STORY_SCRIPT_CONFIG,
         )
-        result = GenerateStoryScriptResponse.model_validate_json(response.text)
+        result = _label_panel_casts(GenerateStoryScriptResponse.model_validate_json(response.text))
         return result.model_dump()
 
     start = time.perf_counter()
@@ -185,26 +288,8 @@ async def generate_story_script(
         raise
 
 
-async def generate_story_script_stream(
-    profile: KidProfileCreate,
-) -> AsyncIterator[dict]:
-    """Stream a 10-panel story script.
-
-    Yields a sequence of event dicts as Gemini emits JSON text:
-
-    * ``{"type": "intro_delta", "field": "title" | "foreword", "delta": "..."}``
-      for each chunk of the story title or foreword.
-    * ``{"type": "script", "script": <full script dict>}`` once the complete
-      structured response has been validated.
-
-    Gemini streaming cannot be transparently retried after the first chunk has
-    been yielded, so this generator intentionally does not wrap itself in
-    :func:`with_retry`. Callers should fall back to
-    :func:`generate_story_script` if they need retry semantics.
-    """
-    prompt = _build_story_script_prompt(profile)
-    contents = _build_story_script_contents(prompt, profile.photo_base64)
-
+async def _stream_story_script(contents: list | str, operation: str) -> AsyncIterator[dict]:
+    """Stream a structured story script, yielding intro deltas and then the validated script."""
     start = time.perf_counter()
     try:
         response_stream = await _get_client().aio.models.generate_content_stream(
@@ -228,20 +313,83 @@ async def generate_story_script_stream(
                     "delta": event.delta,
                 }
 
-        result = GenerateStoryScriptResponse.model_validate_json(raw_json)
+        result = _label_panel_casts(GenerateStoryScriptResponse.model_validate_json(raw_json))
         yield {"type": "script", "script": result.model_dump()}
-        gemini_request_duration_seconds.labels(operation="script_stream").observe(time.perf_counter() - start)
+        gemini_request_duration_seconds.labels(operation=operation).observe(time.perf_counter() - start)
     except Exception:
-        gemini_failures_total.labels(operation="script_stream").inc()
+        gemini_failures_total.labels(operation=operation).inc()
         raise
 
 
+async def generate_story_script_stream(
+    profile: KidProfileCreate,
+    previous_episode: PreviousEpisode | None = None,
+) -> AsyncIterator[dict]:
+    """Stream a story script with the profile's panel count and reading level.
+
+    Yields a sequence of event dicts as Gemini emits JSON text:
+
+    * ``{"type": "intro_delta", "field": "title" | "foreword", "delta": "..."}``
+      for each chunk of the story title or foreword.
+    * ``{"type": "script", "script": <full script dict>}`` once the complete
+      structured response has been validated.
+
+    Gemini streaming cannot be transparently retried after the first chunk has
+    been yielded, so this generator intentionally does not wrap itself in
+    :func:`with_retry`. Callers should fall back to
+    :func:`generate_story_script` if they need retry semantics.
+    """
+    prompt = _build_story_script_prompt(profile, previous_episode)
+    contents = _build_story_script_contents(prompt, _reference_photos(profile))
+
+    async for event in _stream_story_script(contents, "script_stream"):
+        yield event
+
+
+def _build_story_revision_prompt(script: GenerateStoryScriptResponse, instruction: str, language: str | None) -> str:
+    """Build the Gemini prompt that rewrites an existing script."""
+    language_code = (language or "").strip().lower()
+    language_name = LANGUAGE_LABELS.get(language_code, "")
+    language_instruction = ""
+    if language_name and language_code != "en":
+        language_instruction = (
+            f"Keep ALL story text (title, foreword, panel text) in {language_name}. "
+            "Keep characterDescription, coverImagePrompt, and imagePrompt in English.\n"
+        )
+
+    return f"""{language_instruction}Revise this children's comic story script according to the parent's request.
+
+REQUEST: {instruction}
+
+CURRENT SCRIPT (JSON):
+{script.model_dump_json()}
+
+Apply the request and change nothing else. Keep the same hero and art direction unless the request changes them.
+Keep simple vocabulary, 6-10 words per panel, and a foreword of max 30 words.
+Keep the same number of panels unless the request asks for a shorter or longer story.
+For every panel whose scene is unchanged, copy its imagePrompt exactly.
+Number panel ids "1", "2", "3"... in their new order."""
+
+
+async def revise_story_script_stream(
+    script: GenerateStoryScriptResponse,
+    instruction: str,
+    language: str | None = None,
+) -> AsyncIterator[dict]:
+    """Stream a rewrite of ``script`` using the same events as :func:`generate_story_script_stream`."""
+    prompt = _build_story_revision_prompt(script, instruction, language)
+
+    async for event in _stream_story_script(prompt, "script_revision_stream"):
+        yield event
+
+
 async def generate_panel_image(prompt: str, cast_guide: str, style: str | None = None) -> str:
     """Generate a comic panel image, returns base64 encoded image."""
 
     async def _generate():
         full_prompt = f"""Children's comic panel. {get_style_prompt(style)}
 Characters: {cast_guide}. Hero is a 5-6 year old child — do NOT age up.
+When the scene starts with "{CAST_LABEL_PREFIX.strip()}", draw exactly those characters, each as described above.
 Scene: {prompt}.
 Cinematic angles, characters interact with each other/world — NEVER face the camera. Full-bleed, borderless."""
 
@@ -13,16 +13,34 @@ from prometheus_fastapi_instrumentator import Instrumentator
 from starlette.middleware.sessions import SessionMiddleware
 
 from config import get_config
-from db.database import init_db
-from routers import api_keys, auth, backup, friend, generation, health, monitoring, public_stories, stories, user
+from db.database import get_db, init_db
+from db.stories_crud import purge_expired_trash
+from routers import (
+    api_keys,
+    auth,
+    backup,
+    collections,
+    friend,
+    generation,
+    health,
+    heroes,
+    mfa,
+    monitoring,
+    public_stories,
+    stories,
+    user,
+)
 
 
 @asynccontextmanager
 async def lifespan(app: FastAPI):
-    """Initialize the database on startup."""
+    """Initialize the database and empty expired trash on startup."""
     config = get_config()
     print(f"Starting WonderComic API with frontend URL: {config.frontend_url}")
     await init_db()
+    # Trashed stories whose time ran out while the API was down.
+    async for db in get_db():
+        await purge_expired_trash(db)
     yield
 
 
@@ -44,7 +62,7 @@ app.add_middleware(
     allow_origins=allowed_origins,
     allow_credentials=True,
     allow_methods=["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allow_headers=["Content-Type", "Authorization", "X-API-Key"],
+    allow_headers=["Content-Type", "Authorization", "X-API-Key", "X-Auth-Session", "X-CSRF-Token"],
 )
 
 app.add_middleware(
@@ -76,9 +94,12 @@ app.mount("/images", StaticFiles(directory=str(images_dir)), name="images")
 app.include_router(auth.router)
 app.include_router(api_keys.router)
 app.include_router(user.router)
+app.include_router(mfa.router)
 app.include_router(friend.router)
 app.include_router(generation.router)
 app.include_router(stories.router)
+app.include_router(collections.router)
+app.include_router(heroes.router)
 app.include_router(public_stories.router)
 app.include_router(monitoring.router)
 app.include_router(backup.router)
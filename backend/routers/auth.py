@@ -2,12 +2,14 @@
 Auth router (local auth + OAuth entrypoints)
 """
 
-from fastapi import APIRouter, Depends, HTTPException, Request
+from fastapi import APIRouter, BackgroundTasks, Depends, HTTPException, Request, Response
 from fastapi.responses import RedirectResponse
 
 from auth_utils import (
+    ACCESS_TOKEN_EXPIRE_MINUTES,
     create_access_token,
     get_current_user,
+    get_optional_current_user,
     verify_password,
 )
 from config import get_config
@@ -15,28 +17,108 @@ from db.database import get_db
 from db.users_crud import (
     create_user,
     get_user_by_email,
+    get_user_by_id,
     get_user_by_username,
     set_online_status,
 )
 from schemas import (
+    EmailVerificationRequest,
     LoginRequest,
+    LogoutRequest,
+    MfaChallengeResponse,
+    MfaVerifyRequest,
     OauthExchangeRequest,
+    PasswordResetConfirmRequest,
+    PasswordResetRequest,
+    RefreshTokenRequest,
     SignupRequest,
     TokenResponse,
 )
+from services.account_emails import (
+    compose_password_reset_email,
+    compose_verification_email,
+    confirm_email_address,
+    deliver_email,
+    reset_password_with_token,
+)
+from services.auth_cookies import (
+    CSRF_TOKEN_COOKIE,
+    REFRESH_TOKEN_COOKIE,
+    clear_session_cookies,
+    new_csrf_token,
+    set_session_cookies,
+    verify_csrf,
+    wants_cookie_session,
+)
+from services.mfa import (
+    MFA_CHALLENGE_EXPIRE_MINUTES,
+    complete_mfa_challenge,
+    is_mfa_enabled,
+    issue_mfa_challenge,
+)
 from services.oauth.account_linking import resolve_google_login
 from services.oauth.client import get_google_oauth_client
 from services.oauth.result_store import (
     consume_oauth_result_code,
     issue_oauth_result_code,
 )
+from services.rate_limit import account_email_rate_limiter
+from services.refresh_tokens import (
+    issue_refresh_token,
+    revoke_presented_refresh_token,
+    revoke_refresh_token,
+    rotate_refresh_token,
+)
 
 router = APIRouter(prefix="/api/auth", tags=["auth"])
 
 
-@router.post("/signup", response_model=TokenResponse)
-async def signup(body: SignupRequest, db=Depends(get_db)):
-    """Signup: check email isn't taken, create user, return JWT token."""
+def _token_response(
+    request: Request,
+    response: Response,
+    user_id: int,
+    refresh_token: str,
+    csrf_token: str | None = None,
+) -> TokenResponse:
+    """
+    Pair a fresh access token with the refresh token that renews it. Cookie-session
+    clients get both as cookies instead, and only the CSRF token in the body.
+    """
+    access_token = create_access_token(user_id)
+    expires_in = ACCESS_TOKEN_EXPIRE_MINUTES * 60
+    if not wants_cookie_session(request):
+        return TokenResponse(access_token=access_token, refresh_token=refresh_token, expires_in=expires_in)
+
+    csrf_token = csrf_token or new_csrf_token()
+    set_session_cookies(response, access_token, expires_in, refresh_token, csrf_token)
+    return TokenResponse(token_type="cookie", expires_in=expires_in, csrf_token=csrf_token)
+
+
+async def _sign_in_response(
+    request: Request,
+    response: Response,
+    db,
+    user_id: int,
+) -> TokenResponse | MfaChallengeResponse:
+    """Finish a first-factor sign-in, or hand out a challenge when the account has two-factor on."""
+    if await is_mfa_enabled(db, user_id):
+        return MfaChallengeResponse(
+            mfa_token=await issue_mfa_challenge(db, user_id),
+            expires_in=MFA_CHALLENGE_EXPIRE_MINUTES * 60,
+        )
+    await set_online_status(db, user_id, True)
+    return _token_response(request, response, user_id, await issue_refresh_token(db, user_id))
+
+
+@router.post("/signup", response_model=TokenResponse, response_model_exclude_none=True)
+async def signup(
+    body: SignupRequest,
+    request: Request,
+    response: Response,
+    background_tasks: BackgroundTasks,
+    db=Depends(get_db),
+):
+    """Signup: check email isn't taken, create user, send the verification email, return JWT token."""
     # Check if username or email already exists
     if await get_user_by_email(db, body.email):
         raise HTTPException(status_code=400, detail="Email already taken")
@@ -44,14 +126,15 @@ async def signup(body: SignupRequest, db=Depends(get_db)):
         raise HTTPException(status_code=400, detail="Username already taken")
     # Create new user
     user_id = await create_user(db, body.username, body.email, body.password)
-    # Generate access token
-    access_token = create_access_token(user_id)
-    return TokenResponse(access_token=access_token)
+    user = {"id": user_id, "email": body.email, "username": body.username}
+    background_tasks.add_task(deliver_email, await compose_verification_email(db, user))
+    # Generate access and refresh tokens
+    return _token_response(request, response, user_id, await issue_refresh_token(db, user_id))
 
 
-@router.post("/login", response_model=TokenResponse)
-async def login(body: LoginRequest, db=Depends(get_db)):
-    """Login: verify password, set user online, return JWT token."""
+@router.post("/login", response_model=TokenResponse | MfaChallengeResponse, response_model_exclude_none=True)
+async def login(body: LoginRequest, request: Request, response: Response, db=Depends(get_db)):
+    """Login: verify password, then return JWT tokens, or an MFA challenge when two-factor is on."""
     # Fetch user by email
     user = await get_user_by_email(db, body.email)
     if not user:
@@ -61,20 +144,127 @@ async def login(body: LoginRequest, db=Depends(get_db)):
     # Verify password
     if not verify_password(body.password, user["password_hash"]):
         raise HTTPException(status_code=401, detail="Invalid email or password")
-    # Set user online
-    await set_online_status(db, user["id"], True)
-    # Generate access token
-    access_token = create_access_token(user["id"])
-    return TokenResponse(access_token=access_token)
+    return await _sign_in_response(request, response, db, user["id"])
+
+
+@router.post("/mfa/verify", response_model=TokenResponse, response_model_exclude_none=True)
+async def verify_mfa(body: MfaVerifyRequest, request: Request, response: Response, db=Depends(get_db)):
+    """Second login step: check a TOTP or recovery code against the challenge, then return JWT tokens."""
+    user_id = await complete_mfa_challenge(db, body.mfa_token, body.code)
+    await set_online_status(db, user_id, True)
+    return _token_response(request, response, user_id, await issue_refresh_token(db, user_id))
+
+
+@router.post("/refresh", response_model=TokenResponse, response_model_exclude_none=True)
+async def refresh(
+    request: Request,
+    response: Response,
+    body: RefreshTokenRequest | None = None,
+    db=Depends(get_db),
+):
+    """
+    Refresh: spend a refresh token for a new access token and a rotated refresh token.
+    The token comes from the body, or from the cookie session. A body token sent with
+    the cookie-session header moves a browser-held session into cookies.
+    """
+    csrf_token = None
+    if body is not None:
+        presented_token = body.refresh_token
+    else:
+        presented_token = request.cookies.get(REFRESH_TOKEN_COOKIE)
+        if presented_token is None:
+            raise HTTPException(status_code=401, detail="Invalid or expired refresh token")
+        verify_csrf(request)
+        csrf_token = request.cookies.get(CSRF_TOKEN_COOKIE)
+    user_id, refresh_token = await rotate_refresh_token(db, presented_token)
+    return _token_response(request, response, user_id, refresh_token, csrf_token)
 
 
 @router.post("/logout")
-async def logout(current_user=Depends(get_current_user), db=Depends(get_db)):
-    """Logout: validate jwt token, set offline."""
-    await set_online_status(db, current_user["id"], False)
+async def logout(
+    request: Request,
+    response: Response,
+    body: LogoutRequest | None = None,
+    current_user=Depends(get_optional_current_user),
+    db=Depends(get_db),
+):
+    """
+    Logout: revoke the refresh token, clear session cookies, set offline.
+    Once the access token has expired, the refresh token alone identifies the
+    session, so clients can still end it without renewing first.
+    """
+    refresh_token = body.refresh_token if body else None
+    if current_user is None:
+        if refresh_token is None and REFRESH_TOKEN_COOKIE in request.cookies:
+            # Cookie sessions prove the request is the app's own with the CSRF header.
+            verify_csrf(request)
+            refresh_token = request.cookies[REFRESH_TOKEN_COOKIE]
+        user_id = await revoke_presented_refresh_token(db, refresh_token) if refresh_token else None
+        if user_id is None:
+            raise HTTPException(
+                status_code=401,
+                detail="Could not validate credentials",
+                headers={"WWW-Authenticate": "Bearer"},
+            )
+    else:
+        user_id = current_user["id"]
+        refresh_token = refresh_token or request.cookies.get(REFRESH_TOKEN_COOKIE)
+        if refresh_token:
+            await revoke_refresh_token(db, user_id, refresh_token)
+    clear_session_cookies(response)
+    await set_online_status(db, user_id, False)
     return {"message": "Logged out successfully"}
 
 
+@router.post("/password-reset/request", status_code=202)
+async def request_password_reset(body: PasswordResetRequest, background_tasks: BackgroundTasks, db=Depends(get_db)):
+    """
+    Email a password-reset link. The answer is the same whether or not the address
+    has an account, so it cannot be used to find out who signed up.
+    """
+    user = await get_user_by_email(db, body.email)
+    if user is not None:
+        decision = await account_email_rate_limiter.check(f"reset:{user['id']}")
+        if decision.allowed:
+            background_tasks.add_task(deliver_email, await compose_password_reset_email(db, dict(user)))
+    return {"message": "If an account uses this email, a reset link is on its way."}
+
+
+@router.post("/password-reset/confirm", status_code=204)
+async def confirm_password_reset(body: PasswordResetConfirmRequest, db=Depends(get_db)):
+    """Set a new password with the token from a reset email; all existing sessions end."""
+    await reset_password_with_token(db, body.token, body.password)
+    return None
+
+
+@router.post("/verify-email", status_code=204)
+async def verify_email(body: EmailVerificationRequest, db=Depends(get_db)):
+    """Mark the address verified with the token from a verification email."""
+    await confirm_email_address(db, body.token)
+    return None
+
+
+@router.post("/verify-email/resend", status_code=202)
+async def resend_verification_email(
+    background_tasks: BackgroundTasks,
+    current_user=Depends(get_current_user),
+    db=Depends(get_db),
+):
+    """Send the current user a fresh verification link; earlier links stop working."""
+    user = await get_user_by_id(db, current_user["id"])
+    if user["email_verified_at"] is not None:
+        raise HTTPException(status_code=400, detail="Email is already verified")
+    decision = await account_email_rate_limiter.check(f"verify:{user['id']}")
+    if not decision.allowed:
+        raise HTTPException(
+            status_code=429,
+            detail="Verification email rate limit exceeded. Please try again later.",
+            headers={"Retry-After": str(decision.retry_after_seconds)},
+        )
+    background_tasks.add_task(deliver_email, await compose_verification_email(db, dict(user)))
+    return {"message": "Verification email sent"}
+
+
 @router.get("/oauth/google/start")
 async def start_google_oauth(request: Request):
     """Start Google OAuth flow by redirecting to provider's auth page."""
@@ -104,11 +294,14 @@ async def google_callback(request: Request, db=Depends(get_db)):
     return RedirectResponse(redirect_url)
 
 
-@router.post("/oauth/exchange", response_model=TokenResponse)
-async def oauth_exchange(body: OauthExchangeRequest, db=Depends(get_db)):
-    """Exchange a one-time OAuth result code for an app JWT token."""
+@router.post(
+    "/oauth/exchange",
+    response_model=TokenResponse | MfaChallengeResponse,
+    response_model_exclude_none=True,
+)
+async def oauth_exchange(body: OauthExchangeRequest, request: Request, response: Response, db=Depends(get_db)):
+    """Exchange a one-time OAuth result code for app tokens, or an MFA challenge when two-factor is on."""
     app_user_id = await consume_oauth_result_code(db, body.code)
     if not app_user_id:
         raise HTTPException(status_code=400, detail="Invalid or expired code")
-    access_token = create_access_token(app_user_id)
-    return TokenResponse(access_token=access_token)
+    return await _sign_in_response(request, response, db, app_user_id)
@@ -0,0 +1,162 @@
+"""
+Story collection (bookshelf) routes.
+
+URL contract (authoritative: tests/test_collection_routes.py):
+    GET    /api/collections                                   list the user's collections
+    POST   /api/collections                                   create a collection
+    GET    /api/collections/{collection_id}                   one collection with its stories
+    PATCH  /api/collections/{collection_id}                   rename or re-share
+    DELETE /api/collections/{collection_id}                   delete (stories stay in the library)
+    PUT    /api/collections/{collection_id}/stories/{story_id}  put a story on the collection
+    DELETE /api/collections/{collection_id}/stories/{story_id}  take a story off the collection
+    GET    /api/friends/{owner_user_id}/collections           collections a friend shares
+    GET    /api/friends/{owner_user_id}/collections/{collection_id}
+"""
+
+import aiosqlite
+from fastapi import APIRouter, Depends, HTTPException
+
+from auth_utils import get_current_user
+from db import collections_crud
+from db.database import get_db
+from db.friendships_crud import has_accepted_friendship
+from db.users_crud import get_user_by_id
+from schemas import (
+    CollectionCreateRequest,
+    CollectionDetailResponse,
+    CollectionResponse,
+    CollectionUpdateRequest,
+)
+
+router = APIRouter(prefix="/api", tags=["collections"])
+
+
+@router.get("/collections", response_model=list[CollectionResponse])
+async def list_collections(
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """List the current user's collections by name."""
+    return await collections_crud.list_collections(db, current_user["id"])
+
+
+@router.post("/collections", response_model=CollectionResponse)
+async def create_collection(
+    request: CollectionCreateRequest,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Create an empty collection."""
+    try:
+        return await collections_crud.create_collection(db, current_user["id"], request)
+    except ValueError as exc:
+        raise HTTPException(status_code=409, detail=str(exc)) from exc
+
+
+@router.get("/collections/{collection_id}", response_model=CollectionDetailResponse)
+async def get_collection(
+    collection_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Get one collection with its stories."""
+    collection = await collections_crud.get_collection(db, collection_id, current_user["id"])
+    if collection is None:
+        raise HTTPException(status_code=404, detail="Collection not found")
+    return collection
+
+
+@router.patch("/collections/{collection_id}", response_model=CollectionResponse)
+async def update_collection(
+    collection_id: int,
+    update: CollectionUpdateRequest,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Rename a collection or change who can see it."""
+    try:
+        collection = await collections_crud.update_collection(db, collection_id, current_user["id"], update)
+    except ValueError as exc:
+        raise HTTPException(status_code=409, detail=str(exc)) from exc
+    if collection is None:
+        raise HTTPException(status_code=404, detail="Collection not found")
+    return collection
+
+
+@router.delete("/collections/{collection_id}", status_code=204)
+async def delete_collection(
+    collection_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Delete a collection. The stories on it are kept."""
+    if not await collections_crud.delete_collection(db, collection_id, current_user["id"]):
+        raise HTTPException(status_code=404, detail="Collection not found")
+    return None
+
+
+@router.put("/collections/{collection_id}/stories/{story_id}", response_model=CollectionResponse)
+async def add_story_to_collection(
+    collection_id: int,
+    story_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Put one of the user's stories on a collection."""
+    collection = await collections_crud.add_story_to_collection(db, collection_id, story_id, current_user["id"])
+    if collection is None:
+        raise HTTPException(status_code=404, detail="Collection or story not found")
+    return collection
+
+
+@router.delete("/collections/{collection_id}/stories/{story_id}", response_model=CollectionResponse)
+async def remove_story_from_collection(
+    collection_id: int,
+    story_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Take a story off a collection; the story itself is kept."""
+    collection = await collections_crud.remove_story_from_collection(db, collection_id, story_id, current_user["id"])
+    if collection is None:
+        raise HTTPException(status_code=404, detail="Collection not found")
+    return collection
+
+
+async def _ensure_friend_can_browse_owner_collections(
+    db: aiosqlite.Connection, requester_user_id: int, owner_user_id: int
+) -> None:
+    """Enforce friend access without leaking whether the owner exists."""
+    if requester_user_id == owner_user_id:
+        raise HTTPException(status_code=404, detail="Collection not found")
+
+    owner = await get_user_by_id(db, owner_user_id)
+    is_friend = await has_accepted_friendship(db, requester_user_id, owner_user_id)
+    if owner is None or not is_friend:
+        raise HTTPException(status_code=404, detail="Collection not found")
+
+
+@router.get("/friends/{owner_user_id}/collections", response_model=list[CollectionResponse])
+async def list_friend_shared_collections(
+    owner_user_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """List the collections one accepted friend shares."""
+    await _ensure_friend_can_browse_owner_collections(db, current_user["id"], owner_user_id)
+    return await collections_crud.list_shared_collections_for_friend(db, owner_user_id)
+
+
+@router.get("/friends/{owner_user_id}/collections/{collection_id}", response_model=CollectionDetailResponse)
+async def get_friend_shared_collection(
+    owner_user_id: int,
+    collection_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Load one collection an accepted friend shares, with its stories."""
+    await _ensure_friend_can_browse_owner_collections(db, current_user["id"], owner_user_id)
+    collection = await collections_crud.get_shared_collection_for_friend(db, collection_id, owner_user_id)
+    if collection is None:
+        raise HTTPException(status_code=404, detail="Collection not found")
+    return collection
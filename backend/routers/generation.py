@@ -26,6 +26,9 @@ from llm.gemini_service import (
 from llm.gemini_service import (
     generate_story_script_stream as gen_script_stream,
 )
+from llm.gemini_service import (
+    revise_story_script_stream as revise_script_stream,
+)
 from metrics import stories_generation_in_progress, story_funnel_total
 from schemas import (
     EditPanelImageRequest,
@@ -37,6 +40,8 @@ from schemas import (
     GenerateStoryScriptRequest,
     GenerateStoryScriptResponse,
     PanelCreate,
+    PreviousEpisode,
+    ReviseStoryScriptRequest,
     StoryCreate,
 )
 from services.rate_limit import generation_rate_limiter
@@ -61,6 +66,23 @@ async def require_generation_quota(current_user: dict = Depends(get_current_user
     )
 
 
+async def _load_previous_episode(
+    db: aiosqlite.Connection, request: GenerateStoryScriptRequest, user_id: int
+) -> PreviousEpisode | None:
+    """Collect the continuity context of the story being continued, if any."""
+    if request.continues_story_id is None:
+        return None
+
+    story = await stories_crud.get_story_by_id(db, request.continues_story_id, user_id)
+    if not story:
+        raise HTTPException(status_code=404, detail="Story to continue not found")
+    return PreviousEpisode(
+        title=story.title or "Untitled",
+        character_description=story.character_description or "",
+        summary=" ".join(panel.text for panel in story.panels),
+    )
+
+
 @router.post("/stories/generate", response_model=GenerateAndSaveStoryResponse)
 async def generate_and_save_story(
     request: GenerateAndSaveStoryRequest,
@@ -140,13 +162,15 @@ async def generate_and_save_story(
 @router.post("/generate/story-script", response_model=GenerateStoryScriptResponse)
 async def generate_story_script(
     request: GenerateStoryScriptRequest,
+    db: aiosqlite.Connection = Depends(get_db),
     current_user: dict = Depends(require_generation_quota),
 ):
     """Generate a story script using Gemini AI."""
+    previous_episode = await _load_previous_episode(db, request, current_user["id"])
     story_funnel_total.labels(stage="script_sync", status="started").inc()
     stories_generation_in_progress.inc()
     try:
-        result = await gen_script(profile=request.profile)
+        result = await gen_script(profile=request.profile, previous_episode=previous_episode)
         story_funnel_total.labels(stage="script_sync", status="completed").inc()
         return result
     except Exception as e:
@@ -159,22 +183,23 @@ async def generate_story_script(
 
 
 async def _stream_story_script_events(
-    request: GenerateStoryScriptRequest,
+    events: AsyncIterator[dict],
+    stage: str,
 ) -> AsyncIterator[bytes]:
-    """Yield NDJSON lines for the streaming story-script endpoint.
+    """Yield NDJSON lines for the streaming story-script endpoints.
 
     Errors are surfaced as a final ``{"type": "error", ...}`` event rather
     than an HTTP failure, because headers are already on the wire by the time
     Gemini might reject a request mid-stream.
     """
-    story_funnel_total.labels(stage="script_stream", status="started").inc()
+    story_funnel_total.labels(stage=stage, status="started").inc()
     stories_generation_in_progress.inc()
     try:
-        async for event in gen_script_stream(profile=request.profile):
+        async for event in events:
             yield (json.dumps(event) + "\n").encode("utf-8")
-        story_funnel_total.labels(stage="script_stream", status="completed").inc()
+        story_funnel_total.labels(stage=stage, status="completed").inc()
     except Exception as err:
-        story_funnel_total.labels(stage="script_stream", status="failed").inc()
+        story_funnel_total.labels(stage=stage, status="failed").inc()
         print(f"Streaming story script error: {err}")
         traceback.print_exc()
         error_event = {
@@ -189,6 +214,7 @@ async def _stream_story_script_events(
 @router.post("/generate/story-script/stream")
 async def generate_story_script_stream_endpoint(
     request: GenerateStoryScriptRequest,
+    db: aiosqlite.Connection = Depends(get_db),
     current_user: dict = Depends(require_generation_quota),
 ) -> StreamingResponse:
     """Stream story-script generation as NDJSON events.
@@ -199,9 +225,35 @@ async def generate_story_script_stream_endpoint(
     * ``{"type": "intro_delta", "field": "title" | "foreword", "delta": "..."}``
     * ``{"type": "script", "script": <GenerateStoryScriptResponse>}``
     * ``{"type": "error", "message": "..."}``
+
+    An unknown ``continues_story_id`` is rejected with 404 before streaming starts.
     """
+    previous_episode = await _load_previous_episode(db, request, current_user["id"])
+    return StreamingResponse(
+        _stream_story_script_events(
+            gen_script_stream(profile=request.profile, previous_episode=previous_episode), "script_stream"
+        ),
+        media_type=NDJSON_MEDIA_TYPE,
+        headers={"X-Accel-Buffering": "no"},
+    )
+
+
+@router.post("/generate/story-script/revise/stream")
+async def revise_story_script_stream_endpoint(
+    request: ReviseStoryScriptRequest,
+    current_user: dict = Depends(require_generation_quota),
+) -> StreamingResponse:
+    """Stream a rewrite of an existing script, following a plain-language instruction.
+
+    Uses the same NDJSON events as ``/generate/story-script/stream``.
+    """
+    events = revise_script_stream(
+        script=request.script,
+        instruction=request.instruction,
+        language=request.language,
+    )
     return StreamingResponse(
-        _stream_story_script_events(request),
+        _stream_story_script_events(events, "script_revision_stream"),
         media_type=NDJSON_MEDIA_TYPE,
         headers={"X-Accel-Buffering": "no"},
     )
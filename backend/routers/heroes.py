@@ -0,0 +1,34 @@
+"""Saved heroes library routes."""
+
+import aiosqlite
+from fastapi import APIRouter, Depends, HTTPException
+
+from auth_utils import get_current_user
+from db import heroes_crud
+from db.database import get_db
+from schemas import HeroResponse, HeroUpdateRequest
+
+router = APIRouter(prefix="/api/heroes", tags=["heroes"])
+
+
+@router.get("", response_model=list[HeroResponse])
+async def list_heroes(
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """List the distinct heroes of the current user's stories."""
+    return await heroes_crud.list_heroes(db, current_user["id"])
+
+
+@router.patch("/{hero_id}", response_model=HeroResponse)
+async def update_hero(
+    hero_id: int,
+    request: HeroUpdateRequest,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Rename a hero or change their look across all of their stories."""
+    hero = await heroes_crud.update_hero(db, current_user["id"], hero_id, request)
+    if hero is None:
+        raise HTTPException(status_code=404, detail="Hero not found")
+    return hero
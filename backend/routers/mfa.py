@@ -0,0 +1,43 @@
+"""Two-factor settings router (TOTP enrolment, recovery codes, turning it off)."""
+
+from fastapi import APIRouter, Depends
+
+from auth_utils import get_current_user
+from db.database import get_db
+from schemas import (
+    MfaCodeRequest,
+    MfaStatusResponse,
+    RecoveryCodesResponse,
+    TotpEnrolmentResponse,
+)
+from services.mfa import confirm_totp_enrolment, disable_mfa, get_mfa_status, start_totp_enrolment
+
+router = APIRouter(prefix="/api/users/me/mfa", tags=["mfa"])
+
+
+@router.get("", response_model=MfaStatusResponse)
+async def read_mfa_status(current_user=Depends(get_current_user), db=Depends(get_db)):
+    """Return whether two-factor is on for the current user."""
+    enabled, recovery_codes_remaining = await get_mfa_status(db, current_user["id"])
+    return MfaStatusResponse(enabled=enabled, recovery_codes_remaining=recovery_codes_remaining)
+
+
+@router.post("/totp", response_model=TotpEnrolmentResponse)
+async def start_totp(current_user=Depends(get_current_user), db=Depends(get_db)):
+    """Start TOTP setup: a new secret to scan, not active until a code confirms it."""
+    secret, otpauth_uri = await start_totp_enrolment(db, current_user)
+    return TotpEnrolmentResponse(secret=secret, otpauth_uri=otpauth_uri)
+
+
+@router.post("/totp/confirm", response_model=RecoveryCodesResponse)
+async def confirm_totp(body: MfaCodeRequest, current_user=Depends(get_current_user), db=Depends(get_db)):
+    """Finish TOTP setup with a code from the app; returns the recovery codes, shown only this once."""
+    recovery_codes = await confirm_totp_enrolment(db, current_user["id"], body.code)
+    return RecoveryCodesResponse(recovery_codes=recovery_codes)
+
+
+@router.post("/disable", status_code=204)
+async def turn_off_mfa(body: MfaCodeRequest, current_user=Depends(get_current_user), db=Depends(get_db)):
+    """Turn two-factor off after checking a current code or a recovery code."""
+    await disable_mfa(db, current_user["id"], body.code)
+    return None
@@ -56,7 +56,10 @@ async def create_public_story(
     api_key_context: dict = Depends(require_public_api_quota),
 ):
     """Create a story owned by the API key owner."""
-    result = await stories_crud.create_story(db, story, api_key_context["user_id"])
+    try:
+        result = await stories_crud.create_story(db, story, api_key_context["user_id"])
+    except ValueError as exc:
+        raise HTTPException(status_code=404, detail=str(exc)) from exc
     if result is None:
         raise HTTPException(status_code=500, detail="Failed to create story")
     return result
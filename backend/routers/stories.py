@@ -2,8 +2,10 @@
 Story CRUD API routes.
 """
 
+from typing import Annotated
+
 import aiosqlite
-from fastapi import APIRouter, Depends, HTTPException
+from fastapi import APIRouter, Depends, HTTPException, Query
 
 from auth_utils import get_current_user
 from db import stories_crud
@@ -12,11 +14,18 @@ from db.friendships_crud import has_accepted_friendship
 from db.users_crud import get_user_by_id
 from metrics import story_funnel_total
 from schemas import (
+    ImageVersionResponse,
+    RestoreImageVersionResponse,
     StoryCreate,
     StoryListItem,
+    StoryRemixRequest,
     StoryResponse,
+    StorySearchQuery,
+    StorySearchResponse,
+    StoryShareLinkCreateRequest,
     StoryUpdatePanels,
     StoryVisibilityUpdateRequest,
+    TrashedStoryItem,
     UpdatePanelImageRequest,
 )
 
@@ -29,7 +38,11 @@ async def create_story(
 ):
     """Create a new story with profile and panels."""
     story_funnel_total.labels(stage="save", status="started").inc()
-    result = await stories_crud.create_story(db, story, current_user["id"])
+    try:
+        result = await stories_crud.create_story(db, story, current_user["id"])
+    except ValueError as exc:
+        story_funnel_total.labels(stage="save", status="failed").inc()
+        raise HTTPException(status_code=404, detail=str(exc)) from exc
     if not result:
         story_funnel_total.labels(stage="save", status="failed").inc()
         raise HTTPException(status_code=500, detail="Failed to create story")
@@ -43,6 +56,24 @@ async def list_stories(db: aiosqlite.Connection = Depends(get_db), current_user:
     return await stories_crud.list_stories(db, current_user["id"])
 
 
+@router.get("/stories/search", response_model=StorySearchResponse)
+async def search_stories(
+    query: Annotated[StorySearchQuery, Query()],
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Search, filter, sort and page the user's stories for the gallery."""
+    return await stories_crud.search_stories(db, current_user["id"], query)
+
+
+@router.get("/stories/trash", response_model=list[TrashedStoryItem])
+async def list_trashed_stories(
+    db: aiosqlite.Connection = Depends(get_db), current_user: dict = Depends(get_current_user)
+):
+    """List stories in the trash with the date each one is deleted for good."""
+    return await stories_crud.list_trashed_stories(db, current_user["id"])
+
+
 @router.get("/stories/{story_id}", response_model=StoryResponse)
 async def get_story(
     story_id: int, db: aiosqlite.Connection = Depends(get_db), current_user: dict = Depends(get_current_user)
@@ -62,6 +93,11 @@ async def update_story(
     current_user: dict = Depends(get_current_user),
 ):
     """Update story panels."""
+    if update.replace_panels:
+        panel_orders = sorted(panel.panel_order for panel in update.panels)
+        if not panel_orders or panel_orders != list(range(len(panel_orders))):
+            raise HTTPException(status_code=422, detail="Panels must be numbered from 0 without gaps")
+
     result = await stories_crud.update_story_panels(db, story_id, update, current_user["id"])
     if not result:
         raise HTTPException(status_code=404, detail="Story not found")
@@ -82,6 +118,42 @@ async def update_story_visibility(
     return result
 
 
+@router.post("/stories/{story_id}/share-link", response_model=StoryResponse)
+async def create_story_share_link(
+    story_id: int,
+    request: StoryShareLinkCreateRequest,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Share one owned story by public link; any earlier link stops working."""
+    result = await stories_crud.create_story_share_link(db, story_id, current_user["id"], request.expires_in_days)
+    if not result:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return result
+
+
+@router.delete("/stories/{story_id}/share-link", response_model=StoryResponse)
+async def revoke_story_share_link(
+    story_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Revoke the public link of one owned story and make it private."""
+    result = await stories_crud.revoke_story_share_link(db, story_id, current_user["id"])
+    if not result:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return result
+
+
+@router.get("/shared-stories/{token}", response_model=StoryResponse)
+async def get_story_by_share_link(token: str, db: aiosqlite.Connection = Depends(get_db)):
+    """Load a story by its public link. No sign-in; revoked and expired links are 404."""
+    story = await stories_crud.get_story_by_share_token(db, token)
+    if not story:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return story
+
+
 @router.patch("/stories/{story_id}/panels/{panel_order}", status_code=204)
 async def update_panel_image(
     story_id: int,
@@ -91,17 +163,116 @@ async def update_panel_image(
     current_user: dict = Depends(get_current_user),
 ):
     """Update a single panel's image after editing."""
-    success = await stories_crud.update_panel_image(db, story_id, panel_order, update.image_base64, current_user["id"])
+    success = await stories_crud.update_panel_image(
+        db, story_id, panel_order, update.image_base64, current_user["id"], update.image_prompt
+    )
     if not success:
         raise HTTPException(status_code=404, detail="Panel not found")
     return None
 
 
+@router.get("/stories/{story_id}/panels/{panel_order}/versions", response_model=list[ImageVersionResponse])
+async def list_panel_image_versions(
+    story_id: int,
+    panel_order: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """List earlier images of one panel, newest first."""
+    versions = await stories_crud.list_panel_image_versions(db, story_id, panel_order, current_user["id"])
+    if versions is None:
+        raise HTTPException(status_code=404, detail="Panel not found")
+    return versions
+
+
+@router.post(
+    "/stories/{story_id}/panels/{panel_order}/versions/{version_id}/restore",
+    response_model=RestoreImageVersionResponse,
+)
+async def restore_panel_image_version(
+    story_id: int,
+    panel_order: int,
+    version_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Make an earlier image current again; the replaced image joins the history."""
+    image_path = await stories_crud.restore_panel_image_version(
+        db, story_id, panel_order, version_id, current_user["id"]
+    )
+    if not image_path:
+        raise HTTPException(status_code=404, detail="Image version not found")
+    return RestoreImageVersionResponse(image_url=image_path)
+
+
+@router.get("/stories/{story_id}/cover/versions", response_model=list[ImageVersionResponse])
+async def list_cover_image_versions(
+    story_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """List earlier cover images, newest first."""
+    versions = await stories_crud.list_cover_image_versions(db, story_id, current_user["id"])
+    if versions is None:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return versions
+
+
+@router.post("/stories/{story_id}/cover/versions/{version_id}/restore", response_model=RestoreImageVersionResponse)
+async def restore_cover_image_version(
+    story_id: int,
+    version_id: int,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Make an earlier cover current again; the replaced cover joins the history."""
+    image_path = await stories_crud.restore_cover_image_version(db, story_id, version_id, current_user["id"])
+    if not image_path:
+        raise HTTPException(status_code=404, detail="Image version not found")
+    return RestoreImageVersionResponse(image_url=image_path)
+
+
+@router.post("/stories/{story_id}/trash", status_code=204)
+async def move_story_to_trash(
+    story_id: int, db: aiosqlite.Connection = Depends(get_db), current_user: dict = Depends(get_current_user)
+):
+    """Move a story to the trash, where it can be restored for 30 days."""
+    moved = await stories_crud.move_story_to_trash(db, story_id, current_user["id"])
+    if not moved:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return None
+
+
+@router.post("/stories/{story_id}/restore", response_model=StoryResponse)
+async def restore_story(
+    story_id: int, db: aiosqlite.Connection = Depends(get_db), current_user: dict = Depends(get_current_user)
+):
+    """Take a story out of the trash."""
+    story = await stories_crud.restore_story(db, story_id, current_user["id"])
+    if not story:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return story
+
+
+@router.post("/stories/{story_id}/remix", response_model=StoryResponse)
+async def remix_story(
+    story_id: int,
+    request: StoryRemixRequest,
+    db: aiosqlite.Connection = Depends(get_db),
+    current_user: dict = Depends(get_current_user),
+):
+    """Copy a story into a new draft for another hero, art style or language."""
+    story = await stories_crud.remix_story(db, story_id, current_user["id"], request)
+    if not story:
+        raise HTTPException(status_code=404, detail="Story not found")
+    return story
+
+
 @router.delete("/stories/{story_id}", status_code=204)
 async def delete_story(
     story_id: int, db: aiosqlite.Connection = Depends(get_db), current_user: dict = Depends(get_current_user)
 ):
-    """Delete a story and its panels."""
+    """Delete a story and its panels for good."""
     deleted = await stories_crud.delete_story(db, story_id, current_user["id"])
     if not deleted:
         raise HTTPException(status_code=404, detail="Story not found")
@@ -2,12 +2,13 @@
 
 from pathlib import Path
 
-from fastapi import APIRouter, Depends, HTTPException, Query, UploadFile
+from fastapi import APIRouter, BackgroundTasks, Depends, HTTPException, Query, UploadFile
 
 from auth_utils import get_current_user
 from db.database import get_db
 from db.users_crud import get_user_by_id, search_users_by_username, update_user
 from schemas import PublicUserResponse, UserResponse, UserUpdateRequest
+from services.account_emails import compose_verification_email, deliver_email
 from services.avatar_upload import AvatarUploadError, replace_user_avatar
 
 router = APIRouter(prefix="/api/users", tags=["users"])
@@ -23,6 +24,7 @@ def _to_user_response(row) -> UserResponse:
         avatar_url=row["avatar_path"],  # frontend resolves to full url via getImageUrl()
         is_online=bool(row["is_online"]),
         is_admin=bool(row["is_admin"]),
+        email_verified=row["email_verified_at"] is not None,
         created_at=row["created_at"],
     )
 
@@ -48,14 +50,21 @@ async def get_my_profile(current_user=Depends(get_current_user), db=Depends(get_
 
 
 @router.patch("/me", response_model=UserResponse)
-async def update_my_profile(body: UserUpdateRequest, current_user=Depends(get_current_user), db=Depends(get_db)):
-    """Update the authenticated user's profile (username, email)."""
+async def update_my_profile(
+    body: UserUpdateRequest,
+    background_tasks: BackgroundTasks,
+    current_user=Depends(get_current_user),
+    db=Depends(get_db),
+):
+    """Update the authenticated user's profile (username, email). A new email gets a verification link."""
     try:
         updated_row = await update_user(db, current_user["id"], body.username, body.email)
     except ValueError as exc:
         raise HTTPException(status_code=409, detail=str(exc)) from exc
     if updated_row is None:
         raise HTTPException(status_code=404, detail="User not found")
+    if updated_row["email_verified_at"] is None and body.email is not None and body.email != current_user["email"]:
+        background_tasks.add_task(deliver_email, await compose_verification_email(db, dict(updated_row)))
     return _to_user_response(updated_row)
 
 
@@ -1,7 +1,24 @@
 """Public schema exports for backend request and response contracts."""
 
 from schemas.api_keys import ApiKeyCreateRequest, ApiKeyCreateResponse, ApiKeyResponse
-from schemas.auth import LoginRequest, OauthExchangeRequest, SignupRequest, TokenResponse
+from schemas.auth import (
+    EmailVerificationRequest,
+    LoginRequest,
+    LogoutRequest,
+    OauthExchangeRequest,
+    PasswordResetConfirmRequest,
+    PasswordResetRequest,
+    RefreshTokenRequest,
+    SignupRequest,
+    TokenResponse,
+)
+from schemas.collections import (
+    CollectionCreateRequest,
+    CollectionDetailResponse,
+    CollectionResponse,
+    CollectionUpdateRequest,
+    CollectionVisibility,
+)
 from schemas.friends import FriendResponse
 from schemas.generation import (
     EditPanelImageRequest,
@@ -13,18 +30,41 @@ from schemas.generation import (
     GeneratePanelImageResponse,
     GenerateStoryScriptRequest,
     GenerateStoryScriptResponse,
+    PreviousEpisode,
+    ReviseStoryScriptRequest,
+)
+from schemas.heroes import HeroResponse, HeroUpdateRequest
+from schemas.mfa import (
+    MfaChallengeResponse,
+    MfaCodeRequest,
+    MfaStatusResponse,
+    MfaVerifyRequest,
+    RecoveryCodesResponse,
+    TotpEnrolmentResponse,
 )
 from schemas.stories import (
+    CastMemberCreate,
+    ImageVersionResponse,
     KidProfileCreate,
     KidProfileResponse,
     PanelCreate,
     PanelResponse,
+    RestoreImageVersionResponse,
     StoryCreate,
     StoryListItem,
+    StoryPanelUpdate,
+    StoryRemixRequest,
     StoryResponse,
+    StorySearchFacets,
+    StorySearchQuery,
+    StorySearchResponse,
+    StorySeriesInfo,
+    StoryShareLinkCreateRequest,
+    StoryShareLinkResponse,
     StoryUpdatePanels,
     StoryVisibility,
     StoryVisibilityUpdateRequest,
+    TrashedStoryItem,
     UpdatePanelImageRequest,
 )
 from schemas.users import PublicUserResponse, UserResponse, UserUpdateRequest
@@ -33,8 +73,15 @@ __all__ = [
     "ApiKeyCreateRequest",
     "ApiKeyCreateResponse",
     "ApiKeyResponse",
+    "CastMemberCreate",
+    "CollectionCreateRequest",
+    "CollectionDetailResponse",
+    "CollectionResponse",
+    "CollectionUpdateRequest",
+    "CollectionVisibility",
     "EditPanelImageRequest",
     "EditPanelImageResponse",
+    "EmailVerificationRequest",
     "FriendResponse",
     "GenerateAndSaveStoryRequest",
     "GenerateAndSaveStoryResponse",
@@ -43,21 +90,46 @@ __all__ = [
     "GeneratedPanel",
     "GenerateStoryScriptRequest",
     "GenerateStoryScriptResponse",
+    "HeroResponse",
+    "HeroUpdateRequest",
+    "ImageVersionResponse",
     "KidProfileCreate",
     "KidProfileResponse",
     "LoginRequest",
+    "LogoutRequest",
+    "MfaChallengeResponse",
+    "MfaCodeRequest",
+    "MfaStatusResponse",
+    "MfaVerifyRequest",
     "OauthExchangeRequest",
     "PanelCreate",
     "PanelResponse",
+    "PasswordResetConfirmRequest",
+    "PasswordResetRequest",
+    "PreviousEpisode",
     "PublicUserResponse",
+    "RecoveryCodesResponse",
+    "RefreshTokenRequest",
+    "RestoreImageVersionResponse",
+    "ReviseStoryScriptRequest",
     "SignupRequest",
     "StoryCreate",
     "StoryListItem",
+    "StoryPanelUpdate",
+    "StoryRemixRequest",
     "StoryResponse",
+    "StorySearchFacets",
+    "StorySearchQuery",
+    "StorySearchResponse",
+    "StorySeriesInfo",
+    "StoryShareLinkCreateRequest",
+    "StoryShareLinkResponse",
     "StoryUpdatePanels",
     "StoryVisibility",
     "StoryVisibilityUpdateRequest",
     "TokenResponse",
+    "TotpEnrolmentResponse",
+    "TrashedStoryItem",
     "UpdatePanelImageRequest",
     "UserResponse",
     "UserUpdateRequest",
@@ -19,10 +19,47 @@ class LoginRequest(BaseModel):
 
 
 class TokenResponse(BaseModel):
-    """Response containing the authentication token."""
+    """
+    Response containing a short-lived access token and the refresh token that renews it.
+    Cookie sessions (token_type "cookie") get the tokens as cookies and a CSRF token here instead.
+    """
 
-    access_token: str
+    access_token: str | None = None
+    refresh_token: str | None = None
     token_type: str = "bearer"
+    expires_in: int  # seconds until the access token expires
+    csrf_token: str | None = None
+
+
+class RefreshTokenRequest(BaseModel):
+    """Request body for renewing an access token."""
+
+    refresh_token: str = Field(min_length=1)
+
+
+class LogoutRequest(BaseModel):
+    """Optional request body for logout; the refresh token given here is revoked."""
+
+    refresh_token: str | None = None
+
+
+class PasswordResetRequest(BaseModel):
+    """Request body for asking for a password-reset email."""
+
+    email: EmailStr
+
+
+class PasswordResetConfirmRequest(BaseModel):
+    """Request body for choosing a new password with the token from a reset email."""
+
+    token: str = Field(min_length=1)
+    password: str = Field(min_length=8, max_length=72)
+
+
+class EmailVerificationRequest(BaseModel):
+    """Request body carrying the token from a verification email."""
+
+    token: str = Field(min_length=1)
 
 
 class OauthExchangeRequest(BaseModel):
@@ -0,0 +1,48 @@
+"""Story collection (bookshelf) schemas."""
+
+from datetime import datetime
+from typing import Literal
+
+from pydantic import BaseModel, Field
+
+from schemas.stories import StoryListItem
+
+CollectionVisibility = Literal["private", "shared_with_friends"]
+
+COLLECTION_NAME_MAX_LENGTH = 60
+# At least one visible character; names are stored trimmed.
+_COLLECTION_NAME_PATTERN = r"\S"
+
+
+class CollectionCreateRequest(BaseModel):
+    """Input for creating a collection."""
+
+    name: str = Field(min_length=1, max_length=COLLECTION_NAME_MAX_LENGTH, pattern=_COLLECTION_NAME_PATTERN)
+    visibility: CollectionVisibility = "private"
+
+
+class CollectionUpdateRequest(BaseModel):
+    """Rename or re-share a collection; fields left as None keep their stored value."""
+
+    name: str | None = Field(
+        default=None, min_length=1, max_length=COLLECTION_NAME_MAX_LENGTH, pattern=_COLLECTION_NAME_PATTERN
+    )
+    visibility: CollectionVisibility | None = None
+
+
+class CollectionResponse(BaseModel):
+    """Collection summary; the cover is the newest story's cover."""
+
+    id: int
+    name: str
+    visibility: CollectionVisibility = "private"
+    story_count: int
+    cover_image_url: str | None = None
+    created_at: datetime
+    updated_at: datetime
+
+
+class CollectionDetailResponse(CollectionResponse):
+    """A collection with its stories, most recently added first."""
+
+    stories: list[StoryListItem] = []
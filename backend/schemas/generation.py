@@ -6,9 +6,21 @@ from schemas.stories import KidProfileCreate, StoryResponse
 
 
 class GenerateStoryScriptRequest(BaseModel):
-    """Request to generate a story script."""
+    """Request to generate a story script.
+
+    With ``continues_story_id`` the script is written as the next episode of that story.
+    """
 
     profile: KidProfileCreate
+    continues_story_id: int | None = None
+
+
+class PreviousEpisode(BaseModel):
+    """What the next episode of a series needs to know about the one before it."""
+
+    title: str
+    character_description: str
+    summary: str
 
 
 class GeneratedPanel(BaseModel):
@@ -17,6 +29,10 @@ class GeneratedPanel(BaseModel):
     id: str = Field(description="Panel identifier, e.g. '1', '2', '3'")
     text: str = Field(description="The narrative text for this panel, 8-12 words")
     imagePrompt: str = Field(description="Detailed image prompt for this panel with cinematic direction")
+    characters: list[str] = Field(
+        default_factory=list,
+        description="Names of the characters who appear in this panel",
+    )
 
 
 class GenerateStoryScriptResponse(BaseModel):
@@ -31,6 +47,14 @@ class GenerateStoryScriptResponse(BaseModel):
     panels: list[GeneratedPanel] = Field(description="List of story panels")
 
 
+class ReviseStoryScriptRequest(BaseModel):
+    """Request to rewrite an existing story script with a plain-language instruction."""
+
+    script: GenerateStoryScriptResponse
+    instruction: str = Field(min_length=1, max_length=500)
+    language: str | None = None
+
+
 class GenerateAndSaveStoryRequest(BaseModel):
     """Generate script, images, and save story."""
 
@@ -0,0 +1,34 @@
+"""Saved hero schemas built from the kid profiles of past stories."""
+
+from datetime import datetime
+from typing import Literal
+
+from pydantic import BaseModel, Field
+
+
+class HeroResponse(BaseModel):
+    """One distinct hero, described by the profile of its most recent story."""
+
+    id: int
+    name: str
+    gender: str
+    skin_tone: str
+    hair_color: str
+    eye_color: str
+    favorite_color: str
+    archetype: str | None = None
+    art_style: str | None = None
+    language: str | None = None
+    story_count: int
+    last_used_at: datetime
+
+
+class HeroUpdateRequest(BaseModel):
+    """Rename a hero or change how they look across all of their stories."""
+
+    name: str = Field(min_length=1, max_length=50)
+    gender: Literal["boy", "girl", "neutral"]
+    skin_tone: str = Field(min_length=1)
+    hair_color: str = Field(min_length=1)
+    eye_color: str = Field(min_length=1)
+    favorite_color: str = Field(min_length=1)
@@ -0,0 +1,44 @@
+"""Two-factor authentication request and response schemas."""
+
+from pydantic import BaseModel, Field
+
+
+class MfaChallengeResponse(BaseModel):
+    """Login response when the password was right but a second factor is still needed."""
+
+    mfa_required: bool = True
+    mfa_token: str
+    expires_in: int  # seconds until the challenge expires
+
+
+class MfaVerifyRequest(BaseModel):
+    """Request body for the second login step: a TOTP code or a recovery code."""
+
+    mfa_token: str = Field(min_length=1)
+    code: str = Field(min_length=1, max_length=32)
+
+
+class MfaCodeRequest(BaseModel):
+    """Request body carrying a code from the authenticator app (or a recovery code)."""
+
+    code: str = Field(min_length=1, max_length=32)
+
+
+class MfaStatusResponse(BaseModel):
+    """Whether two-factor authentication is on, and how many recovery codes are left."""
+
+    enabled: bool
+    recovery_codes_remaining: int
+
+
+class TotpEnrolmentResponse(BaseModel):
+    """A pending TOTP secret and the otpauth:// URI shown as a QR code."""
+
+    secret: str
+    otpauth_uri: str
+
+
+class RecoveryCodesResponse(BaseModel):
+    """One-time recovery codes, shown once when two-factor is turned on."""
+
+    recovery_codes: list[str]
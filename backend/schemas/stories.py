@@ -3,7 +3,21 @@
 from datetime import datetime
 from typing import Literal
 
-from pydantic import BaseModel
+from pydantic import BaseModel, Field
+
+MAX_CAST_MEMBERS = 4
+
+
+class CastMemberCreate(BaseModel):
+    """A sibling, friend or pet who joins the hero in the story."""
+
+    name: str = Field(min_length=1, max_length=50)
+    role: Literal["sibling", "friend", "pet"]
+    gender: Literal["boy", "girl", "neutral"] | None = None
+    skin_tone: str | None = None
+    hair_color: str
+    eye_color: str
+    photo_base64: str | None = None
 
 
 class KidProfileCreate(BaseModel):
@@ -20,6 +34,10 @@ class KidProfileCreate(BaseModel):
     art_style: str | None = None
     photo_base64: str | None = None
     language: str | None = None
+    # Generation-only settings; they shape the script but are not stored.
+    panel_count: int | None = Field(default=None, ge=1, le=16)
+    reading_level: Literal["early", "developing", "fluent"] | None = None
+    cast: list[CastMemberCreate] = Field(default_factory=list, max_length=MAX_CAST_MEMBERS)
 
 
 class KidProfileResponse(BaseModel):
@@ -68,9 +86,21 @@ class StoryCreate(BaseModel):
     cover_image_prompt: str | None = None
     cover_image_base64: str | None = None
     panels: list[PanelCreate] = []
+    # Saves the story as the next episode in the series of this earlier story.
+    continues_story_id: int | None = None
+
 
+StoryVisibility = Literal["private", "shared_with_friends", "public_link"]
 
-StoryVisibility = Literal["private", "shared_with_friends"]
+SHARE_LINK_MAX_DAYS = 365
+
+
+class StoryShareLinkResponse(BaseModel):
+    """The active public link of a story; ``expires_at`` is None for links that never expire."""
+
+    token: str
+    expires_at: datetime | None = None
+    created_at: datetime
 
 
 class StoryListItem(BaseModel):
@@ -80,9 +110,67 @@ class StoryListItem(BaseModel):
     title: str | None = None
     cover_image_url: str | None = None
     visibility: StoryVisibility = "private"
+    share_link: StoryShareLinkResponse | None = None
     is_unlocked: bool = True
     created_at: datetime
     profile: KidProfileResponse
+    series_id: int | None = None
+    episode_number: int | None = None
+
+
+class TrashedStoryItem(StoryListItem):
+    """A story in the trash; it is deleted for good at ``purge_at``."""
+
+    deleted_at: datetime
+    purge_at: datetime
+
+
+StorySort = Literal["newest", "oldest", "title", "title_desc"]
+
+STORY_PAGE_MAX_SIZE = 100
+
+
+class StorySearchQuery(BaseModel):
+    """Gallery search, filters, sort and page. Every filter is optional and they combine with AND."""
+
+    q: str | None = Field(default=None, max_length=100)
+    hero: str | None = None
+    archetype: str | None = None
+    art_style: str | None = None
+    language: str | None = None
+    visibility: StoryVisibility | None = None
+    status: Literal["draft", "unlocked"] | None = None
+    sort: StorySort = "newest"
+    limit: int = Field(default=24, ge=1, le=STORY_PAGE_MAX_SIZE)
+    offset: int = Field(default=0, ge=0)
+
+
+class StorySearchFacets(BaseModel):
+    """Filter values that occur in the user's whole library."""
+
+    hero_names: list[str] = []
+    archetypes: list[str] = []
+    art_styles: list[str] = []
+    languages: list[str] = []
+
+
+class StorySearchResponse(BaseModel):
+    """One page of matching stories plus the total match count."""
+
+    items: list[StoryListItem]
+    total: int
+    limit: int
+    offset: int
+    facets: StorySearchFacets
+
+
+class StorySeriesInfo(BaseModel):
+    """Where a story sits in its series, counting only the episodes the viewer can open."""
+
+    id: int
+    episode_number: int
+    previous_story_id: int | None = None
+    next_story_id: int | None = None
 
 
 class StoryResponse(BaseModel):
@@ -95,28 +183,84 @@ class StoryResponse(BaseModel):
     cover_image_prompt: str | None = None
     cover_image_url: str | None = None
     visibility: StoryVisibility = "private"
+    share_link: StoryShareLinkResponse | None = None
     is_unlocked: bool = True
     created_at: datetime
     updated_at: datetime
     profile: KidProfileResponse
     panels: list[PanelResponse] = []
+    series: StorySeriesInfo | None = None
+
+
+class StoryPanelUpdate(PanelCreate):
+    """Panel data for an update; may carry over the image of an existing panel."""
+
+    source_panel_order: int | None = None
 
 
 class StoryUpdatePanels(BaseModel):
-    """Request to update story panels."""
+    """Request to update story panels.
+
+    By default only the images in ``panels`` are applied. With
+    ``replace_panels`` the list becomes the story's complete panel layout:
+    captions and order are rewritten, missing panels are deleted, and new
+    panels are inserted. Script fields left as None keep their stored value.
+    """
 
     is_unlocked: bool = True
-    panels: list[PanelCreate] = []
+    panels: list[StoryPanelUpdate] = []
     cover_image_base64: str | None = None
+    replace_panels: bool = False
+    title: str | None = None
+    foreword: str | None = None
+    character_description: str | None = None
+    cover_image_prompt: str | None = None
 
 
 class UpdatePanelImageRequest(BaseModel):
-    """Request to update a single panel's image."""
+    """Request to update a single panel's image.
+
+    ``image_prompt`` is sent when the image was redrawn from a rewritten prompt.
+    """
 
     image_base64: str
+    image_prompt: str | None = None
+
+
+class ImageVersionResponse(BaseModel):
+    """An earlier image of a panel or cover that can be restored."""
+
+    id: int
+    image_url: str
+    created_at: datetime
+
+
+class RestoreImageVersionResponse(BaseModel):
+    """The image that is current after restoring a version."""
+
+    image_url: str
 
 
 class StoryVisibilityUpdateRequest(BaseModel):
-    """Request to update story sharing visibility."""
+    """Request to update story sharing visibility.
+
+    ``public_link`` needs a token, so it is only set through the share-link endpoints.
+    """
+
+    visibility: Literal["private", "shared_with_friends"]
 
-    visibility: StoryVisibility
+
+class StoryShareLinkCreateRequest(BaseModel):
+    """Request to create a public link; without ``expires_in_days`` the link never expires."""
+
+    expires_in_days: int | None = Field(default=None, ge=1, le=SHARE_LINK_MAX_DAYS)
+
+
+class StoryRemixRequest(BaseModel):
+    """Request to copy a story into a new draft for another hero, art style or language.
+
+    Without ``keep_images`` the draft starts with no pictures and is painted again from its prompts.
+    """
+
+    profile: KidProfileCreate
+    keep_images: bool = False
@@ -14,6 +14,7 @@ class UserResponse(BaseModel):
     avatar_url: str | None
     is_online: bool
     is_admin: bool
+    email_verified: bool
     created_at: datetime
 
 
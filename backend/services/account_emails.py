@@ -0,0 +1,112 @@
+"""
+Account emails: verification and password-reset links. Each link carries a
+one-time token; routes compose the message in the request and deliver it in
+the background, so a slow mail server never holds up the response.
+"""
+
+import hashlib
+import secrets
+from datetime import UTC, datetime, timedelta
+from email.message import EmailMessage
+from urllib.parse import urlencode
+
+import aiosqlite
+from fastapi import HTTPException
+
+from config import get_config
+from db.email_tokens_crud import consume_email_token, create_email_token
+from db.users_crud import mark_email_verified, update_password
+from services.mail.transports import get_mail_transport
+from services.refresh_tokens import revoke_all_refresh_tokens
+
+VERIFY_EMAIL_PURPOSE = "verify_email"
+RESET_PASSWORD_PURPOSE = "reset_password"
+EMAIL_VERIFICATION_EXPIRE_HOURS = 24
+PASSWORD_RESET_EXPIRE_MINUTES = 60
+
+
+def _hash_email_token(token: str) -> str:
+    """Return the one-way hash an emailed token is stored under."""
+    return hashlib.sha256(token.encode("utf-8")).hexdigest()
+
+
+async def _issue_email_token(db: aiosqlite.Connection, user_id: int, purpose: str, lifetime: timedelta) -> str:
+    """Generate a token for one purpose, store its hash, and return the raw token."""
+    token = secrets.token_urlsafe(32)
+    expires_at = (datetime.now(UTC) + lifetime).strftime("%Y-%m-%d %H:%M:%S")
+    await create_email_token(db, _hash_email_token(token), user_id, purpose, expires_at)
+    return token
+
+
+def _frontend_link(path: str, token: str) -> str:
+    return f"{get_config().frontend_url}{path}?{urlencode({'token': token})}"
+
+
+def _build_message(to: str, subject: str, body: str) -> EmailMessage:
+    message = EmailMessage()
+    message["From"] = get_config().mail_from
+    message["To"] = to
+    message["Subject"] = subject
+    message.set_content(body)
+    return message
+
+
+async def compose_verification_email(db: aiosqlite.Connection, user: dict) -> EmailMessage:
+    """Issue a verification token and build the email that links to it."""
+    token = await _issue_email_token(
+        db, user["id"], VERIFY_EMAIL_PURPOSE, timedelta(hours=EMAIL_VERIFICATION_EXPIRE_HOURS)
+    )
+    link = _frontend_link("/verify-email", token)
+    return _build_message(
+        user["email"],
+        "Confirm your WonderComic email address",
+        f"Hi {user['username']},\n\n"
+        f"Please confirm your email address by opening this link:\n\n{link}\n\n"
+        f"The link works for {EMAIL_VERIFICATION_EXPIRE_HOURS} hours. "
+        "If you did not create a WonderComic account, you can ignore this email.\n",
+    )
+
+
+async def compose_password_reset_email(db: aiosqlite.Connection, user: dict) -> EmailMessage:
+    """Issue a password-reset token and build the email that links to it."""
+    token = await _issue_email_token(
+        db, user["id"], RESET_PASSWORD_PURPOSE, timedelta(minutes=PASSWORD_RESET_EXPIRE_MINUTES)
+    )
+    link = _frontend_link("/reset-password", token)
+    return _build_message(
+        user["email"],
+        "Reset your WonderComic password",
+        f"Hi {user['username']},\n\n"
+        f"Someone asked to reset the password for your account. To choose a new one, open this link:\n\n{link}\n\n"
+        f"The link works for {PASSWORD_RESET_EXPIRE_MINUTES} minutes. "
+        "If you did not ask for this, you can ignore this email; your password stays the same.\n",
+    )
+
+
+async def deliver_email(message: EmailMessage) -> None:
+    """Send a composed message through the configured transport."""
+    await get_mail_transport().send(message)
+
+
+async def confirm_email_address(db: aiosqlite.Connection, token: str) -> int:
+    """Spend a verification token and mark the address verified. Returns the user ID."""
+    user_id = await consume_email_token(db, _hash_email_token(token), VERIFY_EMAIL_PURPOSE)
+    if user_id is None:
+        raise HTTPException(status_code=400, detail="Invalid or expired verification link")
+    await mark_email_verified(db, user_id)
+    return user_id
+
+
+async def reset_password_with_token(db: aiosqlite.Connection, token: str, password: str) -> int:
+    """
+    Spend a reset token and set the new password. Returns the user ID.
+    Every existing session is signed out, and the address counts as verified,
+    since the reader just proved they can read its mail.
+    """
+    user_id = await consume_email_token(db, _hash_email_token(token), RESET_PASSWORD_PURPOSE)
+    if user_id is None:
+        raise HTTPException(status_code=400, detail="Invalid or expired reset link")
+    await update_password(db, user_id, password)
+    await mark_email_verified(db, user_id)
+    await revoke_all_refresh_tokens(db, user_id)
+    return user_id
@@ -0,0 +1,82 @@
+"""
+Cookie sessions: an opt-in alternative to bearer tokens held by the browser.
+
+A client asks for one with the `X-Auth-Session: cookie` header on login, signup,
+OAuth exchange or refresh. The access and refresh tokens are then set as httpOnly
+cookies, out of reach of page scripts, and the response carries only a CSRF token.
+Cookie-authenticated writes must echo that token in `X-CSRF-Token`; it is checked
+against an httpOnly copy of itself (double submit), so it works across origins too.
+"""
+
+import hmac
+import secrets
+
+from fastapi import HTTPException, Request, Response
+
+from config import get_config
+from services.refresh_tokens import REFRESH_TOKEN_EXPIRE_DAYS
+
+SESSION_MODE_HEADER = "X-Auth-Session"
+COOKIE_SESSION_MODE = "cookie"
+CSRF_HEADER = "X-CSRF-Token"
+
+ACCESS_TOKEN_COOKIE = "wc_access_token"
+REFRESH_TOKEN_COOKIE = "wc_refresh_token"
+CSRF_TOKEN_COOKIE = "wc_csrf_token"
+
+# The refresh token is only ever needed by the auth routes.
+_REFRESH_TOKEN_COOKIE_PATH = "/api/auth"
+_SAFE_METHODS = frozenset({"GET", "HEAD", "OPTIONS"})
+
+
+def wants_cookie_session(request: Request) -> bool:
+    """Return True when the client asked for its tokens as cookies."""
+    return request.headers.get(SESSION_MODE_HEADER, "").lower() == COOKIE_SESSION_MODE
+
+
+def new_csrf_token() -> str:
+    """Generate the CSRF token for a new cookie session."""
+    return secrets.token_urlsafe(32)
+
+
+def _set_cookie(response: Response, key: str, value: str, max_age: int, path: str = "/") -> None:
+    response.set_cookie(
+        key,
+        value,
+        max_age=max_age,
+        path=path,
+        httponly=True,
+        secure=get_config().session_cookie_secure,
+        samesite="lax",
+    )
+
+
+def set_session_cookies(
+    response: Response,
+    access_token: str,
+    access_token_max_age: int,
+    refresh_token: str,
+    csrf_token: str,
+) -> None:
+    """Store a session's tokens in httpOnly cookies."""
+    session_max_age = REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60
+    _set_cookie(response, ACCESS_TOKEN_COOKIE, access_token, access_token_max_age)
+    _set_cookie(response, REFRESH_TOKEN_COOKIE, refresh_token, session_max_age, _REFRESH_TOKEN_COOKIE_PATH)
+    _set_cookie(response, CSRF_TOKEN_COOKIE, csrf_token, session_max_age)
+
+
+def clear_session_cookies(response: Response) -> None:
+    """Remove every session cookie."""
+    response.delete_cookie(ACCESS_TOKEN_COOKIE, path="/")
+    response.delete_cookie(REFRESH_TOKEN_COOKIE, path=_REFRESH_TOKEN_COOKIE_PATH)
+    response.delete_cookie(CSRF_TOKEN_COOKIE, path="/")
+
+
+def verify_csrf(request: Request) -> None:
+    """Reject a cookie-authenticated write whose CSRF header does not match its cookie."""
+    if request.method in _SAFE_METHODS:
+        return
+    expected = request.cookies.get(CSRF_TOKEN_COOKIE)
+    provided = request.headers.get(CSRF_HEADER)
+    if not expected or not provided or not hmac.compare_digest(expected, provided):
+        raise HTTPException(status_code=403, detail="Missing or invalid CSRF token")
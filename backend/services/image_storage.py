@@ -13,18 +13,8 @@ IMAGES_DIR = Path(__file__).resolve().parent.parent / "images"
 IMAGES_DIR.mkdir(parents=True, exist_ok=True)
 
 
-def save_base64_image(base64_data: str, prefix: str = "img") -> str | None:
-    """Save a base64 image into backend/images and return the stored filename."""
-    if not base64_data:
-        return None
-
-    encoded_data = base64_data.split(",", 1)[1] if "," in base64_data else base64_data
-
-    try:
-        image_bytes = base64.b64decode(encoded_data, validate=True)
-    except (binascii.Error, ValueError):
-        return None
-
+def _write_image(image_bytes: bytes, prefix: str) -> str:
+    """Store image bytes under a fresh filename and return it."""
     filename = f"{prefix}_{uuid.uuid4().hex[:8]}.png"
     dest = IMAGES_DIR / filename
     # Write to a temp file in the same directory so the final rename() is
@@ -42,6 +32,21 @@ def save_base64_image(base64_data: str, prefix: str = "img") -> str | None:
     return filename
 
 
+def save_base64_image(base64_data: str, prefix: str = "img") -> str | None:
+    """Save a base64 image into backend/images and return the stored filename."""
+    if not base64_data:
+        return None
+
+    encoded_data = base64_data.split(",", 1)[1] if "," in base64_data else base64_data
+
+    try:
+        image_bytes = base64.b64decode(encoded_data, validate=True)
+    except (binascii.Error, ValueError):
+        return None
+
+    return _write_image(image_bytes, prefix)
+
+
 def delete_local_image(filename: str | None) -> None:
     """Delete a stored image file by filename."""
     if not filename:
@@ -53,3 +58,17 @@ def delete_local_image(filename: str | None) -> None:
             (IMAGES_DIR / safe_name).unlink()
         except FileNotFoundError:
             pass
+
+
+def copy_local_image(filename: str | None, prefix: str = "img") -> str | None:
+    """Copy a stored image under a new filename; returns None when there is nothing to copy."""
+    if not filename:
+        return None
+
+    source = IMAGES_DIR / Path(filename).name
+    try:
+        image_bytes = source.read_bytes()
+    except FileNotFoundError:
+        return None
+
+    return _write_image(image_bytes, prefix)
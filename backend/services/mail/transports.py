@@ -0,0 +1,89 @@
+"""
+Outgoing mail transports. MAIL_TRANSPORT picks one: `console` prints messages and
+`file` writes .eml files (both for development), `smtp` delivers them.
+"""
+
+import asyncio
+import smtplib
+import ssl
+from datetime import UTC, datetime
+from email.message import EmailMessage
+from pathlib import Path
+from typing import Protocol
+
+from config import get_config
+
+
+class MailTransport(Protocol):
+    """Anything that can deliver an email message."""
+
+    async def send(self, message: EmailMessage) -> None: ...
+
+
+class ConsoleMailTransport:
+    """Print messages to stdout, so links show up in the server log."""
+
+    async def send(self, message: EmailMessage) -> None:
+        print(f"--- mail to {message['To']} ---\n{message.as_string()}\n--- end of mail ---", flush=True)
+
+
+class FileMailTransport:
+    """Write each message as an .eml file that mail clients can open."""
+
+    def __init__(self, directory: str | Path) -> None:
+        self._directory = Path(directory)
+
+    async def send(self, message: EmailMessage) -> None:
+        self._directory.mkdir(parents=True, exist_ok=True)
+        stamp = datetime.now(UTC).strftime("%Y%m%dT%H%M%S%f")
+        path = self._directory / f"{stamp}.eml"
+        await asyncio.to_thread(path.write_bytes, message.as_bytes())
+
+
+class SmtpMailTransport:
+    """Deliver messages through an SMTP server, off the event loop."""
+
+    def __init__(
+        self,
+        host: str,
+        port: int,
+        username: str | None = None,
+        password: str | None = None,
+        use_tls: bool = True,
+    ) -> None:
+        self._host = host
+        self._port = port
+        self._username = username
+        self._password = password
+        self._use_tls = use_tls
+
+    def _send_blocking(self, message: EmailMessage) -> None:
+        with smtplib.SMTP(self._host, self._port, timeout=30) as smtp:
+            if self._use_tls:
+                smtp.starttls(context=ssl.create_default_context())
+            if self._username and self._password:
+                smtp.login(self._username, self._password)
+            smtp.send_message(message)
+
+    async def send(self, message: EmailMessage) -> None:
+        await asyncio.to_thread(self._send_blocking, message)
+
+
+def get_mail_transport() -> MailTransport:
+    """Build the transport MAIL_TRANSPORT names."""
+    config = get_config()
+    if config.mail_transport == "file":
+        return FileMailTransport(config.mail_file_dir)
+    if config.mail_transport == "smtp":
+        if not config.smtp_host:
+            raise ValueError("MAIL_TRANSPORT=smtp requires SMTP_HOST")
+        return SmtpMailTransport(
+            config.smtp_host,
+            config.smtp_port,
+            config.smtp_username,
+            config.smtp_password,
+            config.smtp_use_tls,
+        )
+    if config.mail_transport == "console":
+        return ConsoleMailTransport()
+    raise ValueError(f"Unknown MAIL_TRANSPORT: {config.mail_transport}")
@@ -0,0 +1,134 @@
+"""Two-factor authentication: TOTP enrolment, recovery codes and the second login step."""
+
+import hashlib
+import secrets
+from datetime import UTC, datetime, timedelta
+
+import aiosqlite
+from fastapi import HTTPException
+
+from db.mfa_crud import (
+    consume_recovery_code,
+    count_recovery_codes,
+    create_mfa_challenge,
+    delete_mfa_challenge,
+    delete_user_mfa,
+    enable_totp,
+    get_mfa_challenge_user,
+    get_user_mfa,
+    record_failed_mfa_attempt,
+    record_totp_step,
+    save_pending_totp_secret,
+)
+from services.totp import build_otpauth_uri, generate_totp_secret, match_totp_code
+
+TOTP_ISSUER = "WonderComic"
+RECOVERY_CODE_COUNT = 10
+MFA_CHALLENGE_EXPIRE_MINUTES = 5
+MFA_CHALLENGE_MAX_ATTEMPTS = 5
+
+_RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789"
+_RECOVERY_CODE_LENGTH = 10
+
+
+def _hash_secret(value: str) -> str:
+    """Return the one-way hash recovery codes and challenge tokens are stored under."""
+    return hashlib.sha256(value.encode("utf-8")).hexdigest()
+
+
+def _normalize_code(code: str) -> str:
+    """Drop the spaces and dashes people type or paste along with a code."""
+    return code.strip().replace(" ", "").replace("-", "").lower()
+
+
+def _new_recovery_code() -> str:
+    """Return a recovery code grouped for reading, like `k7m2p-x9qrt`."""
+    code = "".join(secrets.choice(_RECOVERY_CODE_ALPHABET) for _ in range(_RECOVERY_CODE_LENGTH))
+    return f"{code[:5]}-{code[5:]}"
+
+
+def _invalid_code() -> HTTPException:
+    return HTTPException(status_code=400, detail="Invalid verification code")
+
+
+async def _verify_second_factor(db: aiosqlite.Connection, user_id: int, code: str) -> bool:
+    """Accept a current TOTP code or spend an unused recovery code."""
+    mfa = await get_user_mfa(db, user_id)
+    if mfa is None or mfa["enabled_at"] is None:
+        return False
+    normalized = _normalize_code(code)
+    time_step = match_totp_code(mfa["totp_secret"], normalized)
+    if time_step is not None:
+        return await record_totp_step(db, user_id, time_step)
+    return await consume_recovery_code(db, user_id, _hash_secret(normalized))
+
+
+async def is_mfa_enabled(db: aiosqlite.Connection, user_id: int) -> bool:
+    """Return True when the user has confirmed a TOTP authenticator."""
+    mfa = await get_user_mfa(db, user_id)
+    return mfa is not None and mfa["enabled_at"] is not None
+
+
+async def get_mfa_status(db: aiosqlite.Connection, user_id: int) -> tuple[bool, int]:
+    """Return (enabled, unused recovery codes) for the user."""
+    if not await is_mfa_enabled(db, user_id):
+        return False, 0
+    return True, await count_recovery_codes(db, user_id)
+
+
+async def start_totp_enrolment(db: aiosqlite.Connection, user: dict) -> tuple[str, str]:
+    """Create a pending TOTP secret. Returns (secret, otpauth URI) for the QR code."""
+    if await is_mfa_enabled(db, user["id"]):
+        raise HTTPException(status_code=409, detail="Two-factor authentication is already enabled")
+    secret = generate_totp_secret()
+    await save_pending_totp_secret(db, user["id"], secret)
+    return secret, build_otpauth_uri(secret, user["email"], TOTP_ISSUER)
+
+
+async def confirm_totp_enrolment(db: aiosqlite.Connection, user_id: int, code: str) -> list[str]:
+    """Enable the pending secret once the authenticator shows a matching code. Returns the recovery codes."""
+    mfa = await get_user_mfa(db, user_id)
+    if mfa is None:
+        raise HTTPException(status_code=400, detail="Start two-factor setup first")
+    if mfa["enabled_at"] is not None:
+        raise HTTPException(status_code=409, detail="Two-factor authentication is already enabled")
+    time_step = match_totp_code(mfa["totp_secret"], _normalize_code(code))
+    if time_step is None:
+        raise _invalid_code()
+    recovery_codes = [_new_recovery_code() for _ in range(RECOVERY_CODE_COUNT)]
+    await enable_totp(db, user_id, time_step, [_hash_secret(_normalize_code(c)) for c in recovery_codes])
+    return recovery_codes
+
+
+async def disable_mfa(db: aiosqlite.Connection, user_id: int, code: str) -> None:
+    """Turn two-factor off; a current code or a recovery code proves the reader still holds it."""
+    if not await is_mfa_enabled(db, user_id):
+        raise HTTPException(status_code=400, detail="Two-factor authentication is not enabled")
+    if not await _verify_second_factor(db, user_id, code):
+        raise _invalid_code()
+    await delete_user_mfa(db, user_id)
+
+
+async def issue_mfa_challenge(db: aiosqlite.Connection, user_id: int) -> str:
+    """Start the second login step: store a short-lived challenge and return its raw token."""
+    token = secrets.token_urlsafe(32)
+    expires_at = (datetime.now(UTC) + timedelta(minutes=MFA_CHALLENGE_EXPIRE_MINUTES)).strftime("%Y-%m-%d %H:%M:%S")
+    await create_mfa_challenge(db, _hash_secret(token), user_id, expires_at)
+    return token
+
+
+async def complete_mfa_challenge(db: aiosqlite.Connection, token: str, code: str) -> int:
+    """
+    Check the code for a login challenge and spend the challenge. Returns the user ID.
+    A challenge survives a few wrong codes, then the password step must be repeated.
+    """
+    token_hash = _hash_secret(token)
+    user_id = await get_mfa_challenge_user(db, token_hash, MFA_CHALLENGE_MAX_ATTEMPTS)
+    if user_id is None:
+        raise HTTPException(status_code=401, detail="Invalid or expired MFA challenge")
+    if not await _verify_second_factor(db, user_id, code):
+        await record_failed_mfa_attempt(db, token_hash)
+        raise _invalid_code()
+    if not await delete_mfa_challenge(db, token_hash):
+        raise HTTPException(status_code=401, detail="Invalid or expired MFA challenge")
+    return user_id
@@ -96,3 +96,8 @@ api_key_management_rate_limiter = FixedWindowRateLimiter(
     max_requests=_read_positive_int("API_KEY_MANAGEMENT_RATE_LIMIT_REQUESTS", 10),
     window_seconds=_read_positive_int("API_KEY_MANAGEMENT_RATE_LIMIT_WINDOW_SECONDS", 60),
 )
+
+account_email_rate_limiter = FixedWindowRateLimiter(
+    max_requests=_read_positive_int("ACCOUNT_EMAIL_RATE_LIMIT_REQUESTS", 5),
+    window_seconds=_read_positive_int("ACCOUNT_EMAIL_RATE_LIMIT_WINDOW_SECONDS", 3600),
+)
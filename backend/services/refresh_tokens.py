@@ -0,0 +1,54 @@
+import hashlib
+import secrets
+from datetime import UTC, datetime, timedelta
+
+import aiosqlite
+from fastapi import HTTPException
+
+from db.refresh_tokens_crud import (
+    consume_refresh_token,
+    create_refresh_token,
+    delete_refresh_token,
+    delete_user_refresh_tokens,
+)
+
+REFRESH_TOKEN_EXPIRE_DAYS = 30
+
+
+def _hash_refresh_token(token: str) -> str:
+    """Return the one-way hash a refresh token is stored under."""
+    return hashlib.sha256(token.encode("utf-8")).hexdigest()
+
+
+async def issue_refresh_token(db: aiosqlite.Connection, user_id: int) -> str:
+    """Generate a refresh token, store its hash, and return the raw token."""
+    token = secrets.token_urlsafe(32)
+    expires_at = (datetime.now(UTC) + timedelta(days=REFRESH_TOKEN_EXPIRE_DAYS)).strftime("%Y-%m-%d %H:%M:%S")
+    await create_refresh_token(db, _hash_refresh_token(token), user_id, expires_at)
+    return token
+
+
+async def rotate_refresh_token(db: aiosqlite.Connection, token: str) -> tuple[int, str]:
+    """Spend a refresh token and issue its replacement. Returns (user_id, new_token)."""
+    user_id = await consume_refresh_token(db, _hash_refresh_token(token))
+    if user_id is None:
+        raise HTTPException(status_code=401, detail="Invalid or expired refresh token")
+    return user_id, await issue_refresh_token(db, user_id)
+
+
+async def revoke_refresh_token(db: aiosqlite.Connection, user_id: int, token: str) -> None:
+    """Revoke a user's refresh token; unknown tokens are ignored."""
+    await delete_refresh_token(db, _hash_refresh_token(token), user_id)
+
+
+async def revoke_presented_refresh_token(db: aiosqlite.Connection, token: str) -> int | None:
+    """
+    Revoke a refresh token on the strength of holding it, for logouts whose access
+    token already expired. Returns the user ID, or None when the token was unknown.
+    """
+    return await consume_refresh_token(db, _hash_refresh_token(token))
+
+
+async def revoke_all_refresh_tokens(db: aiosqlite.Connection, user_id: int) -> None:
+    """Revoke all of a user's refresh tokens, e.g. after a password reset."""
+    await delete_user_refresh_tokens(db, user_id)
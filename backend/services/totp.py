@@ -0,0 +1,53 @@
+"""RFC 6238 time-based one-time passwords (the codes authenticator apps show)."""
+
+import base64
+import hashlib
+import hmac
+import secrets
+import struct
+import time
+from urllib.parse import quote, urlencode
+
+TOTP_DIGITS = 6
+TOTP_PERIOD_SECONDS = 30
+_SECRET_BYTES = 20
+
+
+def generate_totp_secret() -> str:
+    """Return a new random secret, base32-encoded without padding as authenticator apps expect."""
+    return base64.b32encode(secrets.token_bytes(_SECRET_BYTES)).decode("ascii").rstrip("=")
+
+
+def current_time_step(now: float | None = None) -> int:
+    """Return the TOTP time step for a Unix time (default: now)."""
+    return int((time.time() if now is None else now) // TOTP_PERIOD_SECONDS)
+
+
+def totp_code(secret: str, time_step: int) -> str:
+    """Compute the code for one time step (RFC 4226 HOTP over the step counter)."""
+    key = base64.b32decode(secret + "=" * (-len(secret) % 8), casefold=True)
+    digest = hmac.new(key, struct.pack(">Q", time_step), hashlib.sha1).digest()
+    offset = digest[-1] & 0x0F
+    value = struct.unpack(">I", digest[offset : offset + 4])[0] & 0x7FFFFFFF
+    return str(value % 10**TOTP_DIGITS).zfill(TOTP_DIGITS)
+
+
+def match_totp_code(secret: str, code: str, now: float | None = None, window: int = 1) -> int | None:
+    """
+    Return the time step a code belongs to, or None when it matches none.
+    Codes from `window` steps either side are accepted to allow for clock drift.
+    """
+    if len(code) != TOTP_DIGITS or not code.isdigit():
+        return None
+    step = current_time_step(now)
+    for candidate in range(step - window, step + window + 1):
+        if hmac.compare_digest(totp_code(secret, candidate), code):
+            return candidate
+    return None
+
+
+def build_otpauth_uri(secret: str, account_name: str, issuer: str) -> str:
+    """Build the otpauth:// URI that authenticator apps read from a QR code."""
+    label = quote(f"{issuer}:{account_name}")
+    params = urlencode({"secret": secret, "issuer": issuer, "digits": TOTP_DIGITS, "period": TOTP_PERIOD_SECONDS})
+    return f"otpauth://totp/{label}?{params}"
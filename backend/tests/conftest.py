@@ -15,7 +15,7 @@ from fastapi import FastAPI
 from fastapi.routing import APIRouter
 
 from db.database import _create_tables, get_db
-from services.rate_limit import api_key_management_rate_limiter
+from services.rate_limit import account_email_rate_limiter, api_key_management_rate_limiter
 
 
 @pytest.fixture(autouse=True)
@@ -25,6 +25,13 @@ def reset_api_key_management_rate_limiter():
     asyncio.run(api_key_management_rate_limiter.configure(max_requests=10, window_seconds=60))
 
 
+@pytest.fixture(autouse=True)
+def reset_account_email_rate_limiter():
+    asyncio.run(account_email_rate_limiter.configure(max_requests=5, window_seconds=3600))
+    yield
+    asyncio.run(account_email_rate_limiter.configure(max_requests=5, window_seconds=3600))
+
+
 async def _init_test_db(db_path: str) -> None:
     """Create schema in a temp db (mirrors init_db in production)."""
     async with aiosqlite.connect(db_path) as db:
@@ -0,0 +1,178 @@
+"""Account email tests: verifying an address, resending the link, and resetting a forgotten password."""
+
+import asyncio
+import re
+from email.message import EmailMessage
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.user import router as user_router
+from services import account_emails
+from services.rate_limit import account_email_rate_limiter
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+
+
+class _Outbox:
+    """Mail transport that keeps messages in memory."""
+
+    def __init__(self) -> None:
+        self.messages: list[EmailMessage] = []
+
+    async def send(self, message: EmailMessage) -> None:
+        self.messages.append(message)
+
+    def last_token(self, path: str) -> str:
+        body = self.messages[-1].get_content()
+        match = re.search(rf"{re.escape(path)}\?token=([\w-]+)", body)
+        assert match, body
+        return match.group(1)
+
+
+@pytest.fixture
+def outbox(monkeypatch) -> _Outbox:
+    recorder = _Outbox()
+    monkeypatch.setattr(account_emails, "get_mail_transport", lambda: recorder)
+    return recorder
+
+
+@pytest.fixture
+def client(tmp_path, outbox):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, user_router)) as test_client:
+        yield test_client
+
+
+@pytest.fixture
+def tokens(client) -> dict:
+    response = client.post("/api/auth/signup", json=_ALICE)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+@pytest.fixture
+def auth_headers(tokens) -> dict:
+    return {"Authorization": f"Bearer {tokens['access_token']}"}
+
+
+def _me(client, auth_headers) -> dict:
+    return client.get("/api/users/me", headers=auth_headers).json()
+
+
+def test_signup_sends_a_verification_link_and_starts_unverified(client, auth_headers, outbox):
+    assert _me(client, auth_headers)["email_verified"] is False
+    assert len(outbox.messages) == 1
+    assert outbox.messages[0]["To"] == _ALICE["email"]
+    assert "/verify-email?token=" in outbox.messages[0].get_content()
+
+
+def test_verification_link_marks_the_email_verified_once(client, auth_headers, outbox):
+    token = outbox.last_token("/verify-email")
+
+    first = client.post("/api/auth/verify-email", json={"token": token})
+    again = client.post("/api/auth/verify-email", json={"token": token})
+
+    assert first.status_code == 204
+    assert _me(client, auth_headers)["email_verified"] is True
+    assert again.status_code == 400
+    assert again.json()["detail"] == "Invalid or expired verification link"
+
+
+def test_resend_replaces_the_previous_verification_link(client, auth_headers, outbox):
+    old_token = outbox.last_token("/verify-email")
+
+    resend = client.post("/api/auth/verify-email/resend", headers=auth_headers)
+
+    assert resend.status_code == 202
+    assert len(outbox.messages) == 2
+    assert client.post("/api/auth/verify-email", json={"token": old_token}).status_code == 400
+    new_token = outbox.last_token("/verify-email")
+    assert client.post("/api/auth/verify-email", json={"token": new_token}).status_code == 204
+
+
+def test_resend_is_refused_once_verified(client, auth_headers, outbox):
+    client.post("/api/auth/verify-email", json={"token": outbox.last_token("/verify-email")})
+
+    response = client.post("/api/auth/verify-email/resend", headers=auth_headers)
+
+    assert response.status_code == 400
+    assert response.json()["detail"] == "Email is already verified"
+
+
+def test_resend_is_rate_limited(client, auth_headers):
+    asyncio.run(account_email_rate_limiter.configure(max_requests=1, window_seconds=60))
+
+    first = client.post("/api/auth/verify-email/resend", headers=auth_headers)
+    limited = client.post("/api/auth/verify-email/resend", headers=auth_headers)
+
+    assert first.status_code == 202
+    assert limited.status_code == 429
+    assert int(limited.headers["Retry-After"]) >= 1
+
+
+def test_changing_the_email_requires_verifying_it_again(client, auth_headers, outbox):
+    client.post("/api/auth/verify-email", json={"token": outbox.last_token("/verify-email")})
+
+    response = client.patch("/api/users/me", headers=auth_headers, json={"email": "alice@example.org"})
+
+    assert response.status_code == 200, response.text
+    assert response.json()["email_verified"] is False
+    assert outbox.messages[-1]["To"] == "alice@example.org"
+
+
+def test_reset_request_looks_the_same_for_unknown_addresses(client, tokens, outbox):
+    known = client.post("/api/auth/password-reset/request", json={"email": _ALICE["email"]})
+    unknown = client.post("/api/auth/password-reset/request", json={"email": "nobody@example.com"})
+
+    assert known.status_code == unknown.status_code == 202
+    assert known.json() == unknown.json()
+    assert [message["To"] for message in outbox.messages] == [_ALICE["email"], _ALICE["email"]]
+
+
+def test_reset_link_sets_a_new_password_and_ends_existing_sessions(client, tokens, outbox):
+    client.post("/api/auth/password-reset/request", json={"email": _ALICE["email"]})
+    token = outbox.last_token("/reset-password")
+
+    reset = client.post("/api/auth/password-reset/confirm", json={"token": token, "password": "NewPassword456!"})
+
+    assert reset.status_code == 204
+    old_login = client.post("/api/auth/login", json={"email": _ALICE["email"], "password": _ALICE["password"]})
+    new_login = client.post("/api/auth/login", json={"email": _ALICE["email"], "password": "NewPassword456!"})
+    assert old_login.status_code == 401
+    assert new_login.status_code == 200
+    assert client.post("/api/auth/refresh", json={"refresh_token": tokens["refresh_token"]}).status_code == 401
+    me = client.get("/api/users/me", headers={"Authorization": f"Bearer {new_login.json()['access_token']}"})
+    assert me.json()["email_verified"] is True
+
+
+def test_reset_link_works_only_once(client, tokens, outbox):
+    client.post("/api/auth/password-reset/request", json={"email": _ALICE["email"]})
+    token = outbox.last_token("/reset-password")
+    client.post("/api/auth/password-reset/confirm", json={"token": token, "password": "NewPassword456!"})
+
+    again = client.post("/api/auth/password-reset/confirm", json={"token": token, "password": "Another789!"})
+
+    assert again.status_code == 400
+    assert again.json()["detail"] == "Invalid or expired reset link"
+
+
+def test_verification_token_cannot_reset_a_password(client, tokens, outbox):
+    token = outbox.last_token("/verify-email")
+
+    response = client.post("/api/auth/password-reset/confirm", json={"token": token, "password": "NewPassword456!"})
+
+    assert response.status_code == 400
+
+
+def test_reset_requests_over_the_limit_send_nothing(client, tokens, outbox):
+    asyncio.run(account_email_rate_limiter.configure(max_requests=1, window_seconds=60))
+
+    for _ in range(3):
+        response = client.post("/api/auth/password-reset/request", json={"email": _ALICE["email"]})
+        assert response.status_code == 202
+
+    assert len(outbox.messages) == 2  # the signup verification plus one reset link
@@ -129,12 +129,12 @@ def test_token_exp_is_in_the_future():
     assert payload["exp"] > now
 
 
-def test_token_exp_is_roughly_24h():
+def test_token_exp_is_roughly_15_minutes():
     token = create_access_token(1)
     payload = jwt.decode(token, JWT_SECRET_KEY, algorithms=[ALGORITHM])
     now = datetime.now(UTC).timestamp()
-    hours = (payload["exp"] - now) / 3600
-    assert 23 < hours <= 24  # allow slight timing slack
+    minutes = (payload["exp"] - now) / 60
+    assert 14 < minutes <= 15  # allow slight timing slack
 
 
 def test_different_users_get_different_tokens():
@@ -0,0 +1,132 @@
+"""Cookie session tests: httpOnly token cookies, CSRF on writes, refresh, migration and logout."""
+
+import asyncio
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.user import router as user_router
+from services.auth_cookies import ACCESS_TOKEN_COOKIE, CSRF_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_COOKIE_SESSION = {"X-Auth-Session": "cookie"}
+
+
+@pytest.fixture
+def client(tmp_path):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, user_router)) as test_client:
+        yield test_client
+
+
+@pytest.fixture
+def csrf_token(client) -> str:
+    response = client.post("/api/auth/signup", json=_ALICE, headers=_COOKIE_SESSION)
+    assert response.status_code == 200, response.text
+    return response.json()["csrf_token"]
+
+
+def _set_cookie_headers(response) -> list[str]:
+    return response.headers.get_list("set-cookie")
+
+
+def test_cookie_signup_keeps_tokens_out_of_the_body(client):
+    response = client.post("/api/auth/signup", json=_ALICE, headers=_COOKIE_SESSION)
+
+    assert response.status_code == 200, response.text
+    body = response.json()
+    assert body["token_type"] == "cookie"
+    assert body["expires_in"] == 900
+    assert body["csrf_token"]
+    assert "access_token" not in body
+    assert "refresh_token" not in body
+
+    cookies = _set_cookie_headers(response)
+    for name in (ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_TOKEN_COOKIE):
+        cookie = next(cookie for cookie in cookies if cookie.startswith(f"{name}="))
+        assert "httponly" in cookie.lower()
+    refresh_cookie = next(cookie for cookie in cookies if cookie.startswith(f"{REFRESH_TOKEN_COOKIE}="))
+    assert "path=/api/auth" in refresh_cookie.lower()
+
+
+def test_cookie_session_authenticates_reads_without_a_bearer_token(client, csrf_token):
+    response = client.get("/api/users/me")
+
+    assert response.status_code == 200, response.text
+    assert response.json()["username"] == "alice"
+
+
+def test_cookie_session_writes_need_the_csrf_token(client, csrf_token):
+    assert client.patch("/api/users/me", json={"username": "alice2"}).status_code == 403
+    assert (
+        client.patch("/api/users/me", json={"username": "alice2"}, headers={"X-CSRF-Token": "forged"}).status_code
+        == 403
+    )
+
+    response = client.patch("/api/users/me", json={"username": "alice2"}, headers={"X-CSRF-Token": csrf_token})
+
+    assert response.status_code == 200, response.text
+    assert response.json()["username"] == "alice2"
+
+
+def test_cookie_refresh_rotates_the_cookies_and_keeps_the_csrf_token(client, csrf_token):
+    old_refresh_token = client.cookies.get(REFRESH_TOKEN_COOKIE)
+
+    assert client.post("/api/auth/refresh", headers=_COOKIE_SESSION).status_code == 403
+
+    response = client.post("/api/auth/refresh", headers={**_COOKIE_SESSION, "X-CSRF-Token": csrf_token})
+
+    assert response.status_code == 200, response.text
+    assert response.json()["csrf_token"] == csrf_token
+    assert client.cookies.get(REFRESH_TOKEN_COOKIE) != old_refresh_token
+    assert client.get("/api/users/me").status_code == 200
+
+
+def test_bearer_session_moves_into_cookies_through_refresh(client):
+    tokens = client.post("/api/auth/signup", json=_ALICE).json()
+    assert client.cookies.get(ACCESS_TOKEN_COOKIE) is None
+
+    response = client.post(
+        "/api/auth/refresh", json={"refresh_token": tokens["refresh_token"]}, headers=_COOKIE_SESSION
+    )
+
+    assert response.status_code == 200, response.text
+    assert response.json()["token_type"] == "cookie"
+    assert client.get("/api/users/me").status_code == 200
+    # The browser-held refresh token was spent by the move.
+    assert client.post("/api/auth/refresh", json={"refresh_token": tokens["refresh_token"]}).status_code == 401
+
+
+def test_cookie_logout_revokes_the_session_and_clears_the_cookies(client, csrf_token):
+    refresh_token = client.cookies.get(REFRESH_TOKEN_COOKIE)
+
+    response = client.post("/api/auth/logout", headers={"X-CSRF-Token": csrf_token})
+
+    assert response.status_code == 200, response.text
+    assert client.cookies.get(ACCESS_TOKEN_COOKIE) is None
+    assert client.get("/api/users/me").status_code == 401
+    assert client.post("/api/auth/refresh", json={"refresh_token": refresh_token}).status_code == 401
+
+
+def test_cookie_logout_after_the_access_cookie_expired_still_revokes_the_session(client, csrf_token):
+    refresh_token = client.cookies.get(REFRESH_TOKEN_COOKIE)
+    client.cookies.delete(ACCESS_TOKEN_COOKIE)
+
+    response = client.post("/api/auth/logout", headers={"X-CSRF-Token": csrf_token})
+
+    assert response.status_code == 200, response.text
+    assert client.cookies.get(REFRESH_TOKEN_COOKIE) is None
+    assert client.post("/api/auth/refresh", json={"refresh_token": refresh_token}).status_code == 401
+
+
+def test_cookie_logout_without_an_access_cookie_needs_the_csrf_header(client, csrf_token):
+    refresh_token = client.cookies.get(REFRESH_TOKEN_COOKIE)
+    client.cookies.delete(ACCESS_TOKEN_COOKIE)
+
+    response = client.post("/api/auth/logout")
+
+    assert response.status_code == 403
+    assert client.post("/api/auth/refresh", json={"refresh_token": refresh_token}).status_code == 200
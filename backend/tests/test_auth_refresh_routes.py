@@ -0,0 +1,129 @@
+"""Refresh token tests: renewing access tokens, rotation, expiry and revocation on logout."""
+
+import asyncio
+from datetime import UTC, datetime, timedelta
+
+import aiosqlite
+import jwt
+import pytest
+from fastapi.testclient import TestClient
+
+from auth_utils import ALGORITHM
+from config import get_config
+from routers.auth import router as auth_router
+from routers.user import router as user_router
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+
+
+@pytest.fixture
+def client_with_db_path(tmp_path):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, user_router)) as client:
+        yield client, db_path
+
+
+@pytest.fixture
+def client(client_with_db_path):
+    test_client, _ = client_with_db_path
+    return test_client
+
+
+@pytest.fixture
+def tokens(client) -> dict:
+    response = client.post("/api/auth/signup", json=_ALICE)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def _refresh(client, refresh_token: str):
+    return client.post("/api/auth/refresh", json={"refresh_token": refresh_token})
+
+
+def test_signup_and_login_return_a_refresh_token(client, tokens):
+    assert tokens["refresh_token"]
+    assert tokens["expires_in"] == 900
+
+    login = client.post("/api/auth/login", json={"email": _ALICE["email"], "password": _ALICE["password"]}).json()
+    assert login["refresh_token"] not in (None, tokens["refresh_token"])
+
+
+def test_refresh_returns_a_working_access_token(client, tokens):
+    response = _refresh(client, tokens["refresh_token"])
+
+    assert response.status_code == 200, response.text
+    renewed = response.json()
+    assert renewed["expires_in"] == 900
+    me = client.get("/api/users/me", headers={"Authorization": f"Bearer {renewed['access_token']}"})
+    assert me.status_code == 200
+    assert me.json()["username"] == "alice"
+
+
+def test_refresh_tokens_are_rotated_and_single_use(client, tokens):
+    renewed = _refresh(client, tokens["refresh_token"]).json()
+
+    assert renewed["refresh_token"] != tokens["refresh_token"]
+    assert _refresh(client, tokens["refresh_token"]).status_code == 401
+    assert _refresh(client, renewed["refresh_token"]).status_code == 200
+
+
+def test_unknown_or_expired_refresh_tokens_are_rejected(client_with_db_path, tokens):
+    client, db_path = client_with_db_path
+    assert _refresh(client, "not-a-real-token").status_code == 401
+
+    async def expire_refresh_tokens() -> None:
+        async with aiosqlite.connect(db_path) as db:
+            await db.execute("UPDATE refresh_tokens SET expires_at = '2000-01-01 00:00:00'")
+            await db.commit()
+
+    asyncio.run(expire_refresh_tokens())
+
+    assert _refresh(client, tokens["refresh_token"]).status_code == 401
+
+
+def test_logout_revokes_the_refresh_token(client, tokens):
+    headers = {"Authorization": f"Bearer {tokens['access_token']}"}
+
+    response = client.post("/api/auth/logout", json={"refresh_token": tokens["refresh_token"]}, headers=headers)
+
+    assert response.status_code == 200
+    assert _refresh(client, tokens["refresh_token"]).status_code == 401
+
+
+def _expired_access_token(user_id: int) -> str:
+    payload = {"sub": str(user_id), "exp": datetime.now(UTC) - timedelta(minutes=1)}
+    return jwt.encode(payload, get_config().secret_key, algorithm=ALGORITHM)
+
+
+def test_logout_revokes_the_refresh_token_after_the_access_token_expired(client, tokens):
+    headers = {"Authorization": f"Bearer {_expired_access_token(1)}"}
+
+    response = client.post("/api/auth/logout", json={"refresh_token": tokens["refresh_token"]}, headers=headers)
+
+    assert response.status_code == 200, response.text
+    assert _refresh(client, tokens["refresh_token"]).status_code == 401
+
+
+def test_logout_with_an_expired_access_token_and_unknown_refresh_token_is_rejected(client, tokens):
+    headers = {"Authorization": f"Bearer {_expired_access_token(1)}"}
+
+    response = client.post("/api/auth/logout", json={"refresh_token": "not-a-token"}, headers=headers)
+
+    assert response.status_code == 401
+    assert _refresh(client, tokens["refresh_token"]).status_code == 200
+
+
+def test_logout_cannot_revoke_another_users_refresh_token(client, tokens):
+    bob = client.post(
+        "/api/auth/signup", json={"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+    ).json()
+
+    client.post(
+        "/api/auth/logout",
+        json={"refresh_token": tokens["refresh_token"]},
+        headers={"Authorization": f"Bearer {bob['access_token']}"},
+    )
+
+    assert _refresh(client, tokens["refresh_token"]).status_code == 200
@@ -0,0 +1,203 @@
+"""Collection (bookshelf) route tests: CRUD, story membership, and sharing with friends."""
+
+import asyncio
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.collections import router as collections_router
+from routers.friend import router as friend_router
+from routers.stories import router as stories_router
+from routers.user import router as user_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+_CHARLIE = {"username": "charlie", "email": "charlie@example.com", "password": "Password123!"}
+
+
+def _story_payload(title: str) -> dict:
+    return {
+        "profile": {
+            "name": "Zara",
+            "gender": "girl",
+            "skin_tone": "medium",
+            "hair_color": "black",
+            "eye_color": "brown",
+            "favorite_color": "purple",
+        },
+        "title": title,
+        "panels": [{"panel_order": 0, "text": f"{title} begins."}],
+    }
+
+
+@pytest.fixture
+def client(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    app = make_test_app(db_path, auth_router, user_router, friend_router, stories_router, collections_router)
+    with TestClient(app) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> tuple[int, dict[str, str]]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    headers = {"Authorization": f"Bearer {response.json()['access_token']}"}
+    return client.get("/api/users/me", headers=headers).json()["id"], headers
+
+
+@pytest.fixture
+def alice(client) -> tuple[int, dict[str, str]]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def bob(client, alice) -> tuple[int, dict[str, str]]:
+    """Bob is Alice's accepted friend."""
+    bob_id, bob_headers = _signup(client, _BOB)
+    assert client.post(f"/api/friends/{bob_id}", headers=alice[1]).status_code == 200
+    assert client.post(f"/api/friends/{alice[0]}/accept", headers=bob_headers).status_code == 200
+    return bob_id, bob_headers
+
+
+def _create_story(client, headers, title: str) -> int:
+    response = client.post("/api/stories", json=_story_payload(title), headers=headers)
+    assert response.status_code == 200, response.text
+    return response.json()["id"]
+
+
+def _create_collection(client, headers, name: str, **fields) -> dict:
+    response = client.post("/api/collections", json={"name": name, **fields}, headers=headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def test_create_list_rename_and_delete(client, alice):
+    _, headers = alice
+    bedtime = _create_collection(client, headers, "  Bedtime ")
+    _create_collection(client, headers, "Birthday series")
+
+    assert bedtime["name"] == "Bedtime"
+    assert bedtime["visibility"] == "private"
+    assert bedtime["story_count"] == 0
+    assert [c["name"] for c in client.get("/api/collections", headers=headers).json()] == [
+        "Bedtime",
+        "Birthday series",
+    ]
+
+    renamed = client.patch(f"/api/collections/{bedtime['id']}", json={"name": "Sleepy time"}, headers=headers)
+    assert renamed.status_code == 200, renamed.text
+    assert renamed.json()["name"] == "Sleepy time"
+
+    assert client.delete(f"/api/collections/{bedtime['id']}", headers=headers).status_code == 204
+    assert client.get(f"/api/collections/{bedtime['id']}", headers=headers).status_code == 404
+
+
+def test_names_are_unique_per_user_ignoring_case(client, alice):
+    _, headers = alice
+    _create_collection(client, headers, "Bedtime")
+    other = _create_collection(client, headers, "Dragons")
+
+    assert client.post("/api/collections", json={"name": "bedtime"}, headers=headers).status_code == 409
+    assert client.patch(f"/api/collections/{other['id']}", json={"name": "BEDTIME"}, headers=headers).status_code == 409
+    assert client.post("/api/collections", json={"name": "   "}, headers=headers).status_code == 422
+
+
+def test_story_can_sit_on_several_collections(client, alice):
+    _, headers = alice
+    story_id = _create_story(client, headers, "Zara and the Dragon")
+    bedtime = _create_collection(client, headers, "Bedtime")
+    dragons = _create_collection(client, headers, "Dragons")
+
+    for collection in (bedtime, dragons):
+        response = client.put(f"/api/collections/{collection['id']}/stories/{story_id}", headers=headers)
+        assert response.status_code == 200, response.text
+        assert response.json()["story_count"] == 1
+    # Adding the same story again changes nothing.
+    again = client.put(f"/api/collections/{bedtime['id']}/stories/{story_id}", headers=headers)
+    assert again.json()["story_count"] == 1
+
+    detail = client.get(f"/api/collections/{dragons['id']}", headers=headers).json()
+    assert [story["title"] for story in detail["stories"]] == ["Zara and the Dragon"]
+
+
+def test_removing_from_collection_keeps_the_story(client, alice):
+    _, headers = alice
+    story_id = _create_story(client, headers, "Zara and the Dragon")
+    bedtime = _create_collection(client, headers, "Bedtime")
+    client.put(f"/api/collections/{bedtime['id']}/stories/{story_id}", headers=headers)
+
+    response = client.delete(f"/api/collections/{bedtime['id']}/stories/{story_id}", headers=headers)
+
+    assert response.status_code == 200, response.text
+    assert response.json()["story_count"] == 0
+    assert client.get(f"/api/stories/{story_id}", headers=headers).status_code == 200
+
+
+def test_deleting_a_story_takes_it_off_collections(client, alice):
+    _, headers = alice
+    story_id = _create_story(client, headers, "Zara and the Dragon")
+    bedtime = _create_collection(client, headers, "Bedtime")
+    client.put(f"/api/collections/{bedtime['id']}/stories/{story_id}", headers=headers)
+
+    assert client.delete(f"/api/stories/{story_id}", headers=headers).status_code == 204
+
+    assert client.get(f"/api/collections/{bedtime['id']}", headers=headers).json()["stories"] == []
+
+
+def test_cannot_touch_someone_elses_collection_or_story(client, alice):
+    _, alice_headers = alice
+    _, charlie_headers = _signup(client, _CHARLIE)
+    alice_story = _create_story(client, alice_headers, "Zara and the Dragon")
+    alice_shelf = _create_collection(client, alice_headers, "Bedtime")
+    charlie_shelf = _create_collection(client, charlie_headers, "Mine")
+
+    assert client.get(f"/api/collections/{alice_shelf['id']}", headers=charlie_headers).status_code == 404
+    assert client.delete(f"/api/collections/{alice_shelf['id']}", headers=charlie_headers).status_code == 404
+    assert (
+        client.put(f"/api/collections/{charlie_shelf['id']}/stories/{alice_story}", headers=charlie_headers).status_code
+        == 404
+    )
+
+
+def test_shared_collection_lets_friends_read_its_stories(client, alice, bob):
+    alice_id, alice_headers = alice
+    _, bob_headers = bob
+    story_id = _create_story(client, alice_headers, "Zara and the Dragon")
+    shelf = _create_collection(client, alice_headers, "Bedtime")
+    client.put(f"/api/collections/{shelf['id']}/stories/{story_id}", headers=alice_headers)
+
+    assert client.get(f"/api/friends/{alice_id}/collections", headers=bob_headers).json() == []
+    assert client.get(f"/api/friends/{alice_id}/stories/{story_id}", headers=bob_headers).status_code == 404
+
+    client.patch(f"/api/collections/{shelf['id']}", json={"visibility": "shared_with_friends"}, headers=alice_headers)
+
+    shared = client.get(f"/api/friends/{alice_id}/collections", headers=bob_headers).json()
+    assert [c["name"] for c in shared] == ["Bedtime"]
+    detail = client.get(f"/api/friends/{alice_id}/collections/{shelf['id']}", headers=bob_headers).json()
+    assert [story["id"] for story in detail["stories"]] == [story_id]
+    assert detail["stories"][0]["share_link"] is None
+    assert client.get(f"/api/friends/{alice_id}/stories/{story_id}", headers=bob_headers).status_code == 200
+
+
+def test_private_collections_stay_hidden_from_friends_and_strangers(client, alice, bob):
+    alice_id, alice_headers = alice
+    _, bob_headers = bob
+    _, charlie_headers = _signup(client, _CHARLIE)
+    private_shelf = _create_collection(client, alice_headers, "Secret")
+    shared_shelf = _create_collection(client, alice_headers, "Family", visibility="shared_with_friends")
+
+    assert (
+        client.get(f"/api/friends/{alice_id}/collections/{private_shelf['id']}", headers=bob_headers).status_code == 404
+    )
+    assert client.get(f"/api/friends/{alice_id}/collections", headers=charlie_headers).status_code == 404
+    assert (
+        client.get(f"/api/friends/{alice_id}/collections/{shared_shelf['id']}", headers=charlie_headers).status_code
+        == 404
+    )
@@ -64,7 +64,7 @@ def _signup(client: TestClient, payload: dict) -> dict[str, str]:
 def test_generation_route_returns_429_when_user_exceeds_quota(client, monkeypatch):
     calls = 0
 
-    async def fake_gen_script(profile):
+    async def fake_gen_script(profile, previous_episode=None):
         nonlocal calls
         calls += 1
         return _SCRIPT_RESPONSE
@@ -86,7 +86,7 @@ def test_generation_route_returns_429_when_user_exceeds_quota(client, monkeypatc
 
 
 def test_generation_rate_limit_is_per_user(client, monkeypatch):
-    async def fake_gen_script(profile):
+    async def fake_gen_script(profile, previous_episode=None):
         return _SCRIPT_RESPONSE
 
     monkeypatch.setattr(generation, "gen_script", fake_gen_script)
@@ -106,10 +106,10 @@ def test_generation_rate_limit_is_per_user(client, monkeypatch):
 def test_streaming_generation_is_rejected_before_stream_starts_when_limited(client, monkeypatch):
     stream_started = False
 
-    async def fake_gen_script(profile):
+    async def fake_gen_script(profile, previous_episode=None):
         return _SCRIPT_RESPONSE
 
-    async def fake_gen_script_stream(profile):
+    async def fake_gen_script_stream(profile, previous_episode=None):
         nonlocal stream_started
         stream_started = True
         yield {"type": "script", "script": _SCRIPT_RESPONSE}
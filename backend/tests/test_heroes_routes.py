@@ -0,0 +1,104 @@
+"""Saved heroes library route tests."""
+
+import asyncio
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.heroes import router as heroes_router
+from routers.stories import router as stories_router
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password456!"}
+
+_ZARA = {
+    "name": "Zara",
+    "gender": "girl",
+    "skin_tone": "Honey",
+    "hair_color": "Black",
+    "eye_color": "Brown",
+    "favorite_color": "Purple",
+}
+_LEO = {
+    "name": "Leo",
+    "gender": "boy",
+    "skin_tone": "Fair",
+    "hair_color": "Ginger",
+    "eye_color": "Green",
+    "favorite_color": "Blue",
+}
+
+
+@pytest.fixture
+def client(tmp_path):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, stories_router, heroes_router)) as test_client:
+        yield test_client
+
+
+def _signup(client: TestClient, payload: dict) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=payload)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+def _save_story(client: TestClient, headers: dict[str, str], profile: dict, title: str) -> dict:
+    payload = {"profile": profile, "title": title, "panels": [{"panel_order": 0, "text": "Hello."}]}
+    response = client.post("/api/stories", json=payload, headers=headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def test_list_groups_profiles_of_the_same_hero(client):
+    alice = _signup(client, _ALICE)
+    _save_story(client, alice, _ZARA, "First")
+    _save_story(client, alice, _LEO, "Second")
+    latest_zara = _save_story(client, alice, {**_ZARA, "name": " zara ", "favorite_color": "Green"}, "Third")
+
+    response = client.get("/api/heroes", headers=alice)
+
+    assert response.status_code == 200, response.text
+    heroes = response.json()
+    assert [hero["name"] for hero in heroes] == [" zara ", "Leo"]
+    assert heroes[0]["id"] == latest_zara["profile"]["id"]
+    assert heroes[0]["favorite_color"] == "Green"
+    assert heroes[0]["story_count"] == 2
+    assert heroes[1]["story_count"] == 1
+
+
+def test_update_renames_the_hero_in_every_story(client):
+    alice = _signup(client, _ALICE)
+    first = _save_story(client, alice, _ZARA, "First")
+    _save_story(client, alice, _ZARA, "Second")
+    hero_id = client.get("/api/heroes", headers=alice).json()[0]["id"]
+
+    response = client.patch(
+        f"/api/heroes/{hero_id}",
+        json={**_ZARA, "name": "Zara Star", "hair_color": "Brown"},
+        headers=alice,
+    )
+
+    assert response.status_code == 200, response.text
+    assert response.json()["name"] == "Zara Star"
+    assert response.json()["story_count"] == 2
+    detail = client.get(f"/api/stories/{first['id']}", headers=alice).json()
+    assert detail["profile"]["name"] == "Zara Star"
+    assert detail["profile"]["hair_color"] == "Brown"
+
+
+def test_heroes_are_private_to_their_owner(client):
+    alice = _signup(client, _ALICE)
+    bob = _signup(client, _BOB)
+    _save_story(client, alice, _ZARA, "First")
+    hero_id = client.get("/api/heroes", headers=alice).json()[0]["id"]
+
+    assert client.get("/api/heroes", headers=bob).json() == []
+    response = client.patch(f"/api/heroes/{hero_id}", json={**_ZARA, "name": "Stolen"}, headers=bob)
+    assert response.status_code == 404
+
+
+def test_heroes_require_jwt(client):
+    assert client.get("/api/heroes").status_code == 401
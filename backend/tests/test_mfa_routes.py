@@ -0,0 +1,196 @@
+"""Two-factor tests: TOTP enrolment, the second login step, recovery codes and turning it off."""
+
+import asyncio
+
+import aiosqlite
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.mfa import router as mfa_router
+from routers.user import router as user_router
+from services.totp import current_time_step, match_totp_code, totp_code
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_LOGIN = {"email": _ALICE["email"], "password": _ALICE["password"]}
+
+
+@pytest.fixture
+def client_with_db_path(tmp_path):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, mfa_router, user_router)) as client:
+        yield client, db_path
+
+
+@pytest.fixture
+def client(client_with_db_path):
+    test_client, _ = client_with_db_path
+    return test_client
+
+
+@pytest.fixture
+def auth_headers(client) -> dict:
+    response = client.post("/api/auth/signup", json=_ALICE)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+def _enrol(client, auth_headers) -> tuple[str, list[str]]:
+    """Turn two-factor on; returns (secret, recovery codes)."""
+    secret = client.post("/api/users/me/mfa/totp", headers=auth_headers).json()["secret"]
+    confirm = client.post(
+        "/api/users/me/mfa/totp/confirm",
+        headers=auth_headers,
+        json={"code": totp_code(secret, current_time_step())},
+    )
+    assert confirm.status_code == 200, confirm.text
+    return secret, confirm.json()["recovery_codes"]
+
+
+def _next_code(secret: str) -> str:
+    # Each time step signs in once, and enrolment already spent the current one.
+    return totp_code(secret, current_time_step() + 1)
+
+
+def test_enrolment_returns_a_scannable_uri_and_is_pending_until_confirmed(client, auth_headers):
+    enrolment = client.post("/api/users/me/mfa/totp", headers=auth_headers)
+
+    assert enrolment.status_code == 200, enrolment.text
+    body = enrolment.json()
+    assert body["otpauth_uri"].startswith("otpauth://totp/WonderComic%3Aalice%40example.com?")
+    assert f"secret={body['secret']}" in body["otpauth_uri"]
+    assert client.get("/api/users/me/mfa", headers=auth_headers).json() == {
+        "enabled": False,
+        "recovery_codes_remaining": 0,
+    }
+    assert "access_token" in client.post("/api/auth/login", json=_LOGIN).json()
+
+
+def test_confirming_with_a_wrong_code_keeps_two_factor_off(client, auth_headers):
+    client.post("/api/users/me/mfa/totp", headers=auth_headers)
+
+    response = client.post("/api/users/me/mfa/totp/confirm", headers=auth_headers, json={"code": "000000"})
+
+    assert response.status_code == 400
+    assert response.json()["detail"] == "Invalid verification code"
+    assert client.get("/api/users/me/mfa", headers=auth_headers).json()["enabled"] is False
+
+
+def test_confirming_turns_two_factor_on_with_recovery_codes(client, auth_headers):
+    _, recovery_codes = _enrol(client, auth_headers)
+
+    assert len(recovery_codes) == 10
+    assert len(set(recovery_codes)) == 10
+    assert client.get("/api/users/me/mfa", headers=auth_headers).json() == {
+        "enabled": True,
+        "recovery_codes_remaining": 10,
+    }
+    assert client.post("/api/users/me/mfa/totp", headers=auth_headers).status_code == 409
+
+
+def test_login_with_two_factor_returns_a_challenge_instead_of_tokens(client, auth_headers):
+    _enrol(client, auth_headers)
+
+    response = client.post("/api/auth/login", json=_LOGIN)
+
+    assert response.status_code == 200, response.text
+    body = response.json()
+    assert body["mfa_required"] is True
+    assert body["mfa_token"]
+    assert body["expires_in"] == 300
+    assert "access_token" not in body
+
+
+def test_verifying_the_challenge_returns_tokens_once(client, auth_headers):
+    secret, _ = _enrol(client, auth_headers)
+    mfa_token = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+
+    response = client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": _next_code(secret)})
+
+    assert response.status_code == 200, response.text
+    tokens = response.json()
+    me = client.get("/api/users/me", headers={"Authorization": f"Bearer {tokens['access_token']}"})
+    assert me.json()["username"] == "alice"
+    assert tokens["refresh_token"]
+    replay = client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": _next_code(secret)})
+    assert replay.status_code == 401
+
+
+def test_a_totp_code_signs_in_only_once(client, auth_headers):
+    secret, _ = _enrol(client, auth_headers)
+    code = _next_code(secret)
+    first = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+    second = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+
+    assert client.post("/api/auth/mfa/verify", json={"mfa_token": first, "code": code}).status_code == 200
+    assert client.post("/api/auth/mfa/verify", json={"mfa_token": second, "code": code}).status_code == 400
+
+
+def test_recovery_codes_sign_in_once_each(client, auth_headers):
+    _, recovery_codes = _enrol(client, auth_headers)
+
+    def verify(code: str):
+        mfa_token = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+        return client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": code})
+
+    assert verify(f" {recovery_codes[0].upper()} ").status_code == 200
+    assert verify(recovery_codes[0]).status_code == 400
+    assert client.get("/api/users/me/mfa", headers=auth_headers).json()["recovery_codes_remaining"] == 9
+
+
+def test_a_challenge_stops_accepting_codes_after_too_many_wrong_ones(client, auth_headers):
+    secret, _ = _enrol(client, auth_headers)
+    mfa_token = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+
+    for _ in range(5):
+        wrong = client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": "000000"})
+        assert wrong.status_code == 400
+
+    response = client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": _next_code(secret)})
+    assert response.status_code == 401
+    assert response.json()["detail"] == "Invalid or expired MFA challenge"
+
+
+def test_expired_challenges_are_rejected(client_with_db_path, auth_headers):
+    client, db_path = client_with_db_path
+    secret, _ = _enrol(client, auth_headers)
+    mfa_token = client.post("/api/auth/login", json=_LOGIN).json()["mfa_token"]
+
+    async def expire_challenges() -> None:
+        async with aiosqlite.connect(db_path) as db:
+            await db.execute("UPDATE mfa_challenges SET expires_at = '2000-01-01 00:00:00'")
+            await db.commit()
+
+    asyncio.run(expire_challenges())
+
+    response = client.post("/api/auth/mfa/verify", json={"mfa_token": mfa_token, "code": _next_code(secret)})
+    assert response.status_code == 401
+
+
+def test_disabling_requires_a_valid_code_and_restores_password_only_login(client, auth_headers):
+    secret, _ = _enrol(client, auth_headers)
+
+    wrong = client.post("/api/users/me/mfa/disable", headers=auth_headers, json={"code": "000000"})
+    assert wrong.status_code == 400
+    response = client.post("/api/users/me/mfa/disable", headers=auth_headers, json={"code": _next_code(secret)})
+
+    assert response.status_code == 204
+    assert client.get("/api/users/me/mfa", headers=auth_headers).json()["enabled"] is False
+    assert "access_token" in client.post("/api/auth/login", json=_LOGIN).json()
+
+
+def test_mfa_settings_require_authentication(client):
+    assert client.get("/api/users/me/mfa").status_code == 401
+    assert client.post("/api/users/me/mfa/totp").status_code == 401
+
+
+def test_totp_codes_follow_rfc_6238():
+    # RFC 6238 appendix B, SHA-1 seed "12345678901234567890", truncated to 6 digits.
+    secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+
+    assert totp_code(secret, 59 // 30) == "287082"
+    assert totp_code(secret, 1111111109 // 30) == "081804"
+    assert match_totp_code(secret, "287082", now=59) == 1
+    assert match_totp_code(secret, "287082", now=59 + 120) is None
@@ -126,13 +126,16 @@ def test_google_oauth_callback_redirects_link_conflict_error(client, monkeypatch
 def test_oauth_exchange_returns_app_token(client, monkeypatch):
     monkeypatch.setattr("routers.auth.consume_oauth_result_code", _async_return(42))
     monkeypatch.setattr("routers.auth.create_access_token", lambda user_id: f"jwt-for-{user_id}")
+    monkeypatch.setattr("routers.auth.issue_refresh_token", _async_return("refresh-for-42"))
 
     response = client.post("/api/auth/oauth/exchange", json={"code": "code-123"})
 
     assert response.status_code == 200
     assert response.json() == {
         "access_token": "jwt-for-42",
+        "refresh_token": "refresh-for-42",
         "token_type": "bearer",
+        "expires_in": 900,
     }
 
 
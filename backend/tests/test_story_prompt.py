@@ -0,0 +1,105 @@
+"""Tests for the story-script prompt built from the wizard's length, reading level, cast and series."""
+
+import pytest
+from pydantic import ValidationError
+
+from llm.gemini_service import _build_story_script_prompt, _build_story_structure, _label_panel_casts
+from schemas import GenerateStoryScriptResponse, KidProfileCreate, PreviousEpisode
+
+_PROFILE = {
+    "name": "Zara",
+    "gender": "girl",
+    "skin_tone": "Fair",
+    "hair_color": "Brown",
+    "eye_color": "Green",
+    "favorite_color": "Purple",
+}
+
+
+def test_default_prompt_keeps_ten_panels_and_simple_vocabulary() -> None:
+    prompt = _build_story_script_prompt(KidProfileCreate(**_PROFILE))
+
+    assert "Create a 10-panel children's comic story. Simple vocabulary, 6-10 words per panel." in prompt
+    assert "Panels 1-3 setup, Panels 4-7 conflict, Panels 8-10 resolution." in prompt
+    assert "Return exactly 10 panels." in prompt
+
+
+def test_prompt_follows_requested_length_and_reading_level() -> None:
+    profile = KidProfileCreate(**_PROFILE, panel_count=4, reading_level="early")
+    prompt = _build_story_script_prompt(profile)
+
+    assert "Create a 4-panel children's comic story. Very simple words" in prompt
+    assert "Return exactly 4 panels." in prompt
+
+
+@pytest.mark.parametrize(
+    ("panel_count", "structure"),
+    [
+        (4, "Panel 1 setup, Panels 2-3 conflict, Panel 4 resolution."),
+        (5, "Panels 1-2 setup, Panel 3 conflict, Panels 4-5 resolution."),
+        (16, "Panels 1-5 setup, Panels 6-11 conflict, Panels 12-16 resolution."),
+    ],
+)
+def test_structure_covers_every_panel(panel_count: int, structure: str) -> None:
+    assert _build_story_structure(panel_count) == structure
+
+
+@pytest.mark.parametrize("panel_count", [0, 17])
+def test_panel_count_out_of_range_is_rejected(panel_count: int) -> None:
+    with pytest.raises(ValidationError):
+        KidProfileCreate(**_PROFILE, panel_count=panel_count)
+
+
+def test_cast_members_are_listed_with_photos_numbered_after_the_hero() -> None:
+    profile = KidProfileCreate(
+        **_PROFILE,
+        photo_base64="aGVybw==",
+        cast=[
+            {"name": "Max", "role": "sibling", "gender": "boy", "hair_color": "Black", "eye_color": "Brown"},
+            {"name": "Biscuit", "role": "pet", "hair_color": "Golden", "eye_color": "Amber", "photo_base64": "ZG9n"},
+        ],
+    )
+    prompt = _build_story_script_prompt(profile)
+
+    assert "The child in attached photo 1 (girl)" in prompt
+    assert "- Max: a boy child (sibling) with any skin, Black hair, Brown eyes" in prompt
+    assert "- Biscuit: the pet in attached photo 2" in prompt
+    assert 'list in characters the names of everyone who appears, using "Zara" for the hero' in prompt
+
+
+def test_next_episode_prompt_recaps_the_previous_one() -> None:
+    previous_episode = PreviousEpisode(
+        title="Zara and the Dragon",
+        character_description="Zara wears a purple cape; Ember is a small red dragon.",
+        summary="Zara finds a dragon. They fly home.",
+    )
+    prompt = _build_story_script_prompt(KidProfileCreate(**_PROFILE), previous_episode)
+
+    assert 'PREVIOUS EPISODE: "Zara and the Dragon"' in prompt
+    assert "WHAT HAPPENED: Zara finds a dragon. They fly home." in prompt
+    assert "Zara wears a purple cape; Ember is a small red dragon." in prompt
+    assert "PREVIOUS EPISODE" not in _build_story_script_prompt(KidProfileCreate(**_PROFILE))
+
+
+def test_panel_prompts_are_labelled_with_their_cast_once() -> None:
+    script = GenerateStoryScriptResponse(
+        title="Zara and Max",
+        foreword="Two explorers and a dog.",
+        characterDescription="Zara in a cape; Max in boots; Biscuit the dog.",
+        coverImagePrompt="Everyone on a hill.",
+        panels=[
+            {"id": "1", "text": "They set off.", "imagePrompt": "A path in the woods.", "characters": ["Zara", "Max"]},
+            {"id": "2", "text": "Quiet woods.", "imagePrompt": "Empty woods at dusk."},
+        ],
+    )
+
+    labelled = _label_panel_casts(_label_panel_casts(script))
+
+    assert labelled.panels[0].imagePrompt == "Featuring: Zara, Max. A path in the woods."
+    assert labelled.panels[1].imagePrompt == "Empty woods at dusk."
+
+
+def test_cast_size_is_capped() -> None:
+    member = {"name": "Kid", "role": "friend", "hair_color": "Brown", "eye_color": "Blue"}
+    with pytest.raises(ValidationError):
+        KidProfileCreate(**_PROFILE, cast=[member] * 5)
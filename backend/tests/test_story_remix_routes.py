@@ -0,0 +1,149 @@
+"""Story remix tests: copying a story into a new draft for another hero, art style or language."""
+
+import asyncio
+import base64
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.stories import router as stories_router
+from routers.user import router as user_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+
+_PROFILE = {
+    "name": "Zara",
+    "gender": "girl",
+    "skin_tone": "medium",
+    "hair_color": "black",
+    "eye_color": "brown",
+    "favorite_color": "purple",
+    "art_style": "Comic",
+    "language": "en",
+}
+
+_REMIX_PROFILE = {**_PROFILE, "name": "Leo", "gender": "boy", "art_style": "Watercolor", "language": "fr"}
+
+_STORY_PAYLOAD = {
+    "profile": _PROFILE,
+    "title": "Zara and the Dragon",
+    "foreword": "A brave girl meets a shy dragon.",
+    "character_description": "Zara wears a purple cape.",
+    "cover_image_prompt": "Zara and a dragon on a hill.",
+    "cover_image_base64": base64.b64encode(b"cover").decode(),
+    "panels": [
+        {
+            "panel_order": 0,
+            "text": "Zara sees a glowing hill.",
+            "image_prompt": "A glowing hill at dusk.",
+            "image_base64": base64.b64encode(b"first").decode(),
+        },
+        {"panel_order": 1, "text": "The dragon waves.", "image_prompt": "A shy dragon waving."},
+    ],
+}
+
+
+@pytest.fixture
+def images_dir(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    return directory
+
+
+@pytest.fixture
+def client(tmp_path, images_dir):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    app = make_test_app(db_path, auth_router, user_router, stories_router)
+    with TestClient(app) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+@pytest.fixture
+def alice(client) -> dict[str, str]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def story(client, alice) -> dict:
+    response = client.post("/api/stories", json=_STORY_PAYLOAD, headers=alice)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def _remix(client, headers, story_id: int, **fields):
+    return client.post(f"/api/stories/{story_id}/remix", json={"profile": _REMIX_PROFILE, **fields}, headers=headers)
+
+
+def test_remix_copies_the_script_into_a_new_unpainted_draft(client, alice, story):
+    response = _remix(client, alice, story["id"])
+
+    assert response.status_code == 200, response.text
+    remix = response.json()
+    assert remix["id"] != story["id"]
+    assert remix["title"] == "Zara and the Dragon"
+    assert remix["character_description"] == "Zara wears a purple cape."
+    assert remix["cover_image_prompt"] == "Zara and a dragon on a hill."
+    assert [(panel["text"], panel["image_prompt"]) for panel in remix["panels"]] == [
+        ("Zara sees a glowing hill.", "A glowing hill at dusk."),
+        ("The dragon waves.", "A shy dragon waving."),
+    ]
+    assert remix["cover_image_url"] is None
+    assert all(panel["image_url"] is None for panel in remix["panels"])
+    assert remix["is_unlocked"] is False
+    assert remix["visibility"] == "private"
+    assert (remix["profile"]["name"], remix["profile"]["art_style"], remix["profile"]["language"]) == (
+        "Leo",
+        "Watercolor",
+        "fr",
+    )
+
+    original = client.get(f"/api/stories/{story['id']}", headers=alice).json()
+    assert original["profile"]["name"] == "Zara"
+    assert len(client.get("/api/stories", headers=alice).json()) == 2
+
+
+def test_remix_can_keep_copies_of_the_images(client, alice, story, images_dir):
+    remix = _remix(client, alice, story["id"], keep_images=True).json()
+
+    assert remix["cover_image_url"] not in (None, story["cover_image_url"])
+    assert (images_dir / remix["cover_image_url"]).read_bytes() == b"cover"
+    first_panel, second_panel = remix["panels"]
+    assert first_panel["image_url"] != story["panels"][0]["image_url"]
+    assert (images_dir / first_panel["image_url"]).read_bytes() == b"first"
+    assert second_panel["image_url"] is None
+    assert remix["is_unlocked"] is False
+
+    # The copies belong to the remix alone, so deleting the original leaves them in place.
+    assert client.delete(f"/api/stories/{story['id']}", headers=alice).status_code == 204
+    assert (images_dir / remix["cover_image_url"]).exists()
+    assert (images_dir / first_panel["image_url"]).exists()
+
+
+def test_remixing_an_episode_starts_outside_the_series(client, alice, story):
+    sequel_payload = {**_STORY_PAYLOAD, "title": "Zara and the Dragon Egg", "continues_story_id": story["id"]}
+    sequel = client.post("/api/stories", json=sequel_payload, headers=alice).json()
+
+    remix = _remix(client, alice, sequel["id"]).json()
+
+    assert remix["series"] is None
+    assert client.get(f"/api/stories/{story['id']}", headers=alice).json()["series"]["next_story_id"] == sequel["id"]
+
+
+def test_remixing_a_missing_or_trashed_story_is_not_found(client, alice, story):
+    bob = _signup(client, _BOB)
+    assert _remix(client, bob, story["id"]).status_code == 404
+
+    assert client.post(f"/api/stories/{story['id']}/trash", headers=alice).status_code == 204
+    assert _remix(client, alice, story["id"]).status_code == 404
@@ -0,0 +1,101 @@
+"""Streaming story-script revision route tests."""
+
+import asyncio
+import json
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers import generation
+from routers.auth import router as auth_router
+from routers.generation import router as generation_router
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+
+_SCRIPT = {
+    "title": "Zara and the Dragon",
+    "foreword": "A tiny hero finds a brave spark.",
+    "characterDescription": "Zara wears a purple cape.",
+    "coverImagePrompt": "Zara and a dragon above a valley.",
+    "panels": [
+        {"id": "1", "text": "Zara waves at the glowing hill.", "imagePrompt": "Zara on a glowing hill."},
+        {"id": "2", "text": "The dragon yawns.", "imagePrompt": "A sleepy dragon."},
+    ],
+}
+
+
+@pytest.fixture
+def client(tmp_path):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, generation_router)) as test_client:
+        yield test_client
+
+
+@pytest.fixture
+def alice_headers(client) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=_ALICE)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+def _read_events(response) -> list[dict]:
+    return [json.loads(line) for line in response.text.splitlines() if line.strip()]
+
+
+def test_revision_streams_intro_deltas_and_revised_script(client, alice_headers, monkeypatch):
+    received: dict = {}
+    revised = {**_SCRIPT, "title": "Zara and the Puppy"}
+
+    async def fake_revise(script, instruction, language):
+        received.update(script=script, instruction=instruction, language=language)
+        yield {"type": "intro_delta", "field": "title", "delta": "Zara and the Puppy"}
+        yield {"type": "script", "script": revised}
+
+    monkeypatch.setattr(generation, "revise_script_stream", fake_revise)
+
+    response = client.post(
+        "/api/generate/story-script/revise/stream",
+        json={"script": _SCRIPT, "instruction": "Add a dog", "language": "fr"},
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 200, response.text
+    assert response.headers["content-type"].startswith("application/x-ndjson")
+    assert _read_events(response) == [
+        {"type": "intro_delta", "field": "title", "delta": "Zara and the Puppy"},
+        {"type": "script", "script": revised},
+    ]
+    assert received["script"].title == "Zara and the Dragon"
+    assert received["instruction"] == "Add a dog"
+    assert received["language"] == "fr"
+
+
+def test_revision_failure_is_reported_as_error_event(client, alice_headers, monkeypatch):
+    async def failing_revise(script, instruction, language):
+        yield {"type": "intro_delta", "field": "title", "delta": "Za"}
+        raise RuntimeError("model overloaded")
+
+    monkeypatch.setattr(generation, "revise_script_stream", failing_revise)
+
+    response = client.post(
+        "/api/generate/story-script/revise/stream",
+        json={"script": _SCRIPT, "instruction": "Make it shorter"},
+        headers=alice_headers,
+    )
+
+    events = _read_events(response)
+    assert response.status_code == 200
+    assert events[0]["type"] == "intro_delta"
+    assert events[-1]["type"] == "error"
+
+
+def test_revision_requires_an_instruction(client, alice_headers):
+    response = client.post(
+        "/api/generate/story-script/revise/stream",
+        json={"script": _SCRIPT, "instruction": ""},
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 422
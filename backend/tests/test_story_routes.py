@@ -0,0 +1,253 @@
+"""Story route tests for panel layout edits and image version history."""
+
+import asyncio
+import base64
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.stories import router as stories_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+
+_IMAGE_A = base64.b64encode(b"panel-a").decode()
+_IMAGE_B = base64.b64encode(b"panel-b").decode()
+_IMAGE_C = base64.b64encode(b"panel-c").decode()
+
+_STORY_PAYLOAD = {
+    "profile": {
+        "name": "Zara",
+        "gender": "girl",
+        "skin_tone": "medium",
+        "hair_color": "black",
+        "eye_color": "brown",
+        "favorite_color": "purple",
+    },
+    "title": "Zara and the Dragon",
+    "panels": [
+        {"panel_order": 0, "text": "Zara sees a glowing hill.", "image_prompt": "hill", "image_base64": _IMAGE_A},
+        {"panel_order": 1, "text": "The dragon waves hello.", "image_prompt": "dragon", "image_base64": _IMAGE_B},
+        {"panel_order": 2, "text": "They fly home.", "image_prompt": "home", "image_base64": _IMAGE_C},
+    ],
+}
+
+
+@pytest.fixture
+def images_dir(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    return directory
+
+
+@pytest.fixture
+def client(tmp_path, images_dir):
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, stories_router)) as test_client:
+        yield test_client
+
+
+@pytest.fixture
+def alice_headers(client) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=_ALICE)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+@pytest.fixture
+def story(client, alice_headers) -> dict:
+    response = client.post("/api/stories", json=_STORY_PAYLOAD, headers=alice_headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def test_update_without_replace_keeps_captions(client, alice_headers, story):
+    response = client.patch(
+        f"/api/stories/{story['id']}",
+        json={"panels": [{"panel_order": 0, "text": "Ignored caption"}]},
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 200, response.text
+    assert response.json()["panels"][0]["text"] == "Zara sees a glowing hill."
+
+
+def test_update_rewrites_script_fields_only_when_sent(client, alice_headers, story):
+    response = client.patch(
+        f"/api/stories/{story['id']}",
+        json={"title": "Zara and the Puppy", "character_description": "Zara and her puppy Pip."},
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 200, response.text
+    assert response.json()["title"] == "Zara and the Puppy"
+    assert response.json()["character_description"] == "Zara and her puppy Pip."
+    assert response.json()["foreword"] == story["foreword"]
+
+
+def test_replace_panels_reorders_edits_inserts_and_deletes(client, alice_headers, story, images_dir):
+    original_images = [panel["image_url"] for panel in story["panels"]]
+
+    response = client.patch(
+        f"/api/stories/{story['id']}",
+        json={
+            "replace_panels": True,
+            "is_unlocked": False,
+            "panels": [
+                {"panel_order": 0, "text": "The dragon says hi.", "image_prompt": "dragon", "source_panel_order": 1},
+                {"panel_order": 1, "text": "A brand new page.", "image_prompt": "new page"},
+                {
+                    "panel_order": 2,
+                    "text": "Zara sees a glowing hill.",
+                    "image_prompt": "hill",
+                    "source_panel_order": 0,
+                },
+            ],
+        },
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 200, response.text
+    panels = response.json()["panels"]
+    assert [panel["text"] for panel in panels] == [
+        "The dragon says hi.",
+        "A brand new page.",
+        "Zara sees a glowing hill.",
+    ]
+    assert [panel["image_url"] for panel in panels] == [original_images[1], None, original_images[0]]
+    assert response.json()["is_unlocked"] is False
+    assert not (images_dir / original_images[2]).exists()
+    assert (images_dir / original_images[0]).exists()
+
+
+def test_replace_panels_rejects_gaps_in_panel_order(client, alice_headers, story):
+    response = client.patch(
+        f"/api/stories/{story['id']}",
+        json={
+            "replace_panels": True,
+            "panels": [
+                {"panel_order": 0, "text": "First"},
+                {"panel_order": 2, "text": "Third"},
+            ],
+        },
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 422
+    stored = client.get(f"/api/stories/{story['id']}", headers=alice_headers).json()
+    assert len(stored["panels"]) == 3
+
+
+def _revise_panel(client, headers, story_id: int, panel_order: int, raw: bytes) -> None:
+    response = client.patch(
+        f"/api/stories/{story_id}/panels/{panel_order}",
+        json={"image_base64": base64.b64encode(raw).decode()},
+        headers=headers,
+    )
+    assert response.status_code == 204, response.text
+
+
+def test_panel_revision_keeps_previous_image_and_can_be_restored(client, alice_headers, story, images_dir):
+    original_image = story["panels"][1]["image_url"]
+    _revise_panel(client, alice_headers, story["id"], 1, b"revised")
+
+    versions = client.get(f"/api/stories/{story['id']}/panels/1/versions", headers=alice_headers)
+    assert versions.status_code == 200, versions.text
+    assert [version["image_url"] for version in versions.json()] == [original_image]
+
+    revised_image = client.get(f"/api/stories/{story['id']}", headers=alice_headers).json()["panels"][1]["image_url"]
+    restored = client.post(
+        f"/api/stories/{story['id']}/panels/1/versions/{versions.json()[0]['id']}/restore",
+        headers=alice_headers,
+    )
+
+    assert restored.status_code == 200, restored.text
+    assert restored.json() == {"image_url": original_image}
+    after = client.get(f"/api/stories/{story['id']}/panels/1/versions", headers=alice_headers).json()
+    assert [version["image_url"] for version in after] == [revised_image]
+    assert (images_dir / revised_image).exists()
+
+
+def test_redrawn_panel_keeps_its_new_prompt(client, alice_headers, story):
+    response = client.patch(
+        f"/api/stories/{story['id']}/panels/2",
+        json={"image_base64": base64.b64encode(b"redrawn").decode(), "image_prompt": "home at sunset"},
+        headers=alice_headers,
+    )
+    assert response.status_code == 204, response.text
+
+    panels = client.get(f"/api/stories/{story['id']}", headers=alice_headers).json()["panels"]
+    assert panels[2]["image_prompt"] == "home at sunset"
+    assert panels[1]["image_prompt"] == "dragon"
+
+    _revise_panel(client, alice_headers, story["id"], 2, b"touched-up")
+    panels = client.get(f"/api/stories/{story['id']}", headers=alice_headers).json()["panels"]
+    assert panels[2]["image_prompt"] == "home at sunset"
+
+
+def test_panel_history_is_capped(client, alice_headers, story, images_dir):
+    for attempt in range(12):
+        _revise_panel(client, alice_headers, story["id"], 0, f"revision-{attempt}".encode())
+
+    versions = client.get(f"/api/stories/{story['id']}/panels/0/versions", headers=alice_headers).json()
+    assert len(versions) == 10
+    assert not (images_dir / story["panels"][0]["image_url"]).exists()
+
+
+def test_cover_revision_keeps_history(client, alice_headers, story):
+    for raw in (b"cover-1", b"cover-2"):
+        response = client.patch(
+            f"/api/stories/{story['id']}",
+            json={"cover_image_base64": base64.b64encode(raw).decode()},
+            headers=alice_headers,
+        )
+        assert response.status_code == 200, response.text
+
+    first_cover = client.get(f"/api/stories/{story['id']}/cover/versions", headers=alice_headers).json()[0]
+    restored = client.post(
+        f"/api/stories/{story['id']}/cover/versions/{first_cover['id']}/restore",
+        headers=alice_headers,
+    )
+
+    assert restored.status_code == 200, restored.text
+    assert (
+        client.get(f"/api/stories/{story['id']}", headers=alice_headers).json()["cover_image_url"]
+        == first_cover["image_url"]
+    )
+
+
+def test_reordering_panels_keeps_their_history(client, alice_headers, story):
+    _revise_panel(client, alice_headers, story["id"], 0, b"revised")
+
+    response = client.patch(
+        f"/api/stories/{story['id']}",
+        json={
+            "replace_panels": True,
+            "panels": [
+                {"panel_order": 0, "text": "The dragon waves hello.", "source_panel_order": 1},
+                {"panel_order": 1, "text": "Zara sees a glowing hill.", "source_panel_order": 0},
+                {"panel_order": 2, "text": "They fly home.", "source_panel_order": 2},
+            ],
+        },
+        headers=alice_headers,
+    )
+    assert response.status_code == 200, response.text
+
+    versions = client.get(f"/api/stories/{story['id']}/panels/1/versions", headers=alice_headers).json()
+    assert [version["image_url"] for version in versions] == [story["panels"][0]["image_url"]]
+
+
+def test_restoring_a_version_of_another_panel_is_not_found(client, alice_headers, story):
+    _revise_panel(client, alice_headers, story["id"], 0, b"revised")
+    version_id = client.get(f"/api/stories/{story['id']}/panels/0/versions", headers=alice_headers).json()[0]["id"]
+
+    response = client.post(
+        f"/api/stories/{story['id']}/panels/1/versions/{version_id}/restore",
+        headers=alice_headers,
+    )
+
+    assert response.status_code == 404
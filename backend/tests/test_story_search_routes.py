@@ -0,0 +1,176 @@
+"""Gallery search route tests: full-text search, filters, sorting, paging and facets."""
+
+import asyncio
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.stories import router as stories_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+
+
+def _story_payload(
+    title: str | None,
+    *,
+    name: str = "Zara",
+    archetype: str | None = None,
+    art_style: str | None = None,
+    language: str | None = None,
+    foreword: str = "",
+    captions: tuple[str, ...] = (),
+) -> dict:
+    return {
+        "profile": {
+            "name": name,
+            "gender": "girl",
+            "skin_tone": "medium",
+            "hair_color": "black",
+            "eye_color": "brown",
+            "favorite_color": "purple",
+            "archetype": archetype,
+            "art_style": art_style,
+            "language": language,
+        },
+        "title": title,
+        "foreword": foreword,
+        "panels": [{"panel_order": index, "text": caption} for index, caption in enumerate(captions)],
+    }
+
+
+@pytest.fixture
+def client(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    with TestClient(make_test_app(db_path, auth_router, stories_router)) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+@pytest.fixture
+def alice_headers(client) -> dict[str, str]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def library(client, alice_headers) -> dict[str, int]:
+    payloads = {
+        "dragon": _story_payload(
+            "Zara and the Dragon", archetype="Brave Explorer", art_style="Watercolor", language="en"
+        ),
+        "moon": _story_payload(
+            "A Trip to the Moon",
+            name="Leo",
+            archetype="Space Cadet",
+            art_style="Comic",
+            language="fr",
+            foreword="Leo builds a rocket.",
+        ),
+        "garden": _story_payload(
+            "Secret Garden", name=" zara ", language="en", captions=("A sleepy dragon guards the roses.",)
+        ),
+    }
+    ids = {}
+    for key, payload in payloads.items():
+        response = client.post("/api/stories", json=payload, headers=alice_headers)
+        assert response.status_code == 200, response.text
+        ids[key] = response.json()["id"]
+    return ids
+
+
+def _search(client, headers, **params) -> dict:
+    response = client.get("/api/stories/search", params=params, headers=headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def _titles(page: dict) -> list[str | None]:
+    return [item["title"] for item in page["items"]]
+
+
+def test_search_matches_title_foreword_and_captions(client, alice_headers, library):
+    assert _titles(_search(client, alice_headers, q="dragon", sort="title")) == [
+        "Secret Garden",
+        "Zara and the Dragon",
+    ]
+    assert _titles(_search(client, alice_headers, q="rocket")) == ["A Trip to the Moon"]
+    assert _search(client, alice_headers, q="dragon moon")["total"] == 0
+
+
+def test_search_treats_like_wildcards_literally(client, alice_headers, library):
+    assert _search(client, alice_headers, q="%")["total"] == 0
+
+
+def test_filters_combine(client, alice_headers, library):
+    assert _search(client, alice_headers, hero="ZARA")["total"] == 2
+    assert _titles(_search(client, alice_headers, hero="zara", art_style="Watercolor")) == ["Zara and the Dragon"]
+    assert _titles(_search(client, alice_headers, archetype="Space Cadet")) == ["A Trip to the Moon"]
+    assert _search(client, alice_headers, language="en")["total"] == 2
+
+
+def test_visibility_and_status_filters(client, alice_headers, library):
+    client.patch(
+        f"/api/stories/{library['moon']}/visibility", json={"visibility": "shared_with_friends"}, headers=alice_headers
+    )
+    client.patch(f"/api/stories/{library['garden']}", json={"is_unlocked": False}, headers=alice_headers)
+
+    assert _titles(_search(client, alice_headers, visibility="shared_with_friends")) == ["A Trip to the Moon"]
+    assert _titles(_search(client, alice_headers, status="draft")) == ["Secret Garden"]
+    assert _search(client, alice_headers, status="unlocked")["total"] == 2
+
+
+def test_sorts_by_title_and_date(client, alice_headers, library):
+    assert _titles(_search(client, alice_headers, sort="title")) == [
+        "A Trip to the Moon",
+        "Secret Garden",
+        "Zara and the Dragon",
+    ]
+    assert _titles(_search(client, alice_headers, sort="title_desc"))[0] == "Zara and the Dragon"
+    newest = [item["id"] for item in _search(client, alice_headers)["items"]]
+    oldest = [item["id"] for item in _search(client, alice_headers, sort="oldest")["items"]]
+    assert oldest == list(reversed(newest))
+
+
+def test_pages_report_total(client, alice_headers, library):
+    first = _search(client, alice_headers, sort="title", limit=2)
+    second = _search(client, alice_headers, sort="title", limit=2, offset=2)
+
+    assert first["total"] == 3
+    assert _titles(first) == ["A Trip to the Moon", "Secret Garden"]
+    assert _titles(second) == ["Zara and the Dragon"]
+    assert (second["limit"], second["offset"]) == (2, 2)
+
+
+def test_facets_cover_the_whole_library(client, alice_headers, library):
+    facets = _search(client, alice_headers, q="rocket")["facets"]
+
+    assert facets["hero_names"] == ["Leo", "Zara"]
+    assert facets["archetypes"] == ["Brave Explorer", "Space Cadet"]
+    assert facets["art_styles"] == ["Comic", "Watercolor"]
+    assert facets["languages"] == ["en", "fr"]
+
+
+def test_search_only_sees_own_stories(client, library):
+    bob_headers = _signup(client, _BOB)
+
+    page = _search(client, bob_headers)
+
+    assert page["total"] == 0
+    assert page["facets"]["hero_names"] == []
+
+
+def test_rejects_invalid_sort_and_page_size(client, alice_headers):
+    assert client.get("/api/stories/search", params={"sort": "random"}, headers=alice_headers).status_code == 422
+    assert client.get("/api/stories/search", params={"limit": 500}, headers=alice_headers).status_code == 422
@@ -0,0 +1,189 @@
+"""Story series tests: continuing a story, episode navigation, and the continuity context sent to Gemini."""
+
+import asyncio
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers import generation
+from routers.auth import router as auth_router
+from routers.friend import router as friend_router
+from routers.generation import router as generation_router
+from routers.stories import router as stories_router
+from routers.user import router as user_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+
+_PROFILE = {
+    "name": "Zara",
+    "gender": "girl",
+    "skin_tone": "medium",
+    "hair_color": "black",
+    "eye_color": "brown",
+    "favorite_color": "purple",
+}
+
+
+def _story_payload(title: str, **fields) -> dict:
+    return {
+        "profile": _PROFILE,
+        "title": title,
+        "character_description": "Zara wears a purple cape.",
+        "panels": [
+            {"panel_order": 0, "text": f"{title} begins."},
+            {"panel_order": 1, "text": "Everyone gets home safe."},
+        ],
+        **fields,
+    }
+
+
+@pytest.fixture
+def client(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    db_path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(db_path))
+    app = make_test_app(db_path, auth_router, user_router, friend_router, stories_router, generation_router)
+    with TestClient(app) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> tuple[int, dict[str, str]]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    headers = {"Authorization": f"Bearer {response.json()['access_token']}"}
+    return client.get("/api/users/me", headers=headers).json()["id"], headers
+
+
+@pytest.fixture
+def alice(client) -> tuple[int, dict[str, str]]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def bob(client, alice) -> tuple[int, dict[str, str]]:
+    """Bob is Alice's accepted friend."""
+    bob_id, bob_headers = _signup(client, _BOB)
+    assert client.post(f"/api/friends/{bob_id}", headers=alice[1]).status_code == 200
+    assert client.post(f"/api/friends/{alice[0]}/accept", headers=bob_headers).status_code == 200
+    return bob_id, bob_headers
+
+
+def _create_story(client, headers, title: str, **fields) -> dict:
+    response = client.post("/api/stories", json=_story_payload(title, **fields), headers=headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def test_standalone_story_has_no_series(client, alice):
+    story = _create_story(client, alice[1], "Zara and the Dragon")
+
+    assert story["series"] is None
+    assert client.get("/api/stories", headers=alice[1]).json()[0]["series_id"] is None
+
+
+def test_continuing_a_story_links_the_episodes(client, alice):
+    _, headers = alice
+    first = _create_story(client, headers, "Zara and the Dragon")
+    second = _create_story(client, headers, "Zara and the Dragon Egg", continues_story_id=first["id"])
+
+    assert second["series"] == {
+        "id": first["id"],
+        "episode_number": 2,
+        "previous_story_id": first["id"],
+        "next_story_id": None,
+    }
+    first_again = client.get(f"/api/stories/{first['id']}", headers=headers).json()
+    assert first_again["series"] == {
+        "id": first["id"],
+        "episode_number": 1,
+        "previous_story_id": None,
+        "next_story_id": second["id"],
+    }
+    listed = {item["id"]: item for item in client.get("/api/stories", headers=headers).json()}
+    assert (listed[first["id"]]["series_id"], listed[first["id"]]["episode_number"]) == (first["id"], 1)
+    assert (listed[second["id"]]["series_id"], listed[second["id"]]["episode_number"]) == (first["id"], 2)
+
+
+def test_new_episodes_go_to_the_end_of_the_series(client, alice):
+    _, headers = alice
+    first = _create_story(client, headers, "Episode one")
+    second = _create_story(client, headers, "Episode two", continues_story_id=first["id"])
+    third = _create_story(client, headers, "Episode three", continues_story_id=first["id"])
+
+    assert third["series"]["episode_number"] == 3
+    assert third["series"]["previous_story_id"] == second["id"]
+
+    client.delete(f"/api/stories/{second['id']}", headers=headers)
+    assert client.get(f"/api/stories/{first['id']}", headers=headers).json()["series"]["next_story_id"] == third["id"]
+
+
+def test_continuing_someone_elses_story_is_not_found(client, alice, bob):
+    first = _create_story(client, alice[1], "Zara and the Dragon")
+
+    response = client.post(
+        "/api/stories", json=_story_payload("Stolen sequel", continues_story_id=first["id"]), headers=bob[1]
+    )
+
+    assert response.status_code == 404
+    assert client.get("/api/stories", headers=bob[1]).json() == []
+
+
+def test_friends_only_step_through_episodes_they_can_open(client, alice, bob):
+    alice_id, alice_headers = alice
+    first = _create_story(client, alice_headers, "Episode one")
+    second = _create_story(client, alice_headers, "Episode two", continues_story_id=first["id"])
+    third = _create_story(client, alice_headers, "Episode three", continues_story_id=second["id"])
+    for story_id in (first["id"], third["id"]):
+        response = client.patch(
+            f"/api/stories/{story_id}/visibility", json={"visibility": "shared_with_friends"}, headers=alice_headers
+        )
+        assert response.status_code == 200, response.text
+
+    seen_by_bob = client.get(f"/api/friends/{alice_id}/stories/{first['id']}", headers=bob[1]).json()
+
+    assert seen_by_bob["series"]["next_story_id"] == third["id"]
+
+
+def test_script_stream_receives_the_previous_episode(client, alice, monkeypatch):
+    _, headers = alice
+    first = _create_story(client, headers, "Zara and the Dragon")
+    received: dict = {}
+
+    async def fake_gen_script_stream(profile, previous_episode=None):
+        received["previous_episode"] = previous_episode
+        yield {"type": "intro_delta", "field": "title", "delta": "Zara"}
+
+    monkeypatch.setattr(generation, "gen_script_stream", fake_gen_script_stream)
+
+    response = client.post(
+        "/api/generate/story-script/stream",
+        json={"profile": _PROFILE, "continues_story_id": first["id"]},
+        headers=headers,
+    )
+
+    assert response.status_code == 200, response.text
+    previous_episode = received["previous_episode"]
+    assert previous_episode.title == "Zara and the Dragon"
+    assert previous_episode.character_description == "Zara wears a purple cape."
+    assert previous_episode.summary == "Zara and the Dragon begins. Everyone gets home safe."
+
+
+def test_script_stream_rejects_an_unknown_story_to_continue(client, alice, monkeypatch):
+    async def fake_gen_script_stream(profile, previous_episode=None):
+        raise AssertionError("generation must not start")
+        yield  # pragma: no cover
+
+    monkeypatch.setattr(generation, "gen_script_stream", fake_gen_script_stream)
+
+    response = client.post(
+        "/api/generate/story-script/stream",
+        json={"profile": _PROFILE, "continues_story_id": 999},
+        headers=alice[1],
+    )
+
+    assert response.status_code == 404
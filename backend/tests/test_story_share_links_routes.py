@@ -0,0 +1,210 @@
+"""Public share link route tests: create, read without sign-in, revoke, and expiry."""
+
+import asyncio
+
+import aiosqlite
+import pytest
+from fastapi.testclient import TestClient
+
+from db.database import init_db
+from routers.auth import router as auth_router
+from routers.stories import router as stories_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+
+_STORY_PAYLOAD = {
+    "profile": {
+        "name": "Zara",
+        "gender": "girl",
+        "skin_tone": "medium",
+        "hair_color": "black",
+        "eye_color": "brown",
+        "favorite_color": "purple",
+    },
+    "title": "Zara and the Dragon",
+    "panels": [{"panel_order": 0, "text": "Zara sees a glowing hill.", "image_prompt": "hill"}],
+}
+
+
+@pytest.fixture
+def db_path(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(path))
+    return path
+
+
+@pytest.fixture
+def client(db_path):
+    with TestClient(make_test_app(db_path, auth_router, stories_router)) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> dict[str, str]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    return {"Authorization": f"Bearer {response.json()['access_token']}"}
+
+
+@pytest.fixture
+def alice_headers(client) -> dict[str, str]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def story(client, alice_headers) -> dict:
+    response = client.post("/api/stories", json=_STORY_PAYLOAD, headers=alice_headers)
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def _create_link(client, headers, story_id: int, expires_in_days: int | None = None) -> dict:
+    response = client.post(
+        f"/api/stories/{story_id}/share-link", json={"expires_in_days": expires_in_days}, headers=headers
+    )
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def test_create_link_makes_story_readable_without_sign_in(client, alice_headers, story):
+    shared = _create_link(client, alice_headers, story["id"])
+
+    assert shared["visibility"] == "public_link"
+    assert len(shared["share_link"]["token"]) >= 32
+    assert shared["share_link"]["expires_at"] is None
+
+    response = client.get(f"/api/shared-stories/{shared['share_link']['token']}")
+    assert response.status_code == 200, response.text
+    body = response.json()
+    assert body["title"] == "Zara and the Dragon"
+    assert body["panels"][0]["text"] == "Zara sees a glowing hill."
+    assert body["share_link"] is None
+
+
+def test_owner_list_carries_the_active_link(client, alice_headers, story):
+    shared = _create_link(client, alice_headers, story["id"], expires_in_days=7)
+
+    stories = client.get("/api/stories", headers=alice_headers).json()
+
+    assert stories[0]["visibility"] == "public_link"
+    assert stories[0]["share_link"]["token"] == shared["share_link"]["token"]
+    assert stories[0]["share_link"]["expires_at"] is not None
+
+
+def test_new_link_replaces_the_old_one(client, alice_headers, story):
+    first = _create_link(client, alice_headers, story["id"])
+    second = _create_link(client, alice_headers, story["id"])
+
+    assert first["share_link"]["token"] != second["share_link"]["token"]
+    assert client.get(f"/api/shared-stories/{first['share_link']['token']}").status_code == 404
+    assert client.get(f"/api/shared-stories/{second['share_link']['token']}").status_code == 200
+
+
+def test_revoke_makes_story_private_and_link_dead(client, alice_headers, story):
+    token = _create_link(client, alice_headers, story["id"])["share_link"]["token"]
+
+    response = client.delete(f"/api/stories/{story['id']}/share-link", headers=alice_headers)
+
+    assert response.status_code == 200, response.text
+    assert response.json()["visibility"] == "private"
+    assert response.json()["share_link"] is None
+    assert client.get(f"/api/shared-stories/{token}").status_code == 404
+
+
+def test_switching_visibility_revokes_the_link(client, alice_headers, story):
+    token = _create_link(client, alice_headers, story["id"])["share_link"]["token"]
+
+    response = client.patch(
+        f"/api/stories/{story['id']}/visibility", json={"visibility": "shared_with_friends"}, headers=alice_headers
+    )
+
+    assert response.status_code == 200, response.text
+    assert client.get(f"/api/shared-stories/{token}").status_code == 404
+
+
+def test_visibility_endpoint_rejects_public_link_without_token(client, alice_headers, story):
+    response = client.patch(
+        f"/api/stories/{story['id']}/visibility", json={"visibility": "public_link"}, headers=alice_headers
+    )
+
+    assert response.status_code == 422
+
+
+def test_expired_link_is_not_found(client, db_path, alice_headers, story):
+    token = _create_link(client, alice_headers, story["id"], expires_in_days=1)["share_link"]["token"]
+
+    async def expire() -> None:
+        async with aiosqlite.connect(db_path) as db:
+            await db.execute("UPDATE story_share_links SET expires_at = '2000-01-01 00:00:00'")
+            await db.commit()
+
+    asyncio.run(expire())
+
+    assert client.get(f"/api/shared-stories/{token}").status_code == 404
+    assert client.get("/api/stories", headers=alice_headers).json()[0]["share_link"] is None
+
+
+def test_unknown_token_is_not_found(client):
+    assert client.get("/api/shared-stories/not-a-real-token").status_code == 404
+
+
+def test_cannot_share_someone_elses_story(client, story):
+    bob_headers = _signup(client, _BOB)
+
+    create = client.post(f"/api/stories/{story['id']}/share-link", json={}, headers=bob_headers)
+    revoke = client.delete(f"/api/stories/{story['id']}/share-link", headers=bob_headers)
+
+    assert create.status_code == 404
+    assert revoke.status_code == 404
+
+
+def test_expiry_must_be_within_a_year(client, alice_headers, story):
+    response = client.post(
+        f"/api/stories/{story['id']}/share-link", json={"expires_in_days": 400}, headers=alice_headers
+    )
+
+    assert response.status_code == 422
+
+
+@pytest.mark.asyncio
+async def test_init_db_widens_legacy_visibility_check(tmp_path):
+    db_path = tmp_path / "legacy.db"
+    async with aiosqlite.connect(str(db_path)) as db:
+        await db.executescript(
+            """
+            CREATE TABLE stories (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL,
+                kid_profile_id INTEGER NOT NULL,
+                title TEXT,
+                foreword TEXT,
+                character_description TEXT,
+                cover_image_prompt TEXT,
+                cover_image_path TEXT,
+                visibility TEXT NOT NULL DEFAULT 'private'
+                    CHECK(visibility IN ('private', 'shared_with_friends')),
+                is_unlocked BOOLEAN NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            );
+            INSERT INTO stories (id, user_id, kid_profile_id, title, visibility)
+            VALUES (5, 1, 1, 'Old story', 'shared_with_friends');
+            """
+        )
+        await db.commit()
+
+    import db.database as database
+
+    database.DB_PATH = str(db_path)
+    await init_db()
+
+    async with aiosqlite.connect(str(db_path)) as db:
+        await db.execute("UPDATE stories SET visibility = 'public_link' WHERE id = 5")
+        row = await (await db.execute("SELECT title, visibility FROM stories WHERE id = 5")).fetchone()
+
+    assert row == ("Old story", "public_link")
@@ -0,0 +1,170 @@
+"""Story trash tests: soft delete, restore, delete forever and the 30-day purge."""
+
+import asyncio
+import base64
+import sqlite3
+from datetime import datetime, timedelta
+
+import pytest
+from fastapi.testclient import TestClient
+
+from routers.auth import router as auth_router
+from routers.collections import router as collections_router
+from routers.friend import router as friend_router
+from routers.stories import router as stories_router
+from routers.user import router as user_router
+from services import image_storage
+from tests.conftest import _init_test_db, make_test_app
+
+_ALICE = {"username": "alice", "email": "alice@example.com", "password": "Password123!"}
+_BOB = {"username": "bob", "email": "bob@example.com", "password": "Password123!"}
+
+_STORY_PAYLOAD = {
+    "profile": {
+        "name": "Zara",
+        "gender": "girl",
+        "skin_tone": "medium",
+        "hair_color": "black",
+        "eye_color": "brown",
+        "favorite_color": "purple",
+    },
+    "title": "Zara and the Dragon",
+    "cover_image_base64": base64.b64encode(b"cover").decode(),
+    "panels": [{"panel_order": 0, "text": "Zara sees a glowing hill."}],
+}
+
+
+@pytest.fixture
+def images_dir(tmp_path, monkeypatch):
+    directory = tmp_path / "images"
+    directory.mkdir()
+    monkeypatch.setattr(image_storage, "IMAGES_DIR", directory)
+    return directory
+
+
+@pytest.fixture
+def db_path(tmp_path) -> str:
+    path = str(tmp_path / "test.db")
+    asyncio.run(_init_test_db(path))
+    return path
+
+
+@pytest.fixture
+def client(db_path, images_dir):
+    app = make_test_app(db_path, auth_router, user_router, friend_router, stories_router, collections_router)
+    with TestClient(app) as test_client:
+        yield test_client
+
+
+def _signup(client, user: dict) -> tuple[int, dict[str, str]]:
+    response = client.post("/api/auth/signup", json=user)
+    assert response.status_code == 200, response.text
+    headers = {"Authorization": f"Bearer {response.json()['access_token']}"}
+    return client.get("/api/users/me", headers=headers).json()["id"], headers
+
+
+@pytest.fixture
+def alice(client) -> tuple[int, dict[str, str]]:
+    return _signup(client, _ALICE)
+
+
+@pytest.fixture
+def bob(client, alice) -> tuple[int, dict[str, str]]:
+    """Bob is Alice's accepted friend."""
+    bob_id, bob_headers = _signup(client, _BOB)
+    assert client.post(f"/api/friends/{bob_id}", headers=alice[1]).status_code == 200
+    assert client.post(f"/api/friends/{alice[0]}/accept", headers=bob_headers).status_code == 200
+    return bob_id, bob_headers
+
+
+@pytest.fixture
+def story(client, alice) -> dict:
+    response = client.post("/api/stories", json=_STORY_PAYLOAD, headers=alice[1])
+    assert response.status_code == 200, response.text
+    return response.json()
+
+
+def _trash(client, headers, story_id: int) -> None:
+    response = client.post(f"/api/stories/{story_id}/trash", headers=headers)
+    assert response.status_code == 204, response.text
+
+
+def test_trashed_story_leaves_the_library_for_the_trash(client, alice, story):
+    _, headers = alice
+
+    _trash(client, headers, story["id"])
+
+    assert client.get("/api/stories", headers=headers).json() == []
+    assert client.get("/api/stories/search", headers=headers).json()["total"] == 0
+    assert client.get(f"/api/stories/{story['id']}", headers=headers).status_code == 404
+    trash = client.get("/api/stories/trash", headers=headers).json()
+    assert [item["id"] for item in trash] == [story["id"]]
+    retention = datetime.fromisoformat(trash[0]["purge_at"]) - datetime.fromisoformat(trash[0]["deleted_at"])
+    assert retention == timedelta(days=30)
+
+
+def test_restore_puts_the_story_back(client, alice, story):
+    _, headers = alice
+    _trash(client, headers, story["id"])
+
+    response = client.post(f"/api/stories/{story['id']}/restore", headers=headers)
+
+    assert response.status_code == 200, response.text
+    assert response.json()["title"] == "Zara and the Dragon"
+    assert [item["id"] for item in client.get("/api/stories", headers=headers).json()] == [story["id"]]
+    assert client.get("/api/stories/trash", headers=headers).json() == []
+    assert client.post(f"/api/stories/{story['id']}/restore", headers=headers).status_code == 404
+
+
+def test_delete_forever_removes_a_trashed_story_and_its_images(client, alice, story, images_dir):
+    _, headers = alice
+    _trash(client, headers, story["id"])
+    assert (images_dir / story["cover_image_url"]).exists()
+
+    response = client.delete(f"/api/stories/{story['id']}", headers=headers)
+
+    assert response.status_code == 204
+    assert client.get("/api/stories/trash", headers=headers).json() == []
+    assert not (images_dir / story["cover_image_url"]).exists()
+
+
+def test_trashed_story_is_hidden_from_friends_links_and_collections(client, alice, bob, story):
+    alice_id, headers = alice
+    collection = client.post("/api/collections", json={"name": "Bedtime"}, headers=headers).json()
+    client.put(f"/api/collections/{collection['id']}/stories/{story['id']}", headers=headers)
+    share = client.post(f"/api/stories/{story['id']}/share-link", json={"expires_in_days": None}, headers=headers)
+    token = share.json()["share_link"]["token"]
+    client.patch(f"/api/collections/{collection['id']}", json={"visibility": "shared_with_friends"}, headers=headers)
+
+    _trash(client, headers, story["id"])
+
+    assert client.get(f"/api/shared-stories/{token}").status_code == 404
+    assert client.get(f"/api/friends/{alice_id}/stories/{story['id']}", headers=bob[1]).status_code == 404
+    detail = client.get(f"/api/collections/{collection['id']}", headers=headers).json()
+    assert (detail["story_count"], detail["stories"]) == (0, [])
+    assert client.put(f"/api/collections/{collection['id']}/stories/{story['id']}", headers=headers).status_code == 404
+
+    client.post(f"/api/stories/{story['id']}/restore", headers=headers)
+
+    assert client.get(f"/api/shared-stories/{token}").status_code == 200
+    assert client.get(f"/api/collections/{collection['id']}", headers=headers).json()["story_count"] == 1
+
+
+def test_stories_past_the_retention_period_are_purged(client, alice, story, db_path, images_dir):
+    _, headers = alice
+    _trash(client, headers, story["id"])
+    with sqlite3.connect(db_path) as db:
+        db.execute("UPDATE stories SET deleted_at = datetime('now', '-31 days') WHERE id = ?", (story["id"],))
+
+    assert client.get("/api/stories/trash", headers=headers).json() == []
+    assert client.post(f"/api/stories/{story['id']}/restore", headers=headers).status_code == 404
+    assert not (images_dir / story["cover_image_url"]).exists()
+
+
+def test_other_users_cannot_trash_or_restore(client, alice, bob, story):
+    _, bob_headers = bob
+
+    assert client.post(f"/api/stories/{story['id']}/trash", headers=bob_headers).status_code == 404
+    _trash(client, alice[1], story["id"])
+    assert client.post(f"/api/stories/{story['id']}/restore", headers=bob_headers).status_code == 404
+    assert client.get("/api/stories/trash", headers=bob_headers).json() == []
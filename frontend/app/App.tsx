@@ -4,15 +4,26 @@
  */
 import { useEffect } from 'react';
 import { Navigate, Route, Routes, useLocation } from 'react-router-dom';
-import { LoginPage, SignupPage, GoogleOAuthCallbackPage } from '@/pages/auth';
+import {
+  ForgotPasswordPage,
+  GoogleOAuthCallbackPage,
+  LoginPage,
+  ResetPasswordPage,
+  SignupPage,
+  VerifyEmailPage,
+} from '@/pages/auth';
 import { ApiKeysPage } from '@/pages/api-keys';
+import { CollectionPage } from '@/pages/collection';
 import { FriendLibraryPage } from '@/pages/friend-library';
 import { GalleryPage } from '@/pages/gallery';
+import { HeroesPage } from '@/pages/heroes';
 import { LandingPage } from '@/pages/landing';
 import { LegalPage } from '@/pages/legal';
 import { StatusPage } from '@/pages/status';
 import { ProfilePage } from '@/pages/profile';
+import { SharedStoryPage } from '@/pages/shared-story';
 import { StoryPage } from '@/pages/story';
+import { TrashPage } from '@/pages/trash';
 import { FriendsPage } from '@/pages/friends';
 import AppLayout from './AppLayout';
 import ProtectedRoute from './ProtectedRoute';
@@ -37,19 +48,27 @@ export function App(): JSX.Element {
           <Route path="/privacy" element={<LegalPage documentKey="privacy" />} />
           <Route path="/terms" element={<LegalPage documentKey="terms" />} />
           <Route path="/status" element={<StatusPage />} />
+          <Route path="/s/:token" element={<SharedStoryPage />} />
           <Route element={<ProtectedRoute />}>
             <Route path="/create" element={<StoryPage />} />
             <Route path="/book/:id" element={<StoryPage />} />
             <Route path="/gallery" element={<GalleryPage />} />
+            <Route path="/collections/:collectionId" element={<CollectionPage />} />
+            <Route path="/trash" element={<TrashPage />} />
+            <Route path="/heroes" element={<HeroesPage />} />
             <Route path="/profile" element={<ProfilePage />} />
             <Route path="/api-keys" element={<ApiKeysPage />} />
             <Route path="/friends" element={<FriendsPage />} />
             <Route path="/friends/:userId/library" element={<FriendLibraryPage />} />
             <Route path="/friends/:userId/library/:id" element={<StoryPage />} />
+            <Route path="/friends/:userId/collections/:collectionId" element={<CollectionPage />} />
           </Route>
         </Route>
         <Route path="/login" element={<LoginPage />} />
         <Route path="/signup" element={<SignupPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
         <Route path="/auth/callback" element={<GoogleOAuthCallbackPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
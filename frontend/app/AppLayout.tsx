@@ -5,7 +5,9 @@ import { Link, Outlet, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/app/auth';
 import StorageImage from '@/components/StorageImage';
+import { useOnlineStatus } from '@/components/network/useOnlineStatus';
 import LanguageSwitcher from '../components/LanguageSwitcher';
+import EmailVerificationBanner from './EmailVerificationBanner';
 
 function isMarketingRoute(pathname: string): boolean {
   return pathname === '/' || pathname === '/privacy' || pathname === '/terms';
@@ -23,6 +25,7 @@ function AppLayout(): JSX.Element {
   const { t } = useTranslation();
   const location = useLocation();
   const { currentUser } = useAuth();
+  const isOnline = useOnlineStatus();
 
   if (isMarketingRoute(location.pathname)) {
     return <Outlet />;
@@ -40,6 +43,15 @@ function AppLayout(): JSX.Element {
           </Link>
 
           <div className="flex items-center gap-2 text-sm font-bold">
+            {isOnline ? null : (
+              <span
+                role="status"
+                title={t('app.offlineHint')}
+                className="px-3 py-1 rounded-full bg-brand-accent text-brand-dark text-xs uppercase tracking-wide"
+              >
+                {t('app.offline')}
+              </span>
+            )}
             <LanguageSwitcher />
             {showCreateLink ? (
               <Link
@@ -55,6 +67,12 @@ function AppLayout(): JSX.Element {
             >
               {t('app.myLibrary')}
             </Link>
+            <Link
+              to="/heroes"
+              className="text-brand-muted hover:text-brand-primary transition-colors px-4 py-2 rounded-full hover:bg-brand-light"
+            >
+              {t('app.myHeroes')}
+            </Link>
             <Link
               to="/friends"
               className="text-brand-muted hover:text-brand-primary transition-colors px-4 py-2 rounded-full hover:bg-brand-light"
@@ -90,6 +108,8 @@ function AppLayout(): JSX.Element {
         </div>
       </header>
 
+      <EmailVerificationBanner />
+
       <main className={mainClassName}>
         <Outlet />
       </main>
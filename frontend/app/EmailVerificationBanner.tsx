@@ -0,0 +1,57 @@
+/**
+ * Reminder under the header for accounts whose email address is not confirmed yet.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { resendVerificationEmail } from '@api';
+import { useAuth } from '@/app/auth';
+
+function EmailVerificationBanner(): JSX.Element | null {
+  const { t } = useTranslation();
+  const { accessToken, currentUser } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  if (!currentUser || currentUser.email_verified) {
+    return null;
+  }
+
+  const isSent = sentTo === currentUser.email;
+
+  async function handleResend(): Promise<void> {
+    if (!accessToken || !currentUser) return;
+    setIsSending(true);
+    try {
+      await resendVerificationEmail(accessToken);
+      setSentTo(currentUser.email);
+      toast.success(t('app.emailVerification.sent', { email: currentUser.email }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('app.emailVerification.sendFailed'));
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <div role="status" className="bg-brand-accent/30 px-6 py-2 text-sm text-brand-dark">
+      <div className="max-w-7xl mx-auto flex flex-wrap items-center justify-between gap-3">
+        <p>{t('app.emailVerification.message', { email: currentUser.email })}</p>
+        <button
+          type="button"
+          onClick={() => void handleResend()}
+          disabled={isSending || isSent}
+          className="font-bold text-brand-primary hover:underline disabled:opacity-60 disabled:no-underline"
+        >
+          {isSending
+            ? t('app.emailVerification.sending')
+            : isSent
+              ? t('app.emailVerification.resent')
+              : t('app.emailVerification.resend')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default EmailVerificationBanner;
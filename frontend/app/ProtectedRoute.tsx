@@ -1,13 +1,15 @@
 import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/app/auth';
+import { buildLoginPath } from '@/pages/auth';
 
 /**
  * Route wrapper that gates child routes behind an authenticated session.
+ * Signed-out readers go to /login with a `returnTo` back to where they were.
  */
 export default function ProtectedRoute(): JSX.Element {
     const { t } = useTranslation();
-    const { currentUser, isLoadingSession } = useAuth();
+    const { currentUser, isLoadingSession, isSessionExpired } = useAuth();
     const location = useLocation();
 
     if (isLoadingSession) {
@@ -18,7 +20,8 @@ export default function ProtectedRoute(): JSX.Element {
         );
     }
     if (!currentUser) {
-        return <Navigate to="/login" replace state={{ from: location }} />;
+        const returnTo = `${location.pathname}${location.search}${location.hash}`;
+        return <Navigate to={buildLoginPath(returnTo, isSessionExpired)} replace />;
     }
 
     return <Outlet />;
@@ -1,48 +1,199 @@
-import { createContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useEffect, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
-import { getMe, login as apiLogin, logout as apiLogout, signup as apiSignup, exchangeOAuthCode} from '@api';
-import type { UserResponse } from '@api';
-import type { AuthContextValue } from './auth.types';
+import {
+    clearOfflineSession,
+    clearOfflineStories,
+    exchangeOAuthCode,
+    getMe,
+    isMfaChallenge,
+    login as apiLogin,
+    logout as apiLogout,
+    refreshSession,
+    setAuthSessionHandler,
+    setCsrfToken,
+    signup as apiSignup,
+    verifyMfaChallenge,
+} from '@api';
+import type { SignInResponse, TokenResponse, UserResponse } from '@api';
+import { AUTH_COOKIE_SESSIONS } from '@/utils';
+import type { AuthContextValue, SignInResult } from './auth.types';
 
 export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 const AUTH_TOKEN_STORAGE_KEY = `auth.accessToken`;
+const REFRESH_TOKEN_STORAGE_KEY = `auth.refreshToken`;
+const TOKEN_EXPIRES_AT_STORAGE_KEY = `auth.accessTokenExpiresAt`;
+const CSRF_TOKEN_STORAGE_KEY = `auth.csrfToken`;
+
+/**
+ * Cookie sessions keep the real tokens in httpOnly cookies. This stand-in is what
+ * `accessToken` holds then: pages keep passing it around and apiFetch drops it.
+ */
+const COOKIE_SESSION_ACCESS_TOKEN = 'cookie-session';
+
+const RENEWAL_LOCK_NAME = 'auth.renewal';
+
+/** Renew this long before the access token expires, so requests rarely meet a 401. */
+const RENEW_BEFORE_EXPIRY_MS = 60_000;
 
 function isUnauthorizedError(error: unknown): boolean {
     return error instanceof Error && (error as Error & { status?: number }).status === 401;
 }
 
+// Token storage
+function readToken(): string | null {
+    return localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+}
+
+function readRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+}
+
+function readCsrfToken(): string | null {
+    return localStorage.getItem(CSRF_TOKEN_STORAGE_KEY);
+}
+
+/** Changes with every renewal, so a tab can tell that another one already renewed. */
+function readRenewalMarker(): string | null {
+    return readRefreshToken() ?? localStorage.getItem(TOKEN_EXPIRES_AT_STORAGE_KEY);
+}
+
+function readTokenExpiresAt(): number | null {
+    const expiresAt = Number(localStorage.getItem(TOKEN_EXPIRES_AT_STORAGE_KEY));
+    return expiresAt > 0 ? expiresAt : null;
+}
+
+function setOrRemoveItem(key: string, value: string | undefined): void {
+    if (value) {
+        localStorage.setItem(key, value);
+    } else {
+        localStorage.removeItem(key);
+    }
+}
+
+/** Store a session and return the access token the app passes around. */
+function storeTokens(tokens: TokenResponse): string {
+    const token = tokens.access_token ?? COOKIE_SESSION_ACCESS_TOKEN;
+    localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+    setOrRemoveItem(REFRESH_TOKEN_STORAGE_KEY, tokens.refresh_token);
+    setOrRemoveItem(CSRF_TOKEN_STORAGE_KEY, tokens.csrf_token);
+    localStorage.setItem(TOKEN_EXPIRES_AT_STORAGE_KEY, String(Date.now() + tokens.expires_in * 1000));
+    setCsrfToken(tokens.csrf_token ?? null);
+    return token;
+}
+
+function removeStoredTokens(): void {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+    localStorage.removeItem(TOKEN_EXPIRES_AT_STORAGE_KEY);
+    localStorage.removeItem(CSRF_TOKEN_STORAGE_KEY);
+    setCsrfToken(null);
+}
+
+/**
+ * Sessions started before cookie mode was switched on hold their tokens in
+ * localStorage. Spend the refresh token once to move the session into cookies.
+ * Resolves the stand-in access token, or null when the session cannot move.
+ */
+async function migrateToCookieSession(): Promise<string | null> {
+    const refreshToken = readRefreshToken();
+    if (!refreshToken) return null;
+    try {
+        return storeTokens(await refreshSession(refreshToken));
+    } catch (error) {
+        if (isUnauthorizedError(error)) return null;
+        throw error;
+    }
+}
+
+/** Run a renewal while holding a lock shared by every tab, where the browser has one. */
+function withRenewalLock<T>(task: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) return task();
+    return navigator.locks.request(RENEWAL_LOCK_NAME, task);
+}
+
 export function AuthProvider({ children }: { children: ReactNode }): JSX.Element {
     const [accessToken, setAccessToken] = useState<string | null>(null);
     const [currentUser, setCurrentUser] = useState<UserResponse | null>(null);
     const [isLoadingSession, setIsLoadingSession] = useState(true);
+    const [isSessionExpired, setIsSessionExpired] = useState(false);
+    // Kept in memory only: a reload drops back to the password step.
+    const [mfaToken, setMfaToken] = useState<string | null>(null);
+    // Refresh tokens are single-use, so the timer and any failed requests share one renewal.
+    const pendingRenewal = useRef<Promise<string | null> | null>(null);
 
-    // Token helpers
-    function readToken(): string | null {
-        return localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
-    }
-
-    function saveToken(token: string): void {
-        localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
-        setAccessToken(token);
+    function saveTokens(tokens: TokenResponse): void {
+        setAccessToken(storeTokens(tokens));
     }
 
     function clearAuthState(): void {
-        localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+        removeStoredTokens();
         setAccessToken(null);
         setCurrentUser(null);
     }
 
+    const expireSession = useCallback((): void => {
+        removeStoredTokens();
+        setAccessToken(null);
+        setCurrentUser(null);
+        setIsSessionExpired(true);
+        // The remembered user and library must not outlive the session that fetched them.
+        void clearOfflineSession().catch((error: unknown) => {
+            console.error('Failed to clear the offline session:', error);
+        });
+    }, []);
+
     async function loadCurrentUser(token: string): Promise<UserResponse> {
         return await getMe(token);
     }
 
-    async function establishSession(token: string): Promise<void> {
-        const user = await loadCurrentUser(token);
-        saveToken(token);
+    async function establishSession(tokens: TokenResponse): Promise<void> {
+        const user = await loadCurrentUser(tokens.access_token ?? COOKIE_SESSION_ACCESS_TOKEN);
+        saveTokens(tokens);
         setCurrentUser(user);
+        setIsSessionExpired(false);
+        setMfaToken(null);
+    }
+
+    /** Start a session, or hold on to the challenge when the account has two-factor on. */
+    async function completeSignIn(response: SignInResponse): Promise<SignInResult> {
+        if (isMfaChallenge(response)) {
+            setMfaToken(response.mfa_token);
+            return 'mfaRequired';
+        }
+        await establishSession(response);
+        return 'signedIn';
     }
 
+    /**
+     * Spend the refresh token (stored, or in the session cookie) for a new access token.
+     * Resolves null when the session is over, and rejects on other failures so a flaky
+     * network does not log out.
+     */
+    const renewSession = useCallback((): Promise<string | null> => {
+        if (!pendingRenewal.current) {
+            const startingMarker = readRenewalMarker();
+            pendingRenewal.current = withRenewalLock(async () => {
+                const refreshToken = readRefreshToken();
+                if (!readToken() || (!AUTH_COOKIE_SESSIONS && !refreshToken)) return null;
+                // Another tab renewed while this one waited for the lock.
+                if (readRenewalMarker() !== startingMarker) return readToken();
+                try {
+                    const token = storeTokens(await refreshSession(refreshToken));
+                    setAccessToken(token);
+                    return token;
+                } catch (error) {
+                    if (!isUnauthorizedError(error)) throw error;
+                    // Another tab may have spent this refresh token first; its renewal is ours too.
+                    return readRenewalMarker() !== startingMarker ? readToken() : null;
+                }
+            }).finally(() => {
+                pendingRenewal.current = null;
+            });
+        }
+        return pendingRenewal.current;
+    }, []);
+
     // Actions
     async function refreshMe(): Promise<void> {
         if (!accessToken) {
@@ -60,34 +211,118 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
         }
     }
 
-    async function login(email: string, password: string): Promise<void> {
+    async function login(email: string, password: string): Promise<SignInResult> {
         const response = await apiLogin(email, password);
-        await establishSession(response.access_token);
+        return await completeSignIn(response);
+    }
+
+    async function verifyMfa(code: string): Promise<void> {
+        if (!mfaToken) {
+            throw new Error('No sign-in is waiting for a two-factor code');
+        }
+        try {
+            await establishSession(await verifyMfaChallenge(mfaToken, code));
+        } catch (error) {
+            // The challenge expired or ran out of attempts; start over from the password.
+            if (isUnauthorizedError(error)) setMfaToken(null);
+            throw error;
+        }
+    }
+
+    function cancelMfaChallenge(): void {
+        setMfaToken(null);
     }
 
     async function signup(email: string, username: string, password: string): Promise<void> {
         const response = await apiSignup(email, username, password);
-        await establishSession(response.access_token);
+        await establishSession(response);
     }
 
     async function logout(): Promise<void> {
-        // Capture the current token
+        // Capture the current tokens
         const tokenToLogout = accessToken;
+        const refreshTokenToRevoke = readRefreshToken();
         // If token exists, call the API to log out
         try {
             if (tokenToLogout) {
-                await apiLogout(tokenToLogout);
+                await apiLogout(tokenToLogout, refreshTokenToRevoke);
             }
         } finally {
             clearAuthState();
+            // Offline copies belong to this reader; do not leave them on a shared device.
+            void clearOfflineStories().catch((error: unknown) => {
+                console.error('Failed to clear offline stories:', error);
+            });
         }
     }
 
-    async function completeGoogleOAuth(code: string): Promise<void> {
+    async function completeGoogleOAuth(code: string): Promise<SignInResult> {
         const response = await exchangeOAuthCode(code);
-        await establishSession(response.access_token);
+        return await completeSignIn(response);
     }
 
+    // Every apiFetch call renews through this provider, and ends here when renewal fails.
+    useEffect(() => {
+        setAuthSessionHandler({
+            refreshAccessToken: renewSession,
+            onSessionExpired: expireSession,
+        });
+        return () => setAuthSessionHandler(null);
+    }, [expireSession, renewSession]);
+
+    // Tabs share localStorage, so follow logins, logouts and renewals made in other tabs.
+    useEffect(() => {
+        let isMounted = true;
+
+        function handleStorage(event: StorageEvent): void {
+            // A null key means another tab cleared all of localStorage.
+            if (event.key !== AUTH_TOKEN_STORAGE_KEY && event.key !== null) return;
+
+            const token = readToken();
+            setAccessToken(token);
+            setCsrfToken(readCsrfToken());
+            if (!token) {
+                setCurrentUser(null);
+                return;
+            }
+            setIsSessionExpired(false);
+            // A renewal keeps the same reader; only a sign-in needs the user loaded.
+            if (currentUser) return;
+            getMe(token)
+                .then((user) => {
+                    if (isMounted && readToken() === token) setCurrentUser(user);
+                })
+                .catch((error: unknown) => {
+                    console.error('Failed to load the session from another tab:', error);
+                });
+        }
+
+        window.addEventListener('storage', handleStorage);
+        return () => {
+            isMounted = false;
+            window.removeEventListener('storage', handleStorage);
+        };
+    }, [currentUser]);
+
+    // Silent renewal shortly before the access token expires
+    useEffect(() => {
+        const expiresAt = readTokenExpiresAt();
+        if (!accessToken || !expiresAt) return;
+
+        const timer = window.setTimeout(() => {
+            renewSession()
+                .then((token) => {
+                    if (!token) expireSession();
+                })
+                .catch((error: unknown) => {
+                    // The next request that meets a 401 tries again.
+                    console.error('Failed to renew the session:', error);
+                });
+        }, Math.max(0, expiresAt - Date.now() - RENEW_BEFORE_EXPIRY_MS));
+
+        return () => window.clearTimeout(timer);
+    }, [accessToken, expireSession, renewSession]);
+
     // Session restore
     useEffect(() => {
         // track if the AuthProvider component is still in the DOM
@@ -95,15 +330,24 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
 
         async function restoreSession(): Promise<void> {
             // Read the token from localStorage
-            const storedToken = readToken();
+            let storedToken = readToken();
             // If no token (user not logged in), set loading to false and exit
             if (!storedToken) {
                 if (isMounted) setIsLoadingSession(false);
                 return;
             }
-            // if token exists, set it in state and try to fetch user data
-            setAccessToken(storedToken);
+            setCsrfToken(readCsrfToken());
             try {
+                if (AUTH_COOKIE_SESSIONS && storedToken !== COOKIE_SESSION_ACCESS_TOKEN) {
+                    storedToken = await migrateToCookieSession();
+                    if (!storedToken) {
+                        if (isMounted) clearAuthState();
+                        return;
+                    }
+                }
+                // if token exists, set it in state and try to fetch user data
+                setAccessToken(storedToken);
+                // An expired token is renewed by apiFetch before this settles.
                 const user = await loadCurrentUser(storedToken);
                 if (!isMounted) return;
                 setCurrentUser(user);
@@ -128,7 +372,11 @@ export function AuthProvider({ children }: { children: ReactNode }): JSX.Element
         accessToken,
         currentUser,
         isLoadingSession,
+        isSessionExpired,
+        isMfaChallengePending: mfaToken !== null,
         login,
+        verifyMfa,
+        cancelMfaChallenge,
         signup,
         logout,
         refreshMe,
@@ -3,13 +3,23 @@
  */
 import type { UserResponse } from "@api";
 
+/** How a sign-in attempt ended: with a session, or waiting for a two-factor code. */
+export type SignInResult = 'signedIn' | 'mfaRequired';
+
 export interface AuthContextValue {
     accessToken: string | null;
     currentUser: UserResponse | null;
     isLoadingSession: boolean;
-    login: (email: string, password: string) => Promise<void>;
+    /** True after renewal failed and the session was closed, until the next sign-in. */
+    isSessionExpired: boolean;
+    /** True while a sign-in waits for `verifyMfa`; the challenge token stays inside the provider. */
+    isMfaChallengePending: boolean;
+    login: (email: string, password: string) => Promise<SignInResult>;
+    /** Finish the pending sign-in with an authenticator or recovery code. */
+    verifyMfa: (code: string) => Promise<void>;
+    cancelMfaChallenge: () => void;
     signup: (email: string, username: string, password: string) => Promise<void>;
     logout: () => Promise<void>;
     refreshMe: () => Promise<void>;
-    completeGoogleOAuth: (code: string) => Promise<void>;
+    completeGoogleOAuth: (code: string) => Promise<SignInResult>;
 }
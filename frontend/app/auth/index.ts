@@ -1,3 +1,3 @@
 export { AuthProvider} from './AuthContext';
 export { useAuth } from './useAuth';
-export type { AuthContextValue } from './auth.types';
\ No newline at end of file
+export type { AuthContextValue, SignInResult } from './auth.types';
\ No newline at end of file
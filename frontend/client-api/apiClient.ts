@@ -1,20 +1,131 @@
 /**
  * Shared HTTP transport for frontend-to-backend requests.
  * This file owns fetch defaults, not endpoint-specific behavior.
+ *
+ * It also owns the one 401 retry: when a request sent with a bearer token is
+ * rejected, the registered session handler renews the token once and the
+ * request is replayed. If renewal fails, the handler's session-expired flow runs.
+ *
+ * With cookie sessions the browser sends the tokens itself: bearer headers are
+ * dropped, so the `accessToken` arguments threaded through client-api are not
+ * needed, and writes carry the CSRF token instead.
  */
-import { BACKEND_BASE_URL } from '@/utils/runtimeConfig';
+import { AUTH_COOKIE_SESSIONS, BACKEND_BASE_URL } from '@/utils/runtimeConfig';
 
 export const API_BASE_URL = BACKEND_BASE_URL;
 export const API_BASE = `${BACKEND_BASE_URL}/api`;
 
-export async function apiFetch(url: string, options: RequestInit = {}): Promise<Response> {
+export interface AuthSessionHandler {
+  /**
+   * Renew the access token. Resolves null when the session is over; rejects when
+   * renewal failed for another reason, and the request then fails as it was.
+   */
+  refreshAccessToken: () => Promise<string | null>;
+  /** Leave the app through the single "session expired" flow. */
+  onSessionExpired: () => void;
+}
+
+let authSessionHandler: AuthSessionHandler | null = null;
+let csrfToken: string | null = null;
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Auth endpoints that answer without a live access token, so their 401s are
+ * never renewed and replayed: a 401 there is a wrong password or a spent link.
+ * Logout revokes the refresh token it sends (or the one in the session cookie);
+ * renewing first would spend that token and leave its replacement alive.
+ */
+const SESSIONLESS_AUTH_PATHS = new Set([
+  '/auth/login',
+  '/auth/signup',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/oauth/exchange',
+  '/auth/mfa/verify',
+  '/auth/password-reset/request',
+  '/auth/password-reset/confirm',
+  '/auth/verify-email',
+]);
+
+/** Register (or clear) the handler that renews tokens for every `apiFetch` call. */
+export function setAuthSessionHandler(handler: AuthSessionHandler | null): void {
+  authSessionHandler = handler;
+}
+
+/** Set (or clear) the CSRF token a cookie session sends with every write. */
+export function setCsrfToken(token: string | null): void {
+  csrfToken = token;
+}
+
+function getBearerToken(headers: HeadersInit | undefined): string | null {
+  const authorization = new Headers(headers).get('Authorization');
+  return authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : null;
+}
+
+function getCookieSessionHeaders(options: RequestInit): Record<string, string> {
+  const isWrite = !SAFE_METHODS.has((options.method ?? 'GET').toUpperCase());
+  return {
+    'X-Auth-Session': 'cookie',
+    ...(isWrite && csrfToken ? { 'X-CSRF-Token': csrfToken } : {}),
+  };
+}
+
+function send(url: string, options: RequestInit): Promise<Response> {
   const isFormData = options.body instanceof FormData;
+  const headers: Record<string, string> = {
+    ...(isFormData ? {}: { 'Content-Type': 'application/json'}),
+    ...(options.headers as Record<string, string> | undefined),
+  };
 
+  if (!AUTH_COOKIE_SESSIONS) {
+    return fetch(url, { ...options, headers });
+  }
+
+  delete headers.Authorization;
   return fetch(url, {
     ...options,
-    headers: {
-      ...(isFormData ? {}: { 'Content-Type': 'application/json'}),
-      ...options.headers,
-    },
+    credentials: 'include',
+    headers: { ...headers, ...getCookieSessionHeaders(options) },
+  });
+}
+
+/** Whether a 401 means the session needs renewing, rather than e.g. a wrong password. */
+function usesSession(url: string, options: RequestInit): boolean {
+  if (url.startsWith(API_BASE) && SESSIONLESS_AUTH_PATHS.has(url.slice(API_BASE.length))) {
+    return false;
+  }
+  if (AUTH_COOKIE_SESSIONS) {
+    return true;
+  }
+  return getBearerToken(options.headers) !== null;
+}
+
+export async function apiFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const response = await send(url, options);
+  const handler = authSessionHandler;
+
+  if (response.status !== 401 || !handler || !usesSession(url, options)) {
+    return response;
+  }
+
+  let renewedToken: string | null;
+  try {
+    renewedToken = await handler.refreshAccessToken();
+  } catch {
+    return response;
+  }
+  if (!renewedToken) {
+    handler.onSessionExpired();
+    return response;
+  }
+
+  const retried = await send(url, {
+    ...options,
+    headers: { ...options.headers, Authorization: `Bearer ${renewedToken}` },
   });
+  if (retried.status === 401) {
+    handler.onSessionExpired();
+  }
+  return retried;
 }
@@ -2,8 +2,29 @@ import { API_BASE, apiFetch } from './apiClient';
 import { buildApiError } from './apiErrors';
 
 export interface TokenResponse {
-    access_token: string;
-    token_type: 'bearer';
+    /** Absent for cookie sessions, which keep both tokens in httpOnly cookies. */
+    access_token?: string;
+    refresh_token?: string;
+    token_type: 'bearer' | 'cookie';
+    /** Seconds until the access token expires. */
+    expires_in: number;
+    /** Cookie sessions only: sent back on every write. */
+    csrf_token?: string;
+}
+
+/** Login response when the password was right but the account also needs a two-factor code. */
+export interface MfaChallengeResponse {
+    mfa_required: true;
+    /** Short-lived token that `verifyMfaChallenge` spends. */
+    mfa_token: string;
+    /** Seconds until the challenge expires. */
+    expires_in: number;
+}
+
+export type SignInResponse = TokenResponse | MfaChallengeResponse;
+
+export function isMfaChallenge(response: SignInResponse): response is MfaChallengeResponse {
+    return 'mfa_required' in response && response.mfa_required;
 }
 
 export async function signup(email: string, username: string, password: string): Promise<TokenResponse> {
@@ -20,7 +41,7 @@ export async function signup(email: string, username: string, password: string):
     return (await response.json()) as TokenResponse;
 }
 
-export async function login(email: string, password: string): Promise<TokenResponse> {
+export async function login(email: string, password: string): Promise<SignInResponse> {
     const response = await apiFetch(`${API_BASE}/auth/login`, {
         method: 'POST',
         headers: {
@@ -31,26 +52,100 @@ export async function login(email: string, password: string): Promise<TokenRespo
     if (!response.ok) {
         throw await buildApiError(response, 'Login failed');
     }
+    return (await response.json()) as SignInResponse;
+}
+
+/** Second sign-in step: a code from the authenticator app, or a recovery code. */
+export async function verifyMfaChallenge(mfaToken: string, code: string): Promise<TokenResponse> {
+    const response = await apiFetch(`${API_BASE}/auth/mfa/verify`, {
+        method: 'POST',
+        body: JSON.stringify({ mfa_token: mfaToken, code }),
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Two-factor verification failed');
+    }
+    return (await response.json()) as TokenResponse;
+}
+
+/**
+ * Spend a refresh token for a new access token; the response carries its rotated replacement.
+ * Cookie sessions leave out the token, and the one in the session cookie is used.
+ */
+export async function refreshSession(refreshToken?: string | null): Promise<TokenResponse> {
+    const response = await apiFetch(`${API_BASE}/auth/refresh`, {
+        method: 'POST',
+        ...(refreshToken ? { body: JSON.stringify({ refresh_token: refreshToken }) } : {}),
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Session refresh failed');
+    }
     return (await response.json()) as TokenResponse;
 }
 
-export async function logout(accessToken: string): Promise<void> {
+export async function logout(accessToken: string, refreshToken?: string | null): Promise<void> {
     const response = await apiFetch(`${API_BASE}/auth/logout`, {
         method: 'POST',
         headers: {
             Authorization: `Bearer ${accessToken}`,
-        }
+        },
+        ...(refreshToken ? { body: JSON.stringify({ refresh_token: refreshToken }) } : {}),
     });
     if (!response.ok) {
         throw await buildApiError(response, 'Logout failed');
     }
 }
 
+/** Ask for a password-reset email. Succeeds whether or not the address has an account. */
+export async function requestPasswordReset(email: string): Promise<void> {
+    const response = await apiFetch(`${API_BASE}/auth/password-reset/request`, {
+        method: 'POST',
+        body: JSON.stringify({ email }),
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Password reset request failed');
+    }
+}
+
+/** Set a new password with the token from a reset email. Every existing session is signed out. */
+export async function resetPassword(token: string, password: string): Promise<void> {
+    const response = await apiFetch(`${API_BASE}/auth/password-reset/confirm`, {
+        method: 'POST',
+        body: JSON.stringify({ token, password }),
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Password reset failed');
+    }
+}
+
+/** Confirm an email address with the token from a verification email. */
+export async function verifyEmail(token: string): Promise<void> {
+    const response = await apiFetch(`${API_BASE}/auth/verify-email`, {
+        method: 'POST',
+        body: JSON.stringify({ token }),
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Email verification failed');
+    }
+}
+
+/** Send the signed-in user a fresh verification link; earlier links stop working. */
+export async function resendVerificationEmail(accessToken: string): Promise<void> {
+    const response = await apiFetch(`${API_BASE}/auth/verify-email/resend`, {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${accessToken}`,
+        },
+    });
+    if (!response.ok) {
+        throw await buildApiError(response, 'Could not send the verification email');
+    }
+}
+
 export function startGoogleOAuth(): void {
     window.location.href = `${API_BASE}/auth/oauth/google/start`;
 }
 
-export async function exchangeOAuthCode(code: string): Promise<TokenResponse> {
+export async function exchangeOAuthCode(code: string): Promise<SignInResponse> {
     const response = await apiFetch(`${API_BASE}/auth/oauth/exchange`, {
         method: 'POST',
         body: JSON.stringify({ code }),
@@ -58,5 +153,5 @@ export async function exchangeOAuthCode(code: string): Promise<TokenResponse> {
     if (!response.ok) {
         throw await buildApiError(response, 'OAuth code exchange failed');
     }
-    return (await response.json()) as TokenResponse;
+    return (await response.json()) as SignInResponse;
 }
\ No newline at end of file
@@ -0,0 +1,166 @@
+/**
+ * Typed client calls for story collections (bookshelves) and the ones friends share.
+ */
+import { API_BASE, apiFetch } from './apiClient';
+import { buildApiError } from './apiErrors';
+import type { StoryListItem } from './storyApi';
+
+export type CollectionVisibility = 'private' | 'shared_with_friends';
+
+export interface CollectionResponse {
+  id: number;
+  name: string;
+  visibility: CollectionVisibility;
+  story_count: number;
+  /** Cover of the most recently added story that has one. */
+  cover_image_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CollectionDetailResponse extends CollectionResponse {
+  stories: StoryListItem[];
+}
+
+export interface CollectionUpdateParams {
+  name?: string;
+  visibility?: CollectionVisibility;
+}
+
+export async function listCollections(accessToken: string): Promise<CollectionResponse[]> {
+  const response = await apiFetch(`${API_BASE}/collections`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to load collections');
+  }
+
+  return (await response.json()) as CollectionResponse[];
+}
+
+export async function createCollection(accessToken: string, name: string): Promise<CollectionResponse> {
+  const response = await apiFetch(`${API_BASE}/collections`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to create collection');
+  }
+
+  return (await response.json()) as CollectionResponse;
+}
+
+export async function getCollection(accessToken: string, collectionId: number): Promise<CollectionDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/collections/${collectionId}`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to load collection');
+  }
+
+  return (await response.json()) as CollectionDetailResponse;
+}
+
+export async function updateCollection(
+  accessToken: string,
+  collectionId: number,
+  params: CollectionUpdateParams,
+): Promise<CollectionResponse> {
+  const response = await apiFetch(`${API_BASE}/collections/${collectionId}`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to update collection');
+  }
+
+  return (await response.json()) as CollectionResponse;
+}
+
+/** Delete a collection; its stories stay in the library. */
+export async function deleteCollection(accessToken: string, collectionId: number): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/collections/${collectionId}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to delete collection');
+  }
+}
+
+/**
+ * Put a story on a collection. Adding a story that is already there is a no-op.
+ * `keepalive` lets the request finish after the page closes.
+ */
+export async function addStoryToCollection(
+  accessToken: string,
+  collectionId: number,
+  storyId: number,
+  options?: { keepalive?: boolean },
+): Promise<CollectionResponse> {
+  const response = await apiFetch(`${API_BASE}/collections/${collectionId}/stories/${storyId}`, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    keepalive: options?.keepalive,
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to add story to collection');
+  }
+
+  return (await response.json()) as CollectionResponse;
+}
+
+export async function removeStoryFromCollection(
+  accessToken: string,
+  collectionId: number,
+  storyId: number,
+): Promise<CollectionResponse> {
+  const response = await apiFetch(`${API_BASE}/collections/${collectionId}/stories/${storyId}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to remove story from collection');
+  }
+
+  return (await response.json()) as CollectionResponse;
+}
+
+export async function getFriendSharedCollections(accessToken: string, userId: number): Promise<CollectionResponse[]> {
+  const response = await apiFetch(`${API_BASE}/friends/${userId}/collections`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to fetch shared collections');
+  }
+
+  return (await response.json()) as CollectionResponse[];
+}
+
+export async function getFriendSharedCollection(
+  accessToken: string,
+  userId: number,
+  collectionId: number,
+): Promise<CollectionDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/friends/${userId}/collections/${collectionId}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to fetch shared collection');
+  }
+
+  return (await response.json()) as CollectionDetailResponse;
+}
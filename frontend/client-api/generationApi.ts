@@ -1,9 +1,24 @@
 /**
  * Typed client calls for AI generation endpoints.
+ * Every call goes through the shared generation scheduler.
  */
 import { API_BASE, apiFetch } from './apiClient';
+import { scheduleGenerationRequest } from './requestScheduler';
 import { imageSourceToPureBase64 } from '@/utils';
 
+/** How hard the story text is to read, from first words to confident readers. */
+export type ReadingLevel = 'early' | 'developing' | 'fluent';
+
+export interface CastMemberForGeneration {
+  name: string;
+  role: 'sibling' | 'friend' | 'pet';
+  gender?: 'boy' | 'girl' | 'neutral';
+  skin_tone?: string;
+  hair_color: string;
+  eye_color: string;
+  photo_base64?: string; // Pure base64, no data URL prefix
+}
+
 export interface KidProfileForGeneration {
   name: string;
   gender: 'boy' | 'girl' | 'neutral';
@@ -16,12 +31,17 @@ export interface KidProfileForGeneration {
   art_style?: string;
   photo_base64?: string; // Pure base64, no data URL prefix
   language?: string;
+  panel_count?: number;
+  reading_level?: ReadingLevel;
+  cast?: CastMemberForGeneration[];
 }
 
 export interface GeneratedPanel {
   id: string;
   text: string;
   imagePrompt: string;
+  /** Names of the cast members who appear; the image prompt already starts with them. */
+  characters?: string[];
 }
 
 export interface GeneratedStoryScript {
@@ -39,18 +59,21 @@ export async function generateStoryScript(
   accessToken: string,
   profile: KidProfileForGeneration
 ): Promise<GeneratedStoryScript> {
-  const response = await apiFetch(`${API_BASE}/generate/story-script`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${accessToken}` },
-    body: JSON.stringify({ profile }),
-  });
-
-  if (!response.ok) {
-    const error = (await response.json().catch(() => ({}))) as { detail?: string };
-    throw new Error(error.detail || `Failed to generate story: ${response.statusText}`);
-  }
+  return scheduleGenerationRequest(
+    () => apiFetch(`${API_BASE}/generate/story-script`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ profile }),
+    }),
+    async (response) => {
+      if (!response.ok) {
+        const error = (await response.json().catch(() => ({}))) as { detail?: string };
+        throw new Error(error.detail || `Failed to generate story: ${response.statusText}`);
+      }
 
-  return (await response.json()) as GeneratedStoryScript;
+      return (await response.json()) as GeneratedStoryScript;
+    },
+  );
 }
 
 export type StoryIntroField = 'title' | 'foreword';
@@ -86,32 +109,18 @@ async function emitIntroDeltaSmoothly(
   }
 }
 
-// Events emitted by POST /api/generate/story-script/stream. Kept in sync with
+// Events emitted by POST /api/generate/story-script/stream and
+// /api/generate/story-script/revise/stream. Kept in sync with
 // backend/routers/generation.py.
 type StoryStreamEvent =
   | { type: 'intro_delta'; field: StoryIntroField; delta: string }
   | { type: 'script'; script: GeneratedStoryScript }
   | { type: 'error'; message: string };
 
-/**
- * Stream a story script, surfacing title/foreword chunks as they arrive.
- *
- * Resolves with the fully parsed script once the backend has finished. If the
- * backend emits an `error` event, or the stream terminates without a `script`
- * event, the returned promise rejects.
- */
-export async function streamStoryScript(
-  accessToken: string,
-  profile: KidProfileForGeneration,
-  callbacks: StreamStoryScriptCallbacks = {}
+async function readStoryScriptStream(
+  response: Response,
+  callbacks: StreamStoryScriptCallbacks,
 ): Promise<GeneratedStoryScript> {
-  const response = await apiFetch(`${API_BASE}/generate/story-script/stream`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${accessToken}` },
-    body: JSON.stringify({ profile }),
-    signal: callbacks.signal,
-  });
-
   if (!response.ok || !response.body) {
     const error = (await response.json().catch(() => ({}))) as { detail?: string };
     throw new Error(error.detail || `Failed to stream story: ${response.statusText}`);
@@ -170,6 +179,63 @@ export async function streamStoryScript(
   return finalScript;
 }
 
+export interface StreamStoryScriptOptions extends StreamStoryScriptCallbacks {
+  /** Write the script as the next episode of this saved story. */
+  continuesStoryId?: number;
+}
+
+/**
+ * Stream a story script, surfacing title/foreword chunks as they arrive.
+ *
+ * Resolves with the fully parsed script once the backend has finished. If the
+ * backend emits an `error` event, or the stream terminates without a `script`
+ * event, the returned promise rejects.
+ */
+export async function streamStoryScript(
+  accessToken: string,
+  profile: KidProfileForGeneration,
+  { continuesStoryId, ...callbacks }: StreamStoryScriptOptions = {}
+): Promise<GeneratedStoryScript> {
+  return scheduleGenerationRequest(
+    () => apiFetch(`${API_BASE}/generate/story-script/stream`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ profile, continues_story_id: continuesStoryId }),
+      signal: callbacks.signal,
+    }),
+    (response) => readStoryScriptStream(response, callbacks),
+    { signal: callbacks.signal },
+  );
+}
+
+export interface ReviseStoryScriptOptions extends StreamStoryScriptCallbacks {
+  /** Language the story text is written in; image prompts stay in English. */
+  language?: string;
+}
+
+/**
+ * Stream a rewrite of an existing script that follows a plain-language
+ * instruction ("make it shorter", "add a dog"). Uses the same events and
+ * failure rules as `streamStoryScript`.
+ */
+export async function reviseStoryScript(
+  accessToken: string,
+  script: GeneratedStoryScript,
+  instruction: string,
+  { language, ...callbacks }: ReviseStoryScriptOptions = {}
+): Promise<GeneratedStoryScript> {
+  return scheduleGenerationRequest(
+    () => apiFetch(`${API_BASE}/generate/story-script/revise/stream`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({ script, instruction, language }),
+      signal: callbacks.signal,
+    }),
+    (response) => readStoryScriptStream(response, callbacks),
+    { signal: callbacks.signal },
+  );
+}
+
 /**
  * Generate a comic panel image using Gemini AI.
  */
@@ -177,25 +243,31 @@ export async function generatePanelImage(
   accessToken: string,
   prompt: string,
   castGuide: string,
-  artStyle?: string
+  artStyle?: string,
+  options?: { signal?: AbortSignal }
 ): Promise<string> {
-  const response = await apiFetch(`${API_BASE}/generate/panel-image`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${accessToken}` },
-    body: JSON.stringify({
-      prompt,
-      cast_guide: castGuide,
-      style: artStyle,
+  return scheduleGenerationRequest(
+    () => apiFetch(`${API_BASE}/generate/panel-image`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({
+        prompt,
+        cast_guide: castGuide,
+        style: artStyle,
+      }),
+      signal: options?.signal,
     }),
-  });
-
-  if (!response.ok) {
-    const error = (await response.json().catch(() => ({}))) as { detail?: string };
-    throw new Error(error.detail || `Failed to generate image: ${response.statusText}`);
-  }
+    async (response) => {
+      if (!response.ok) {
+        const error = (await response.json().catch(() => ({}))) as { detail?: string };
+        throw new Error(error.detail || `Failed to generate image: ${response.statusText}`);
+      }
 
-  const data = (await response.json()) as { image_base64: string };
-  return `data:image/png;base64,${data.image_base64}`;
+      const data = (await response.json()) as { image_base64: string };
+      return `data:image/png;base64,${data.image_base64}`;
+    },
+    { signal: options?.signal },
+  );
 }
 
 /**
@@ -211,23 +283,26 @@ export async function editPanelImage(
 ): Promise<string> {
   const pureBase64 = await imageSourceToPureBase64(imageSource);
 
-  const response = await apiFetch(`${API_BASE}/generate/edit-image`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${accessToken}` },
-    body: JSON.stringify({
-      image_base64: pureBase64,
-      original_prompt: originalPrompt,
-      edit_prompt: editPrompt,
-      cast_guide: castGuide,
-      style,
+  return scheduleGenerationRequest(
+    () => apiFetch(`${API_BASE}/generate/edit-image`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: JSON.stringify({
+        image_base64: pureBase64,
+        original_prompt: originalPrompt,
+        edit_prompt: editPrompt,
+        cast_guide: castGuide,
+        style,
+      }),
     }),
-  });
-
-  if (!response.ok) {
-    const error = (await response.json().catch(() => ({}))) as { detail?: string };
-    throw new Error(error.detail || `Failed to edit image: ${response.statusText}`);
-  }
+    async (response) => {
+      if (!response.ok) {
+        const error = (await response.json().catch(() => ({}))) as { detail?: string };
+        throw new Error(error.detail || `Failed to edit image: ${response.statusText}`);
+      }
 
-  const data = (await response.json()) as { image_base64: string };
-  return `data:image/png;base64,${data.image_base64}`;
+      const data = (await response.json()) as { image_base64: string };
+      return `data:image/png;base64,${data.image_base64}`;
+    },
+  );
 }
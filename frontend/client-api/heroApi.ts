@@ -0,0 +1,60 @@
+/**
+ * Typed client calls for the saved heroes library.
+ */
+import { API_BASE, apiFetch } from './apiClient';
+import { buildApiError } from './apiErrors';
+
+export interface HeroResponse {
+  id: number;
+  name: string;
+  gender: 'boy' | 'girl' | 'neutral';
+  skin_tone: string;
+  hair_color: string;
+  eye_color: string;
+  favorite_color: string;
+  archetype: string | null;
+  art_style: string | null;
+  language: string | null;
+  story_count: number;
+  last_used_at: string;
+}
+
+export interface HeroUpdateParams {
+  name: string;
+  gender: 'boy' | 'girl' | 'neutral';
+  skin_tone: string;
+  hair_color: string;
+  eye_color: string;
+  favorite_color: string;
+}
+
+export async function listHeroes(accessToken: string): Promise<HeroResponse[]> {
+  const response = await apiFetch(`${API_BASE}/heroes`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to load heroes');
+  }
+
+  return (await response.json()) as HeroResponse[];
+}
+
+export async function updateHero(
+  accessToken: string,
+  heroId: number,
+  params: HeroUpdateParams,
+): Promise<HeroResponse> {
+  const response = await apiFetch(`${API_BASE}/heroes/${heroId}`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to update hero');
+  }
+
+  return (await response.json()) as HeroResponse;
+}
@@ -2,6 +2,7 @@
  * Public exports for frontend-to-backend API calls.
  */
 export * from './apiClient';
+export * from './requestScheduler';
 export * from './authApi';
 export * from './userApi';
 export * from './friendApi';
@@ -9,3 +10,7 @@ export * from './storyApi';
 export * from './generationApi';
 export * from './statusApi';
 export * from './apiKeyApi';
+export * from './mfaApi';
+export * from './heroApi';
+export * from './collectionApi';
+export * from './offlineApi';
@@ -0,0 +1,75 @@
+import { API_BASE, apiFetch } from './apiClient';
+import { buildApiError } from './apiErrors';
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TotpEnrolmentResponse {
+  /** Base32 secret, for typing into the authenticator app by hand. */
+  secret: string;
+  /** `otpauth://` URI the QR code encodes. */
+  otpauth_uri: string;
+}
+
+export interface RecoveryCodesResponse {
+  recovery_codes: string[];
+}
+
+export async function getMfaStatus(accessToken: string): Promise<MfaStatusResponse> {
+  const response = await apiFetch(`${API_BASE}/users/me/mfa`, {
+    method: 'GET',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to load two-factor settings');
+  }
+
+  return (await response.json()) as MfaStatusResponse;
+}
+
+/** Start TOTP setup. The secret stays inactive until `confirmTotpEnrolment` succeeds. */
+export async function startTotpEnrolment(accessToken: string): Promise<TotpEnrolmentResponse> {
+  const response = await apiFetch(`${API_BASE}/users/me/mfa/totp`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to start two-factor setup');
+  }
+
+  return (await response.json()) as TotpEnrolmentResponse;
+}
+
+/** Turn two-factor on with a code from the app. The recovery codes are only returned here. */
+export async function confirmTotpEnrolment(
+  accessToken: string,
+  code: string,
+): Promise<RecoveryCodesResponse> {
+  const response = await apiFetch(`${API_BASE}/users/me/mfa/totp/confirm`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to turn on two-factor authentication');
+  }
+
+  return (await response.json()) as RecoveryCodesResponse;
+}
+
+export async function disableMfa(accessToken: string, code: string): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/users/me/mfa/disable`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to turn off two-factor authentication');
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Offline copies of saved stories.
+ * The page writes the story JSON and its images into the Cache API; the
+ * service worker in public/sw.js serves them back when the network is gone.
+ */
+import { getImageUrl } from '@/utils/imageUtils';
+import { API_BASE, apiFetch } from './apiClient';
+import { buildApiError } from './apiErrors';
+import type { StoryDetailResponse } from './storyApi';
+
+/** Must match the cache names in public/sw.js. */
+export const OFFLINE_STORIES_CACHE = 'offline-stories-v1';
+export const OFFLINE_SESSION_CACHE = 'offline-session-v2';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const STORY_DETAIL_PATH = /\/api\/stories\/(\d+)$/;
+
+function getStoryDetailUrl(storyId: number): string {
+  return `${API_BASE}/stories/${storyId}`;
+}
+
+function getStoryImageUrls(story: StoryDetailResponse): string[] {
+  const urls = [story.cover_image_url, ...story.panels.map((panel) => panel.image_url)]
+    .map((source) => getImageUrl(source))
+    .filter((url): url is string => Boolean(url) && !url?.startsWith('data:'));
+  return [...new Set(urls)];
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof caches !== 'undefined' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Register the offline service worker. Skipped in development so Vite's hot
+ * reload never fights a cached shell.
+ */
+export async function registerOfflineServiceWorker(): Promise<void> {
+  if (!import.meta.env.PROD || !isOfflineSupported()) {
+    return;
+  }
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+export async function listOfflineStoryIds(): Promise<number[]> {
+  if (!isOfflineSupported()) {
+    return [];
+  }
+
+  const cache = await caches.open(OFFLINE_STORIES_CACHE);
+  const requests = await cache.keys();
+  return requests
+    .map((request) => STORY_DETAIL_PATH.exec(new URL(request.url).pathname)?.[1])
+    .filter((storyId): storyId is string => Boolean(storyId))
+    .map(Number);
+}
+
+/** Download a story and every cover and panel image into the offline cache. */
+export async function saveStoryForOffline(accessToken: string, storyId: number): Promise<void> {
+  const url = getStoryDetailUrl(storyId);
+  const response = await apiFetch(url, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to save story for offline reading');
+  }
+
+  const cache = await caches.open(OFFLINE_STORIES_CACHE);
+  const story = (await response.clone().json()) as StoryDetailResponse;
+  // Images first: a story JSON in the cache is what marks the book as saved.
+  await cache.addAll(getStoryImageUrls(story));
+  await cache.put(url, response);
+}
+
+export async function removeStoryFromOffline(storyId: number): Promise<void> {
+  const cache = await caches.open(OFFLINE_STORIES_CACHE);
+  const url = getStoryDetailUrl(storyId);
+  const cached = await cache.match(url, { ignoreVary: true });
+
+  if (cached) {
+    const story = (await cached.json()) as StoryDetailResponse;
+    await Promise.all(getStoryImageUrls(story).map((imageUrl) => cache.delete(imageUrl, { ignoreVary: true })));
+  }
+  await cache.delete(url, { ignoreVary: true });
+}
+
+/** Forget the remembered user, story list and gallery pages, e.g. when the session ends. */
+export async function clearOfflineSession(): Promise<void> {
+  if (!isOfflineSupported()) {
+    return;
+  }
+
+  await caches.delete(OFFLINE_SESSION_CACHE);
+}
+
+/** Forget every offline copy, e.g. when the reader signs out on a shared device. */
+export async function clearOfflineStories(): Promise<void> {
+  if (!isOfflineSupported()) {
+    return;
+  }
+
+  await Promise.all([caches.delete(OFFLINE_STORIES_CACHE), clearOfflineSession()]);
+}
@@ -0,0 +1,236 @@
+/**
+ * Shared scheduler for expensive generation requests.
+ *
+ * Caps how many Gemini-backed calls are in flight at once, retries 429/503
+ * responses with exponential backoff plus jitter (honoring `Retry-After`),
+ * and exposes queue state so pages can explain why work is waiting. A
+ * `Retry-After` longer than `maxDelayMs` is not retried at all: retrying
+ * early only fails again and holds a slot while it does.
+ */
+
+export interface RequestSchedulerOptions {
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestQueueState {
+  activeCount: number;
+  queuedCount: number;
+  maxConcurrent: number;
+}
+
+export interface ScheduleRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface RequestScheduler {
+  /**
+   * Run `sendRequest` once a slot is free, retrying retryable statuses, then
+   * hand the final response to `handleResponse` while still holding the slot
+   * (so streamed bodies count against the concurrency cap until consumed).
+   */
+  schedule: <T>(
+    sendRequest: () => Promise<Response>,
+    handleResponse: (response: Response) => Promise<T>,
+    options?: ScheduleRequestOptions,
+  ) => Promise<T>;
+  getState: () => RequestQueueState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 503]);
+
+export const DEFAULT_GENERATION_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+  maxConcurrent: 3,
+  maxRetries: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+function createAbortError(): Error {
+  return new DOMException('The request was aborted.', 'AbortError');
+}
+
+/**
+ * Parse `Retry-After` as either delay-seconds or an HTTP date.
+ */
+export function parseRetryAfterMs(headerValue: string | null, now = Date.now()): number | null {
+  if (!headerValue) {
+    return null;
+  }
+
+  const seconds = Number(headerValue.trim());
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const retryAt = Date.parse(headerValue);
+  if (Number.isNaN(retryAt)) {
+    return null;
+  }
+
+  return Math.max(0, retryAt - now);
+}
+
+/**
+ * Delay before the next attempt, or null when the server asks to wait longer
+ * than `maxDelayMs` and the request should fail now instead.
+ */
+export function getBackoffDelayMs(
+  attempt: number,
+  options: Pick<RequestSchedulerOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  retryAfterMs: number | null = null,
+): number | null {
+  if (retryAfterMs !== null) {
+    return retryAfterMs <= options.maxDelayMs ? retryAfterMs : null;
+  }
+
+  const exponentialDelay = options.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(exponentialDelay + jitter, options.maxDelayMs);
+}
+
+function waitWithSignal(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const handleAbort = () => {
+      globalThis.clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    const timeoutId = globalThis.setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, milliseconds);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+export function createRequestScheduler(
+  overrides: Partial<RequestSchedulerOptions> = {},
+): RequestScheduler {
+  const options = { ...DEFAULT_GENERATION_SCHEDULER_OPTIONS, ...overrides };
+  const waitingSlots: Array<() => void> = [];
+  const listeners = new Set<() => void>();
+  let activeCount = 0;
+  let state: RequestQueueState = {
+    activeCount: 0,
+    queuedCount: 0,
+    maxConcurrent: options.maxConcurrent,
+  };
+
+  // Keep one snapshot object per change so React can use it as an external store.
+  const publishState = () => {
+    state = {
+      activeCount,
+      queuedCount: waitingSlots.length,
+      maxConcurrent: options.maxConcurrent,
+    };
+    listeners.forEach((listener) => listener());
+  };
+
+  const acquireSlot = (signal?: AbortSignal): Promise<void> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    if (activeCount < options.maxConcurrent) {
+      activeCount += 1;
+      publishState();
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grantSlot = () => {
+        signal?.removeEventListener('abort', handleAbort);
+        activeCount += 1;
+        resolve();
+      };
+      const handleAbort = () => {
+        const waitingIndex = waitingSlots.indexOf(grantSlot);
+        if (waitingIndex >= 0) {
+          waitingSlots.splice(waitingIndex, 1);
+          publishState();
+        }
+        reject(createAbortError());
+      };
+
+      waitingSlots.push(grantSlot);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      publishState();
+    });
+  };
+
+  const releaseSlot = () => {
+    activeCount -= 1;
+    const nextSlot = waitingSlots.shift();
+    nextSlot?.();
+    publishState();
+  };
+
+  const sendWithRetry = async (
+    sendRequest: () => Promise<Response>,
+    signal?: AbortSignal,
+  ): Promise<Response> => {
+    for (let attempt = 0; ; attempt += 1) {
+      const response = await sendRequest();
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= options.maxRetries) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfterMs(response.headers.get('Retry-After'));
+      const delayMs = getBackoffDelayMs(attempt, options, retryAfterMs);
+      if (delayMs === null) {
+        return response;
+      }
+
+      await response.body?.cancel().catch(() => undefined);
+      await waitWithSignal(delayMs, signal);
+    }
+  };
+
+  return {
+    async schedule(sendRequest, handleResponse, scheduleOptions = {}) {
+      const { signal } = scheduleOptions;
+      await acquireSlot(signal);
+
+      try {
+        const response = await sendWithRetry(sendRequest, signal);
+        return await handleResponse(response);
+      } finally {
+        releaseSlot();
+      }
+    },
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const generationScheduler = createRequestScheduler();
+
+export function scheduleGenerationRequest<T>(
+  sendRequest: () => Promise<Response>,
+  handleResponse: (response: Response) => Promise<T>,
+  options?: ScheduleRequestOptions,
+): Promise<T> {
+  return generationScheduler.schedule(sendRequest, handleResponse, options);
+}
+
+export function getGenerationQueueState(): RequestQueueState {
+  return generationScheduler.getState();
+}
+
+export function subscribeToGenerationQueue(listener: () => void): () => void {
+  return generationScheduler.subscribe(listener);
+}
@@ -4,7 +4,14 @@
 import { API_BASE, apiFetch } from './apiClient';
 import { buildApiError } from './apiErrors';
 
-export type StoryVisibility = 'private' | 'shared_with_friends';
+export type StoryVisibility = 'private' | 'shared_with_friends' | 'public_link';
+
+/** The active public link of a story; only the owner's responses carry it. */
+export interface StoryShareLinkResponse {
+  token: string;
+  expires_at: string | null;
+  created_at: string;
+}
 
 export interface KidProfileResponse {
   id: number;
@@ -29,6 +36,14 @@ export interface PanelResponse {
   image_url: string | null;
 }
 
+/** Where a story sits in its series; previous/next only point at episodes the viewer can open. */
+export interface StorySeriesResponse {
+  id: number;
+  episode_number: number;
+  previous_story_id: number | null;
+  next_story_id: number | null;
+}
+
 export interface StoryDetailResponse {
   id: number;
   title: string | null;
@@ -37,11 +52,13 @@ export interface StoryDetailResponse {
   cover_image_prompt: string | null;
   cover_image_url: string | null;
   visibility: StoryVisibility;
+  share_link: StoryShareLinkResponse | null;
   is_unlocked: boolean;
   created_at: string;
   updated_at: string;
   profile: KidProfileResponse;
   panels: PanelResponse[];
+  series: StorySeriesResponse | null;
 }
 
 export interface StoryListItem {
@@ -49,9 +66,52 @@ export interface StoryListItem {
   title: string | null;
   cover_image_url: string | null;
   visibility: StoryVisibility;
+  share_link: StoryShareLinkResponse | null;
   is_unlocked: boolean;
   created_at: string;
   profile: KidProfileResponse;
+  series_id: number | null;
+  episode_number: number | null;
+}
+
+/** A story in the trash; the server deletes it for good at `purge_at`. */
+export interface TrashedStoryItem extends StoryListItem {
+  deleted_at: string;
+  purge_at: string;
+}
+
+export type StorySort = 'newest' | 'oldest' | 'title' | 'title_desc';
+
+export type StoryStatusFilter = 'draft' | 'unlocked';
+
+/** Gallery search; every filter is optional and they combine. */
+export interface StorySearchParams {
+  q?: string;
+  hero?: string;
+  archetype?: string;
+  artStyle?: string;
+  language?: string;
+  visibility?: StoryVisibility;
+  status?: StoryStatusFilter;
+  sort?: StorySort;
+  limit?: number;
+  offset?: number;
+}
+
+/** Filter values that occur anywhere in the user's library. */
+export interface StorySearchFacets {
+  hero_names: string[];
+  archetypes: string[];
+  art_styles: string[];
+  languages: string[];
+}
+
+export interface StorySearchResponse {
+  items: StoryListItem[];
+  total: number;
+  limit: number;
+  offset: number;
+  facets: StorySearchFacets;
 }
 
 export interface SaveStoryParams {
@@ -64,6 +124,7 @@ export interface SaveStoryParams {
     favorite_color: string;
     dream?: string;
     archetype?: string;
+    art_style?: string;
     language?: string;
   };
   title?: string;
@@ -77,6 +138,8 @@ export interface SaveStoryParams {
     image_prompt?: string;
     image_base64?: string;
   }>;
+  /** Saves the story as the next episode in the series of this earlier story. */
+  continues_story_id?: number;
 }
 
 /**
@@ -100,11 +163,20 @@ export async function saveStory(accessToken: string, params: SaveStoryParams): P
 export interface UpdateStoryParams {
   is_unlocked: boolean;
   cover_image_base64?: string;
+  /** Treat `panels` as the complete layout: rewrite captions/order, insert and delete panels. */
+  replace_panels?: boolean;
+  /** Script fields; omitted ones keep their saved value. */
+  title?: string;
+  foreword?: string;
+  character_description?: string;
+  cover_image_prompt?: string;
   panels: Array<{
     panel_order: number;
     text: string;
     image_prompt?: string;
     image_base64?: string;
+    /** With `replace_panels`, keep the image of the panel currently at this position. */
+    source_panel_order?: number;
   }>;
 }
 
@@ -123,15 +195,20 @@ export async function updateStory(accessToken: string, storyId: number, params:
   }
 }
 
+/**
+ * Change who can see a story. `keepalive` lets the request finish after the page closes.
+ */
 export async function updateStoryVisibility(
   accessToken: string,
   storyId: number,
-  visibility: StoryVisibility
+  visibility: Exclude<StoryVisibility, 'public_link'>,
+  options?: { keepalive?: boolean },
 ): Promise<StoryDetailResponse> {
   const response = await apiFetch(`${API_BASE}/stories/${storyId}/visibility`, {
     method: 'PATCH',
     headers: { Authorization: `Bearer ${accessToken}` },
     body: JSON.stringify({ visibility }),
+    keepalive: options?.keepalive,
   });
 
   if (!response.ok) {
@@ -142,18 +219,98 @@ export async function updateStoryVisibility(
 }
 
 /**
- * Update a single panel's image after editing.
+ * Share a story by public link. Any earlier link of the story stops working.
+ * Pass `expiresInDays: null` for a link that never expires.
+ */
+export async function createStoryShareLink(
+  accessToken: string,
+  storyId: number,
+  expiresInDays: number | null
+): Promise<StoryDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/stories/${storyId}/share-link`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ expires_in_days: expiresInDays }),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to create share link');
+  }
+
+  return (await response.json()) as StoryDetailResponse;
+}
+
+export interface RemixStoryParams {
+  profile: SaveStoryParams['profile'];
+  /** Copy the original pictures into the remix instead of starting it unpainted. */
+  keep_images?: boolean;
+}
+
+/**
+ * Copy a story into a new private draft for another hero, art style or language.
+ */
+export async function remixStory(
+  accessToken: string,
+  storyId: number,
+  params: RemixStoryParams
+): Promise<StoryDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/stories/${storyId}/remix`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(params),
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to remix story');
+  }
+
+  return (await response.json()) as StoryDetailResponse;
+}
+
+/**
+ * Revoke the public link of a story; the story becomes private.
+ */
+export async function revokeStoryShareLink(accessToken: string, storyId: number): Promise<StoryDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/stories/${storyId}/share-link`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to revoke share link');
+  }
+
+  return (await response.json()) as StoryDetailResponse;
+}
+
+/**
+ * Load a story from its public link. Needs no sign-in.
+ */
+export async function getStoryByShareToken(token: string): Promise<StoryDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/shared-stories/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to fetch shared story');
+  }
+
+  return (await response.json()) as StoryDetailResponse;
+}
+
+/**
+ * Update a single panel's image after editing. Pass `imagePrompt` when the
+ * image was redrawn from a rewritten prompt so the panel keeps it.
  */
 export async function updatePanelImage(
   accessToken: string,
   storyId: number,
   panelOrder: number,
-  imageBase64: string
+  imageBase64: string,
+  imagePrompt?: string
 ): Promise<void> {
   const response = await apiFetch(`${API_BASE}/stories/${storyId}/panels/${panelOrder}`, {
     method: 'PATCH',
     headers: { Authorization: `Bearer ${accessToken}` },
-    body: JSON.stringify({ image_base64: imageBase64 }),
+    body: JSON.stringify({ image_base64: imageBase64, image_prompt: imagePrompt }),
   });
 
   if (!response.ok) {
@@ -161,6 +318,82 @@ export async function updatePanelImage(
   }
 }
 
+export interface ImageVersionResponse {
+  id: number;
+  image_url: string;
+  created_at: string;
+}
+
+async function fetchImageVersions(accessToken: string, path: string): Promise<ImageVersionResponse[]> {
+  const response = await apiFetch(`${API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to fetch image history');
+  }
+
+  return (await response.json()) as ImageVersionResponse[];
+}
+
+async function postImageVersionRestore(accessToken: string, path: string): Promise<string> {
+  const response = await apiFetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to restore image');
+  }
+
+  const data = (await response.json()) as { image_url: string };
+  return data.image_url;
+}
+
+/**
+ * List earlier images of one panel, newest first.
+ */
+export async function getPanelImageVersions(
+  accessToken: string,
+  storyId: number,
+  panelOrder: number
+): Promise<ImageVersionResponse[]> {
+  return fetchImageVersions(accessToken, `/stories/${storyId}/panels/${panelOrder}/versions`);
+}
+
+/**
+ * Make an earlier panel image current again. Resolves with the restored image filename.
+ */
+export async function restorePanelImageVersion(
+  accessToken: string,
+  storyId: number,
+  panelOrder: number,
+  versionId: number
+): Promise<string> {
+  return postImageVersionRestore(
+    accessToken,
+    `/stories/${storyId}/panels/${panelOrder}/versions/${versionId}/restore`,
+  );
+}
+
+/**
+ * List earlier cover images, newest first.
+ */
+export async function getCoverImageVersions(accessToken: string, storyId: number): Promise<ImageVersionResponse[]> {
+  return fetchImageVersions(accessToken, `/stories/${storyId}/cover/versions`);
+}
+
+/**
+ * Make an earlier cover current again. Resolves with the restored image filename.
+ */
+export async function restoreCoverImageVersion(
+  accessToken: string,
+  storyId: number,
+  versionId: number
+): Promise<string> {
+  return postImageVersionRestore(accessToken, `/stories/${storyId}/cover/versions/${versionId}/restore`);
+}
+
 /**
  * Get list of all saved stories for the authenticated user.
  */
@@ -176,6 +409,40 @@ export async function getStories(accessToken: string): Promise<StoryListItem[]>
   return (await response.json()) as StoryListItem[];
 }
 
+/**
+ * Get one page of the user's stories matching a gallery search.
+ */
+export async function searchStories(accessToken: string, params: StorySearchParams): Promise<StorySearchResponse> {
+  const query = new URLSearchParams();
+  const entries: [string, string | number | undefined][] = [
+    ['q', params.q?.trim()],
+    ['hero', params.hero],
+    ['archetype', params.archetype],
+    ['art_style', params.artStyle],
+    ['language', params.language],
+    ['visibility', params.visibility],
+    ['status', params.status],
+    ['sort', params.sort],
+    ['limit', params.limit],
+    ['offset', params.offset],
+  ];
+  entries.forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      query.set(key, String(value));
+    }
+  });
+
+  const response = await apiFetch(`${API_BASE}/stories/search?${query.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to search stories');
+  }
+
+  return (await response.json()) as StorySearchResponse;
+}
+
 /**
  * Get a single story with all its panels.
  */
@@ -220,7 +487,58 @@ export async function getFriendSharedStory(
 }
 
 /**
- * Delete a story.
+ * Move a story to the trash, where it can be restored for 30 days.
+ * `keepalive` lets the request finish after the page closes.
+ */
+export async function moveStoryToTrash(
+  accessToken: string,
+  storyId: number,
+  options?: { keepalive?: boolean },
+): Promise<void> {
+  const response = await apiFetch(`${API_BASE}/stories/${storyId}/trash`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+    keepalive: options?.keepalive,
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to move story to trash');
+  }
+}
+
+/**
+ * List the stories in the trash, most recently deleted first.
+ */
+export async function listTrashedStories(accessToken: string): Promise<TrashedStoryItem[]> {
+  const response = await apiFetch(`${API_BASE}/stories/trash`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to fetch trash');
+  }
+
+  return (await response.json()) as TrashedStoryItem[];
+}
+
+/**
+ * Take a story out of the trash.
+ */
+export async function restoreStory(accessToken: string, storyId: number): Promise<StoryDetailResponse> {
+  const response = await apiFetch(`${API_BASE}/stories/${storyId}/restore`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw await buildApiError(response, 'Failed to restore story');
+  }
+
+  return (await response.json()) as StoryDetailResponse;
+}
+
+/**
+ * Delete a story for good, e.g. from the trash.
  */
 export async function deleteStory(accessToken: string, storyId: number): Promise<void> {
   const response = await apiFetch(`${API_BASE}/stories/${storyId}`, {
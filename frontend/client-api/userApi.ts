@@ -8,6 +8,8 @@ export interface UserResponse {
   avatar_url: string | null;
   is_online: boolean;
   is_admin: boolean;
+  /** False until the address is confirmed through the emailed link; changing the email resets it. */
+  email_verified: boolean;
   created_at: string;
 }
 
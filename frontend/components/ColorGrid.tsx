@@ -0,0 +1,47 @@
+/**
+ * Labelled row of color swatches for picking a skin, hair, eye or favorite color.
+ */
+import { Label } from '@/components/design-system/Typography';
+import type { ColorOption } from './kidWizard.constants';
+
+interface ColorGridProps {
+  options: ColorOption[];
+  selected: string;
+  onSelect: (value: string) => void;
+  label: string;
+}
+
+function ColorGrid({ options, selected, onSelect, label }: ColorGridProps): JSX.Element {
+  return (
+    <div className="mb-8 animate-in fade-in slide-in-from-bottom-2 duration-500 px-4">
+      <Label className="block mb-6 text-brand-primary text-sm">{label}</Label>
+      <div className="flex flex-wrap gap-6">
+        {options.map((option) => (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => onSelect(option.label)}
+            className={`group relative w-12 h-12 rounded-full border-4 transition-all duration-300 ${
+              selected === option.label
+                ? 'border-brand-primary scale-125 z-10 shadow-soft'
+                : 'border-gray-100 hover:scale-110'
+            }`}
+            style={{ backgroundColor: option.hex }}
+            title={option.label}
+          >
+            {selected === option.label && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="w-2 h-2 bg-white rounded-full shadow-lg" />
+              </div>
+            )}
+            <span className="absolute -bottom-8 left-1/2 -translate-x-1/2 text-[10px] font-semibold text-brand-dark opacity-0 group-hover:opacity-100 transition-opacity uppercase whitespace-nowrap">
+              {option.label}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ColorGrid;
@@ -4,15 +4,24 @@
  */
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { ComicPanelData } from '@/types';
+import type { ComicPanelData, ImageVersion } from '@/types';
 import { getImageUrl } from '@/utils';
-import { SketchyButton } from '@/components/design-system/Primitives';
+import ImageRevisionDialog from '@/components/ImageRevisionDialog';
+import PanelRegenerateDialog from '@/components/PanelRegenerateDialog';
 
 interface ComicPanelProps {
   panel: ComicPanelData;
   onEditImage?: (editPrompt: string) => Promise<void> | void;
+  /** Only saved panels have a history; omit both to hide it. */
+  onLoadHistory?: () => Promise<ImageVersion[]>;
+  onRestoreVersion?: (versionId: number) => Promise<void> | void;
+  /** Redraw from a rewritten prompt: paint a candidate, then keep it only if accepted. */
+  onRegenerateImage?: (imagePrompt: string) => Promise<string>;
+  onAcceptRegeneratedImage?: (imagePrompt: string, imageUrl: string) => Promise<void> | void;
 }
 
+const PANEL_ACTION_CLASS = 'bg-white/40 backdrop-blur-md p-2.5 rounded-full shadow-md hover:bg-white/90 transition-all duration-200 text-lg border border-white/50';
+
 function resolvePanelImageUrl(imageUrl: string | undefined): string | undefined {
   if (!imageUrl) {
     return undefined;
@@ -25,32 +34,21 @@ function resolvePanelImageUrl(imageUrl: string | undefined): string | undefined
   return getImageUrl(imageUrl);
 }
 
-function ComicPanel({ panel, onEditImage }: ComicPanelProps): JSX.Element {
+function ComicPanel({
+  panel,
+  onEditImage,
+  onLoadHistory,
+  onRestoreVersion,
+  onRegenerateImage,
+  onAcceptRegeneratedImage,
+}: ComicPanelProps): JSX.Element {
   const { t } = useTranslation();
   const [isEditing, setIsEditing] = useState(false);
-  const [editPrompt, setEditPrompt] = useState('');
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
 
   const resolvedImageUrl = resolvePanelImageUrl(panel.imageUrl);
-  const isEditable = Boolean(onEditImage && panel.imageUrl?.startsWith('data:'));
-
-  const handleEdit = async () => {
-    if (!onEditImage || !editPrompt) {
-      return;
-    }
-
-    setIsProcessing(true);
-
-    try {
-      await onEditImage(editPrompt);
-      setIsEditing(false);
-      setEditPrompt('');
-    } catch {
-      // The page hook owns error handling. Keeping the modal open lets the user adjust the prompt.
-    } finally {
-      setIsProcessing(false);
-    }
-  };
+  const isEditable = Boolean(onEditImage && panel.imageUrl);
+  const isRegenerable = Boolean(onRegenerateImage && onAcceptRegeneratedImage && panel.imageUrl);
 
   return (
     <div className="relative h-full flex flex-col bg-white overflow-hidden group">
@@ -65,15 +63,29 @@ function ComicPanel({ panel, onEditImage }: ComicPanelProps): JSX.Element {
         ) : resolvedImageUrl ? (
           <>
             <img src={resolvedImageUrl} alt={t('comicPanel.sceneAlt')} className="w-full h-full object-cover block transition-opacity duration-500" />
-            {isEditable && (
-              <button
-                type="button"
-                onClick={() => setIsEditing(true)}
-                className="absolute top-3 end-3 bg-white/40 backdrop-blur-md p-2.5 rounded-full shadow-md opacity-0 group-hover:opacity-100 hover:bg-white/90 transition-all duration-200 text-lg border border-white/50 z-40"
-                title={t('comicPanel.editScene')}
-              >
-                🪄
-              </button>
+            {(isEditable || isRegenerable) && (
+              <div className="absolute top-3 end-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-all duration-200 z-40">
+                {isRegenerable && (
+                  <button
+                    type="button"
+                    onClick={() => setIsRegenerating(true)}
+                    className={PANEL_ACTION_CLASS}
+                    title={t('comicPanel.regenerate.open')}
+                  >
+                    🎨
+                  </button>
+                )}
+                {isEditable && (
+                  <button
+                    type="button"
+                    onClick={() => setIsEditing(true)}
+                    className={PANEL_ACTION_CLASS}
+                    title={t('comicPanel.editScene')}
+                  >
+                    🪄
+                  </button>
+                )}
+              </div>
             )}
           </>
         ) : (
@@ -90,43 +102,22 @@ function ComicPanel({ panel, onEditImage }: ComicPanelProps): JSX.Element {
       </div>
 
       {isEditing && (
-        <div className="fixed inset-0 bg-brand-dark/80 z-[100] flex items-center justify-center p-4 backdrop-blur-md">
-          <div className="bg-white rounded-[2.5rem] p-10 w-full max-w-lg shadow-2xl border-6 border-brand-accent animate-in zoom-in duration-300">
-            <h3 className="text-3xl font-black text-brand-primary mb-2">{t('comicPanel.magicRevision')}</h3>
-            <p className="text-base text-gray-400 mb-6 font-medium italic">{t('comicPanel.requestChange')}</p>
-            <textarea
-              className="w-full border-2 border-brand-surface rounded-2xl p-6 mb-8 text-lg font-bold focus:border-brand-accent focus:outline-none bg-brand-surface resize-none shadow-inner"
-              rows={3}
-              placeholder={t('comicPanel.editPlaceholder')}
-              value={editPrompt}
-              onChange={(event) => setEditPrompt(event.target.value)}
-              disabled={isProcessing}
-            />
-            <div className="flex gap-4">
-              <SketchyButton
-                variant="outline"
-                onClick={() => setIsEditing(false)}
-                className="flex-1 rounded-xl text-gray-400 border-gray-200"
-                disabled={isProcessing}
-                style={{ borderRadius: '1rem' }}
-              >
-                {t('comicPanel.close')}
-              </SketchyButton>
-              <SketchyButton
-                onClick={() => void handleEdit()}
-                className="flex-1 rounded-xl text-lg shadow-lg"
-                disabled={isProcessing || !editPrompt}
-                style={{ borderRadius: '1rem' }}
-              >
-                {isProcessing ? (
-                  <div className="w-6 h-6 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto" />
-                ) : (
-                  t('comicPanel.applyMagic')
-                )}
-              </SketchyButton>
-            </div>
-          </div>
-        </div>
+        <ImageRevisionDialog
+          onClose={() => setIsEditing(false)}
+          onApply={onEditImage!}
+          onLoadHistory={onLoadHistory}
+          onRestoreVersion={onRestoreVersion}
+        />
+      )}
+
+      {isRegenerating && (
+        <PanelRegenerateDialog
+          currentImageUrl={panel.imageUrl!}
+          initialPrompt={panel.imagePrompt}
+          onClose={() => setIsRegenerating(false)}
+          onGenerate={onRegenerateImage!}
+          onAccept={onAcceptRegeneratedImage!}
+        />
       )}
     </div>
   );
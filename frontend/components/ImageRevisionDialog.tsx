@@ -0,0 +1,159 @@
+/**
+ * Magic Revision modal shared by comic panels and the storybook cover.
+ * Collects the edit prompt and, when the caller supports it, lists earlier
+ * images so a bad revision can be reverted. The caller does the actual work.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import StorageImage from '@/components/StorageImage';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import type { ImageVersion } from '@/types';
+
+interface ImageRevisionDialogProps {
+  onClose: () => void;
+  onApply: (editPrompt: string) => Promise<void> | void;
+  onLoadHistory?: () => Promise<ImageVersion[]>;
+  onRestoreVersion?: (versionId: number) => Promise<void> | void;
+}
+
+interface ImageHistoryListProps {
+  versions: ImageVersion[] | null;
+  isBusy: boolean;
+  onRestore: (versionId: number) => void;
+}
+
+function ImageHistoryList({ versions, isBusy, onRestore }: ImageHistoryListProps): JSX.Element {
+  const { t, i18n } = useTranslation();
+
+  if (versions === null) {
+    return <p className="text-sm text-brand-muted italic">{t('comicPanel.history.loading')}</p>;
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-brand-muted italic">{t('comicPanel.history.empty')}</p>;
+  }
+
+  return (
+    <ul className="flex gap-3 overflow-x-auto pb-2">
+      {versions.map((version) => (
+        <li key={version.id} className="shrink-0 w-28 flex flex-col gap-2 items-center">
+          <StorageImage
+            src={version.imageUrl}
+            alt={t('comicPanel.history.versionAlt')}
+            className="w-28 h-20 object-cover rounded-xl border-2 border-brand-surface"
+          />
+          <span className="text-[10px] font-bold text-brand-muted">
+            {new Date(version.createdAt).toLocaleString(i18n.resolvedLanguage || i18n.language)}
+          </span>
+          <button
+            type="button"
+            onClick={() => onRestore(version.id)}
+            disabled={isBusy}
+            className="text-xs font-black text-brand-primary uppercase tracking-widest hover:underline disabled:opacity-50"
+          >
+            {t('comicPanel.history.restore')}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ImageRevisionDialog({
+  onClose,
+  onApply,
+  onLoadHistory,
+  onRestoreVersion,
+}: ImageRevisionDialogProps): JSX.Element {
+  const { t } = useTranslation();
+  const [editPrompt, setEditPrompt] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [versions, setVersions] = useState<ImageVersion[] | null>(null);
+  const hasHistory = Boolean(onLoadHistory && onRestoreVersion);
+  // Callers pass inline callbacks; history is loaded once per opening, not per parent render.
+  const loadHistoryRef = useRef(onLoadHistory);
+
+  useEffect(() => {
+    const loadHistory = loadHistoryRef.current;
+    if (!loadHistory) {
+      return undefined;
+    }
+
+    let isActive = true;
+    void loadHistory().then((loadedVersions) => {
+      if (isActive) {
+        setVersions(loadedVersions);
+      }
+    });
+
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  // The page hook owns error handling. Staying open lets the user adjust and try again.
+  const runAndClose = async (action: () => Promise<void> | void) => {
+    setIsProcessing(true);
+
+    try {
+      await action();
+      onClose();
+    } catch {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-brand-dark/80 z-[100] flex items-center justify-center p-4 backdrop-blur-md">
+      <div className="bg-white rounded-[2.5rem] p-10 w-full max-w-lg shadow-2xl border-6 border-brand-accent animate-in zoom-in duration-300">
+        <h3 className="text-3xl font-black text-brand-primary mb-2">{t('comicPanel.magicRevision')}</h3>
+        <p className="text-base text-gray-400 mb-6 font-medium italic">{t('comicPanel.requestChange')}</p>
+        <textarea
+          className="w-full border-2 border-brand-surface rounded-2xl p-6 mb-8 text-lg font-bold focus:border-brand-accent focus:outline-none bg-brand-surface resize-none shadow-inner"
+          rows={3}
+          placeholder={t('comicPanel.editPlaceholder')}
+          value={editPrompt}
+          onChange={(event) => setEditPrompt(event.target.value)}
+          disabled={isProcessing}
+        />
+        {hasHistory ? (
+          <div className="mb-8">
+            <p className="text-xs font-black text-brand-primary uppercase tracking-widest mb-3">
+              {t('comicPanel.history.title')}
+            </p>
+            <ImageHistoryList
+              versions={versions}
+              isBusy={isProcessing}
+              onRestore={(versionId) => void runAndClose(() => onRestoreVersion?.(versionId))}
+            />
+          </div>
+        ) : null}
+        <div className="flex gap-4">
+          <SketchyButton
+            variant="outline"
+            onClick={onClose}
+            className="flex-1 rounded-xl text-gray-400 border-gray-200"
+            disabled={isProcessing}
+            style={{ borderRadius: '1rem' }}
+          >
+            {t('comicPanel.close')}
+          </SketchyButton>
+          <SketchyButton
+            onClick={() => void runAndClose(() => onApply(editPrompt))}
+            className="flex-1 rounded-xl text-lg shadow-lg"
+            disabled={isProcessing || !editPrompt}
+            style={{ borderRadius: '1rem' }}
+          >
+            {isProcessing ? (
+              <div className="w-6 h-6 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto" />
+            ) : (
+              t('comicPanel.applyMagic')
+            )}
+          </SketchyButton>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImageRevisionDialog;
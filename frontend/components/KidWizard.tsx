@@ -4,7 +4,8 @@
  */
 import { useTranslation } from 'react-i18next';
 import type { ChangeEvent } from 'react';
-import type { KidProfile } from '@/types';
+import type { CastMember, CastRole, KidProfile, SavedHero } from '@/types';
+import ColorGrid from '@/components/ColorGrid';
 import { SketchyButton } from '@/components/design-system/Primitives';
 import { Heading, Label } from '@/components/design-system/Typography';
 import { SketchyInput, SketchyTextarea } from '@/components/design-system/Forms';
@@ -13,14 +14,17 @@ import { getDirectionalArrow, getLanguageDirection, getSpeechLocale } from '@/i1
 import {
   ARCHETYPES,
   ART_STYLES,
+  CAST_ROLES,
   EYE_COLORS,
   FAVORITE_COLORS,
   GENDERS,
   GENDER_BUTTON_STYLE,
   HAIR_COLORS,
+  MAX_CAST_MEMBERS,
+  READING_LEVELS,
   SKIN_TONES,
   STEP_LABELS,
-  type ColorOption,
+  STORY_LENGTHS,
   type WizardStepDefinition,
 } from './kidWizard.constants';
 
@@ -35,14 +39,14 @@ interface KidWizardProps {
   onPreviousStep: () => void;
   onPhotoSelect: (file: File) => Promise<void>;
   onPhotoRemove: () => void;
+  onAddCastMember: (role: CastRole) => void;
+  onRemoveCastMember: (memberId: string) => void;
+  onCastPhotoSelect: (memberId: string, file: File) => Promise<void>;
+  onCastPhotoRemove: (memberId: string) => void;
   onSubmit: () => Promise<void>;
-}
-
-interface ColorGridProps {
-  options: ColorOption[];
-  selected: string;
-  onSelect: (value: string) => void;
-  label: string;
+  /** Heroes from earlier stories, offered on the first step. */
+  savedHeroes: SavedHero[];
+  onPickHero: (hero: SavedHero) => void;
 }
 
 interface WizardProgressProps {
@@ -52,7 +56,14 @@ interface WizardProgressProps {
 
 interface HeroStepSectionProps {
   profile: KidProfile;
+  savedHeroes: SavedHero[];
   onUpdateProfileField: UpdateProfileField;
+  onPickHero: (hero: SavedHero) => void;
+}
+
+interface SavedHeroPickerProps {
+  savedHeroes: SavedHero[];
+  onPickHero: (hero: SavedHero) => void;
 }
 
 interface AppearanceStepSectionProps {
@@ -63,6 +74,23 @@ interface AppearanceStepSectionProps {
   onPhotoRemove: () => void;
 }
 
+interface CastStepSectionProps {
+  profile: KidProfile;
+  onUpdateProfileField: UpdateProfileField;
+  onAddCastMember: (role: CastRole) => void;
+  onRemoveCastMember: (memberId: string) => void;
+  onCastPhotoSelect: (memberId: string, file: File) => Promise<void>;
+  onCastPhotoRemove: (memberId: string) => void;
+}
+
+interface CastMemberCardProps {
+  member: CastMember;
+  onChange: (changes: Partial<Omit<CastMember, 'id'>>) => void;
+  onRemove: () => void;
+  onPhotoSelect: (file: File) => Promise<void>;
+  onPhotoRemove: () => void;
+}
+
 interface ArchetypeStepSectionProps {
   profile: KidProfile;
   onUpdateProfileField: UpdateProfileField;
@@ -141,39 +169,6 @@ function getSelectionCardClassName(isSelected: boolean, textAlignmentClassName:
   return `p-6 rounded-3xl border-4 transition-all hover:-translate-y-1 ${textAlignmentClassName} ${selectedStateClassName}`;
 }
 
-function ColorGrid({ options, selected, onSelect, label }: ColorGridProps): JSX.Element {
-  return (
-    <div className="mb-8 animate-in fade-in slide-in-from-bottom-2 duration-500 px-4">
-      <Label className="block mb-6 text-brand-primary text-sm">{label}</Label>
-      <div className="flex flex-wrap gap-6">
-        {options.map((option) => (
-          <button
-            key={option.label}
-            type="button"
-            onClick={() => onSelect(option.label)}
-            className={`group relative w-12 h-12 rounded-full border-4 transition-all duration-300 ${
-              selected === option.label
-                ? 'border-brand-primary scale-125 z-10 shadow-soft'
-                : 'border-gray-100 hover:scale-110'
-            }`}
-            style={{ backgroundColor: option.hex }}
-            title={option.label}
-          >
-            {selected === option.label && (
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="w-2 h-2 bg-white rounded-full shadow-lg" />
-              </div>
-            )}
-            <span className="absolute -bottom-8 left-1/2 -translate-x-1/2 text-[10px] font-semibold text-brand-dark opacity-0 group-hover:opacity-100 transition-opacity uppercase whitespace-nowrap">
-              {option.label}
-            </span>
-          </button>
-        ))}
-      </div>
-    </div>
-  );
-}
-
 function WizardProgress({ currentStep, steps }: WizardProgressProps): JSX.Element {
   const { t } = useTranslation();
   return (
@@ -199,13 +194,42 @@ function WizardProgress({ currentStep, steps }: WizardProgressProps): JSX.Elemen
   );
 }
 
+function SavedHeroPicker({ savedHeroes, onPickHero }: SavedHeroPickerProps): JSX.Element {
+  const { t } = useTranslation();
+  return (
+    <div className="mb-8 pb-8 border-b border-brand-light">
+      <Label className="block mb-1 text-brand-primary text-sm">{t('kidWizard.savedHeroes.title')}</Label>
+      <p className="text-xs text-brand-muted italic mb-4">{t('kidWizard.savedHeroes.description')}</p>
+      <div className="flex flex-wrap gap-3">
+        {savedHeroes.map((hero) => (
+          <button
+            key={hero.id}
+            type="button"
+            onClick={() => onPickHero(hero)}
+            className="flex items-center gap-2 px-4 py-2 rounded-full border-2 border-brand-primary/20 bg-white font-bold text-brand-dark hover:border-brand-primary hover:bg-brand-light transition-colors"
+          >
+            <span
+              className="w-4 h-4 rounded-full border border-white shadow"
+              style={{ backgroundColor: FAVORITE_COLORS.find((option) => option.label === hero.profile.favoriteColor)?.hex }}
+            />
+            {hero.profile.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function HeroStepSection({
   profile,
+  savedHeroes,
   onUpdateProfileField,
+  onPickHero,
 }: HeroStepSectionProps): JSX.Element {
   const { t } = useTranslation();
   return (
     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 flex-1 flex flex-col justify-center">
+      {savedHeroes.length ? <SavedHeroPicker savedHeroes={savedHeroes} onPickHero={onPickHero} /> : null}
       <Heading className="mb-8 text-brand-dark">{t('kidWizard.heroQuestion')}</Heading>
       <SketchyInput
         autoFocus
@@ -303,6 +327,170 @@ function AppearanceStepSection({
   );
 }
 
+function CastMemberCard({
+  member,
+  onChange,
+  onRemove,
+  onPhotoSelect,
+  onPhotoRemove,
+}: CastMemberCardProps): JSX.Element {
+  const { t } = useTranslation();
+  const isPet = member.role === 'pet';
+
+  const handlePhotoInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    void onPhotoSelect(file);
+  };
+
+  return (
+    <div className="rounded-3xl border-4 border-brand-primary/10 p-6 mb-6 animate-in fade-in slide-in-from-bottom-2 duration-500">
+      <div className="flex items-center gap-4 mb-6">
+        <SketchyInput
+          placeholder={t(`kidWizard.cast.namePlaceholder.${member.role}` as const)}
+          value={member.name}
+          onChange={(event) => onChange({ name: event.target.value })}
+          className="flex-1"
+        />
+        <button
+          type="button"
+          aria-label={t('kidWizard.cast.remove')}
+          title={t('kidWizard.cast.remove')}
+          onClick={onRemove}
+          className="bg-red-400 text-white rounded-full w-8 h-8 shrink-0 flex items-center justify-center font-semibold text-lg hover:bg-red-500 border border-white shadow-sm"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex gap-3 mb-6">
+        {CAST_ROLES.map((role) => (
+          <SketchyButton
+            key={role}
+            variant={member.role === role ? 'primary' : 'outline'}
+            onClick={() => onChange({ role })}
+            className="flex-1 py-2 text-sm rounded-2xl"
+            style={GENDER_BUTTON_STYLE}
+          >
+            {t(`kidWizard.cast.roles.${role}` as const)}
+          </SketchyButton>
+        ))}
+      </div>
+
+      {!isPet ? (
+        <div className="flex gap-3 mb-6">
+          {GENDERS.map((gender) => (
+            <SketchyButton
+              key={gender}
+              variant={member.gender === gender ? 'primary' : 'outline'}
+              onClick={() => onChange({ gender })}
+              className="flex-1 py-2 text-sm rounded-2xl"
+              style={GENDER_BUTTON_STYLE}
+            >
+              {t(`kidWizard.genders.${gender}` as const)}
+            </SketchyButton>
+          ))}
+        </div>
+      ) : null}
+
+      {!isPet ? (
+        <ColorGrid
+          label={t('kidWizard.skinTone')}
+          options={SKIN_TONES}
+          selected={member.skinTone}
+          onSelect={(value) => onChange({ skinTone: value })}
+        />
+      ) : null}
+      <ColorGrid
+        label={isPet ? t('kidWizard.cast.furColor') : t('kidWizard.hairColor')}
+        options={HAIR_COLORS}
+        selected={member.hairColor}
+        onSelect={(value) => onChange({ hairColor: value })}
+      />
+      <ColorGrid
+        label={t('kidWizard.eyeColor')}
+        options={EYE_COLORS}
+        selected={member.eyeColor}
+        onSelect={(value) => onChange({ eyeColor: value })}
+      />
+
+      <div className="flex items-center gap-4 px-4">
+        <label className="flex items-center gap-2 px-4 py-2 rounded-2xl border-4 border-dashed border-brand-primary/20 cursor-pointer hover:border-brand-primary transition-colors text-sm font-semibold text-brand-primary uppercase">
+          <span>📸</span> {t('kidWizard.uploadPhoto')}
+          <input type="file" accept="image/*" className="hidden" onChange={handlePhotoInputChange} />
+        </label>
+        {member.photoUrl ? (
+          <div className="relative w-16 h-16 rounded-2xl overflow-hidden border-4 border-brand-accent">
+            <img src={member.photoUrl} alt={t('kidWizard.photoPreviewAlt')} className="w-full h-full object-cover" />
+            <button
+              type="button"
+              aria-label={t('kidWizard.cast.removePhoto')}
+              onClick={onPhotoRemove}
+              className="absolute top-0 end-0 bg-red-400 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs hover:bg-red-500"
+            >
+              ×
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function CastStepSection({
+  profile,
+  onUpdateProfileField,
+  onAddCastMember,
+  onRemoveCastMember,
+  onCastPhotoSelect,
+  onCastPhotoRemove,
+}: CastStepSectionProps): JSX.Element {
+  const { t } = useTranslation();
+  const cast = profile.cast ?? [];
+  const canAddMember = cast.length < MAX_CAST_MEMBERS;
+
+  const updateMember = (memberId: string, changes: Partial<Omit<CastMember, 'id'>>) => {
+    onUpdateProfileField('cast', cast.map((member) => (member.id === memberId ? { ...member, ...changes } : member)));
+  };
+
+  return (
+    <div className="animate-in fade-in duration-500 flex-1 overflow-y-auto">
+      <Heading className="mb-2 text-brand-dark">{t('kidWizard.cast.title')}</Heading>
+      <p className="mb-8 text-sm font-semibold text-brand-muted">
+        {t('kidWizard.cast.description', { max: MAX_CAST_MEMBERS })}
+      </p>
+
+      {cast.map((member) => (
+        <CastMemberCard
+          key={member.id}
+          member={member}
+          onChange={(changes) => updateMember(member.id, changes)}
+          onRemove={() => onRemoveCastMember(member.id)}
+          onPhotoSelect={(file) => onCastPhotoSelect(member.id, file)}
+          onPhotoRemove={() => onCastPhotoRemove(member.id)}
+        />
+      ))}
+
+      <div className="grid grid-cols-3 gap-4">
+        {CAST_ROLES.map((role) => (
+          <button
+            key={role}
+            type="button"
+            disabled={!canAddMember}
+            onClick={() => onAddCastMember(role)}
+            className="p-4 rounded-3xl border-4 border-dashed border-brand-primary/20 text-sm font-semibold text-brand-primary hover:border-brand-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            + {t(`kidWizard.cast.add.${role}` as const)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function ArchetypeStepSection({
   profile,
   onUpdateProfileField,
@@ -441,6 +629,41 @@ function StyleStepSection({
         </div>
       </div>
 
+      <div className="mb-12 border-t border-brand-light pt-10">
+        <Label className="block mb-6 text-brand-primary text-sm">{t('kidWizard.storyLength')}</Label>
+        <div className="grid grid-cols-4 gap-4">
+          {STORY_LENGTHS.map((length) => (
+            <button
+              key={length}
+              type="button"
+              onClick={() => onUpdateProfileField('storyLength', length)}
+              className={getSelectionCardClassName(profile.storyLength === length, 'text-center')}
+            >
+              <div className="font-semibold text-2xl text-brand-primary">{length}</div>
+              <div className="text-xs text-brand-muted font-semibold">{t('kidWizard.pagesUnit')}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-12 border-t border-brand-light pt-10">
+        <Label className="block mb-6 text-brand-primary text-sm">{t('kidWizard.readingLevel')}</Label>
+        <div className="grid grid-cols-3 gap-4">
+          {READING_LEVELS.map((level) => (
+            <button
+              key={level.id}
+              type="button"
+              onClick={() => onUpdateProfileField('readingLevel', level.id)}
+              className={getSelectionCardClassName(profile.readingLevel === level.id, 'text-center')}
+            >
+              <div className="text-4xl mb-2">{level.icon}</div>
+              <div className="font-semibold text-lg text-brand-primary">{t(`kidWizard.readingLevels.${level.id}.label` as const)}</div>
+              <div className="text-xs text-brand-muted font-semibold">{t(`kidWizard.readingLevels.${level.id}.description` as const)}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="border-t border-brand-light pt-10">
         <Label className="block mb-6 text-brand-primary text-sm">{t('kidWizard.favoriteColor')}</Label>
         <ColorGrid
@@ -497,12 +720,25 @@ function KidWizard({
   onPreviousStep,
   onPhotoSelect,
   onPhotoRemove,
+  onAddCastMember,
+  onRemoveCastMember,
+  onCastPhotoSelect,
+  onCastPhotoRemove,
   onSubmit,
+  savedHeroes,
+  onPickHero,
 }: KidWizardProps): JSX.Element {
   function renderCurrentStepContent(): JSX.Element | null {
     switch (step) {
       case 1:
-        return <HeroStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
+        return (
+          <HeroStepSection
+            profile={profile}
+            savedHeroes={savedHeroes}
+            onUpdateProfileField={updateProfileField}
+            onPickHero={onPickHero}
+          />
+        );
       case 2:
         return (
           <AppearanceStepSection
@@ -514,10 +750,21 @@ function KidWizard({
           />
         );
       case 3:
-        return <ArchetypeStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
+        return (
+          <CastStepSection
+            profile={profile}
+            onUpdateProfileField={updateProfileField}
+            onAddCastMember={onAddCastMember}
+            onRemoveCastMember={onRemoveCastMember}
+            onCastPhotoSelect={onCastPhotoSelect}
+            onCastPhotoRemove={onCastPhotoRemove}
+          />
+        );
       case 4:
-        return <DreamStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
+        return <ArchetypeStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
       case 5:
+        return <DreamStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
+      case 6:
         return <StyleStepSection profile={profile} onUpdateProfileField={updateProfileField} />;
       default:
         return null;
@@ -0,0 +1,145 @@
+/**
+ * "Redraw from scratch" modal for one comic panel.
+ * Lets the user rewrite the scene prompt, paints a candidate, and shows it
+ * next to the current image. Nothing is kept until the user accepts it.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import StorageImage from '@/components/StorageImage';
+import { SketchyButton } from '@/components/design-system/Primitives';
+
+interface PanelRegenerateDialogProps {
+  currentImageUrl: string;
+  initialPrompt: string;
+  onClose: () => void;
+  /** Paints a candidate image for the prompt without saving it. */
+  onGenerate: (imagePrompt: string) => Promise<string>;
+  onAccept: (imagePrompt: string, imageUrl: string) => Promise<void> | void;
+}
+
+interface ComparisonImageProps {
+  src: string;
+  label: string;
+}
+
+const BUTTON_STYLE = { borderRadius: '1rem' };
+
+function ComparisonImage({ src, label }: ComparisonImageProps): JSX.Element {
+  return (
+    <figure className="flex-1 flex flex-col gap-2">
+      <StorageImage
+        src={src}
+        alt={label}
+        className="w-full aspect-[3/4] object-cover rounded-2xl border-4 border-brand-surface"
+      />
+      <figcaption className="text-xs font-black text-brand-primary uppercase tracking-widest text-center">
+        {label}
+      </figcaption>
+    </figure>
+  );
+}
+
+function PanelRegenerateDialog({
+  currentImageUrl,
+  initialPrompt,
+  onClose,
+  onGenerate,
+  onAccept,
+}: PanelRegenerateDialogProps): JSX.Element {
+  const { t } = useTranslation();
+  const [imagePrompt, setImagePrompt] = useState(initialPrompt);
+  const [candidateImageUrl, setCandidateImageUrl] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const trimmedPrompt = imagePrompt.trim();
+
+  // The page hook owns error handling. Staying open keeps the prompt so the user can try again.
+  const handleGenerate = async () => {
+    setIsProcessing(true);
+
+    try {
+      setCandidateImageUrl(await onGenerate(trimmedPrompt));
+    } catch {
+      // Keep whatever candidate was shown before.
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!candidateImageUrl) {
+      return;
+    }
+
+    setIsProcessing(true);
+
+    try {
+      await onAccept(trimmedPrompt, candidateImageUrl);
+      onClose();
+    } catch {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-brand-dark/80 z-[100] flex items-center justify-center p-4 backdrop-blur-md">
+      <div className="bg-white rounded-[2.5rem] p-10 w-full max-w-2xl shadow-2xl border-6 border-brand-accent animate-in zoom-in duration-300">
+        <h3 className="text-3xl font-black text-brand-primary mb-2">{t('comicPanel.regenerate.title')}</h3>
+        <p className="text-base text-gray-400 mb-6 font-medium italic">{t('comicPanel.regenerate.description')}</p>
+        <textarea
+          aria-label={t('comicPanel.regenerate.promptLabel')}
+          className="w-full border-2 border-brand-surface rounded-2xl p-6 mb-6 text-base font-bold focus:border-brand-accent focus:outline-none bg-brand-surface resize-none shadow-inner"
+          rows={4}
+          value={imagePrompt}
+          onChange={(event) => setImagePrompt(event.target.value)}
+          disabled={isProcessing}
+        />
+
+        {candidateImageUrl ? (
+          <div className="flex gap-4 mb-6">
+            <ComparisonImage src={currentImageUrl} label={t('comicPanel.regenerate.current')} />
+            <ComparisonImage src={candidateImageUrl} label={t('comicPanel.regenerate.candidate')} />
+          </div>
+        ) : null}
+
+        <div className="flex gap-4">
+          <SketchyButton
+            variant="outline"
+            onClick={onClose}
+            className="flex-1 rounded-xl text-gray-400 border-gray-200"
+            disabled={isProcessing}
+            style={BUTTON_STYLE}
+          >
+            {candidateImageUrl ? t('comicPanel.regenerate.keepCurrent') : t('comicPanel.close')}
+          </SketchyButton>
+          <SketchyButton
+            variant={candidateImageUrl ? 'outline' : 'primary'}
+            onClick={() => void handleGenerate()}
+            className="flex-1 rounded-xl"
+            disabled={isProcessing || !trimmedPrompt}
+            style={BUTTON_STYLE}
+          >
+            {candidateImageUrl ? t('comicPanel.regenerate.tryAgain') : t('comicPanel.regenerate.generate')}
+          </SketchyButton>
+          {candidateImageUrl ? (
+            <SketchyButton
+              onClick={() => void handleAccept()}
+              className="flex-1 rounded-xl shadow-lg"
+              disabled={isProcessing}
+              style={BUTTON_STYLE}
+            >
+              {t('comicPanel.regenerate.useNew')}
+            </SketchyButton>
+          ) : null}
+        </div>
+
+        {isProcessing ? (
+          <div className="flex justify-center mt-6">
+            <div className="w-8 h-8 border-4 border-brand-surface border-t-brand-primary rounded-full animate-spin" />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export default PanelRegenerateDialog;
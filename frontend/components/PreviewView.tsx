@@ -20,8 +20,12 @@ import {
 interface PreviewViewProps {
   story: Story;
   onEditPanelImage: (panel: ComicPanelData, editPrompt: string) => Promise<void> | void;
+  onRegeneratePanelImage?: (panel: ComicPanelData, imagePrompt: string) => Promise<string>;
+  onAcceptPanelImage?: (panel: ComicPanelData, imagePrompt: string, imageUrl: string) => Promise<void> | void;
   onGenerate: () => Promise<void>;
   onStartOver: () => void;
+  /** Opens the whole-story rewrite dialog. */
+  onReviseStory?: () => void;
   isReadOnly?: boolean;
   ownerUserId?: number | null;
 }
@@ -48,12 +52,15 @@ interface PreviewTitlePageProps {
 interface PreviewPanelPageProps {
   panel: ComicPanelData;
   onEditImage: (editPrompt: string) => Promise<void> | void;
+  onRegenerateImage?: (imagePrompt: string) => Promise<string>;
+  onAcceptRegeneratedImage?: (imagePrompt: string, imageUrl: string) => Promise<void> | void;
 }
 
 interface PreviewGeneratePageProps {
-  middlePanelCount: number;
+  remainingPanelCount: number;
   onGenerate: () => Promise<void>;
   onStartOver: () => void;
+  onReviseStory?: () => void;
   isReadOnly: boolean;
 }
 
@@ -208,16 +215,24 @@ function PreviewTitlePage({
 function PreviewPanelPage({
   panel,
   onEditImage,
+  onRegenerateImage,
+  onAcceptRegeneratedImage,
 }: PreviewPanelPageProps): JSX.Element {
   return (
-    <ComicPanel panel={panel} onEditImage={onEditImage} />
+    <ComicPanel
+      panel={panel}
+      onEditImage={onEditImage}
+      onRegenerateImage={onRegenerateImage}
+      onAcceptRegeneratedImage={onAcceptRegeneratedImage}
+    />
   );
 }
 
 function PreviewGeneratePage({
-  middlePanelCount,
+  remainingPanelCount,
   onGenerate,
   onStartOver,
+  onReviseStory,
   isReadOnly,
 }: PreviewGeneratePageProps): JSX.Element {
   const { t } = useTranslation();
@@ -238,12 +253,21 @@ function PreviewGeneratePage({
         <>
           <Heading variant="h3" className="text-brand-primary mb-3">{t('story.preview.ctaTitle')}</Heading>
           <Text className="text-brand-dark/60 italic mb-8 text-sm">
-            {t('story.preview.ctaDescription', { count: middlePanelCount })}
+            {t('story.preview.ctaDescription', { count: remainingPanelCount })}
           </Text>
           <div className="flex flex-col gap-3 w-full max-w-[220px]">
             <SketchyButton onClick={() => void onGenerate()} className="px-6 py-3 rounded-full text-sm w-full">
               {t('story.preview.generateFull')}
             </SketchyButton>
+            {onReviseStory ? (
+              <SketchyButton
+                variant="outline"
+                onClick={onReviseStory}
+                className="px-6 py-3 rounded-full text-sm w-full"
+              >
+                {t('story.revision.open')}
+              </SketchyButton>
+            ) : null}
             <SketchyButton
               variant="outline"
               onClick={onStartOver}
@@ -261,8 +285,11 @@ function PreviewGeneratePage({
 function PreviewView({
   story,
   onEditPanelImage,
+  onRegeneratePanelImage,
+  onAcceptPanelImage,
   onGenerate,
   onStartOver,
+  onReviseStory,
   isReadOnly = false,
   ownerUserId = null,
 }: PreviewViewProps): JSX.Element | null {
@@ -270,13 +297,14 @@ function PreviewView({
   const [previewPage, setPreviewPage] = useState(0);
   const firstPanel = story.panels[0];
   const lastPanel = story.panels[story.panels.length - 1];
+  const hasSeparateEnding = story.panels.length > 1;
   const isOpeningSpread = previewPage === 0;
   const pageLabels = [
     t('story.preview.pageLabels.opening'),
     t('story.preview.pageLabels.ending'),
   ];
   const currentPageLabel = pageLabels[previewPage] || '';
-  const middlePanelCount = Math.max(0, story.panels.length - 2);
+  const remainingPanelCount = story.panels.filter((panel) => !panel.imageUrl).length;
   const backHref = ownerUserId ? `/friends/${ownerUserId}/library` : '/gallery';
   const readAloudText = getPreviewReadAloudText(story);
 
@@ -300,6 +328,17 @@ function PreviewView({
     return onEditPanelImage(lastPanel, editPrompt);
   };
 
+  const getRegenerationHandlers = (panel: ComicPanelData) => (
+    isReadOnly || !onRegeneratePanelImage || !onAcceptPanelImage
+      ? {}
+      : {
+        onRegenerateImage: (imagePrompt: string) => onRegeneratePanelImage(panel, imagePrompt),
+        onAcceptRegeneratedImage: (imagePrompt: string, imageUrl: string) => (
+          onAcceptPanelImage(panel, imagePrompt, imageUrl)
+        ),
+      }
+  );
+
   const leftPage = isOpeningSpread
     ? (
       <PreviewTitlePage
@@ -308,11 +347,14 @@ function PreviewView({
         onOpenEndingSpread={showNextPage}
       />
     )
-    : (
+    : hasSeparateEnding ? (
       <PreviewPanelPage
         panel={lastPanel}
         onEditImage={handleLastPanelEdit}
+        {...getRegenerationHandlers(lastPanel)}
       />
+    ) : (
+      <div className="h-full bg-white" />
     );
 
   const rightPage = isOpeningSpread
@@ -320,13 +362,15 @@ function PreviewView({
       <PreviewPanelPage
         panel={firstPanel}
         onEditImage={handleFirstPanelEdit}
+        {...getRegenerationHandlers(firstPanel)}
       />
     )
     : (
       <PreviewGeneratePage
-        middlePanelCount={middlePanelCount}
+        remainingPanelCount={remainingPanelCount}
         onGenerate={onGenerate}
         onStartOver={onStartOver}
+        onReviseStory={onReviseStory}
         isReadOnly={isReadOnly}
       />
     );
@@ -0,0 +1,57 @@
+/**
+ * Download buttons for a finished story: a printable PDF at the chosen paper
+ * size and, for saved stories, an EPUB for tablets.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import type { StoryExportFormat } from '@/types';
+import { getDefaultPrintPageSize, PRINT_PAGE_SIZES, type PrintPageSize } from '@/utils';
+
+interface StoryExportControlProps {
+  exportingFormat: StoryExportFormat | null;
+  onExportPdf: (pageSize: PrintPageSize) => Promise<void> | void;
+  onExportEpub?: () => Promise<void> | void;
+}
+
+function StoryExportControl({ exportingFormat, onExportPdf, onExportEpub }: StoryExportControlProps): JSX.Element {
+  const { t } = useTranslation();
+  const [pageSize, setPageSize] = useState<PrintPageSize>(() => getDefaultPrintPageSize(navigator.language));
+  const isExporting = exportingFormat !== null;
+
+  return (
+    <div className="flex items-center gap-1 bg-white/90 backdrop-blur-sm rounded-full shadow-soft border-2 border-brand-primary/10 ps-3">
+      <select
+        aria-label={t('story.print.pageSizeLabel')}
+        value={pageSize}
+        onChange={(event) => setPageSize(event.target.value as PrintPageSize)}
+        disabled={isExporting}
+        className="bg-transparent text-xs font-bold text-brand-primary focus:outline-none"
+      >
+        {PRINT_PAGE_SIZES.map((size) => (
+          <option key={size} value={size}>{t(`story.print.pageSizes.${size}` as const)}</option>
+        ))}
+      </select>
+      <SketchyButton
+        variant="outline"
+        onClick={() => void onExportPdf(pageSize)}
+        disabled={isExporting}
+        className="px-4 py-2 text-sm rounded-full"
+      >
+        {exportingFormat === 'pdf' ? t('story.print.exporting') : t('story.print.export')}
+      </SketchyButton>
+      {onExportEpub ? (
+        <SketchyButton
+          variant="outline"
+          onClick={() => void onExportEpub()}
+          disabled={isExporting}
+          className="px-4 py-2 text-sm rounded-full"
+        >
+          {exportingFormat === 'epub' ? t('story.epub.exporting') : t('story.epub.export')}
+        </SketchyButton>
+      ) : null}
+    </div>
+  );
+}
+
+export default StoryExportControl;
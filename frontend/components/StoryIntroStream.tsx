@@ -1,4 +1,5 @@
 import { useTranslation } from 'react-i18next';
+import { SketchyButton } from '@/components/design-system/Primitives';
 import { Heading, Label, Text } from '@/components/design-system/Typography';
 
 interface StoryIntroStreamProps {
@@ -10,13 +11,22 @@ interface StoryIntroStreamProps {
   isStreaming: boolean;
   /** Whether the preview assets are being prepared after the stream ends. */
   isPreparingPreview: boolean;
+  /** Generation calls queued behind the shared concurrency cap. */
+  waitingForSlotCount?: number;
+  /** Stops the stream and any preview images; hidden once the draft is saved. */
+  onCancel?: () => void;
 }
 
 function getStreamStatusLabel(
   isStreaming: boolean,
   isPreparingPreview: boolean,
+  isWaitingForSlot: boolean,
   t: (key: string) => string,
 ): string {
+  if (isWaitingForSlot) {
+    return t('story.introStream.status.waitingForSlot');
+  }
+
   if (isStreaming) {
     return t('story.introStream.status.drafting');
   }
@@ -42,13 +52,15 @@ function StoryIntroStream({
   foreword,
   isStreaming,
   isPreparingPreview,
+  waitingForSlotCount = 0,
+  onCancel,
 }: StoryIntroStreamProps): JSX.Element {
   const { t } = useTranslation();
   const hasTitle = title.length > 0;
   const hasForeword = foreword.length > 0;
   const titleCaret = isStreaming && !hasForeword;
   const forewordCaret = isStreaming && hasForeword;
-  const statusLabel = getStreamStatusLabel(isStreaming, isPreparingPreview, t);
+  const statusLabel = getStreamStatusLabel(isStreaming, isPreparingPreview, waitingForSlotCount > 0, t);
 
   return (
     <div className="flex-1 flex items-center justify-center py-16 animate-in fade-in duration-500">
@@ -93,6 +105,18 @@ function StoryIntroStream({
               ))}
             </div>
           )}
+
+          {isStreaming && onCancel && (
+            <div className="mt-10 flex justify-center">
+              <SketchyButton
+                variant="outline"
+                onClick={onCancel}
+                className="px-6 py-2 rounded-full text-sm"
+              >
+                {t('story.introStream.cancel')}
+              </SketchyButton>
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,220 @@
+/**
+ * Owner-only page editor for a finished storyboard.
+ * Renders the draft panel list and emits caption, order, insert, and delete
+ * intents; the page owns the draft and decides when it is saved.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import StorageImage from '@/components/StorageImage';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import { Heading, Label, Text } from '@/components/design-system/Typography';
+import type { ComicPanelData } from '@/types';
+
+interface StoryPanelEditorProps {
+  panels: ComicPanelData[];
+  isDirty: boolean;
+  isSaving: boolean;
+  onCaptionChange: (index: number, text: string) => void;
+  onMovePanel: (fromIndex: number, toIndex: number) => void;
+  onInsertPanelAfter: (index: number) => void;
+  onRemovePanel: (index: number) => void;
+  onSave: () => Promise<void> | void;
+  onDiscard: () => void;
+}
+
+interface PanelEditorCardProps {
+  panel: ComicPanelData;
+  index: number;
+  panelCount: number;
+  isDropTarget: boolean;
+  isSaving: boolean;
+  onCaptionChange: (text: string) => void;
+  onMove: (toIndex: number) => void;
+  onInsertAfter: () => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+const SMALL_BUTTON_CLASS = 'px-3 py-1 text-xs rounded-full';
+
+function PanelEditorCard({
+  panel,
+  index,
+  panelCount,
+  isDropTarget,
+  isSaving,
+  onCaptionChange,
+  onMove,
+  onInsertAfter,
+  onRemove,
+  onDragStart,
+  onDragEnter,
+  onDrop,
+  onDragEnd,
+}: PanelEditorCardProps): JSX.Element {
+  const { t } = useTranslation();
+  const dropTargetClass = isDropTarget ? 'border-brand-primary' : 'border-brand-secondary/20';
+
+  return (
+    <li
+      draggable={!isSaving}
+      onDragStart={onDragStart}
+      onDragEnter={onDragEnter}
+      onDragOver={(event) => event.preventDefault()}
+      onDrop={(event) => {
+        event.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={`flex gap-4 items-start bg-white rounded-3xl border-4 ${dropTargetClass} p-4 shadow-soft transition-colors`}
+    >
+      <div className="flex flex-col items-center gap-2 pt-2">
+        <span aria-hidden="true" className="cursor-grab text-brand-muted text-xl select-none">⠿</span>
+        <Label className="text-brand-primary">{index + 1}</Label>
+      </div>
+
+      <div className="w-28 h-20 shrink-0 rounded-xl overflow-hidden bg-brand-surface flex items-center justify-center">
+        {panel.imageUrl ? (
+          <StorageImage src={panel.imageUrl} alt={t('comicPanel.sceneAlt')} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-[10px] font-black text-brand-muted uppercase tracking-widest text-center px-2">
+            {t('story.panelEditor.noImage')}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 flex flex-col gap-3">
+        <textarea
+          aria-label={t('story.panelEditor.captionLabel', { number: index + 1 })}
+          className="w-full border-2 border-brand-surface rounded-2xl p-3 text-base font-serif italic focus:border-brand-accent focus:outline-none bg-brand-surface resize-none"
+          rows={2}
+          value={panel.text}
+          placeholder={t('story.panelEditor.captionPlaceholder')}
+          onChange={(event) => onCaptionChange(event.target.value)}
+          disabled={isSaving}
+        />
+        <div className="flex flex-wrap gap-2">
+          <SketchyButton
+            variant="outline"
+            className={SMALL_BUTTON_CLASS}
+            onClick={() => onMove(index - 1)}
+            disabled={isSaving || index === 0}
+          >
+            {t('story.panelEditor.moveUp')}
+          </SketchyButton>
+          <SketchyButton
+            variant="outline"
+            className={SMALL_BUTTON_CLASS}
+            onClick={() => onMove(index + 1)}
+            disabled={isSaving || index === panelCount - 1}
+          >
+            {t('story.panelEditor.moveDown')}
+          </SketchyButton>
+          <SketchyButton
+            variant="outline"
+            className={SMALL_BUTTON_CLASS}
+            onClick={onInsertAfter}
+            disabled={isSaving}
+          >
+            {t('story.panelEditor.insertAfter')}
+          </SketchyButton>
+          <SketchyButton
+            variant="outline"
+            className={SMALL_BUTTON_CLASS}
+            onClick={onRemove}
+            disabled={isSaving || panelCount <= 1}
+          >
+            {t('story.panelEditor.remove')}
+          </SketchyButton>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+function StoryPanelEditor({
+  panels,
+  isDirty,
+  isSaving,
+  onCaptionChange,
+  onMovePanel,
+  onInsertPanelAfter,
+  onRemovePanel,
+  onSave,
+  onDiscard,
+}: StoryPanelEditorProps): JSX.Element {
+  const { t } = useTranslation();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const hasEmptyCaption = panels.some((panel) => panel.text.trim().length === 0);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="flex-1 w-full max-w-3xl mx-auto py-10 animate-in fade-in duration-500">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div>
+          <Heading variant="h3" className="text-brand-primary">{t('story.panelEditor.title')}</Heading>
+          <Text className="text-brand-muted italic text-sm">{t('story.panelEditor.description')}</Text>
+        </div>
+        <div className="flex gap-3">
+          <SketchyButton
+            variant="outline"
+            onClick={onDiscard}
+            disabled={isSaving}
+            className="px-6 py-2 rounded-full text-sm"
+          >
+            {t('story.panelEditor.discard')}
+          </SketchyButton>
+          <SketchyButton
+            onClick={() => void onSave()}
+            disabled={isSaving || !isDirty || hasEmptyCaption}
+            className="px-6 py-2 rounded-full text-sm"
+          >
+            {isSaving ? t('story.panelEditor.saving') : t('story.panelEditor.save')}
+          </SketchyButton>
+        </div>
+      </div>
+
+      {hasEmptyCaption ? (
+        <div role="alert" className="mb-4 text-sm font-semibold text-red-500">
+          {t('story.panelEditor.emptyCaption')}
+        </div>
+      ) : null}
+
+      <ol className="flex flex-col gap-4">
+        {panels.map((panel, index) => (
+          <PanelEditorCard
+            key={panel.id}
+            panel={panel}
+            index={index}
+            panelCount={panels.length}
+            isDropTarget={dragIndex !== null && dropIndex === index && dragIndex !== index}
+            isSaving={isSaving}
+            onCaptionChange={(text) => onCaptionChange(index, text)}
+            onMove={(toIndex) => onMovePanel(index, toIndex)}
+            onInsertAfter={() => onInsertPanelAfter(index)}
+            onRemove={() => onRemovePanel(index)}
+            onDragStart={() => setDragIndex(index)}
+            onDragEnter={() => setDropIndex(index)}
+            onDrop={() => {
+              if (dragIndex !== null) {
+                onMovePanel(dragIndex, index);
+              }
+              resetDrag();
+            }}
+            onDragEnd={resetDrag}
+          />
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+export default StoryPanelEditor;
@@ -0,0 +1,80 @@
+/**
+ * Banner shown above the wizard while it remixes a saved story.
+ * The wizard picks the hero and art style; the banner adds the story
+ * language and whether the original pictures come along.
+ */
+import { useTranslation } from 'react-i18next';
+import { Heading } from '@/components/design-system/Typography';
+import { supportedLanguages } from '@/i18n.languages';
+
+interface StoryRemixBannerProps {
+  title: string;
+  language: string;
+  keepImages: boolean;
+  onLanguageChange: (language: string) => void;
+  onKeepImagesChange: (keepImages: boolean) => void;
+  onCancel: () => void;
+}
+
+function StoryRemixBanner({
+  title,
+  language,
+  keepImages,
+  onLanguageChange,
+  onKeepImagesChange,
+  onCancel,
+}: StoryRemixBannerProps): JSX.Element {
+  const { t } = useTranslation();
+
+  return (
+    <div
+      role="status"
+      className="max-w-3xl mx-auto mb-8 rounded-3xl border-2 border-brand-accent bg-white px-6 py-4 shadow-soft"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Heading variant="h4" className="text-brand-primary">
+            {t('story.remix.title', { title: title || t('galleryPage.untitledMasterpiece') })}
+          </Heading>
+          <p className="mt-1 text-sm font-medium text-brand-muted">{t('story.remix.description')}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-bold text-brand-muted hover:text-brand-primary transition-colors"
+        >
+          {t('story.remix.cancel')}
+        </button>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-x-8 gap-y-3 text-sm font-semibold text-brand-dark">
+        <label className="flex items-center gap-2">
+          {t('story.remix.language')}
+          <select
+            value={language}
+            onChange={(event) => onLanguageChange(event.target.value)}
+            className="rounded-full border-2 border-brand-primary/20 bg-white px-3 py-1"
+          >
+            {supportedLanguages.map((option) => (
+              <option key={option.code} value={option.code}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={keepImages}
+            onChange={(event) => onKeepImagesChange(event.target.checked)}
+            className="h-4 w-4 accent-purple-600"
+          />
+          {t('story.remix.keepImages')}
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-brand-muted">
+        {keepImages ? t('story.remix.keepImagesHint') : t('story.remix.repaintHint')}
+      </p>
+    </div>
+  );
+}
+
+export default StoryRemixBanner;
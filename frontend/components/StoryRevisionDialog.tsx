@@ -0,0 +1,185 @@
+/**
+ * Whole-story rewrite dialog for the preview.
+ * Collects the parent's instruction, shows the title and foreword as they
+ * stream back, then a caption-by-caption diff to accept or throw away.
+ */
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import { Heading, Label, Text } from '@/components/design-system/Typography';
+import { diffCaptions, diffWords, type TextDiffSegment } from '@/utils';
+
+type StoryRevisionStatus = 'editing' | 'streaming' | 'review' | 'applying';
+
+interface StoryRevisionText {
+  title: string;
+  foreword: string;
+  captions: string[];
+}
+
+interface StoryRevisionDialogProps {
+  status: StoryRevisionStatus;
+  initialInstruction: string;
+  streamedTitle: string;
+  streamedForeword: string;
+  current: StoryRevisionText;
+  /** The finished rewrite; null until streaming completes. */
+  proposal: StoryRevisionText | null;
+  onSubmit: (instruction: string) => Promise<void> | void;
+  onAccept: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+const SUGGESTION_KEYS = ['shorter', 'addPet', 'happierEnding'] as const;
+
+const SEGMENT_CLASS: Record<TextDiffSegment['kind'], string> = {
+  same: '',
+  added: 'bg-green-100 text-green-800 rounded px-0.5',
+  removed: 'bg-red-100 text-red-700 line-through rounded px-0.5',
+};
+
+function DiffText({ segments }: { segments: TextDiffSegment[] }): JSX.Element {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASS[segment.kind]}>{segment.text}</span>
+      ))}
+    </>
+  );
+}
+
+function StoryRevisionReview({ current, proposal }: { current: StoryRevisionText; proposal: StoryRevisionText }): JSX.Element {
+  const { t } = useTranslation();
+  const captionDiffs = diffCaptions(current.captions, proposal.captions);
+  const changedCount = captionDiffs.filter((diff) => diff.change !== 'unchanged').length;
+
+  return (
+    <div className="flex flex-col gap-4 max-h-[50vh] overflow-y-auto pe-2">
+      <div>
+        <Label className="text-brand-primary">{t('story.revision.titleLabel')}</Label>
+        <p className="font-black text-lg text-brand-dark">
+          <DiffText segments={diffWords(current.title, proposal.title)} />
+        </p>
+      </div>
+      <div>
+        <Label className="text-brand-primary">{t('story.revision.forewordLabel')}</Label>
+        <p className="italic text-brand-dark/80">
+          <DiffText segments={diffWords(current.foreword, proposal.foreword)} />
+        </p>
+      </div>
+      <div>
+        <Label className="text-brand-primary">
+          {t('story.revision.changedPanels', { count: changedCount })}
+        </Label>
+        <ol className="flex flex-col gap-2 mt-2">
+          {captionDiffs.map((diff) => (
+            <li
+              key={diff.panelNumber}
+              className={`flex gap-3 text-sm ${diff.change === 'unchanged' ? 'text-brand-muted' : 'text-brand-dark'}`}
+            >
+              <span className="font-black shrink-0 w-6 text-end">{diff.panelNumber}</span>
+              <span className="font-serif">
+                <DiffText segments={diff.segments} />
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+function StoryRevisionDialog({
+  status,
+  initialInstruction,
+  streamedTitle,
+  streamedForeword,
+  current,
+  proposal,
+  onSubmit,
+  onAccept,
+  onClose,
+}: StoryRevisionDialogProps): JSX.Element {
+  const { t } = useTranslation();
+  const [instruction, setInstruction] = useState(initialInstruction);
+  const trimmedInstruction = instruction.trim();
+  const isBusy = status === 'streaming' || status === 'applying';
+
+  return (
+    <div className="fixed inset-0 bg-brand-dark/80 z-[100] flex items-center justify-center p-4 backdrop-blur-md">
+      <div className="bg-white rounded-[2.5rem] p-10 w-full max-w-2xl shadow-2xl border-6 border-brand-accent animate-in zoom-in duration-300 flex flex-col gap-6">
+        <div>
+          <Heading variant="h3" className="text-brand-primary">{t('story.revision.title')}</Heading>
+          <Text className="text-brand-muted italic text-sm">{t('story.revision.description')}</Text>
+        </div>
+
+        {status === 'editing' ? (
+          <>
+            <textarea
+              aria-label={t('story.revision.instructionLabel')}
+              className="w-full border-2 border-brand-surface rounded-2xl p-5 text-base font-bold focus:border-brand-accent focus:outline-none bg-brand-surface resize-none shadow-inner"
+              rows={3}
+              placeholder={t('story.revision.placeholder')}
+              value={instruction}
+              onChange={(event) => setInstruction(event.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTION_KEYS.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setInstruction(t(`story.revision.suggestions.${key}`))}
+                  className="px-3 py-1 text-xs font-bold rounded-full border-2 border-brand-secondary/30 text-brand-primary hover:border-brand-primary transition-colors"
+                >
+                  {t(`story.revision.suggestions.${key}`)}
+                </button>
+              ))}
+            </div>
+          </>
+        ) : null}
+
+        {status === 'streaming' ? (
+          <div className="flex flex-col gap-2" aria-live="polite">
+            <Label className="text-brand-primary animate-pulse">{t('story.revision.rewriting')}</Label>
+            <p className="font-black text-lg text-brand-dark min-h-[1.75rem]">{streamedTitle}</p>
+            <p className="italic text-brand-dark/80 min-h-[3rem]">{streamedForeword}</p>
+          </div>
+        ) : null}
+
+        {(status === 'review' || status === 'applying') && proposal ? (
+          <StoryRevisionReview current={current} proposal={proposal} />
+        ) : null}
+
+        <div className="flex gap-4">
+          <SketchyButton
+            variant="outline"
+            onClick={onClose}
+            disabled={status === 'applying'}
+            className="flex-1 rounded-full text-sm"
+          >
+            {status === 'streaming' ? t('story.revision.cancel') : t('story.revision.discard')}
+          </SketchyButton>
+          {status === 'editing' ? (
+            <SketchyButton
+              onClick={() => void onSubmit(trimmedInstruction)}
+              disabled={!trimmedInstruction}
+              className="flex-1 rounded-full text-sm"
+            >
+              {t('story.revision.submit')}
+            </SketchyButton>
+          ) : (
+            <SketchyButton
+              onClick={() => void onAccept()}
+              disabled={isBusy || !proposal}
+              className="flex-1 rounded-full text-sm"
+            >
+              {status === 'applying' ? t('story.revision.applying') : t('story.revision.accept')}
+            </SketchyButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StoryRevisionDialog;
@@ -1,17 +1,24 @@
 /**
- * Finished storybook UI.
- * Keeps only local reading state and forwards edit requests to the page layer.
+ * Storybook UI, shown while panels are still painting and once they are done.
+ * Keeps only local reading state and forwards edit, retry, and cancel requests to the page layer.
  */
 import { useState, type ReactNode } from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import ComicPanel from '@/components/ComicPanel';
+import ImageRevisionDialog from '@/components/ImageRevisionDialog';
 import StorageImage from '@/components/StorageImage';
+import StoryExportControl from '@/components/StoryExportControl';
 import StoryReadAloudControl from '@/components/StoryReadAloudControl';
 import { SketchyButton } from '@/components/design-system/Primitives';
 import { Heading, Label, Text } from '@/components/design-system/Typography';
-import type { ComicPanelData, KidProfile, Story } from '@/types';
-import { getStoryReadAloudText } from '@/utils';
+import type { ComicPanelData, ImageVersion, KidProfile, Story, StoryExportFormat, StorySeries } from '@/types';
+import {
+  getSpreadPanelIndexes,
+  getStoryboardPageCount,
+  getStoryReadAloudText,
+  type PrintPageSize,
+} from '@/utils';
 import {
   getDirectionalArrow,
   getLanguageDirection,
@@ -21,9 +28,55 @@ import {
 interface StoryboardViewProps {
   story: Story;
   profile: KidProfile | null;
-  onEditPanelImage: (panel: ComicPanelData, editPrompt: string) => Promise<void> | void;
+  onEditPanelImage?: (panel: ComicPanelData, editPrompt: string) => Promise<void> | void;
+  onRegeneratePanelImage?: (panel: ComicPanelData, imagePrompt: string) => Promise<string>;
+  onAcceptPanelImage?: (panel: ComicPanelData, imagePrompt: string, imageUrl: string) => Promise<void> | void;
+  /** Image history of saved panels; omitted for drafts that have none yet. */
+  onLoadPanelHistory?: (panel: ComicPanelData) => Promise<ImageVersion[]>;
+  onRestorePanelVersion?: (panel: ComicPanelData, versionId: number) => Promise<void> | void;
+  onEditCoverImage?: (editPrompt: string) => Promise<void> | void;
+  onLoadCoverHistory?: () => Promise<ImageVersion[]>;
+  onRestoreCoverVersion?: (versionId: number) => Promise<void> | void;
   isReadOnly?: boolean;
   ownerUserId?: number | null;
+  /** False for visitors of a public link, who have no library to go back to. */
+  showLibraryLinks?: boolean;
+  generation?: StoryboardGenerationProgress | null;
+  waitingForSlotCount?: number;
+  onRetryFailedPanels?: () => Promise<void> | void;
+  onCancelGeneration?: () => void;
+  /** Opens the owner's page editor; omitted while panels are still painting. */
+  onEditPages?: () => void;
+  /** Downloads a print-ready PDF; omitted while panels are still painting. */
+  onExportPdf?: (pageSize: PrintPageSize) => Promise<void> | void;
+  /** Downloads an EPUB; only saved stories have one. */
+  onExportEpub?: () => Promise<void> | void;
+  exportingFormat?: StoryExportFormat | null;
+  /** Starts the next episode of this story; omitted when it cannot be continued here. */
+  onContinueStory?: () => void;
+  /** Copies the story into a new draft for another hero, art style or language. */
+  onRemixStory?: () => void;
+}
+
+interface StoryboardGenerationProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  isRunning: boolean;
+}
+
+interface StoryboardGenerationBannerProps {
+  generation: StoryboardGenerationProgress;
+  waitingForSlotCount: number;
+  onRetryFailedPanels?: () => Promise<void> | void;
+  onCancelGeneration?: () => void;
+}
+
+interface StoryboardEpisodeNavProps {
+  series: StorySeries;
+  /** Path of the library the episodes are read from, without the story id. */
+  storyPathPrefix: string;
+  languageDirection: LanguageDirection;
 }
 
 interface StoryboardNavButtonProps {
@@ -75,16 +128,6 @@ function getPageLabel(
   return t('story.storyboard.pageLabel.spread', { number: currentPage });
 }
 
-function getSpreadPanelIndexes(currentPage: number): {
-  leftPanelIndex: number;
-  rightPanelIndex: number;
-} {
-  return {
-    leftPanelIndex: (currentPage - 1) * 2 - 1,
-    rightPanelIndex: (currentPage - 1) * 2,
-  };
-}
-
 function getBookFrameClassName(isCoverPage: boolean): string {
   const pageWidthClass = isCoverPage ? 'w-[350px] md:w-[450px]' : 'w-full max-w-[900px]';
   const pageAspectClass = isCoverPage ? 'aspect-[3/4]' : 'aspect-[3/2]';
@@ -124,6 +167,38 @@ function StoryboardNavButton({
   );
 }
 
+function StoryboardEpisodeNav({
+  series,
+  storyPathPrefix,
+  languageDirection,
+}: StoryboardEpisodeNavProps): JSX.Element {
+  const { t } = useTranslation();
+  const linkClassName = 'px-3 py-1 rounded-full font-bold text-brand-muted hover:text-brand-primary hover:bg-brand-light transition-colors';
+
+  return (
+    <nav
+      aria-label={t('story.storyboard.series.label')}
+      className="absolute top-4 inset-x-0 z-20 flex justify-center pointer-events-none"
+    >
+      <div className="pointer-events-auto flex items-center gap-1 bg-white/90 backdrop-blur-sm py-1.5 px-2 rounded-full shadow-soft border-2 border-brand-primary/10 text-sm">
+        {series.previousStoryId ? (
+          <Link to={`${storyPathPrefix}/${series.previousStoryId}`} className={linkClassName}>
+            {getDirectionalArrow('back', languageDirection)} {t('story.storyboard.series.previous')}
+          </Link>
+        ) : null}
+        <span className="px-3 text-xs font-bold uppercase tracking-widest text-brand-primary">
+          {t('story.storyboard.series.episode', { number: series.episodeNumber })}
+        </span>
+        {series.nextStoryId ? (
+          <Link to={`${storyPathPrefix}/${series.nextStoryId}`} className={linkClassName}>
+            {t('story.storyboard.series.next')} {getDirectionalArrow('forward', languageDirection)}
+          </Link>
+        ) : null}
+      </div>
+    </nav>
+  );
+}
+
 function StoryboardSpreadLayout({
   leftPage,
   rightPage,
@@ -170,16 +245,83 @@ function StoryboardProgress({
   );
 }
 
+function StoryboardGenerationBanner({
+  generation,
+  waitingForSlotCount,
+  onRetryFailedPanels,
+  onCancelGeneration,
+}: StoryboardGenerationBannerProps): JSX.Element {
+  const { t } = useTranslation();
+  const canRetry = !generation.isRunning && generation.failed > 0 && Boolean(onRetryFailedPanels);
+
+  return (
+    <div
+      role="status"
+      className="absolute top-20 inset-x-0 z-40 flex justify-center pointer-events-none"
+    >
+      <div className="pointer-events-auto bg-white/95 backdrop-blur-md py-2 px-5 rounded-full shadow-soft border-2 border-brand-primary/10 flex items-center gap-4">
+        <Label className="text-brand-primary uppercase tracking-widest">
+          {generation.isRunning
+            ? t('story.generation.progress', { completed: generation.completed, total: generation.total })
+            : t('story.generation.failed', { count: generation.failed })}
+        </Label>
+        {generation.isRunning && waitingForSlotCount > 0 ? (
+          <span className="text-xs font-bold text-brand-muted">
+            {t('story.generation.waitingForSlot', { count: waitingForSlotCount })}
+          </span>
+        ) : null}
+        {canRetry ? (
+          <SketchyButton
+            onClick={() => void onRetryFailedPanels?.()}
+            className="px-4 py-1 text-xs rounded-full"
+          >
+            {t('story.generation.retry')}
+          </SketchyButton>
+        ) : null}
+        {generation.isRunning && onCancelGeneration ? (
+          <SketchyButton
+            variant="outline"
+            onClick={onCancelGeneration}
+            className="px-4 py-1 text-xs rounded-full"
+          >
+            {t('story.generation.cancel')}
+          </SketchyButton>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
 function StoryboardView({
   story,
   profile,
   onEditPanelImage,
+  onRegeneratePanelImage,
+  onAcceptPanelImage,
+  onLoadPanelHistory,
+  onRestorePanelVersion,
+  onEditCoverImage,
+  onLoadCoverHistory,
+  onRestoreCoverVersion,
   isReadOnly = false,
   ownerUserId = null,
+  showLibraryLinks = true,
+  generation = null,
+  waitingForSlotCount = 0,
+  onRetryFailedPanels,
+  onCancelGeneration,
+  onEditPages,
+  onExportPdf,
+  onExportEpub,
+  exportingFormat = null,
+  onContinueStory,
+  onRemixStory,
 }: StoryboardViewProps): JSX.Element {
   const { i18n, t } = useTranslation();
   const [currentPage, setCurrentPage] = useState(0);
+  const [isEditingCover, setIsEditingCover] = useState(false);
   const backHref = ownerUserId ? `/friends/${ownerUserId}/library` : '/gallery';
+  const storyPathPrefix = ownerUserId ? `/friends/${ownerUserId}/library` : '/book';
   const languageDirection = getLanguageDirection(i18n.resolvedLanguage || i18n.language);
   const previousArrow = getDirectionalArrow('back', languageDirection);
   const frontCoverShadowClass = languageDirection === 'rtl'
@@ -189,23 +331,40 @@ function StoryboardView({
     ? 'shadow-[20px_20px_60px_rgba(0,0,0,0.3)]'
     : 'shadow-[-20px_20px_60px_rgba(0,0,0,0.3)]';
 
-  const displayedPanelCount = story.panels.length || 10;
-  const spreadsNeeded = Math.ceil((displayedPanelCount + 2) / 2);
-  const totalStates = 2 + spreadsNeeded;
+  const totalStates = getStoryboardPageCount(story.panels.length);
   const isFrontCover = currentPage === 0;
   const isBackCover = currentPage === totalStates - 1;
   const isIntroductionSpread = currentPage === 1;
   const isFinalSpread = currentPage === totalStates - 2;
   const isCoverPage = isFrontCover || isBackCover;
-  const { leftPanelIndex, rightPanelIndex } = getSpreadPanelIndexes(currentPage);
-  const leftPanel = story.panels[leftPanelIndex]!;
-  const rightPanel = story.panels[rightPanelIndex]!;
+  const { leftPanelIndex, rightPanelIndex } = getSpreadPanelIndexes(currentPage, story.panels.length);
+  const leftPanel = leftPanelIndex === null ? undefined : story.panels[leftPanelIndex];
+  const rightPanel = rightPanelIndex === null ? undefined : story.panels[rightPanelIndex];
   const readAloudText = getStoryReadAloudText(story);
 
   const navigate = (direction: number) => {
     setCurrentPage((previousPage) => Math.max(0, Math.min(totalStates - 1, previousPage + direction)));
   };
 
+  const canEditCover = !isReadOnly && Boolean(onEditCoverImage && story.coverImageUrl) && !generation?.isRunning;
+
+  const renderPanel = (panel: ComicPanelData) => (
+    <ComicPanel
+      panel={panel}
+      onEditImage={isReadOnly || !onEditPanelImage ? undefined : (editPrompt) => onEditPanelImage(panel, editPrompt)}
+      onLoadHistory={isReadOnly || !onLoadPanelHistory ? undefined : () => onLoadPanelHistory(panel)}
+      onRestoreVersion={isReadOnly || !onRestorePanelVersion
+        ? undefined
+        : (versionId) => onRestorePanelVersion(panel, versionId)}
+      onRegenerateImage={isReadOnly || !onRegeneratePanelImage
+        ? undefined
+        : (imagePrompt) => onRegeneratePanelImage(panel, imagePrompt)}
+      onAcceptRegeneratedImage={isReadOnly || !onAcceptPanelImage
+        ? undefined
+        : (imagePrompt, imageUrl) => onAcceptPanelImage(panel, imagePrompt, imageUrl)}
+    />
+  );
+
   const pageLabel = getPageLabel(currentPage, totalStates, t);
   const bookFrameClassName = getBookFrameClassName(isCoverPage);
 
@@ -219,11 +378,10 @@ function StoryboardView({
         {t('story.storyboard.originalLabel')}
       </Label>
     </div>
+  ) : leftPanel ? (
+    renderPanel(leftPanel)
   ) : (
-    <ComicPanel
-      panel={leftPanel}
-      onEditImage={isReadOnly ? undefined : (editPrompt) => onEditPanelImage(leftPanel, editPrompt)}
-    />
+    <div className="h-full bg-white" />
   );
 
   const rightSpreadPage = isFinalSpread ? (
@@ -239,23 +397,49 @@ function StoryboardView({
         {t('story.storyboard.closeBook')}
       </SketchyButton>
     </div>
+  ) : rightPanel ? (
+    renderPanel(rightPanel)
   ) : (
-    <ComicPanel
-      panel={rightPanel}
-      onEditImage={isReadOnly ? undefined : (editPrompt) => onEditPanelImage(rightPanel, editPrompt)}
-    />
+    <div className="h-full bg-white" />
   );
 
   return (
     <div className="flex-1 flex flex-col animate-in fade-in duration-700 h-[calc(100vh-140px)] relative">
-      <div className="absolute top-4 start-4 z-30">
-        <Link to={backHref} className="text-sm font-bold text-brand-muted hover:text-brand-primary flex items-center gap-2 transition-colors bg-white/80 backdrop-blur-sm py-3 px-6 rounded-full shadow-soft border-2 border-brand-primary/10">
-          <span>{previousArrow}</span> {t('story.storyboard.backToLibrary')}
-        </Link>
-      </div>
+      {showLibraryLinks ? (
+        <div className="absolute top-4 start-4 z-30">
+          <Link to={backHref} className="text-sm font-bold text-brand-muted hover:text-brand-primary flex items-center gap-2 transition-colors bg-white/80 backdrop-blur-sm py-3 px-6 rounded-full shadow-soft border-2 border-brand-primary/10">
+            <span>{previousArrow}</span> {t('story.storyboard.backToLibrary')}
+          </Link>
+        </div>
+      ) : null}
 
       <div className="absolute top-4 end-4 z-30 flex items-center gap-3">
         <StoryReadAloudControl text={readAloudText} />
+        {onExportPdf ? (
+          <StoryExportControl
+            exportingFormat={exportingFormat}
+            onExportPdf={onExportPdf}
+            onExportEpub={onExportEpub}
+          />
+        ) : null}
+        {!isReadOnly && onEditPages ? (
+          <SketchyButton
+            variant="outline"
+            onClick={onEditPages}
+            className="px-4 py-2 text-sm rounded-full"
+          >
+            {t('story.panelEditor.open')}
+          </SketchyButton>
+        ) : null}
+        {!isReadOnly && onRemixStory ? (
+          <SketchyButton
+            variant="outline"
+            onClick={onRemixStory}
+            className="px-4 py-2 text-sm rounded-full"
+          >
+            {t('story.remix.open')}
+          </SketchyButton>
+        ) : null}
         {isReadOnly ? (
           <div className="bg-white/90 backdrop-blur-sm py-2 px-4 rounded-full shadow-soft border border-brand-secondary/20">
             <Label className="text-brand-primary uppercase tracking-widest">{t('story.preview.readOnly')}</Label>
@@ -263,6 +447,23 @@ function StoryboardView({
         ) : null}
       </div>
 
+      {showLibraryLinks && story.series ? (
+        <StoryboardEpisodeNav
+          series={story.series}
+          storyPathPrefix={storyPathPrefix}
+          languageDirection={languageDirection}
+        />
+      ) : null}
+
+      {generation ? (
+        <StoryboardGenerationBanner
+          generation={generation}
+          waitingForSlotCount={waitingForSlotCount}
+          onRetryFailedPanels={onRetryFailedPanels}
+          onCancelGeneration={onCancelGeneration}
+        />
+      ) : null}
+
       <StoryboardNavButton
         direction="previous"
         disabled={isFrontCover}
@@ -300,6 +501,16 @@ function StoryboardView({
                   <span className="text-white text-3xl">📖</span>
                 </div>
               </div>
+              {canEditCover ? (
+                <button
+                  type="button"
+                  onClick={() => setIsEditingCover(true)}
+                  className="absolute top-4 end-4 bg-white/40 backdrop-blur-md p-2.5 rounded-full shadow-md hover:bg-white/90 transition-all duration-200 text-lg border border-white/50 z-40"
+                  title={t('comicPanel.editCover')}
+                >
+                  🪄
+                </button>
+              ) : null}
             </div>
           )}
 
@@ -315,13 +526,30 @@ function StoryboardView({
               </Heading>
               <Text className="text-brand-surface mb-10 italic">
                 <strong>{story.title}</strong>{' '}
-                {isReadOnly
-                  ? t('story.storyboard.storyCompleteBodyShared')
-                  : t('story.storyboard.storyCompleteBody')}
+                {!showLibraryLinks
+                  ? t('story.storyboard.storyCompleteBodyLink')
+                  : isReadOnly
+                    ? t('story.storyboard.storyCompleteBodyShared')
+                    : t('story.storyboard.storyCompleteBody')}
               </Text>
+              {onContinueStory ? (
+                <SketchyButton onClick={onContinueStory} className="px-8 py-3 text-sm rounded-full">
+                  {t('story.storyboard.continueStory')}
+                </SketchyButton>
+              ) : null}
+              {showLibraryLinks && story.series?.nextStoryId ? (
+                <Link
+                  to={`${storyPathPrefix}/${story.series.nextStoryId}`}
+                  className="font-bold text-brand-accent hover:text-white transition-colors"
+                >
+                  {t('story.storyboard.series.readNext')} {getDirectionalArrow('forward', languageDirection)}
+                </Link>
+              ) : null}
               <div className="mt-8 flex flex-col items-center gap-2">
                 <button type="button" onClick={() => navigate(-1)} className="text-brand-surface/60 font-bold uppercase text-[10px] tracking-widest hover:text-white transition-colors">{t('story.storyboard.reread')}</button>
-                <Link to={backHref} className="text-brand-surface/40 font-bold uppercase text-[10px] tracking-widest hover:text-white transition-colors border-b border-brand-surface/20 pb-0.5">{t('story.storyboard.backToLibrary')}</Link>
+                {showLibraryLinks ? (
+                  <Link to={backHref} className="text-brand-surface/40 font-bold uppercase text-[10px] tracking-widest hover:text-white transition-colors border-b border-brand-surface/20 pb-0.5">{t('story.storyboard.backToLibrary')}</Link>
+                ) : null}
               </div>
               <div className="absolute end-0 top-0 bottom-0 w-4 bg-black/20" />
             </div>
@@ -330,6 +558,15 @@ function StoryboardView({
       </div>
 
       <StoryboardProgress currentPage={currentPage} totalStates={totalStates} pageLabel={pageLabel} />
+
+      {isEditingCover && onEditCoverImage ? (
+        <ImageRevisionDialog
+          onClose={() => setIsEditingCover(false)}
+          onApply={onEditCoverImage}
+          onLoadHistory={onLoadCoverHistory}
+          onRestoreVersion={onRestoreCoverVersion}
+        />
+      ) : null}
     </div>
   );
 }
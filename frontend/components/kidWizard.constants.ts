@@ -1,12 +1,12 @@
 import { Icons } from '@/components/design-system/Icons';
-import type { KidProfile } from '@/types';
+import type { CastRole, KidProfile } from '@/types';
 
 export interface ColorOption {
   label: string;
   hex: string;
 }
 
-export type WizardStepTranslationKey = 'hero' | 'look' | 'role' | 'dream' | 'style';
+export type WizardStepTranslationKey = 'hero' | 'look' | 'cast' | 'role' | 'dream' | 'style';
 
 export interface WizardStepDefinition {
   step: number;
@@ -14,6 +14,11 @@ export interface WizardStepDefinition {
   icon: string;
 }
 
+export interface ReadingLevelOption {
+  id: NonNullable<KidProfile['readingLevel']>;
+  icon: string;
+}
+
 export interface ArchetypeOption {
   id: string;
   label: string;
@@ -76,12 +81,27 @@ export const ART_STYLES = [
   { id: 'digital', label: 'Digital Pop', icon: '✨', description: 'Modern and bold' },
 ] as const;
 
+export const CAST_ROLES: CastRole[] = ['sibling', 'friend', 'pet'];
+
+export const MAX_CAST_MEMBERS = 4;
+
+export const STORY_LENGTHS = [4, 6, 10, 16] as const;
+
+export const DEFAULT_STORY_LENGTH = 10;
+
+export const READING_LEVELS: ReadingLevelOption[] = [
+  { id: 'early', icon: '🔤' },
+  { id: 'developing', icon: '📖' },
+  { id: 'fluent', icon: '📚' },
+];
+
 export const STEP_LABELS: WizardStepDefinition[] = [
   { step: 1, translationKey: 'hero', icon: '🦸' },
   { step: 2, translationKey: 'look', icon: '👤' },
-  { step: 3, translationKey: 'role', icon: '🎭' },
-  { step: 4, translationKey: 'dream', icon: '💭' },
-  { step: 5, translationKey: 'style', icon: '🎨' },
+  { step: 3, translationKey: 'cast', icon: '👫' },
+  { step: 4, translationKey: 'role', icon: '🎭' },
+  { step: 5, translationKey: 'dream', icon: '💭' },
+  { step: 6, translationKey: 'style', icon: '🎨' },
 ];
 
 export const GENDERS: GenderOption[] = ['boy', 'girl', 'neutral'];
@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from 'react';
+
+function subscribeToOnlineStatus(onChange: () => void): () => void {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+}
+
+function getOnlineStatus(): boolean {
+  return navigator.onLine;
+}
+
+/** Whether the browser currently reports a network connection. */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToOnlineStatus, getOnlineStatus, () => true);
+}
@@ -186,6 +186,15 @@ export default defineConfig([
       ],
     }),
   },
+  {
+    // Plain-JS service worker served as-is from public/; it runs in the worker
+    // scope, not the page.
+    name: 'project/service-worker',
+    files: ['public/sw.js'],
+    languageOptions: {
+      globals: globals.serviceworker,
+    },
+  },
   {
     name: 'project/tests-and-tooling',
     files: ['tests/**/*.{ts,tsx}', '**/*.config.{js,ts}', 'eslint.config.js'],
@@ -1,8 +1,9 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
-import { BrowserRouter } from 'react-router-dom';
+import { createBrowserRouter, RouterProvider } from 'react-router-dom';
 import './i18n';
 import { Toaster } from 'sonner';
+import { registerOfflineServiceWorker } from '@api';
 import { App } from '@/app';
 import { AuthProvider } from '@/app/auth';
 import './styles.css';
@@ -13,9 +14,15 @@ if (!rootElement) {
   throw new Error('Root element with id "root" was not found.');
 }
 
-createRoot(rootElement).render(
-  <StrictMode>
-    <BrowserRouter>
+registerOfflineServiceWorker().catch((error: unknown) => {
+  console.error('Failed to register the offline service worker:', error);
+});
+
+// A data router, so pages can block navigation with `useBlocker`; App still declares the routes.
+const router = createBrowserRouter([
+  {
+    path: '*',
+    element: (
       <AuthProvider>
         <App />
         <Toaster
@@ -28,6 +35,12 @@ createRoot(rootElement).render(
           }}
         />
       </AuthProvider>
-    </BrowserRouter>
+    ),
+  },
+]);
+
+createRoot(rootElement).render(
+  <StrictMode>
+    <RouterProvider router={router} />
   </StrictMode>,
 );
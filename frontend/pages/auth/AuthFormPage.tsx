@@ -1,37 +1,58 @@
 /**
- * Shared shell for LoginPage and SignupPage. Owns the cross-cutting concerns:
- * AuthFormPage owns the title, error alert, submit button, and footer chrome.
+ * Shared shell for the login, signup, password-reset and email-verification pages.
+ * AuthFormPage owns the title, error alert, submit button, and footer chrome,
+ * and swaps the form for the two-factor step while a sign-in waits for a code.
  */
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { FormEvent, ReactNode } from 'react';
-import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
 
 import type { UserResponse } from '@api';
 import { startGoogleOAuth } from '@api';
+import type { SignInResult } from '@/app/auth';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
 import { SketchyButton } from '@/components/design-system/Primitives';
+import { MfaChallengeStep } from './MfaChallengeStep';
+import { REASON_PARAM, RETURN_TO_PARAM, SESSION_EXPIRED_REASON, isSafeInternalPath } from './authRedirect';
 
 const OAUTH_REDIRECT_PATH_KEY = 'auth.oauthRedirectPath';
 const INVALID_CREDENTIALS_ERROR = 'invalid email or password';
 const OAUTH_PASSWORD_LOGIN_ERROR = 'this account does not use password login';
 const EMAIL_TAKEN_ERROR = 'email already taken';
 const USERNAME_TAKEN_ERROR = 'username already taken';
+const INVALID_MFA_CODE_ERROR = 'invalid verification code';
+const EXPIRED_MFA_CHALLENGE_ERROR = 'invalid or expired mfa challenge';
+const INVALID_RESET_LINK_ERROR = 'invalid or expired reset link';
+const INVALID_VERIFICATION_LINK_ERROR = 'invalid or expired verification link';
 
 interface AuthFormPageProps {
+    /** Keep signed-in readers on the page instead of sending them on. */
+    allowSignedIn?: boolean;
     currentUser: UserResponse | null;
-    footerLinkLabel: string;
-    footerLinkTo: string;
-    footerText: string;
+    /** Short text under the title. */
+    description?: string;
+    /** The footer link is left out when `footerLinkTo` is missing. */
+    footerLinkLabel?: string;
+    footerLinkTo?: string;
+    footerText?: string;
     isLoadingSession: boolean;
+    /** Show the two-factor step instead of the form; needs `onVerifyMfa` and `onCancelMfa`. */
+    isMfaChallengePending?: boolean;
     renderFields: (isSubmitting: boolean) => ReactNode;
+    showGoogleSignIn?: boolean;
     successMessage?: string;
+    /** Where a successful submit goes; defaults to the page the reader came from. */
+    successPath?: string;
     submitLabel: string;
     submittingLabel: string;
     title: string;
     useAppValidation?: boolean;
-    onSubmit: () => Promise<void>;
+    /** Resolving `'mfaRequired'` keeps the reader here for the two-factor step. */
+    onSubmit: () => Promise<SignInResult | void>;
+    onCancelMfa?: () => void;
+    onVerifyMfa?: (code: string) => Promise<void>;
 }
 
 function saveOAuthRedirectPath(path: string): void {
@@ -56,6 +77,18 @@ function getLocalizedAuthErrorMessage(error: unknown, t: (key: string) => string
     if (normalizedMessage === USERNAME_TAKEN_ERROR) {
         return t('auth.errors.usernameTaken');
     }
+    if (normalizedMessage === INVALID_MFA_CODE_ERROR) {
+        return t('auth.mfa.errors.invalidCode');
+    }
+    if (normalizedMessage === EXPIRED_MFA_CHALLENGE_ERROR) {
+        return t('auth.mfa.errors.challengeExpired');
+    }
+    if (normalizedMessage === INVALID_RESET_LINK_ERROR) {
+        return t('auth.passwordReset.errors.invalidLink');
+    }
+    if (normalizedMessage === INVALID_VERIFICATION_LINK_ERROR) {
+        return t('auth.verifyEmail.errors.invalidLink');
+    }
 
     return error.message;
 }
@@ -74,41 +107,66 @@ function AuthPageShell({ children }: { children: ReactNode }): JSX.Element {
 }
 
 export function AuthFormPage({
+    allowSignedIn = false,
     currentUser,
+    description,
     footerLinkLabel,
     footerLinkTo,
     footerText,
     isLoadingSession,
+    isMfaChallengePending = false,
     renderFields,
+    showGoogleSignIn = true,
     successMessage,
+    successPath,
     submitLabel,
     submittingLabel,
     title,
     useAppValidation = false,
     onSubmit,
+    onCancelMfa,
+    onVerifyMfa,
 }: AuthFormPageProps): JSX.Element {
     const { t } = useTranslation();
     const navigate = useNavigate();
     const location = useLocation();
+    const [searchParams] = useSearchParams();
+    const returnTo = searchParams.get(RETURN_TO_PARAM);
+    const isSessionExpired = searchParams.get(REASON_PARAM) === SESSION_EXPIRED_REASON;
     const redirectTo =
         (location.state as { from?: { pathname?: string; search?: string; hash?: string } } | null)
             ?.from;
-    const redirectPath = redirectTo
-        ? `${redirectTo.pathname ?? '/'}${redirectTo.search ?? ''}${redirectTo.hash ?? ''}`
-        : '/';
+    const redirectPath = isSafeInternalPath(returnTo)
+        ? returnTo
+        : redirectTo
+          ? `${redirectTo.pathname ?? '/'}${redirectTo.search ?? ''}${redirectTo.hash ?? ''}`
+          : '/';
+    // Switching between login and signup keeps the way back.
+    const footerLinkPath = footerLinkTo && isSafeInternalPath(returnTo)
+        ? `${footerLinkTo}?${new URLSearchParams({ [RETURN_TO_PARAM]: returnTo }).toString()}`
+        : footerLinkTo;
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isOAuthStarting, setIsOAuthStarting] = useState(false);
 
+    useEffect(() => {
+        // Requests that failed as the session ran out may have raised their own
+        // toasts; the notice on this page replaces all of them.
+        if (isSessionExpired) {
+            toast.dismiss();
+        }
+    }, [isSessionExpired]);
+
     async function handleSubmit(event: FormEvent<HTMLFormElement>): Promise<void> {
         event.preventDefault();
         setIsSubmitting(true);
 
         try {
-            await onSubmit();
+            const result = await onSubmit();
+            if (result === 'mfaRequired') return;
             if (successMessage) {
                 toast.success(successMessage);
             }
-            navigate(redirectPath, { replace: true });
+            navigate(successPath ?? redirectPath, { replace: true });
         } catch (error) {
             const message = getLocalizedAuthErrorMessage(error, t);
             toast.error(message);
@@ -117,6 +175,15 @@ export function AuthFormPage({
         }
     }
 
+    async function handleVerifyMfa(code: string): Promise<void> {
+        try {
+            await onVerifyMfa?.(code);
+            navigate(redirectPath, { replace: true });
+        } catch (error) {
+            toast.error(getLocalizedAuthErrorMessage(error, t));
+        }
+    }
+
     function handleGoogleSignIn(): void {
         setIsOAuthStarting(true);
         saveOAuthRedirectPath(redirectPath);
@@ -131,44 +198,76 @@ export function AuthFormPage({
         );
     }
 
-    if (currentUser) {
+    if (currentUser && !allowSignedIn) {
         return <Navigate to={redirectPath} replace />;
     }
 
+    if (isMfaChallengePending && onVerifyMfa && onCancelMfa) {
+        return (
+            <AuthPageShell>
+                <div className="w-full max-w-md rounded-2xl border-4 border-brand-primary/20 bg-white p-10 shadow-soft">
+                    <h1 className="mb-4 text-center font-sans text-3xl font-bold text-brand-dark">
+                        {t('auth.mfa.challenge.title')}
+                    </h1>
+                    <MfaChallengeStep onCancel={onCancelMfa} onVerify={handleVerifyMfa} />
+                </div>
+            </AuthPageShell>
+        );
+    }
+
     return (
         <AuthPageShell>
             <div className="w-full max-w-md rounded-2xl border-4 border-brand-primary/20 bg-white p-10 shadow-soft">
                 <h1 className="mb-8 text-center font-sans text-3xl font-bold text-brand-dark">{title}</h1>
+                {description ? (
+                    <p className="-mt-4 mb-6 text-center text-sm text-brand-muted">{description}</p>
+                ) : null}
+                {isSessionExpired ? (
+                    <p
+                        role="status"
+                        className="mb-6 rounded-xl bg-brand-accent/30 px-4 py-3 text-center text-sm font-semibold text-brand-dark"
+                    >
+                        {t('auth.session.expired')}
+                    </p>
+                ) : null}
                 <form onSubmit={handleSubmit} noValidate={useAppValidation}>
                     <div className="space-y-6">{renderFields(isSubmitting)}</div>
                     <SketchyButton type="submit" disabled={isSubmitting} className="mt-6 w-full">
                         {isSubmitting ? submittingLabel : submitLabel}
                     </SketchyButton>
-                    <div className="mt-6 flex items-center gap-3 text-xs uppercase tracking-wide text-brand-muted">
-                        <span className="h-px flex-1 bg-brand-muted/30" />
-                        <span>{t('auth.oauth.separator')}</span>
-                        <span className="h-px flex-1 bg-brand-muted/30" />
-                    </div>
-                    <SketchyButton
-                        type="button"
-                        variant="outline"
-                        disabled={isSubmitting || isOAuthStarting}
-                        onClick={handleGoogleSignIn}
-                        className="mt-6 w-full"
-                    >
-                        {isOAuthStarting ? t('auth.oauth.redirectingToGoogle') : t('auth.oauth.continueWithGoogle')}
-                    </SketchyButton>
+                    {showGoogleSignIn ? (
+                        <>
+                            <div className="mt-6 flex items-center gap-3 text-xs uppercase tracking-wide text-brand-muted">
+                                <span className="h-px flex-1 bg-brand-muted/30" />
+                                <span>{t('auth.oauth.separator')}</span>
+                                <span className="h-px flex-1 bg-brand-muted/30" />
+                            </div>
+                            <SketchyButton
+                                type="button"
+                                variant="outline"
+                                disabled={isSubmitting || isOAuthStarting}
+                                onClick={handleGoogleSignIn}
+                                className="mt-6 w-full"
+                            >
+                                {isOAuthStarting
+                                    ? t('auth.oauth.redirectingToGoogle')
+                                    : t('auth.oauth.continueWithGoogle')}
+                            </SketchyButton>
+                        </>
+                    ) : null}
                 </form>
-                <p className="mt-6 text-center text-sm text-brand-muted">
-                    {footerText}{' '}
-                    <Link
-                        to={footerLinkTo}
-                        state={redirectTo ? { from: redirectTo } : undefined}
-                        className="font-bold text-brand-primary hover:underline"
-                    >
-                        {footerLinkLabel}
-                    </Link>
-                </p>
+                {footerLinkPath ? (
+                    <p className="mt-6 text-center text-sm text-brand-muted">
+                        {footerText}{' '}
+                        <Link
+                            to={footerLinkPath}
+                            state={redirectTo ? { from: redirectTo } : undefined}
+                            className="font-bold text-brand-primary hover:underline"
+                        >
+                            {footerLinkLabel}
+                        </Link>
+                    </p>
+                ) : null}
             </div>
         </AuthPageShell>
     );
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { requestPasswordReset } from '@api';
+import { useAuth } from '@/app/auth';
+import { SketchyInput } from '@/components/design-system/Forms';
+import { AuthFormPage } from './AuthFormPage';
+import { EMAIL_PATTERN } from './authValidation';
+
+export function ForgotPasswordPage(): JSX.Element {
+    const { t } = useTranslation();
+    const [email, setEmail] = useState('');
+    const { currentUser, isLoadingSession } = useAuth();
+
+    function getValidationError(): string | null {
+        const trimmedEmail = email.trim();
+
+        if (!trimmedEmail) {
+            return t('auth.errors.emailRequired');
+        }
+        if (!EMAIL_PATTERN.test(trimmedEmail)) {
+            return t('auth.errors.emailInvalid');
+        }
+
+        return null;
+    }
+
+    async function submitRequest(): Promise<void> {
+        const validationError = getValidationError();
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        await requestPasswordReset(email.trim());
+    }
+
+    return (
+        <AuthFormPage
+            currentUser={currentUser}
+            description={t('auth.forgotPassword.description')}
+            footerLinkLabel={t('auth.forgotPassword.footerLink')}
+            footerLinkTo="/login"
+            footerText={t('auth.forgotPassword.footerText')}
+            renderFields={(isSubmitting) => (
+                <div>
+                    <label className="mb-2 block text-sm font-bold text-brand-muted">
+                        {t('auth.fields.emailLabel')}
+                    </label>
+                    <SketchyInput
+                        type="email"
+                        value={email}
+                        onChange={(event) => setEmail(event.target.value)}
+                        required
+                        disabled={isSubmitting}
+                        placeholder={t('auth.fields.emailPlaceholder')}
+                    />
+                </div>
+            )}
+            isLoadingSession={isLoadingSession}
+            showGoogleSignIn={false}
+            submitLabel={t('auth.forgotPassword.submit')}
+            submittingLabel={t('auth.forgotPassword.submitting')}
+            successMessage={t('auth.forgotPassword.notifications.sent')}
+            successPath="/login"
+            title={t('auth.forgotPassword.title')}
+            useAppValidation
+            onSubmit={submitRequest}
+        />
+    );
+}
@@ -4,18 +4,10 @@ import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
 import { useAuth } from '@/app/auth';
 import LanguageSwitcher from '@/components/LanguageSwitcher';
+import { buildLoginPath, isSafeInternalPath } from './authRedirect';
 
 const OAUTH_REDIRECT_PATH_KEY = 'auth.oauthRedirectPath';
 
-function isSafeInternalPath(path: string | null | undefined): path is string {
-    if (!path) return false;
-    if (!path.startsWith('/')) return false;
-    // Reject protocol-relative ("//host") and backslash variants ("/\\host"),
-    // which browsers resolve to external origins.
-    if (path.startsWith('//') || path.startsWith('/\\')) return false;
-    return true;
-}
-
 function getSavedOAuthRedirectPath(): string | null {
     const savedPath = sessionStorage.getItem(OAUTH_REDIRECT_PATH_KEY);
     sessionStorage.removeItem(OAUTH_REDIRECT_PATH_KEY);
@@ -71,7 +63,12 @@ export function GoogleOAuthCallbackPage(): JSX.Element {
         exchangeStarted.current = true;
 
         completeGoogleOAuth(code!)
-            .then(() => {
+            .then((result) => {
+                // The login page asks for the two-factor code, then continues to the destination.
+                if (result === 'mfaRequired') {
+                    navigate(buildLoginPath(destination, false), { replace: true });
+                    return;
+                }
                 toast.success(t('auth.oauth.notifications.signInComplete'));
                 navigate(destination, { replace: true });
             })
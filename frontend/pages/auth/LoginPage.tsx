@@ -1,6 +1,8 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '@/app/auth';
+import type { SignInResult } from '@/app/auth';
 import { SketchyInput } from '@/components/design-system/Forms';
 import { AuthFormPage } from './AuthFormPage';
 import { EMAIL_PATTERN, PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from './authValidation';
@@ -9,7 +11,8 @@ export function LoginPage(): JSX.Element {
     const { t } = useTranslation();
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
-    const { login, currentUser, isLoadingSession } = useAuth();
+    const { login, verifyMfa, cancelMfaChallenge, isMfaChallengePending, currentUser, isLoadingSession } =
+        useAuth();
 
     function getValidationError(): string | null {
         const trimmedEmail = email.trim();
@@ -33,13 +36,13 @@ export function LoginPage(): JSX.Element {
         return null;
     }
 
-    async function submitLogin(): Promise<void> {
+    async function submitLogin(): Promise<SignInResult> {
         const validationError = getValidationError();
         if (validationError) {
             throw new Error(validationError);
         }
 
-        await login(email.trim(), password);
+        return await login(email.trim(), password);
     }
 
     return (
@@ -77,15 +80,24 @@ export function LoginPage(): JSX.Element {
                             disabled={isSubmitting}
                             placeholder={t('auth.fields.passwordPlaceholder')}
                         />
+                        <Link
+                            to="/forgot-password"
+                            className="mt-2 inline-block text-sm font-bold text-brand-primary hover:underline"
+                        >
+                            {t('auth.login.forgotPassword')}
+                        </Link>
                     </div>
                 </>
             )}
             isLoadingSession={isLoadingSession}
+            isMfaChallengePending={isMfaChallengePending}
             submitLabel={t('auth.login.submit')}
             submittingLabel={t('auth.login.submitting')}
             title={t('auth.login.title')}
             useAppValidation
             onSubmit={submitLogin}
+            onCancelMfa={cancelMfaChallenge}
+            onVerifyMfa={verifyMfa}
         />
     );
 }
@@ -0,0 +1,80 @@
+/**
+ * Second sign-in step, shown by AuthFormPage when the account has two-factor on.
+ * Takes a code from the authenticator app, or one of the saved recovery codes.
+ */
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SketchyInput } from '@/components/design-system/Forms';
+import { SketchyButton } from '@/components/design-system/Primitives';
+
+interface MfaChallengeStepProps {
+    onCancel: () => void;
+    onVerify: (code: string) => Promise<void>;
+}
+
+export function MfaChallengeStep({ onCancel, onVerify }: MfaChallengeStepProps): JSX.Element {
+    const { t } = useTranslation();
+    const [code, setCode] = useState('');
+    const [isRecoveryCode, setIsRecoveryCode] = useState(false);
+    const [isVerifying, setIsVerifying] = useState(false);
+
+    async function handleSubmit(event: FormEvent<HTMLFormElement>): Promise<void> {
+        event.preventDefault();
+        setIsVerifying(true);
+        try {
+            await onVerify(code.trim());
+        } finally {
+            setIsVerifying(false);
+        }
+    }
+
+    function toggleRecoveryCode(): void {
+        setIsRecoveryCode((current) => !current);
+        setCode('');
+    }
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <p className="mb-6 text-center text-sm text-brand-muted">
+                {isRecoveryCode ? t('auth.mfa.challenge.recoveryDescription') : t('auth.mfa.challenge.description')}
+            </p>
+            <label htmlFor="mfa-code" className="mb-2 block text-sm font-bold text-brand-muted">
+                {isRecoveryCode ? t('auth.mfa.fields.recoveryCodeLabel') : t('auth.mfa.fields.codeLabel')}
+            </label>
+            <SketchyInput
+                id="mfa-code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={isRecoveryCode ? 'text' : 'numeric'}
+                maxLength={isRecoveryCode ? 32 : 6}
+                disabled={isVerifying}
+                placeholder={isRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+            />
+            <SketchyButton type="submit" disabled={isVerifying || !code.trim()} className="mt-6 w-full">
+                {isVerifying ? t('auth.mfa.challenge.verifying') : t('auth.mfa.challenge.verify')}
+            </SketchyButton>
+            <div className="mt-6 flex items-center justify-between text-sm">
+                <button
+                    type="button"
+                    onClick={toggleRecoveryCode}
+                    disabled={isVerifying}
+                    className="font-bold text-brand-primary hover:underline"
+                >
+                    {isRecoveryCode ? t('auth.mfa.challenge.useAuthenticator') : t('auth.mfa.challenge.useRecoveryCode')}
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    disabled={isVerifying}
+                    className="text-brand-muted hover:underline"
+                >
+                    {t('auth.mfa.challenge.back')}
+                </button>
+            </div>
+        </form>
+    );
+}
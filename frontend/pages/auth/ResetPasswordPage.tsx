@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { resetPassword } from '@api';
+import { useAuth } from '@/app/auth';
+import { SketchyInput } from '@/components/design-system/Forms';
+import { AuthFormPage } from './AuthFormPage';
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from './authValidation';
+
+export function ResetPasswordPage(): JSX.Element {
+    const { t } = useTranslation();
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const { currentUser, isLoadingSession } = useAuth();
+
+    function getValidationError(): string | null {
+        if (!token) {
+            return t('auth.passwordReset.errors.invalidLink');
+        }
+        if (!password) {
+            return t('auth.errors.passwordRequired');
+        }
+        if (password.length < PASSWORD_MIN_LENGTH) {
+            return t('auth.errors.passwordTooShort');
+        }
+        if (password.length > PASSWORD_MAX_LENGTH) {
+            return t('auth.errors.passwordTooLong');
+        }
+        if (password !== confirmPassword) {
+            return t('auth.errors.passwordMismatch');
+        }
+
+        return null;
+    }
+
+    async function submitReset(): Promise<void> {
+        const validationError = getValidationError();
+        if (validationError || !token) {
+            throw new Error(validationError ?? t('auth.passwordReset.errors.invalidLink'));
+        }
+
+        await resetPassword(token, password);
+    }
+
+    return (
+        <AuthFormPage
+            currentUser={currentUser}
+            description={t('auth.passwordReset.description')}
+            footerLinkLabel={t('auth.passwordReset.footerLink')}
+            footerLinkTo="/forgot-password"
+            footerText={t('auth.passwordReset.footerText')}
+            renderFields={(isSubmitting) => (
+                <>
+                    <div>
+                        <label className="mb-2 block text-sm font-bold text-brand-muted">
+                            {t('auth.passwordReset.newPasswordLabel')}
+                        </label>
+                        <SketchyInput
+                            type="password"
+                            value={password}
+                            onChange={(event) => setPassword(event.target.value)}
+                            required
+                            minLength={PASSWORD_MIN_LENGTH}
+                            maxLength={PASSWORD_MAX_LENGTH}
+                            disabled={isSubmitting}
+                            autoComplete="new-password"
+                            placeholder={t('auth.fields.passwordPlaceholder')}
+                        />
+                    </div>
+                    <div>
+                        <label className="mb-2 block text-sm font-bold text-brand-muted">
+                            {t('auth.passwordReset.confirmPasswordLabel')}
+                        </label>
+                        <SketchyInput
+                            type="password"
+                            value={confirmPassword}
+                            onChange={(event) => setConfirmPassword(event.target.value)}
+                            required
+                            maxLength={PASSWORD_MAX_LENGTH}
+                            disabled={isSubmitting}
+                            autoComplete="new-password"
+                            placeholder={t('auth.fields.passwordPlaceholder')}
+                        />
+                    </div>
+                </>
+            )}
+            isLoadingSession={isLoadingSession}
+            showGoogleSignIn={false}
+            submitLabel={t('auth.passwordReset.submit')}
+            submittingLabel={t('auth.passwordReset.submitting')}
+            successMessage={t('auth.passwordReset.notifications.updated')}
+            successPath="/login"
+            title={t('auth.passwordReset.title')}
+            useAppValidation
+            onSubmit={submitReset}
+        />
+    );
+}
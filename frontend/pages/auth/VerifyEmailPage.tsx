@@ -0,0 +1,45 @@
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { verifyEmail } from '@api';
+import { useAuth } from '@/app/auth';
+import { AuthFormPage } from './AuthFormPage';
+
+/**
+ * Landing page for the emailed verification link. Confirming takes a click, so
+ * link scanners that open every URL in a message cannot spend the token.
+ * Works signed in or out; a signed-in reader's profile is reloaded afterwards.
+ */
+export function VerifyEmailPage(): JSX.Element {
+    const { t } = useTranslation();
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const { currentUser, isLoadingSession, refreshMe } = useAuth();
+
+    async function submitVerification(): Promise<void> {
+        if (!token) {
+            throw new Error(t('auth.verifyEmail.errors.invalidLink'));
+        }
+
+        await verifyEmail(token);
+        if (currentUser) {
+            await refreshMe();
+        }
+    }
+
+    return (
+        <AuthFormPage
+            allowSignedIn
+            currentUser={currentUser}
+            description={t('auth.verifyEmail.description')}
+            renderFields={() => null}
+            isLoadingSession={isLoadingSession}
+            showGoogleSignIn={false}
+            submitLabel={t('auth.verifyEmail.submit')}
+            submittingLabel={t('auth.verifyEmail.submitting')}
+            successMessage={t('auth.verifyEmail.notifications.verified')}
+            successPath={currentUser ? '/' : '/login'}
+            title={t('auth.verifyEmail.title')}
+            onSubmit={submitVerification}
+        />
+    );
+}
@@ -0,0 +1,24 @@
+/**
+ * Where to send the reader after signing in. Protected routes link here with
+ * `?returnTo=<path>`, plus `reason=expired` when the session ran out.
+ */
+export const RETURN_TO_PARAM = 'returnTo';
+export const REASON_PARAM = 'reason';
+export const SESSION_EXPIRED_REASON = 'expired';
+
+export function isSafeInternalPath(path: string | null | undefined): path is string {
+    if (!path) return false;
+    if (!path.startsWith('/')) return false;
+    // Reject protocol-relative ("//host") and backslash variants ("/\\host"),
+    // which browsers resolve to external origins.
+    if (path.startsWith('//') || path.startsWith('/\\')) return false;
+    return true;
+}
+
+export function buildLoginPath(returnTo: string, isSessionExpired: boolean): string {
+    const params = new URLSearchParams({ [RETURN_TO_PARAM]: returnTo });
+    if (isSessionExpired) {
+        params.set(REASON_PARAM, SESSION_EXPIRED_REASON);
+    }
+    return `/login?${params.toString()}`;
+}
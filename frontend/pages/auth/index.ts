@@ -1,4 +1,8 @@
 export { AuthFormPage } from './AuthFormPage';
 export { LoginPage } from './LoginPage';
 export { SignupPage } from './SignupPage';
+export { ForgotPasswordPage } from './ForgotPasswordPage';
+export { ResetPasswordPage } from './ResetPasswordPage';
+export { VerifyEmailPage } from './VerifyEmailPage';
 export { GoogleOAuthCallbackPage } from './GoogleOAuthCallbackPage';
+export { buildLoginPath } from './authRedirect';
@@ -0,0 +1,255 @@
+/**
+ * Collection page.
+ * Shows the stories on one shelf. Owners can rename, share with friends, or delete the shelf
+ * and take stories off it; friends see a read-only shelf that links into shared story viewing.
+ */
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import type { CollectionVisibility, StoryListItem } from '@api';
+import StorageImage from '@/components/StorageImage';
+import { formatStoryDate, getStoryDisplayTitle } from '@/pages/gallery/gallery.helpers';
+import { useCollectionPage } from './useCollectionPage';
+
+const COLLECTION_NAME_MAX_LENGTH = 60;
+const visibilityOptions: CollectionVisibility[] = ['private', 'shared_with_friends'];
+
+interface CollectionStoryCardProps {
+  story: StoryListItem;
+  readPath: string;
+  onRemove: (() => Promise<void>) | null;
+}
+
+function CollectionStoryCard({ story, readPath, onRemove }: CollectionStoryCardProps): JSX.Element {
+  const { t } = useTranslation();
+  const displayTitle = getStoryDisplayTitle(story.title, t('galleryPage.untitledMasterpiece'));
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-xl overflow-hidden border-2 border-gray-100">
+      <div className="relative aspect-[3/4] overflow-hidden bg-gray-100">
+        {story.cover_image_url ? (
+          <StorageImage src={story.cover_image_url} alt={displayTitle} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-gray-300 font-black text-4xl">?</div>
+        )}
+      </div>
+
+      <div className="p-5">
+        <h2 className="text-xl font-black text-gray-800 leading-tight mb-2 line-clamp-2">{displayTitle}</h2>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs font-bold rounded-full uppercase tracking-wide">
+            {story.profile.name}
+          </span>
+        </div>
+        <div className="text-xs text-gray-400 font-medium mb-4">{formatStoryDate(story.created_at)}</div>
+        <div className="flex gap-2">
+          <Link
+            to={readPath}
+            className="inline-flex flex-1 items-center justify-center rounded-full bg-brand-primary px-5 py-3 text-sm font-bold text-white transition-colors hover:bg-brand-dark"
+          >
+            {t('galleryPage.readNow')}
+          </Link>
+          {onRemove ? (
+            <button
+              type="button"
+              onClick={() => void onRemove()}
+              title={t('collectionPage.removeStory', { title: displayTitle })}
+              aria-label={t('collectionPage.removeStory', { title: displayTitle })}
+              className="rounded-full border border-purple-200 px-4 py-3 text-sm font-bold text-purple-600 transition-colors hover:bg-purple-50"
+            >
+              {t('collectionPage.remove')}
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RenameFormProps {
+  initialName: string;
+  isSaving: boolean;
+  onSave: (name: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+function RenameForm({ initialName, isSaving, onSave, onCancel }: RenameFormProps): JSX.Element {
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialName);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (await onSave(name)) {
+      onCancel();
+    }
+  };
+
+  return (
+    <form onSubmit={(event) => void handleSubmit(event)} className="mt-3 flex flex-wrap items-center gap-2">
+      <input
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        maxLength={COLLECTION_NAME_MAX_LENGTH}
+        aria-label={t('collectionPage.nameLabel')}
+        autoFocus
+        className="min-w-0 flex-1 rounded-full border border-purple-200 bg-white px-4 py-2 text-2xl font-black text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-300"
+      />
+      <button
+        type="submit"
+        disabled={isSaving || !name.trim()}
+        className="rounded-full bg-purple-600 px-4 py-2 text-sm font-bold text-white transition-colors hover:bg-purple-700 disabled:opacity-50"
+      >
+        {t('collectionPage.save')}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="rounded-full border border-purple-200 px-4 py-2 text-sm font-bold text-purple-600 transition-colors hover:bg-purple-50"
+      >
+        {t('collectionPage.cancel')}
+      </button>
+    </form>
+  );
+}
+
+export function CollectionPage(): JSX.Element {
+  const { t } = useTranslation();
+  const {
+    collection,
+    friendUserId,
+    getStoryPath,
+    isLoading,
+    isSaving,
+    isUnavailable,
+    onChangeVisibility,
+    onDelete,
+    onRemoveStory,
+    onRename,
+  } = useCollectionPage();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const isOwner = friendUserId === null;
+  const backPath = isOwner ? '/gallery' : `/friends/${friendUserId}/library`;
+  const backLabel = isOwner ? t('collectionPage.backToGallery') : t('collectionPage.backToFriendLibrary');
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (isUnavailable || !collection) {
+    return (
+      <div className="max-w-3xl mx-auto py-12">
+        <div className="rounded-[2rem] border-2 border-red-200 bg-white p-8 shadow-xl">
+          <h1 className="text-3xl font-black text-gray-800">{t('collectionPage.unavailableTitle')}</h1>
+          <p className="mt-4 text-base font-medium text-red-600">{t('collectionPage.unavailableBody')}</p>
+          <Link
+            to={backPath}
+            className="inline-flex mt-6 rounded-full border border-brand-primary/20 px-5 py-3 text-sm font-semibold text-brand-primary transition-colors hover:bg-brand-light"
+          >
+            {backLabel}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 animate-in fade-in duration-700">
+      <div className="mb-8">
+        <Link to={backPath} className="text-sm font-bold text-brand-muted hover:text-brand-primary transition-colors">
+          {backLabel}
+        </Link>
+
+        {isRenaming ? (
+          <RenameForm
+            initialName={collection.name}
+            isSaving={isSaving}
+            onSave={onRename}
+            onCancel={() => setIsRenaming(false)}
+          />
+        ) : (
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <h1 className="text-4xl font-black text-gray-800">{collection.name}</h1>
+            {isOwner ? (
+              <button
+                type="button"
+                onClick={() => setIsRenaming(true)}
+                className="rounded-full px-3 py-1 text-sm font-bold text-purple-600 transition-colors hover:bg-purple-50"
+              >
+                {t('collectionPage.rename')}
+              </button>
+            ) : null}
+          </div>
+        )}
+        <p className="mt-2 text-sm font-medium text-gray-500">
+          {t('collectionPage.storyCount', { count: collection.story_count })}
+        </p>
+
+        {isOwner ? (
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+            <fieldset className="flex items-center gap-3">
+              <legend className="text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
+                {t('collectionPage.sharing.label')}
+              </legend>
+              <div className="inline-grid grid-cols-2 gap-0.5 rounded-full border border-purple-100 bg-purple-50 p-0.5 shadow-inner">
+                {visibilityOptions.map((option) => {
+                  const isSelected = collection.visibility === option;
+                  return (
+                    <button
+                      key={option}
+                      type="button"
+                      aria-pressed={isSelected}
+                      disabled={isSaving}
+                      onClick={() => {
+                        if (!isSelected) void onChangeVisibility(option);
+                      }}
+                      className={`min-h-8 rounded-full px-3 py-1 text-xs font-black uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-purple-300 ${
+                        isSelected ? 'bg-white text-purple-900 shadow-sm' : 'text-purple-500 hover:bg-white/60 hover:text-purple-800'
+                      }`}
+                    >
+                      {option === 'shared_with_friends'
+                        ? t('collectionPage.sharing.friends')
+                        : t('collectionPage.sharing.private')}
+                    </button>
+                  );
+                })}
+              </div>
+              {collection.visibility === 'shared_with_friends' ? (
+                <span className="text-xs font-medium text-purple-700">{t('collectionPage.sharing.hint')}</span>
+              ) : null}
+            </fieldset>
+            <button
+              type="button"
+              onClick={() => void onDelete()}
+              className="rounded-full border border-red-200 bg-white px-4 py-2 text-sm font-bold text-red-600 transition-colors hover:bg-red-50"
+            >
+              {t('collectionPage.delete')}
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {collection.stories.length === 0 ? (
+        <div className="rounded-[2rem] border-2 border-dashed border-gray-200 bg-white px-6 py-16 text-center text-gray-400 shadow-sm">
+          <p className="text-xl font-medium italic">
+            {isOwner ? t('collectionPage.empty') : t('collectionPage.emptyShared')}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-8">
+          {collection.stories.map((story) => (
+            <CollectionStoryCard
+              key={story.id}
+              story={story}
+              readPath={getStoryPath(story.id)}
+              onRemove={isOwner ? () => onRemoveStory(story.id) : null}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+/**
+ * Public exports for the collection (bookshelf) page.
+ */
+export { CollectionPage } from './CollectionPage';
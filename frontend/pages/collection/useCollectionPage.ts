@@ -0,0 +1,193 @@
+/**
+ * Collection page controller.
+ * Loads one collection with its stories. On the owner's own collections it also renames,
+ * re-shares, deletes, and takes stories off the shelf; a friend's shared collection is read-only.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import {
+  type CollectionDetailResponse,
+  type CollectionResponse,
+  type CollectionVisibility,
+  deleteCollection,
+  getCollection,
+  getFriendSharedCollection,
+  removeStoryFromCollection,
+  updateCollection,
+} from '@api';
+import { useAuth } from '@/app/auth';
+
+interface UseCollectionPageResult {
+  isLoading: boolean;
+  isUnavailable: boolean;
+  collection: CollectionDetailResponse | null;
+  /** Set when viewing a friend's shared collection; null on the user's own. */
+  friendUserId: number | null;
+  isSaving: boolean;
+  getStoryPath: (storyId: number) => string;
+  /** Resolves true when the new name was saved, so the form can close. */
+  onRename: (name: string) => Promise<boolean>;
+  onChangeVisibility: (visibility: CollectionVisibility) => Promise<void>;
+  onRemoveStory: (storyId: number) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+function parseId(rawId: string | undefined): number | null {
+  if (!rawId) {
+    return null;
+  }
+
+  const parsed = Number(rawId);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function mergeSummary(
+  collection: CollectionDetailResponse | null,
+  summary: CollectionResponse,
+): CollectionDetailResponse | null {
+  return collection ? { ...collection, ...summary } : collection;
+}
+
+export function useCollectionPage(): UseCollectionPageResult {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { accessToken } = useAuth();
+  const { collectionId: rawCollectionId, userId: rawUserId } = useParams<{ collectionId?: string; userId?: string }>();
+  const collectionId = parseId(rawCollectionId);
+  const friendUserId = parseId(rawUserId);
+  const isFriendView = rawUserId !== undefined;
+  const [collection, setCollection] = useState<CollectionDetailResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    const token = accessToken;
+    let isMounted = true;
+
+    async function loadCollection(): Promise<void> {
+      if (!collectionId || (isFriendView && !friendUserId)) {
+        setIsUnavailable(true);
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setIsUnavailable(false);
+      try {
+        const loadedCollection = friendUserId
+          ? await getFriendSharedCollection(token, friendUserId, collectionId)
+          : await getCollection(token, collectionId);
+        if (isMounted) {
+          setCollection(loadedCollection);
+        }
+      } catch (error) {
+        console.error('Failed to load collection:', error);
+        if (isMounted) {
+          setCollection(null);
+          setIsUnavailable(true);
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadCollection();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, collectionId, friendUserId, isFriendView]);
+
+  const getStoryPath = useCallback((storyId: number) => (
+    friendUserId ? `/friends/${friendUserId}/library/${storyId}` : `/book/${storyId}`
+  ), [friendUserId]);
+
+  const handleRename = useCallback(async (name: string): Promise<boolean> => {
+    const trimmedName = name.trim();
+    if (!accessToken || !collectionId || friendUserId || !trimmedName) return false;
+
+    setIsSaving(true);
+    try {
+      const summary = await updateCollection(accessToken, collectionId, { name: trimmedName });
+      setCollection((currentCollection) => mergeSummary(currentCollection, summary));
+      toast.success(t('collectionPage.notifications.renamed'));
+      return true;
+    } catch (error) {
+      console.error('Failed to rename collection:', error);
+      const message = error instanceof Error ? error.message : t('galleryPage.errors.unknown');
+      toast.error(t('collectionPage.notifications.renameFailed', { message }));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [accessToken, collectionId, friendUserId, t]);
+
+  const handleChangeVisibility = useCallback(async (visibility: CollectionVisibility) => {
+    if (!accessToken || !collectionId || friendUserId) return;
+
+    setIsSaving(true);
+    try {
+      const summary = await updateCollection(accessToken, collectionId, { visibility });
+      setCollection((currentCollection) => mergeSummary(currentCollection, summary));
+      toast.success(visibility === 'shared_with_friends'
+        ? t('collectionPage.notifications.sharedWithFriends')
+        : t('collectionPage.notifications.setPrivate'));
+    } catch (error) {
+      console.error('Failed to update collection sharing:', error);
+      toast.error(t('collectionPage.notifications.shareFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [accessToken, collectionId, friendUserId, t]);
+
+  const handleRemoveStory = useCallback(async (storyId: number) => {
+    if (!accessToken || !collectionId || friendUserId) return;
+
+    try {
+      const summary = await removeStoryFromCollection(accessToken, collectionId, storyId);
+      setCollection((currentCollection) => {
+        const merged = mergeSummary(currentCollection, summary);
+        return merged ? { ...merged, stories: merged.stories.filter((story) => story.id !== storyId) } : merged;
+      });
+      toast.success(t('collectionPage.notifications.storyRemoved'));
+    } catch (error) {
+      console.error('Failed to remove story from collection:', error);
+      toast.error(t('collectionPage.notifications.removeFailed'));
+    }
+  }, [accessToken, collectionId, friendUserId, t]);
+
+  const handleDelete = useCallback(async () => {
+    if (!accessToken || !collectionId || friendUserId) return;
+    if (!window.confirm(t('collectionPage.confirmDelete'))) {
+      return;
+    }
+
+    try {
+      await deleteCollection(accessToken, collectionId);
+      toast.success(t('collectionPage.notifications.deleted'));
+      navigate('/gallery');
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+      toast.error(t('collectionPage.notifications.deleteFailed'));
+    }
+  }, [accessToken, collectionId, friendUserId, navigate, t]);
+
+  return {
+    isLoading,
+    isUnavailable,
+    collection,
+    friendUserId,
+    isSaving,
+    getStoryPath,
+    onRename: handleRename,
+    onChangeVisibility: handleChangeVisibility,
+    onRemoveStory: handleRemoveStory,
+    onDelete: handleDelete,
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * Friend library page.
- * Shows comics shared by a single accepted friend and links into read-only story viewing.
+ * Shows comics and collections shared by a single accepted friend and links into read-only viewing.
  */
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
@@ -10,7 +10,7 @@ import { useFriendLibraryPage } from './useFriendLibraryPage';
 
 export function FriendLibraryPage(): JSX.Element {
   const { t } = useTranslation();
-  const { errorMessage, friend, friendUserId, isLoading, stories } = useFriendLibraryPage();
+  const { collections, errorMessage, friend, friendUserId, isLoading, stories } = useFriendLibraryPage();
   const fallbackTitle = t('galleryPage.untitledMasterpiece');
 
   if (isLoading) {
@@ -54,10 +54,35 @@ export function FriendLibraryPage(): JSX.Element {
         </div>
       </div>
 
+      {collections.length > 0 ? (
+        <section aria-labelledby="friend-collections-heading" className="mb-10">
+          <h2 id="friend-collections-heading" className="mb-4 text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
+            {t('friendLibrary.collections')}
+          </h2>
+          <ul className="flex flex-wrap gap-3">
+            {collections.map((collection) => (
+              <li key={collection.id}>
+                <Link
+                  to={`/friends/${friendUserId}/collections/${collection.id}`}
+                  className="inline-flex items-center gap-2 rounded-full border border-purple-100 bg-white px-4 py-2 text-sm font-bold text-purple-900 shadow-sm transition-colors hover:bg-purple-50"
+                >
+                  {collection.name}
+                  <span className="rounded-full bg-purple-100 px-2 py-0.5 text-xs text-purple-700">
+                    {collection.story_count}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
       {stories.length === 0 ? (
-        <div className="rounded-[2rem] border-2 border-dashed border-gray-200 bg-white px-6 py-16 text-center text-gray-400 shadow-sm">
-          <p className="text-xl font-medium italic">{t('friendLibrary.empty')}</p>
-        </div>
+        collections.length === 0 ? (
+          <div className="rounded-[2rem] border-2 border-dashed border-gray-200 bg-white px-6 py-16 text-center text-gray-400 shadow-sm">
+            <p className="text-xl font-medium italic">{t('friendLibrary.empty')}</p>
+          </div>
+        ) : null
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-8">
           {stories.map((story) => (
@@ -1,10 +1,17 @@
 /**
  * Friend library page controller.
- * Loads one friend's public profile plus the list of comics they shared with accepted friends.
+ * Loads one friend's public profile plus the comics and collections they shared with accepted friends.
  */
 import { useCallback, useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { getFriendSharedStories, getUser, type PublicUserResponse, type StoryListItem } from '@api';
+import {
+  type CollectionResponse,
+  getFriendSharedCollections,
+  getFriendSharedStories,
+  getUser,
+  type PublicUserResponse,
+  type StoryListItem,
+} from '@api';
 import { useAuth } from '@/app/auth';
 
 interface UseFriendLibraryPageResult {
@@ -12,6 +19,7 @@ interface UseFriendLibraryPageResult {
   friendUserId: number | null;
   isLoading: boolean;
   stories: StoryListItem[];
+  collections: CollectionResponse[];
   errorMessage: string | null;
 }
 
@@ -29,6 +37,7 @@ export function useFriendLibraryPage(): UseFriendLibraryPageResult {
   const { accessToken } = useAuth();
   const [friend, setFriend] = useState<PublicUserResponse | null>(null);
   const [stories, setStories] = useState<StoryListItem[]>([]);
+  const [collections, setCollections] = useState<CollectionResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const friendUserId = parseUserId(rawUserId);
@@ -44,16 +53,19 @@ export function useFriendLibraryPage(): UseFriendLibraryPageResult {
     setErrorMessage(null);
 
     try {
-      const [friendProfile, sharedStories] = await Promise.all([
+      const [friendProfile, sharedStories, sharedCollections] = await Promise.all([
         getUser(friendUserId),
         getFriendSharedStories(accessToken, friendUserId),
+        getFriendSharedCollections(accessToken, friendUserId),
       ]);
       setFriend(friendProfile);
       setStories(sharedStories);
+      setCollections(sharedCollections);
     } catch (error) {
       console.error('Failed to load friend library:', error);
       setFriend(null);
       setStories([]);
+      setCollections([]);
       setErrorMessage('This shared library is unavailable. You may no longer have access.');
     } finally {
       setIsLoading(false);
@@ -69,6 +81,7 @@ export function useFriendLibraryPage(): UseFriendLibraryPageResult {
     friendUserId,
     isLoading,
     stories,
+    collections,
     errorMessage,
   };
 }
@@ -0,0 +1,100 @@
+/**
+ * Toolbar for multi-select mode in the gallery.
+ * Applies one action to every selected story; the hook holds changes back while the undo toast is up.
+ */
+import type { CollectionResponse, StoryVisibility } from '@api';
+import { useTranslation } from 'react-i18next';
+import type { GallerySelection } from './useGalleryPage';
+
+type AudienceVisibility = Exclude<StoryVisibility, 'public_link'>;
+
+interface GalleryBulkBarProps {
+  selection: GallerySelection;
+  collections: CollectionResponse[];
+  loadedCount: number;
+}
+
+const selectClassName = 'rounded-full border border-purple-200 bg-white px-3 py-2 text-sm font-bold text-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-300 disabled:opacity-60';
+const buttonClassName = 'rounded-full border px-4 py-2 text-sm font-bold transition-colors disabled:opacity-60';
+
+export function GalleryBulkBar({ selection, collections, loadedCount }: GalleryBulkBarProps): JSX.Element {
+  const { t } = useTranslation();
+  const selectedCount = selection.selectedStoryIds.size;
+  const hasSelection = selectedCount > 0;
+  const isBusy = !hasSelection || selection.isExporting;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={t('galleryPage.bulk.toolbarLabel')}
+      className="sticky top-20 z-40 mb-6 flex flex-wrap items-center gap-3 rounded-3xl border border-purple-200 bg-white/95 p-3 shadow-lg backdrop-blur-sm"
+    >
+      <span aria-live="polite" className="ps-2 text-sm font-black text-purple-900">
+        {t('galleryPage.bulk.selected', { count: selectedCount })}
+      </span>
+      <button
+        type="button"
+        onClick={selectedCount === loadedCount ? selection.onClear : selection.onSelectAll}
+        disabled={loadedCount === 0}
+        className={`${buttonClassName} border-purple-200 bg-white text-purple-600 hover:bg-purple-50`}
+      >
+        {selectedCount === loadedCount && loadedCount > 0
+          ? t('galleryPage.bulk.clearSelection')
+          : t('galleryPage.bulk.selectAll')}
+      </button>
+
+      <div className="flex flex-1 flex-wrap items-center justify-end gap-2">
+        <select
+          aria-label={t('galleryPage.bulk.sharingLabel')}
+          value=""
+          disabled={isBusy}
+          onChange={(event) => selection.onUpdateVisibility(event.target.value as AudienceVisibility)}
+          className={selectClassName}
+        >
+          <option value="" disabled>{t('galleryPage.bulk.sharingLabel')}</option>
+          <option value="private">{t('galleryPage.sharing.private')}</option>
+          <option value="shared_with_friends">{t('galleryPage.sharing.friends')}</option>
+        </select>
+
+        {collections.length > 0 ? (
+          <select
+            aria-label={t('galleryPage.bulk.addToShelf')}
+            value=""
+            disabled={isBusy}
+            onChange={(event) => selection.onAddToCollection(Number(event.target.value))}
+            className={selectClassName}
+          >
+            <option value="" disabled>{t('galleryPage.bulk.addToShelf')}</option>
+            {collections.map((collection) => (
+              <option key={collection.id} value={collection.id}>{collection.name}</option>
+            ))}
+          </select>
+        ) : null}
+
+        <button
+          type="button"
+          onClick={() => void selection.onExport()}
+          disabled={isBusy}
+          className={`${buttonClassName} border-purple-200 bg-white text-purple-700 hover:bg-purple-50`}
+        >
+          {selection.isExporting ? t('galleryPage.bulk.exporting') : t('galleryPage.bulk.export')}
+        </button>
+        <button
+          type="button"
+          onClick={selection.onDelete}
+          disabled={isBusy}
+          className={`${buttonClassName} border-red-200 bg-white text-red-600 hover:bg-red-50`}
+        >
+          {t('galleryPage.bulk.delete')}
+        </button>
+        <button
+          type="button"
+          onClick={selection.onFinish}
+          className={`${buttonClassName} border-purple-600 bg-purple-600 text-white hover:bg-purple-700`}
+        >
+          {t('galleryPage.bulk.done')}
+        </button>
+      </div>
+    </div>
+  );
+}
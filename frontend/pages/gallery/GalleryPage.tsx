@@ -1,79 +1,275 @@
 /**
  * Gallery page container.
- * Renders loading, empty, and card-grid states from page-level data.
+ * Renders the search bar, the shelf sidebar, and loading, empty, and card-grid states from page-level data.
+ * Story cards can be dragged onto a shelf to add them to that collection.
+ * Episodes of a series are grouped into one row, read in episode order.
+ * In select mode cards get checkboxes and the bulk toolbar acts on every checked story.
  */
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import type { StoryListItem, StoryVisibility } from '@api';
+import type { StoryListItem, StoryShareLinkResponse, StoryVisibility } from '@api';
 import { useTranslation } from 'react-i18next';
-import type { TFunction } from 'i18next';
 import StorageImage from '@/components/StorageImage';
-import { formatStoryDate, getStoryDisplayTitle } from './gallery.helpers';
+import { useOnlineStatus } from '@/components/network/useOnlineStatus';
+import { hasActiveGalleryFilters } from './gallery.filters';
+import { GalleryBulkBar } from './GalleryBulkBar';
+import {
+  formatStoryDate,
+  getArchetypeLabel,
+  getStoryDisplayTitle,
+  groupStoriesBySeries,
+  type GalleryStoryGroup,
+} from './gallery.helpers';
+import { GalleryFilterBar, GalleryLoadMore } from './GallerySearch';
+import { GalleryShelves, STORY_DRAG_TYPE } from './GalleryShelves';
 import { useGalleryPage } from './useGalleryPage';
-import { ARCHETYPES } from '@/components/kidWizard.constants';
+
+type AudienceVisibility = Exclude<StoryVisibility, 'public_link'>;
 
 interface StoryCardProps {
   story: StoryListItem;
   onDeleteStory: (storyId: number) => Promise<void>;
-  onUpdateVisibility: (storyId: number, visibility: StoryVisibility) => Promise<void>;
+  onUpdateVisibility: (storyId: number, visibility: AudienceVisibility) => Promise<void>;
+  shareLink: ShareLinkActions;
+  offline: OfflineToggleProps | null;
+  /** Set in select mode. */
+  selection: StorySelectionProps | null;
+  /** Remixing writes a new draft, so it needs the network. */
+  canRemix: boolean;
+}
+
+interface StorySelectionProps {
+  isSelected: boolean;
+  onToggle: () => void;
+}
+
+interface GallerySeriesGroupProps {
+  group: GalleryStoryGroup;
+  renderStoryCard: (story: StoryListItem) => JSX.Element;
+}
+
+interface ShareLinkActions {
+  isPending: boolean;
+  onCreate: (expiresInDays: number | null) => Promise<void>;
+  onCopy: () => Promise<void>;
+  onRevoke: () => Promise<void>;
+}
+
+interface OfflineToggleProps {
+  isSaved: boolean;
+  isPending: boolean;
+  onToggle: () => Promise<void>;
 }
 
 interface SharingControlProps {
   storyTitle: string;
   value: StoryVisibility;
-  onChange: (visibility: StoryVisibility) => Promise<void>;
+  shareLink: StoryShareLinkResponse | null;
+  linkActions: ShareLinkActions;
+  onChange: (visibility: AudienceVisibility) => Promise<void>;
+}
+
+interface ShareLinkPanelProps {
+  shareLink: StoryShareLinkResponse | null;
+  linkActions: ShareLinkActions;
+  /** Set while the owner is choosing options for a new link; null when an earlier link expired. */
+  onCancel: (() => void) | null;
 }
 
-const sharingOptions: StoryVisibility[] = ['private', 'shared_with_friends'];
+const sharingOptions: StoryVisibility[] = ['private', 'shared_with_friends', 'public_link'];
+
+const SHARE_LINK_EXPIRY_OPTIONS = [
+  { id: 'never', days: null },
+  { id: 'week', days: 7 },
+  { id: 'month', days: 30 },
+] as const;
 
-function getArchetypeLabel(archetype: string, t: TFunction<'translation'>): string {
-  const match = ARCHETYPES.find((option) => option.id === archetype || option.label === archetype);
+type ShareLinkExpiryId = typeof SHARE_LINK_EXPIRY_OPTIONS[number]['id'];
 
-  if (!match) {
-    return archetype;
+function ShareLinkPanel({ shareLink, linkActions, onCancel }: ShareLinkPanelProps): JSX.Element {
+  const { t } = useTranslation();
+  const [expiryId, setExpiryId] = useState<ShareLinkExpiryId>('never');
+  const buttonClassName = 'rounded-full border px-3 py-1 text-[11px] font-bold transition-colors disabled:opacity-60';
+
+  if (shareLink) {
+    return (
+      <div className="mb-4 rounded-2xl border border-purple-100 bg-purple-50/60 p-3">
+        <p className="mb-2 text-xs font-medium text-purple-800">
+          {shareLink.expires_at
+            ? t('galleryPage.shareLink.expiresOn', { date: formatStoryDate(shareLink.expires_at) })
+            : t('galleryPage.shareLink.neverExpires')}
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void linkActions.onCopy()}
+            disabled={linkActions.isPending}
+            className={`${buttonClassName} flex-1 border-purple-200 bg-white text-purple-700 hover:bg-purple-100`}
+          >
+            {t('galleryPage.shareLink.copy')}
+          </button>
+          <button
+            type="button"
+            onClick={() => void linkActions.onRevoke()}
+            disabled={linkActions.isPending}
+            className={`${buttonClassName} border-red-200 bg-white text-red-600 hover:bg-red-50`}
+          >
+            {t('galleryPage.shareLink.revoke')}
+          </button>
+        </div>
+      </div>
+    );
   }
 
-  return t(`kidWizard.archetypes.${match.id}.label` as const);
+  const expiry = SHARE_LINK_EXPIRY_OPTIONS.find((option) => option.id === expiryId) ?? SHARE_LINK_EXPIRY_OPTIONS[0];
+
+  return (
+    <div className="mb-4 rounded-2xl border border-purple-100 bg-purple-50/60 p-3">
+      {onCancel ? null : (
+        <p className="mb-2 text-xs font-medium text-purple-800">{t('galleryPage.shareLink.expired')}</p>
+      )}
+      <label className="mb-2 flex items-center justify-between gap-2 text-xs font-bold text-purple-700">
+        {t('galleryPage.shareLink.expiryLabel')}
+        <select
+          value={expiryId}
+          onChange={(event) => setExpiryId(event.target.value as ShareLinkExpiryId)}
+          disabled={linkActions.isPending}
+          className="rounded-full border border-purple-200 bg-white px-2 py-1 text-xs font-bold text-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-300"
+        >
+          {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {t(`galleryPage.shareLink.expiry.${option.id}` as const)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => void linkActions.onCreate(expiry.days)}
+          disabled={linkActions.isPending}
+          className={`${buttonClassName} flex-1 border-purple-600 bg-purple-600 text-white hover:bg-purple-700`}
+        >
+          {linkActions.isPending ? t('galleryPage.shareLink.creating') : t('galleryPage.shareLink.create')}
+        </button>
+        {onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={linkActions.isPending}
+            className={`${buttonClassName} border-purple-200 bg-white text-purple-600 hover:bg-purple-100`}
+          >
+            {t('galleryPage.shareLink.cancel')}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
 }
 
-function SharingControl({ storyTitle, value, onChange }: SharingControlProps): JSX.Element {
+function SharingControl({ storyTitle, value, shareLink, linkActions, onChange }: SharingControlProps): JSX.Element {
   const { t } = useTranslation();
-  const getVisibilityLabel = (visibility: StoryVisibility): string =>
-    visibility === 'shared_with_friends'
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const isLinkMode = value === 'public_link' || isCreatingLink;
+  const getVisibilityLabel = (visibility: StoryVisibility): string => {
+    if (visibility === 'public_link') {
+      return t('galleryPage.sharing.link');
+    }
+    return visibility === 'shared_with_friends'
       ? t('galleryPage.sharing.friends')
       : t('galleryPage.sharing.private');
+  };
+
+  const handleSelect = (option: StoryVisibility): void => {
+    if (option === 'public_link') {
+      // A link needs an expiry choice first; an existing link stays as it is.
+      setIsCreatingLink(value !== 'public_link');
+      return;
+    }
+    setIsCreatingLink(false);
+    void onChange(option);
+  };
+
+  const handleCreateLink = async (expiresInDays: number | null): Promise<void> => {
+    await linkActions.onCreate(expiresInDays);
+    setIsCreatingLink(false);
+  };
 
   return (
-    <fieldset className="mb-4 flex items-center justify-between gap-3">
-      <legend className="text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
-        {t('galleryPage.sharing.label')}
-      </legend>
-      <div className="inline-grid grid-cols-2 gap-0.5 rounded-full border border-purple-100 bg-purple-50 p-0.5 shadow-inner">
-        {sharingOptions.map((option) => {
-          const isSelected = value === option;
-          const visibleLabel = getVisibilityLabel(option);
-          const selectedClassName = isSelected
-            ? 'bg-white text-purple-900 shadow-sm'
-            : 'text-purple-500 hover:bg-white/60 hover:text-purple-800';
-
-          return (
-            <button
-              key={option}
-              type="button"
-              aria-label={`${getVisibilityLabel(option)} sharing for ${storyTitle}`}
-              aria-pressed={isSelected}
-              onClick={() => void onChange(option)}
-              className={`min-h-8 min-w-16 rounded-full px-3 py-1 text-center text-[10px] font-black uppercase leading-none transition-colors focus:outline-none focus:ring-2 focus:ring-purple-300 ${selectedClassName}`}
-            >
-              {visibleLabel}
-            </button>
-          );
-        })}
-      </div>
-    </fieldset>
+    <>
+      <fieldset className="mb-4 flex items-center justify-between gap-3">
+        <legend className="text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
+          {t('galleryPage.sharing.label')}
+        </legend>
+        <div className="inline-grid grid-cols-3 gap-0.5 rounded-full border border-purple-100 bg-purple-50 p-0.5 shadow-inner">
+          {sharingOptions.map((option) => {
+            const isSelected = option === 'public_link' ? isLinkMode : value === option && !isCreatingLink;
+            const visibleLabel = getVisibilityLabel(option);
+            const selectedClassName = isSelected
+              ? 'bg-white text-purple-900 shadow-sm'
+              : 'text-purple-500 hover:bg-white/60 hover:text-purple-800';
+
+            return (
+              <button
+                key={option}
+                type="button"
+                aria-label={`${getVisibilityLabel(option)} sharing for ${storyTitle}`}
+                aria-pressed={isSelected}
+                onClick={() => handleSelect(option)}
+                className={`min-h-8 min-w-14 rounded-full px-2 py-1 text-center text-[10px] font-black uppercase leading-none transition-colors focus:outline-none focus:ring-2 focus:ring-purple-300 ${selectedClassName}`}
+              >
+                {visibleLabel}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      {isLinkMode ? (
+        <ShareLinkPanel
+          shareLink={isCreatingLink ? null : shareLink}
+          linkActions={{ ...linkActions, onCreate: handleCreateLink }}
+          onCancel={isCreatingLink ? () => setIsCreatingLink(false) : null}
+        />
+      ) : null}
+    </>
+  );
+}
+
+function OfflineToggle({ isSaved, isPending, onToggle }: OfflineToggleProps): JSX.Element {
+  const { t } = useTranslation();
+  const label = isPending
+    ? t('galleryPage.offline.saving')
+    : isSaved
+      ? t('galleryPage.offline.saved')
+      : t('galleryPage.offline.save');
+
+  return (
+    <button
+      type="button"
+      aria-pressed={isSaved}
+      disabled={isPending}
+      onClick={() => void onToggle()}
+      className={`mb-4 w-full rounded-full border px-3 py-1.5 text-xs font-bold transition-colors disabled:opacity-60 ${
+        isSaved
+          ? 'border-green-200 bg-green-50 text-green-700 hover:bg-green-100'
+          : 'border-purple-100 bg-white text-purple-600 hover:bg-purple-50'
+      }`}
+    >
+      {isSaved ? '✓ ' : '⬇ '}{label}
+    </button>
   );
 }
 
-function StoryCard({ story, onDeleteStory, onUpdateVisibility }: StoryCardProps): JSX.Element {
+function StoryCard({
+  story,
+  onDeleteStory,
+  onUpdateVisibility,
+  shareLink,
+  offline,
+  selection,
+  canRemix,
+}: StoryCardProps): JSX.Element {
   const { t } = useTranslation();
   const fallbackTitle = t('galleryPage.untitledMasterpiece');
   const displayTitle = getStoryDisplayTitle(story.title, fallbackTitle);
@@ -81,15 +277,36 @@ function StoryCard({ story, onDeleteStory, onUpdateVisibility }: StoryCardProps)
     ? getArchetypeLabel(story.profile.archetype, t)
     : null;
   return (
-    <div className="bg-white rounded-[2rem] shadow-xl overflow-hidden group border-2 border-gray-100 hover:border-purple-200 transition-all hover:-translate-y-1 relative">
-      <button
-        type="button"
-        onClick={() => void onDeleteStory(story.id)}
-        className="absolute top-4 end-4 z-30 w-10 h-10 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-red-500 hover:bg-red-500 hover:text-white transition-all shadow-md opacity-0 group-hover:opacity-100 focus:opacity-100"
-        title={t('galleryPage.deleteStoryTitle')}
-      >
-        🗑️
-      </button>
+    <div
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.setData(STORY_DRAG_TYPE, String(story.id));
+        event.dataTransfer.effectAllowed = 'copy';
+      }}
+      className={`bg-white rounded-[2rem] shadow-xl overflow-hidden group border-2 transition-all hover:-translate-y-1 relative ${
+        selection?.isSelected ? 'border-purple-500 ring-4 ring-purple-200' : 'border-gray-100 hover:border-purple-200'
+      }`}
+    >
+      {selection ? (
+        <label className="absolute top-4 start-4 z-30 flex h-10 w-10 cursor-pointer items-center justify-center rounded-full bg-white/90 shadow-md backdrop-blur-sm">
+          <input
+            type="checkbox"
+            checked={selection.isSelected}
+            onChange={selection.onToggle}
+            aria-label={t('galleryPage.bulk.selectStory', { title: displayTitle })}
+            className="h-5 w-5 cursor-pointer accent-purple-600"
+          />
+        </label>
+      ) : (
+        <button
+          type="button"
+          onClick={() => void onDeleteStory(story.id)}
+          className="absolute top-4 end-4 z-30 w-10 h-10 bg-white/90 backdrop-blur-sm rounded-full flex items-center justify-center text-red-500 hover:bg-red-500 hover:text-white transition-all shadow-md opacity-0 group-hover:opacity-100 focus:opacity-100"
+          title={t('galleryPage.deleteStoryTitle')}
+        >
+          🗑️
+        </button>
+      )}
 
       <div className="relative aspect-[3/4] overflow-hidden bg-gray-100">
         {story.cover_image_url ? (
@@ -113,6 +330,11 @@ function StoryCard({ story, onDeleteStory, onUpdateVisibility }: StoryCardProps)
       </div>
 
       <div className="p-5">
+        {story.episode_number ? (
+          <span className="inline-block mb-2 px-3 py-1 bg-brand-light text-brand-primary text-xs font-bold rounded-full uppercase tracking-wide">
+            {t('galleryPage.series.episode', { number: story.episode_number })}
+          </span>
+        ) : null}
         <h3 className="text-xl font-black text-gray-800 leading-tight mb-2 line-clamp-2">
           {displayTitle}
         </h3>
@@ -120,9 +342,13 @@ function StoryCard({ story, onDeleteStory, onUpdateVisibility }: StoryCardProps)
         <SharingControl
           storyTitle={displayTitle}
           value={story.visibility}
+          shareLink={story.share_link}
+          linkActions={shareLink}
           onChange={(visibility) => onUpdateVisibility(story.id, visibility)}
         />
 
+        {offline ? <OfflineToggle {...offline} /> : null}
+
         <div className="flex flex-wrap gap-2">
           <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs font-bold rounded-full uppercase tracking-wide">
             {story.profile.name}
@@ -135,46 +361,164 @@ function StoryCard({ story, onDeleteStory, onUpdateVisibility }: StoryCardProps)
           ) : null}
         </div>
 
-        <div className="mt-4 text-xs text-gray-400 font-medium">
-          {formatStoryDate(story.created_at)}
+        <div className="mt-4 flex items-center justify-between gap-2">
+          <span className="text-xs text-gray-400 font-medium">{formatStoryDate(story.created_at)}</span>
+          {canRemix && !selection ? (
+            <Link
+              to={`/create?remix=${story.id}`}
+              title={t('galleryPage.remixTitle', { title: displayTitle })}
+              className="text-xs font-bold text-purple-600 hover:text-purple-900 transition-colors"
+            >
+              {t('galleryPage.remix')}
+            </Link>
+          ) : null}
         </div>
       </div>
     </div>
   );
 }
 
+function GallerySeriesGroup({ group, renderStoryCard }: GallerySeriesGroupProps): JSX.Element {
+  const { t } = useTranslation();
+  const firstTitle = getStoryDisplayTitle(group.stories[0].title, t('galleryPage.untitledMasterpiece'));
+
+  return (
+    <section className="col-span-full rounded-[2.5rem] border-2 border-dashed border-purple-200 bg-purple-50/40 p-5">
+      <div className="mb-5 flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-2xl font-black text-purple-900">{t('galleryPage.series.title', { title: firstTitle })}</h3>
+        <span className="text-sm font-bold text-purple-600">
+          {t('galleryPage.series.episodes', { count: group.stories.length })}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-8">
+        {group.stories.map(renderStoryCard)}
+      </div>
+    </section>
+  );
+}
+
 function GalleryPage(): JSX.Element {
-  const { isLoading, onDeleteStory, onUpdateVisibility, stories } = useGalleryPage();
+  const {
+    isLoading,
+    offline,
+    onDeleteStory,
+    onUpdateVisibility,
+    search,
+    selection,
+    shareLinks,
+    shelves,
+    stories,
+  } = useGalleryPage();
   const { t } = useTranslation();
+  const isOnline = useOnlineStatus();
+  // Without a network only the books saved for offline can be opened.
+  const visibleStories = isOnline || !offline
+    ? stories
+    : stories.filter((story) => offline.savedStoryIds.has(story.id));
+
+  const renderStoryCard = (story: StoryListItem): JSX.Element => (
+    <StoryCard
+      key={story.id}
+      story={story}
+      onDeleteStory={onDeleteStory}
+      onUpdateVisibility={onUpdateVisibility}
+      shareLink={{
+        isPending: shareLinks.pendingStoryId === story.id,
+        onCreate: (expiresInDays) => shareLinks.onCreate(story.id, expiresInDays),
+        onCopy: () => shareLinks.onCopy(story.id),
+        onRevoke: () => shareLinks.onRevoke(story.id),
+      }}
+      offline={offline
+        ? {
+          isSaved: offline.savedStoryIds.has(story.id),
+          isPending: offline.pendingStoryId === story.id,
+          onToggle: () => offline.onToggle(story.id),
+        }
+        : null}
+      canRemix={isOnline}
+      selection={selection.isActive
+        ? {
+          isSelected: selection.selectedStoryIds.has(story.id),
+          onToggle: () => selection.onToggleStory(story.id),
+        }
+        : null}
+    />
+  );
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8 animate-in fade-in duration-700">
       <div className="flex justify-between items-center mb-8">
         <h2 className="text-4xl font-black text-gray-800">{t('galleryPage.mySavedBooks')}</h2>
+        <div className="flex items-center gap-2">
+          {isOnline && !selection.isActive && stories.length > 0 ? (
+            <button
+              type="button"
+              onClick={selection.onStart}
+              className="rounded-full border border-purple-200 bg-white px-5 py-2 text-sm font-bold text-purple-700 shadow-sm transition-colors hover:bg-purple-50"
+            >
+              {t('galleryPage.bulk.select')}
+            </button>
+          ) : null}
+          {isOnline ? (
+            <Link
+              to="/trash"
+              className="rounded-full px-4 py-2 text-sm font-bold text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            >
+              {t('galleryPage.trash')}
+            </Link>
+          ) : null}
+        </div>
       </div>
 
-      {isLoading ? (
-        <div className="flex justify-center py-20">
-          <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-8">
-          {stories.map((story) => (
-            <StoryCard
-              key={story.id}
-              story={story}
-              onDeleteStory={onDeleteStory}
-              onUpdateVisibility={onUpdateVisibility}
-            />
-          ))}
+      <GalleryFilterBar
+        filters={search.filters}
+        facets={search.facets}
+        total={search.total}
+        isLoading={isLoading}
+        onChangeFilters={search.onChangeFilters}
+      />
+
+      <div className="grid gap-8 lg:grid-cols-[15rem_minmax(0,1fr)]">
+        <GalleryShelves {...shelves} />
+
+        <div>
+          {isOnline && selection.isActive ? (
+            <GalleryBulkBar selection={selection} collections={shelves.collections} loadedCount={stories.length} />
+          ) : null}
+
+          {isLoading ? (
+            <div className="flex justify-center py-20">
+              <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-8">
+              {groupStoriesBySeries(visibleStories).map((group) => (
+                group.seriesId !== null && group.stories.length > 1 ? (
+                  <GallerySeriesGroup key={`series-${group.seriesId}`} group={group} renderStoryCard={renderStoryCard} />
+                ) : (
+                  renderStoryCard(group.stories[0])
+                )
+              ))}
 
-          {stories.length === 0 && (
-            <div className="col-span-full text-center py-20 text-gray-400">
-              <p className="text-xl font-medium italic">{t('galleryPage.noStoriesFound')}</p>
+              {visibleStories.length === 0 && (
+                <div className="col-span-full text-center py-20 text-gray-400">
+                  <p className="text-xl font-medium italic">
+                    {!isOnline
+                      ? t('galleryPage.offline.noSavedStories')
+                      : hasActiveGalleryFilters(search.filters)
+                        ? t('galleryPage.noMatches')
+                        : t('galleryPage.noStoriesFound')}
+                  </p>
+                </div>
+              )}
             </div>
           )}
+
+          {!isLoading && search.hasMore && isOnline ? (
+            <GalleryLoadMore isLoadingMore={search.isLoadingMore} onLoadMore={search.onLoadMore} />
+          ) : null}
         </div>
-      )}
+      </div>
     </div>
   );
 }
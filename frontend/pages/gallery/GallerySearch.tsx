@@ -0,0 +1,225 @@
+/**
+ * Gallery search controls: the filter bar above the grid and the paging footer below it.
+ * Both are driven by the `search` slice of useGalleryPage; filter values round-trip through the URL.
+ */
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import type { StorySearchFacets } from '@api';
+import { useTranslation } from 'react-i18next';
+import {
+  DEFAULT_GALLERY_FILTERS,
+  GALLERY_SORTS,
+  GALLERY_STATUSES,
+  GALLERY_VISIBILITIES,
+  type GalleryFilters,
+  hasActiveGalleryFilters,
+} from './gallery.filters';
+import { getArchetypeLabel, getArtStyleLabel, getLanguageLabel } from './gallery.helpers';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const selectClassName = 'min-w-0 rounded-full border border-purple-200 bg-white px-3 py-2 text-sm font-bold text-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-300';
+
+interface GalleryFilterBarProps {
+  filters: GalleryFilters;
+  facets: StorySearchFacets;
+  total: number;
+  isLoading: boolean;
+  onChangeFilters: (filters: GalleryFilters) => void;
+}
+
+interface FilterSelectProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps): JSX.Element {
+  const { t } = useTranslation();
+
+  return (
+    <label className="flex flex-col gap-1 text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
+      {label}
+      <select
+        value={value}
+        onChange={(event: ChangeEvent<HTMLSelectElement>) => onChange(event.target.value)}
+        className={selectClassName}
+      >
+        <option value="">{t('galleryPage.search.all')}</option>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function GalleryFilterBar({
+  filters,
+  facets,
+  total,
+  isLoading,
+  onChangeFilters,
+}: GalleryFilterBarProps): JSX.Element {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState(filters.q);
+  const [syncedQuery, setSyncedQuery] = useState(filters.q);
+
+  // Back/forward navigation or "Clear" changes the URL under the input; follow it
+  // unless it only echoes what is already typed.
+  if (filters.q !== syncedQuery) {
+    setSyncedQuery(filters.q);
+    if (query.trim() !== filters.q) {
+      setQuery(filters.q);
+    }
+  }
+
+  useEffect(() => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery === filters.q) return;
+
+    const timeoutId = window.setTimeout(() => {
+      onChangeFilters({ ...filters, q: trimmedQuery });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [filters, onChangeFilters, query]);
+
+  const setFilter = <K extends keyof GalleryFilters>(key: K, value: GalleryFilters[K]): void => {
+    onChangeFilters({ ...filters, q: query.trim(), [key]: value });
+  };
+
+  const hasFilters = hasActiveGalleryFilters(filters) || query.trim() !== '';
+
+  return (
+    <section aria-label={t('galleryPage.search.label')} className="mb-8 space-y-4 rounded-3xl border border-purple-100 bg-purple-50/60 p-4">
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder={t('galleryPage.search.placeholder')}
+        aria-label={t('galleryPage.search.label')}
+        className="w-full rounded-full border border-purple-200 bg-white px-4 py-2 text-base font-medium text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-300"
+      />
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        <FilterSelect
+          label={t('galleryPage.search.hero')}
+          value={filters.hero}
+          options={facets.hero_names.map((name) => ({ value: name, label: name }))}
+          onChange={(value) => setFilter('hero', value)}
+        />
+        <FilterSelect
+          label={t('galleryPage.search.archetype')}
+          value={filters.archetype}
+          options={facets.archetypes.map((archetype) => ({ value: archetype, label: getArchetypeLabel(archetype, t) }))}
+          onChange={(value) => setFilter('archetype', value)}
+        />
+        <FilterSelect
+          label={t('galleryPage.search.artStyle')}
+          value={filters.artStyle}
+          options={facets.art_styles.map((artStyle) => ({ value: artStyle, label: getArtStyleLabel(artStyle, t) }))}
+          onChange={(value) => setFilter('artStyle', value)}
+        />
+        <FilterSelect
+          label={t('galleryPage.search.language')}
+          value={filters.language}
+          options={facets.languages.map((language) => ({ value: language, label: getLanguageLabel(language) }))}
+          onChange={(value) => setFilter('language', value)}
+        />
+        <FilterSelect
+          label={t('galleryPage.search.visibility')}
+          value={filters.visibility}
+          options={GALLERY_VISIBILITIES.map((visibility) => ({
+            value: visibility,
+            label: t(`galleryPage.search.visibilities.${visibility}` as const),
+          }))}
+          onChange={(value) => setFilter('visibility', value as GalleryFilters['visibility'])}
+        />
+        <FilterSelect
+          label={t('galleryPage.search.status')}
+          value={filters.status}
+          options={GALLERY_STATUSES.map((status) => ({
+            value: status,
+            label: t(`galleryPage.search.statuses.${status}` as const),
+          }))}
+          onChange={(value) => setFilter('status', value as GalleryFilters['status'])}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm font-medium text-purple-800" aria-live="polite">
+          {isLoading ? null : t('galleryPage.search.results', { count: total })}
+        </p>
+        <div className="flex items-center gap-3">
+          {hasFilters ? (
+            <button
+              type="button"
+              onClick={() => {
+                setQuery('');
+                onChangeFilters({ ...DEFAULT_GALLERY_FILTERS, sort: filters.sort });
+              }}
+              className="rounded-full px-3 py-2 text-sm font-bold text-purple-600 hover:bg-white hover:text-purple-800 focus:outline-none focus:ring-2 focus:ring-purple-300"
+            >
+              {t('galleryPage.search.clear')}
+            </button>
+          ) : null}
+          <label className="flex items-center gap-2 text-sm font-bold text-purple-700">
+            {t('galleryPage.search.sort')}
+            <select
+              value={filters.sort}
+              onChange={(event) => setFilter('sort', event.target.value as GalleryFilters['sort'])}
+              className={selectClassName}
+            >
+              {GALLERY_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {t(`galleryPage.search.sorts.${sort}` as const)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+interface GalleryLoadMoreProps {
+  isLoadingMore: boolean;
+  onLoadMore: () => Promise<void>;
+}
+
+/** Loads the next page when scrolled into view, with a button for browsers without IntersectionObserver. */
+export function GalleryLoadMore({ isLoadingMore, onLoadMore }: GalleryLoadMoreProps): JSX.Element {
+  const { t } = useTranslation();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        void onLoadMore();
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="mt-10 flex justify-center">
+      <button
+        type="button"
+        onClick={() => void onLoadMore()}
+        disabled={isLoadingMore}
+        className="rounded-full border border-purple-200 bg-white px-6 py-3 text-sm font-black uppercase tracking-wide text-purple-700 shadow-sm transition-colors hover:bg-purple-50 disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-purple-300"
+      >
+        {isLoadingMore ? t('galleryPage.search.loadingMore') : t('galleryPage.search.loadMore')}
+      </button>
+    </div>
+  );
+}
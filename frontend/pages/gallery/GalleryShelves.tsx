@@ -0,0 +1,108 @@
+/**
+ * Shelf sidebar of the gallery.
+ * Lists the user's collections, creates new ones, and takes story cards dropped onto a shelf.
+ */
+import { useState, type DragEvent, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import type { GalleryShelves as GalleryShelvesState } from './useGalleryShelves';
+
+/** Drag payload type set by gallery story cards; the data is the story id. */
+export const STORY_DRAG_TYPE = 'application/x-wondercomic-story';
+
+const COLLECTION_NAME_MAX_LENGTH = 60;
+
+function isStoryDrag(event: DragEvent<HTMLElement>): boolean {
+  return Array.from(event.dataTransfer.types).includes(STORY_DRAG_TYPE);
+}
+
+export function GalleryShelves({ collections, isCreating, onCreate, onDropStory }: GalleryShelvesState): JSX.Element {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (await onCreate(name)) {
+      setName('');
+    }
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLLIElement>, collectionId: number): void => {
+    if (!isStoryDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDropTargetId(collectionId);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLLIElement>, collectionId: number): void => {
+    event.preventDefault();
+    setDropTargetId(null);
+    const storyId = Number(event.dataTransfer.getData(STORY_DRAG_TYPE));
+    if (Number.isInteger(storyId) && storyId > 0) {
+      void onDropStory(collectionId, storyId);
+    }
+  };
+
+  return (
+    <aside aria-labelledby="gallery-shelves-heading" className="rounded-3xl border border-purple-100 bg-white p-4 shadow-sm lg:sticky lg:top-24 lg:self-start">
+      <h3 id="gallery-shelves-heading" className="text-[11px] font-bold uppercase tracking-[0.18em] text-gray-400">
+        {t('galleryPage.shelves.title')}
+      </h3>
+      <p className="mt-1 text-xs font-medium text-gray-500">{t('galleryPage.shelves.dropHint')}</p>
+
+      {collections.length === 0 ? (
+        <p className="mt-4 text-sm font-medium italic text-gray-400">{t('galleryPage.shelves.empty')}</p>
+      ) : (
+        <ul className="mt-4 space-y-2">
+          {collections.map((collection) => (
+            <li
+              key={collection.id}
+              onDragOver={(event) => handleDragOver(event, collection.id)}
+              onDragLeave={() => setDropTargetId((currentId) => (currentId === collection.id ? null : currentId))}
+              onDrop={(event) => handleDrop(event, collection.id)}
+              className={`rounded-2xl border-2 transition-colors ${
+                dropTargetId === collection.id
+                  ? 'border-purple-400 bg-purple-50'
+                  : 'border-transparent hover:bg-purple-50/60'
+              }`}
+            >
+              <Link
+                to={`/collections/${collection.id}`}
+                className="flex items-center justify-between gap-2 px-3 py-2 text-sm font-bold text-purple-900"
+              >
+                <span className="truncate">
+                  {collection.visibility === 'shared_with_friends' ? (
+                    <span aria-label={t('galleryPage.shelves.sharedWithFriends')} className="me-1">👥</span>
+                  ) : null}
+                  {collection.name}
+                </span>
+                <span className="shrink-0 rounded-full bg-purple-100 px-2 py-0.5 text-xs text-purple-700">
+                  {collection.story_count}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={(event) => void handleSubmit(event)} className="mt-4 flex gap-2">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          maxLength={COLLECTION_NAME_MAX_LENGTH}
+          placeholder={t('galleryPage.shelves.newPlaceholder')}
+          aria-label={t('galleryPage.shelves.newLabel')}
+          className="min-w-0 flex-1 rounded-full border border-purple-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-300"
+        />
+        <button
+          type="submit"
+          disabled={isCreating || !name.trim()}
+          className="rounded-full bg-purple-600 px-3 py-1.5 text-sm font-bold text-white transition-colors hover:bg-purple-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-purple-300"
+        >
+          {t('galleryPage.shelves.create')}
+        </button>
+      </form>
+    </aside>
+  );
+}
@@ -0,0 +1,96 @@
+import type { StorySearchParams, StorySort, StoryStatusFilter, StoryVisibility } from '@api';
+
+/**
+ * Gallery search state and its query-string form, so a filtered gallery can be
+ * bookmarked, shared, and restored with the back button.
+ */
+export interface GalleryFilters {
+  q: string;
+  hero: string;
+  archetype: string;
+  artStyle: string;
+  language: string;
+  visibility: StoryVisibility | '';
+  status: StoryStatusFilter | '';
+  sort: StorySort;
+}
+
+export const GALLERY_PAGE_SIZE = 24;
+
+export const GALLERY_SORTS: StorySort[] = ['newest', 'oldest', 'title', 'title_desc'];
+export const GALLERY_VISIBILITIES: StoryVisibility[] = ['private', 'shared_with_friends', 'public_link'];
+export const GALLERY_STATUSES: StoryStatusFilter[] = ['unlocked', 'draft'];
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  q: '',
+  hero: '',
+  archetype: '',
+  artStyle: '',
+  language: '',
+  visibility: '',
+  status: '',
+  sort: 'newest',
+};
+
+/** Query-string key for each filter; `artStyle` and `language` use the short forms. */
+const QUERY_KEYS: Record<keyof GalleryFilters, string> = {
+  q: 'q',
+  hero: 'hero',
+  archetype: 'archetype',
+  artStyle: 'style',
+  language: 'lang',
+  visibility: 'visibility',
+  status: 'status',
+  sort: 'sort',
+};
+
+function pickOption<T extends string>(value: string | null, options: readonly T[]): T | '' {
+  return options.find((option) => option === value) ?? '';
+}
+
+export function parseGalleryFilters(searchParams: URLSearchParams): GalleryFilters {
+  const read = (key: keyof GalleryFilters): string => searchParams.get(QUERY_KEYS[key])?.trim() ?? '';
+
+  return {
+    q: read('q'),
+    hero: read('hero'),
+    archetype: read('archetype'),
+    artStyle: read('artStyle'),
+    language: read('language'),
+    visibility: pickOption(read('visibility'), GALLERY_VISIBILITIES),
+    status: pickOption(read('status'), GALLERY_STATUSES),
+    sort: pickOption(read('sort'), GALLERY_SORTS) || DEFAULT_GALLERY_FILTERS.sort,
+  };
+}
+
+/** Only non-default values are written, so the plain gallery keeps a clean URL. */
+export function serializeGalleryFilters(filters: GalleryFilters): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  (Object.keys(QUERY_KEYS) as (keyof GalleryFilters)[]).forEach((key) => {
+    const value = filters[key].trim();
+    if (value && value !== DEFAULT_GALLERY_FILTERS[key]) {
+      searchParams.set(QUERY_KEYS[key], value);
+    }
+  });
+  return searchParams;
+}
+
+export function hasActiveGalleryFilters(filters: GalleryFilters): boolean {
+  return (Object.keys(QUERY_KEYS) as (keyof GalleryFilters)[])
+    .some((key) => key !== 'sort' && filters[key].trim() !== '');
+}
+
+export function toStorySearchParams(filters: GalleryFilters, offset: number): StorySearchParams {
+  return {
+    q: filters.q || undefined,
+    hero: filters.hero || undefined,
+    archetype: filters.archetype || undefined,
+    artStyle: filters.artStyle || undefined,
+    language: filters.language || undefined,
+    visibility: filters.visibility || undefined,
+    status: filters.status || undefined,
+    sort: filters.sort,
+    limit: GALLERY_PAGE_SIZE,
+    offset,
+  };
+}
@@ -1,4 +1,7 @@
-import type { StoryVisibility } from '@api';
+import type { StoryListItem, StoryVisibility } from '@api';
+import type { TFunction } from 'i18next';
+import { ARCHETYPES, ART_STYLES } from '@/components/kidWizard.constants';
+import { supportedLanguages } from '@/i18n.languages';
 
 /**
  * Small pure helpers for gallery display text.
@@ -12,5 +15,134 @@ export function formatStoryDate(createdAt: string): string {
 }
 
 export function getVisibilityLabel(visibility: StoryVisibility): string {
+  if (visibility === 'public_link') {
+    return 'Public link';
+  }
   return visibility === 'shared_with_friends' ? 'Share with friends' : 'Private';
 }
+
+/** Address of the read-only page behind a public share link. */
+export function getStoryShareUrl(token: string): string {
+  return `${window.location.origin}/s/${token}`;
+}
+
+/** Stories store the archetype id or its English label; both map to the translated label. */
+export function getArchetypeLabel(archetype: string, t: TFunction<'translation'>): string {
+  const match = ARCHETYPES.find((option) => option.id === archetype || option.label === archetype);
+
+  if (!match) {
+    return archetype;
+  }
+
+  return t(`kidWizard.archetypes.${match.id}.label` as const);
+}
+
+export function getArtStyleLabel(artStyle: string, t: TFunction<'translation'>): string {
+  const match = ART_STYLES.find((option) => option.id === artStyle || option.label === artStyle);
+
+  if (!match) {
+    return artStyle;
+  }
+
+  return t(`kidWizard.artStyles.${match.id}.label` as const);
+}
+
+/** One gallery tile: a story on its own, or the loaded episodes of a series. */
+export interface GalleryStoryGroup {
+  /** Null for a story that is not part of a series. */
+  seriesId: number | null;
+  stories: StoryListItem[];
+}
+
+/**
+ * Gather the episodes of each series into one group, placed where its first episode
+ * appears in the current sort; episodes inside a group read in order.
+ */
+export function groupStoriesBySeries(stories: StoryListItem[]): GalleryStoryGroup[] {
+  const groups: GalleryStoryGroup[] = [];
+  const seriesGroups = new Map<number, GalleryStoryGroup>();
+
+  for (const story of stories) {
+    // Lists cached for offline reading before series existed have no series fields.
+    if (!story.series_id) {
+      groups.push({ seriesId: null, stories: [story] });
+      continue;
+    }
+
+    const seriesGroup = seriesGroups.get(story.series_id);
+    if (seriesGroup) {
+      seriesGroup.stories.push(story);
+    } else {
+      const group = { seriesId: story.series_id, stories: [story] };
+      seriesGroups.set(story.series_id, group);
+      groups.push(group);
+    }
+  }
+
+  for (const group of seriesGroups.values()) {
+    group.stories.sort((first, second) => (first.episode_number ?? 0) - (second.episode_number ?? 0));
+  }
+
+  return groups;
+}
+
+/** Story languages are shown by their own name, as in the language switcher. */
+export function getLanguageLabel(languageCode: string): string {
+  return supportedLanguages.find((language) => language.code === languageCode)?.label ?? languageCode;
+}
+
+/** A story taken out of the grid, kept with its position so an undo can put it back. */
+export interface RemovedStory {
+  story: StoryListItem;
+  index: number;
+}
+
+export function removeStories(
+  stories: StoryListItem[],
+  storyIds: ReadonlySet<number>,
+): { remaining: StoryListItem[]; removed: RemovedStory[] } {
+  const remaining: StoryListItem[] = [];
+  const removed: RemovedStory[] = [];
+
+  stories.forEach((story, index) => {
+    if (storyIds.has(story.id)) {
+      removed.push({ story, index });
+    } else {
+      remaining.push(story);
+    }
+  });
+
+  return { remaining, removed };
+}
+
+/** Put removed stories back where they were; stories loaded again in the meantime are not doubled. */
+export function restoreStories(stories: StoryListItem[], removed: RemovedStory[]): StoryListItem[] {
+  const restored = [...stories];
+  const loadedIds = new Set(stories.map((story) => story.id));
+
+  for (const { story, index } of [...removed].sort((first, second) => first.index - second.index)) {
+    if (!loadedIds.has(story.id)) {
+      restored.splice(Math.min(index, restored.length), 0, story);
+    }
+  }
+
+  return restored;
+}
+
+/** Number repeated file names inside one archive, e.g. `fox.epub` and `fox-2.epub`. */
+export function getUniqueFileNames(fileNames: string[]): string[] {
+  const usedNames = new Set<string>();
+
+  return fileNames.map((fileName) => {
+    const extensionStart = fileName.lastIndexOf('.');
+    const baseName = extensionStart > 0 ? fileName.slice(0, extensionStart) : fileName;
+    const extension = extensionStart > 0 ? fileName.slice(extensionStart) : '';
+    let uniqueName = fileName;
+
+    for (let copy = 2; usedNames.has(uniqueName); copy += 1) {
+      uniqueName = `${baseName}-${copy}${extension}`;
+    }
+    usedNames.add(uniqueName);
+    return uniqueName;
+  });
+}
@@ -1,45 +1,284 @@
 /**
  * Gallery page controller.
- * Owns loading, deletion, and the small amount of page state behind the gallery UI.
+ * Owns paged search, shelves, deletion to the trash, sharing, and the small amount of page state behind the gallery UI.
+ * Search filters live in the URL query string; the loaded pages live here.
+ * Bulk changes to selected stories show at once but only reach the server after an undo grace period,
+ * or as the page closes, whichever comes first.
  */
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
-import { deleteStory, getStories, type StoryListItem, type StoryVisibility, updateStoryVisibility } from '@api';
+import {
+  addStoryToCollection,
+  createStoryShareLink,
+  isOfflineSupported,
+  listOfflineStoryIds,
+  moveStoryToTrash,
+  removeStoryFromOffline,
+  revokeStoryShareLink,
+  saveStoryForOffline,
+  searchStories,
+  type StoryDetailResponse,
+  type StoryListItem,
+  type StorySearchFacets,
+  type StoryVisibility,
+  updateStoryVisibility,
+} from '@api';
 import { useAuth } from '@/app/auth';
+import { renderStoryEpub } from '@/pages/story/story.epub';
+import { downloadBlob, getStoryExportFileName } from '@/pages/story/story.helpers';
+import { buildZipArchive } from '@/utils';
+import {
+  type GalleryFilters,
+  parseGalleryFilters,
+  serializeGalleryFilters,
+  toStorySearchParams,
+} from './gallery.filters';
+import {
+  getStoryDisplayTitle,
+  getStoryShareUrl,
+  getUniqueFileNames,
+  type RemovedStory,
+  removeStories,
+  restoreStories,
+} from './gallery.helpers';
+import { type GalleryShelves, useGalleryShelves } from './useGalleryShelves';
+
+type AudienceVisibility = Exclude<StoryVisibility, 'public_link'>;
+
+/** Multi-select mode for changing many stories at once. */
+export interface GallerySelection {
+  isActive: boolean;
+  /** Selected stories among the loaded ones. */
+  selectedStoryIds: Set<number>;
+  isExporting: boolean;
+  onStart: () => void;
+  onFinish: () => void;
+  onToggleStory: (storyId: number) => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDelete: () => void;
+  onUpdateVisibility: (visibility: AudienceVisibility) => void;
+  onAddToCollection: (collectionId: number) => void;
+  onExport: () => Promise<void>;
+}
 
 interface UseGalleryPageResult {
   isLoading: boolean;
   stories: StoryListItem[];
+  search: {
+    filters: GalleryFilters;
+    facets: StorySearchFacets;
+    /** Stories matching the filters on the server, loaded or not. */
+    total: number;
+    hasMore: boolean;
+    isLoadingMore: boolean;
+    onChangeFilters: (filters: GalleryFilters) => void;
+    onLoadMore: () => Promise<void>;
+  };
+  /** Collections shown as shelves beside the grid. */
+  shelves: GalleryShelves;
   onDeleteStory: (storyId: number) => Promise<void>;
-  onUpdateVisibility: (storyId: number, visibility: StoryVisibility) => Promise<void>;
+  onUpdateVisibility: (storyId: number, visibility: AudienceVisibility) => Promise<void>;
+  shareLinks: {
+    pendingStoryId: number | null;
+    onCreate: (storyId: number, expiresInDays: number | null) => Promise<void>;
+    onCopy: (storyId: number) => Promise<void>;
+    onRevoke: (storyId: number) => Promise<void>;
+  };
+  selection: GallerySelection;
+  /** Offline copies; null when the browser has no Cache API or service worker. */
+  offline: {
+    savedStoryIds: Set<number>;
+    pendingStoryId: number | null;
+    onToggle: (storyId: number) => Promise<void>;
+  } | null;
+}
+
+interface BulkCommitOptions {
+  /** The page is closing: requests must outlive it and cannot wait on one another. */
+  keepalive?: boolean;
 }
 
+/** A bulk change already shown in the gallery and waiting for its undo window to close. */
+interface PendingBulkAction {
+  storyIds: number[];
+  /** Stories taken out of the gallery until the change is sent or undone. */
+  hiddenStoryIds: number[];
+  toastId: string | number;
+  timerId: number;
+  /** Sends the change to the server. */
+  commit: (options?: BulkCommitOptions) => Promise<void>;
+  /** Puts the gallery back as it was before the change. */
+  undo: () => void;
+}
+
+interface BulkActionRequest {
+  storyIds: number[];
+  hiddenStoryIds?: number[];
+  message: string;
+  commit: (options?: BulkCommitOptions) => Promise<void>;
+  undo: () => void;
+}
+
+export const BULK_UNDO_GRACE_MS = 6000;
+
+const BULK_EXPORT_FILE_NAME = 'stories.zip';
+
+const EMPTY_FACETS: StorySearchFacets = { hero_names: [], archetypes: [], art_styles: [], languages: [] };
+
 export function useGalleryPage(): UseGalleryPageResult {
   const { t } = useTranslation();
   const { accessToken } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchKey = searchParams.toString();
+  const filters = useMemo(() => parseGalleryFilters(new URLSearchParams(searchKey)), [searchKey]);
   const [stories, setStories] = useState<StoryListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<StorySearchFacets>(EMPTY_FACETS);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped per search so a slow page of an older search can't land in a newer one.
+  const searchRequestRef = useRef(0);
+  const [offlineStoryIds, setOfflineStoryIds] = useState<Set<number>>(() => new Set());
+  const [pendingOfflineStoryId, setPendingOfflineStoryId] = useState<number | null>(null);
+  const [pendingShareStoryId, setPendingShareStoryId] = useState<number | null>(null);
+  const canSaveOffline = isOfflineSupported();
+  const shelves = useGalleryShelves();
+  const refreshShelves = shelves.onRefresh;
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
+  const [isExportingSelection, setIsExportingSelection] = useState(false);
+  const pendingBulkActionRef = useRef<PendingBulkAction | null>(null);
+  // Selections survive new pages and deletes, so only count stories still loaded.
+  const selectedStories = useMemo(
+    () => stories.filter((story) => selectedIds.has(story.id)),
+    [selectedIds, stories],
+  );
+  const selectedStoryIds = useMemo(() => new Set(selectedStories.map((story) => story.id)), [selectedStories]);
+
+  const showLoadError = useCallback((error: unknown) => {
+    console.error('Failed to load stories:', error);
+    const message = error instanceof Error ? error.message : t('galleryPage.errors.unknown');
+    toast.error(t('galleryPage.notifications.loadFailed', { message }));
+  }, [t]);
 
-  const loadStories = useCallback(async () => {
+  useEffect(() => {
     if (!accessToken) return;
+    const requestId = searchRequestRef.current + 1;
+    searchRequestRef.current = requestId;
     setIsLoading(true);
 
+    searchStories(accessToken, toStorySearchParams(filters, 0))
+      .then((page) => {
+        if (searchRequestRef.current !== requestId) return;
+        setStories(page.items);
+        setTotal(page.total);
+        setFacets(page.facets);
+      })
+      .catch((error: unknown) => {
+        if (searchRequestRef.current === requestId) {
+          showLoadError(error);
+        }
+      })
+      .finally(() => {
+        if (searchRequestRef.current === requestId) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      // A newer search or unmount makes this one stale.
+      searchRequestRef.current += 1;
+    };
+  }, [accessToken, filters, showLoadError]);
+
+  const hasMore = stories.length < total;
+
+  const handleLoadMore = useCallback(async () => {
+    if (!accessToken || isLoading || isLoadingMore || !hasMore) return;
+    const requestId = searchRequestRef.current;
+
+    // A delete still in its undo window is not on the server yet: step over those stories and keep them hidden.
+    const hiddenIds = new Set(pendingBulkActionRef.current?.hiddenStoryIds);
+
+    setIsLoadingMore(true);
     try {
-      const nextStories = await getStories(accessToken);
-      setStories(nextStories);
+      const page = await searchStories(accessToken, toStorySearchParams(filters, stories.length + hiddenIds.size));
+      if (searchRequestRef.current !== requestId) return;
+      setStories((currentStories) => {
+        // Skip stories that shifted into this page after a delete.
+        const loadedIds = new Set(currentStories.map((story) => story.id));
+        return [
+          ...currentStories,
+          ...page.items.filter((story) => !loadedIds.has(story.id) && !hiddenIds.has(story.id)),
+        ];
+      });
+      setTotal(Math.max(0, page.total - hiddenIds.size));
     } catch (error) {
-      console.error('Failed to load stories:', error);
-      const message = error instanceof Error ? error.message : t('galleryPage.errors.unknown');
-      toast.error(t('galleryPage.notifications.loadFailed', { message }));
+      if (searchRequestRef.current === requestId) {
+        showLoadError(error);
+      }
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
-  }, [accessToken, t]);
+  }, [accessToken, filters, hasMore, isLoading, isLoadingMore, showLoadError, stories.length]);
+
+  const handleChangeFilters = useCallback((nextFilters: GalleryFilters) => {
+    setSelectedIds(new Set());
+    setSearchParams(serializeGalleryFilters(nextFilters));
+  }, [setSearchParams]);
 
   useEffect(() => {
-    void loadStories();
-  }, [loadStories]);
+    if (!canSaveOffline) return;
+    let isMounted = true;
+
+    listOfflineStoryIds()
+      .then((storyIds) => {
+        if (isMounted) {
+          setOfflineStoryIds(new Set(storyIds));
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to read offline stories:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [canSaveOffline]);
+
+  const handleToggleOffline = useCallback(async (storyId: number) => {
+    if (!accessToken) return;
+    const isSaved = offlineStoryIds.has(storyId);
+
+    setPendingOfflineStoryId(storyId);
+    try {
+      if (isSaved) {
+        await removeStoryFromOffline(storyId);
+      } else {
+        await saveStoryForOffline(accessToken, storyId);
+      }
+      setOfflineStoryIds((previousIds) => {
+        const nextIds = new Set(previousIds);
+        if (isSaved) {
+          nextIds.delete(storyId);
+        } else {
+          nextIds.add(storyId);
+        }
+        return nextIds;
+      });
+      toast.success(isSaved
+        ? t('galleryPage.notifications.removedFromOffline')
+        : t('galleryPage.notifications.savedForOffline'));
+    } catch (error) {
+      console.error('Failed to update offline copy:', error);
+      toast.error(t('galleryPage.notifications.offlineFailed'));
+    } finally {
+      setPendingOfflineStoryId(null);
+    }
+  }, [accessToken, offlineStoryIds, t]);
 
   const handleDeleteStory = useCallback(async (storyId: number) => {
     if (!accessToken) return;
@@ -49,22 +288,42 @@ export function useGalleryPage(): UseGalleryPageResult {
     }
 
     try {
-      await deleteStory(accessToken, storyId);
+      await moveStoryToTrash(accessToken, storyId);
       setStories((previousStories) => previousStories.filter((story) => story.id !== storyId));
+      setTotal((previousTotal) => Math.max(0, previousTotal - 1));
+      if (offlineStoryIds.has(storyId)) {
+        setOfflineStoryIds((previousIds) => new Set([...previousIds].filter((id) => id !== storyId)));
+        removeStoryFromOffline(storyId).catch((error: unknown) => {
+          console.error('Failed to remove offline copy:', error);
+        });
+      }
+      void refreshShelves();
       toast.success(t('galleryPage.notifications.storyDeleted'));
     } catch (error) {
       console.error('Failed to delete story:', error);
       toast.error(t('galleryPage.notifications.deleteFailed'));
     }
-  }, [accessToken, t]);
+  }, [accessToken, offlineStoryIds, refreshShelves, t]);
 
-  const handleUpdateVisibility = useCallback(async (storyId: number, visibility: StoryVisibility) => {
+  const applySharingUpdate = useCallback((updatedStory: StoryDetailResponse) => {
+    setStories((currentStories) => currentStories.map((story) => (
+      story.id === updatedStory.id
+        ? { ...story, visibility: updatedStory.visibility, share_link: updatedStory.share_link }
+        : story
+    )));
+  }, []);
+
+  const handleUpdateVisibility = useCallback(async (storyId: number, visibility: AudienceVisibility) => {
     if (!accessToken) return;
 
     const previousStory = stories.find((story) => story.id === storyId);
     if (!previousStory) {
       return;
     }
+    // Leaving link sharing turns the link off for everyone who has it.
+    if (previousStory.share_link && !window.confirm(t('galleryPage.shareLink.confirmRevoke'))) {
+      return;
+    }
 
     setStories((currentStories) => currentStories.map((story) => (
       story.id === storyId ? { ...story, visibility } : story
@@ -72,9 +331,7 @@ export function useGalleryPage(): UseGalleryPageResult {
 
     try {
       const updatedStory = await updateStoryVisibility(accessToken, storyId, visibility);
-      setStories((currentStories) => currentStories.map((story) => (
-        story.id === storyId ? { ...story, visibility: updatedStory.visibility } : story
-      )));
+      applySharingUpdate(updatedStory);
       const successMessage = visibility === 'shared_with_friends'
         ? t('galleryPage.notifications.sharedWithFriends')
         : t('galleryPage.notifications.setPrivate');
@@ -86,12 +343,334 @@ export function useGalleryPage(): UseGalleryPageResult {
       )));
       toast.error(t('galleryPage.notifications.shareFailed'));
     }
-  }, [accessToken, stories, t]);
+  }, [accessToken, applySharingUpdate, stories, t]);
+
+  const handleCreateShareLink = useCallback(async (storyId: number, expiresInDays: number | null) => {
+    if (!accessToken) return;
+
+    setPendingShareStoryId(storyId);
+    try {
+      applySharingUpdate(await createStoryShareLink(accessToken, storyId, expiresInDays));
+      toast.success(t('galleryPage.notifications.linkCreated'));
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      toast.error(t('galleryPage.notifications.linkFailed'));
+    } finally {
+      setPendingShareStoryId(null);
+    }
+  }, [accessToken, applySharingUpdate, t]);
+
+  const handleCopyShareLink = useCallback(async (storyId: number) => {
+    const shareLink = stories.find((story) => story.id === storyId)?.share_link;
+    if (!shareLink) return;
+
+    try {
+      await navigator.clipboard.writeText(getStoryShareUrl(shareLink.token));
+      toast.success(t('galleryPage.notifications.linkCopied'));
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast.error(t('galleryPage.notifications.copyFailed'));
+    }
+  }, [stories, t]);
+
+  const handleRevokeShareLink = useCallback(async (storyId: number) => {
+    if (!accessToken) return;
+    if (!window.confirm(t('galleryPage.shareLink.confirmRevoke'))) {
+      return;
+    }
+
+    setPendingShareStoryId(storyId);
+    try {
+      applySharingUpdate(await revokeStoryShareLink(accessToken, storyId));
+      toast.success(t('galleryPage.notifications.linkRevoked'));
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      toast.error(t('galleryPage.notifications.linkFailed'));
+    } finally {
+      setPendingShareStoryId(null);
+    }
+  }, [accessToken, applySharingUpdate, t]);
+
+  const flushPendingBulkAction = useCallback((options?: BulkCommitOptions) => {
+    const pending = pendingBulkActionRef.current;
+    if (!pending) return;
+
+    pendingBulkActionRef.current = null;
+    window.clearTimeout(pending.timerId);
+    toast.dismiss(pending.toastId);
+    void pending.commit(options);
+  }, []);
+
+  // Leaving the gallery sends a change still in its undo window rather than dropping it.
+  useEffect(() => () => flushPendingBulkAction(), [flushPendingBulkAction]);
+
+  // Closing or reloading the tab never unmounts the gallery, so send the change as the page goes.
+  useEffect(() => {
+    const handlePageHide = (): void => flushPendingBulkAction({ keepalive: true });
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [flushPendingBulkAction]);
+
+  const handleUndoBulkAction = useCallback(() => {
+    const pending = pendingBulkActionRef.current;
+    if (!pending) return;
+
+    pendingBulkActionRef.current = null;
+    window.clearTimeout(pending.timerId);
+    pending.undo();
+    setSelectedIds(new Set(pending.storyIds));
+    setIsSelecting(true);
+  }, []);
+
+  const scheduleBulkAction = useCallback(({ storyIds, hiddenStoryIds = [], message, commit, undo }: BulkActionRequest) => {
+    // Only one change can be undone at a time, so the previous one goes through now.
+    flushPendingBulkAction();
+    setSelectedIds(new Set());
+    setIsSelecting(false);
+
+    const toastId = toast.success(message, {
+      duration: BULK_UNDO_GRACE_MS,
+      action: { label: t('galleryPage.bulk.undo'), onClick: handleUndoBulkAction },
+    });
+    const timerId = window.setTimeout(() => {
+      if (pendingBulkActionRef.current?.timerId === timerId) {
+        pendingBulkActionRef.current = null;
+        void commit();
+      }
+    }, BULK_UNDO_GRACE_MS);
+    pendingBulkActionRef.current = { storyIds, hiddenStoryIds, toastId, timerId, commit, undo };
+  }, [flushPendingBulkAction, handleUndoBulkAction, t]);
+
+  const handleToggleSelectedStory = useCallback((storyId: number) => {
+    setSelectedIds((previousIds) => {
+      const nextIds = new Set(previousIds);
+      if (nextIds.has(storyId)) {
+        nextIds.delete(storyId);
+      } else {
+        nextIds.add(storyId);
+      }
+      return nextIds;
+    });
+  }, []);
+
+  const handleFinishSelecting = useCallback(() => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  }, []);
+
+  const handleBulkDelete = useCallback(() => {
+    if (!accessToken || selectedStories.length === 0) return;
+
+    const { remaining, removed } = removeStories(stories, selectedStoryIds);
+    setStories(remaining);
+    setTotal((previousTotal) => Math.max(0, previousTotal - removed.length));
+
+    const commit = async (options?: BulkCommitOptions): Promise<void> => {
+      const results = await Promise.allSettled(
+        removed.map(({ story }) => moveStoryToTrash(accessToken, story.id, options)),
+      );
+      const failed: RemovedStory[] = [];
+      const deletedIds: number[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          console.error('Failed to delete story:', result.reason);
+          failed.push(removed[index]);
+        } else {
+          deletedIds.push(removed[index].story.id);
+        }
+      });
+
+      const offlineDeletedIds = deletedIds.filter((storyId) => offlineStoryIds.has(storyId));
+      if (offlineDeletedIds.length > 0) {
+        setOfflineStoryIds((previousIds) => new Set([...previousIds].filter((id) => !offlineDeletedIds.includes(id))));
+        offlineDeletedIds.forEach((storyId) => {
+          removeStoryFromOffline(storyId).catch((error: unknown) => {
+            console.error('Failed to remove offline copy:', error);
+          });
+        });
+      }
+      if (failed.length > 0) {
+        setStories((currentStories) => restoreStories(currentStories, failed));
+        setTotal((previousTotal) => previousTotal + failed.length);
+        toast.error(t('galleryPage.bulk.notifications.deleteFailed', { count: failed.length }));
+      }
+      void refreshShelves();
+    };
+
+    const removedIds = removed.map(({ story }) => story.id);
+    scheduleBulkAction({
+      storyIds: removedIds,
+      hiddenStoryIds: removedIds,
+      message: t('galleryPage.bulk.notifications.deleted', { count: removed.length }),
+      commit,
+      undo: () => {
+        setStories((currentStories) => restoreStories(currentStories, removed));
+        setTotal((previousTotal) => previousTotal + removed.length);
+      },
+    });
+  }, [accessToken, offlineStoryIds, refreshShelves, scheduleBulkAction, selectedStories, selectedStoryIds, stories, t]);
+
+  const handleBulkUpdateVisibility = useCallback((visibility: AudienceVisibility) => {
+    if (!accessToken || selectedStories.length === 0) return;
+
+    const changedStories = selectedStories.filter((story) => story.visibility !== visibility);
+    // Leaving link sharing turns the links off for everyone who has them.
+    if (changedStories.some((story) => story.share_link) && !window.confirm(t('galleryPage.bulk.confirmRevokeLinks'))) {
+      return;
+    }
+    const previousVisibility = new Map(changedStories.map((story) => [story.id, story.visibility]));
+    const restoreVisibility = (storyIds: number[]): void => {
+      setStories((currentStories) => currentStories.map((story) => (
+        storyIds.includes(story.id) ? { ...story, visibility: previousVisibility.get(story.id) ?? story.visibility } : story
+      )));
+    };
+
+    setStories((currentStories) => currentStories.map((story) => (
+      previousVisibility.has(story.id) ? { ...story, visibility } : story
+    )));
+
+    const commit = async (options?: BulkCommitOptions): Promise<void> => {
+      const results = await Promise.allSettled(
+        changedStories.map((story) => updateStoryVisibility(accessToken, story.id, visibility, options)),
+      );
+      const failedIds: number[] = [];
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          applySharingUpdate(result.value);
+        } else {
+          console.error('Failed to update story visibility:', result.reason);
+          failedIds.push(changedStories[index].id);
+        }
+      });
+      if (failedIds.length > 0) {
+        restoreVisibility(failedIds);
+        toast.error(t('galleryPage.bulk.notifications.shareFailed', { count: failedIds.length }));
+      }
+    };
+
+    scheduleBulkAction({
+      storyIds: selectedStories.map((story) => story.id),
+      message: visibility === 'shared_with_friends'
+        ? t('galleryPage.bulk.notifications.sharedWithFriends', { count: selectedStories.length })
+        : t('galleryPage.bulk.notifications.setPrivate', { count: selectedStories.length }),
+      commit,
+      undo: () => restoreVisibility([...previousVisibility.keys()]),
+    });
+  }, [accessToken, applySharingUpdate, scheduleBulkAction, selectedStories, t]);
+
+  const handleBulkAddToCollection = useCallback((collectionId: number) => {
+    const collection = shelves.collections.find((candidate) => candidate.id === collectionId);
+    if (!accessToken || !collection || selectedStories.length === 0) return;
+
+    const storyIds = selectedStories.map((story) => story.id);
+    const commit = async (options?: BulkCommitOptions): Promise<void> => {
+      let failedCount = 0;
+      const addStory = async (storyId: number): Promise<void> => {
+        try {
+          await addStoryToCollection(accessToken, collectionId, storyId, options);
+        } catch (error) {
+          console.error('Failed to add story to collection:', error);
+          failedCount += 1;
+        }
+      };
+      if (options?.keepalive) {
+        // A closing page cannot wait for one request before sending the next.
+        await Promise.all(storyIds.map(addStory));
+      } else {
+        // One at a time so the books land on the shelf in gallery order.
+        for (const storyId of storyIds) {
+          await addStory(storyId);
+        }
+      }
+      if (failedCount > 0) {
+        toast.error(t('galleryPage.bulk.notifications.addFailed', { count: failedCount, name: collection.name }));
+      }
+      await refreshShelves();
+    };
+
+    scheduleBulkAction({
+      storyIds,
+      message: t('galleryPage.bulk.notifications.addedToShelf', { count: storyIds.length, name: collection.name }),
+      commit,
+      // Nothing is shown on the shelf until the change is sent.
+      undo: () => undefined,
+    });
+  }, [accessToken, refreshShelves, scheduleBulkAction, selectedStories, shelves.collections, t]);
+
+  const handleExportSelection = useCallback(async () => {
+    if (!accessToken || isExportingSelection || selectedStories.length === 0) return;
+
+    setIsExportingSelection(true);
+    try {
+      const files: Blob[] = [];
+      // One book at a time keeps image downloads from piling up.
+      for (const story of selectedStories) {
+        files.push(await renderStoryEpub(accessToken, { storyId: story.id, ownerUserId: null }));
+      }
+      const fallbackTitle = t('galleryPage.untitledMasterpiece');
+      const fileNames = getUniqueFileNames(selectedStories.map((story) => (
+        getStoryExportFileName(getStoryDisplayTitle(story.title, fallbackTitle), 'epub')
+      )));
+
+      if (files.length === 1) {
+        downloadBlob(files[0], fileNames[0]);
+      } else {
+        const entries = await Promise.all(files.map(async (file, index) => ({
+          path: fileNames[index],
+          data: new Uint8Array(await file.arrayBuffer()),
+        })));
+        downloadBlob(new Blob([buildZipArchive(entries)], { type: 'application/zip' }), BULK_EXPORT_FILE_NAME);
+      }
+      toast.success(t('galleryPage.bulk.notifications.exported', { count: files.length }));
+    } catch (error) {
+      console.error('Failed to export stories:', error);
+      toast.error(t('galleryPage.bulk.notifications.exportFailed'));
+    } finally {
+      setIsExportingSelection(false);
+    }
+  }, [accessToken, isExportingSelection, selectedStories, t]);
 
   return {
     isLoading,
     stories,
+    search: {
+      filters,
+      facets,
+      total,
+      hasMore,
+      isLoadingMore,
+      onChangeFilters: handleChangeFilters,
+      onLoadMore: handleLoadMore,
+    },
+    shelves,
     onDeleteStory: handleDeleteStory,
     onUpdateVisibility: handleUpdateVisibility,
+    shareLinks: {
+      pendingStoryId: pendingShareStoryId,
+      onCreate: handleCreateShareLink,
+      onCopy: handleCopyShareLink,
+      onRevoke: handleRevokeShareLink,
+    },
+    selection: {
+      isActive: isSelecting,
+      selectedStoryIds,
+      isExporting: isExportingSelection,
+      onStart: () => setIsSelecting(true),
+      onFinish: handleFinishSelecting,
+      onToggleStory: handleToggleSelectedStory,
+      onSelectAll: () => setSelectedIds(new Set(stories.map((story) => story.id))),
+      onClear: () => setSelectedIds(new Set()),
+      onDelete: handleBulkDelete,
+      onUpdateVisibility: handleBulkUpdateVisibility,
+      onAddToCollection: handleBulkAddToCollection,
+      onExport: handleExportSelection,
+    },
+    offline: canSaveOffline
+      ? {
+        savedStoryIds: offlineStoryIds,
+        pendingStoryId: pendingOfflineStoryId,
+        onToggle: handleToggleOffline,
+      }
+      : null,
   };
 }
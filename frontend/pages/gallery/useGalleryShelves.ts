@@ -0,0 +1,96 @@
+/**
+ * Gallery shelf sidebar controller.
+ * Loads the user's collections and puts stories dropped on a shelf onto that collection.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import {
+  addStoryToCollection,
+  type CollectionResponse,
+  createCollection,
+  listCollections,
+} from '@api';
+import { useAuth } from '@/app/auth';
+
+export interface GalleryShelves {
+  collections: CollectionResponse[];
+  isCreating: boolean;
+  /** Resolves true when the collection was created, so the form can reset. */
+  onCreate: (name: string) => Promise<boolean>;
+  onDropStory: (collectionId: number, storyId: number) => Promise<void>;
+  /** Reloads shelf counts after the library changed elsewhere, e.g. a story was deleted. */
+  onRefresh: () => Promise<void>;
+}
+
+function replaceCollection(collections: CollectionResponse[], updated: CollectionResponse): CollectionResponse[] {
+  return collections.map((collection) => (collection.id === updated.id ? updated : collection));
+}
+
+export function useGalleryShelves(): GalleryShelves {
+  const { t } = useTranslation();
+  const { accessToken } = useAuth();
+  const [collections, setCollections] = useState<CollectionResponse[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadCollections = useCallback(async () => {
+    if (!accessToken) return;
+
+    try {
+      setCollections(await listCollections(accessToken));
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    void loadCollections();
+  }, [loadCollections]);
+
+  const handleCreate = useCallback(async (name: string) => {
+    const trimmedName = name.trim();
+    if (!accessToken || !trimmedName) return false;
+
+    setIsCreating(true);
+    try {
+      const collection = await createCollection(accessToken, trimmedName);
+      setCollections((currentCollections) => [...currentCollections, collection]
+        .sort((first, second) => first.name.localeCompare(second.name, undefined, { sensitivity: 'base' })));
+      toast.success(t('galleryPage.shelves.notifications.created', { name: collection.name }));
+      return true;
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+      const message = error instanceof Error ? error.message : t('galleryPage.errors.unknown');
+      toast.error(t('galleryPage.shelves.notifications.createFailed', { message }));
+      return false;
+    } finally {
+      setIsCreating(false);
+    }
+  }, [accessToken, t]);
+
+  const handleDropStory = useCallback(async (collectionId: number, storyId: number) => {
+    if (!accessToken) return;
+    const previous = collections.find((collection) => collection.id === collectionId);
+    if (!previous) return;
+
+    try {
+      const updated = await addStoryToCollection(accessToken, collectionId, storyId);
+      setCollections((currentCollections) => replaceCollection(currentCollections, updated));
+      // The API ignores repeats, so an unchanged count means the story was already there.
+      toast.success(updated.story_count > previous.story_count
+        ? t('galleryPage.shelves.notifications.storyAdded', { name: updated.name })
+        : t('galleryPage.shelves.notifications.alreadyOnShelf', { name: updated.name }));
+    } catch (error) {
+      console.error('Failed to add story to collection:', error);
+      toast.error(t('galleryPage.shelves.notifications.addFailed'));
+    }
+  }, [accessToken, collections, t]);
+
+  return {
+    collections,
+    isCreating,
+    onCreate: handleCreate,
+    onDropStory: handleDropStory,
+    onRefresh: loadCollections,
+  };
+}
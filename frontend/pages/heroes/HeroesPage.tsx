@@ -0,0 +1,220 @@
+/**
+ * Saved heroes library.
+ * Lists every hero from past stories, lets parents fix a name or refresh a
+ * look, and starts a new story with the hero already filled in.
+ */
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import ColorGrid from '@/components/ColorGrid';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import { SketchyInput } from '@/components/design-system/Forms';
+import {
+  type ColorOption,
+  EYE_COLORS,
+  FAVORITE_COLORS,
+  GENDERS,
+  GENDER_BUTTON_STYLE,
+  HAIR_COLORS,
+  SKIN_TONES,
+} from '@/components/kidWizard.constants';
+import type { KidProfile, SavedHero } from '@/types';
+import { useHeroesPage } from './useHeroesPage';
+
+interface HeroCardProps {
+  hero: SavedHero;
+  isSaving: boolean;
+  onSaveHero: (heroId: number, profile: KidProfile) => Promise<boolean>;
+}
+
+interface HeroEditFormProps {
+  hero: SavedHero;
+  isSaving: boolean;
+  onCancel: () => void;
+  onSave: (profile: KidProfile) => Promise<void>;
+}
+
+function getSwatchHex(options: ColorOption[], label: string): string | undefined {
+  return options.find((option) => option.label === label)?.hex;
+}
+
+function HeroSwatches({ profile }: { profile: KidProfile }): JSX.Element {
+  const swatches = [
+    { label: profile.skinTone, hex: getSwatchHex(SKIN_TONES, profile.skinTone) },
+    { label: profile.hairColor, hex: getSwatchHex(HAIR_COLORS, profile.hairColor) },
+    { label: profile.eyeColor, hex: getSwatchHex(EYE_COLORS, profile.eyeColor) },
+    { label: profile.favoriteColor, hex: getSwatchHex(FAVORITE_COLORS, profile.favoriteColor) },
+  ];
+
+  return (
+    <div className="flex gap-2">
+      {swatches.map((swatch, index) => (
+        <span
+          key={`${swatch.label}-${index}`}
+          className="w-6 h-6 rounded-full border-2 border-white shadow"
+          style={{ backgroundColor: swatch.hex ?? '#e5e7eb' }}
+          title={swatch.label}
+        />
+      ))}
+    </div>
+  );
+}
+
+function HeroEditForm({ hero, isSaving, onCancel, onSave }: HeroEditFormProps): JSX.Element {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<KidProfile>(hero.profile);
+  const updateDraft = <Key extends keyof KidProfile>(field: Key, value: KidProfile[Key]) => {
+    setDraft((previousDraft) => ({ ...previousDraft, [field]: value }));
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <SketchyInput
+        aria-label={t('heroesPage.nameLabel')}
+        value={draft.name}
+        maxLength={50}
+        onChange={(event) => updateDraft('name', event.target.value)}
+      />
+      <div className="flex gap-2">
+        {GENDERS.map((gender) => (
+          <SketchyButton
+            key={gender}
+            variant={draft.gender === gender ? 'primary' : 'outline'}
+            onClick={() => updateDraft('gender', gender)}
+            className="flex-1 py-2 capitalize text-sm rounded-2xl"
+            style={GENDER_BUTTON_STYLE}
+          >
+            {t(`kidWizard.genders.${gender}` as const)}
+          </SketchyButton>
+        ))}
+      </div>
+      <ColorGrid
+        label={t('kidWizard.skinTone')}
+        options={SKIN_TONES}
+        selected={draft.skinTone}
+        onSelect={(value) => updateDraft('skinTone', value)}
+      />
+      <ColorGrid
+        label={t('kidWizard.hairColor')}
+        options={HAIR_COLORS}
+        selected={draft.hairColor}
+        onSelect={(value) => updateDraft('hairColor', value)}
+      />
+      <ColorGrid
+        label={t('kidWizard.eyeColor')}
+        options={EYE_COLORS}
+        selected={draft.eyeColor}
+        onSelect={(value) => updateDraft('eyeColor', value)}
+      />
+      <ColorGrid
+        label={t('kidWizard.favoriteColor')}
+        options={FAVORITE_COLORS}
+        selected={draft.favoriteColor}
+        onSelect={(value) => updateDraft('favoriteColor', value)}
+      />
+      <div className="flex gap-3">
+        <SketchyButton variant="outline" onClick={onCancel} disabled={isSaving} className="flex-1 rounded-full text-sm">
+          {t('heroesPage.cancel')}
+        </SketchyButton>
+        <SketchyButton
+          onClick={() => void onSave(draft)}
+          disabled={isSaving || !draft.name.trim()}
+          className="flex-1 rounded-full text-sm"
+        >
+          {isSaving ? t('heroesPage.saving') : t('heroesPage.save')}
+        </SketchyButton>
+      </div>
+    </div>
+  );
+}
+
+function HeroCard({ hero, isSaving, onSaveHero }: HeroCardProps): JSX.Element {
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const handleSave = async (profile: KidProfile): Promise<void> => {
+    if (await onSaveHero(hero.id, profile)) {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-xl border-2 border-gray-100 p-6 flex flex-col gap-4">
+      {isEditing ? (
+        <HeroEditForm
+          hero={hero}
+          isSaving={isSaving}
+          onCancel={() => setIsEditing(false)}
+          onSave={handleSave}
+        />
+      ) : (
+        <>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h3 className="text-2xl font-black text-gray-800">{hero.profile.name}</h3>
+              <p className="text-xs font-bold uppercase tracking-wide text-gray-400">
+                {t(`kidWizard.genders.${hero.profile.gender}` as const)}
+              </p>
+            </div>
+            <HeroSwatches profile={hero.profile} />
+          </div>
+          <p className="text-sm text-gray-500">
+            {t('heroesPage.storyCount', { count: hero.storyCount })}
+            {' · '}
+            {t('heroesPage.lastUsed', { date: new Date(hero.lastUsedAt).toLocaleDateString() })}
+          </p>
+          <div className="flex gap-3">
+            <SketchyButton variant="outline" onClick={() => setIsEditing(true)} className="flex-1 rounded-full text-sm">
+              {t('heroesPage.edit')}
+            </SketchyButton>
+            <Link
+              to={`/create?hero=${hero.id}`}
+              className="flex-1 px-4 py-2 bg-purple-600 text-white text-sm font-black rounded-full text-center shadow-md hover:bg-purple-700 transition-colors"
+            >
+              {t('heroesPage.startStory')}
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function HeroesPage(): JSX.Element {
+  const { heroes, isLoading, onSaveHero, savingHeroId } = useHeroesPage();
+  const { t } = useTranslation();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 animate-in fade-in duration-700">
+      <div className="mb-8">
+        <h2 className="text-4xl font-black text-gray-800">{t('heroesPage.title')}</h2>
+        <p className="text-gray-500 italic mt-2">{t('heroesPage.description')}</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-20">
+          <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {heroes.map((hero) => (
+            <HeroCard
+              key={hero.id}
+              hero={hero}
+              isSaving={savingHeroId === hero.id}
+              onSaveHero={onSaveHero}
+            />
+          ))}
+
+          {heroes.length === 0 && (
+            <div className="col-span-full text-center py-20 text-gray-400">
+              <p className="text-xl font-medium italic">{t('heroesPage.empty')}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HeroesPage;
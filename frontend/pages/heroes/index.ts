@@ -0,0 +1,4 @@
+/**
+ * Public exports for the saved heroes page.
+ */
+export { default as HeroesPage } from './HeroesPage';
@@ -0,0 +1,92 @@
+/**
+ * Heroes library controller.
+ * Loads the distinct heroes of past stories and saves renames or new looks.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { listHeroes, updateHero } from '@api';
+import { useAuth } from '@/app/auth';
+import type { KidProfile, SavedHero } from '@/types';
+import { mapApiHeroToSavedHero, mapKidProfileToHeroUpdate } from '@/utils';
+
+interface UseHeroesPageResult {
+  isLoading: boolean;
+  heroes: SavedHero[];
+  savingHeroId: number | null;
+  onSaveHero: (heroId: number, profile: KidProfile) => Promise<boolean>;
+}
+
+export function useHeroesPage(): UseHeroesPageResult {
+  const { t } = useTranslation();
+  const { accessToken } = useAuth();
+  const [heroes, setHeroes] = useState<SavedHero[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingHeroId, setSavingHeroId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    const token = accessToken;
+    let isMounted = true;
+
+    async function loadHeroes(): Promise<void> {
+      setIsLoading(true);
+      try {
+        const nextHeroes = await listHeroes(token);
+        if (isMounted) {
+          setHeroes(nextHeroes.map(mapApiHeroToSavedHero));
+        }
+      } catch (error) {
+        console.error('Failed to load heroes:', error);
+        if (isMounted) {
+          toast.error(t('heroesPage.notifications.loadFailed'));
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadHeroes();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, t]);
+
+  const handleSaveHero = useCallback(async (heroId: number, profile: KidProfile): Promise<boolean> => {
+    if (!accessToken) return false;
+
+    if (!profile.name.trim()) {
+      toast.error(t('heroesPage.errors.nameRequired'));
+      return false;
+    }
+
+    setSavingHeroId(heroId);
+    try {
+      const updatedHero = mapApiHeroToSavedHero(
+        await updateHero(accessToken, heroId, mapKidProfileToHeroUpdate(profile)),
+      );
+      // Renaming a hero onto another hero's name and look merges the two.
+      setHeroes((previousHeroes) => previousHeroes
+        .filter((hero) => hero.id !== updatedHero.id || hero.id === heroId)
+        .map((hero) => (hero.id === heroId ? updatedHero : hero)));
+      toast.success(t('heroesPage.notifications.saved'));
+      return true;
+    } catch (error) {
+      console.error('Failed to update hero:', error);
+      toast.error(t('heroesPage.notifications.saveFailed'));
+      return false;
+    } finally {
+      setSavingHeroId(null);
+    }
+  }, [accessToken, t]);
+
+  return {
+    isLoading,
+    heroes,
+    savingHeroId,
+    onSaveHero: handleSaveHero,
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * Profile page.
- * Inline-edit username/email, crop-and-upload avatar, logout.
+ * Inline-edit username/email, crop-and-upload avatar, two-factor settings, logout.
  * Data flows through useProfilePage; this file is layout + presentation only.
  */
 import { useRef } from 'react';
@@ -12,6 +12,7 @@ import { SketchyInput } from '@/components/design-system/Forms';
 import { SketchyButton } from '@/components/design-system/Primitives';
 import StorageImage from '@/components/StorageImage';
 import { AvatarCropper } from './AvatarCropper';
+import { TwoFactorSection } from './TwoFactorSection';
 import { useProfilePage } from './useProfilePage';
 
 export function ProfilePage(): JSX.Element {
@@ -127,6 +128,8 @@ export function ProfilePage(): JSX.Element {
           />
         </section>
 
+        <TwoFactorSection />
+
         <div className="pt-4 border-t border-brand-primary/10 flex justify-end">
           <SketchyButton type="button" variant="outline" onClick={onLogout}>
             {t('profile.actions.logout')}
@@ -0,0 +1,125 @@
+/**
+ * Two-factor block of the profile page: off, scanning a QR code, showing the
+ * freshly issued recovery codes, or on. State lives in useTwoFactorSettings.
+ */
+import { useTranslation } from 'react-i18next';
+import { SketchyInput } from '@/components/design-system/Forms';
+import { SketchyButton } from '@/components/design-system/Primitives';
+import { useTwoFactorSettings } from './useTwoFactorSettings';
+
+export function TwoFactorSection(): JSX.Element {
+  const { t } = useTranslation();
+  const {
+    step,
+    status,
+    enrolment,
+    qrCodeSvg,
+    recoveryCodes,
+    code,
+    setCode,
+    isBusy,
+    startEnrolment,
+    cancelEnrolment,
+    confirmEnrolment,
+    downloadRecoveryCodes,
+    finishRecoveryCodes,
+    disable,
+  } = useTwoFactorSettings();
+
+  const codeInput = (
+    <SketchyInput
+      id="two-factor-code"
+      value={code}
+      onChange={e => setCode(e.target.value)}
+      disabled={isBusy}
+      autoComplete="one-time-code"
+      inputMode="numeric"
+      maxLength={32}
+      placeholder="123456"
+    />
+  );
+
+  return (
+    <section className="space-y-4 pt-4 border-t border-brand-primary/10" aria-labelledby="two-factor-title">
+      <h2 id="two-factor-title" className="font-sans font-bold text-xl text-brand-dark">
+        {t('profile.twoFactor.title')}
+      </h2>
+
+      {step === 'loading' && <p className="text-sm text-brand-muted">{t('profile.status.loading')}</p>}
+
+      {step === 'off' && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-brand-muted">{t('profile.twoFactor.offDescription')}</p>
+          <SketchyButton type="button" onClick={startEnrolment} disabled={isBusy}>
+            {t('profile.twoFactor.actions.enable')}
+          </SketchyButton>
+        </div>
+      )}
+
+      {step === 'enrolling' && enrolment && (
+        <div className="space-y-4">
+          <p className="text-sm text-brand-muted">{t('profile.twoFactor.enrol.scanDescription')}</p>
+          {qrCodeSvg && (
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrCodeSvg)}`}
+              alt={t('profile.twoFactor.enrol.qrCodeAlt')}
+              className="w-48 h-48 mx-auto"
+            />
+          )}
+          <p className="text-xs text-brand-muted text-center">
+            {t('profile.twoFactor.enrol.manualEntry')}{' '}
+            <code className="font-mono break-all text-brand-dark">{enrolment.secret}</code>
+          </p>
+          <label htmlFor="two-factor-code" className="block text-sm font-bold text-brand-muted">
+            {t('profile.twoFactor.enrol.codeLabel')}
+          </label>
+          <div className="flex items-center gap-3">
+            {codeInput}
+            <SketchyButton type="button" onClick={confirmEnrolment} disabled={isBusy || !code.trim()}>
+              {t('profile.twoFactor.actions.confirm')}
+            </SketchyButton>
+            <SketchyButton type="button" variant="outline" onClick={cancelEnrolment} disabled={isBusy}>
+              {t('profile.actions.cancel')}
+            </SketchyButton>
+          </div>
+        </div>
+      )}
+
+      {step === 'recoveryCodes' && (
+        <div className="space-y-4">
+          <p className="text-sm text-brand-muted">{t('profile.twoFactor.recoveryCodes.description')}</p>
+          <ul className="grid grid-cols-2 gap-2 rounded-xl bg-brand-light p-4 font-mono text-brand-dark">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="flex justify-end gap-3">
+            <SketchyButton type="button" variant="outline" onClick={downloadRecoveryCodes}>
+              {t('profile.twoFactor.actions.download')}
+            </SketchyButton>
+            <SketchyButton type="button" onClick={finishRecoveryCodes}>
+              {t('profile.twoFactor.actions.savedCodes')}
+            </SketchyButton>
+          </div>
+        </div>
+      )}
+
+      {step === 'on' && status && (
+        <div className="space-y-4">
+          <p className="text-sm text-brand-muted">
+            {t('profile.twoFactor.onDescription', { count: status.recovery_codes_remaining })}
+          </p>
+          <label htmlFor="two-factor-code" className="block text-sm font-bold text-brand-muted">
+            {t('profile.twoFactor.disableCodeLabel')}
+          </label>
+          <div className="flex items-center gap-3">
+            {codeInput}
+            <SketchyButton type="button" variant="outline" onClick={disable} disabled={isBusy || !code.trim()}>
+              {t('profile.twoFactor.actions.disable')}
+            </SketchyButton>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
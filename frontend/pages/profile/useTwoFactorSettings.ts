@@ -0,0 +1,180 @@
+/**
+ * Two-factor settings controller for the profile page.
+ * Walks the reader through TOTP setup (scan, confirm, save recovery codes)
+ * and turning two-factor off again.
+ */
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import {
+  confirmTotpEnrolment,
+  disableMfa,
+  getMfaStatus,
+  startTotpEnrolment,
+  type MfaStatusResponse,
+  type TotpEnrolmentResponse,
+} from '@api';
+import { useAuth } from '@/app/auth';
+
+const RECOVERY_CODES_FILE_NAME = 'wondercomic-recovery-codes.txt';
+
+export type TwoFactorStep = 'loading' | 'off' | 'enrolling' | 'recoveryCodes' | 'on';
+
+interface UseTwoFactorSettingsResult {
+  step: TwoFactorStep;
+  status: MfaStatusResponse | null;
+  enrolment: TotpEnrolmentResponse | null;
+  /** SVG markup of the QR code for `enrolment.otpauth_uri`. */
+  qrCodeSvg: string | null;
+  recoveryCodes: string[];
+  code: string;
+  setCode: (value: string) => void;
+  isBusy: boolean;
+  startEnrolment: () => Promise<void>;
+  cancelEnrolment: () => void;
+  confirmEnrolment: () => Promise<void>;
+  downloadRecoveryCodes: () => void;
+  finishRecoveryCodes: () => void;
+  disable: () => Promise<void>;
+}
+
+function getErrorMessage(error: unknown, fallback: string, t: (key: string) => string): string {
+  if (error instanceof Error && error.message === 'Invalid verification code') {
+    return t('profile.twoFactor.errors.invalidCode');
+  }
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function useTwoFactorSettings(): UseTwoFactorSettingsResult {
+  const { t } = useTranslation();
+  const { accessToken } = useAuth();
+  const [status, setStatus] = useState<MfaStatusResponse | null>(null);
+  const [enrolment, setEnrolment] = useState<TotpEnrolmentResponse | null>(null);
+  const [qrCodeSvg, setQrCodeSvg] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    const token = accessToken;
+    let isMounted = true;
+
+    async function loadStatus(): Promise<void> {
+      try {
+        const nextStatus = await getMfaStatus(token);
+        if (isMounted) setStatus(nextStatus);
+      } catch (error) {
+        if (isMounted) toast.error(getErrorMessage(error, t('profile.twoFactor.errors.loadFailed'), t));
+      }
+    }
+
+    void loadStatus();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, t]);
+
+  const step: TwoFactorStep =
+    recoveryCodes.length > 0
+      ? 'recoveryCodes'
+      : enrolment
+        ? 'enrolling'
+        : !status
+          ? 'loading'
+          : status.enabled
+            ? 'on'
+            : 'off';
+
+  async function startEnrolment(): Promise<void> {
+    if (!accessToken) return;
+    setIsBusy(true);
+    try {
+      const nextEnrolment = await startTotpEnrolment(accessToken);
+      setQrCodeSvg(await QRCode.toString(nextEnrolment.otpauth_uri, { type: 'svg', margin: 1 }));
+      setEnrolment(nextEnrolment);
+      setCode('');
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('profile.twoFactor.errors.setupFailed'), t));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function cancelEnrolment(): void {
+    setEnrolment(null);
+    setQrCodeSvg(null);
+    setCode('');
+  }
+
+  /**
+   * The secret only becomes active once the app proves it can produce codes.
+   * The recovery codes in the response are never shown again, so they stay on
+   * screen until the reader says they have saved them.
+   */
+  async function confirmEnrolment(): Promise<void> {
+    if (!accessToken) return;
+    setIsBusy(true);
+    try {
+      const response = await confirmTotpEnrolment(accessToken, code.trim());
+      setRecoveryCodes(response.recovery_codes);
+      setStatus({ enabled: true, recovery_codes_remaining: response.recovery_codes.length });
+      cancelEnrolment();
+      toast.success(t('profile.twoFactor.messages.enabled'));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('profile.twoFactor.errors.setupFailed'), t));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function downloadRecoveryCodes(): void {
+    const text = `${t('profile.twoFactor.recoveryCodes.fileHeading')}\n\n${recoveryCodes.join('\n')}\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = RECOVERY_CODES_FILE_NAME;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  function finishRecoveryCodes(): void {
+    setRecoveryCodes([]);
+  }
+
+  async function disable(): Promise<void> {
+    if (!accessToken) return;
+    setIsBusy(true);
+    try {
+      await disableMfa(accessToken, code.trim());
+      setStatus({ enabled: false, recovery_codes_remaining: 0 });
+      setCode('');
+      toast.success(t('profile.twoFactor.messages.disabled'));
+    } catch (error) {
+      toast.error(getErrorMessage(error, t('profile.twoFactor.errors.disableFailed'), t));
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  return {
+    step,
+    status,
+    enrolment,
+    qrCodeSvg,
+    recoveryCodes,
+    code,
+    setCode,
+    isBusy,
+    startEnrolment,
+    cancelEnrolment,
+    confirmEnrolment,
+    downloadRecoveryCodes,
+    finishRecoveryCodes,
+    disable,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Public share link page.
+ * Renders a story read-only for anyone holding its link, signed in or not.
+ */
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import StoryboardView from '@/components/StoryboardView';
+import { useSharedStoryPage } from './useSharedStoryPage';
+
+function SharedStoryPage(): JSX.Element | null {
+  const { t } = useTranslation();
+  const { isLoading, isUnavailable, profile, story } = useSharedStoryPage();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20">
+        <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (isUnavailable || !story) {
+    return (
+      <div className="max-w-3xl mx-auto py-12">
+        <div className="rounded-[2rem] border-2 border-purple-100 bg-white p-8 shadow-xl">
+          <h1 className="text-3xl font-black text-gray-800">{t('sharedStory.unavailableTitle')}</h1>
+          <p className="mt-4 text-base font-medium text-gray-500">{t('sharedStory.unavailableBody')}</p>
+          <Link
+            to="/"
+            className="inline-flex mt-6 rounded-full border border-brand-primary/20 px-5 py-3 text-sm font-semibold text-brand-primary transition-colors hover:bg-brand-light"
+          >
+            {t('sharedStory.discover')}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <StoryboardView
+      story={story}
+      profile={profile}
+      isReadOnly
+      showLibraryLinks={false}
+    />
+  );
+}
+
+export default SharedStoryPage;
@@ -0,0 +1,4 @@
+/**
+ * Public exports for the public share link page.
+ */
+export { default as SharedStoryPage } from './SharedStoryPage';
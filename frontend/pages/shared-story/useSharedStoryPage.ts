@@ -0,0 +1,64 @@
+/**
+ * Public share link controller.
+ * Loads a story by its link token for visitors who may not have an account.
+ */
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { getStoryByShareToken } from '@api';
+import type { KidProfile, Story } from '@/types';
+import { mapApiProfileToKidProfile, mapApiStoryToStory } from '@/utils';
+
+interface UseSharedStoryPageResult {
+  isLoading: boolean;
+  /** True when the link is unknown, revoked, or expired. */
+  isUnavailable: boolean;
+  story: Story | null;
+  profile: KidProfile | null;
+}
+
+export function useSharedStoryPage(): UseSharedStoryPageResult {
+  const { token } = useParams<{ token?: string }>();
+  const [story, setStory] = useState<Story | null>(null);
+  const [profile, setProfile] = useState<KidProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setIsLoading(false);
+      setIsUnavailable(true);
+      return;
+    }
+    const shareToken = token;
+    let isMounted = true;
+
+    async function loadSharedStory(): Promise<void> {
+      setIsLoading(true);
+      setIsUnavailable(false);
+      try {
+        const sharedStory = await getStoryByShareToken(shareToken);
+        if (isMounted) {
+          setStory(mapApiStoryToStory(sharedStory));
+          setProfile(mapApiProfileToKidProfile(sharedStory.profile));
+        }
+      } catch (error) {
+        console.error('Failed to load shared story:', error);
+        if (isMounted) {
+          setIsUnavailable(true);
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    void loadSharedStory();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token]);
+
+  return { isLoading, isUnavailable, story, profile };
+}
@@ -8,8 +8,12 @@ import KidWizard from '@/components/KidWizard';
 import MagicLoader from '@/components/MagicLoader';
 import PreviewView from '@/components/PreviewView';
 import StoryIntroStream from '@/components/StoryIntroStream';
+import StoryPanelEditor from '@/components/StoryPanelEditor';
+import StoryRemixBanner from '@/components/StoryRemixBanner';
+import StoryRevisionDialog from '@/components/StoryRevisionDialog';
 import StoryboardView from '@/components/StoryboardView';
 import { Heading, Text } from '@/components/design-system/Typography';
+import { getStoryLanguage } from './story.remix';
 import { useStoryPage } from './useStoryPage';
 import { StoryPageView } from './story.types';
 
@@ -18,7 +22,21 @@ function AccentSpan({ i18nIsDynamicList: _, ...props }: Record<string, unknown>)
 }
 
 function StoryPage(): JSX.Element | null {
-  const { access, actions, introStream, profile, story, view, wizard } = useStoryPage();
+  const {
+    access,
+    actions,
+    generation,
+    generationQueue,
+    imageHistory,
+    introStream,
+    panelEditor,
+    storyExport,
+    profile,
+    scriptRevision,
+    story,
+    view,
+    wizard,
+  } = useStoryPage();
   const { t } = useTranslation();
 
   if (view === StoryPageView.Onboarding) {
@@ -36,6 +54,41 @@ function StoryPage(): JSX.Element | null {
           </Text>
         </div>
 
+        {wizard.continuation ? (
+          <div
+            role="status"
+            className="max-w-3xl mx-auto mb-8 flex flex-wrap items-center justify-between gap-4 rounded-3xl border-2 border-brand-accent bg-white px-6 py-4 shadow-soft"
+          >
+            <div>
+              <Heading variant="h4" className="text-brand-primary">
+                {t('story.continuation.title', {
+                  number: wizard.continuation.nextEpisodeNumber,
+                  title: wizard.continuation.title || t('galleryPage.untitledMasterpiece'),
+                })}
+              </Heading>
+              <p className="mt-1 text-sm font-medium text-brand-muted">{t('story.continuation.description')}</p>
+            </div>
+            <button
+              type="button"
+              onClick={wizard.onCancelContinuation}
+              className="text-sm font-bold text-brand-muted hover:text-brand-primary transition-colors"
+            >
+              {t('story.continuation.cancel')}
+            </button>
+          </div>
+        ) : null}
+
+        {wizard.remix ? (
+          <StoryRemixBanner
+            title={wizard.remix.title}
+            language={getStoryLanguage(wizard.profile)}
+            keepImages={wizard.remix.keepImages}
+            onLanguageChange={wizard.onRemixLanguageChange}
+            onKeepImagesChange={wizard.onRemixKeepImagesChange}
+            onCancel={wizard.onCancelRemix}
+          />
+        ) : null}
+
         <KidWizard
           step={wizard.step}
           profile={wizard.profile}
@@ -44,6 +97,12 @@ function StoryPage(): JSX.Element | null {
           onPreviousStep={wizard.onPreviousStep}
           onPhotoSelect={wizard.onPhotoSelect}
           onPhotoRemove={wizard.onPhotoRemove}
+          onAddCastMember={wizard.onAddCastMember}
+          onRemoveCastMember={wizard.onRemoveCastMember}
+          onCastPhotoSelect={wizard.onCastPhotoSelect}
+          onCastPhotoRemove={wizard.onCastPhotoRemove}
+          savedHeroes={wizard.savedHeroes}
+          onPickHero={wizard.onPickHero}
           onSubmit={wizard.onSubmit}
         />
       </div>
@@ -57,6 +116,8 @@ function StoryPage(): JSX.Element | null {
         foreword={introStream.foreword}
         isStreaming={introStream.isStreaming}
         isPreparingPreview={introStream.isPreparingPreview}
+        waitingForSlotCount={generationQueue.queuedCount}
+        onCancel={actions.onCancelGeneration}
       />
     );
   }
@@ -66,14 +127,60 @@ function StoryPage(): JSX.Element | null {
   }
 
   if (view === StoryPageView.Preview && story) {
+    const revision = scriptRevision.state;
+
     return (
-      <PreviewView
-        story={story}
-        onEditPanelImage={actions.onEditPanelImage}
-        onGenerate={actions.onGenerateFullStory}
-        onStartOver={actions.onStartOver}
-        isReadOnly={access.isReadOnly}
-        ownerUserId={access.ownerUserId}
+      <>
+        <PreviewView
+          story={story}
+          onEditPanelImage={actions.onEditPanelImage}
+          onRegeneratePanelImage={actions.onRegeneratePanelImage}
+          onAcceptPanelImage={actions.onAcceptPanelImage}
+          onGenerate={actions.onGenerateFullStory}
+          onStartOver={actions.onStartOver}
+          onReviseStory={access.isReadOnly ? undefined : scriptRevision.onOpen}
+          isReadOnly={access.isReadOnly}
+          ownerUserId={access.ownerUserId}
+        />
+        {revision ? (
+          <StoryRevisionDialog
+            status={revision.status}
+            initialInstruction={revision.instruction}
+            streamedTitle={revision.title}
+            streamedForeword={revision.foreword}
+            current={{
+              title: story.title,
+              foreword: story.foreword,
+              captions: story.panels.map((panel) => panel.text),
+            }}
+            proposal={revision.script
+              ? {
+                title: revision.script.title,
+                foreword: revision.script.foreword,
+                captions: revision.script.panels.map((panel) => panel.text),
+              }
+              : null}
+            onSubmit={scriptRevision.onSubmit}
+            onAccept={scriptRevision.onAccept}
+            onClose={scriptRevision.onClose}
+          />
+        ) : null}
+      </>
+    );
+  }
+
+  if (view === StoryPageView.Storyboard && story && panelEditor.panels) {
+    return (
+      <StoryPanelEditor
+        panels={panelEditor.panels}
+        isDirty={panelEditor.isDirty}
+        isSaving={panelEditor.isSaving}
+        onCaptionChange={panelEditor.onCaptionChange}
+        onMovePanel={panelEditor.onMovePanel}
+        onInsertPanelAfter={panelEditor.onInsertPanelAfter}
+        onRemovePanel={panelEditor.onRemovePanel}
+        onSave={panelEditor.onSave}
+        onDiscard={panelEditor.onDiscard}
       />
     );
   }
@@ -84,8 +191,25 @@ function StoryPage(): JSX.Element | null {
         story={story}
         profile={profile}
         onEditPanelImage={actions.onEditPanelImage}
+        onRegeneratePanelImage={actions.onRegeneratePanelImage}
+        onAcceptPanelImage={actions.onAcceptPanelImage}
+        onEditCoverImage={actions.onEditCoverImage}
+        onLoadPanelHistory={imageHistory?.onLoadPanelHistory}
+        onRestorePanelVersion={imageHistory?.onRestorePanelVersion}
+        onLoadCoverHistory={imageHistory?.onLoadCoverHistory}
+        onRestoreCoverVersion={imageHistory?.onRestoreCoverVersion}
         isReadOnly={access.isReadOnly}
         ownerUserId={access.ownerUserId}
+        generation={generation}
+        waitingForSlotCount={generationQueue.queuedCount}
+        onRetryFailedPanels={actions.onRetryFailedPanels}
+        onCancelGeneration={actions.onCancelGeneration}
+        onEditPages={generation ? undefined : panelEditor.onStart}
+        onExportPdf={generation ? undefined : storyExport.onExportPdf}
+        onExportEpub={generation ? undefined : storyExport.onExportEpub ?? undefined}
+        exportingFormat={storyExport.exportingFormat}
+        onContinueStory={generation ? undefined : actions.onContinueStory ?? undefined}
+        onRemixStory={generation ? undefined : actions.onRemixStory ?? undefined}
       />
     );
   }
@@ -1,9 +1,33 @@
 /**
- * Story panel editing workflow.
- * Keeps image generation and persistence details out of the page controller.
+ * Story panel editing workflows: Magic Revision of panel and cover images,
+ * their version history, and saving an edited panel layout. Keeps generation
+ * and persistence details out of the page controller.
  */
-import { editPanelImage, updatePanelImage } from '@api';
-import type { ComicPanelData, Story } from '@/types';
+import {
+  editPanelImage,
+  generatePanelImage,
+  getCoverImageVersions,
+  getPanelImageVersions,
+  restoreCoverImageVersion,
+  restorePanelImageVersion,
+  updatePanelImage,
+  updateStory,
+} from '@api';
+import type { ComicPanelData, ImageVersion, Story } from '@/types';
+import { mapApiImageVersion } from '@/utils';
+
+function hasEveryImage(coverImageUrl: string | undefined, panels: ComicPanelData[]): boolean {
+  return Boolean(coverImageUrl) && panels.every((panel) => panel.imageUrl);
+}
+
+function getSavedPanelOrder(story: Story, panel: ComicPanelData): number {
+  const panelOrder = story.panels.findIndex((storyPanel) => storyPanel.id === panel.id);
+  if (panelOrder < 0) {
+    throw new Error('Panel is not part of this story');
+  }
+
+  return panelOrder;
+}
 
 interface EditStoryPanelImageParams {
   accessToken: string;
@@ -42,3 +66,172 @@ export async function editStoryPanelImage({
 
   return updatedPanel;
 }
+
+interface RegenerateStoryPanelImageParams {
+  accessToken: string;
+  story: Story;
+  artStyle?: string;
+  imagePrompt: string;
+}
+
+/**
+ * Paint a fresh candidate for one panel from a rewritten prompt. Nothing is
+ * saved; the user compares it with the current image first.
+ */
+export async function regenerateStoryPanelImage({
+  accessToken,
+  artStyle,
+  imagePrompt,
+  story,
+}: RegenerateStoryPanelImageParams): Promise<string> {
+  return generatePanelImage(accessToken, imagePrompt, story.characterDescription, artStyle);
+}
+
+interface AcceptStoryPanelImageParams {
+  accessToken: string;
+  panel: ComicPanelData;
+  story: Story;
+  imagePrompt: string;
+  imageUrl: string;
+  savedStoryId: number | null;
+}
+
+/**
+ * Keep an accepted regeneration. Saved panels persist the image and its new
+ * prompt; the replaced image lands in the panel's history.
+ */
+export async function acceptStoryPanelImage({
+  accessToken,
+  imagePrompt,
+  imageUrl,
+  panel,
+  savedStoryId,
+  story,
+}: AcceptStoryPanelImageParams): Promise<ComicPanelData> {
+  const panelOrder = story.panels.findIndex((storyPanel) => storyPanel.id === panel.id);
+  if (savedStoryId && panelOrder >= 0) {
+    await updatePanelImage(accessToken, savedStoryId, panelOrder, imageUrl, imagePrompt);
+  }
+
+  return {
+    ...panel,
+    imagePrompt,
+    imageUrl,
+  };
+}
+
+interface EditStoryCoverImageParams {
+  accessToken: string;
+  story: Story;
+  artStyle?: string;
+  editPrompt: string;
+  savedStoryId: number;
+}
+
+/**
+ * Magic Revision for the storybook cover. The backend keeps the replaced
+ * cover in its history, so the caller only needs the new image back.
+ */
+export async function editStoryCoverImage({
+  accessToken,
+  artStyle,
+  editPrompt,
+  savedStoryId,
+  story,
+}: EditStoryCoverImageParams): Promise<string> {
+  const updatedImageUrl = await editPanelImage(
+    accessToken,
+    story.coverImageUrl!,
+    editPrompt,
+    story.coverImagePrompt,
+    story.characterDescription,
+    artStyle,
+  );
+
+  await updateStory(accessToken, savedStoryId, {
+    is_unlocked: hasEveryImage(updatedImageUrl, story.panels),
+    cover_image_base64: updatedImageUrl,
+    panels: [],
+  });
+
+  return updatedImageUrl;
+}
+
+export async function loadStoryPanelImageHistory(
+  accessToken: string,
+  savedStoryId: number,
+  story: Story,
+  panel: ComicPanelData,
+): Promise<ImageVersion[]> {
+  const versions = await getPanelImageVersions(accessToken, savedStoryId, getSavedPanelOrder(story, panel));
+  return versions.map(mapApiImageVersion);
+}
+
+/**
+ * Swap an earlier image back onto a saved panel. The replaced image becomes
+ * a version itself, so restoring is always reversible.
+ */
+export async function restoreStoryPanelImage(
+  accessToken: string,
+  savedStoryId: number,
+  story: Story,
+  panel: ComicPanelData,
+  versionId: number,
+): Promise<ComicPanelData> {
+  const imageUrl = await restorePanelImageVersion(
+    accessToken,
+    savedStoryId,
+    getSavedPanelOrder(story, panel),
+    versionId,
+  );
+
+  return { ...panel, imageUrl };
+}
+
+export async function loadStoryCoverImageHistory(
+  accessToken: string,
+  savedStoryId: number,
+): Promise<ImageVersion[]> {
+  const versions = await getCoverImageVersions(accessToken, savedStoryId);
+  return versions.map(mapApiImageVersion);
+}
+
+export async function restoreStoryCoverImage(
+  accessToken: string,
+  savedStoryId: number,
+  versionId: number,
+): Promise<string> {
+  return restoreCoverImageVersion(accessToken, savedStoryId, versionId);
+}
+
+interface SaveStoryPanelLayoutParams {
+  accessToken: string;
+  savedStoryId: number;
+  savedStory: Story;
+  panels: ComicPanelData[];
+}
+
+/**
+ * Persist captions, order, inserted and deleted panels in one request.
+ * Existing panels point back at their saved position so the backend keeps
+ * their images; inserted panels have none until they are painted.
+ */
+export async function saveStoryPanelLayout({
+  accessToken,
+  panels,
+  savedStory,
+  savedStoryId,
+}: SaveStoryPanelLayoutParams): Promise<void> {
+  const savedOrderById = new Map(savedStory.panels.map((panel, index) => [panel.id, index]));
+
+  await updateStory(accessToken, savedStoryId, {
+    is_unlocked: hasEveryImage(savedStory.coverImageUrl, panels),
+    replace_panels: true,
+    panels: panels.map((panel, index) => ({
+      panel_order: index,
+      text: panel.text.trim(),
+      image_prompt: panel.imagePrompt || panel.text.trim(),
+      source_panel_order: savedOrderById.get(panel.id),
+    })),
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * EPUB export of a saved story.
+ * Fetches the saved story and its images, then hands them to the pure EPUB builder.
+ */
+import { getFriendSharedStory, getStory, type StoryDetailResponse } from '@api';
+import i18n from '@/i18n';
+import { normalizeLanguageCode } from '@/i18n.languages';
+import { buildEpubDocument, detectEpubImageMediaType, type EpubImage, getImageUrl } from '@/utils';
+
+interface StoryEpubSource {
+  storyId: number;
+  /** Set when reading a friend's shared story instead of one of ours. */
+  ownerUserId: number | null;
+}
+
+async function fetchEpubImage(source: string): Promise<EpubImage | null> {
+  const url = getImageUrl(source);
+  if (!url) {
+    return null;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load image ${source}`);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  const mediaType = detectEpubImageMediaType(data);
+  return mediaType ? { data, mediaType } : null;
+}
+
+async function fetchEpubImages(detail: StoryDetailResponse): Promise<Map<string, EpubImage>> {
+  const sources = [detail.cover_image_url, ...detail.panels.map((panel) => panel.image_url)]
+    .filter((source): source is string => Boolean(source));
+  const images = new Map<string, EpubImage>();
+
+  await Promise.all([...new Set(sources)].map(async (source) => {
+    const image = await fetchEpubImage(source);
+    if (image) {
+      images.set(source, image);
+    }
+  }));
+
+  return images;
+}
+
+export async function renderStoryEpub(accessToken: string, { storyId, ownerUserId }: StoryEpubSource): Promise<Blob> {
+  const detail = ownerUserId
+    ? await getFriendSharedStory(accessToken, ownerUserId, storyId)
+    : await getStory(accessToken, storyId);
+  const lng = normalizeLanguageCode(detail.profile.language);
+
+  const epub = buildEpubDocument(detail, {
+    images: await fetchEpubImages(detail),
+    labels: {
+      contents: i18n.t('story.epub.contents', { lng }),
+      cover: i18n.t('story.storyboard.pageLabel.frontCover', { lng }),
+      introduction: i18n.t('story.storyboard.introduction', { lng }),
+      page: (pageNumber) => i18n.t('story.epub.page', { lng, number: pageNumber }),
+    },
+  });
+  return new Blob([epub], { type: 'application/epub+zip' });
+}
@@ -0,0 +1,89 @@
+/**
+ * Pure state helpers for the per-panel full-story generation job.
+ * The workflow drives the transitions; the page renders the result.
+ */
+import type { Story } from '@/types';
+import type {
+  GenerationJobSummary,
+  GenerationTaskStatus,
+  StoryGenerationJob,
+} from './story.types';
+
+function getInitialStatus(imageUrl: string | undefined): GenerationTaskStatus {
+  return imageUrl ? 'done' : 'queued';
+}
+
+/**
+ * Build a job from the images a story already has. Anything persisted by an
+ * earlier run counts as done, which is what lets a reloaded draft resume.
+ */
+export function createGenerationJob(story: Story): StoryGenerationJob {
+  return {
+    cover: getInitialStatus(story.coverImageUrl),
+    panels: Object.fromEntries(
+      story.panels.map((panel) => [panel.id, getInitialStatus(panel.imageUrl)]),
+    ),
+  };
+}
+
+export function setCoverTaskStatus(
+  job: StoryGenerationJob,
+  status: GenerationTaskStatus,
+): StoryGenerationJob {
+  return { ...job, cover: status };
+}
+
+export function setPanelTaskStatus(
+  job: StoryGenerationJob,
+  panelId: string,
+  status: GenerationTaskStatus,
+): StoryGenerationJob {
+  return {
+    ...job,
+    panels: {
+      ...job.panels,
+      [panelId]: status,
+    },
+  };
+}
+
+export function requeueFailedTasks(job: StoryGenerationJob): StoryGenerationJob {
+  const requeue = (status: GenerationTaskStatus): GenerationTaskStatus => (
+    status === 'failed' ? 'queued' : status
+  );
+
+  return {
+    cover: requeue(job.cover),
+    panels: Object.fromEntries(
+      Object.entries(job.panels).map(([panelId, status]) => [panelId, requeue(status)]),
+    ),
+  };
+}
+
+export function summarizeGenerationJob(job: StoryGenerationJob): GenerationJobSummary {
+  const statuses = [job.cover, ...Object.values(job.panels)];
+
+  return {
+    total: statuses.length,
+    completed: statuses.filter((status) => status === 'done').length,
+    failed: statuses.filter((status) => status === 'failed').length,
+    isRunning: statuses.some((status) => status === 'queued' || status === 'generating'),
+  };
+}
+
+export function hasFailedTasks(job: StoryGenerationJob): boolean {
+  return summarizeGenerationJob(job).failed > 0;
+}
+
+/**
+ * Project job state onto the story so panels can render their own spinner.
+ */
+export function applyGenerationJob(story: Story, job: StoryGenerationJob): Story {
+  return {
+    ...story,
+    panels: story.panels.map((panel) => ({
+      ...panel,
+      isGenerating: job.panels[panel.id] === 'generating',
+    })),
+  };
+}
@@ -1,7 +1,8 @@
 /**
  * Pure helpers for story-page parsing, state shaping, and small browser utilities.
  */
-import type { ComicPanelData, KidProfile, Story } from '@/types';
+import { DEFAULT_STORY_LENGTH, MAX_CAST_MEMBERS } from '@/components/kidWizard.constants';
+import type { CastMember, CastRole, ComicPanelData, KidProfile, SavedHero, Story, StoryExportFormat } from '@/types';
 import type { IntroStreamState } from './story.types';
 
 export const INTRO_MIN_HOLD_MS = 600;
@@ -26,9 +27,93 @@ export function createEmptyKidProfile(): KidProfile {
     language: undefined,
     photoUrl: '',
     artStyle: 'Classic Comic',
+    storyLength: DEFAULT_STORY_LENGTH,
+    readingLevel: 'developing',
+    cast: [],
   };
 }
 
+/**
+ * Start a fresh wizard profile from a saved hero. The hero keeps their look
+ * and last story settings; the dream and cast are chosen anew each time.
+ */
+export function createProfileFromSavedHero(hero: SavedHero): KidProfile {
+  const emptyProfile = createEmptyKidProfile();
+  const { archetype, artStyle, language } = hero.profile;
+
+  return {
+    ...emptyProfile,
+    name: hero.profile.name,
+    gender: hero.profile.gender,
+    skinTone: hero.profile.skinTone,
+    hairColor: hero.profile.hairColor,
+    eyeColor: hero.profile.eyeColor,
+    favoriteColor: hero.profile.favoriteColor,
+    archetype: archetype ?? emptyProfile.archetype,
+    artStyle: artStyle ?? emptyProfile.artStyle,
+    language: language ?? emptyProfile.language,
+  };
+}
+
+/**
+ * Start the wizard for the next episode of a series. The hero, look and art style
+ * carry over so the episodes match; the dream and cast are chosen anew, and
+ * returning characters come back through the earlier episode's description.
+ */
+export function createProfileForNextEpisode(previousProfile: KidProfile): KidProfile {
+  const emptyProfile = createEmptyKidProfile();
+
+  return {
+    ...emptyProfile,
+    name: previousProfile.name,
+    gender: previousProfile.gender,
+    skinTone: previousProfile.skinTone,
+    hairColor: previousProfile.hairColor,
+    eyeColor: previousProfile.eyeColor,
+    favoriteColor: previousProfile.favoriteColor,
+    archetype: previousProfile.archetype ?? emptyProfile.archetype,
+    artStyle: previousProfile.artStyle ?? emptyProfile.artStyle,
+    language: previousProfile.language ?? emptyProfile.language,
+  };
+}
+
+export function createCastMember(role: CastRole): CastMember {
+  return {
+    id: `cast-${crypto.randomUUID()}`,
+    name: '',
+    role,
+    gender: 'neutral',
+    skinTone: 'Fair',
+    hairColor: role === 'pet' ? 'Golden' : 'Brown',
+    eyeColor: 'Brown',
+    photoUrl: '',
+  };
+}
+
+export function addCastMember(profile: KidProfile, role: CastRole): KidProfile {
+  const cast = profile.cast ?? [];
+  if (cast.length >= MAX_CAST_MEMBERS) {
+    return profile;
+  }
+
+  return { ...profile, cast: [...cast, createCastMember(role)] };
+}
+
+export function updateCastMember(
+  profile: KidProfile,
+  memberId: string,
+  changes: Partial<Omit<CastMember, 'id'>>,
+): KidProfile {
+  return {
+    ...profile,
+    cast: profile.cast?.map((member) => (member.id === memberId ? { ...member, ...changes } : member)),
+  };
+}
+
+export function removeCastMember(profile: KidProfile, memberId: string): KidProfile {
+  return { ...profile, cast: profile.cast?.filter((member) => member.id !== memberId) };
+}
+
 export function parseStoryId(rawStoryId: string | undefined): number | null {
   if (!rawStoryId) {
     return null;
@@ -67,6 +152,60 @@ export function replaceStoryPanel(story: Story, updatedPanel: ComicPanelData): S
   };
 }
 
+export function createDraftPanel(): ComicPanelData {
+  return {
+    id: `draft-${crypto.randomUUID()}`,
+    text: '',
+    imagePrompt: '',
+  };
+}
+
+export function insertPanelAfter(panels: ComicPanelData[], index: number): ComicPanelData[] {
+  return [...panels.slice(0, index + 1), createDraftPanel(), ...panels.slice(index + 1)];
+}
+
+export function removePanelAt(panels: ComicPanelData[], index: number): ComicPanelData[] {
+  return panels.filter((_, panelIndex) => panelIndex !== index);
+}
+
+export function movePanel(panels: ComicPanelData[], fromIndex: number, toIndex: number): ComicPanelData[] {
+  if (fromIndex === toIndex) {
+    return panels;
+  }
+
+  const nextPanels = [...panels];
+  const [movedPanel] = nextPanels.splice(fromIndex, 1);
+  nextPanels.splice(toIndex, 0, movedPanel);
+  return nextPanels;
+}
+
+export function updatePanelText(panels: ComicPanelData[], index: number, text: string): ComicPanelData[] {
+  return panels.map((panel, panelIndex) => (panelIndex === index ? { ...panel, text } : panel));
+}
+
+/**
+ * True when the draft layout differs from the saved panels in order, count, or captions.
+ */
+export function hasPanelLayoutChanges(savedPanels: ComicPanelData[], draftPanels: ComicPanelData[]): boolean {
+  if (savedPanels.length !== draftPanels.length) {
+    return true;
+  }
+
+  return draftPanels.some((panel, index) => (
+    panel.id !== savedPanels[index].id || panel.text !== savedPanels[index].text
+  ));
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new DOMException('Story generation was cancelled.', 'AbortError');
+  }
+}
+
 export function wait(milliseconds: number): Promise<void> {
   return new Promise((resolve) => {
     window.setTimeout(resolve, milliseconds);
@@ -93,3 +232,25 @@ export async function readFileAsDataUrl(file: File): Promise<string> {
     reader.readAsDataURL(file);
   });
 }
+
+/** File name for a downloaded story, e.g. `the-brave-fox.pdf`. */
+export function getStoryExportFileName(title: string, extension: StoryExportFormat): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${slug || 'story'}.${extension}`;
+}
+
+/** Save a generated file through a temporary object URL. */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
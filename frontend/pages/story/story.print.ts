@@ -0,0 +1,315 @@
+/**
+ * Printable PDF export of a finished story.
+ *
+ * Each page of the plan from buildPrintPages is painted onto a canvas at print
+ * resolution, so every script (Arabic, CJK) renders with the browser's own
+ * text shaping, then the JPEG pages are bundled by the small PDF writer.
+ */
+import i18n from '@/i18n';
+import { getLanguageDirection, type LanguageDirection } from '@/i18n.languages';
+import type { KidProfile, Story } from '@/types';
+import {
+  buildPdfDocument,
+  buildPrintPages,
+  getImageUrl,
+  getPrintGutterSide,
+  getPrintPageMetrics,
+  type PdfPageImage,
+  type PrintPage,
+  type PrintPageSize,
+  wrapPrintText,
+} from '@/utils';
+
+interface PrintPaintContext {
+  ctx: CanvasRenderingContext2D;
+  story: Story;
+  profile: KidProfile | null;
+  images: Map<string, HTMLImageElement>;
+  direction: LanguageDirection;
+  language: string;
+  /** Canvas pixels per PDF point. */
+  scale: number;
+  bleed: number;
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** 300 dpi is what print shops expect for picture books. */
+const PRINT_DPI = 300;
+const PRINT_JPEG_QUALITY = 0.9;
+/** Distance from the trim edge that stays clear of text and panel art, in points. */
+const SAFE_MARGIN = 36;
+/** Extra inner margin so nothing disappears into the binding, in points. */
+const GUTTER_MARGIN = 18;
+const BRAND_PRIMARY = '#9d6bcf';
+const BRAND_SECONDARY = '#be93e4';
+const BRAND_ACCENT = '#ffe066';
+const BRAND_DARK = '#4a2b6a';
+const HEADING_FONT = '"Fredoka", "Quicksand", sans-serif';
+const BODY_FONT = '"Quicksand", sans-serif';
+
+function loadPrintImage(source: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Panel art is served by the backend; without CORS the canvas could not be exported.
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load image ${source}`));
+    image.src = source;
+  });
+}
+
+async function loadStoryImages(story: Story): Promise<Map<string, HTMLImageElement>> {
+  const sources = [story.coverImageUrl, ...story.panels.map((panel) => panel.imageUrl)]
+    .filter((source): source is string => Boolean(source));
+  const images = new Map<string, HTMLImageElement>();
+
+  await Promise.all([...new Set(sources)].map(async (source) => {
+    const url = getImageUrl(source);
+    if (url) {
+      images.set(source, await loadPrintImage(url));
+    }
+  }));
+
+  return images;
+}
+
+function drawImageCover(ctx: CanvasRenderingContext2D, image: HTMLImageElement, box: Box): void {
+  const scale = Math.max(box.width / image.naturalWidth, box.height / image.naturalHeight);
+  const sourceWidth = box.width / scale;
+  const sourceHeight = box.height / scale;
+  ctx.drawImage(
+    image,
+    (image.naturalWidth - sourceWidth) / 2,
+    (image.naturalHeight - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    box.x,
+    box.y,
+    box.width,
+    box.height,
+  );
+}
+
+/** Draw centred, wrapped text and return the y just below the last line. */
+function drawTextBlock(
+  paint: PrintPaintContext,
+  text: string,
+  box: Box,
+  { font, size, color, lineHeight = 1.35 }: { font: string; size: number; color: string; lineHeight?: number },
+): number {
+  const { ctx, scale } = paint;
+  ctx.font = `${size * scale}px ${font}`;
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  const lines = wrapPrintText(text, box.width * scale, (line) => ctx.measureText(line).width);
+  const step = size * lineHeight;
+
+  lines.forEach((line, index) => {
+    ctx.fillText(line, (box.x + box.width / 2) * scale, (box.y + index * step) * scale);
+  });
+
+  return box.y + lines.length * step;
+}
+
+/** The safe area of a page: inside the trim, clear of the margins and the binding. */
+function getSafeBox(paint: PrintPaintContext, pageIndex: number): Box {
+  const gutterSide = getPrintGutterSide(pageIndex, paint.direction);
+  const left = paint.bleed + SAFE_MARGIN + (gutterSide === 'left' ? GUTTER_MARGIN : 0);
+  const right = paint.bleed + SAFE_MARGIN + (gutterSide === 'right' ? GUTTER_MARGIN : 0);
+
+  return {
+    x: left,
+    y: paint.bleed + SAFE_MARGIN,
+    width: paint.width - left - right,
+    height: paint.height - (paint.bleed + SAFE_MARGIN) * 2,
+  };
+}
+
+function paintCover(paint: PrintPaintContext, pageIndex: number): void {
+  const { ctx, story, scale, width, height } = paint;
+  const coverImage = story.coverImageUrl ? paint.images.get(story.coverImageUrl) : undefined;
+
+  ctx.fillStyle = BRAND_PRIMARY;
+  ctx.fillRect(0, 0, width * scale, height * scale);
+  if (coverImage) {
+    drawImageCover(ctx, coverImage, { x: 0, y: 0, width: width * scale, height: height * scale });
+  }
+
+  const shade = ctx.createLinearGradient(0, height * scale * 0.45, 0, height * scale);
+  shade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  shade.addColorStop(1, 'rgba(0, 0, 0, 0.75)');
+  ctx.fillStyle = shade;
+  ctx.fillRect(0, 0, width * scale, height * scale);
+
+  const safeBox = getSafeBox(paint, pageIndex);
+  const titleTop = safeBox.y + safeBox.height * 0.72;
+  const titleBottom = drawTextBlock(paint, story.title, { ...safeBox, y: titleTop }, {
+    font: `bold ${HEADING_FONT}`,
+    size: 36,
+    color: '#ffffff',
+    lineHeight: 1.15,
+  });
+  drawTextBlock(paint, i18n.t('story.print.coverSubtitle', { lng: paint.language }), { ...safeBox, y: titleBottom + 12 }, {
+    font: BODY_FONT,
+    size: 14,
+    color: BRAND_ACCENT,
+  });
+}
+
+function paintForeword(paint: PrintPaintContext, pageIndex: number): void {
+  const safeBox = getSafeBox(paint, pageIndex);
+  const headingBottom = drawTextBlock(paint, i18n.t('story.storyboard.introduction', { lng: paint.language }), {
+    ...safeBox,
+    y: safeBox.y + safeBox.height * 0.25,
+  }, { font: `bold ${HEADING_FONT}`, size: 26, color: BRAND_PRIMARY });
+  drawTextBlock(paint, paint.story.foreword, { ...safeBox, y: headingBottom + 24 }, {
+    font: `italic ${BODY_FONT}`,
+    size: 16,
+    color: BRAND_DARK,
+    lineHeight: 1.5,
+  });
+}
+
+function paintPanel(paint: PrintPaintContext, pageIndex: number, page: Extract<PrintPage, { kind: 'panel' }>): void {
+  const { ctx, scale } = paint;
+  const panel = paint.story.panels[page.panelIndex];
+  const safeBox = getSafeBox(paint, pageIndex);
+  const artBox = { ...safeBox, height: safeBox.width };
+  const panelImage = panel.imageUrl ? paint.images.get(panel.imageUrl) : undefined;
+
+  if (panelImage) {
+    drawImageCover(ctx, panelImage, {
+      x: artBox.x * scale,
+      y: artBox.y * scale,
+      width: artBox.width * scale,
+      height: artBox.height * scale,
+    });
+  } else {
+    ctx.fillStyle = '#f3e8ff';
+    ctx.fillRect(artBox.x * scale, artBox.y * scale, artBox.width * scale, artBox.height * scale);
+  }
+
+  drawTextBlock(paint, panel.text, { ...safeBox, y: artBox.y + artBox.height + 28 }, {
+    font: BODY_FONT,
+    size: 18,
+    color: BRAND_DARK,
+    lineHeight: 1.45,
+  });
+  drawTextBlock(paint, String(page.pageNumber), { ...safeBox, y: safeBox.y + safeBox.height - 10 }, {
+    font: BODY_FONT,
+    size: 10,
+    color: BRAND_SECONDARY,
+  });
+}
+
+function paintBackCover(paint: PrintPaintContext, pageIndex: number): void {
+  const { ctx, scale, width, height } = paint;
+  const safeBox = getSafeBox(paint, pageIndex);
+
+  ctx.fillStyle = BRAND_SECONDARY;
+  ctx.fillRect(0, 0, width * scale, height * scale);
+  const titleBottom = drawTextBlock(paint, paint.story.title, { ...safeBox, y: safeBox.y + safeBox.height * 0.4 }, {
+    font: `bold ${HEADING_FONT}`,
+    size: 24,
+    color: '#ffffff',
+  });
+  drawTextBlock(paint, i18n.t('story.print.backCoverLine', { lng: paint.language, name: paint.profile?.name || '' }), {
+    ...safeBox,
+    y: titleBottom + 16,
+  }, { font: `italic ${BODY_FONT}`, size: 14, color: '#ffffff' });
+}
+
+function paintPrintPage(paint: PrintPaintContext, page: PrintPage, pageIndex: number): void {
+  const { ctx, scale, width, height } = paint;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width * scale, height * scale);
+
+  switch (page.kind) {
+    case 'cover':
+      paintCover(paint, pageIndex);
+      break;
+    case 'foreword':
+      paintForeword(paint, pageIndex);
+      break;
+    case 'panel':
+      paintPanel(paint, pageIndex, page);
+      break;
+    case 'backCover':
+      paintBackCover(paint, pageIndex);
+      break;
+    case 'blank':
+      break;
+  }
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Failed to encode print page'));
+        return;
+      }
+      void blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/jpeg', PRINT_JPEG_QUALITY);
+  });
+}
+
+export async function renderStoryPdf(
+  story: Story,
+  profile: KidProfile | null,
+  pageSize: PrintPageSize,
+): Promise<Blob> {
+  const language = profile?.language || i18n.resolvedLanguage || i18n.language;
+  const direction = getLanguageDirection(language);
+  const metrics = getPrintPageMetrics(pageSize);
+  const scale = PRINT_DPI / 72;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(metrics.mediaWidth * scale);
+  canvas.height = Math.round(metrics.mediaHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+  ctx.direction = direction;
+
+  const images = await loadStoryImages(story);
+
+  const paint: PrintPaintContext = {
+    ctx,
+    story,
+    profile,
+    images,
+    direction,
+    language,
+    scale,
+    bleed: metrics.bleed,
+    width: metrics.mediaWidth,
+    height: metrics.mediaHeight,
+  };
+  const pages: PdfPageImage[] = [];
+  const printPages = buildPrintPages(story.panels.length);
+
+  for (const [pageIndex, page] of printPages.entries()) {
+    paintPrintPage(paint, page, pageIndex);
+    pages.push({ jpeg: await canvasToJpeg(canvas), pixelWidth: canvas.width, pixelHeight: canvas.height });
+  }
+
+  const pdf = buildPdfDocument({
+    title: story.title,
+    pageWidth: metrics.mediaWidth,
+    pageHeight: metrics.mediaHeight,
+    bleed: metrics.bleed,
+    direction,
+    pages,
+  });
+  return new Blob([pdf], { type: 'application/pdf' });
+}
@@ -0,0 +1,147 @@
+/**
+ * Story remix: copy a saved story into a new draft for another hero, art style
+ * or language, then hand it to the usual preview and full-story generation.
+ *
+ * The copy keeps the script. When the hero or language changed, the script is
+ * rewritten through the revision stream first, so the words and the character
+ * description match the remix before any picture is painted.
+ */
+import {
+  deleteStory,
+  getStory,
+  remixStory,
+  reviseStoryScript,
+  type StoryIntroField,
+} from '@api';
+import i18n from '@/i18n';
+import { defaultLanguage, normalizeLanguageCode, supportedLanguages } from '@/i18n.languages';
+import type { KidProfile } from '@/types';
+import { mapApiProfileToKidProfile, mapApiStoryToStory, mapKidProfileToGenerationProfile } from '@/utils';
+import { createProfileForNextEpisode, throwIfAborted } from './story.helpers';
+import { applyScriptRevision, toGeneratedStoryScript } from './story.revision';
+import type { PendingGeneration, StoryRemix } from './story.types';
+
+interface StoryRemixState {
+  remix: StoryRemix;
+  nextProfile: KidProfile;
+}
+
+interface GeneratedRemixState {
+  nextPendingGeneration: PendingGeneration;
+}
+
+interface GenerateRemixOptions {
+  onIntroDelta: (field: StoryIntroField, delta: string) => void;
+  /** Aborts the rewrite and preview images, and discards the copy. */
+  signal?: AbortSignal;
+}
+
+const HERO_FIELDS = ['name', 'gender', 'skinTone', 'hairColor', 'eyeColor'] as const;
+
+const HERO_NOUNS: Record<KidProfile['gender'], string> = {
+  boy: 'boy',
+  girl: 'girl',
+  neutral: 'child',
+};
+
+/** Stories saved before languages were stored were written in the app language. */
+export function getStoryLanguage(profile: KidProfile): string {
+  return normalizeLanguageCode(profile.language || i18n.resolvedLanguage || i18n.language || defaultLanguage);
+}
+
+/**
+ * The rewrite a remix needs, or null when the script can be copied as is.
+ * An art style alone only changes the pictures, so it needs no rewrite.
+ */
+export function buildRemixInstruction(sourceProfile: KidProfile, nextProfile: KidProfile): string | null {
+  const changes: string[] = [];
+
+  if (HERO_FIELDS.some((field) => sourceProfile[field] !== nextProfile[field])) {
+    changes.push(
+      `Retell it with a new hero: ${nextProfile.name}, a ${HERO_NOUNS[nextProfile.gender]} with `
+      + `${nextProfile.skinTone} skin, ${nextProfile.hairColor} hair and ${nextProfile.eyeColor} eyes. `
+      + 'Use the new name everywhere and rewrite characterDescription for the new hero.',
+    );
+  }
+
+  const nextLanguage = getStoryLanguage(nextProfile);
+  if (nextLanguage !== getStoryLanguage(sourceProfile)) {
+    const languageLabel = supportedLanguages.find((language) => language.code === nextLanguage)?.label ?? nextLanguage;
+    changes.push(`Translate all story text into ${languageLabel}.`);
+  }
+
+  return changes.length ? ['Keep the same plot and the same scenes.', ...changes].join(' ') : null;
+}
+
+/** Prepare the wizard to remix a saved story, starting from its hero and settings. */
+export async function loadStoryRemixState(accessToken: string, storyId: number): Promise<StoryRemixState> {
+  const sourceStory = await getStory(accessToken, storyId);
+  const sourceProfile = mapApiProfileToKidProfile(sourceStory.profile);
+
+  return {
+    remix: {
+      storyId,
+      title: sourceStory.title || '',
+      sourceProfile,
+      keepImages: false,
+    },
+    nextProfile: {
+      ...createProfileForNextEpisode(sourceProfile),
+      language: getStoryLanguage(sourceProfile),
+    },
+  };
+}
+
+/** Copy the story, adapt its script to the remix, and paint the preview scenes it still lacks. */
+export async function generateRemixState(
+  accessToken: string,
+  remix: StoryRemix,
+  profile: KidProfile,
+  { onIntroDelta, signal }: GenerateRemixOptions,
+): Promise<GeneratedRemixState> {
+  const language = getStoryLanguage(profile);
+  const profileForApi = { ...mapKidProfileToGenerationProfile(profile), language };
+  const draft = await remixStory(accessToken, remix.storyId, {
+    profile: {
+      name: profileForApi.name,
+      gender: profileForApi.gender,
+      skin_tone: profileForApi.skin_tone,
+      hair_color: profileForApi.hair_color,
+      eye_color: profileForApi.eye_color,
+      favorite_color: profileForApi.favorite_color,
+      dream: profileForApi.dream,
+      archetype: profileForApi.archetype,
+      art_style: profileForApi.art_style,
+      language,
+    },
+    keep_images: remix.keepImages,
+  });
+  const pendingGeneration: PendingGeneration = {
+    profileForApi,
+    previewStory: mapApiStoryToStory(draft),
+    previewStoryId: draft.id,
+  };
+
+  try {
+    const instruction = buildRemixInstruction(remix.sourceProfile, profile);
+    let script = toGeneratedStoryScript(pendingGeneration.previewStory);
+
+    if (instruction) {
+      script = await reviseStoryScript(accessToken, script, instruction, { language, onIntroDelta, signal });
+    } else {
+      // Nothing to rewrite; show the copied intro the way a streamed one appears.
+      onIntroDelta('title', script.title);
+      onIntroDelta('foreword', script.foreword);
+    }
+
+    const nextPendingGeneration = await applyScriptRevision(accessToken, pendingGeneration, script, signal);
+    throwIfAborted(signal);
+    return { nextPendingGeneration };
+  } catch (error) {
+    // A remix that did not make it to the preview is a copy nobody asked for.
+    await deleteStory(accessToken, draft.id).catch((deleteError: unknown) => {
+      console.error('Failed to discard unfinished remix:', deleteError);
+    });
+    throw error;
+  }
+}
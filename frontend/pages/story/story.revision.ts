@@ -0,0 +1,144 @@
+/**
+ * Whole-script revision for preview drafts.
+ *
+ * Streams a rewrite that follows the parent's instruction ("make it shorter",
+ * "add a dog"), then applies the accepted rewrite to the saved draft while
+ * keeping every image whose scene did not change.
+ */
+import {
+  type GeneratedStoryScript,
+  generatePanelImage,
+  reviseStoryScript,
+  type StoryIntroField,
+  updateStory,
+} from '@api';
+import i18n from '@/i18n';
+import type { ComicPanelData, Story } from '@/types';
+import { imageSourceToPureBase64 } from '@/utils';
+import { createDraftPanel, throwIfAborted } from './story.helpers';
+import type { PendingGeneration } from './story.types';
+
+interface StreamScriptRevisionOptions {
+  onIntroDelta: (field: StoryIntroField, delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export function toGeneratedStoryScript(story: Story): GeneratedStoryScript {
+  return {
+    title: story.title,
+    foreword: story.foreword,
+    characterDescription: story.characterDescription,
+    coverImagePrompt: story.coverImagePrompt,
+    panels: story.panels.map((panel, index) => ({
+      id: String(index + 1),
+      text: panel.text,
+      imagePrompt: panel.imagePrompt,
+    })),
+  };
+}
+
+export async function streamScriptRevision(
+  accessToken: string,
+  pendingGeneration: PendingGeneration,
+  instruction: string,
+  { onIntroDelta, signal }: StreamScriptRevisionOptions,
+): Promise<GeneratedStoryScript> {
+  return reviseStoryScript(
+    accessToken,
+    toGeneratedStoryScript(pendingGeneration.previewStory),
+    instruction,
+    { language: pendingGeneration.profileForApi.language, onIntroDelta, signal },
+  );
+}
+
+/**
+ * Map the rewrite onto the current panels. A panel keeps its saved row and
+ * image when the model copied its image prompt, wherever it moved to.
+ */
+export function buildRevisedStory(story: Story, script: GeneratedStoryScript): Story {
+  const unusedPanels = [...story.panels];
+
+  const panels = script.panels.map((revisedPanel): ComicPanelData => {
+    const matchIndex = unusedPanels.findIndex((panel) => panel.imagePrompt === revisedPanel.imagePrompt);
+    if (matchIndex < 0) {
+      return { ...createDraftPanel(), text: revisedPanel.text, imagePrompt: revisedPanel.imagePrompt };
+    }
+
+    const [matchedPanel] = unusedPanels.splice(matchIndex, 1);
+    return { ...matchedPanel, text: revisedPanel.text };
+  });
+
+  return {
+    ...story,
+    title: script.title,
+    foreword: script.foreword,
+    characterDescription: script.characterDescription,
+    coverImagePrompt: script.coverImagePrompt,
+    panels,
+  };
+}
+
+/**
+ * Apply an accepted rewrite to the saved preview draft. The preview always
+ * shows the first and last scenes, so those are repainted when the rewrite
+ * changed them; every other missing image waits for full generation.
+ */
+export async function applyScriptRevision(
+  accessToken: string,
+  pendingGeneration: PendingGeneration,
+  script: GeneratedStoryScript,
+  signal?: AbortSignal,
+): Promise<PendingGeneration> {
+  if (!script.panels.length) {
+    throw new Error(i18n.t('story.errors.noPanels'));
+  }
+
+  const { previewStory, previewStoryId, profileForApi } = pendingGeneration;
+  const revisedStory = buildRevisedStory(previewStory, script);
+  const previewIndexes = [...new Set([0, revisedStory.panels.length - 1])];
+  const paintedImages = new Map<number, string>();
+
+  await Promise.all(previewIndexes
+    .filter((index) => !revisedStory.panels[index].imageUrl)
+    .map(async (index) => {
+      const image = await generatePanelImage(
+        accessToken,
+        revisedStory.panels[index].imagePrompt,
+        revisedStory.characterDescription,
+        profileForApi.art_style,
+        { signal },
+      );
+      paintedImages.set(index, image);
+    }));
+  throwIfAborted(signal);
+
+  const savedOrderById = new Map(previewStory.panels.map((panel, index) => [panel.id, index]));
+  const panels = revisedStory.panels.map((panel, index) => ({
+    ...panel,
+    imageUrl: paintedImages.get(index) ?? panel.imageUrl,
+  }));
+
+  await updateStory(accessToken, previewStoryId, {
+    is_unlocked: false,
+    replace_panels: true,
+    title: revisedStory.title,
+    foreword: revisedStory.foreword,
+    character_description: revisedStory.characterDescription,
+    cover_image_prompt: revisedStory.coverImagePrompt,
+    panels: await Promise.all(panels.map(async (panel, index) => {
+      const paintedImage = paintedImages.get(index);
+      return {
+        panel_order: index,
+        text: panel.text,
+        image_prompt: panel.imagePrompt,
+        source_panel_order: savedOrderById.get(panel.id),
+        image_base64: paintedImage ? await imageSourceToPureBase64(paintedImage) : undefined,
+      };
+    })),
+  });
+
+  return {
+    ...pendingGeneration,
+    previewStory: { ...revisedStory, panels },
+  };
+}
@@ -1,8 +1,8 @@
 /**
  * Shared types for the story page view state and generation lifecycle.
  */
-import type { KidProfileForGeneration } from '@api';
-import type { Story } from '@/types';
+import type { GeneratedStoryScript, KidProfileForGeneration } from '@api';
+import type { KidProfile, Story } from '@/types';
 
 export enum StoryPageView {
   Onboarding = 'onboarding',
@@ -19,12 +19,61 @@ export interface IntroStreamState {
   isPreparingPreview: boolean;
 }
 
+export type GenerationTaskStatus = 'queued' | 'generating' | 'done' | 'failed';
+
+/**
+ * Tracks every image the full-story run still owes, so failures stay local
+ * to one panel instead of discarding the whole run.
+ */
+export interface StoryGenerationJob {
+  cover: GenerationTaskStatus;
+  panels: Record<string, GenerationTaskStatus>;
+}
+
+export interface GenerationJobSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  isRunning: boolean;
+}
+
 export interface PendingGeneration {
   profileForApi: KidProfileForGeneration;
   previewStory: Story;
   previewStoryId: number;
 }
 
+/** The saved story that the wizard is writing the next episode of. */
+export interface StoryContinuation {
+  storyId: number;
+  title: string;
+  /** Episode number the new story will get. */
+  nextEpisodeNumber: number;
+}
+
+/** The saved story the wizard is copying into a new draft. */
+export interface StoryRemix {
+  storyId: number;
+  title: string;
+  /** The hero the original was written for, to tell what the remix changes. */
+  sourceProfile: KidProfile;
+  /** Copy the original pictures instead of painting the remix from scratch. */
+  keepImages: boolean;
+}
+
+export type ScriptRevisionStatus = 'editing' | 'streaming' | 'review' | 'applying';
+
+/** A whole-script rewrite the parent asked for, from instruction to accepted draft. */
+export interface ScriptRevisionState {
+  status: ScriptRevisionStatus;
+  instruction: string;
+  /** Title and foreword as they stream in. */
+  title: string;
+  foreword: string;
+  /** The finished rewrite, set once the stream completes. */
+  script: GeneratedStoryScript | null;
+}
+
 export interface StoryPageAccessContext {
   ownerUserId: number | null;
   isReadOnly: boolean;
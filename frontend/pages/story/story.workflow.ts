@@ -2,28 +2,48 @@
  * Story generation workflows used by the story page controller.
  *
  * Covers the three long-running paths in this feature: loading saved stories,
- * generating a preview, and finalizing the full story.
+ * generating a preview, and finalizing the full story panel by panel.
  */
 import {
+  deleteStory,
   generatePanelImage,
   getFriendSharedStory,
   getStory,
   saveStory,
   streamStoryScript,
   type StoryIntroField,
+  updatePanelImage,
   updateStory,
 } from '@api';
 import i18n from '@/i18n';
 import { defaultLanguage, normalizeLanguageCode } from '@/i18n.languages';
-import type { KidProfile, Story } from '@/types';
+import type { ComicPanelData, KidProfile, Story } from '@/types';
 import {
   imageSourceToPureBase64,
   mapApiProfileToKidProfile,
   mapApiStoryToStory,
   mapKidProfileToGenerationProfile,
 } from '@/utils';
-import { isPreviewDraft } from './story.helpers';
-import { StoryPageView, type PendingGeneration } from './story.types';
+import {
+  applyGenerationJob,
+  createGenerationJob,
+  hasFailedTasks,
+  setCoverTaskStatus,
+  setPanelTaskStatus,
+} from './story.generation';
+import {
+  createProfileForNextEpisode,
+  isAbortError,
+  isPreviewDraft,
+  replaceStoryPanel,
+  throwIfAborted,
+} from './story.helpers';
+import {
+  StoryPageView,
+  type PendingGeneration,
+  type StoryContinuation,
+  type StoryGenerationJob,
+} from './story.types';
 
 interface LoadedStoryState {
   nextProfile: KidProfile;
@@ -32,10 +52,42 @@ interface LoadedStoryState {
   nextView: StoryPageView.Preview | StoryPageView.Storyboard;
 }
 
+interface StoryContinuationState {
+  continuation: StoryContinuation;
+  nextProfile: KidProfile;
+}
+
 interface GeneratedPreviewState {
   nextPendingGeneration: PendingGeneration;
 }
 
+interface GeneratePreviewOptions {
+  onIntroDelta: (field: StoryIntroField, delta: string) => void;
+  /** Aborts the script stream and preview images, and discards a draft saved mid-cancel. */
+  signal?: AbortSignal;
+  /** Writes and saves the story as the next episode of this saved story. */
+  continuesStoryId?: number;
+}
+
+interface FullStoryProgress {
+  job: StoryGenerationJob;
+  story: Story;
+}
+
+interface GenerateFullStoryOptions {
+  /** Resume from an earlier job; defaults to whatever images the preview already has. */
+  job?: StoryGenerationJob;
+  onProgress?: (progress: FullStoryProgress) => void;
+  /** Stops pending image calls; tasks that were cut off go back to `queued`. */
+  signal?: AbortSignal;
+}
+
+interface FullStoryGenerationResult {
+  story: Story;
+  job: StoryGenerationJob;
+  isComplete: boolean;
+}
+
 export async function loadStoryState(accessToken: string, storyId: number): Promise<LoadedStoryState> {
   const savedStory = await getStory(accessToken, storyId);
   return mapLoadedStoryState(savedStory, storyId);
@@ -50,6 +102,24 @@ export async function loadFriendSharedStoryState(
   return mapLoadedStoryState(sharedStory, storyId);
 }
 
+/** Prepare the wizard to write the next episode of a saved story. */
+export async function loadStoryContinuationState(
+  accessToken: string,
+  storyId: number,
+): Promise<StoryContinuationState> {
+  const previousStory = await getStory(accessToken, storyId);
+  const nextProfile = createProfileForNextEpisode(mapApiProfileToKidProfile(previousStory.profile));
+
+  return {
+    continuation: {
+      storyId,
+      title: previousStory.title || '',
+      nextEpisodeNumber: (previousStory.series?.episode_number ?? 1) + 1,
+    },
+    nextProfile,
+  };
+}
+
 function mapLoadedStoryState(
   savedStory: Awaited<ReturnType<typeof getStory>>,
   storyId: number,
@@ -64,7 +134,9 @@ function mapLoadedStoryState(
     language: persistedLanguage,
   };
 
-  if (isPreviewDraft(nextStory)) {
+  // A locked story resumes from Preview even with every image saved: the run that
+  // painted them failed before unlocking it.
+  if (!savedStory.is_unlocked || isPreviewDraft(nextStory)) {
     return {
       nextProfile,
       nextStory,
@@ -89,26 +161,24 @@ async function buildPreviewStory(
   accessToken: string,
   profileForApi: PendingGeneration['profileForApi'],
   script: Awaited<ReturnType<typeof streamStoryScript>>,
+  signal?: AbortSignal,
 ): Promise<Story> {
   if (!script.panels.length) {
     throw new Error(i18n.t('story.errors.noPanels'));
   }
 
   const lastPanelIndex = script.panels.length - 1;
-  const [firstImage, lastImage] = await Promise.all([
-    generatePanelImage(
-      accessToken,
-      script.panels[0].imagePrompt,
-      script.characterDescription,
-      profileForApi.art_style,
-    ),
-    generatePanelImage(
-      accessToken,
-      script.panels[lastPanelIndex].imagePrompt,
-      script.characterDescription,
-      profileForApi.art_style,
-    ),
-  ]);
+  const paintPanel = (index: number) => generatePanelImage(
+    accessToken,
+    script.panels[index].imagePrompt,
+    script.characterDescription,
+    profileForApi.art_style,
+    { signal },
+  );
+  // A one-panel story opens and ends on the same scene, so paint it once.
+  const [firstImage, lastImage] = lastPanelIndex === 0
+    ? await paintPanel(0).then((image) => [image, image])
+    : await Promise.all([paintPanel(0), paintPanel(lastPanelIndex)]);
 
   return {
     title: script.title,
@@ -130,6 +200,7 @@ async function persistPreviewStory(
   accessToken: string,
   profileForApi: PendingGeneration['profileForApi'],
   previewStory: Story,
+  continuesStoryId?: number,
 ): Promise<number> {
   const previewPanels = await Promise.all(
     previewStory.panels.map(async (panel, index) => ({
@@ -150,6 +221,7 @@ async function persistPreviewStory(
       favorite_color: profileForApi.favorite_color,
       dream: profileForApi.dream,
       archetype: profileForApi.archetype,
+      art_style: profileForApi.art_style,
       language: profileForApi.language,
     },
     title: previewStory.title,
@@ -157,21 +229,32 @@ async function persistPreviewStory(
     character_description: previewStory.characterDescription,
     cover_image_prompt: previewStory.coverImagePrompt,
     panels: previewPanels,
+    continues_story_id: continuesStoryId,
   });
 }
 
 export async function generatePreviewState(
   accessToken: string,
   profile: KidProfile,
-  onIntroDelta: (field: StoryIntroField, delta: string) => void,
+  { onIntroDelta, signal, continuesStoryId }: GeneratePreviewOptions,
 ): Promise<GeneratedPreviewState> {
   const profileForApi = {
     ...mapKidProfileToGenerationProfile(profile),
     language: normalizeLanguageCode(i18n.resolvedLanguage || i18n.language || defaultLanguage),
   };
-  const script = await streamStoryScript(accessToken, profileForApi, { onIntroDelta });
-  const previewStory = await buildPreviewStory(accessToken, profileForApi, script);
-  const previewStoryId = await persistPreviewStory(accessToken, profileForApi, previewStory);
+  const script = await streamStoryScript(accessToken, profileForApi, { onIntroDelta, signal, continuesStoryId });
+  const previewStory = await buildPreviewStory(accessToken, profileForApi, script, signal);
+  throwIfAborted(signal);
+  const previewStoryId = await persistPreviewStory(accessToken, profileForApi, previewStory, continuesStoryId);
+
+  // The save itself is not abortable, so a cancel that lands while it is in
+  // flight leaves a draft nobody asked for. Remove it before reporting the abort.
+  if (signal?.aborted) {
+    await deleteStory(accessToken, previewStoryId).catch((error: unknown) => {
+      console.error('Failed to discard cancelled preview draft:', error);
+    });
+    throwIfAborted(signal);
+  }
 
   return {
     nextPendingGeneration: {
@@ -182,50 +265,120 @@ export async function generatePreviewState(
   };
 }
 
-export async function generateFullStoryState(accessToken: string, pendingGeneration: PendingGeneration): Promise<Story> {
+export async function generateFullStoryState(
+  accessToken: string,
+  pendingGeneration: PendingGeneration,
+  options: GenerateFullStoryOptions = {},
+): Promise<FullStoryGenerationResult> {
   const { previewStory, previewStoryId, profileForApi } = pendingGeneration;
-  const lastPanelIndex = previewStory.panels.length - 1;
+  const { signal } = options;
+  let job = options.job ?? createGenerationJob(previewStory);
+  let story = previewStory;
 
-  const coverImagePromise = generatePanelImage(
-    accessToken,
-    previewStory.coverImagePrompt,
-    previewStory.characterDescription,
-    profileForApi.art_style,
-  );
-  const panelImagePromises = previewStory.panels.map(async (panel, index) => {
-    if (index === 0 || index === lastPanelIndex) {
-      if (!panel.imageUrl) {
-        throw new Error(i18n.t('story.errors.previewImagesMissing'));
+  const reportProgress = () => {
+    options.onProgress?.({ job, story: applyGenerationJob(story, job) });
+  };
+
+  // Each image is persisted the moment it lands, so a failure elsewhere (or a
+  // reload) never throws away finished work.
+  const runCoverTask = async (): Promise<void> => {
+    if (job.cover !== 'queued' || signal?.aborted) {
+      return;
+    }
+
+    job = setCoverTaskStatus(job, 'generating');
+    reportProgress();
+
+    try {
+      const coverImage = await generatePanelImage(
+        accessToken,
+        story.coverImagePrompt,
+        story.characterDescription,
+        profileForApi.art_style,
+        { signal },
+      );
+      await updateStory(accessToken, previewStoryId, {
+        is_unlocked: false,
+        cover_image_base64: await imageSourceToPureBase64(coverImage),
+        panels: [],
+      });
+      story = { ...story, coverImageUrl: coverImage };
+      job = setCoverTaskStatus(job, 'done');
+    } catch (error) {
+      if (isAbortError(error)) {
+        job = setCoverTaskStatus(job, 'queued');
+      } else {
+        console.error('Failed to generate cover image:', error);
+        job = setCoverTaskStatus(job, 'failed');
       }
+    }
 
-      return imageSourceToPureBase64(panel.imageUrl);
+    reportProgress();
+  };
+
+  const runPanelTask = async (panel: ComicPanelData, panelOrder: number): Promise<void> => {
+    if (job.panels[panel.id] !== 'queued' || signal?.aborted) {
+      return;
     }
 
-    const generatedImage = await generatePanelImage(
-      accessToken,
-      panel.imagePrompt,
-      previewStory.characterDescription,
-      profileForApi.art_style,
-    );
+    job = setPanelTaskStatus(job, panel.id, 'generating');
+    reportProgress();
 
-    return imageSourceToPureBase64(generatedImage);
-  });
+    try {
+      const generatedImage = await generatePanelImage(
+        accessToken,
+        panel.imagePrompt,
+        story.characterDescription,
+        profileForApi.art_style,
+        { signal },
+      );
+      await updatePanelImage(
+        accessToken,
+        previewStoryId,
+        panelOrder,
+        await imageSourceToPureBase64(generatedImage),
+      );
+      story = replaceStoryPanel(story, { ...panel, imageUrl: generatedImage });
+      job = setPanelTaskStatus(job, panel.id, 'done');
+    } catch (error) {
+      if (isAbortError(error)) {
+        job = setPanelTaskStatus(job, panel.id, 'queued');
+      } else {
+        console.error(`Failed to generate panel ${panelOrder + 1}:`, error);
+        job = setPanelTaskStatus(job, panel.id, 'failed');
+      }
+    }
+
+    reportProgress();
+  };
 
-  const [coverImage, panelImageBase64List] = await Promise.all([
-    coverImagePromise,
-    Promise.all(panelImagePromises),
+  await Promise.all([
+    runCoverTask(),
+    ...previewStory.panels.map((panel, index) => runPanelTask(panel, index)),
   ]);
 
+  // A cancelled run stays a locked draft: finished images are already saved,
+  // so starting the full story again later picks up where this one stopped.
+  if (signal?.aborted || hasFailedTasks(job)) {
+    return {
+      story: applyGenerationJob(story, job),
+      job,
+      isComplete: false,
+    };
+  }
+
   await updateStory(accessToken, previewStoryId, {
     is_unlocked: true,
-    cover_image_base64: await imageSourceToPureBase64(coverImage),
-    panels: previewStory.panels.map((panel, index) => ({
+    panels: story.panels.map((panel, index) => ({
       panel_order: index,
       text: panel.text,
       image_prompt: panel.imagePrompt,
-      image_base64: panelImageBase64List[index],
     })),
   });
 
-  return mapApiStoryToStory(await getStory(accessToken, previewStoryId));
+  return {
+    story: mapApiStoryToStory(await getStory(accessToken, previewStoryId)),
+    job,
+    isComplete: true,
+  };
 }
@@ -4,30 +4,89 @@
  * Owns local screen state, navigation, and user intent handling.
  * Delegates long-running generation and persistence work to adjacent workflow files.
  */
-import { useCallback, useEffect, useRef, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
+import {
+  getGenerationQueueState,
+  listHeroes,
+  type RequestQueueState,
+  subscribeToGenerationQueue,
+} from '@api';
 import { useAuth } from '@/app/auth';
-import type { ComicPanelData, KidProfile, Story } from '@/types';
+import { STEP_LABELS } from '@/components/kidWizard.constants';
+import type {
+  CastRole,
+  ComicPanelData,
+  ImageVersion,
+  KidProfile,
+  SavedHero,
+  Story,
+  StoryExportFormat,
+} from '@/types';
+import { mapApiHeroToSavedHero, type PrintPageSize } from '@/utils';
 import {
+  addCastMember,
   appendIntroDelta,
   createEmptyKidProfile,
+  createProfileFromSavedHero,
+  downloadBlob,
+  getStoryExportFileName,
+  hasPanelLayoutChanges,
   INITIAL_INTRO_STREAM_STATE,
+  insertPanelAfter,
   INTRO_MIN_HOLD_MS,
+  isAbortError,
+  movePanel,
   parseStoryId,
   readFileAsDataUrl,
+  removeCastMember,
+  removePanelAt,
   replaceStoryPanel,
+  updateCastMember,
+  updatePanelText,
   wait,
 } from './story.helpers';
-import { editStoryPanelImage } from './story.editor';
+import {
+  acceptStoryPanelImage,
+  editStoryCoverImage,
+  editStoryPanelImage,
+  loadStoryCoverImageHistory,
+  loadStoryPanelImageHistory,
+  regenerateStoryPanelImage,
+  restoreStoryCoverImage,
+  restoreStoryPanelImage,
+  saveStoryPanelLayout,
+} from './story.editor';
+import { renderStoryEpub } from './story.epub';
+import { renderStoryPdf } from './story.print';
+import { generateRemixState, loadStoryRemixState } from './story.remix';
+import { applyScriptRevision, streamScriptRevision } from './story.revision';
+import {
+  applyGenerationJob,
+  createGenerationJob,
+  requeueFailedTasks,
+  summarizeGenerationJob,
+} from './story.generation';
 import {
   generateFullStoryState,
   loadFriendSharedStoryState,
   generatePreviewState,
+  loadStoryContinuationState,
   loadStoryState,
 } from './story.workflow';
-import { StoryPageView, type PendingGeneration, type StoryPageAccessContext } from './story.types';
+import {
+  StoryPageView,
+  type GenerationJobSummary,
+  type PendingGeneration,
+  type ScriptRevisionState,
+  type StoryContinuation,
+  type StoryGenerationJob,
+  type StoryPageAccessContext,
+  type StoryRemix,
+} from './story.types';
+import { useUnsavedChangesGuard } from './useUnsavedChangesGuard';
 
 interface UseStoryPageResult {
   view: StoryPageView;
@@ -35,6 +94,8 @@ interface UseStoryPageResult {
   story: Story | null;
   profile: KidProfile | null;
   access: StoryPageAccessContext;
+  generation: GenerationJobSummary | null;
+  generationQueue: RequestQueueState;
   wizard: {
     step: number;
     profile: KidProfile;
@@ -43,21 +104,81 @@ interface UseStoryPageResult {
     onPreviousStep: () => void;
     onPhotoSelect: (file: File) => Promise<void>;
     onPhotoRemove: () => void;
+    onAddCastMember: (role: CastRole) => void;
+    onRemoveCastMember: (memberId: string) => void;
+    onCastPhotoSelect: (memberId: string, file: File) => Promise<void>;
+    onCastPhotoRemove: (memberId: string) => void;
     onSubmit: () => Promise<void>;
+    savedHeroes: SavedHero[];
+    onPickHero: (hero: SavedHero) => void;
+    /** Set while the wizard writes the next episode of a saved story. */
+    continuation: StoryContinuation | null;
+    onCancelContinuation: () => void;
+    /** Set while the wizard copies a saved story into a new draft. */
+    remix: StoryRemix | null;
+    onRemixLanguageChange: (language: string) => void;
+    onRemixKeepImagesChange: (keepImages: boolean) => void;
+    onCancelRemix: () => void;
+  };
+  scriptRevision: {
+    /** The open revision dialog, or null while it is closed. */
+    state: ScriptRevisionState | null;
+    onOpen: () => void;
+    onSubmit: (instruction: string) => Promise<void>;
+    onAccept: () => Promise<void>;
+    onClose: () => void;
+  };
+  panelEditor: {
+    /** Draft panel layout while the owner is editing pages, otherwise null. */
+    panels: ComicPanelData[] | null;
+    isDirty: boolean;
+    isSaving: boolean;
+    onStart: () => void;
+    onCaptionChange: (index: number, text: string) => void;
+    onMovePanel: (fromIndex: number, toIndex: number) => void;
+    onInsertPanelAfter: (index: number) => void;
+    onRemovePanel: (index: number) => void;
+    onSave: () => Promise<void>;
+    onDiscard: () => void;
   };
   actions: {
     onGenerateFullStory: () => Promise<void>;
+    onRetryFailedPanels: () => Promise<void>;
+    onCancelGeneration: () => void;
     onStartOver: () => void;
     onEditPanelImage: (panel: ComicPanelData, editPrompt: string) => Promise<void>;
+    onEditCoverImage: (editPrompt: string) => Promise<void>;
+    onRegeneratePanelImage: (panel: ComicPanelData, imagePrompt: string) => Promise<string>;
+    onAcceptPanelImage: (panel: ComicPanelData, imagePrompt: string, imageUrl: string) => Promise<void>;
+    /** Starts the next episode; only the owner's latest saved episode can be continued. */
+    onContinueStory: (() => void) | null;
+    /** Opens the wizard to copy the owner's saved story into a new draft. */
+    onRemixStory: (() => void) | null;
   };
+  storyExport: {
+    /** The download being prepared, or null when idle. */
+    exportingFormat: StoryExportFormat | null;
+    onExportPdf: (pageSize: PrintPageSize) => Promise<void>;
+    /** Only saved stories can be exported as EPUB. */
+    onExportEpub: (() => Promise<void>) | null;
+  };
+  /** Earlier panel and cover images; null until the story is saved or when reading someone else's. */
+  imageHistory: {
+    onLoadPanelHistory: (panel: ComicPanelData) => Promise<ImageVersion[]>;
+    onRestorePanelVersion: (panel: ComicPanelData, versionId: number) => Promise<void>;
+    onLoadCoverHistory: () => Promise<ImageVersion[]>;
+    onRestoreCoverVersion: (versionId: number) => Promise<void>;
+  } | null;
 }
 
 export function useStoryPage(): UseStoryPageResult {
   const { t } = useTranslation();
   const { id: rawStoryId, userId: rawOwnerUserId } = useParams<{ id?: string; userId?: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { accessToken } = useAuth();
   const introHoldTimerRef = useRef<number | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const ownerUserId = rawOwnerUserId ? parseStoryId(rawOwnerUserId) : null;
   const isReadOnly = ownerUserId !== null;
 
@@ -67,8 +188,20 @@ export function useStoryPage(): UseStoryPageResult {
   const [profile, setProfile] = useState<KidProfile | null>(null);
   const [savedStoryId, setSavedStoryId] = useState<number | null>(null);
   const [pendingGeneration, setPendingGeneration] = useState<PendingGeneration | null>(null);
+  const [generationJob, setGenerationJob] = useState<StoryGenerationJob | null>(null);
+  const [panelDraft, setPanelDraft] = useState<ComicPanelData[] | null>(null);
+  const [scriptRevision, setScriptRevision] = useState<ScriptRevisionState | null>(null);
+  const [isSavingPanels, setIsSavingPanels] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<StoryExportFormat | null>(null);
   const [wizardStep, setWizardStep] = useState(1);
+  const generationQueue = useSyncExternalStore(subscribeToGenerationQueue, getGenerationQueueState);
   const [draftProfile, setDraftProfile] = useState<KidProfile>(createEmptyKidProfile);
+  const [savedHeroes, setSavedHeroes] = useState<SavedHero[]>([]);
+  const [continuation, setContinuation] = useState<StoryContinuation | null>(null);
+  const [remix, setRemix] = useState<StoryRemix | null>(null);
+  const requestedHeroId = rawStoryId ? null : parseStoryId(searchParams.get('hero') ?? undefined);
+  const requestedContinuationId = rawStoryId ? null : parseStoryId(searchParams.get('continue') ?? undefined);
+  const requestedRemixId = rawStoryId ? null : parseStoryId(searchParams.get('remix') ?? undefined);
 
   const cancelIntroHoldTimer = useCallback(() => {
     if (introHoldTimerRef.current !== null) {
@@ -80,6 +213,8 @@ export function useStoryPage(): UseStoryPageResult {
   const resetWizard = useCallback(() => {
     setWizardStep(1);
     setDraftProfile(createEmptyKidProfile());
+    setContinuation(null);
+    setRemix(null);
   }, []);
 
   const resetToOnboarding = useCallback(() => {
@@ -90,6 +225,9 @@ export function useStoryPage(): UseStoryPageResult {
     setProfile(null);
     setSavedStoryId(null);
     setPendingGeneration(null);
+    setGenerationJob(null);
+    setPanelDraft(null);
+    setScriptRevision(null);
     resetWizard();
   }, [cancelIntroHoldTimer, resetWizard]);
 
@@ -139,8 +277,133 @@ export function useStoryPage(): UseStoryPageResult {
     });
   }, [isReadOnly, loadSavedStory, navigate, ownerUserId, rawStoryId, t]);
 
+  useEffect(() => {
+    if (!accessToken || rawStoryId) return;
+    const token = accessToken;
+    let isMounted = true;
+
+    // The picker is a shortcut; the wizard works the same without it.
+    listHeroes(token)
+      .then((heroes) => {
+        if (isMounted) {
+          setSavedHeroes(heroes.map(mapApiHeroToSavedHero));
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load saved heroes:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, rawStoryId]);
+
+  const handlePickHero = useCallback((hero: SavedHero) => {
+    setDraftProfile(createProfileFromSavedHero(hero));
+    // Name and looks are already known, so jump past the first two steps.
+    setWizardStep(3);
+  }, []);
+
+  // "Start a story" on the heroes page links here with ?hero=<id>.
+  useEffect(() => {
+    if (!requestedHeroId || !savedHeroes.length) return;
+
+    const requestedHero = savedHeroes.find((hero) => hero.id === requestedHeroId);
+    if (requestedHero) {
+      handlePickHero(requestedHero);
+    }
+    setSearchParams((previousParams) => {
+      const nextParams = new URLSearchParams(previousParams);
+      nextParams.delete('hero');
+      return nextParams;
+    }, { replace: true });
+  }, [handlePickHero, requestedHeroId, savedHeroes, setSearchParams]);
+
+  // "Continue this story" on a finished storyboard links here with ?continue=<id>.
+  useEffect(() => {
+    if (!accessToken || !requestedContinuationId) return;
+    let isMounted = true;
+
+    loadStoryContinuationState(accessToken, requestedContinuationId)
+      .then((state) => {
+        if (!isMounted) return;
+        setDraftProfile(state.nextProfile);
+        setContinuation(state.continuation);
+        // The hero and their look carry over, so start at the cast step.
+        setWizardStep(3);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load story to continue:', error);
+        if (isMounted) {
+          toast.error(t('story.errors.continueFailed'));
+        }
+      })
+      .finally(() => {
+        if (!isMounted) return;
+        setSearchParams((previousParams) => {
+          const nextParams = new URLSearchParams(previousParams);
+          nextParams.delete('continue');
+          return nextParams;
+        }, { replace: true });
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, requestedContinuationId, setSearchParams, t]);
+
+  // "Remix" on a gallery card or a storyboard links here with ?remix=<id>.
+  useEffect(() => {
+    if (!accessToken || !requestedRemixId) return;
+    let isMounted = true;
+
+    loadStoryRemixState(accessToken, requestedRemixId)
+      .then((state) => {
+        if (!isMounted) return;
+        setDraftProfile(state.nextProfile);
+        setContinuation(null);
+        setRemix(state.remix);
+        // The script is already written, so start at the art style step.
+        setWizardStep(STEP_LABELS.length);
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load story to remix:', error);
+        if (isMounted) {
+          toast.error(t('story.remix.loadFailed'));
+        }
+      })
+      .finally(() => {
+        if (!isMounted) return;
+        setSearchParams((previousParams) => {
+          const nextParams = new URLSearchParams(previousParams);
+          nextParams.delete('remix');
+          return nextParams;
+        }, { replace: true });
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, requestedRemixId, setSearchParams, t]);
+
   useEffect(() => cancelIntroHoldTimer, [cancelIntroHoldTimer]);
 
+  // Leaving the page must not keep Gemini calls running in the background.
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const beginGeneration = useCallback((): AbortController => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    return controller;
+  }, []);
+
+  const finishGeneration = useCallback((controller: AbortController) => {
+    if (generationAbortRef.current === controller) {
+      generationAbortRef.current = null;
+    }
+  }, []);
+
   const updateDraftProfile = useCallback((nextProfile: KidProfile) => {
     setDraftProfile(nextProfile);
   }, []);
@@ -160,6 +423,23 @@ export function useStoryPage(): UseStoryPageResult {
     }));
   }, []);
 
+  const handleAddCastMember = useCallback((role: CastRole) => {
+    setDraftProfile((previousProfile) => addCastMember(previousProfile, role));
+  }, []);
+
+  const handleRemoveCastMember = useCallback((memberId: string) => {
+    setDraftProfile((previousProfile) => removeCastMember(previousProfile, memberId));
+  }, []);
+
+  const handleCastPhotoSelect = useCallback(async (memberId: string, file: File) => {
+    const photoUrl = await readFileAsDataUrl(file);
+    setDraftProfile((previousProfile) => updateCastMember(previousProfile, memberId, { photoUrl }));
+  }, []);
+
+  const handleCastPhotoRemove = useCallback((memberId: string) => {
+    setDraftProfile((previousProfile) => updateCastMember(previousProfile, memberId, { photoUrl: '' }));
+  }, []);
+
   const handleIntroDelta = useCallback((field: 'title' | 'foreword', delta: string) => {
     setIntroStream((previousState) => appendIntroDelta(previousState, field, delta));
   }, []);
@@ -177,16 +457,22 @@ export function useStoryPage(): UseStoryPageResult {
     setView(StoryPageView.StreamingIntro);
 
     let lastDeltaAt = Date.now();
+    const controller = beginGeneration();
+
+    const onIntroDelta = (field: 'title' | 'foreword', delta: string) => {
+      lastDeltaAt = Date.now();
+      handleIntroDelta(field, delta);
+    };
 
     try {
-      const { nextPendingGeneration } = await generatePreviewState(
-        accessToken,
-        nextProfile,
-        (field, delta) => {
-          lastDeltaAt = Date.now();
-          handleIntroDelta(field, delta);
-        },
-      );
+      const { nextPendingGeneration } = remix
+        ? await generateRemixState(accessToken, remix, nextProfile, { onIntroDelta, signal: controller.signal })
+        : await generatePreviewState(accessToken, nextProfile, {
+          onIntroDelta,
+          signal: controller.signal,
+          continuesStoryId: continuation?.storyId,
+        });
+      finishGeneration(controller);
 
       setIntroStream((previousState) => ({
         ...previousState,
@@ -207,16 +493,101 @@ export function useStoryPage(): UseStoryPageResult {
       setPendingGeneration(nextPendingGeneration);
       setStory(nextPendingGeneration.previewStory);
       setView(StoryPageView.Preview);
-      toast.success(t('story.notifications.previewCreated'));
+      toast.success(t(remix ? 'story.remix.created' : 'story.notifications.previewCreated'));
     } catch (error) {
+      finishGeneration(controller);
       cancelIntroHoldTimer();
       setIntroStream(INITIAL_INTRO_STREAM_STATE);
+      // The wizard draft is left untouched so the user can tweak it and resubmit.
+      setView(StoryPageView.Onboarding);
+
+      if (isAbortError(error)) {
+        toast.info(t('story.notifications.generationCancelled'));
+        return;
+      }
 
       const message = error instanceof Error ? error.message : t('story.errors.generationFailed');
       toast.error(message);
-      setView(StoryPageView.Onboarding);
     }
-  }, [accessToken, cancelIntroHoldTimer, draftProfile, handleIntroDelta, t]);
+  }, [
+    accessToken,
+    beginGeneration,
+    cancelIntroHoldTimer,
+    continuation,
+    draftProfile,
+    finishGeneration,
+    handleIntroDelta,
+    remix,
+    t,
+  ]);
+
+  const runFullStoryGeneration = useCallback(async (
+    nextPendingGeneration: PendingGeneration,
+    job: StoryGenerationJob,
+  ) => {
+    if (!accessToken) return;
+
+    setGenerationJob(job);
+    setStory(applyGenerationJob(nextPendingGeneration.previewStory, job));
+    setSavedStoryId(nextPendingGeneration.previewStoryId);
+    setView(StoryPageView.Storyboard);
+    const controller = beginGeneration();
+    // Images are saved as they land, so a failure after some of them still keeps them.
+    let progressedStory = nextPendingGeneration.previewStory;
+
+    try {
+      const result = await generateFullStoryState(accessToken, nextPendingGeneration, {
+        job,
+        onProgress: (progress) => {
+          progressedStory = progress.story;
+          setGenerationJob(progress.job);
+          setStory(progress.story);
+        },
+        signal: controller.signal,
+      });
+
+      setStory(result.story);
+
+      if (controller.signal.aborted) {
+        setGenerationJob(null);
+        setPendingGeneration({
+          ...nextPendingGeneration,
+          previewStory: result.story,
+        });
+        setView(StoryPageView.Preview);
+        toast.info(t('story.notifications.generationCancelled'));
+        return;
+      }
+
+      if (!result.isComplete) {
+        setGenerationJob(result.job);
+        setPendingGeneration({
+          ...nextPendingGeneration,
+          previewStory: result.story,
+        });
+        toast.error(t('story.generation.failedToast', {
+          count: summarizeGenerationJob(result.job).failed,
+        }));
+        return;
+      }
+
+      setGenerationJob(null);
+      setPendingGeneration(null);
+      toast.success(t('story.notifications.storyUpdated'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : t('story.errors.generationFailed');
+      toast.error(message);
+      setGenerationJob(null);
+      setPendingGeneration({
+        ...nextPendingGeneration,
+        previewStory: progressedStory,
+      });
+      setStory(progressedStory);
+      setView(StoryPageView.Preview);
+    } finally {
+      finishGeneration(controller);
+    }
+  }, [accessToken, beginGeneration, finishGeneration, t]);
 
   const handleGenerateFullStory = useCallback(async () => {
     if (!accessToken) return;
@@ -226,26 +597,229 @@ export function useStoryPage(): UseStoryPageResult {
       return;
     }
 
-    setView(StoryPageView.GeneratingStory);
+    await runFullStoryGeneration(pendingGeneration, createGenerationJob(pendingGeneration.previewStory));
+  }, [accessToken, pendingGeneration, resetToOnboarding, runFullStoryGeneration, t]);
+
+  const handleRetryFailedPanels = useCallback(async () => {
+    if (!pendingGeneration || !generationJob) {
+      return;
+    }
+
+    await runFullStoryGeneration(pendingGeneration, requeueFailedTasks(generationJob));
+  }, [generationJob, pendingGeneration, runFullStoryGeneration]);
+
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
+  const handleOpenScriptRevision = useCallback(() => {
+    setScriptRevision({ status: 'editing', instruction: '', title: '', foreword: '', script: null });
+  }, []);
+
+  const handleCloseScriptRevision = useCallback(() => {
+    generationAbortRef.current?.abort();
+    setScriptRevision(null);
+  }, []);
+
+  const handleSubmitScriptRevision = useCallback(async (instruction: string) => {
+    if (!accessToken || !pendingGeneration) {
+      return;
+    }
+
+    const controller = beginGeneration();
+    setScriptRevision({ status: 'streaming', instruction, title: '', foreword: '', script: null });
 
     try {
-      const updatedStory = await generateFullStoryState(accessToken, pendingGeneration);
-      setStory(updatedStory);
-      setPendingGeneration(null);
-      setSavedStoryId(pendingGeneration.previewStoryId);
-      setView(StoryPageView.Storyboard);
-      toast.success(t('story.notifications.storyUpdated'));
+      const script = await streamScriptRevision(accessToken, pendingGeneration, instruction, {
+        onIntroDelta: (field, delta) => {
+          setScriptRevision((previousState) => (
+            previousState ? { ...previousState, [field]: previousState[field] + delta } : previousState
+          ));
+        },
+        signal: controller.signal,
+      });
+
+      setScriptRevision((previousState) => (
+        previousState ? { ...previousState, status: 'review', script } : previousState
+      ));
     } catch (error) {
-      const message = error instanceof Error ? error.message : t('story.errors.generationFailed');
-      toast.error(message);
-      setView(StoryPageView.Preview);
+      if (isAbortError(error)) {
+        return;
+      }
+
+      console.error('Failed to revise story script:', error);
+      toast.error(t('story.revision.failed'));
+      setScriptRevision((previousState) => (
+        previousState ? { ...previousState, status: 'editing' } : previousState
+      ));
+    } finally {
+      finishGeneration(controller);
+    }
+  }, [accessToken, beginGeneration, finishGeneration, pendingGeneration, t]);
+
+  const handleAcceptScriptRevision = useCallback(async () => {
+    if (!accessToken || !pendingGeneration || !scriptRevision?.script) {
+      return;
     }
-  }, [accessToken, pendingGeneration, resetToOnboarding, t]);
+
+    const controller = beginGeneration();
+    setScriptRevision({ ...scriptRevision, status: 'applying' });
+
+    try {
+      const nextPendingGeneration = await applyScriptRevision(
+        accessToken,
+        pendingGeneration,
+        scriptRevision.script,
+        controller.signal,
+      );
+
+      setPendingGeneration(nextPendingGeneration);
+      setStory(nextPendingGeneration.previewStory);
+      setGenerationJob(null);
+      setScriptRevision(null);
+      toast.success(t('story.revision.applied'));
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+
+      console.error('Failed to apply story revision:', error);
+      toast.error(t('story.revision.applyFailed'));
+      setScriptRevision((previousState) => (
+        previousState ? { ...previousState, status: 'review' } : previousState
+      ));
+    } finally {
+      finishGeneration(controller);
+    }
+  }, [accessToken, beginGeneration, finishGeneration, pendingGeneration, scriptRevision, t]);
 
   const handleStartOver = useCallback(() => {
     resetToOnboarding();
   }, [resetToOnboarding]);
 
+  const handleContinueStory = useCallback(() => {
+    if (!savedStoryId) return;
+    // /book/:id and /create share this page instance, so clear the finished story first.
+    resetToOnboarding();
+    navigate(`/create?continue=${savedStoryId}`);
+  }, [navigate, resetToOnboarding, savedStoryId]);
+
+  const handleRemixStory = useCallback(() => {
+    if (!savedStoryId) return;
+    resetToOnboarding();
+    navigate(`/create?remix=${savedStoryId}`);
+  }, [navigate, resetToOnboarding, savedStoryId]);
+
+  const handleRemixLanguageChange = useCallback((language: string) => {
+    setDraftProfile((previousProfile) => ({ ...previousProfile, language }));
+  }, []);
+
+  const handleRemixKeepImagesChange = useCallback((keepImages: boolean) => {
+    setRemix((previousRemix) => (previousRemix ? { ...previousRemix, keepImages } : previousRemix));
+  }, []);
+
+  const runStoryExport = useCallback(async (format: StoryExportFormat, render: () => Promise<Blob>) => {
+    if (!story || exportingFormat) {
+      return;
+    }
+
+    setExportingFormat(format);
+    try {
+      downloadBlob(await render(), getStoryExportFileName(story.title, format));
+    } catch (error) {
+      console.error(`Failed to export ${format}:`, error);
+      toast.error(t('story.export.failed'));
+    } finally {
+      setExportingFormat(null);
+    }
+  }, [exportingFormat, story, t]);
+
+  const handleExportPdf = useCallback(async (pageSize: PrintPageSize) => {
+    if (!story) return;
+    await runStoryExport('pdf', () => renderStoryPdf(story, profile, pageSize));
+  }, [profile, runStoryExport, story]);
+
+  const handleExportEpub = useCallback(async () => {
+    if (!accessToken || !savedStoryId) return;
+    await runStoryExport('epub', () => renderStoryEpub(accessToken, { storyId: savedStoryId, ownerUserId }));
+  }, [accessToken, ownerUserId, runStoryExport, savedStoryId]);
+
+  const isPanelDraftDirty = useMemo(() => (
+    Boolean(story && panelDraft && hasPanelLayoutChanges(story.panels, panelDraft))
+  ), [panelDraft, story]);
+
+  useUnsavedChangesGuard(isPanelDraftDirty, t('story.panelEditor.unsavedChanges'));
+
+  const handleStartPanelEditing = useCallback(() => {
+    if (isReadOnly || !story || generationJob) {
+      return;
+    }
+
+    setPanelDraft(story.panels);
+  }, [generationJob, isReadOnly, story]);
+
+  const updatePanelDraft = useCallback((update: (panels: ComicPanelData[]) => ComicPanelData[]) => {
+    setPanelDraft((previousDraft) => (previousDraft ? update(previousDraft) : previousDraft));
+  }, []);
+
+  const handleDiscardPanelEdits = useCallback(() => {
+    if (isPanelDraftDirty && !window.confirm(t('story.panelEditor.confirmDiscard'))) {
+      return;
+    }
+
+    setPanelDraft(null);
+  }, [isPanelDraftDirty, t]);
+
+  const handleSavePanelEdits = useCallback(async () => {
+    if (!accessToken || !story || !panelDraft || !savedStoryId) {
+      return;
+    }
+
+    setIsSavingPanels(true);
+
+    try {
+      await saveStoryPanelLayout({
+        accessToken,
+        panels: panelDraft,
+        savedStory: story,
+        savedStoryId,
+      });
+      // Reload so panels pick up their new ids; a layout with unpainted inserted
+      // pages comes back as a draft and lands on the preview to finish painting.
+      const { nextPendingGeneration, nextProfile, nextStory, nextView } = await loadStoryState(
+        accessToken,
+        savedStoryId,
+      );
+
+      setProfile(nextProfile);
+      setStory(nextStory);
+      setPendingGeneration(nextPendingGeneration);
+      setPanelDraft(null);
+      setView(nextView);
+      toast.success(t('story.panelEditor.saved'));
+    } catch (error) {
+      console.error('Failed to save panel edits:', error);
+      toast.error(t('story.panelEditor.saveFailed'));
+    } finally {
+      setIsSavingPanels(false);
+    }
+  }, [accessToken, panelDraft, savedStoryId, story, t]);
+
+  // The preview snapshot kept for full generation must see image changes too.
+  const applyStoryChange = useCallback((change: (currentStory: Story) => Story) => {
+    setStory((previousStory) => (previousStory ? change(previousStory) : previousStory));
+    setPendingGeneration((previousPendingGeneration) => {
+      if (!previousPendingGeneration) {
+        return previousPendingGeneration;
+      }
+
+      return {
+        ...previousPendingGeneration,
+        previewStory: change(previousPendingGeneration.previewStory),
+      };
+    });
+  }, []);
+
   const handlePanelImageEdit = useCallback(async (panel: ComicPanelData, editPrompt: string) => {
     if (isReadOnly) {
       return;
@@ -266,26 +840,144 @@ export function useStoryPage(): UseStoryPageResult {
         story,
       });
 
-      setStory((previousStory) => (
-        previousStory ? replaceStoryPanel(previousStory, updatedPanel) : previousStory
-      ));
-      setPendingGeneration((previousPendingGeneration) => {
-        if (!previousPendingGeneration) {
-          return previousPendingGeneration;
-        }
+      applyStoryChange((currentStory) => replaceStoryPanel(currentStory, updatedPanel));
+      toast.success(t('story.notifications.panelImageUpdated'));
+    } catch (error) {
+      console.error('Failed to edit panel image:', error);
+      toast.error(t('story.notifications.panelImageUpdateFailed'));
+      throw error;
+    }
+  }, [accessToken, applyStoryChange, isReadOnly, profile, savedStoryId, story, t]);
+
+  const handlePanelRegenerate = useCallback(async (panel: ComicPanelData, imagePrompt: string) => {
+    if (isReadOnly || !accessToken || !story) {
+      throw new Error('Panel regeneration is not available');
+    }
+
+    try {
+      return await regenerateStoryPanelImage({
+        accessToken,
+        artStyle: profile?.artStyle,
+        imagePrompt,
+        story,
+      });
+    } catch (error) {
+      console.error('Failed to regenerate panel image:', error);
+      toast.error(t('story.notifications.panelRegenerateFailed'));
+      throw error;
+    }
+  }, [accessToken, isReadOnly, profile, story, t]);
+
+  const handleAcceptPanelImage = useCallback(async (
+    panel: ComicPanelData,
+    imagePrompt: string,
+    imageUrl: string,
+  ) => {
+    if (isReadOnly || !accessToken || !story) {
+      return;
+    }
 
-        return {
-          ...previousPendingGeneration,
-          previewStory: replaceStoryPanel(previousPendingGeneration.previewStory, updatedPanel),
-        };
+    try {
+      const updatedPanel = await acceptStoryPanelImage({
+        accessToken,
+        imagePrompt,
+        imageUrl,
+        panel,
+        savedStoryId,
+        story,
       });
+
+      applyStoryChange((currentStory) => replaceStoryPanel(currentStory, updatedPanel));
       toast.success(t('story.notifications.panelImageUpdated'));
     } catch (error) {
-      console.error('Failed to edit panel image:', error);
+      console.error('Failed to save regenerated panel image:', error);
       toast.error(t('story.notifications.panelImageUpdateFailed'));
       throw error;
     }
-  }, [accessToken, isReadOnly, profile, savedStoryId, story, t]);
+  }, [accessToken, applyStoryChange, isReadOnly, savedStoryId, story, t]);
+
+  const handleCoverImageEdit = useCallback(async (editPrompt: string) => {
+    if (isReadOnly || !accessToken || !savedStoryId || !story?.coverImageUrl) {
+      return;
+    }
+
+    try {
+      const coverImageUrl = await editStoryCoverImage({
+        accessToken,
+        artStyle: profile?.artStyle,
+        editPrompt,
+        savedStoryId,
+        story,
+      });
+
+      applyStoryChange((currentStory) => ({ ...currentStory, coverImageUrl }));
+      toast.success(t('story.notifications.coverImageUpdated'));
+    } catch (error) {
+      console.error('Failed to edit cover image:', error);
+      toast.error(t('story.notifications.coverImageUpdateFailed'));
+      throw error;
+    }
+  }, [accessToken, applyStoryChange, isReadOnly, profile, savedStoryId, story, t]);
+
+  const handleLoadPanelHistory = useCallback(async (panel: ComicPanelData) => {
+    if (!accessToken || !savedStoryId || !story) {
+      return [];
+    }
+
+    try {
+      return await loadStoryPanelImageHistory(accessToken, savedStoryId, story, panel);
+    } catch (error) {
+      console.error('Failed to load panel image history:', error);
+      toast.error(t('story.notifications.imageHistoryFailed'));
+      return [];
+    }
+  }, [accessToken, savedStoryId, story, t]);
+
+  const handleRestorePanelVersion = useCallback(async (panel: ComicPanelData, versionId: number) => {
+    if (!accessToken || !savedStoryId || !story) {
+      return;
+    }
+
+    try {
+      const restoredPanel = await restoreStoryPanelImage(accessToken, savedStoryId, story, panel, versionId);
+      applyStoryChange((currentStory) => replaceStoryPanel(currentStory, restoredPanel));
+      toast.success(t('story.notifications.imageRestored'));
+    } catch (error) {
+      console.error('Failed to restore panel image:', error);
+      toast.error(t('story.notifications.imageRestoreFailed'));
+      throw error;
+    }
+  }, [accessToken, applyStoryChange, savedStoryId, story, t]);
+
+  const handleLoadCoverHistory = useCallback(async () => {
+    if (!accessToken || !savedStoryId) {
+      return [];
+    }
+
+    try {
+      return await loadStoryCoverImageHistory(accessToken, savedStoryId);
+    } catch (error) {
+      console.error('Failed to load cover image history:', error);
+      toast.error(t('story.notifications.imageHistoryFailed'));
+      return [];
+    }
+  }, [accessToken, savedStoryId, t]);
+
+  const handleRestoreCoverVersion = useCallback(async (versionId: number) => {
+    if (!accessToken || !savedStoryId) {
+      return;
+    }
+
+    try {
+      const coverImageUrl = await restoreStoryCoverImage(accessToken, savedStoryId, versionId);
+      applyStoryChange((currentStory) => ({ ...currentStory, coverImageUrl }));
+      toast.success(t('story.notifications.imageRestored'));
+    } catch (error) {
+      console.error('Failed to restore cover image:', error);
+      toast.error(t('story.notifications.imageRestoreFailed'));
+      throw error;
+    }
+  }, [accessToken, applyStoryChange, savedStoryId, t]);
 
   return {
     view,
@@ -296,20 +988,73 @@ export function useStoryPage(): UseStoryPageResult {
       ownerUserId,
       isReadOnly,
     },
+    generation: generationJob ? summarizeGenerationJob(generationJob) : null,
+    generationQueue,
     wizard: {
       step: wizardStep,
       profile: draftProfile,
       onProfileChange: updateDraftProfile,
-      onNextStep: () => setWizardStep((previousStep) => Math.min(5, previousStep + 1)),
+      onNextStep: () => setWizardStep((previousStep) => Math.min(STEP_LABELS.length, previousStep + 1)),
       onPreviousStep: () => setWizardStep((previousStep) => Math.max(1, previousStep - 1)),
       onPhotoSelect: handlePhotoSelect,
       onPhotoRemove: handlePhotoRemove,
+      onAddCastMember: handleAddCastMember,
+      onRemoveCastMember: handleRemoveCastMember,
+      onCastPhotoSelect: handleCastPhotoSelect,
+      onCastPhotoRemove: handleCastPhotoRemove,
       onSubmit: handleWizardSubmit,
+      savedHeroes,
+      onPickHero: handlePickHero,
+      continuation,
+      onCancelContinuation: () => setContinuation(null),
+      remix,
+      onRemixLanguageChange: handleRemixLanguageChange,
+      onRemixKeepImagesChange: handleRemixKeepImagesChange,
+      onCancelRemix: () => setRemix(null),
+    },
+    scriptRevision: {
+      state: scriptRevision,
+      onOpen: handleOpenScriptRevision,
+      onSubmit: handleSubmitScriptRevision,
+      onAccept: handleAcceptScriptRevision,
+      onClose: handleCloseScriptRevision,
+    },
+    panelEditor: {
+      panels: panelDraft,
+      isDirty: isPanelDraftDirty,
+      isSaving: isSavingPanels,
+      onStart: handleStartPanelEditing,
+      onCaptionChange: (index, text) => updatePanelDraft((panels) => updatePanelText(panels, index, text)),
+      onMovePanel: (fromIndex, toIndex) => updatePanelDraft((panels) => movePanel(panels, fromIndex, toIndex)),
+      onInsertPanelAfter: (index) => updatePanelDraft((panels) => insertPanelAfter(panels, index)),
+      onRemovePanel: (index) => updatePanelDraft((panels) => removePanelAt(panels, index)),
+      onSave: handleSavePanelEdits,
+      onDiscard: handleDiscardPanelEdits,
     },
     actions: {
       onGenerateFullStory: handleGenerateFullStory,
+      onRetryFailedPanels: handleRetryFailedPanels,
+      onCancelGeneration: handleCancelGeneration,
       onStartOver: handleStartOver,
       onEditPanelImage: handlePanelImageEdit,
+      onEditCoverImage: handleCoverImageEdit,
+      onRegeneratePanelImage: handlePanelRegenerate,
+      onAcceptPanelImage: handleAcceptPanelImage,
+      onContinueStory: savedStoryId && !isReadOnly && !story?.series?.nextStoryId ? handleContinueStory : null,
+      onRemixStory: savedStoryId && !isReadOnly ? handleRemixStory : null,
+    },
+    storyExport: {
+      exportingFormat,
+      onExportPdf: handleExportPdf,
+      onExportEpub: savedStoryId ? handleExportEpub : null,
     },
+    imageHistory: savedStoryId && !isReadOnly
+      ? {
+        onLoadPanelHistory: handleLoadPanelHistory,
+        onRestorePanelVersion: handleRestorePanelVersion,
+        onLoadCoverHistory: handleLoadCoverHistory,
+        onRestoreCoverVersion: handleRestoreCoverVersion,
+      }
+      : null,
   };
 }
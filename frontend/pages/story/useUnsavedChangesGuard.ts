@@ -0,0 +1,43 @@
+/**
+ * Warns before leaving the page while edits are unsaved.
+ *
+ * Closing or reloading the tab is caught by `beforeunload`. Every navigation
+ * inside the app — links, `navigate()` calls and the browser's Back and Forward
+ * buttons — goes through React Router's blocker and waits for the reader to
+ * confirm.
+ */
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+export function useUnsavedChangesGuard(isDirty: boolean, message: string): void {
+  const blocker = useBlocker(isDirty);
+
+  useEffect(() => {
+    if (blocker.state !== 'blocked') {
+      return;
+    }
+
+    if (window.confirm(message)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, message]);
+
+  useEffect(() => {
+    if (!isDirty) {
+      return undefined;
+    }
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, [isDirty]);
+}
@@ -0,0 +1,110 @@
+/**
+ * Trash page.
+ * Shows stories deleted from the gallery with the days left before they are gone for good,
+ * and lets the owner restore them or delete them right away.
+ */
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import type { TrashedStoryItem } from '@api';
+import StorageImage from '@/components/StorageImage';
+import { formatStoryDate, getStoryDisplayTitle } from '@/pages/gallery/gallery.helpers';
+import { getDaysUntilPurge } from './trash.helpers';
+import { useTrashPage } from './useTrashPage';
+
+interface TrashStoryCardProps {
+  story: TrashedStoryItem;
+  isPending: boolean;
+  onRestore: () => Promise<void>;
+  onDeleteForever: () => Promise<void>;
+}
+
+function TrashStoryCard({ story, isPending, onRestore, onDeleteForever }: TrashStoryCardProps): JSX.Element {
+  const { t } = useTranslation();
+  const displayTitle = getStoryDisplayTitle(story.title, t('galleryPage.untitledMasterpiece'));
+  const daysLeft = getDaysUntilPurge(story.purge_at);
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-xl overflow-hidden border-2 border-gray-100">
+      <div className="relative aspect-[3/4] overflow-hidden bg-gray-100">
+        {story.cover_image_url ? (
+          <StorageImage src={story.cover_image_url} alt={displayTitle} className="w-full h-full object-cover grayscale" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-gray-300 font-black text-4xl">?</div>
+        )}
+        <span className="absolute top-4 start-4 rounded-full bg-white/90 px-3 py-1 text-xs font-bold text-red-600 shadow-md">
+          {daysLeft > 0 ? t('trashPage.daysLeft', { count: daysLeft }) : t('trashPage.purgingSoon')}
+        </span>
+      </div>
+
+      <div className="p-5">
+        <h2 className="text-xl font-black text-gray-800 leading-tight mb-2 line-clamp-2">{displayTitle}</h2>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <span className="px-3 py-1 bg-purple-100 text-purple-700 text-xs font-bold rounded-full uppercase tracking-wide">
+            {story.profile.name}
+          </span>
+        </div>
+        <div className="text-xs text-gray-400 font-medium mb-4">
+          {t('trashPage.deletedOn', { date: formatStoryDate(story.deleted_at) })}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => void onRestore()}
+            disabled={isPending}
+            className="inline-flex flex-1 items-center justify-center rounded-full bg-brand-primary px-5 py-3 text-sm font-bold text-white transition-colors hover:bg-brand-dark disabled:opacity-60"
+          >
+            {t('trashPage.restore')}
+          </button>
+          <button
+            type="button"
+            onClick={() => void onDeleteForever()}
+            disabled={isPending}
+            aria-label={t('trashPage.deleteForeverLabel', { title: displayTitle })}
+            className="rounded-full border border-red-200 px-4 py-3 text-sm font-bold text-red-600 transition-colors hover:bg-red-50 disabled:opacity-60"
+          >
+            {t('trashPage.deleteForever')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function TrashPage(): JSX.Element {
+  const { t } = useTranslation();
+  const { isLoading, stories, pendingStoryId, onRestore, onDeleteForever } = useTrashPage();
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 animate-in fade-in duration-700">
+      <div className="mb-8">
+        <Link to="/gallery" className="text-sm font-bold text-brand-muted hover:text-brand-primary transition-colors">
+          {t('trashPage.backToGallery')}
+        </Link>
+        <h1 className="mt-3 text-4xl font-black text-gray-800">{t('trashPage.title')}</h1>
+        <p className="mt-2 text-sm font-medium text-gray-500">{t('trashPage.description')}</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-20">
+          <div className="w-12 h-12 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+        </div>
+      ) : stories.length === 0 ? (
+        <div className="text-center py-20 text-gray-400">
+          <p className="text-xl font-medium italic">{t('trashPage.empty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+          {stories.map((story) => (
+            <TrashStoryCard
+              key={story.id}
+              story={story}
+              isPending={pendingStoryId === story.id}
+              onRestore={() => onRestore(story.id)}
+              onDeleteForever={() => onDeleteForever(story.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
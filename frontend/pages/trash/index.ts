@@ -0,0 +1,4 @@
+/**
+ * Public exports for the trash page.
+ */
+export { TrashPage } from './TrashPage';
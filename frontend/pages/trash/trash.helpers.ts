@@ -0,0 +1,14 @@
+/**
+ * Small pure helpers for the trash page.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The server sends UTC timestamps without a zone; read them as UTC, not local time. */
+function parseServerTimestamp(timestamp: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(timestamp) ? timestamp : `${timestamp}Z`);
+}
+
+/** Whole days a trashed story has left, rounded up so a story due later today still shows one day. */
+export function getDaysUntilPurge(purgeAt: string, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((parseServerTimestamp(purgeAt).getTime() - now.getTime()) / DAY_MS));
+}
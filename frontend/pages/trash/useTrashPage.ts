@@ -0,0 +1,100 @@
+/**
+ * Trash page controller.
+ * Lists stories moved to the trash and restores them or deletes them for good.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { deleteStory, listTrashedStories, restoreStory, type TrashedStoryItem } from '@api';
+import { useAuth } from '@/app/auth';
+
+interface UseTrashPageResult {
+  isLoading: boolean;
+  stories: TrashedStoryItem[];
+  /** The story a restore or delete is running for. */
+  pendingStoryId: number | null;
+  onRestore: (storyId: number) => Promise<void>;
+  onDeleteForever: (storyId: number) => Promise<void>;
+}
+
+export function useTrashPage(): UseTrashPageResult {
+  const { t } = useTranslation();
+  const { accessToken } = useAuth();
+  const [stories, setStories] = useState<TrashedStoryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingStoryId, setPendingStoryId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    let isMounted = true;
+
+    listTrashedStories(accessToken)
+      .then((trashedStories) => {
+        if (isMounted) {
+          setStories(trashedStories);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load trash:', error);
+        if (isMounted) {
+          toast.error(t('trashPage.notifications.loadFailed'));
+        }
+      })
+      .finally(() => {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accessToken, t]);
+
+  const removeFromList = (storyId: number): void => {
+    setStories((currentStories) => currentStories.filter((story) => story.id !== storyId));
+  };
+
+  const handleRestore = useCallback(async (storyId: number) => {
+    if (!accessToken) return;
+
+    setPendingStoryId(storyId);
+    try {
+      await restoreStory(accessToken, storyId);
+      removeFromList(storyId);
+      toast.success(t('trashPage.notifications.restored'));
+    } catch (error) {
+      console.error('Failed to restore story:', error);
+      toast.error(t('trashPage.notifications.restoreFailed'));
+    } finally {
+      setPendingStoryId(null);
+    }
+  }, [accessToken, t]);
+
+  const handleDeleteForever = useCallback(async (storyId: number) => {
+    if (!accessToken) return;
+    if (!window.confirm(t('trashPage.confirmDeleteForever'))) {
+      return;
+    }
+
+    setPendingStoryId(storyId);
+    try {
+      await deleteStory(accessToken, storyId);
+      removeFromList(storyId);
+      toast.success(t('trashPage.notifications.deleted'));
+    } catch (error) {
+      console.error('Failed to delete story:', error);
+      toast.error(t('trashPage.notifications.deleteFailed'));
+    } finally {
+      setPendingStoryId(null);
+    }
+  }, [accessToken, t]);
+
+  return {
+    isLoading,
+    stories,
+    pendingStoryId,
+    onRestore: handleRestore,
+    onDeleteForever: handleDeleteForever,
+  };
+}
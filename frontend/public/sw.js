@@ -0,0 +1,129 @@
+/**
+ * Offline service worker.
+ *
+ * - The app shell (index.html and the built assets) is cached as it loads, so
+ *   `/book/:id` still boots without a network.
+ * - Stories saved for offline live in OFFLINE_STORIES_CACHE, written by the page
+ *   (client-api/offlineApi.ts). Their JSON is served network-first and their
+ *   images cache-first.
+ * - The signed-in user, the story list and the gallery's first unfiltered page
+ *   are remembered network-first, so the session and gallery survive a flight.
+ *   Filtered searches and later pages are never stored: one entry per query
+ *   string would grow the cache without bound.
+ *
+ * Cache names must match client-api/offlineApi.ts.
+ */
+const SHELL_CACHE = 'app-shell-v1';
+const OFFLINE_STORIES_CACHE = 'offline-stories-v1';
+// v2 drops the search pages that v1 stored for every query string.
+const SESSION_CACHE = 'offline-session-v2';
+const KNOWN_CACHES = [SHELL_CACHE, OFFLINE_STORIES_CACHE, SESSION_CACHE];
+
+const STORY_DETAIL_PATH = /\/api\/stories\/\d+$/;
+const SESSION_PATHS = [/\/api\/users\/me$/, /\/api\/stories$/];
+const STORY_SEARCH_PATH = /\/api\/stories\/search$/;
+// Only the order and page size may vary on a search page that is remembered.
+const REMEMBERED_SEARCH_PARAMS = ['sort', 'limit'];
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => !KNOWN_CACHES.includes(name)).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function networkFirst(request, cacheName, { cacheKey = request, alwaysStore = true } = {}) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok && (alwaysStore || await cache.match(cacheKey, { ignoreVary: true }))) {
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey, { ignoreVary: true });
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+/** The cache key of a remembered search page, or null when the page is not remembered. */
+function getSearchCacheKey(url) {
+  const isFirstPage = (url.searchParams.get('offset') ?? '0') === '0';
+  const isUnfiltered = [...url.searchParams.keys()].every(
+    (name) => name === 'offset' || REMEMBERED_SEARCH_PARAMS.includes(name),
+  );
+  if (!isFirstPage || !isUnfiltered) {
+    return null;
+  }
+
+  const key = new URL(url.pathname, url.origin);
+  REMEMBERED_SEARCH_PARAMS.forEach((name) => {
+    if (url.searchParams.has(name)) key.searchParams.set(name, url.searchParams.get(name));
+  });
+  return key.href;
+}
+
+async function cacheFirst(request, cacheName, { store = false } = {}) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request, { ignoreVary: true });
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (store && response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    // Every route is the same single-page shell.
+    event.respondWith(networkFirst(request, SHELL_CACHE, { cacheKey: '/index.html' }));
+    return;
+  }
+
+  if (STORY_DETAIL_PATH.test(url.pathname)) {
+    // Only stories the reader saved are kept; refresh them whenever we are online.
+    event.respondWith(networkFirst(request, OFFLINE_STORIES_CACHE, { alwaysStore: false }));
+    return;
+  }
+
+  if (url.pathname.includes('/images/')) {
+    event.respondWith(cacheFirst(request, OFFLINE_STORIES_CACHE));
+    return;
+  }
+
+  if (STORY_SEARCH_PATH.test(url.pathname)) {
+    const cacheKey = getSearchCacheKey(url);
+    if (cacheKey) {
+      event.respondWith(networkFirst(request, SESSION_CACHE, { cacheKey }));
+    }
+    return;
+  }
+
+  if (SESSION_PATHS.some((pattern) => pattern.test(url.pathname))) {
+    event.respondWith(networkFirst(request, SESSION_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE, { store: true }));
+  }
+});
@@ -0,0 +1,98 @@
+import '@testing-library/jest-dom/vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import EmailVerificationBanner from '@/app/EmailVerificationBanner';
+
+const { mockUseAuth, mockResendVerificationEmail, mockToastError, mockToastSuccess } = vi.hoisted(() => ({
+  mockUseAuth: vi.fn(),
+  mockResendVerificationEmail: vi.fn(),
+  mockToastError: vi.fn(),
+  mockToastSuccess: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  resendVerificationEmail: mockResendVerificationEmail,
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: mockToastError,
+    success: mockToastSuccess,
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string, options?: { email?: string }) => {
+      const translations: Record<string, string> = {
+        'app.emailVerification.message': `Please confirm your email address. We sent a link to ${options?.email}.`,
+        'app.emailVerification.resend': 'Resend email',
+        'app.emailVerification.resent': 'Email sent',
+        'app.emailVerification.sending': 'Sending…',
+        'app.emailVerification.sent': `Verification email sent to ${options?.email}.`,
+      };
+      return translations[key] ?? key;
+    },
+  }),
+}));
+
+vi.mock('@/app/auth', () => ({
+  useAuth: mockUseAuth,
+}));
+
+function signInAs(emailVerified: boolean): void {
+  mockUseAuth.mockReturnValue({
+    accessToken: 'access-token',
+    currentUser: { id: 1, email: 'alice@example.com', username: 'alice', email_verified: emailVerified },
+  });
+}
+
+describe('EmailVerificationBanner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stays hidden for verified accounts and signed-out readers', () => {
+    signInAs(true);
+    const { container, rerender } = render(<EmailVerificationBanner />);
+    expect(container).toBeEmptyDOMElement();
+
+    mockUseAuth.mockReturnValue({ accessToken: null, currentUser: null });
+    rerender(<EmailVerificationBanner />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('asks unverified accounts to confirm and resends the link once', async () => {
+    signInAs(false);
+    mockResendVerificationEmail.mockResolvedValue(undefined);
+
+    render(<EmailVerificationBanner />);
+
+    expect(
+      screen.getByText('Please confirm your email address. We sent a link to alice@example.com.'),
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Resend email' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Email sent' })).toBeDisabled();
+    });
+    expect(mockResendVerificationEmail).toHaveBeenCalledWith('access-token');
+    expect(mockToastSuccess).toHaveBeenCalledWith('Verification email sent to alice@example.com.');
+  });
+
+  it('shows the backend message when resending fails', async () => {
+    signInAs(false);
+    mockResendVerificationEmail.mockRejectedValue(
+      new Error('Verification email rate limit exceeded. Please try again later.'),
+    );
+
+    render(<EmailVerificationBanner />);
+    fireEvent.click(screen.getByRole('button', { name: 'Resend email' }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith('Verification email rate limit exceeded. Please try again later.');
+    });
+    expect(screen.getByRole('button', { name: 'Resend email' })).toBeEnabled();
+  });
+});
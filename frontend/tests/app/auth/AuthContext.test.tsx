@@ -1,27 +1,79 @@
 import '@testing-library/jest-dom/vitest';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import type { AuthSessionHandler } from '@api';
 import { AuthProvider, useAuth } from '@/app/auth';
 
-const { mockGetMe, mockLogin, mockLogout, mockSignup, mockExchangeOAuthCode } = vi.hoisted(() => ({
+const {
+  mockGetMe,
+  mockLogin,
+  mockLogout,
+  mockSignup,
+  mockExchangeOAuthCode,
+  mockClearOfflineSession,
+  mockClearOfflineStories,
+  mockRefreshSession,
+  mockSetAuthSessionHandler,
+  mockVerifyMfaChallenge,
+} = vi.hoisted(() => ({
+  mockClearOfflineSession: vi.fn(),
+  mockClearOfflineStories: vi.fn(),
   mockGetMe: vi.fn(),
   mockLogin: vi.fn(),
   mockLogout: vi.fn(),
   mockSignup: vi.fn(),
   mockExchangeOAuthCode: vi.fn(),
+  mockRefreshSession: vi.fn(),
+  mockSetAuthSessionHandler: vi.fn(),
+  mockVerifyMfaChallenge: vi.fn(),
 }));
 
 vi.mock('@api', () => ({
+  clearOfflineSession: mockClearOfflineSession,
+  clearOfflineStories: mockClearOfflineStories,
   getMe: mockGetMe,
+  isMfaChallenge: (response: { mfa_required?: boolean }) => response.mfa_required === true,
   login: mockLogin,
   logout: mockLogout,
+  refreshSession: mockRefreshSession,
+  setAuthSessionHandler: mockSetAuthSessionHandler,
+  setCsrfToken: vi.fn(),
   signup: mockSignup,
   exchangeOAuthCode: mockExchangeOAuthCode,
+  verifyMfaChallenge: mockVerifyMfaChallenge,
 }));
 
+const ALICE = {
+  id: 1,
+  email: 'alice@example.com',
+  username: 'alice',
+  avatar_url: null,
+  is_online: true,
+  created_at: '2026-04-17T10:00:00Z',
+};
+
+/** The handler AuthProvider registered with apiFetch. */
+function getSessionHandler(): AuthSessionHandler {
+  const handler = mockSetAuthSessionHandler.mock.calls.map(([registered]) => registered).filter(Boolean).at(-1);
+  if (!handler) throw new Error('AuthProvider did not register a session handler');
+  return handler as AuthSessionHandler;
+}
+
 function TestConsumer(): JSX.Element {
-  const { currentUser, isLoadingSession, accessToken, login, logout, signup, completeGoogleOAuth } = useAuth();
+  const {
+    currentUser,
+    isLoadingSession,
+    isSessionExpired,
+    isMfaChallengePending,
+    accessToken,
+    login,
+    verifyMfa,
+    cancelMfaChallenge,
+    logout,
+    signup,
+    completeGoogleOAuth,
+  } = useAuth();
 
   const statusText = isLoadingSession
     ? 'loading'
@@ -33,6 +85,8 @@ function TestConsumer(): JSX.Element {
     <div>
       <div data-testid="status">{statusText}</div>
       <div data-testid="token">{accessToken ?? 'no-token'}</div>
+      <div data-testid="expired">{isSessionExpired ? 'expired' : 'active'}</div>
+      <div data-testid="mfa">{isMfaChallengePending ? 'mfa-pending' : 'no-mfa'}</div>
 
       <button onClick={() => void login('alice@example.com', 'Password123!')}>
         Login
@@ -49,6 +103,14 @@ function TestConsumer(): JSX.Element {
       <button onClick={() => void completeGoogleOAuth('oauth-code').catch(() => {})}>
         CompleteOAuth
       </button>
+
+      <button onClick={() => void verifyMfa('123456').catch(() => {})}>
+        VerifyMfa
+      </button>
+
+      <button onClick={cancelMfaChallenge}>
+        CancelMfa
+      </button>
     </div>
   );
 }
@@ -65,6 +127,8 @@ describe('AuthProvider', () => {
   beforeEach(() => {
     localStorage.clear();
     vi.clearAllMocks();
+    mockClearOfflineSession.mockResolvedValue(undefined);
+    mockClearOfflineStories.mockResolvedValue(undefined);
   });
 
   afterEach(() => {
@@ -396,6 +460,7 @@ describe('AuthProvider', () => {
 
   it('logout clears auth state even if the API call succeeds', async () => {
     localStorage.setItem('auth.accessToken', 'saved-token');
+    localStorage.setItem('auth.refreshToken', 'saved-refresh-token');
     mockGetMe.mockResolvedValue({
       id: 1,
       email: 'alice@example.com',
@@ -415,7 +480,7 @@ describe('AuthProvider', () => {
     fireEvent.click(screen.getByRole('button', { name: 'Logout' }));
 
     await waitFor(() => {
-      expect(mockLogout).toHaveBeenCalledWith('saved-token');
+      expect(mockLogout).toHaveBeenCalledWith('saved-token', 'saved-refresh-token');
     });
 
     await waitFor(() => {
@@ -423,6 +488,270 @@ describe('AuthProvider', () => {
     });
 
     expect(localStorage.getItem('auth.accessToken')).toBeNull();
+    expect(localStorage.getItem('auth.refreshToken')).toBeNull();
     expect(screen.getByTestId('token')).toHaveTextContent('no-token');
+    expect(mockClearOfflineStories).toHaveBeenCalled();
+  });
+
+  it('login stores the refresh token and when the access token expires', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    mockLogin.mockResolvedValue({
+      access_token: 'fresh-token',
+      refresh_token: 'fresh-refresh-token',
+      token_type: 'bearer',
+      expires_in: 900,
+    });
+    mockGetMe.mockResolvedValue(ALICE);
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Login' }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+    expect(localStorage.getItem('auth.refreshToken')).toBe('fresh-refresh-token');
+    expect(localStorage.getItem('auth.accessTokenExpiresAt')).toBe(String(1_000_000 + 900_000));
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('renews the access token through one shared refresh call', async () => {
+    localStorage.setItem('auth.accessToken', 'saved-token');
+    localStorage.setItem('auth.refreshToken', 'saved-refresh-token');
+    mockGetMe.mockResolvedValue(ALICE);
+    mockRefreshSession.mockResolvedValue({
+      access_token: 'renewed-token',
+      refresh_token: 'rotated-refresh-token',
+      token_type: 'bearer',
+      expires_in: 900,
+    });
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+
+    const handler = getSessionHandler();
+    let tokens: Array<string | null> = [];
+    await act(async () => {
+      tokens = await Promise.all([handler.refreshAccessToken(), handler.refreshAccessToken()]);
+    });
+
+    expect(tokens).toEqual(['renewed-token', 'renewed-token']);
+    expect(mockRefreshSession).toHaveBeenCalledTimes(1);
+    expect(mockRefreshSession).toHaveBeenCalledWith('saved-refresh-token');
+    expect(localStorage.getItem('auth.refreshToken')).toBe('rotated-refresh-token');
+    expect(screen.getByTestId('token')).toHaveTextContent('renewed-token');
+  });
+
+  it('reports an ended session when the refresh token is rejected', async () => {
+    localStorage.setItem('auth.accessToken', 'saved-token');
+    localStorage.setItem('auth.refreshToken', 'revoked-refresh-token');
+    mockGetMe.mockResolvedValue(ALICE);
+    mockRefreshSession.mockRejectedValue(
+      Object.assign(new Error('Invalid or expired refresh token'), { status: 401 }),
+    );
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+
+    await expect(getSessionHandler().refreshAccessToken()).resolves.toBeNull();
+  });
+
+  it('adopts the renewal of another tab that spent the refresh token first', async () => {
+    localStorage.setItem('auth.accessToken', 'saved-token');
+    localStorage.setItem('auth.refreshToken', 'saved-refresh-token');
+    mockGetMe.mockResolvedValue(ALICE);
+    mockRefreshSession.mockImplementation(async () => {
+      localStorage.setItem('auth.accessToken', 'other-tab-token');
+      localStorage.setItem('auth.refreshToken', 'other-tab-refresh-token');
+      throw Object.assign(new Error('Invalid or expired refresh token'), { status: 401 });
+    });
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+
+    await expect(getSessionHandler().refreshAccessToken()).resolves.toBe('other-tab-token');
+  });
+
+  describe('across tabs', () => {
+    function changeTokenInAnotherTab(token: string | null): void {
+      if (token) {
+        localStorage.setItem('auth.accessToken', token);
+      } else {
+        localStorage.removeItem('auth.accessToken');
+      }
+      act(() => {
+        window.dispatchEvent(new StorageEvent('storage', { key: 'auth.accessToken', newValue: token }));
+      });
+    }
+
+    it('signs out when another tab logs out', async () => {
+      localStorage.setItem('auth.accessToken', 'saved-token');
+      mockGetMe.mockResolvedValue(ALICE);
+
+      renderWithProvider();
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+      });
+
+      changeTokenInAnotherTab(null);
+
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+      expect(screen.getByTestId('token')).toHaveTextContent('no-token');
+    });
+
+    it('signs in when another tab logs in', async () => {
+      mockGetMe.mockResolvedValue(ALICE);
+
+      renderWithProvider();
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+      });
+
+      changeTokenInAnotherTab('other-tab-token');
+
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+      });
+      expect(mockGetMe).toHaveBeenCalledWith('other-tab-token');
+      expect(screen.getByTestId('token')).toHaveTextContent('other-tab-token');
+    });
+
+    it('picks up a token renewed in another tab without reloading the user', async () => {
+      localStorage.setItem('auth.accessToken', 'saved-token');
+      mockGetMe.mockResolvedValue(ALICE);
+
+      renderWithProvider();
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+      });
+
+      changeTokenInAnotherTab('renewed-token');
+
+      expect(screen.getByTestId('token')).toHaveTextContent('renewed-token');
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+      expect(mockGetMe).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('signs out and flags the session as expired when apiFetch gives up', async () => {
+    localStorage.setItem('auth.accessToken', 'saved-token');
+    localStorage.setItem('auth.refreshToken', 'saved-refresh-token');
+    mockGetMe.mockResolvedValue(ALICE);
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+    expect(screen.getByTestId('expired')).toHaveTextContent('active');
+
+    act(() => {
+      getSessionHandler().onSessionExpired();
+    });
+
+    expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+    expect(screen.getByTestId('expired')).toHaveTextContent('expired');
+    expect(localStorage.getItem('auth.accessToken')).toBeNull();
+    expect(localStorage.getItem('auth.refreshToken')).toBeNull();
+    expect(mockClearOfflineSession).toHaveBeenCalled();
+    expect(mockClearOfflineStories).not.toHaveBeenCalled();
+  });
+
+  describe('two-factor sign-in', () => {
+    const CHALLENGE = { mfa_required: true, mfa_token: 'mfa-token', expires_in: 300 };
+
+    async function loginIntoChallenge(): Promise<void> {
+      mockLogin.mockResolvedValue(CHALLENGE);
+      renderWithProvider();
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+      });
+      fireEvent.click(screen.getByText('Login'));
+      await waitFor(() => {
+        expect(screen.getByTestId('mfa')).toHaveTextContent('mfa-pending');
+      });
+    }
+
+    it('holds the challenge instead of starting a session when login needs a code', async () => {
+      await loginIntoChallenge();
+
+      expect(mockGetMe).not.toHaveBeenCalled();
+      expect(screen.getByTestId('token')).toHaveTextContent('no-token');
+      expect(localStorage.getItem('auth.accessToken')).toBeNull();
+    });
+
+    it('starts the session once the code is verified', async () => {
+      await loginIntoChallenge();
+      mockVerifyMfaChallenge.mockResolvedValue({
+        access_token: 'fresh-token',
+        refresh_token: 'fresh-refresh-token',
+        token_type: 'bearer',
+        expires_in: 900,
+      });
+      mockGetMe.mockResolvedValue(ALICE);
+
+      fireEvent.click(screen.getByText('VerifyMfa'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+      });
+      expect(mockVerifyMfaChallenge).toHaveBeenCalledWith('mfa-token', '123456');
+      expect(screen.getByTestId('mfa')).toHaveTextContent('no-mfa');
+      expect(localStorage.getItem('auth.accessToken')).toBe('fresh-token');
+    });
+
+    it('keeps the challenge after a wrong code, and drops it once the challenge is spent', async () => {
+      await loginIntoChallenge();
+      mockVerifyMfaChallenge.mockRejectedValueOnce(
+        Object.assign(new Error('Invalid verification code'), { status: 400 }),
+      );
+
+      fireEvent.click(screen.getByText('VerifyMfa'));
+      await waitFor(() => {
+        expect(mockVerifyMfaChallenge).toHaveBeenCalledTimes(1);
+      });
+      expect(screen.getByTestId('mfa')).toHaveTextContent('mfa-pending');
+
+      mockVerifyMfaChallenge.mockRejectedValueOnce(
+        Object.assign(new Error('Invalid or expired MFA challenge'), { status: 401 }),
+      );
+      fireEvent.click(screen.getByText('VerifyMfa'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('mfa')).toHaveTextContent('no-mfa');
+      });
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+    });
+
+    it('returns to the password step when the challenge is cancelled', async () => {
+      await loginIntoChallenge();
+
+      fireEvent.click(screen.getByText('CancelMfa'));
+
+      expect(screen.getByTestId('mfa')).toHaveTextContent('no-mfa');
+    });
+
+    it('asks for a code after Google sign-in too', async () => {
+      mockExchangeOAuthCode.mockResolvedValue(CHALLENGE);
+      renderWithProvider();
+      await waitFor(() => {
+        expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+      });
+
+      fireEvent.click(screen.getByText('CompleteOAuth'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('mfa')).toHaveTextContent('mfa-pending');
+      });
+      expect(mockGetMe).not.toHaveBeenCalled();
+    });
   });
 });
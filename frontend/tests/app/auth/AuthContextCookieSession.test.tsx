@@ -0,0 +1,149 @@
+/**
+ * AuthProvider with cookie sessions switched on: no bearer token is stored, the
+ * CSRF token is handed to apiFetch, and older localStorage sessions move into cookies.
+ */
+import '@testing-library/jest-dom/vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AuthSessionHandler } from '@api';
+import { AuthProvider, useAuth } from '@/app/auth';
+
+const { mockGetMe, mockLogin, mockRefreshSession, mockSetAuthSessionHandler, mockSetCsrfToken } = vi.hoisted(() => ({
+  mockGetMe: vi.fn(),
+  mockLogin: vi.fn(),
+  mockRefreshSession: vi.fn(),
+  mockSetAuthSessionHandler: vi.fn(),
+  mockSetCsrfToken: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  clearOfflineSession: vi.fn(async () => undefined),
+  clearOfflineStories: vi.fn(),
+  exchangeOAuthCode: vi.fn(),
+  getMe: mockGetMe,
+  isMfaChallenge: (response: { mfa_required?: boolean }) => response.mfa_required === true,
+  login: mockLogin,
+  logout: vi.fn(),
+  refreshSession: mockRefreshSession,
+  setAuthSessionHandler: mockSetAuthSessionHandler,
+  setCsrfToken: mockSetCsrfToken,
+  signup: vi.fn(),
+  verifyMfaChallenge: vi.fn(),
+}));
+
+vi.mock('@/utils', () => ({
+  AUTH_COOKIE_SESSIONS: true,
+}));
+
+const ALICE = {
+  id: 1,
+  email: 'alice@example.com',
+  username: 'alice',
+  avatar_url: null,
+  is_online: true,
+  created_at: '2026-04-17T10:00:00Z',
+};
+
+const COOKIE_TOKENS = { token_type: 'cookie', expires_in: 900, csrf_token: 'csrf-123' };
+
+function TestConsumer(): JSX.Element {
+  const { accessToken, currentUser, isLoadingSession, login } = useAuth();
+
+  return (
+    <div>
+      <div data-testid="status">
+        {isLoadingSession ? 'loading' : currentUser ? `logged-in:${currentUser.username}` : 'logged-out'}
+      </div>
+      <div data-testid="token">{accessToken ?? 'no-token'}</div>
+      <button onClick={() => void login('alice@example.com', 'Password123!')}>Login</button>
+    </div>
+  );
+}
+
+function renderWithProvider(): void {
+  render(
+    <AuthProvider>
+      <TestConsumer />
+    </AuthProvider>,
+  );
+}
+
+function getSessionHandler(): AuthSessionHandler {
+  const handler = mockSetAuthSessionHandler.mock.calls.map(([registered]) => registered).filter(Boolean).at(-1);
+  if (!handler) throw new Error('AuthProvider did not register a session handler');
+  return handler as AuthSessionHandler;
+}
+
+describe('AuthProvider with cookie sessions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    mockGetMe.mockResolvedValue(ALICE);
+  });
+
+  it('keeps tokens out of localStorage after login', async () => {
+    mockLogin.mockResolvedValue(COOKIE_TOKENS);
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Login' }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+    expect(localStorage.getItem('auth.accessToken')).toBe('cookie-session');
+    expect(localStorage.getItem('auth.refreshToken')).toBeNull();
+    expect(localStorage.getItem('auth.csrfToken')).toBe('csrf-123');
+    expect(mockSetCsrfToken).toHaveBeenLastCalledWith('csrf-123');
+  });
+
+  it('moves a localStorage session into cookies on restore', async () => {
+    localStorage.setItem('auth.accessToken', 'old-bearer-token');
+    localStorage.setItem('auth.refreshToken', 'old-refresh-token');
+    mockRefreshSession.mockResolvedValue(COOKIE_TOKENS);
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+    expect(mockRefreshSession).toHaveBeenCalledWith('old-refresh-token');
+    expect(mockGetMe).toHaveBeenCalledWith('cookie-session');
+    expect(localStorage.getItem('auth.accessToken')).toBe('cookie-session');
+    expect(localStorage.getItem('auth.refreshToken')).toBeNull();
+  });
+
+  it('signs out a localStorage session that cannot move', async () => {
+    localStorage.setItem('auth.accessToken', 'old-bearer-token');
+
+    renderWithProvider();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-out');
+    });
+    expect(mockGetMe).not.toHaveBeenCalled();
+    expect(localStorage.getItem('auth.accessToken')).toBeNull();
+  });
+
+  it('renews through the session cookie', async () => {
+    localStorage.setItem('auth.accessToken', 'cookie-session');
+    localStorage.setItem('auth.csrfToken', 'csrf-123');
+    mockRefreshSession.mockResolvedValue(COOKIE_TOKENS);
+
+    renderWithProvider();
+    await waitFor(() => {
+      expect(screen.getByTestId('status')).toHaveTextContent('logged-in:alice');
+    });
+
+    let token: string | null = null;
+    await act(async () => {
+      token = await getSessionHandler().refreshAccessToken();
+    });
+
+    expect(token).toBe('cookie-session');
+    expect(mockRefreshSession).toHaveBeenCalledWith(null);
+  });
+});
@@ -2,7 +2,7 @@
  * Route coverage for the public landing and legal screens.
  */
 import '@testing-library/jest-dom/vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { App } from '@/app';
@@ -16,9 +16,14 @@ const { mockExchangeOAuthCode, mockGetMe } = vi.hoisted(() => ({
 vi.mock('@api', () => ({
   exchangeOAuthCode: mockExchangeOAuthCode,
   getMe: mockGetMe,
+  isMfaChallenge: (response: { mfa_required?: boolean }) => response.mfa_required === true,
   login: vi.fn(),
   logout: vi.fn(),
+  refreshSession: vi.fn(),
+  setAuthSessionHandler: vi.fn(),
+  setCsrfToken: vi.fn(),
   signup: vi.fn(),
+  verifyMfaChallenge: vi.fn(),
 }));
 
 vi.mock('@/pages/api-keys', () => ({
@@ -45,6 +50,7 @@ beforeEach(() => {
     username: 'alice',
     avatar_url: null,
     is_online: true,
+    email_verified: true,
     created_at: '2026-04-17T10:00:00Z',
   });
 });
@@ -113,6 +119,21 @@ describe('App public routes', () => {
     });
   });
 
+  it('leaves a protected route as soon as another tab logs out', async () => {
+    localStorage.setItem('auth.accessToken', 'stored-token');
+    renderApp('/api-keys');
+    await waitFor(() => {
+      expect(screen.getByText('API keys route')).toBeInTheDocument();
+    });
+
+    localStorage.removeItem('auth.accessToken');
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'auth.accessToken', newValue: null }));
+    });
+
+    expect(screen.getByRole('heading', { name: /welcome back/i })).toBeInTheDocument();
+  });
+
   it('redirects unknown routes to the landing page', async () => {
     renderApp('/this-does-not-exist');
     await waitFor(() => {
@@ -3,24 +3,50 @@ import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { LoginPage, SignupPage } from '@/pages/auth';
-
-const { mockNavigate, mockUseAuth, mockLogin, mockSignup, mockStartGoogleOAuth, mockToastError, mockToastSuccess } = vi.hoisted(() => ({
+import { ForgotPasswordPage, LoginPage, ResetPasswordPage, SignupPage, VerifyEmailPage } from '@/pages/auth';
+
+const {
+  mockNavigate,
+  mockUseAuth,
+  mockLogin,
+  mockSignup,
+  mockVerifyMfa,
+  mockCancelMfaChallenge,
+  mockStartGoogleOAuth,
+  mockRequestPasswordReset,
+  mockResetPassword,
+  mockVerifyEmail,
+  mockRefreshMe,
+  mockToastDismiss,
+  mockToastError,
+  mockToastSuccess,
+} = vi.hoisted(() => ({
   mockNavigate: vi.fn(),
+  mockToastDismiss: vi.fn(),
   mockUseAuth: vi.fn(),
   mockLogin: vi.fn(),
   mockSignup: vi.fn(),
+  mockVerifyMfa: vi.fn(),
+  mockCancelMfaChallenge: vi.fn(),
   mockStartGoogleOAuth: vi.fn(),
+  mockRequestPasswordReset: vi.fn(),
+  mockResetPassword: vi.fn(),
+  mockVerifyEmail: vi.fn(),
+  mockRefreshMe: vi.fn(),
   mockToastError: vi.fn(),
   mockToastSuccess: vi.fn(),
 }));
 
 vi.mock('@api', () => ({
+  requestPasswordReset: mockRequestPasswordReset,
+  resetPassword: mockResetPassword,
   startGoogleOAuth: mockStartGoogleOAuth,
+  verifyEmail: mockVerifyEmail,
 }));
 
 vi.mock('sonner', () => ({
   toast: {
+    dismiss: mockToastDismiss,
     error: mockToastError,
     success: mockToastSuccess,
   },
@@ -41,6 +67,7 @@ vi.mock('react-i18next', () => ({
         'auth.errors.emailTaken': 'This email is already taken.',
         'auth.errors.invalidCredentials': 'Invalid email or password.',
         'auth.errors.oauthPasswordLogin': 'This account uses Google sign-in. Continue with Google instead.',
+        'auth.errors.passwordMismatch': 'Passwords do not match.',
         'auth.errors.passwordRequired': 'Enter your password.',
         'auth.errors.passwordTooLong': 'Password must be 72 characters or fewer.',
         'auth.errors.passwordTooShort': 'Password must be at least 8 characters.',
@@ -53,14 +80,29 @@ vi.mock('react-i18next', () => ({
         'auth.fields.passwordPlaceholder': '••••••••',
         'auth.fields.usernameLabel': 'Username',
         'auth.fields.usernamePlaceholder': 'your_username',
+        'auth.forgotPassword.notifications.sent': 'If an account uses that email, a reset link is on its way.',
+        'auth.forgotPassword.submit': 'Send reset link',
+        'auth.forgotPassword.title': 'Reset your password',
         'auth.login.footerLink': 'Sign up',
+        'auth.login.forgotPassword': 'Forgot password?',
         'auth.login.footerText': "Don't have an account?",
         'auth.login.submit': 'Sign in',
         'auth.login.submitting': 'Signing in...',
         'auth.login.title': 'Welcome back',
+        'auth.mfa.challenge.back': 'Back to sign in',
+        'auth.mfa.challenge.title': 'Two-step verification',
+        'auth.mfa.challenge.verify': 'Verify',
+        'auth.mfa.errors.invalidCode': 'That code did not work. Check it and try again.',
+        'auth.mfa.fields.codeLabel': 'Authentication code',
         'auth.oauth.continueWithGoogle': 'Continue with Google',
         'auth.oauth.redirectingToGoogle': 'Redirecting to Google...',
         'auth.oauth.separator': 'or',
+        'auth.passwordReset.confirmPasswordLabel': 'Confirm new password',
+        'auth.passwordReset.errors.invalidLink': 'This reset link is invalid or has expired. Ask for a new one.',
+        'auth.passwordReset.newPasswordLabel': 'New password',
+        'auth.passwordReset.notifications.updated': 'Password updated. Sign in with your new password.',
+        'auth.passwordReset.submit': 'Save password',
+        'auth.session.expired': 'Your session expired. Please sign in again to pick up where you left off.',
         'auth.signup.footerLink': 'Log in',
         'auth.signup.footerText': 'Already have an account?',
         'auth.signup.notifications.accountCreated': 'Account created.',
@@ -68,6 +110,9 @@ vi.mock('react-i18next', () => ({
         'auth.signup.submitting': 'Creating account...',
         'auth.signup.title': 'Create your account',
         'auth.status.loading': 'Loading…',
+        'auth.verifyEmail.notifications.verified': 'Email confirmed. Thanks!',
+        'auth.verifyEmail.submit': 'Confirm email',
+        'auth.verifyEmail.title': 'Confirm your email',
         'languageSwitcher.languageOptions': 'Language options',
         'languageSwitcher.selectLanguage': 'Select language',
       };
@@ -94,10 +139,13 @@ function buildAuthValue() {
     accessToken: null,
     currentUser: null,
     isLoadingSession: false,
+    isMfaChallengePending: false,
     login: mockLogin,
+    verifyMfa: mockVerifyMfa,
+    cancelMfaChallenge: mockCancelMfaChallenge,
     signup: mockSignup,
     logout: vi.fn(),
-    refreshMe: vi.fn(),
+    refreshMe: mockRefreshMe,
   };
 }
 
@@ -223,6 +271,142 @@ describe('auth pages', () => {
     expect(sessionStorage.getItem('auth.oauthRedirectPath')).toBe('/create');
   });
 
+  it('returns to the returnTo path after login succeeds', async () => {
+    mockLogin.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter initialEntries={['/login?returnTo=%2Fbook%2F7%3Fpage%3D2']}>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('you@example.com'), {
+      target: { value: 'alice@example.com' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('••••••••'), {
+      target: { value: 'Password123!' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/book/7?page=2', { replace: true });
+    });
+    expect(screen.getByRole('link', { name: 'Sign up' })).toHaveAttribute(
+      'href',
+      '/signup?returnTo=%2Fbook%2F7%3Fpage%3D2',
+    );
+  });
+
+  it('ignores a returnTo that leaves the app', async () => {
+    mockLogin.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter initialEntries={['/login?returnTo=%2F%2Fevil.example.com']}>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('you@example.com'), {
+      target: { value: 'alice@example.com' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('••••••••'), {
+      target: { value: 'Password123!' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/', { replace: true });
+    });
+  });
+
+  it('replaces stray toasts with one notice when the session expired', () => {
+    render(
+      <MemoryRouter initialEntries={['/login?returnTo=%2Fgallery&reason=expired']}>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('Your session expired.');
+    expect(mockToastDismiss).toHaveBeenCalled();
+  });
+
+  it('stays on the page when login needs a two-factor code', async () => {
+    mockLogin.mockResolvedValue('mfaRequired');
+
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('you@example.com'), {
+      target: { value: 'alice@example.com' },
+    });
+    fireEvent.change(screen.getByPlaceholderText('••••••••'), {
+      target: { value: 'Password123!' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Sign in' }));
+
+    await waitFor(() => {
+      expect(mockLogin).toHaveBeenCalled();
+    });
+    expect(mockNavigate).not.toHaveBeenCalled();
+    expect(mockToastError).not.toHaveBeenCalled();
+  });
+
+  it('verifies the two-factor code and continues to returnTo', async () => {
+    mockUseAuth.mockReturnValue({ ...buildAuthValue(), isMfaChallengePending: true });
+    mockVerifyMfa.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter initialEntries={['/login?returnTo=%2Fgallery']}>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByRole('heading', { name: 'Two-step verification' })).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Authentication code'), { target: { value: '123456' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/gallery', { replace: true });
+    });
+    expect(mockVerifyMfa).toHaveBeenCalledWith('123456');
+  });
+
+  it('localizes a wrong two-factor code and stays on the step', async () => {
+    mockUseAuth.mockReturnValue({ ...buildAuthValue(), isMfaChallengePending: true });
+    mockVerifyMfa.mockRejectedValue(new Error('Invalid verification code'));
+
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText('Authentication code'), { target: { value: '000000' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Verify' }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith('That code did not work. Check it and try again.');
+    });
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('goes back to the password form from the two-factor step', () => {
+    mockUseAuth.mockReturnValue({ ...buildAuthValue(), isMfaChallengePending: true });
+
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to sign in' }));
+
+    expect(mockCancelMfaChallenge).toHaveBeenCalled();
+  });
+
   it('navigates home after signup succeeds', async () => {
     mockSignup.mockResolvedValue(undefined);
 
@@ -304,3 +488,143 @@ describe('auth pages', () => {
     expect(mockNavigate).not.toHaveBeenCalled();
   });
 });
+
+describe('account email pages', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseAuth.mockReturnValue(buildAuthValue());
+  });
+
+  it('links from the login form to the forgot-password page', () => {
+    render(
+      <MemoryRouter>
+        <LoginPage />
+      </MemoryRouter>
+    );
+
+    expect(screen.getByRole('link', { name: 'Forgot password?' })).toHaveAttribute('href', '/forgot-password');
+  });
+
+  it('requests a reset link and returns to login with a neutral notice', async () => {
+    mockRequestPasswordReset.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter>
+        <ForgotPasswordPage />
+      </MemoryRouter>
+    );
+
+    expect(screen.queryByRole('button', { name: 'Continue with Google' })).not.toBeInTheDocument();
+    fireEvent.change(screen.getByPlaceholderText('you@example.com'), {
+      target: { value: ' alice@example.com ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send reset link' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+    });
+    expect(mockRequestPasswordReset).toHaveBeenCalledWith('alice@example.com');
+    expect(mockToastSuccess).toHaveBeenCalledWith('If an account uses that email, a reset link is on its way.');
+  });
+
+  it('sets the new password with the token from the link', async () => {
+    mockResetPassword.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter initialEntries={['/reset-password?token=reset-token']}>
+        <ResetPasswordPage />
+      </MemoryRouter>
+    );
+
+    const [newPassword, confirmPassword] = screen.getAllByPlaceholderText('••••••••');
+    fireEvent.change(newPassword, { target: { value: 'NewPassword456!' } });
+    fireEvent.change(confirmPassword, { target: { value: 'NewPassword456!' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save password' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+    });
+    expect(mockResetPassword).toHaveBeenCalledWith('reset-token', 'NewPassword456!');
+    expect(mockToastSuccess).toHaveBeenCalledWith('Password updated. Sign in with your new password.');
+  });
+
+  it('checks that both passwords match before calling the API', async () => {
+    render(
+      <MemoryRouter initialEntries={['/reset-password?token=reset-token']}>
+        <ResetPasswordPage />
+      </MemoryRouter>
+    );
+
+    const [newPassword, confirmPassword] = screen.getAllByPlaceholderText('••••••••');
+    fireEvent.change(newPassword, { target: { value: 'NewPassword456!' } });
+    fireEvent.change(confirmPassword, { target: { value: 'NewPassword789!' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save password' }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith('Passwords do not match.');
+    });
+    expect(mockResetPassword).not.toHaveBeenCalled();
+  });
+
+  it('localizes an expired reset link', async () => {
+    mockResetPassword.mockRejectedValue(new Error('Invalid or expired reset link'));
+
+    render(
+      <MemoryRouter initialEntries={['/reset-password?token=old-token']}>
+        <ResetPasswordPage />
+      </MemoryRouter>
+    );
+
+    const [newPassword, confirmPassword] = screen.getAllByPlaceholderText('••••••••');
+    fireEvent.change(newPassword, { target: { value: 'NewPassword456!' } });
+    fireEvent.change(confirmPassword, { target: { value: 'NewPassword456!' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save password' }));
+
+    await waitFor(() => {
+      expect(mockToastError).toHaveBeenCalledWith('This reset link is invalid or has expired. Ask for a new one.');
+    });
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('confirms the email for a signed-in reader and reloads their profile', async () => {
+    mockVerifyEmail.mockResolvedValue(undefined);
+    mockRefreshMe.mockResolvedValue(undefined);
+    mockUseAuth.mockReturnValue({
+      ...buildAuthValue(),
+      accessToken: 'access-token',
+      currentUser: { id: 1, email: 'alice@example.com', username: 'alice', email_verified: false },
+    });
+
+    render(
+      <MemoryRouter initialEntries={['/verify-email?token=verify-token']}>
+        <VerifyEmailPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm email' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/', { replace: true });
+    });
+    expect(mockVerifyEmail).toHaveBeenCalledWith('verify-token');
+    expect(mockRefreshMe).toHaveBeenCalled();
+    expect(mockToastSuccess).toHaveBeenCalledWith('Email confirmed. Thanks!');
+  });
+
+  it('sends a signed-out reader to login after confirming', async () => {
+    mockVerifyEmail.mockResolvedValue(undefined);
+
+    render(
+      <MemoryRouter initialEntries={['/verify-email?token=verify-token']}>
+        <VerifyEmailPage />
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm email' }));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login', { replace: true });
+    });
+    expect(mockRefreshMe).not.toHaveBeenCalled();
+  });
+});
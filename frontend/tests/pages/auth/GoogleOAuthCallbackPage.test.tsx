@@ -102,6 +102,17 @@ describe('GoogleOAuthCallbackPage', () => {
     });
   });
 
+  it('sends the reader to the login page for the two-factor code, keeping the destination', async () => {
+    mockCompleteGoogleOAuth.mockResolvedValue('mfaRequired');
+
+    renderCallback('?code=abc123&next=%2Fgallery');
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/login?returnTo=%2Fgallery', { replace: true });
+    });
+    expect(mockToastSuccess).not.toHaveBeenCalled();
+  });
+
   it('shows an error and does not call completeGoogleOAuth when Google returns ?error', async () => {
     renderCallback('?error=access_denied');
 
@@ -0,0 +1,223 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CollectionDetailResponse, StoryListItem } from '@api';
+import { useCollectionPage } from '@/pages/collection/useCollectionPage';
+
+const {
+  mockUseAuth,
+  mockUseParams,
+  mockNavigate,
+  mockGetCollection,
+  mockGetFriendSharedCollection,
+  mockUpdateCollection,
+  mockRemoveStoryFromCollection,
+  mockDeleteCollection,
+  mockToastError,
+  mockToastSuccess,
+} = vi.hoisted(() => ({
+  mockUseAuth: vi.fn(),
+  mockUseParams: vi.fn(),
+  mockNavigate: vi.fn(),
+  mockGetCollection: vi.fn(),
+  mockGetFriendSharedCollection: vi.fn(),
+  mockUpdateCollection: vi.fn(),
+  mockRemoveStoryFromCollection: vi.fn(),
+  mockDeleteCollection: vi.fn(),
+  mockToastError: vi.fn(),
+  mockToastSuccess: vi.fn(),
+}));
+
+vi.mock('@/app/auth', () => ({
+  useAuth: mockUseAuth,
+}));
+
+vi.mock('@api', () => ({
+  deleteCollection: mockDeleteCollection,
+  getCollection: mockGetCollection,
+  getFriendSharedCollection: mockGetFriendSharedCollection,
+  removeStoryFromCollection: mockRemoveStoryFromCollection,
+  updateCollection: mockUpdateCollection,
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...(actual as Record<string, unknown>),
+    useNavigate: () => mockNavigate,
+    useParams: mockUseParams,
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: mockToastError,
+    success: mockToastSuccess,
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+function makeStory(id: number, title: string): StoryListItem {
+  return {
+    id,
+    title,
+    cover_image_url: null,
+    visibility: 'private',
+    share_link: null,
+    is_unlocked: true,
+    created_at: '2026-05-08T10:00:00Z',
+    profile: {
+      id,
+      name: 'Mia',
+      gender: 'girl',
+      skin_tone: 'Honey',
+      hair_color: 'Brown',
+      eye_color: 'Green',
+      favorite_color: 'Teal',
+      dream: null,
+      archetype: null,
+      art_style: null,
+      language: 'en',
+      created_at: '2026-05-08T10:00:00Z',
+    },
+    series_id: null,
+    episode_number: null,
+  };
+}
+
+const BEDTIME: CollectionDetailResponse = {
+  id: 7,
+  name: 'Bedtime',
+  visibility: 'private',
+  story_count: 2,
+  cover_image_url: null,
+  created_at: '2026-05-08T10:00:00Z',
+  updated_at: '2026-05-08T10:00:00Z',
+  stories: [makeStory(1, 'Moon Trip'), makeStory(2, 'Sleepy Dragon')],
+};
+
+function summaryOf(collection: CollectionDetailResponse): Omit<CollectionDetailResponse, 'stories'> {
+  const { stories: _stories, ...summary } = collection;
+  return summary;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  Object.defineProperty(window, 'confirm', {
+    configurable: true,
+    value: vi.fn(() => true),
+  });
+  mockUseAuth.mockReturnValue({ accessToken: 'token' });
+  mockUseParams.mockReturnValue({ collectionId: '7' });
+  mockGetCollection.mockResolvedValue(BEDTIME);
+});
+
+describe('useCollectionPage', () => {
+  it('loads the owner collection and links stories to the book view', async () => {
+    const { result } = renderHook(() => useCollectionPage());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockGetCollection).toHaveBeenCalledWith('token', 7);
+    expect(result.current.friendUserId).toBeNull();
+    expect(result.current.collection?.stories).toHaveLength(2);
+    expect(result.current.getStoryPath(2)).toBe('/book/2');
+  });
+
+  it('loads a friend collection read-only with friend story links', async () => {
+    mockUseParams.mockReturnValue({ userId: '3', collectionId: '7' });
+    mockGetFriendSharedCollection.mockResolvedValue({ ...BEDTIME, visibility: 'shared_with_friends' });
+
+    const { result } = renderHook(() => useCollectionPage());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockGetFriendSharedCollection).toHaveBeenCalledWith('token', 3, 7);
+    expect(mockGetCollection).not.toHaveBeenCalled();
+    expect(result.current.getStoryPath(2)).toBe('/friends/3/library/2');
+
+    await act(async () => {
+      await result.current.onRemoveStory(1);
+    });
+    expect(mockRemoveStoryFromCollection).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing collection as unavailable', async () => {
+    mockGetCollection.mockRejectedValue(new Error('Collection not found'));
+
+    const { result } = renderHook(() => useCollectionPage());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.isUnavailable).toBe(true);
+    expect(result.current.collection).toBeNull();
+  });
+
+  it('takes a story off the shelf and keeps the rest', async () => {
+    mockRemoveStoryFromCollection.mockResolvedValue({ ...summaryOf(BEDTIME), story_count: 1 });
+    const { result } = renderHook(() => useCollectionPage());
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.onRemoveStory(1);
+    });
+
+    expect(mockRemoveStoryFromCollection).toHaveBeenCalledWith('token', 7, 1);
+    expect(result.current.collection?.story_count).toBe(1);
+    expect(result.current.collection?.stories.map((story) => story.id)).toEqual([2]);
+  });
+
+  it('renames and shares the collection without reloading its stories', async () => {
+    mockUpdateCollection
+      .mockResolvedValueOnce({ ...summaryOf(BEDTIME), name: 'Sleepy time' })
+      .mockResolvedValueOnce({ ...summaryOf(BEDTIME), name: 'Sleepy time', visibility: 'shared_with_friends' });
+    const { result } = renderHook(() => useCollectionPage());
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    let renamed = false;
+    await act(async () => {
+      renamed = await result.current.onRename('  Sleepy time ');
+    });
+    await act(async () => {
+      await result.current.onChangeVisibility('shared_with_friends');
+    });
+
+    expect(renamed).toBe(true);
+    expect(mockUpdateCollection).toHaveBeenNthCalledWith(1, 'token', 7, { name: 'Sleepy time' });
+    expect(mockUpdateCollection).toHaveBeenNthCalledWith(2, 'token', 7, { visibility: 'shared_with_friends' });
+    expect(result.current.collection?.name).toBe('Sleepy time');
+    expect(result.current.collection?.visibility).toBe('shared_with_friends');
+    expect(result.current.collection?.stories).toHaveLength(2);
+  });
+
+  it('deletes after confirmation and returns to the gallery', async () => {
+    mockDeleteCollection.mockResolvedValue(undefined);
+    const { result } = renderHook(() => useCollectionPage());
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.onDelete();
+    });
+
+    expect(mockDeleteCollection).toHaveBeenCalledWith('token', 7);
+    expect(mockNavigate).toHaveBeenCalledWith('/gallery');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for the pure helpers behind bulk gallery changes.
+ */
+import { describe, expect, it } from 'vitest';
+
+import type { StoryListItem } from '@api';
+import { getUniqueFileNames, removeStories, restoreStories } from '@/pages/gallery/gallery.helpers';
+
+function story(id: number): StoryListItem {
+  return { id, title: `Story ${id}` } as StoryListItem;
+}
+
+describe('removeStories and restoreStories', () => {
+  it('puts removed stories back where they were', () => {
+    const { remaining, removed } = removeStories([story(1), story(2), story(3), story(4)], new Set([1, 3]));
+
+    expect(remaining.map((item) => item.id)).toEqual([2, 4]);
+    expect(restoreStories(remaining, removed).map((item) => item.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('does not double a story that was loaded again in the meantime', () => {
+    const { removed } = removeStories([story(1), story(2)], new Set([2]));
+
+    expect(restoreStories([story(1), story(2)], removed).map((item) => item.id)).toEqual([1, 2]);
+  });
+
+  it('appends stories whose place is past the end of a shorter list', () => {
+    const { removed } = removeStories([story(1), story(2), story(3)], new Set([3]));
+
+    expect(restoreStories([], removed).map((item) => item.id)).toEqual([3]);
+  });
+});
+
+describe('getUniqueFileNames', () => {
+  it('numbers repeated names and keeps the extension', () => {
+    expect(getUniqueFileNames(['fox.epub', 'owl.epub', 'fox.epub', 'fox.epub'])).toEqual([
+      'fox.epub',
+      'owl.epub',
+      'fox-2.epub',
+      'fox-3.epub',
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the gallery filter <-> query-string mapping.
+ */
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_GALLERY_FILTERS,
+  hasActiveGalleryFilters,
+  parseGalleryFilters,
+  serializeGalleryFilters,
+  toStorySearchParams,
+} from '@/pages/gallery/gallery.filters';
+
+describe('gallery filters', () => {
+  it('round-trips filters through the URL with short keys', () => {
+    const filters = {
+      ...DEFAULT_GALLERY_FILTERS,
+      q: 'dragon',
+      hero: 'Zara',
+      artStyle: 'Watercolor',
+      language: 'fr',
+      visibility: 'public_link' as const,
+      status: 'draft' as const,
+      sort: 'title' as const,
+    };
+
+    const searchParams = serializeGalleryFilters(filters);
+
+    expect(searchParams.toString()).toBe(
+      'q=dragon&hero=Zara&style=Watercolor&lang=fr&visibility=public_link&status=draft&sort=title',
+    );
+    expect(parseGalleryFilters(searchParams)).toEqual(filters);
+  });
+
+  it('keeps the plain gallery URL empty', () => {
+    expect(serializeGalleryFilters(DEFAULT_GALLERY_FILTERS).toString()).toBe('');
+    expect(hasActiveGalleryFilters(DEFAULT_GALLERY_FILTERS)).toBe(false);
+    expect(hasActiveGalleryFilters({ ...DEFAULT_GALLERY_FILTERS, sort: 'oldest' })).toBe(false);
+    expect(hasActiveGalleryFilters({ ...DEFAULT_GALLERY_FILTERS, hero: 'Leo' })).toBe(true);
+  });
+
+  it('drops unknown enum values from hand-edited URLs', () => {
+    const filters = parseGalleryFilters(new URLSearchParams('sort=random&status=deleted&visibility=everyone&q=%20moon%20'));
+
+    expect(filters).toEqual({ ...DEFAULT_GALLERY_FILTERS, q: 'moon' });
+  });
+
+  it('builds API params for a page offset', () => {
+    expect(toStorySearchParams({ ...DEFAULT_GALLERY_FILTERS, hero: 'Leo' }, 48)).toEqual({
+      q: undefined,
+      hero: 'Leo',
+      archetype: undefined,
+      artStyle: undefined,
+      language: undefined,
+      visibility: undefined,
+      status: undefined,
+      sort: 'newest',
+      limit: 24,
+      offset: 48,
+    });
+  });
+});
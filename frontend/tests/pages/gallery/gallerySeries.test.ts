@@ -0,0 +1,53 @@
+/**
+ * Tests for grouping the episodes of a series in the gallery grid.
+ */
+import { describe, expect, it } from 'vitest';
+
+import type { StoryListItem } from '@api';
+import { groupStoriesBySeries } from '@/pages/gallery/gallery.helpers';
+
+function story(id: number, seriesId: number | null = null, episodeNumber: number | null = null): StoryListItem {
+  return {
+    id,
+    title: `Story ${id}`,
+    cover_image_url: null,
+    visibility: 'private',
+    share_link: null,
+    is_unlocked: true,
+    created_at: '2026-01-01T00:00:00Z',
+    profile: {
+      id,
+      name: 'Zara',
+      gender: 'girl',
+      skin_tone: 'medium',
+      hair_color: 'black',
+      eye_color: 'brown',
+      favorite_color: 'purple',
+      dream: null,
+      archetype: null,
+      art_style: null,
+      language: null,
+      created_at: '2026-01-01T00:00:00Z',
+    },
+    series_id: seriesId,
+    episode_number: episodeNumber,
+  };
+}
+
+describe('groupStoriesBySeries', () => {
+  it('puts a series where its first listed episode is and reads it in episode order', () => {
+    const groups = groupStoriesBySeries([story(5, 2, 3), story(9), story(2, 2, 1), story(4, 2, 2), story(1)]);
+
+    expect(groups.map((group) => [group.seriesId, group.stories.map((item) => item.id)])).toEqual([
+      [2, [2, 4, 5]],
+      [null, [9]],
+      [null, [1]],
+    ]);
+  });
+
+  it('keeps stories cached before series existed on their own', () => {
+    const legacy = { ...story(3), series_id: undefined, episode_number: undefined } as unknown as StoryListItem;
+
+    expect(groupStoriesBySeries([legacy])).toEqual([{ seriesId: null, stories: [legacy] }]);
+  });
+});
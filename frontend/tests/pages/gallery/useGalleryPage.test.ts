@@ -0,0 +1,327 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StoryListItem } from '@api';
+import { BULK_UNDO_GRACE_MS, useGalleryPage } from '@/pages/gallery/useGalleryPage';
+
+const {
+  mockUseAuth,
+  mockSearchStories,
+  mockMoveStoryToTrash,
+  mockUpdateStoryVisibility,
+  mockAddStoryToCollection,
+  mockListCollections,
+  mockToastSuccess,
+  mockToastError,
+  mockToastDismiss,
+  mockT,
+} = vi.hoisted(() => ({
+  mockUseAuth: vi.fn(),
+  mockSearchStories: vi.fn(),
+  mockMoveStoryToTrash: vi.fn(),
+  mockUpdateStoryVisibility: vi.fn(),
+  mockAddStoryToCollection: vi.fn(),
+  mockListCollections: vi.fn(),
+  mockToastSuccess: vi.fn(),
+  mockToastError: vi.fn(),
+  mockToastDismiss: vi.fn(),
+  mockT: (key: string) => key,
+}));
+
+vi.mock('@/app/auth', () => ({
+  useAuth: mockUseAuth,
+}));
+
+vi.mock('@api', () => ({
+  addStoryToCollection: mockAddStoryToCollection,
+  createCollection: vi.fn(),
+  createStoryShareLink: vi.fn(),
+  isOfflineSupported: () => false,
+  listCollections: mockListCollections,
+  listOfflineStoryIds: vi.fn(),
+  moveStoryToTrash: mockMoveStoryToTrash,
+  removeStoryFromOffline: vi.fn(),
+  revokeStoryShareLink: vi.fn(),
+  saveStoryForOffline: vi.fn(),
+  searchStories: mockSearchStories,
+  updateStoryVisibility: mockUpdateStoryVisibility,
+}));
+
+vi.mock('@/pages/story/story.epub', () => ({
+  renderStoryEpub: vi.fn(),
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  const searchParams = new URLSearchParams();
+  const setSearchParams = vi.fn();
+  return {
+    ...(actual as Record<string, unknown>),
+    useSearchParams: () => [searchParams, setSearchParams],
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: mockToastSuccess,
+    error: mockToastError,
+    dismiss: mockToastDismiss,
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: mockT,
+  }),
+}));
+
+function makeStory(id: number): StoryListItem {
+  return {
+    id,
+    title: `Story ${id}`,
+    cover_image_url: null,
+    visibility: 'private',
+    share_link: null,
+    is_unlocked: true,
+    created_at: '2026-05-08T10:00:00Z',
+    profile: {
+      id,
+      name: 'Mia',
+      gender: 'girl',
+      skin_tone: 'Honey',
+      hair_color: 'Brown',
+      eye_color: 'Green',
+      favorite_color: 'Teal',
+      dream: null,
+      archetype: null,
+      art_style: null,
+      language: 'en',
+      created_at: '2026-05-08T10:00:00Z',
+    },
+    series_id: null,
+    episode_number: null,
+  };
+}
+
+async function renderGallery() {
+  const rendered = renderHook(() => useGalleryPage());
+  await waitFor(() => {
+    expect(rendered.result.current.isLoading).toBe(false);
+  });
+  // Bulk changes wait for the undo window, so only start faking time once the stories are in.
+  vi.useFakeTimers();
+  return rendered;
+}
+
+function selectStories(result: { current: ReturnType<typeof useGalleryPage> }, storyIds: number[]): void {
+  act(() => {
+    result.current.selection.onStart();
+  });
+  for (const storyId of storyIds) {
+    act(() => {
+      result.current.selection.onToggleStory(storyId);
+    });
+  }
+}
+
+/** Let the requests sent so far settle. */
+async function settleRequests(): Promise<void> {
+  await act(async () => {
+    await Promise.resolve();
+  });
+}
+
+async function closeUndoWindow(): Promise<void> {
+  act(() => {
+    vi.advanceTimersByTime(BULK_UNDO_GRACE_MS);
+  });
+  await settleRequests();
+}
+
+function clickUndo(): void {
+  const [, options] = mockToastSuccess.mock.calls.at(-1) as [string, { action: { onClick: () => void } }];
+  act(() => {
+    options.action.onClick();
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  Object.defineProperty(window, 'confirm', {
+    configurable: true,
+    value: vi.fn(() => true),
+  });
+  mockUseAuth.mockReturnValue({ accessToken: 'token' });
+  mockListCollections.mockResolvedValue([]);
+  mockSearchStories.mockResolvedValue({
+    items: [makeStory(1), makeStory(2), makeStory(3)],
+    total: 3,
+    facets: { hero_names: [], archetypes: [], art_styles: [], languages: [] },
+  });
+  mockMoveStoryToTrash.mockResolvedValue(undefined);
+  mockToastSuccess.mockReturnValue('bulk-toast');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useGalleryPage selection', () => {
+  it('hides deleted stories at once and trashes them when the undo window closes', async () => {
+    const { result } = await renderGallery();
+    selectStories(result, [1, 3]);
+
+    act(() => {
+      result.current.selection.onDelete();
+    });
+
+    expect(result.current.stories.map((story) => story.id)).toEqual([2]);
+    expect(result.current.search.total).toBe(1);
+    expect(result.current.selection.isActive).toBe(false);
+    expect(mockToastSuccess).toHaveBeenCalledWith('galleryPage.bulk.notifications.deleted', expect.objectContaining({
+      duration: BULK_UNDO_GRACE_MS,
+    }));
+    expect(mockMoveStoryToTrash).not.toHaveBeenCalled();
+
+    await closeUndoWindow();
+
+    expect(mockMoveStoryToTrash).toHaveBeenCalledTimes(2);
+    expect(mockMoveStoryToTrash).toHaveBeenCalledWith('token', 1, undefined);
+    expect(mockMoveStoryToTrash).toHaveBeenCalledWith('token', 3, undefined);
+  });
+
+  it('undo puts the stories back in place and selects them again', async () => {
+    const { result } = await renderGallery();
+    selectStories(result, [1, 3]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+
+    clickUndo();
+    await closeUndoWindow();
+
+    expect(mockMoveStoryToTrash).not.toHaveBeenCalled();
+    expect(result.current.stories.map((story) => story.id)).toEqual([1, 2, 3]);
+    expect(result.current.search.total).toBe(3);
+    expect(result.current.selection.isActive).toBe(true);
+    expect([...result.current.selection.selectedStoryIds]).toEqual([1, 3]);
+  });
+
+  it('brings back stories the server refused to trash', async () => {
+    mockMoveStoryToTrash.mockImplementation(async (_token: string, storyId: number) => {
+      if (storyId === 3) {
+        throw new Error('Story not found');
+      }
+    });
+    const { result } = await renderGallery();
+    selectStories(result, [1, 3]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+
+    await closeUndoWindow();
+
+    expect(result.current.stories.map((story) => story.id)).toEqual([2, 3]);
+    expect(mockToastError).toHaveBeenCalledWith('galleryPage.bulk.notifications.deleteFailed');
+  });
+
+  it('shares every selected story and undoes it without calling the server', async () => {
+    const { result } = await renderGallery();
+    selectStories(result, [2, 3]);
+
+    act(() => {
+      result.current.selection.onUpdateVisibility('shared_with_friends');
+    });
+
+    expect(result.current.stories.map((story) => story.visibility)).toEqual([
+      'private',
+      'shared_with_friends',
+      'shared_with_friends',
+    ]);
+
+    clickUndo();
+    await closeUndoWindow();
+
+    expect(mockUpdateStoryVisibility).not.toHaveBeenCalled();
+    expect(result.current.stories.every((story) => story.visibility === 'private')).toBe(true);
+  });
+
+  it('sends a change still waiting in its undo window when the next one starts', async () => {
+    mockUpdateStoryVisibility.mockImplementation(async (_token: string, storyId: number, visibility: string) => ({
+      ...makeStory(storyId),
+      visibility,
+    }));
+    const { result } = await renderGallery();
+    selectStories(result, [1]);
+    act(() => {
+      result.current.selection.onUpdateVisibility('shared_with_friends');
+    });
+
+    selectStories(result, [2]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+    await settleRequests();
+
+    expect(mockToastDismiss).toHaveBeenCalledWith('bulk-toast');
+    expect(mockUpdateStoryVisibility).toHaveBeenCalledWith('token', 1, 'shared_with_friends', undefined);
+    expect(mockMoveStoryToTrash).not.toHaveBeenCalled();
+  });
+
+  it('sends a waiting change when the gallery closes', async () => {
+    const { result, unmount } = await renderGallery();
+    selectStories(result, [2]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+
+    unmount();
+
+    expect(mockMoveStoryToTrash).toHaveBeenCalledWith('token', 2, undefined);
+  });
+
+  it('sends a waiting change with keepalive when the tab closes or reloads', async () => {
+    const { result } = await renderGallery();
+    selectStories(result, [1, 2]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+
+    act(() => {
+      window.dispatchEvent(new Event('pagehide'));
+    });
+
+    expect(mockMoveStoryToTrash).toHaveBeenCalledWith('token', 1, { keepalive: true });
+    expect(mockMoveStoryToTrash).toHaveBeenCalledWith('token', 2, { keepalive: true });
+    await closeUndoWindow();
+    expect(mockMoveStoryToTrash).toHaveBeenCalledTimes(2);
+  });
+
+  it('loads the next page past stories hidden by a delete still in its undo window', async () => {
+    mockSearchStories.mockResolvedValueOnce({
+      items: [makeStory(1), makeStory(2), makeStory(3)],
+      total: 5,
+      facets: { hero_names: [], archetypes: [], art_styles: [], languages: [] },
+    });
+    const { result } = await renderGallery();
+    selectStories(result, [1]);
+    act(() => {
+      result.current.selection.onDelete();
+    });
+    mockSearchStories.mockResolvedValueOnce({
+      items: [makeStory(1), makeStory(4), makeStory(5)],
+      total: 5,
+      facets: { hero_names: [], archetypes: [], art_styles: [], languages: [] },
+    });
+
+    await act(async () => {
+      await result.current.search.onLoadMore();
+    });
+
+    expect(mockSearchStories).toHaveBeenLastCalledWith('token', expect.objectContaining({ offset: 3 }));
+    expect(result.current.stories.map((story) => story.id)).toEqual([2, 3, 4, 5]);
+    expect(result.current.search.total).toBe(4);
+    expect(result.current.search.hasMore).toBe(false);
+  });
+});
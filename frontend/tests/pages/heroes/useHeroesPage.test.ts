@@ -0,0 +1,135 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { HeroResponse } from '@api';
+import { useHeroesPage } from '@/pages/heroes/useHeroesPage';
+
+const {
+  mockUseAuth,
+  mockListHeroes,
+  mockUpdateHero,
+  mockToastError,
+  mockToastSuccess,
+  mockT,
+} = vi.hoisted(() => ({
+  mockUseAuth: vi.fn(),
+  mockListHeroes: vi.fn(),
+  mockUpdateHero: vi.fn(),
+  mockToastError: vi.fn(),
+  mockToastSuccess: vi.fn(),
+  mockT: vi.fn((key: string) => key),
+}));
+
+vi.mock('@/app/auth', () => ({
+  useAuth: mockUseAuth,
+}));
+
+vi.mock('@api', () => ({
+  listHeroes: mockListHeroes,
+  updateHero: mockUpdateHero,
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: mockToastError,
+    success: mockToastSuccess,
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: mockT,
+  }),
+}));
+
+const MIA: HeroResponse = {
+  id: 4,
+  name: 'Mia',
+  gender: 'girl',
+  skin_tone: 'Honey',
+  hair_color: 'Brown',
+  eye_color: 'Green',
+  favorite_color: 'Teal',
+  archetype: 'Brave Explorer',
+  art_style: 'Watercolor',
+  language: 'en',
+  story_count: 3,
+  last_used_at: '2026-05-08T10:00:00Z',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockT.mockImplementation((key: string) => key);
+  mockUseAuth.mockReturnValue({ accessToken: 'test-token' });
+  mockListHeroes.mockResolvedValue([MIA]);
+  mockUpdateHero.mockResolvedValue({ ...MIA, name: 'Mila', hair_color: 'Red' });
+});
+
+async function setup() {
+  const rendered = renderHook(() => useHeroesPage());
+  await waitFor(() => {
+    expect(rendered.result.current.isLoading).toBe(false);
+  });
+  return rendered;
+}
+
+describe('useHeroesPage', () => {
+  it('loads saved heroes as wizard profiles', async () => {
+    const { result } = await setup();
+
+    expect(mockListHeroes).toHaveBeenCalledWith('test-token');
+    expect(result.current.heroes).toEqual([
+      expect.objectContaining({
+        id: 4,
+        storyCount: 3,
+        profile: expect.objectContaining({ name: 'Mia', skinTone: 'Honey', artStyle: 'Watercolor' }),
+      }),
+    ]);
+  });
+
+  it('saves a renamed hero and replaces it in the list', async () => {
+    const { result } = await setup();
+    const [hero] = result.current.heroes;
+
+    let saved = false;
+    await act(async () => {
+      saved = await result.current.onSaveHero(hero.id, { ...hero.profile, name: ' Mila ', hairColor: 'Red' });
+    });
+
+    expect(saved).toBe(true);
+    expect(mockUpdateHero).toHaveBeenCalledWith('test-token', 4, {
+      name: 'Mila',
+      gender: 'girl',
+      skin_tone: 'Honey',
+      hair_color: 'Red',
+      eye_color: 'Green',
+      favorite_color: 'Teal',
+    });
+    expect(result.current.heroes[0].profile.name).toBe('Mila');
+    expect(mockToastSuccess).toHaveBeenCalledWith('heroesPage.notifications.saved');
+  });
+
+  it('refuses to save a hero without a name', async () => {
+    const { result } = await setup();
+    const [hero] = result.current.heroes;
+
+    let saved = true;
+    await act(async () => {
+      saved = await result.current.onSaveHero(hero.id, { ...hero.profile, name: '   ' });
+    });
+
+    expect(saved).toBe(false);
+    expect(mockUpdateHero).not.toHaveBeenCalled();
+    expect(mockToastError).toHaveBeenCalledWith('heroesPage.errors.nameRequired');
+  });
+
+  it('shows an error toast when heroes fail to load', async () => {
+    mockListHeroes.mockRejectedValueOnce(new Error('boom'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result } = await setup();
+
+    expect(result.current.heroes).toEqual([]);
+    expect(mockToastError).toHaveBeenCalledWith('heroesPage.notifications.loadFailed');
+  });
+});
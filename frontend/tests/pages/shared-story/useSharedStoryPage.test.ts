@@ -0,0 +1,90 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StoryDetailResponse } from '@api';
+import { useSharedStoryPage } from '@/pages/shared-story/useSharedStoryPage';
+
+const { mockGetStoryByShareToken, mockUseParams } = vi.hoisted(() => ({
+  mockGetStoryByShareToken: vi.fn(),
+  mockUseParams: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  getStoryByShareToken: mockGetStoryByShareToken,
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...(actual as Record<string, unknown>),
+    useParams: mockUseParams,
+  };
+});
+
+const SHARED_STORY: StoryDetailResponse = {
+  id: 12,
+  title: 'Mia and the Moon',
+  foreword: 'A trip to the sky.',
+  character_description: 'Mia',
+  cover_image_prompt: 'Moon',
+  cover_image_url: 'cover.png',
+  visibility: 'public_link',
+  share_link: null,
+  is_unlocked: true,
+  created_at: '2026-05-08T10:00:00Z',
+  updated_at: '2026-05-08T10:00:00Z',
+  series: null,
+  profile: {
+    id: 1,
+    name: 'Mia',
+    gender: 'girl',
+    skin_tone: 'Honey',
+    hair_color: 'Brown',
+    eye_color: 'Green',
+    favorite_color: 'Teal',
+    dream: null,
+    archetype: null,
+    art_style: null,
+    language: 'en',
+    created_at: '2026-05-08T10:00:00Z',
+  },
+  panels: [
+    { id: 1, panel_order: 0, text: 'Mia builds a rocket.', image_prompt: 'rocket', image_url: 'panel-1.png' },
+  ],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockUseParams.mockReturnValue({ token: 'share-token' });
+  mockGetStoryByShareToken.mockResolvedValue(SHARED_STORY);
+});
+
+describe('useSharedStoryPage', () => {
+  it('loads the story behind the link token', async () => {
+    const { result } = renderHook(() => useSharedStoryPage());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(mockGetStoryByShareToken).toHaveBeenCalledWith('share-token');
+    expect(result.current.isUnavailable).toBe(false);
+    expect(result.current.story?.title).toBe('Mia and the Moon');
+    expect(result.current.story?.panels[0].text).toBe('Mia builds a rocket.');
+    expect(result.current.profile?.name).toBe('Mia');
+  });
+
+  it('reports revoked or expired links as unavailable', async () => {
+    mockGetStoryByShareToken.mockRejectedValue(new Error('Story not found'));
+
+    const { result } = renderHook(() => useSharedStoryPage());
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(result.current.isUnavailable).toBe(true);
+    expect(result.current.story).toBeNull();
+  });
+});
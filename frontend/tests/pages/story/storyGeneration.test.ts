@@ -0,0 +1,482 @@
+/**
+ * Tests for the per-panel full-story generation job and cancellation.
+ *
+ * The workflow is exercised against a mocked @api barrel so we can force
+ * single-panel failures and assert that finished images are persisted and
+ * kept instead of being thrown away with the rest of the run.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Story } from '@/types';
+import {
+  applyGenerationJob,
+  createGenerationJob,
+  requeueFailedTasks,
+  summarizeGenerationJob,
+} from '@/pages/story/story.generation';
+import {
+  addCastMember,
+  createEmptyKidProfile,
+  isAbortError,
+  updateCastMember,
+} from '@/pages/story/story.helpers';
+import {
+  generateFullStoryState,
+  generatePreviewState,
+  loadStoryContinuationState,
+  loadStoryState,
+} from '@/pages/story/story.workflow';
+import { StoryPageView, type PendingGeneration } from '@/pages/story/story.types';
+
+const {
+  mockDeleteStory,
+  mockGeneratePanelImage,
+  mockGetStory,
+  mockSaveStory,
+  mockStreamStoryScript,
+  mockUpdatePanelImage,
+  mockUpdateStory,
+} = vi.hoisted(() => ({
+  mockDeleteStory: vi.fn(),
+  mockGeneratePanelImage: vi.fn(),
+  mockGetStory: vi.fn(),
+  mockSaveStory: vi.fn(),
+  mockStreamStoryScript: vi.fn(),
+  mockUpdatePanelImage: vi.fn(),
+  mockUpdateStory: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  deleteStory: mockDeleteStory,
+  generatePanelImage: mockGeneratePanelImage,
+  getStory: mockGetStory,
+  updatePanelImage: mockUpdatePanelImage,
+  updateStory: mockUpdateStory,
+  getFriendSharedStory: vi.fn(),
+  saveStory: mockSaveStory,
+  streamStoryScript: mockStreamStoryScript,
+}));
+
+function abortError(): DOMException {
+  return new DOMException('The request was aborted.', 'AbortError');
+}
+
+const PREVIEW_STORY: Story = {
+  title: 'Moon Mission',
+  foreword: 'A brave little hero explores the stars.',
+  characterDescription: 'Leo with a shiny helmet.',
+  coverImagePrompt: 'Leo leaps toward a glowing moon.',
+  visibility: 'private',
+  panels: [
+    { id: '1', text: 'Leo waves.', imagePrompt: 'first', imageUrl: 'data:image/png;base64,Zmlyc3Q=' },
+    { id: '2', text: 'Leo flies.', imagePrompt: 'middle-a' },
+    { id: '3', text: 'Leo lands.', imagePrompt: 'middle-b' },
+    { id: '4', text: 'Leo sleeps.', imagePrompt: 'last', imageUrl: 'data:image/png;base64,bGFzdA==' },
+  ],
+};
+
+const PENDING_GENERATION: PendingGeneration = {
+  profileForApi: {
+    name: 'Leo',
+    gender: 'boy',
+    skin_tone: 'light',
+    hair_color: 'brown',
+    eye_color: 'green',
+    favorite_color: 'blue',
+    art_style: 'Watercolor',
+  },
+  previewStory: PREVIEW_STORY,
+  previewStoryId: 42,
+};
+
+describe('generation job helpers', () => {
+  it('marks images the story already has as done', () => {
+    const job = createGenerationJob(PREVIEW_STORY);
+
+    expect(job.cover).toBe('queued');
+    expect(job.panels).toEqual({ 1: 'done', 2: 'queued', 3: 'queued', 4: 'done' });
+    expect(summarizeGenerationJob(job)).toEqual({
+      total: 5,
+      completed: 2,
+      failed: 0,
+      isRunning: true,
+    });
+  });
+
+  it('requeues only failed tasks', () => {
+    const job = requeueFailedTasks({
+      cover: 'done',
+      panels: { 1: 'done', 2: 'failed', 3: 'done' },
+    });
+
+    expect(job).toEqual({ cover: 'done', panels: { 1: 'done', 2: 'queued', 3: 'done' } });
+  });
+
+  it('projects generating tasks onto the panel isGenerating flag', () => {
+    const story = applyGenerationJob(PREVIEW_STORY, {
+      cover: 'generating',
+      panels: { 1: 'done', 2: 'generating', 3: 'queued', 4: 'done' },
+    });
+
+    expect(story.panels.map((panel) => panel.isGenerating)).toEqual([false, true, false, false]);
+  });
+});
+
+describe('generateFullStoryState', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdatePanelImage.mockResolvedValue(undefined);
+    mockUpdateStory.mockResolvedValue(undefined);
+  });
+
+  it('persists each finished panel and keeps them when another panel fails', async () => {
+    mockGeneratePanelImage.mockImplementation(async (_token: string, prompt: string) => {
+      if (prompt === 'middle-b') {
+        throw new Error('quota exceeded');
+      }
+      return 'data:image/png;base64,bmV3';
+    });
+    const onProgress = vi.fn();
+
+    const result = await generateFullStoryState('token', PENDING_GENERATION, { onProgress });
+
+    expect(result.isComplete).toBe(false);
+    expect(result.job.cover).toBe('done');
+    expect(result.job.panels).toEqual({ 1: 'done', 2: 'done', 3: 'failed', 4: 'done' });
+    expect(result.story.panels[1].imageUrl).toBe('data:image/png;base64,bmV3');
+    expect(result.story.panels[2].imageUrl).toBeUndefined();
+    expect(mockUpdatePanelImage).toHaveBeenCalledOnce();
+    expect(mockUpdatePanelImage).toHaveBeenCalledWith('token', 42, 1, 'bmV3');
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, expect.objectContaining({
+      is_unlocked: false,
+      cover_image_base64: 'bmV3',
+    }));
+    expect(mockUpdateStory).not.toHaveBeenCalledWith('token', 42, expect.objectContaining({ is_unlocked: true }));
+    expect(mockGetStory).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalled();
+  });
+
+  it('retries only the failed panels and unlocks the story once everything is done', async () => {
+    mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,cmV0cnk=');
+    mockGetStory.mockResolvedValue({
+      id: 42,
+      title: 'Moon Mission',
+      foreword: PREVIEW_STORY.foreword,
+      character_description: PREVIEW_STORY.characterDescription,
+      cover_image_prompt: PREVIEW_STORY.coverImagePrompt,
+      cover_image_url: 'cover.png',
+      visibility: 'private',
+      is_unlocked: true,
+      created_at: '2026-04-17T10:00:00Z',
+      updated_at: '2026-04-17T10:00:00Z',
+      profile: {},
+      panels: [],
+    });
+
+    const result = await generateFullStoryState('token', PENDING_GENERATION, {
+      job: { cover: 'done', panels: { 1: 'done', 2: 'done', 3: 'queued', 4: 'done' } },
+    });
+
+    expect(result.isComplete).toBe(true);
+    expect(mockGeneratePanelImage).toHaveBeenCalledOnce();
+    expect(mockGeneratePanelImage).toHaveBeenCalledWith(
+      'token',
+      'middle-b',
+      PREVIEW_STORY.characterDescription,
+      'Watercolor',
+      { signal: undefined },
+    );
+    expect(mockUpdatePanelImage).toHaveBeenCalledWith('token', 42, 2, 'cmV0cnk=');
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, expect.objectContaining({ is_unlocked: true }));
+    expect(result.story.coverImageUrl).toBe('cover.png');
+  });
+
+  it('keeps every saved image when only the unlock fails, and the locked draft resumes from Preview', async () => {
+    mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,c2F2ZWQ=');
+    mockUpdateStory.mockImplementation(async (_token: string, _id: number, update: { is_unlocked: boolean }) => {
+      if (update.is_unlocked) throw new Error('Failed to update story');
+    });
+    const onProgress = vi.fn();
+
+    await expect(generateFullStoryState('token', PENDING_GENERATION, { onProgress })).rejects.toThrow(
+      'Failed to update story',
+    );
+
+    const [{ job, story }] = onProgress.mock.calls.at(-1) ?? [];
+    expect(summarizeGenerationJob(job)).toEqual({ total: 5, completed: 5, failed: 0, isRunning: false });
+    expect(story.coverImageUrl).toBe('data:image/png;base64,c2F2ZWQ=');
+    expect(story.panels.every((panel: { imageUrl?: string }) => panel.imageUrl)).toBe(true);
+
+    mockGetStory.mockResolvedValue({
+      id: 42,
+      title: 'Moon Mission',
+      foreword: PREVIEW_STORY.foreword,
+      character_description: PREVIEW_STORY.characterDescription,
+      cover_image_prompt: PREVIEW_STORY.coverImagePrompt,
+      cover_image_url: 'cover.png',
+      visibility: 'private',
+      share_link: null,
+      is_unlocked: false,
+      created_at: '2026-04-17T10:00:00Z',
+      updated_at: '2026-04-17T10:00:00Z',
+      profile: { id: 1, name: 'Leo', gender: 'boy', skin_tone: 'light', hair_color: 'brown', eye_color: 'green',
+        favorite_color: 'blue', dream: null, archetype: null, art_style: 'Watercolor', language: 'en',
+        created_at: '2026-04-17T10:00:00Z' },
+      panels: PREVIEW_STORY.panels.map((panel, index) => ({
+        id: index + 1,
+        panel_order: index,
+        text: panel.text,
+        image_prompt: panel.imagePrompt,
+        image_url: `panel-${index}.png`,
+      })),
+      series: null,
+    });
+
+    const reloaded = await loadStoryState('token', 42);
+
+    expect(reloaded.nextView).toBe(StoryPageView.Preview);
+    expect(reloaded.nextPendingGeneration).not.toBeNull();
+    mockGeneratePanelImage.mockClear();
+    mockUpdateStory.mockResolvedValue(undefined);
+
+    const resumed = await generateFullStoryState('token', reloaded.nextPendingGeneration!);
+
+    expect(resumed.isComplete).toBe(true);
+    expect(mockGeneratePanelImage).not.toHaveBeenCalled();
+    expect(mockUpdateStory).toHaveBeenLastCalledWith('token', 42, expect.objectContaining({ is_unlocked: true }));
+  });
+
+  it('puts cancelled tasks back in the queue without marking them failed', async () => {
+    const controller = new AbortController();
+    mockGeneratePanelImage.mockImplementation(async (_token: string, prompt: string) => {
+      if (prompt === 'middle-b') {
+        controller.abort();
+        throw abortError();
+      }
+      return 'data:image/png;base64,ZG9uZQ==';
+    });
+
+    const result = await generateFullStoryState('token', PENDING_GENERATION, {
+      signal: controller.signal,
+    });
+
+    expect(result.isComplete).toBe(false);
+    expect(result.job).toEqual({ cover: 'done', panels: { 1: 'done', 2: 'done', 3: 'queued', 4: 'done' } });
+    expect(mockUpdatePanelImage).toHaveBeenCalledWith('token', 42, 1, 'ZG9uZQ==');
+    expect(mockUpdateStory).not.toHaveBeenCalledWith('token', 42, expect.objectContaining({ is_unlocked: true }));
+  });
+});
+
+describe('generatePreviewState', () => {
+  const wizardProfile = {
+    ...createEmptyKidProfile(),
+    name: 'Leo',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStreamStoryScript.mockResolvedValue({
+      title: PREVIEW_STORY.title,
+      foreword: PREVIEW_STORY.foreword,
+      characterDescription: PREVIEW_STORY.characterDescription,
+      coverImagePrompt: PREVIEW_STORY.coverImagePrompt,
+      panels: PREVIEW_STORY.panels.map(({ id, text, imagePrompt }) => ({ id, text, imagePrompt })),
+    });
+    mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,cHJldmlldw==');
+    mockDeleteStory.mockResolvedValue(undefined);
+  });
+
+  it('passes the signal to the script stream and preview images', async () => {
+    const controller = new AbortController();
+    mockSaveStory.mockResolvedValue(7);
+
+    await generatePreviewState('token', wizardProfile, {
+      onIntroDelta: vi.fn(),
+      signal: controller.signal,
+    });
+
+    expect(mockStreamStoryScript).toHaveBeenCalledWith('token', expect.anything(), expect.objectContaining({
+      signal: controller.signal,
+    }));
+    expect(mockGeneratePanelImage).toHaveBeenCalledWith(
+      'token',
+      'first',
+      PREVIEW_STORY.characterDescription,
+      'Classic Comic',
+      { signal: controller.signal },
+    );
+  });
+
+  it('saves the art style so a reloaded story paints its panels in it', async () => {
+    mockSaveStory.mockResolvedValue(7);
+
+    await generatePreviewState('token', { ...wizardProfile, artStyle: 'Watercolor' }, { onIntroDelta: vi.fn() });
+
+    const [, saved] = mockSaveStory.mock.calls[0];
+    expect(saved.profile).toEqual(expect.objectContaining({ art_style: 'Watercolor' }));
+    mockGetStory.mockResolvedValue({
+      id: 7,
+      title: saved.title,
+      foreword: saved.foreword,
+      character_description: saved.character_description,
+      cover_image_prompt: saved.cover_image_prompt,
+      cover_image_url: null,
+      visibility: 'private',
+      share_link: null,
+      is_unlocked: false,
+      created_at: '2026-04-17T10:00:00Z',
+      updated_at: '2026-04-17T10:00:00Z',
+      profile: { dream: null, archetype: null, ...saved.profile, id: 1, created_at: '2026-04-17T10:00:00Z' },
+      panels: saved.panels.map((panel: { panel_order: number; text: string; image_prompt: string }) => ({
+        id: panel.panel_order + 1,
+        panel_order: panel.panel_order,
+        text: panel.text,
+        image_prompt: panel.image_prompt,
+        image_url: null,
+      })),
+      series: null,
+    });
+
+    const reloaded = await loadStoryState('token', 7);
+
+    expect(reloaded.nextProfile.artStyle).toBe('Watercolor');
+    expect(reloaded.nextPendingGeneration?.profileForApi.art_style).toBe('Watercolor');
+  });
+
+  it('asks for the chosen length and reading level', async () => {
+    mockSaveStory.mockResolvedValue(7);
+
+    await generatePreviewState('token', { ...wizardProfile, storyLength: 4, readingLevel: 'early' }, {
+      onIntroDelta: vi.fn(),
+    });
+
+    expect(mockStreamStoryScript).toHaveBeenCalledWith('token', expect.objectContaining({
+      panel_count: 4,
+      reading_level: 'early',
+    }), expect.anything());
+  });
+
+  it('writes and saves a continued story as the next episode', async () => {
+    mockSaveStory.mockResolvedValue(8);
+
+    await generatePreviewState('token', wizardProfile, { onIntroDelta: vi.fn(), continuesStoryId: 7 });
+
+    expect(mockStreamStoryScript).toHaveBeenCalledWith('token', expect.anything(), expect.objectContaining({
+      continuesStoryId: 7,
+    }));
+    expect(mockSaveStory).toHaveBeenCalledWith('token', expect.objectContaining({ continues_story_id: 7 }));
+  });
+
+  it('sends every named cast member with their own photo', async () => {
+    mockSaveStory.mockResolvedValue(7);
+    let profile = addCastMember(addCastMember(wizardProfile, 'sibling'), 'pet');
+    const [sibling, pet] = profile.cast ?? [];
+    profile = updateCastMember(profile, sibling.id, { name: ' Max ', gender: 'boy' });
+    profile = updateCastMember(profile, pet.id, { name: '', photoUrl: 'data:image/png;base64,ZG9n' });
+    profile = addCastMember(profile, 'pet');
+    profile = updateCastMember(profile, profile.cast?.[2].id ?? '', {
+      name: 'Biscuit',
+      photoUrl: 'data:image/png;base64,YmlzY3VpdA==',
+    });
+
+    await generatePreviewState('token', profile, { onIntroDelta: vi.fn() });
+
+    const [, sentProfile] = mockStreamStoryScript.mock.calls[0];
+    expect(sentProfile.cast).toEqual([
+      expect.objectContaining({ name: 'Max', role: 'sibling', gender: 'boy', photo_base64: undefined }),
+      expect.objectContaining({
+        name: 'Biscuit',
+        role: 'pet',
+        gender: undefined,
+        skin_tone: undefined,
+        photo_base64: 'YmlzY3VpdA==',
+      }),
+    ]);
+  });
+
+  it('paints a one-panel story once and uses it as opening and ending', async () => {
+    mockSaveStory.mockResolvedValue(7);
+    mockStreamStoryScript.mockResolvedValue({
+      ...PREVIEW_STORY,
+      panels: [{ id: '1', text: 'Leo waves.', imagePrompt: 'only' }],
+    });
+
+    const state = await generatePreviewState('token', wizardProfile, { onIntroDelta: vi.fn() });
+
+    expect(mockGeneratePanelImage).toHaveBeenCalledTimes(1);
+    expect(state.nextPendingGeneration.previewStory.panels[0].imageUrl).toBe('data:image/png;base64,cHJldmlldw==');
+  });
+
+  it('deletes a draft that finished saving after the user cancelled', async () => {
+    const controller = new AbortController();
+    mockSaveStory.mockImplementation(async () => {
+      controller.abort();
+      return 7;
+    });
+
+    const error = await generatePreviewState('token', wizardProfile, {
+      onIntroDelta: vi.fn(),
+      signal: controller.signal,
+    }).catch((caught: unknown) => caught);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(mockDeleteStory).toHaveBeenCalledWith('token', 7);
+  });
+
+  it('does not save a draft once the stream has been cancelled', async () => {
+    const controller = new AbortController();
+    mockStreamStoryScript.mockImplementation(async () => {
+      controller.abort();
+      throw abortError();
+    });
+
+    const error = await generatePreviewState('token', wizardProfile, {
+      onIntroDelta: vi.fn(),
+      signal: controller.signal,
+    }).catch((caught: unknown) => caught);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(mockSaveStory).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadStoryContinuationState', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('keeps the hero and art style and asks for a new dream', async () => {
+    mockGetStory.mockResolvedValue({
+      title: 'Moon Mission',
+      series: { id: 3, episode_number: 2, previous_story_id: 3, next_story_id: null },
+      profile: {
+        id: 1,
+        name: 'Leo',
+        gender: 'boy',
+        skin_tone: 'light',
+        hair_color: 'brown',
+        eye_color: 'green',
+        favorite_color: 'blue',
+        dream: 'fly to the moon',
+        archetype: 'Space Explorer',
+        art_style: 'Watercolor',
+        language: 'fr',
+        created_at: '2026-01-01T00:00:00Z',
+      },
+    });
+
+    const { continuation, nextProfile } = await loadStoryContinuationState('token', 9);
+
+    expect(mockGetStory).toHaveBeenCalledWith('token', 9);
+    expect(continuation).toEqual({ storyId: 9, title: 'Moon Mission', nextEpisodeNumber: 3 });
+    expect(nextProfile).toEqual(expect.objectContaining({
+      name: 'Leo',
+      hairColor: 'brown',
+      archetype: 'Space Explorer',
+      artStyle: 'Watercolor',
+      language: 'fr',
+      dream: '',
+      cast: [],
+    }));
+  });
+});
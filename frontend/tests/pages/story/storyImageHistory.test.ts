@@ -0,0 +1,173 @@
+/**
+ * Tests for cover Magic Revision, panel redraws, and the image history
+ * workflows in `story.editor`: which endpoints they call and how results are mapped.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Story } from '@/types';
+import {
+  acceptStoryPanelImage,
+  editStoryCoverImage,
+  loadStoryCoverImageHistory,
+  loadStoryPanelImageHistory,
+  regenerateStoryPanelImage,
+  restoreStoryPanelImage,
+} from '@/pages/story/story.editor';
+
+const {
+  mockEditPanelImage,
+  mockGeneratePanelImage,
+  mockGetCoverImageVersions,
+  mockGetPanelImageVersions,
+  mockRestorePanelImageVersion,
+  mockUpdatePanelImage,
+  mockUpdateStory,
+} = vi.hoisted(() => ({
+  mockEditPanelImage: vi.fn(),
+  mockGeneratePanelImage: vi.fn(),
+  mockGetCoverImageVersions: vi.fn(),
+  mockGetPanelImageVersions: vi.fn(),
+  mockRestorePanelImageVersion: vi.fn(),
+  mockUpdatePanelImage: vi.fn(),
+  mockUpdateStory: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  editPanelImage: mockEditPanelImage,
+  generatePanelImage: mockGeneratePanelImage,
+  getCoverImageVersions: mockGetCoverImageVersions,
+  getPanelImageVersions: mockGetPanelImageVersions,
+  restoreCoverImageVersion: vi.fn(),
+  restorePanelImageVersion: mockRestorePanelImageVersion,
+  updatePanelImage: mockUpdatePanelImage,
+  updateStory: mockUpdateStory,
+}));
+
+const SAVED_STORY: Story = {
+  title: 'Moon Mission',
+  foreword: 'A brave little hero explores the stars.',
+  characterDescription: 'Leo with a shiny helmet.',
+  coverImagePrompt: 'Leo leaps toward a glowing moon.',
+  coverImageUrl: 'cover.png',
+  visibility: 'private',
+  panels: [
+    { id: '11', text: 'Leo waves.', imagePrompt: 'wave', imageUrl: 'a.png' },
+    { id: '12', text: 'Leo flies.', imagePrompt: 'fly', imageUrl: 'b.png' },
+  ],
+};
+
+describe('story image history workflows', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateStory.mockResolvedValue(undefined);
+  });
+
+  it('revises the saved cover and persists it without touching panels', async () => {
+    mockEditPanelImage.mockResolvedValue('data:image/png;base64,new-cover');
+
+    const coverImageUrl = await editStoryCoverImage({
+      accessToken: 'token',
+      artStyle: 'watercolor',
+      editPrompt: 'Add a rainbow',
+      savedStoryId: 42,
+      story: SAVED_STORY,
+    });
+
+    expect(coverImageUrl).toBe('data:image/png;base64,new-cover');
+    expect(mockEditPanelImage).toHaveBeenCalledWith(
+      'token',
+      'cover.png',
+      'Add a rainbow',
+      'Leo leaps toward a glowing moon.',
+      'Leo with a shiny helmet.',
+      'watercolor',
+    );
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, {
+      is_unlocked: true,
+      cover_image_base64: 'data:image/png;base64,new-cover',
+      panels: [],
+    });
+  });
+
+  it('looks up panel history by the panel position in the saved story', async () => {
+    mockGetPanelImageVersions.mockResolvedValue([
+      { id: 7, image_url: 'panel_old.png', created_at: '2026-01-02 10:00:00' },
+    ]);
+
+    const versions = await loadStoryPanelImageHistory('token', 42, SAVED_STORY, SAVED_STORY.panels[1]);
+
+    expect(mockGetPanelImageVersions).toHaveBeenCalledWith('token', 42, 1);
+    expect(versions).toEqual([{ id: 7, imageUrl: 'panel_old.png', createdAt: '2026-01-02 10:00:00' }]);
+  });
+
+  it('returns the panel with the restored image', async () => {
+    mockRestorePanelImageVersion.mockResolvedValue('panel_old.png');
+
+    const restoredPanel = await restoreStoryPanelImage('token', 42, SAVED_STORY, SAVED_STORY.panels[0], 7);
+
+    expect(mockRestorePanelImageVersion).toHaveBeenCalledWith('token', 42, 0, 7);
+    expect(restoredPanel).toEqual({ ...SAVED_STORY.panels[0], imageUrl: 'panel_old.png' });
+  });
+
+  it('rejects panels that are not part of the saved story', async () => {
+    await expect(loadStoryPanelImageHistory('token', 42, SAVED_STORY, {
+      id: 'draft-1',
+      text: 'New page',
+      imagePrompt: '',
+    })).rejects.toThrow('Panel is not part of this story');
+    expect(mockGetPanelImageVersions).not.toHaveBeenCalled();
+  });
+
+  it('maps cover history from the API', async () => {
+    mockGetCoverImageVersions.mockResolvedValue([]);
+
+    await expect(loadStoryCoverImageHistory('token', 42)).resolves.toEqual([]);
+    expect(mockGetCoverImageVersions).toHaveBeenCalledWith('token', 42);
+  });
+
+  it('paints a redraw candidate from the rewritten prompt without saving it', async () => {
+    mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,candidate');
+
+    const candidate = await regenerateStoryPanelImage({
+      accessToken: 'token',
+      artStyle: 'watercolor',
+      imagePrompt: 'Leo waves from a rocket window',
+      story: SAVED_STORY,
+    });
+
+    expect(candidate).toBe('data:image/png;base64,candidate');
+    expect(mockGeneratePanelImage).toHaveBeenCalledWith(
+      'token',
+      'Leo waves from a rocket window',
+      'Leo with a shiny helmet.',
+      'watercolor',
+    );
+    expect(mockUpdatePanelImage).not.toHaveBeenCalled();
+  });
+
+  it('persists an accepted redraw together with its prompt', async () => {
+    mockUpdatePanelImage.mockResolvedValue(undefined);
+
+    const updatedPanel = await acceptStoryPanelImage({
+      accessToken: 'token',
+      imagePrompt: 'Leo flies past Saturn',
+      imageUrl: 'data:image/png;base64,candidate',
+      panel: SAVED_STORY.panels[1],
+      savedStoryId: 42,
+      story: SAVED_STORY,
+    });
+
+    expect(mockUpdatePanelImage).toHaveBeenCalledWith(
+      'token',
+      42,
+      1,
+      'data:image/png;base64,candidate',
+      'Leo flies past Saturn',
+    );
+    expect(updatedPanel).toEqual({
+      ...SAVED_STORY.panels[1],
+      imagePrompt: 'Leo flies past Saturn',
+      imageUrl: 'data:image/png;base64,candidate',
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for owner panel editing: the pure draft helpers and the request that
+ * saves an edited layout through `updateStory`.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Story } from '@/types';
+import { saveStoryPanelLayout } from '@/pages/story/story.editor';
+import {
+  hasPanelLayoutChanges,
+  insertPanelAfter,
+  movePanel,
+  removePanelAt,
+  updatePanelText,
+} from '@/pages/story/story.helpers';
+
+const { mockUpdateStory } = vi.hoisted(() => ({
+  mockUpdateStory: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  editPanelImage: vi.fn(),
+  updatePanelImage: vi.fn(),
+  updateStory: mockUpdateStory,
+}));
+
+const SAVED_STORY: Story = {
+  title: 'Moon Mission',
+  foreword: 'A brave little hero explores the stars.',
+  characterDescription: 'Leo with a shiny helmet.',
+  coverImagePrompt: 'Leo leaps toward a glowing moon.',
+  coverImageUrl: 'cover.png',
+  visibility: 'private',
+  panels: [
+    { id: '11', text: 'Leo waves.', imagePrompt: 'wave', imageUrl: 'a.png' },
+    { id: '12', text: 'Leo flies.', imagePrompt: 'fly', imageUrl: 'b.png' },
+    { id: '13', text: 'Leo lands.', imagePrompt: 'land', imageUrl: 'c.png' },
+  ],
+};
+
+describe('panel draft helpers', () => {
+  it('moves a panel to a new position', () => {
+    const moved = movePanel(SAVED_STORY.panels, 2, 0);
+
+    expect(moved.map((panel) => panel.id)).toEqual(['13', '11', '12']);
+    expect(hasPanelLayoutChanges(SAVED_STORY.panels, moved)).toBe(true);
+  });
+
+  it('inserts an empty draft panel after the given index and removes panels', () => {
+    const inserted = insertPanelAfter(SAVED_STORY.panels, 0);
+
+    expect(inserted).toHaveLength(4);
+    expect(inserted[1]).toMatchObject({ text: '', imagePrompt: '' });
+    expect(inserted[1].id).toMatch(/^draft-/);
+    expect(removePanelAt(inserted, 1)).toEqual(SAVED_STORY.panels);
+  });
+
+  it('only reports changes when captions or layout differ', () => {
+    expect(hasPanelLayoutChanges(SAVED_STORY.panels, [...SAVED_STORY.panels])).toBe(false);
+    expect(hasPanelLayoutChanges(
+      SAVED_STORY.panels,
+      updatePanelText(SAVED_STORY.panels, 1, 'Leo soars.'),
+    )).toBe(true);
+  });
+});
+
+describe('saveStoryPanelLayout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateStory.mockResolvedValue(undefined);
+  });
+
+  it('sends the full layout with source positions for existing panels', async () => {
+    const draft = insertPanelAfter(
+      updatePanelText(movePanel(SAVED_STORY.panels, 2, 0), 0, '  Leo lands softly. '),
+      0,
+    );
+    draft[1] = { ...draft[1], text: 'A comet zooms by.' };
+
+    await saveStoryPanelLayout({
+      accessToken: 'token',
+      panels: removePanelAt(draft, 3),
+      savedStory: SAVED_STORY,
+      savedStoryId: 42,
+    });
+
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, {
+      is_unlocked: false,
+      replace_panels: true,
+      panels: [
+        { panel_order: 0, text: 'Leo lands softly.', image_prompt: 'land', source_panel_order: 2 },
+        { panel_order: 1, text: 'A comet zooms by.', image_prompt: 'A comet zooms by.', source_panel_order: undefined },
+        { panel_order: 2, text: 'Leo waves.', image_prompt: 'wave', source_panel_order: 0 },
+      ],
+    });
+  });
+
+  it('keeps the story unlocked when every panel still has an image', async () => {
+    await saveStoryPanelLayout({
+      accessToken: 'token',
+      panels: removePanelAt(SAVED_STORY.panels, 1),
+      savedStory: SAVED_STORY,
+      savedStoryId: 42,
+    });
+
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, expect.objectContaining({ is_unlocked: true }));
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for remixing a saved story into a new draft.
+ *
+ * The @api barrel is mocked so we can assert when the script is rewritten,
+ * what the copy is created with, and that an unfinished copy is discarded.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GeneratedStoryScript, StoryDetailResponse } from '@api';
+import type { KidProfile } from '@/types';
+import { buildRemixInstruction, generateRemixState } from '@/pages/story/story.remix';
+import type { StoryRemix } from '@/pages/story/story.types';
+
+const {
+  mockDeleteStory,
+  mockGeneratePanelImage,
+  mockRemixStory,
+  mockReviseStoryScript,
+  mockUpdateStory,
+} = vi.hoisted(() => ({
+  mockDeleteStory: vi.fn(),
+  mockGeneratePanelImage: vi.fn(),
+  mockRemixStory: vi.fn(),
+  mockReviseStoryScript: vi.fn(),
+  mockUpdateStory: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  deleteStory: mockDeleteStory,
+  generatePanelImage: mockGeneratePanelImage,
+  getStory: vi.fn(),
+  remixStory: mockRemixStory,
+  reviseStoryScript: mockReviseStoryScript,
+  updateStory: mockUpdateStory,
+}));
+
+const MIA: KidProfile = {
+  name: 'Mia',
+  gender: 'girl',
+  skinTone: 'Honey',
+  hairColor: 'Brown',
+  eyeColor: 'Green',
+  favoriteColor: 'Teal',
+  dream: '',
+  artStyle: 'Classic Comic',
+  language: 'en',
+};
+
+const REMIX: StoryRemix = {
+  storyId: 7,
+  title: 'Moon Trip',
+  sourceProfile: MIA,
+  keepImages: false,
+};
+
+const DRAFT: StoryDetailResponse = {
+  id: 12,
+  title: 'Moon Trip',
+  foreword: 'Mia visits the moon.',
+  character_description: 'Mia in a silver suit.',
+  cover_image_prompt: 'Mia on the moon.',
+  cover_image_url: null,
+  visibility: 'private',
+  share_link: null,
+  is_unlocked: false,
+  created_at: '2026-05-08T10:00:00Z',
+  updated_at: '2026-05-08T10:00:00Z',
+  profile: {
+    id: 3,
+    name: 'Mia',
+    gender: 'girl',
+    skin_tone: 'Honey',
+    hair_color: 'Brown',
+    eye_color: 'Green',
+    favorite_color: 'Teal',
+    dream: null,
+    archetype: null,
+    art_style: 'Watercolor',
+    language: 'en',
+    created_at: '2026-05-08T10:00:00Z',
+  },
+  panels: [
+    { id: 31, panel_order: 0, text: 'Mia blasts off.', image_prompt: 'rocket', image_url: null },
+    { id: 32, panel_order: 1, text: 'Mia lands.', image_prompt: 'landing', image_url: null },
+  ],
+  series: null,
+};
+
+const onIntroDelta = vi.fn();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  mockRemixStory.mockResolvedValue(DRAFT);
+  mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,bmV3');
+  mockUpdateStory.mockResolvedValue(undefined);
+  mockDeleteStory.mockResolvedValue(undefined);
+});
+
+describe('buildRemixInstruction', () => {
+  it('needs no rewrite when only the art style changes', () => {
+    expect(buildRemixInstruction(MIA, { ...MIA, artStyle: 'Watercolor' })).toBeNull();
+  });
+
+  it('asks for the new hero and the new language', () => {
+    const instruction = buildRemixInstruction(MIA, { ...MIA, name: 'Leo', gender: 'boy', language: 'fr' });
+
+    expect(instruction).toContain('Keep the same plot');
+    expect(instruction).toContain('new hero: Leo, a boy with Honey skin, Brown hair and Green eyes');
+    expect(instruction).toContain('Translate all story text into Français');
+  });
+});
+
+describe('generateRemixState', () => {
+  it('copies the story and paints the preview scenes without a rewrite', async () => {
+    const { nextPendingGeneration } = await generateRemixState(
+      'token',
+      REMIX,
+      { ...MIA, artStyle: 'Watercolor' },
+      { onIntroDelta },
+    );
+
+    expect(mockRemixStory).toHaveBeenCalledWith('token', 7, {
+      profile: expect.objectContaining({ name: 'Mia', art_style: 'Watercolor', language: 'en' }),
+      keep_images: false,
+    });
+    expect(mockReviseStoryScript).not.toHaveBeenCalled();
+    expect(onIntroDelta).toHaveBeenCalledWith('title', 'Moon Trip');
+    expect(mockGeneratePanelImage).toHaveBeenCalledTimes(2);
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 12, expect.objectContaining({ is_unlocked: false }));
+    expect(nextPendingGeneration.previewStoryId).toBe(12);
+    expect(nextPendingGeneration.profileForApi.art_style).toBe('Watercolor');
+    expect(nextPendingGeneration.previewStory.panels.map((panel) => panel.imageUrl)).toEqual([
+      'data:image/png;base64,bmV3',
+      'data:image/png;base64,bmV3',
+    ]);
+  });
+
+  it('rewrites the script for a new language before painting', async () => {
+    const translated: GeneratedStoryScript = {
+      title: 'Voyage sur la Lune',
+      foreword: 'Mia visite la Lune.',
+      characterDescription: 'Mia in a silver suit.',
+      coverImagePrompt: 'Mia on the moon.',
+      panels: [
+        { id: '1', text: 'Mia décolle.', imagePrompt: 'rocket' },
+        { id: '2', text: 'Mia atterrit.', imagePrompt: 'landing' },
+      ],
+    };
+    mockReviseStoryScript.mockResolvedValue(translated);
+
+    const { nextPendingGeneration } = await generateRemixState(
+      'token',
+      REMIX,
+      { ...MIA, language: 'fr' },
+      { onIntroDelta },
+    );
+
+    expect(mockReviseStoryScript).toHaveBeenCalledWith(
+      'token',
+      expect.objectContaining({ title: 'Moon Trip' }),
+      expect.stringContaining('Français'),
+      expect.objectContaining({ language: 'fr' }),
+    );
+    expect(nextPendingGeneration.previewStory.title).toBe('Voyage sur la Lune');
+    expect(nextPendingGeneration.previewStory.panels.map((panel) => panel.text)).toEqual([
+      'Mia décolle.',
+      'Mia atterrit.',
+    ]);
+  });
+
+  it('discards the copy when the remix fails', async () => {
+    mockReviseStoryScript.mockRejectedValue(new Error('stream failed'));
+
+    await expect(generateRemixState('token', REMIX, { ...MIA, name: 'Leo' }, { onIntroDelta }))
+      .rejects.toThrow('stream failed');
+
+    expect(mockDeleteStory).toHaveBeenCalledWith('token', 12);
+    expect(mockUpdateStory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for applying a whole-script rewrite to a preview draft.
+ *
+ * The @api barrel is mocked so we can assert which images are kept, which
+ * preview scenes are repainted, and what is sent back to the saved draft.
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { GeneratedStoryScript } from '@api';
+import type { Story } from '@/types';
+import { applyScriptRevision, buildRevisedStory } from '@/pages/story/story.revision';
+import type { PendingGeneration } from '@/pages/story/story.types';
+
+const {
+  mockGeneratePanelImage,
+  mockReviseStoryScript,
+  mockUpdateStory,
+} = vi.hoisted(() => ({
+  mockGeneratePanelImage: vi.fn(),
+  mockReviseStoryScript: vi.fn(),
+  mockUpdateStory: vi.fn(),
+}));
+
+vi.mock('@api', () => ({
+  generatePanelImage: mockGeneratePanelImage,
+  reviseStoryScript: mockReviseStoryScript,
+  updateStory: mockUpdateStory,
+}));
+
+const PREVIEW_STORY: Story = {
+  title: 'Moon Mission',
+  foreword: 'A brave little hero explores the stars.',
+  characterDescription: 'Leo with a shiny helmet.',
+  coverImagePrompt: 'Leo leaps toward a glowing moon.',
+  visibility: 'private',
+  panels: [
+    { id: 'a', text: 'Leo waves.', imagePrompt: 'first', imageUrl: 'data:image/png;base64,Zmlyc3Q=' },
+    { id: 'b', text: 'Leo flies.', imagePrompt: 'middle' },
+    { id: 'c', text: 'Leo sleeps.', imagePrompt: 'last', imageUrl: 'data:image/png;base64,bGFzdA==' },
+  ],
+};
+
+const PENDING_GENERATION: PendingGeneration = {
+  profileForApi: {
+    name: 'Leo',
+    gender: 'boy',
+    skin_tone: 'light',
+    hair_color: 'brown',
+    eye_color: 'green',
+    favorite_color: 'blue',
+    art_style: 'Watercolor',
+  },
+  previewStory: PREVIEW_STORY,
+  previewStoryId: 42,
+};
+
+function script(panels: GeneratedStoryScript['panels']): GeneratedStoryScript {
+  return {
+    title: 'Moon Mission with Pip',
+    foreword: 'Leo and his dog explore the stars.',
+    characterDescription: 'Leo with a shiny helmet and Pip the dog.',
+    coverImagePrompt: 'Leo and Pip leap toward a glowing moon.',
+    panels,
+  };
+}
+
+describe('buildRevisedStory', () => {
+  it('keeps panels whose image prompt survived, even when they moved', () => {
+    const story = buildRevisedStory(PREVIEW_STORY, script([
+      { id: '1', text: 'Leo sleeps first.', imagePrompt: 'last' },
+      { id: '2', text: 'Pip barks.', imagePrompt: 'pip' },
+    ]));
+
+    expect(story.title).toBe('Moon Mission with Pip');
+    expect(story.panels[0]).toMatchObject({
+      id: 'c',
+      text: 'Leo sleeps first.',
+      imageUrl: 'data:image/png;base64,bGFzdA==',
+    });
+    expect(story.panels[1]).toMatchObject({ text: 'Pip barks.', imagePrompt: 'pip' });
+    expect(story.panels[1].imageUrl).toBeUndefined();
+    expect(['a', 'b', 'c']).not.toContain(story.panels[1].id);
+  });
+});
+
+describe('applyScriptRevision', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGeneratePanelImage.mockResolvedValue('data:image/png;base64,bmV3');
+    mockUpdateStory.mockResolvedValue(undefined);
+  });
+
+  it('repaints a changed last scene and saves the rewrite over the draft', async () => {
+    const next = await applyScriptRevision('token', PENDING_GENERATION, script([
+      { id: '1', text: 'Leo and Pip wave.', imagePrompt: 'first' },
+      { id: '2', text: 'Pip naps.', imagePrompt: 'pip-nap' },
+    ]));
+
+    expect(mockGeneratePanelImage).toHaveBeenCalledTimes(1);
+    expect(mockGeneratePanelImage).toHaveBeenCalledWith(
+      'token',
+      'pip-nap',
+      'Leo with a shiny helmet and Pip the dog.',
+      'Watercolor',
+      { signal: undefined },
+    );
+    expect(mockUpdateStory).toHaveBeenCalledWith('token', 42, expect.objectContaining({
+      is_unlocked: false,
+      replace_panels: true,
+      title: 'Moon Mission with Pip',
+      cover_image_prompt: 'Leo and Pip leap toward a glowing moon.',
+      panels: [
+        {
+          panel_order: 0,
+          text: 'Leo and Pip wave.',
+          image_prompt: 'first',
+          source_panel_order: 0,
+          image_base64: undefined,
+        },
+        {
+          panel_order: 1,
+          text: 'Pip naps.',
+          image_prompt: 'pip-nap',
+          source_panel_order: undefined,
+          image_base64: 'bmV3',
+        },
+      ],
+    }));
+    expect(next.previewStory.panels.map((panel) => panel.imageUrl)).toEqual([
+      'data:image/png;base64,Zmlyc3Q=',
+      'data:image/png;base64,bmV3',
+    ]);
+  });
+
+  it('refuses a rewrite without panels', async () => {
+    await expect(applyScriptRevision('token', PENDING_GENERATION, script([]))).rejects.toThrow();
+    expect(mockUpdateStory).not.toHaveBeenCalled();
+  });
+});
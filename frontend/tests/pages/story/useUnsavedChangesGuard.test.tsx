@@ -0,0 +1,80 @@
+import '@testing-library/jest-dom/vitest';
+import { act, render } from '@testing-library/react';
+import { createMemoryRouter, RouterProvider } from 'react-router-dom';
+import { describe, expect, it, vi } from 'vitest';
+
+import { useUnsavedChangesGuard } from '@/pages/story/useUnsavedChangesGuard';
+
+const MESSAGE = 'You have unsaved changes. Leave anyway?';
+
+function Editor({ isDirty }: { isDirty: boolean }): JSX.Element {
+  useUnsavedChangesGuard(isDirty, MESSAGE);
+  return <p>editor</p>;
+}
+
+function answerConfirm(answer: boolean) {
+  const confirm = vi.fn(() => answer);
+  Object.defineProperty(window, 'confirm', { configurable: true, value: confirm });
+  return confirm;
+}
+
+function renderEditor(isDirty: boolean) {
+  const router = createMemoryRouter(
+    [
+      { path: '/gallery', element: <p>gallery</p> },
+      { path: '/story/:id', element: <Editor isDirty={isDirty} /> },
+    ],
+    { initialEntries: ['/gallery', '/story/7'], initialIndex: 1 },
+  );
+  render(<RouterProvider router={router} />);
+  return router;
+}
+
+describe('useUnsavedChangesGuard', () => {
+  it('asks before the Back button leaves unsaved edits, and stays when the reader cancels', async () => {
+    const confirm = answerConfirm(false);
+    const router = renderEditor(true);
+
+    await act(async () => {
+      await router.navigate(-1);
+    });
+
+    expect(confirm).toHaveBeenCalledWith(MESSAGE);
+    expect(router.state.location.pathname).toBe('/story/7');
+  });
+
+  it('goes back once the reader confirms', async () => {
+    answerConfirm(true);
+    const router = renderEditor(true);
+
+    await act(async () => {
+      await router.navigate(-1);
+    });
+
+    expect(router.state.location.pathname).toBe('/gallery');
+  });
+
+  it('asks before a programmatic navigation too', async () => {
+    const confirm = answerConfirm(false);
+    const router = renderEditor(true);
+
+    await act(async () => {
+      await router.navigate('/gallery');
+    });
+
+    expect(confirm).toHaveBeenCalledWith(MESSAGE);
+    expect(router.state.location.pathname).toBe('/story/7');
+  });
+
+  it('lets clean pages go without asking', async () => {
+    const confirm = answerConfirm(true);
+    const router = renderEditor(false);
+
+    await act(async () => {
+      await router.navigate(-1);
+    });
+
+    expect(confirm).not.toHaveBeenCalled();
+    expect(router.state.location.pathname).toBe('/gallery');
+  });
+});
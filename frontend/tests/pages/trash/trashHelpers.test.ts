@@ -0,0 +1,23 @@
+/**
+ * Tests for the days-left countdown shown on trashed stories.
+ */
+import { describe, expect, it } from 'vitest';
+
+import { getDaysUntilPurge } from '@/pages/trash/trash.helpers';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+describe('getDaysUntilPurge', () => {
+  it('counts whole days left, rounding a partial day up', () => {
+    expect(getDaysUntilPurge('2026-07-01T12:00:00Z', NOW)).toBe(30);
+    expect(getDaysUntilPurge('2026-06-02T00:00:00Z', NOW)).toBe(1);
+  });
+
+  it('reads server timestamps without a zone as UTC', () => {
+    expect(getDaysUntilPurge('2026-06-03 12:00:00', NOW)).toBe(2);
+  });
+
+  it('never goes below zero once the story is due', () => {
+    expect(getDaysUntilPurge('2026-05-30T12:00:00Z', NOW)).toBe(0);
+  });
+});
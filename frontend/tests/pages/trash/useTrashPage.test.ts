@@ -0,0 +1,156 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { TrashedStoryItem } from '@api';
+import { useTrashPage } from '@/pages/trash/useTrashPage';
+
+const {
+  mockUseAuth,
+  mockListTrashedStories,
+  mockRestoreStory,
+  mockDeleteStory,
+  mockToastError,
+  mockToastSuccess,
+  mockT,
+} = vi.hoisted(() => ({
+  mockUseAuth: vi.fn(),
+  mockListTrashedStories: vi.fn(),
+  mockRestoreStory: vi.fn(),
+  mockDeleteStory: vi.fn(),
+  mockToastError: vi.fn(),
+  mockToastSuccess: vi.fn(),
+  mockT: (key: string) => key,
+}));
+
+vi.mock('@/app/auth', () => ({
+  useAuth: mockUseAuth,
+}));
+
+vi.mock('@api', () => ({
+  deleteStory: mockDeleteStory,
+  listTrashedStories: mockListTrashedStories,
+  restoreStory: mockRestoreStory,
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: mockToastError,
+    success: mockToastSuccess,
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: mockT,
+  }),
+}));
+
+function makeTrashedStory(id: number, title: string): TrashedStoryItem {
+  return {
+    id,
+    title,
+    cover_image_url: null,
+    visibility: 'private',
+    share_link: null,
+    is_unlocked: true,
+    created_at: '2026-05-08T10:00:00Z',
+    profile: {
+      id,
+      name: 'Mia',
+      gender: 'girl',
+      skin_tone: 'Honey',
+      hair_color: 'Brown',
+      eye_color: 'Green',
+      favorite_color: 'Teal',
+      dream: null,
+      archetype: null,
+      art_style: null,
+      language: 'en',
+      created_at: '2026-05-08T10:00:00Z',
+    },
+    series_id: null,
+    episode_number: null,
+    deleted_at: '2026-06-01T10:00:00',
+    purge_at: '2026-07-01T10:00:00',
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  Object.defineProperty(window, 'confirm', {
+    configurable: true,
+    value: vi.fn(() => true),
+  });
+  mockUseAuth.mockReturnValue({ accessToken: 'token' });
+  mockListTrashedStories.mockResolvedValue([makeTrashedStory(1, 'Moon Trip'), makeTrashedStory(2, 'Sleepy Dragon')]);
+});
+
+async function renderLoaded() {
+  const rendered = renderHook(() => useTrashPage());
+  await waitFor(() => {
+    expect(rendered.result.current.isLoading).toBe(false);
+  });
+  return rendered;
+}
+
+describe('useTrashPage', () => {
+  it('loads the trashed stories', async () => {
+    const { result } = await renderLoaded();
+
+    expect(mockListTrashedStories).toHaveBeenCalledWith('token');
+    expect(result.current.stories.map((story) => story.id)).toEqual([1, 2]);
+  });
+
+  it('restores a story and drops it from the trash', async () => {
+    mockRestoreStory.mockResolvedValue({});
+    const { result } = await renderLoaded();
+
+    await act(async () => {
+      await result.current.onRestore(1);
+    });
+
+    expect(mockRestoreStory).toHaveBeenCalledWith('token', 1);
+    expect(result.current.stories.map((story) => story.id)).toEqual([2]);
+    expect(mockToastSuccess).toHaveBeenCalledWith('trashPage.notifications.restored');
+    expect(result.current.pendingStoryId).toBeNull();
+  });
+
+  it('keeps the story when restoring fails', async () => {
+    mockRestoreStory.mockRejectedValue(new Error('nope'));
+    const { result } = await renderLoaded();
+
+    await act(async () => {
+      await result.current.onRestore(1);
+    });
+
+    expect(result.current.stories).toHaveLength(2);
+    expect(mockToastError).toHaveBeenCalledWith('trashPage.notifications.restoreFailed');
+  });
+
+  it('deletes a story forever after confirming', async () => {
+    mockDeleteStory.mockResolvedValue(undefined);
+    const { result } = await renderLoaded();
+
+    await act(async () => {
+      await result.current.onDeleteForever(2);
+    });
+
+    expect(window.confirm).toHaveBeenCalledWith('trashPage.confirmDeleteForever');
+    expect(mockDeleteStory).toHaveBeenCalledWith('token', 2);
+    expect(result.current.stories.map((story) => story.id)).toEqual([1]);
+    expect(mockToastSuccess).toHaveBeenCalledWith('trashPage.notifications.deleted');
+  });
+
+  it('does nothing when deleting forever is not confirmed', async () => {
+    vi.mocked(window.confirm).mockReturnValue(false);
+    const { result } = await renderLoaded();
+
+    await act(async () => {
+      await result.current.onDeleteForever(2);
+    });
+
+    expect(mockDeleteStory).not.toHaveBeenCalled();
+    expect(result.current.stories).toHaveLength(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { apiFetch, logout, setAuthSessionHandler } from '@api';
+
+function jsonResponse(status: number): Response {
+  return new Response(JSON.stringify({ detail: status === 401 ? 'Could not validate credentials' : 'ok' }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const refreshAccessToken = vi.fn();
+const onSessionExpired = vi.fn();
+
+beforeEach(() => {
+  setAuthSessionHandler({ refreshAccessToken, onSessionExpired });
+});
+
+afterEach(() => {
+  setAuthSessionHandler(null);
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('apiFetch 401 handling', () => {
+  it('renews the token once and replays the request with it', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(jsonResponse(401))
+      .mockResolvedValueOnce(jsonResponse(200));
+    refreshAccessToken.mockResolvedValue('fresh-token');
+
+    const response = await apiFetch('/api/stories', { headers: { Authorization: 'Bearer stale-token' } });
+
+    expect(response.status).toBe(200);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      '/api/stories',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer fresh-token' }),
+      }),
+    );
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('runs the session-expired flow when the session cannot be renewed', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+    refreshAccessToken.mockResolvedValue(null);
+
+    const response = await apiFetch('/api/stories', { headers: { Authorization: 'Bearer stale-token' } });
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the session-expired flow when the replayed request is still rejected', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+    refreshAccessToken.mockResolvedValue('fresh-token');
+
+    const response = await apiFetch('/api/stories', { headers: { Authorization: 'Bearer stale-token' } });
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the original 401 when renewal fails for another reason', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+    refreshAccessToken.mockRejectedValue(new Error('Backend unavailable'));
+
+    const response = await apiFetch('/api/stories', { headers: { Authorization: 'Bearer stale-token' } });
+
+    expect(response.status).toBe(401);
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('leaves requests without a bearer token alone', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+
+    const response = await apiFetch('/api/auth/login', { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(401);
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('does not renew a rejected logout, which would spend the refresh token it revokes', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+
+    await expect(logout('expired-token', 'refresh-token')).rejects.toThrow('Could not validate credentials');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+    expect(onSessionExpired).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * apiFetch with cookie sessions switched on: the browser carries the session,
+ * bearer headers are dropped and writes send the CSRF token.
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { API_BASE, apiFetch, logout, setAuthSessionHandler, setCsrfToken } from '@api';
+
+vi.mock('@/utils/runtimeConfig', () => ({
+  AUTH_COOKIE_SESSIONS: true,
+  BACKEND_BASE_URL: '',
+}));
+
+const refreshAccessToken = vi.fn();
+const onSessionExpired = vi.fn();
+
+function jsonResponse(status: number): Response {
+  return new Response('{}', { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+beforeEach(() => {
+  setCsrfToken('csrf-123');
+  setAuthSessionHandler({ refreshAccessToken, onSessionExpired });
+});
+
+afterEach(() => {
+  setCsrfToken(null);
+  setAuthSessionHandler(null);
+  vi.restoreAllMocks();
+  vi.clearAllMocks();
+});
+
+describe('apiFetch with cookie sessions', () => {
+  it('sends credentials instead of the bearer token on reads', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(200));
+
+    await apiFetch(`${API_BASE}/stories`, { headers: { Authorization: 'Bearer cookie-session' } });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init?.credentials).toBe('include');
+    expect(init?.headers).toEqual({ 'Content-Type': 'application/json', 'X-Auth-Session': 'cookie' });
+  });
+
+  it('adds the CSRF token to writes', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(200));
+
+    await apiFetch(`${API_BASE}/stories/7`, { method: 'DELETE' });
+
+    expect(fetchMock.mock.calls[0][1]?.headers).toEqual(
+      expect.objectContaining({ 'X-CSRF-Token': 'csrf-123' }),
+    );
+  });
+
+  it('renews the cookies and replays a rejected request', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(jsonResponse(401))
+      .mockResolvedValueOnce(jsonResponse(200));
+    refreshAccessToken.mockResolvedValue('cookie-session');
+
+    const response = await apiFetch(`${API_BASE}/stories`);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1]?.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('leaves rejected sign-ins to the auth pages', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(401));
+
+    const response = await apiFetch(`${API_BASE}/auth/login`, { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(401);
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('logs out after the access cookie expired without renewing first', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(jsonResponse(200));
+
+    await expect(logout('cookie-session')).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${API_BASE}/auth/logout`);
+    expect(init?.credentials).toBe('include');
+    expect(init?.headers).toEqual(expect.objectContaining({ 'X-CSRF-Token': 'csrf-123' }));
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('renews and replays auth requests that need the session', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(jsonResponse(401))
+      .mockResolvedValueOnce(jsonResponse(202));
+    refreshAccessToken.mockResolvedValue('cookie-session');
+
+    const response = await apiFetch(`${API_BASE}/auth/verify-email/resend`, { method: 'POST' });
+
+    expect(response.status).toBe(202);
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -12,11 +12,15 @@ import {
   logout,
   searchUsers,
   removeFriend,
+  requestPasswordReset,
+  resendVerificationEmail,
+  resetPassword,
   sendFriendRequest,
   signup,
   startGoogleOAuth,
   updateMe,
   uploadAvatar,
+  verifyEmail,
 } from '@api';
 
 afterEach(() => {
@@ -29,6 +33,7 @@ const USER_RESPONSE = {
   username: 'alice',
   avatar_url: 'avatars/alice.png',
   is_online: true,
+  email_verified: true,
   created_at: '2026-04-15T12:00:00Z',
 };
 
@@ -681,3 +686,77 @@ describe('exchangeOAuthCode', () => {
     await expect(exchangeOAuthCode('')).rejects.toThrow('body.code: field required');
   });
 });
+
+describe('account emails', () => {
+  it('requestPasswordReset posts the email without a bearer token', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ message: 'If an account uses this email, a reset link is on its way.' }), {
+        status: 202,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    await expect(requestPasswordReset('alice@example.com')).resolves.toBeUndefined();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/auth\/password-reset\/request$/);
+    expect(init?.method).toBe('POST');
+    expect(init?.body).toBe(JSON.stringify({ email: 'alice@example.com' }));
+    expect(init?.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('resetPassword sends the token and new password', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(resetPassword('reset-token', 'NewPassword456!')).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/api/auth/password-reset/confirm'),
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ token: 'reset-token', password: 'NewPassword456!' }),
+      })
+    );
+  });
+
+  it('resetPassword surfaces backend detail for a spent link', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ detail: 'Invalid or expired reset link' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    await expect(resetPassword('old-token', 'NewPassword456!')).rejects.toThrow('Invalid or expired reset link');
+  });
+
+  it('verifyEmail posts the token from the link', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(verifyEmail('verify-token')).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/api/auth/verify-email'),
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ token: 'verify-token' }) })
+    );
+  });
+
+  it('resendVerificationEmail sends the bearer token', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ message: 'Verification email sent' }), {
+        status: 202,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+
+    await expect(resendVerificationEmail('access-token')).resolves.toBeUndefined();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/api/auth/verify-email/resend'),
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer access-token' }),
+      })
+    );
+  });
+});
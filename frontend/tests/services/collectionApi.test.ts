@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { addStoryToCollection, createCollection, getFriendSharedCollection } from '@api';
+
+const BEDTIME = {
+  id: 7,
+  name: 'Bedtime',
+  visibility: 'private',
+  story_count: 1,
+  cover_image_url: null,
+  created_at: '2026-05-08T10:00:00Z',
+  updated_at: '2026-05-08T10:00:00Z',
+} as const;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function mockJsonFetch(body: unknown, status = 200): ReturnType<typeof vi.spyOn> {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  );
+}
+
+describe('collectionApi', () => {
+  it('creates a collection by name', async () => {
+    const fetchSpy = mockJsonFetch(BEDTIME);
+
+    const result = await createCollection('access-token', 'Bedtime');
+
+    expect(result).toEqual(BEDTIME);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/collections$/);
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(String(init?.body))).toEqual({ name: 'Bedtime' });
+  });
+
+  it('puts a story on a collection', async () => {
+    const fetchSpy = mockJsonFetch(BEDTIME);
+
+    await addStoryToCollection('access-token', 7, 12);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/collections\/7\/stories\/12$/);
+    expect(init?.method).toBe('PUT');
+  });
+
+  it('surfaces the duplicate-name conflict message', async () => {
+    mockJsonFetch({ detail: 'A collection with this name already exists' }, 409);
+
+    await expect(createCollection('access-token', 'bedtime')).rejects.toThrow(
+      'A collection with this name already exists',
+    );
+  });
+
+  it('loads a collection a friend shares', async () => {
+    const fetchSpy = mockJsonFetch({ ...BEDTIME, stories: [] });
+
+    const result = await getFriendSharedCollection('access-token', 3, 7);
+
+    expect(result.stories).toEqual([]);
+    expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/friends\/3\/collections\/7$/);
+  });
+});
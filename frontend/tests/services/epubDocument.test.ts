@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StoryDetailResponse } from '@api';
+import { buildEpubEntries, buildZipArchive, crc32, detectEpubImageMediaType, type EpubImage } from '@/utils';
+
+const PNG: EpubImage = { data: new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2]), mediaType: 'image/png' };
+
+function createDetail(language: string | null): StoryDetailResponse {
+  return {
+    id: 12,
+    title: 'Mia & the Moon',
+    foreword: 'A trip to the sky.',
+    character_description: 'Mia',
+    cover_image_prompt: 'Moon',
+    cover_image_url: 'cover.png',
+    visibility: 'private',
+    share_link: null,
+    is_unlocked: true,
+    created_at: '2026-05-08T10:00:00Z',
+    updated_at: '2026-05-08T10:00:00Z',
+    series: null,
+    profile: {
+      id: 1,
+      name: 'Mia',
+      gender: 'girl',
+      skin_tone: 'Honey',
+      hair_color: 'Brown',
+      eye_color: 'Green',
+      favorite_color: 'Teal',
+      dream: null,
+      archetype: null,
+      art_style: null,
+      language,
+      created_at: '2026-05-08T10:00:00Z',
+    },
+    panels: [
+      { id: 1, panel_order: 0, text: 'Mia builds a rocket.', image_prompt: 'rocket', image_url: 'panel-1.png' },
+      { id: 2, panel_order: 1, text: 'She lands <safely>.', image_prompt: 'landing', image_url: null },
+    ],
+  };
+}
+
+function buildFiles(language: string | null): Map<string, string> {
+  const entries = buildEpubEntries(createDetail(language), {
+    images: new Map([['cover.png', PNG], ['panel-1.png', PNG]]),
+    labels: { contents: 'Contents', cover: 'Cover', introduction: 'Introduction', page: (number) => `Page ${number}` },
+    modifiedAt: new Date('2026-05-08T10:00:00Z'),
+  });
+  return new Map(entries.map((entry) => [
+    entry.path,
+    typeof entry.data === 'string' ? entry.data : `<${entry.data.length} bytes>`,
+  ]));
+}
+
+describe('epub document', () => {
+  it('starts with the mimetype and lists one fixed-layout page per panel', () => {
+    const files = buildFiles('en');
+    const packageDocument = files.get('OEBPS/content.opf') ?? '';
+
+    expect([...files.keys()][0]).toBe('mimetype');
+    expect(files.get('mimetype')).toBe('application/epub+zip');
+    expect(packageDocument).toContain('<meta property="rendition:layout">pre-paginated</meta>');
+    expect(packageDocument).toContain('<dc:title>Mia &amp; the Moon</dc:title>');
+    expect(packageDocument).toContain('properties="cover-image"');
+    expect(packageDocument).toContain('<itemref idref="page-1"/>');
+    expect(packageDocument).toContain('<itemref idref="page-2"/>');
+    expect(files.has('OEBPS/images/panel-1.png')).toBe(true);
+  });
+
+  it('carries the story language and direction', () => {
+    const files = buildFiles('ar');
+
+    expect(files.get('OEBPS/content.opf')).toContain('<dc:language>ar</dc:language>');
+    expect(files.get('OEBPS/content.opf')).toContain('page-progression-direction="rtl"');
+    expect(files.get('OEBPS/page-1.xhtml')).toContain('lang="ar" xml:lang="ar" dir="rtl"');
+    expect(buildFiles(null).get('OEBPS/content.opf')).toContain('page-progression-direction="ltr"');
+  });
+
+  it('marks the read-aloud narration on every page', () => {
+    const files = buildFiles('en');
+
+    expect(files.get('OEBPS/cover.xhtml')).toContain('<p id="read-aloud-title" class="read-aloud">Mia &amp; the Moon</p>');
+    expect(files.get('OEBPS/foreword.xhtml')).toContain('id="read-aloud-foreword"');
+    expect(files.get('OEBPS/page-2.xhtml')).toContain(
+      '<p id="read-aloud-panel-2" class="read-aloud">Panel 2. She lands &lt;safely&gt;.</p>',
+    );
+  });
+
+  it('recognises stored image types by their bytes', () => {
+    expect(detectEpubImageMediaType(PNG.data)).toBe('image/png');
+    expect(detectEpubImageMediaType(new Uint8Array([0xff, 0xd8, 0xff]))).toBe('image/jpeg');
+    expect(detectEpubImageMediaType(new Uint8Array([0, 1, 2, 3]))).toBeNull();
+  });
+});
+
+describe('zip archive', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('stores the first entry uncompressed right after its header', () => {
+    const archive = buildZipArchive([{ path: 'mimetype', data: 'application/epub+zip' }, { path: 'a.txt', data: 'hi' }]);
+    const view = new DataView(archive.buffer);
+    const text = new TextDecoder().decode(archive);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(text.slice(30, 38)).toBe('mimetype');
+    expect(text.slice(38, 58)).toBe('application/epub+zip');
+    expect(view.getUint16(archive.length - 22 + 10, true)).toBe(2);
+  });
+});
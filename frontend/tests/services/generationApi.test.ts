@@ -9,6 +9,7 @@ import {
   generateStoryScript,
   type GeneratedStoryScript,
   type KidProfileForGeneration,
+  reviseStoryScript,
   streamStoryScript,
 } from '@api';
 
@@ -116,6 +117,40 @@ describe('streamStoryScript', () => {
     expect(url).toMatch(/\/api\/generate\/story-script\/stream$/);
     expect(getAuthHeader(init)).toBe('Bearer my-token');
   });
+
+  it('names the story a next episode continues', async () => {
+    const fetchSpy = mockStreamFetch();
+
+    await streamStoryScript('my-token', PROFILE, { continuesStoryId: 7 });
+
+    const [, init] = fetchSpy.mock.calls[0];
+    expect(JSON.parse(String(init?.body))).toEqual({ profile: PROFILE, continues_story_id: 7 });
+  });
+});
+
+describe('reviseStoryScript', () => {
+  it('posts the current script and instruction to the revision stream', async () => {
+    const fetchSpy = mockStreamFetch();
+
+    const result = await reviseStoryScript('my-token', SCRIPT, 'Add a dog', { language: 'fr' });
+
+    expect(result).toEqual(SCRIPT);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/generate\/story-script\/revise\/stream$/);
+    expect(getAuthHeader(init)).toBe('Bearer my-token');
+    expect(JSON.parse(String(init?.body))).toEqual({ script: SCRIPT, instruction: 'Add a dog', language: 'fr' });
+  });
+
+  it('rejects when the backend reports an error event', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ type: 'error', message: 'Story generation failed' }) + '\n', {
+        status: 200,
+        headers: { 'Content-Type': 'application/x-ndjson' },
+      }),
+    );
+
+    await expect(reviseStoryScript('my-token', SCRIPT, 'Make it shorter')).rejects.toThrow('Story generation failed');
+  });
 });
 
 describe('generateStoryScript', () => {
@@ -130,10 +165,19 @@ describe('generateStoryScript', () => {
     expect(getAuthHeader(init)).toBe('Bearer my-token');
   });
 
-  it('throws with the backend detail message on error responses', async () => {
-    mockJsonFetch({ detail: 'quota exceeded' }, 429);
+  it('throws with the backend detail message once 429 retries are exhausted', async () => {
+    vi.useFakeTimers();
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(
+      JSON.stringify({ detail: 'quota exceeded' }),
+      { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': '1' } },
+    ));
+
+    const promise = generateStoryScript('my-token', PROFILE);
+    const assertion = expect(promise).rejects.toThrow('quota exceeded');
+    await vi.runAllTimersAsync();
 
-    await expect(generateStoryScript('my-token', PROFILE)).rejects.toThrow('quota exceeded');
+    await assertion;
+    expect(fetchSpy).toHaveBeenCalledTimes(4);
   });
 });
 
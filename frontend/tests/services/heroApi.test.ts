@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { listHeroes, updateHero } from '@api';
+
+const HERO = {
+  id: 3,
+  name: 'Zara',
+  gender: 'girl',
+  skin_tone: 'Honey',
+  hair_color: 'Black',
+  eye_color: 'Brown',
+  favorite_color: 'Purple',
+  archetype: 'Inventor',
+  art_style: 'Watercolor',
+  language: 'en',
+  story_count: 2,
+  last_used_at: '2026-05-08T10:00:00Z',
+} as const;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function mockJsonFetch(body: unknown, status = 200): ReturnType<typeof vi.spyOn> {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  );
+}
+
+describe('heroApi', () => {
+  it('lists saved heroes', async () => {
+    const fetchSpy = mockJsonFetch([HERO]);
+
+    const result = await listHeroes('access-token');
+
+    expect(result).toEqual([HERO]);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/heroes$/);
+    expect(init?.method).toBe('GET');
+  });
+
+  it('sends the edited name and appearance', async () => {
+    const fetchSpy = mockJsonFetch({ ...HERO, name: 'Zara Star' });
+    const params = {
+      name: 'Zara Star',
+      gender: 'girl' as const,
+      skin_tone: 'Honey',
+      hair_color: 'Black',
+      eye_color: 'Brown',
+      favorite_color: 'Purple',
+    };
+
+    const result = await updateHero('access-token', 3, params);
+
+    expect(result.name).toBe('Zara Star');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/heroes\/3$/);
+    expect(init?.method).toBe('PATCH');
+    expect(init?.body).toBe(JSON.stringify(params));
+  });
+
+  it('surfaces a missing hero as an error', async () => {
+    mockJsonFetch({ detail: 'Hero not found' }, 404);
+
+    await expect(updateHero('access-token', 99, {
+      name: 'Nobody',
+      gender: 'neutral',
+      skin_tone: 'Fair',
+      hair_color: 'Brown',
+      eye_color: 'Blue',
+      favorite_color: 'Red',
+    })).rejects.toThrow('Hero not found');
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  confirmTotpEnrolment,
+  disableMfa,
+  getMfaStatus,
+  isMfaChallenge,
+  startTotpEnrolment,
+  verifyMfaChallenge,
+} from '@api';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function mockJsonFetch(body: unknown, status = 200): ReturnType<typeof vi.spyOn> {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  );
+}
+
+function getAuthHeader(init: RequestInit | undefined): string | undefined {
+  const headers = init?.headers;
+  if (!headers) return undefined;
+  if (headers instanceof Headers) return headers.get('Authorization') ?? undefined;
+  return (headers as Record<string, string>)['Authorization'];
+}
+
+describe('mfaApi', () => {
+  it('loads the two-factor status with the bearer token', async () => {
+    const fetchSpy = mockJsonFetch({ enabled: true, recovery_codes_remaining: 8 });
+
+    const result = await getMfaStatus('access-token');
+
+    expect(result).toEqual({ enabled: true, recovery_codes_remaining: 8 });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/users\/me\/mfa$/);
+    expect(getAuthHeader(init)).toBe('Bearer access-token');
+  });
+
+  it('starts and confirms TOTP enrolment', async () => {
+    const enrolment = { secret: 'JBSWY3DPEHPK3PXP', otpauth_uri: 'otpauth://totp/WonderComic:alice?secret=JBSWY3DPEHPK3PXP' };
+    const fetchSpy = mockJsonFetch(enrolment);
+
+    expect(await startTotpEnrolment('access-token')).toEqual(enrolment);
+    expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/users\/me\/mfa\/totp$/);
+
+    fetchSpy.mockResolvedValue(new Response(JSON.stringify({ recovery_codes: ['abcde-fghjk'] }), { status: 200 }));
+    const result = await confirmTotpEnrolment('access-token', '123456');
+
+    expect(result.recovery_codes).toEqual(['abcde-fghjk']);
+    const [url, init] = fetchSpy.mock.calls[1];
+    expect(url).toMatch(/\/api\/users\/me\/mfa\/totp\/confirm$/);
+    expect(init?.method).toBe('POST');
+    expect(init?.body).toBe(JSON.stringify({ code: '123456' }));
+  });
+
+  it('surfaces the backend detail when a code is rejected', async () => {
+    mockJsonFetch({ detail: 'Invalid verification code' }, 400);
+
+    await expect(disableMfa('access-token', '000000')).rejects.toThrow('Invalid verification code');
+  });
+
+  it('verifies a login challenge without a bearer token', async () => {
+    const fetchSpy = mockJsonFetch({ access_token: 'fresh-token', token_type: 'bearer', expires_in: 900 });
+
+    const tokens = await verifyMfaChallenge('mfa-token', '123456');
+
+    expect(tokens.access_token).toBe('fresh-token');
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/auth\/mfa\/verify$/);
+    expect(getAuthHeader(init)).toBeUndefined();
+    expect(init?.body).toBe(JSON.stringify({ mfa_token: 'mfa-token', code: '123456' }));
+  });
+
+  it('tells a two-factor challenge apart from tokens', () => {
+    expect(isMfaChallenge({ mfa_required: true, mfa_token: 'mfa-token', expires_in: 300 })).toBe(true);
+    expect(isMfaChallenge({ access_token: 'token', token_type: 'bearer', expires_in: 900 })).toBe(false);
+  });
+});
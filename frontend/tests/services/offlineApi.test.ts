@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  clearOfflineSession,
+  clearOfflineStories,
+  listOfflineStoryIds,
+  OFFLINE_SESSION_CACHE,
+  OFFLINE_STORIES_CACHE,
+  removeStoryFromOffline,
+  saveStoryForOffline,
+  type StoryDetailResponse,
+} from '@api';
+
+const STORY = {
+  id: 12,
+  title: 'Mia & the Moon',
+  cover_image_url: 'cover.png',
+  panels: [
+    { id: 1, panel_order: 0, text: 'Mia builds a rocket.', image_prompt: 'rocket', image_url: 'panel-1.png' },
+    { id: 2, panel_order: 1, text: 'She lands.', image_prompt: 'landing', image_url: 'cover.png' },
+    { id: 3, panel_order: 2, text: 'Home again.', image_prompt: 'home', image_url: null },
+  ],
+} as unknown as StoryDetailResponse;
+
+class MemoryCache {
+  readonly entries = new Map<string, Response>();
+
+  async keys(): Promise<Request[]> {
+    return [...this.entries.keys()].map((url) => new Request(url));
+  }
+
+  async match(url: string): Promise<Response | undefined> {
+    return this.entries.get(url)?.clone();
+  }
+
+  async put(url: string, response: Response): Promise<void> {
+    this.entries.set(url, response);
+  }
+
+  async addAll(urls: string[]): Promise<void> {
+    urls.forEach((url) => this.entries.set(url, new Response('image')));
+  }
+
+  async delete(url: string): Promise<boolean> {
+    return this.entries.delete(url);
+  }
+}
+
+let cacheStorage: Map<string, MemoryCache>;
+
+beforeEach(() => {
+  cacheStorage = new Map();
+  vi.stubGlobal('caches', {
+    open: async (name: string) => {
+      if (!cacheStorage.has(name)) cacheStorage.set(name, new MemoryCache());
+      return cacheStorage.get(name);
+    },
+    delete: async (name: string) => cacheStorage.delete(name),
+  });
+  Object.defineProperty(navigator, 'serviceWorker', { value: {}, configurable: true });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function mockStoryFetch(status = 200): ReturnType<typeof vi.spyOn> {
+  return vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+    new Response(JSON.stringify(status === 200 ? STORY : { detail: 'Story not found' }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  );
+}
+
+function getCachedUrls(name: string): string[] {
+  return [...(cacheStorage.get(name)?.entries.keys() ?? [])];
+}
+
+describe('offlineApi', () => {
+  it('saves the story JSON and each distinct image into the offline cache', async () => {
+    const fetchSpy = mockStoryFetch();
+
+    await saveStoryForOffline('access-token', 12);
+
+    const [url] = fetchSpy.mock.calls[0];
+    expect(url).toMatch(/\/api\/stories\/12$/);
+    const cached = getCachedUrls(OFFLINE_STORIES_CACHE);
+    expect(cached).toHaveLength(3);
+    expect(cached.filter((entry) => entry.endsWith('/images/cover.png'))).toHaveLength(1);
+    expect(cached.some((entry) => entry.endsWith('/images/panel-1.png'))).toBe(true);
+    await expect(listOfflineStoryIds()).resolves.toEqual([12]);
+  });
+
+  it('does not mark a story as saved when the download fails', async () => {
+    mockStoryFetch(404);
+
+    await expect(saveStoryForOffline('access-token', 12)).rejects.toThrow('Story not found');
+
+    await expect(listOfflineStoryIds()).resolves.toEqual([]);
+  });
+
+  it('removes the story and its images', async () => {
+    mockStoryFetch();
+    await saveStoryForOffline('access-token', 12);
+
+    await removeStoryFromOffline(12);
+
+    expect(getCachedUrls(OFFLINE_STORIES_CACHE)).toEqual([]);
+  });
+
+  it('clears offline stories and the remembered session together', async () => {
+    await caches.open(OFFLINE_STORIES_CACHE);
+    await caches.open(OFFLINE_SESSION_CACHE);
+
+    await clearOfflineStories();
+
+    expect(cacheStorage.size).toBe(0);
+  });
+
+  it('clears the remembered session but keeps saved stories', async () => {
+    await caches.open(OFFLINE_STORIES_CACHE);
+    await caches.open(OFFLINE_SESSION_CACHE);
+
+    await clearOfflineSession();
+
+    expect([...cacheStorage.keys()]).toEqual([OFFLINE_STORIES_CACHE]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildPdfDocument,
+  buildPrintPages,
+  encodePdfTextString,
+  getDefaultPrintPageSize,
+  getPrintGutterSide,
+  getPrintPageMetrics,
+  wrapPrintText,
+} from '@/utils';
+
+const decoder = new TextDecoder('latin1');
+
+describe('print layout', () => {
+  it('adds a 3 mm bleed around the A4 and Letter trim sizes', () => {
+    const a4 = getPrintPageMetrics('a4');
+    const letter = getPrintPageMetrics('letter');
+
+    expect(a4.trimWidth).toBeCloseTo(595.28, 1);
+    expect(a4.trimHeight).toBeCloseTo(841.89, 1);
+    expect(a4.bleed).toBeCloseTo(8.5, 1);
+    expect(a4.mediaWidth).toBeCloseTo(a4.trimWidth + a4.bleed * 2, 5);
+    expect(letter.trimWidth).toBeCloseTo(612, 1);
+    expect(letter.trimHeight).toBeCloseTo(792, 1);
+  });
+
+  it('picks Letter only for regions that print on it', () => {
+    expect(getDefaultPrintPageSize('en-US')).toBe('letter');
+    expect(getDefaultPrintPageSize('en-GB')).toBe('a4');
+    expect(getDefaultPrintPageSize('ar')).toBe('a4');
+    expect(getDefaultPrintPageSize(undefined)).toBe('a4');
+  });
+
+  it('pads the book to an even page count before the back cover', () => {
+    expect(buildPrintPages(2).map((page) => page.kind)).toEqual(['cover', 'foreword', 'panel', 'panel', 'blank', 'backCover']);
+    expect(buildPrintPages(3).map((page) => page.kind)).toEqual([
+      'cover',
+      'foreword',
+      'panel',
+      'panel',
+      'panel',
+      'backCover',
+    ]);
+  });
+
+  it('mirrors the binding side for right-to-left books', () => {
+    expect([0, 1, 2].map((index) => getPrintGutterSide(index, 'ltr'))).toEqual(['left', 'right', 'left']);
+    expect([0, 1, 2].map((index) => getPrintGutterSide(index, 'rtl'))).toEqual(['right', 'left', 'right']);
+  });
+
+  it('wraps words, and CJK text between characters', () => {
+    const measure = (text: string) => text.length;
+
+    expect(wrapPrintText('the brave little fox', 10, measure)).toEqual(['the brave', 'little fox']);
+    expect(wrapPrintText('小狐狸很勇敢', 4, measure)).toEqual(['小狐狸很', '勇敢']);
+  });
+});
+
+describe('pdf document', () => {
+  it('writes one image page per JPEG with trim and bleed boxes', () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+    const pdf = decoder.decode(buildPdfDocument({
+      title: 'Mia',
+      pageWidth: 612,
+      pageHeight: 792,
+      bleed: 9,
+      direction: 'rtl',
+      pages: [
+        { jpeg, pixelWidth: 10, pixelHeight: 20 },
+        { jpeg, pixelWidth: 10, pixelHeight: 20 },
+      ],
+    }));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Type /Pages /Count 2');
+    expect(pdf).toContain('/TrimBox [9 9 603 783]');
+    expect(pdf).toContain('/Direction /R2L');
+    expect(pdf).toContain('/Width 10 /Height 20');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('points the xref table at each object', () => {
+    const pdf = decoder.decode(buildPdfDocument({
+      title: 'Mia',
+      pageWidth: 100,
+      pageHeight: 100,
+      bleed: 0,
+      direction: 'ltr',
+      pages: [{ jpeg: new Uint8Array([1, 2, 3]), pixelWidth: 1, pixelHeight: 1 }],
+    }));
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    const offsets = pdf.slice(xrefOffset).match(/^\d{10} 00000 n/gm) ?? [];
+
+    expect(pdf.slice(xrefOffset).startsWith('xref')).toBe(true);
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((entry, index) => {
+      expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('encodes titles as UTF-16 so any script survives', () => {
+    expect(encodePdfTextString('Hi')).toBe('<FEFF00480069>');
+    expect(encodePdfTextString('مي')).toBe('<FEFF0645064A>');
+  });
+});
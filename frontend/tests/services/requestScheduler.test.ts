@@ -0,0 +1,159 @@
+/**
+ * Tests for the shared generation request scheduler — concurrency cap,
+ * retry/backoff on 429/503, Retry-After handling, and abort while queued.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createRequestScheduler, getBackoffDelayMs, parseRetryAfterMs } from '@api';
+
+function jsonResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ status }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+async function readStatus(response: Response): Promise<number> {
+  return ((await response.json()) as { status: number }).status;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('parseRetryAfterMs', () => {
+  it('reads delay-seconds', () => {
+    expect(parseRetryAfterMs('3')).toBe(3000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('2026-04-17T10:00:00Z');
+    expect(parseRetryAfterMs('Fri, 17 Apr 2026 10:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfterMs(null)).toBeNull();
+    expect(parseRetryAfterMs('soon')).toBeNull();
+  });
+});
+
+describe('getBackoffDelayMs', () => {
+  it('grows exponentially with bounded jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const options = { baseDelayMs: 100, maxDelayMs: 10_000 };
+
+    expect(getBackoffDelayMs(0, options)).toBe(150);
+    expect(getBackoffDelayMs(2, options)).toBe(450);
+  });
+
+  it('prefers Retry-After and caps every delay', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(getBackoffDelayMs(0, options, 700)).toBe(700);
+    expect(getBackoffDelayMs(10, options)).toBe(1000);
+  });
+
+  it('gives up when Retry-After is longer than the longest delay', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(getBackoffDelayMs(0, options, 1000)).toBe(1000);
+    expect(getBackoffDelayMs(0, options, 60_000)).toBeNull();
+  });
+});
+
+describe('createRequestScheduler', () => {
+  it('never runs more than maxConcurrent requests and reports the queue', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 2 });
+    const releases: Array<() => void> = [];
+    let inFlight = 0;
+    let peakInFlight = 0;
+
+    const sendRequest = () => new Promise<Response>((resolve) => {
+      inFlight += 1;
+      peakInFlight = Math.max(peakInFlight, inFlight);
+      releases.push(() => {
+        inFlight -= 1;
+        resolve(jsonResponse(200));
+      });
+    });
+
+    const results = Promise.all(
+      Array.from({ length: 5 }, () => scheduler.schedule(sendRequest, readStatus)),
+    );
+
+    await Promise.resolve();
+    expect(scheduler.getState()).toEqual({ activeCount: 2, queuedCount: 3, maxConcurrent: 2 });
+
+    while (releases.length > 0) {
+      releases.shift()?.();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    expect(await results).toEqual([200, 200, 200, 200, 200]);
+    expect(peakInFlight).toBe(2);
+    expect(scheduler.getState()).toEqual({ activeCount: 0, queuedCount: 0, maxConcurrent: 2 });
+  });
+
+  it('retries 503 responses and honors Retry-After before succeeding', async () => {
+    vi.useFakeTimers();
+    const scheduler = createRequestScheduler({ maxRetries: 3, baseDelayMs: 10 });
+    const sendRequest = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(jsonResponse(200));
+
+    const promise = scheduler.schedule(sendRequest, readStatus);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(sendRequest).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await promise).toBe(200);
+    expect(sendRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('hands back a 429 at once when Retry-After is longer than maxDelayMs', async () => {
+    vi.useFakeTimers();
+    const scheduler = createRequestScheduler({ maxRetries: 3, maxDelayMs: 30_000 });
+    const sendRequest = vi.fn().mockResolvedValue(jsonResponse(429, { 'Retry-After': '120' }));
+    const handleResponse = vi.fn(async (response: Response) => {
+      throw new Error(`Quota exceeded (${response.status})`);
+    });
+
+    await expect(scheduler.schedule(sendRequest, handleResponse)).rejects.toThrow('Quota exceeded (429)');
+    expect(sendRequest).toHaveBeenCalledOnce();
+    expect(scheduler.getState().activeCount).toBe(0);
+  });
+
+  it('does not retry other error statuses', async () => {
+    const scheduler = createRequestScheduler();
+    const sendRequest = vi.fn().mockResolvedValue(jsonResponse(500));
+
+    expect(await scheduler.schedule(sendRequest, readStatus)).toBe(500);
+    expect(sendRequest).toHaveBeenCalledOnce();
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    const scheduler = createRequestScheduler({ maxConcurrent: 1 });
+    let releaseFirst: () => void = () => undefined;
+    const first = scheduler.schedule(
+      () => new Promise<Response>((resolve) => {
+        releaseFirst = () => resolve(jsonResponse(200));
+      }),
+      readStatus,
+    );
+    const controller = new AbortController();
+    const queuedRequest = vi.fn().mockResolvedValue(jsonResponse(200));
+    const second = scheduler.schedule(queuedRequest, readStatus, { signal: controller.signal });
+
+    await Promise.resolve();
+    expect(scheduler.getState().queuedCount).toBe(1);
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getState().queuedCount).toBe(0);
+
+    releaseFirst();
+    expect(await first).toBe(200);
+    expect(queuedRequest).not.toHaveBeenCalled();
+  });
+});
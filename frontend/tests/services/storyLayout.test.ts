@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { getSpreadPanelIndexes, getStoryboardPageCount } from '@/utils';
+
+function panelsPerPage(panelCount: number): Array<[number | null, number | null]> {
+  return Array.from({ length: getStoryboardPageCount(panelCount) }, (_, page) => {
+    const { leftPanelIndex, rightPanelIndex } = getSpreadPanelIndexes(page, panelCount);
+    return [leftPanelIndex, rightPanelIndex];
+  });
+}
+
+describe('storyboard layout', () => {
+  it('keeps the ten-panel book at eight pages', () => {
+    expect(getStoryboardPageCount(10)).toBe(8);
+  });
+
+  it('shows every panel of an even-length story exactly once', () => {
+    expect(panelsPerPage(4)).toEqual([
+      [null, null],
+      [null, 0],
+      [1, 2],
+      [3, null],
+      [null, null],
+    ]);
+  });
+
+  it('leaves one blank page before the end of an odd-length story', () => {
+    expect(panelsPerPage(5)).toEqual([
+      [null, null],
+      [null, 0],
+      [1, 2],
+      [3, 4],
+      [null, null],
+      [null, null],
+    ]);
+  });
+
+  it('shows every panel of the longest story', () => {
+    const shown = panelsPerPage(16).flat().filter((index) => index !== null);
+
+    expect(shown).toEqual(Array.from({ length: 16 }, (_, index) => index));
+  });
+});
@@ -81,6 +81,24 @@ describe('getPreviewReadAloudText', () => {
     ].join('\n\n'));
   });
 
+  it('reads the first and last panels of an even-length story', () => {
+    const story: Story = {
+      ...STORY,
+      panels: ['One', 'Two', 'Three', 'Four'].map((text, index) => ({
+        id: String(index + 1),
+        text,
+        imagePrompt: text,
+      })),
+    };
+
+    expect(getPreviewReadAloudText(story)).toBe([
+      'Moon Mission',
+      'A brave little hero explores the stars.',
+      'Panel 1. One',
+      'Panel 4. Four',
+    ].join('\n\n'));
+  });
+
   it('does not duplicate the only panel in a one-panel story', () => {
     const story: Story = {
       ...STORY,
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffCaptions, diffWords } from '@/utils';
+
+describe('diffWords', () => {
+  it('marks removed and added words around the unchanged ones', () => {
+    expect(diffWords('Leo waves at the moon.', 'Leo smiles at the moon.')).toEqual([
+      { kind: 'same', text: 'Leo ' },
+      { kind: 'removed', text: 'waves' },
+      { kind: 'added', text: 'smiles' },
+      { kind: 'same', text: ' at the moon.' },
+    ]);
+  });
+
+  it('diffs scripts without spaces character by character', () => {
+    expect(diffWords('小狗跑', '小猫跑')).toEqual([
+      { kind: 'same', text: '小' },
+      { kind: 'removed', text: '狗' },
+      { kind: 'added', text: '猫' },
+      { kind: 'same', text: '跑' },
+    ]);
+  });
+});
+
+describe('diffCaptions', () => {
+  it('reports unchanged, changed, and removed panels by position', () => {
+    const diffs = diffCaptions(['One.', 'Two.', 'Three.'], ['One.', 'Two!']);
+
+    expect(diffs.map((diff) => diff.change)).toEqual(['unchanged', 'changed', 'removed']);
+    expect(diffs[2].segments).toEqual([{ kind: 'removed', text: 'Three.' }]);
+  });
+
+  it('reports extra panels as added', () => {
+    const diffs = diffCaptions(['One.'], ['One.', 'A dog appears.']);
+
+    expect(diffs[1]).toEqual({
+      panelNumber: 2,
+      change: 'added',
+      segments: [{ kind: 'added', text: 'A dog appears.' }],
+    });
+  });
+});
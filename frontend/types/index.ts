@@ -1,8 +1,22 @@
-import type { StoryVisibility } from '@api';
+import type { ReadingLevel, StoryVisibility } from '@api';
 
 /**
  * Shared frontend domain types used across pages and components.
  */
+export type CastRole = 'sibling' | 'friend' | 'pet';
+
+/** A sibling, friend or pet who appears in the comic alongside the hero. */
+export interface CastMember {
+  id: string;
+  name: string;
+  role: CastRole;
+  gender: 'boy' | 'girl' | 'neutral';
+  skinTone: string;
+  hairColor: string;
+  eyeColor: string;
+  photoUrl?: string;
+}
+
 export interface KidProfile {
   name: string;
   gender: 'boy' | 'girl' | 'neutral';
@@ -15,6 +29,20 @@ export interface KidProfile {
   language?: string;
   photoUrl?: string;
   artStyle?: string;
+  storyLength?: number;
+  readingLevel?: ReadingLevel;
+  cast?: CastMember[];
+}
+
+/** Downloadable formats of a finished story. */
+export type StoryExportFormat = 'pdf' | 'epub';
+
+/** A hero from past stories, ready to start a new one. */
+export interface SavedHero {
+  id: number;
+  storyCount: number;
+  lastUsedAt: string;
+  profile: KidProfile;
 }
 
 export interface ComicPanelData {
@@ -25,6 +53,14 @@ export interface ComicPanelData {
   isGenerating?: boolean;
 }
 
+/** Where a saved story sits in its series of episodes. */
+export interface StorySeries {
+  id: number;
+  episodeNumber: number;
+  previousStoryId: number | null;
+  nextStoryId: number | null;
+}
+
 export interface Story {
   title: string;
   foreword: string;
@@ -33,4 +69,13 @@ export interface Story {
   coverImageUrl?: string;
   visibility: StoryVisibility;
   panels: ComicPanelData[];
+  /** Only saved episodes of a series have one. */
+  series?: StorySeries;
+}
+
+/** An earlier panel or cover image that can be restored. */
+export interface ImageVersion {
+  id: number;
+  imageUrl: string;
+  createdAt: string;
 }
@@ -0,0 +1,252 @@
+/**
+ * Fixed-layout EPUB 3 builder for saved stories.
+ * Produces the cover, a foreword page and one page per panel, with `lang`/`dir`
+ * taken from the hero's story language and the read-aloud narration marked on
+ * every page so e-readers speak the same text as the in-app narrator.
+ */
+import type { StoryDetailResponse } from '@api';
+import { getLanguageDirection, normalizeLanguageCode } from '@/i18n.languages';
+import { mapApiStoryToStory } from './storyMappers';
+import { getStoryReadAloudSegments, type StoryReadAloudSegment } from './storyNarration';
+import { buildZipArchive, type ZipEntry } from './zipArchive';
+
+export type EpubImageMediaType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface EpubImage {
+  data: Uint8Array;
+  mediaType: EpubImageMediaType;
+}
+
+export interface EpubLabels {
+  contents: string;
+  cover: string;
+  introduction: string;
+  page: (pageNumber: number) => string;
+}
+
+export interface EpubDocumentOptions {
+  /** Image bytes keyed by the storage filename or URL used in the story. */
+  images: Map<string, EpubImage>;
+  labels: EpubLabels;
+  modifiedAt?: Date;
+}
+
+interface EpubPage {
+  id: string;
+  fileName: string;
+  title: string;
+  body: string;
+  properties?: string;
+}
+
+/** Fixed-layout viewport in CSS pixels; a portrait page like the printed book. */
+export const EPUB_PAGE_WIDTH = 768;
+export const EPUB_PAGE_HEIGHT = 1024;
+
+const IMAGE_EXTENSIONS: Record<EpubImageMediaType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const EPUB_STYLESHEET = `html, body { margin: 0; padding: 0; width: ${EPUB_PAGE_WIDTH}px; height: ${EPUB_PAGE_HEIGHT}px; }
+body { font-family: "Quicksand", sans-serif; color: #4a2b6a; background: #ffffff; overflow: hidden; }
+.cover { position: relative; width: 100%; height: 100%; background: #9d6bcf; }
+.cover img { width: 100%; height: 100%; object-fit: cover; }
+.cover h1 { position: absolute; inset-inline: 48px; bottom: 64px; margin: 0; color: #ffffff; font-size: 48px; text-align: center; text-shadow: 0 2px 12px rgba(0, 0, 0, 0.6); }
+.foreword { display: flex; flex-direction: column; justify-content: center; height: 100%; padding: 96px; box-sizing: border-box; text-align: center; }
+.foreword h2 { color: #9d6bcf; font-size: 36px; }
+.foreword p { font-size: 24px; font-style: italic; line-height: 1.5; }
+.panel { display: flex; flex-direction: column; height: 100%; padding: 48px; box-sizing: border-box; }
+.panel img { width: 100%; height: 672px; object-fit: cover; border-radius: 24px; }
+.panel p { flex: 1; display: flex; align-items: center; justify-content: center; margin: 0; font-size: 26px; line-height: 1.45; text-align: center; }
+.read-aloud { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); }
+`;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/** Sniff the image type from its magic bytes; stored files carry no extension guarantee. */
+export function detectEpubImageMediaType(bytes: Uint8Array): EpubImageMediaType | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'image/png';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return 'image/jpeg';
+  }
+  if (String.fromCharCode(...bytes.slice(0, 4)) === 'RIFF' && String.fromCharCode(...bytes.slice(8, 12)) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+function renderReadAloud(segment: StoryReadAloudSegment | undefined): string {
+  if (!segment) {
+    return '';
+  }
+
+  const id = segment.target === 'panel' ? `read-aloud-panel-${segment.panelNumber}` : `read-aloud-${segment.target}`;
+  return `<p id="${id}" class="read-aloud">${escapeXml(segment.text)}</p>`;
+}
+
+function renderPageDocument(page: EpubPage, language: string, direction: 'ltr' | 'rtl'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}" dir="${direction}">
+<head>
+<meta charset="UTF-8"/>
+<meta name="viewport" content="width=${EPUB_PAGE_WIDTH}, height=${EPUB_PAGE_HEIGHT}"/>
+<title>${escapeXml(page.title)}</title>
+<link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${page.body}
+</body>
+</html>
+`;
+}
+
+function renderNavDocument(title: string, pages: EpubPage[], labels: EpubLabels, language: string, direction: 'ltr' | 'rtl'): string {
+  const items = pages.map((page) => `<li><a href="${page.fileName}">${escapeXml(page.title)}</a></li>`).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}" dir="${direction}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(labels.contents)}</h1>
+<ol>
+${items}
+</ol>
+</nav>
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the EPUB file list. Kept separate from the archive so tests can read
+ * the documents without unzipping.
+ */
+export function buildEpubEntries(detail: StoryDetailResponse, { images, labels, modifiedAt = new Date() }: EpubDocumentOptions): ZipEntry[] {
+  const story = mapApiStoryToStory(detail);
+  const language = normalizeLanguageCode(detail.profile.language);
+  const direction = getLanguageDirection(language);
+  const segments = getStoryReadAloudSegments(story);
+  const findSegment = (target: StoryReadAloudSegment['target'], panelNumber?: number) =>
+    segments.find((segment) => segment.target === target && segment.panelNumber === panelNumber);
+
+  const imageFiles = new Map<string, { fileName: string; id: string; image: EpubImage }>();
+  const addImage = (source: string | undefined, id: string): string | null => {
+    const image = source ? images.get(source) : undefined;
+    if (!source || !image) {
+      return null;
+    }
+    const existing = imageFiles.get(source);
+    if (existing) {
+      return existing.fileName;
+    }
+    const fileName = `images/${id}.${IMAGE_EXTENSIONS[image.mediaType]}`;
+    imageFiles.set(source, { fileName, id, image });
+    return fileName;
+  };
+
+  const coverFile = addImage(story.coverImageUrl, 'cover-image');
+  const pages: EpubPage[] = [
+    {
+      id: 'cover',
+      fileName: 'cover.xhtml',
+      title: labels.cover,
+      properties: 'rendition:page-spread-center',
+      body: `<section class="cover" epub:type="cover">${
+        coverFile ? `<img src="${coverFile}" alt="${escapeXml(story.title)}"/>` : ''
+      }<h1>${escapeXml(story.title)}</h1>${renderReadAloud(findSegment('title'))}</section>`,
+    },
+    {
+      id: 'foreword',
+      fileName: 'foreword.xhtml',
+      title: labels.introduction,
+      body: `<section class="foreword" epub:type="foreword"><h2>${escapeXml(labels.introduction)}</h2><p>${
+        escapeXml(story.foreword)
+      }</p>${renderReadAloud(findSegment('foreword'))}</section>`,
+    },
+    ...story.panels.map((panel, index): EpubPage => {
+      const panelNumber = index + 1;
+      const imageFile = addImage(panel.imageUrl, `panel-${panelNumber}`);
+      return {
+        id: `page-${panelNumber}`,
+        fileName: `page-${panelNumber}.xhtml`,
+        title: labels.page(panelNumber),
+        body: `<section class="panel" epub:type="bodymatter">${
+          imageFile ? `<img src="${imageFile}" alt="${escapeXml(panel.imagePrompt)}"/>` : ''
+        }<p>${escapeXml(panel.text)}</p>${renderReadAloud(findSegment('panel', panelNumber))}</section>`,
+      };
+    }),
+  ];
+
+  const modified = modifiedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="styles" href="styles.css" media-type="text/css"/>',
+    ...[...imageFiles.values()].map(({ fileName, id, image }) => (
+      `<item id="${id}" href="${fileName}" media-type="${image.mediaType}"${id === 'cover-image' ? ' properties="cover-image"' : ''}/>`
+    )),
+    ...pages.map((page) => `<item id="${page.id}" href="${page.fileName}" media-type="application/xhtml+xml"/>`),
+  ].join('\n    ');
+  const spine = pages
+    .map((page) => `<itemref idref="${page.id}"${page.properties ? ` properties="${page.properties}"` : ''}/>`)
+    .join('\n    ');
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}" dir="${direction}" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:story:${detail.id}</dc:identifier>
+    <dc:title>${escapeXml(story.title)}</dc:title>
+    <dc:language>${language}</dc:language>
+    <dc:creator>${escapeXml(detail.profile.name)}</dc:creator>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">portrait</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    ${manifest}
+  </manifest>
+  <spine page-progression-direction="${direction}">
+    ${spine}
+  </spine>
+</package>
+`;
+
+  return [
+    { path: 'mimetype', data: 'application/epub+zip' },
+    {
+      path: 'META-INF/container.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`,
+    },
+    { path: 'OEBPS/content.opf', data: packageDocument },
+    { path: 'OEBPS/nav.xhtml', data: renderNavDocument(story.title, pages, labels, language, direction) },
+    { path: 'OEBPS/styles.css', data: EPUB_STYLESHEET },
+    ...pages.map((page) => ({ path: `OEBPS/${page.fileName}`, data: renderPageDocument(page, language, direction) })),
+    ...[...imageFiles.values()].map(({ fileName, image }) => ({ path: `OEBPS/${fileName}`, data: image.data })),
+  ];
+}
+
+export function buildEpubDocument(detail: StoryDetailResponse, options: EpubDocumentOptions): Uint8Array {
+  return buildZipArchive(buildEpubEntries(detail, options), options.modifiedAt);
+}
@@ -5,3 +5,9 @@ export * from './imageUtils';
 export * from './runtimeConfig';
 export * from './storyNarration';
 export * from './storyMappers';
+export * from './textDiff';
+export * from './storyLayout';
+export * from './printLayout';
+export * from './pdfDocument';
+export * from './zipArchive';
+export * from './epubDocument';
@@ -0,0 +1,130 @@
+/**
+ * Minimal PDF writer for print exports.
+ * Every page is one full-bleed JPEG, so the writer only needs image XObjects
+ * and a one-line content stream per page; text is already painted into the image.
+ */
+
+export interface PdfPageImage {
+  /** Baseline JPEG bytes, embedded as-is with DCTDecode. */
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  /** Full media size in points, bleed included. */
+  pageWidth: number;
+  pageHeight: number;
+  /** Bleed on every edge in points; the trim box sits this far inside the media box. */
+  bleed: number;
+  /** 'rtl' asks readers to lay out facing pages right to left. */
+  direction: 'ltr' | 'rtl';
+  pages: PdfPageImage[];
+}
+
+const textEncoder = new TextEncoder();
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+/**
+ * PDF text strings are PDFDocEncoding or UTF-16BE with a byte order mark.
+ * Titles are often not ASCII, so always write UTF-16BE as a hex string.
+ */
+export function encodePdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let index = 0; index < text.length; index += 1) {
+    hex += text.charCodeAt(index).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((length, chunk) => length + chunk.length, 0);
+  const bytes = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+export function buildPdfDocument({
+  title,
+  pageWidth,
+  pageHeight,
+  bleed,
+  direction,
+  pages,
+}: PdfDocumentOptions): Uint8Array {
+  if (!pages.length) {
+    throw new Error('A PDF needs at least one page');
+  }
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array): void => {
+    const bytes = typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (objectNumber: number, body: string | Uint8Array[]): void => {
+    offsets[objectNumber] = length;
+    write(`${objectNumber} 0 obj\n`);
+    if (typeof body === 'string') {
+      write(body);
+    } else {
+      body.forEach(write);
+    }
+    write('\nendobj\n');
+  };
+
+  // Object layout: 1 catalog, 2 page tree, 3 info, then page, content and image per page.
+  const pageObjectNumber = (index: number) => 4 + index * 3;
+  const mediaBox = `[0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}]`;
+  const trimBox = `[${formatNumber(bleed)} ${formatNumber(bleed)} ${formatNumber(pageWidth - bleed)} ${formatNumber(pageHeight - bleed)}]`;
+  const viewerPreferences = direction === 'rtl' ? ' /ViewerPreferences << /Direction /R2L >>' : '';
+
+  write('%PDF-1.4\n%âãÏÓ\n');
+  writeObject(1, `<< /Type /Catalog /Pages 2 0 R /PageLayout /TwoPageRight${viewerPreferences} >>`);
+  writeObject(2, `<< /Type /Pages /Count ${pages.length} /Kids [${pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ')}] >>`);
+  writeObject(3, `<< /Title ${encodePdfTextString(title)} /Producer (Storybook print export) >>`);
+
+  pages.forEach((page, index) => {
+    const pageNumber = pageObjectNumber(index);
+    const contentNumber = pageNumber + 1;
+    const imageNumber = pageNumber + 2;
+    const content = `q ${formatNumber(pageWidth)} 0 0 ${formatNumber(pageHeight)} 0 0 cm /Im0 Do Q`;
+
+    writeObject(
+      pageNumber,
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${mediaBox} /BleedBox ${mediaBox} /TrimBox ${trimBox}`
+        + ` /Resources << /XObject << /Im0 ${imageNumber} 0 R >> >> /Contents ${contentNumber} 0 R >>`,
+    );
+    writeObject(contentNumber, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    writeObject(imageNumber, [
+      textEncoder.encode(
+        `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight}`
+          + ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+      ),
+      page.jpeg,
+      textEncoder.encode('\nendstream'),
+    ]);
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let objectNumber = 1; objectNumber <= objectCount; objectNumber += 1) {
+    write(`${String(offsets[objectNumber]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return concatBytes(chunks);
+}
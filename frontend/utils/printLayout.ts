@@ -0,0 +1,129 @@
+/**
+ * Page plan and measurements for the printable PDF export.
+ * Pure helpers: the canvas painting lives with the story page.
+ */
+
+export type PrintPageSize = 'a4' | 'letter';
+
+export type PrintPage =
+  | { kind: 'cover' }
+  | { kind: 'foreword' }
+  | { kind: 'panel'; panelIndex: number; pageNumber: number }
+  | { kind: 'blank' }
+  | { kind: 'backCover' };
+
+export interface PrintPageMetrics {
+  /** Finished page size after trimming, in points. */
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  /** Sheet size including bleed on every edge, in points. */
+  mediaWidth: number;
+  mediaHeight: number;
+}
+
+export const PRINT_PAGE_SIZES: PrintPageSize[] = ['a4', 'letter'];
+
+/** Trim sizes in millimetres. */
+const PAGE_SIZE_MM: Record<PrintPageSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 },
+};
+
+/** Printers ask for 3 mm (about 1/8 in) of artwork past every trimmed edge. */
+export const PRINT_BLEED_MM = 3;
+
+const POINTS_PER_MM = 72 / 25.4;
+
+const PRINT_TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]|[^\s\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+|\s+/g;
+
+/** Regions that print on US Letter by default. */
+const LETTER_REGIONS = new Set(['US', 'CA', 'MX', 'PH', 'CL', 'CO', 'VE', 'PR']);
+
+export function mmToPoints(millimetres: number): number {
+  return millimetres * POINTS_PER_MM;
+}
+
+export function getPrintPageMetrics(pageSize: PrintPageSize): PrintPageMetrics {
+  const { width, height } = PAGE_SIZE_MM[pageSize];
+  const trimWidth = mmToPoints(width);
+  const trimHeight = mmToPoints(height);
+  const bleed = mmToPoints(PRINT_BLEED_MM);
+
+  return {
+    trimWidth,
+    trimHeight,
+    bleed,
+    mediaWidth: trimWidth + bleed * 2,
+    mediaHeight: trimHeight + bleed * 2,
+  };
+}
+
+export function getDefaultPrintPageSize(locale: string | null | undefined): PrintPageSize {
+  const region = locale?.split(/[-_]/)[1]?.toUpperCase();
+  return region && LETTER_REGIONS.has(region) ? 'letter' : 'a4';
+}
+
+/**
+ * Cover, foreword, one page per panel, then the back cover. A blank page is
+ * added before the back cover when needed so the book folds into whole sheets.
+ */
+export function buildPrintPages(panelCount: number): PrintPage[] {
+  const pages: PrintPage[] = [
+    { kind: 'cover' },
+    { kind: 'foreword' },
+    ...Array.from({ length: panelCount }, (_, panelIndex): PrintPage => ({
+      kind: 'panel',
+      panelIndex,
+      pageNumber: panelIndex + 1,
+    })),
+  ];
+
+  if ((pages.length + 1) % 2 !== 0) {
+    pages.push({ kind: 'blank' });
+  }
+  pages.push({ kind: 'backCover' });
+
+  return pages;
+}
+
+/**
+ * Side of the page that lands in the binding. The cover is a right-hand page
+ * in left-to-right books and a left-hand page in right-to-left books.
+ */
+export function getPrintGutterSide(pageIndex: number, direction: 'ltr' | 'rtl'): 'left' | 'right' {
+  const isFirstSide = pageIndex % 2 === 0;
+  if (direction === 'rtl') {
+    return isFirstSide ? 'right' : 'left';
+  }
+
+  return isFirstSide ? 'left' : 'right';
+}
+
+/**
+ * Greedy line wrapping against a measuring function. CJK text has no spaces,
+ * so it breaks between characters instead of words.
+ */
+export function wrapPrintText(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    const tokens = paragraph.match(PRINT_TOKEN_PATTERN) ?? [];
+    let line = '';
+
+    for (const token of tokens) {
+      const candidate = line + token;
+      if (!line || measure(candidate.trimEnd()) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      lines.push(line.trimEnd());
+      line = token.trim() ? token : '';
+    }
+
+    lines.push(line.trimEnd());
+  }
+
+  return lines;
+}
@@ -2,3 +2,6 @@
  * Runtime URLs shared across frontend boundaries.
  */
 export const BACKEND_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+/** Keep the session in httpOnly cookies instead of bearer tokens in localStorage. */
+export const AUTH_COOKIE_SESSIONS = import.meta.env.VITE_AUTH_COOKIE_SESSIONS === 'true';
@@ -0,0 +1,38 @@
+/**
+ * Page maths for the storyboard book, for any number of panels.
+ * The book is: front cover, spreads, back cover. The first spread opens with
+ * the introduction and the last one closes with "The End", so panels fill
+ * the pages in between and an odd count leaves one blank page before the end.
+ */
+
+export interface SpreadPanelIndexes {
+  leftPanelIndex: number | null;
+  rightPanelIndex: number | null;
+}
+
+export function getStoryboardSpreadCount(panelCount: number): number {
+  return Math.ceil((Math.max(panelCount, 0) + 2) / 2);
+}
+
+/** Total pages the reader can flip through, covers included. */
+export function getStoryboardPageCount(panelCount: number): number {
+  return getStoryboardSpreadCount(panelCount) + 2;
+}
+
+/**
+ * Panels shown on a page, or null for pages that hold the introduction,
+ * "The End", or nothing at all.
+ */
+export function getSpreadPanelIndexes(page: number, panelCount: number): SpreadPanelIndexes {
+  const toPanelIndex = (index: number) => (index >= 0 && index < panelCount ? index : null);
+  const isSpread = page >= 1 && page <= getStoryboardSpreadCount(panelCount);
+
+  if (!isSpread) {
+    return { leftPanelIndex: null, rightPanelIndex: null };
+  }
+
+  return {
+    leftPanelIndex: toPanelIndex((page - 1) * 2 - 1),
+    rightPanelIndex: toPanelIndex((page - 1) * 2),
+  };
+}
@@ -1,8 +1,16 @@
 /**
  * Pure mappers between backend DTOs and frontend story models.
  */
-import type { KidProfile, Story } from '@/types';
-import type { KidProfileForGeneration, KidProfileResponse, StoryDetailResponse } from '@api';
+import type { CastMember, ImageVersion, KidProfile, SavedHero, Story } from '@/types';
+import type {
+  CastMemberForGeneration,
+  HeroResponse,
+  HeroUpdateParams,
+  ImageVersionResponse,
+  KidProfileForGeneration,
+  KidProfileResponse,
+  StoryDetailResponse,
+} from '@api';
 
 export function mapApiStoryToStory(data: StoryDetailResponse): Story {
   return {
@@ -19,6 +27,15 @@ export function mapApiStoryToStory(data: StoryDetailResponse): Story {
       imageUrl: panel.image_url || undefined,
       isGenerating: false,
     })),
+    // Books saved for offline reading before series existed have no `series` field.
+    series: data.series
+      ? {
+        id: data.series.id,
+        episodeNumber: data.series.episode_number,
+        previousStoryId: data.series.previous_story_id,
+        nextStoryId: data.series.next_story_id,
+      }
+      : undefined,
   };
 }
 
@@ -37,6 +54,24 @@ export function mapApiProfileToKidProfile(profile: KidProfileResponse): KidProfi
   };
 }
 
+function toPureBase64(photoUrl: string | undefined): string | undefined {
+  return photoUrl?.startsWith('data:') ? photoUrl.split(',')[1] : undefined;
+}
+
+export function mapCastMemberToGeneration(member: CastMember): CastMemberForGeneration {
+  const isPet = member.role === 'pet';
+
+  return {
+    name: member.name.trim(),
+    role: member.role,
+    gender: isPet ? undefined : member.gender,
+    skin_tone: isPet ? undefined : member.skinTone,
+    hair_color: member.hairColor,
+    eye_color: member.eyeColor,
+    photo_base64: toPureBase64(member.photoUrl),
+  };
+}
+
 export function mapKidProfileToGenerationProfile(profile: KidProfile): KidProfileForGeneration {
   return {
     name: profile.name,
@@ -49,8 +84,50 @@ export function mapKidProfileToGenerationProfile(profile: KidProfile): KidProfil
     archetype: profile.archetype,
     language: profile.language,
     art_style: profile.artStyle,
-    photo_base64: profile.photoUrl?.startsWith('data:')
-      ? profile.photoUrl.split(',')[1]
-      : undefined,
+    panel_count: profile.storyLength,
+    reading_level: profile.readingLevel,
+    cast: profile.cast
+      ?.filter((member) => member.name.trim())
+      .map(mapCastMemberToGeneration),
+    photo_base64: toPureBase64(profile.photoUrl),
+  };
+}
+
+export function mapApiImageVersion(version: ImageVersionResponse): ImageVersion {
+  return {
+    id: version.id,
+    imageUrl: version.image_url,
+    createdAt: version.created_at,
+  };
+}
+
+export function mapApiHeroToSavedHero(hero: HeroResponse): SavedHero {
+  return {
+    id: hero.id,
+    storyCount: hero.story_count,
+    lastUsedAt: hero.last_used_at,
+    profile: {
+      name: hero.name.trim(),
+      gender: hero.gender,
+      skinTone: hero.skin_tone,
+      hairColor: hero.hair_color,
+      eyeColor: hero.eye_color,
+      favoriteColor: hero.favorite_color,
+      dream: '',
+      archetype: hero.archetype || undefined,
+      language: hero.language || undefined,
+      artStyle: hero.art_style || undefined,
+    },
+  };
+}
+
+export function mapKidProfileToHeroUpdate(profile: KidProfile): HeroUpdateParams {
+  return {
+    name: profile.name.trim(),
+    gender: profile.gender,
+    skin_tone: profile.skinTone,
+    hair_color: profile.hairColor,
+    eye_color: profile.eyeColor,
+    favorite_color: profile.favoriteColor,
   };
 }
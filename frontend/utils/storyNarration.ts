@@ -5,17 +5,31 @@ interface NarrationPanel {
   panelNumber: number;
 }
 
-function buildStoryReadAloudText(story: Story, panels: NarrationPanel[]): string {
-  const panelLines = panels
-    .map(({ panel, panelNumber }) => panel.text.trim() ? `Panel ${panelNumber}. ${panel.text.trim()}` : '')
-    .filter(Boolean);
+/** One stretch of read-aloud text, tagged with the page it belongs to. */
+export interface StoryReadAloudSegment {
+  target: 'title' | 'foreword' | 'panel';
+  /** 1-based panel number; only set for panel segments. */
+  panelNumber?: number;
+  text: string;
+}
 
-  return [
-    story.title.trim(),
-    story.foreword.trim(),
-    ...panelLines,
-  ]
-    .filter(Boolean)
+function buildStoryReadAloudSegments(story: Story, panels: NarrationPanel[]): StoryReadAloudSegment[] {
+  const segments: StoryReadAloudSegment[] = [
+    { target: 'title', text: story.title.trim() },
+    { target: 'foreword', text: story.foreword.trim() },
+    ...panels.map(({ panel, panelNumber }): StoryReadAloudSegment => ({
+      target: 'panel',
+      panelNumber,
+      text: panel.text.trim() ? `Panel ${panelNumber}. ${panel.text.trim()}` : '',
+    })),
+  ];
+
+  return segments.filter((segment) => segment.text);
+}
+
+function buildStoryReadAloudText(story: Story, panels: NarrationPanel[]): string {
+  return buildStoryReadAloudSegments(story, panels)
+    .map((segment) => segment.text)
     .join('\n\n');
 }
 
@@ -44,6 +58,10 @@ function getPreviewNarrationPanels(story: Story): NarrationPanel[] {
   ];
 }
 
+export function getStoryReadAloudSegments(story: Story): StoryReadAloudSegment[] {
+  return buildStoryReadAloudSegments(story, getStoryNarrationPanels(story));
+}
+
 export function getStoryReadAloudText(story: Story): string {
   return buildStoryReadAloudText(story, getStoryNarrationPanels(story));
 }
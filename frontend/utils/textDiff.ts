@@ -0,0 +1,108 @@
+/**
+ * Word-level text diff used to review story rewrites before they are kept.
+ * CJK characters count as one word each, since those scripts do not put
+ * spaces between words.
+ */
+
+export type TextDiffKind = 'same' | 'added' | 'removed';
+
+export interface TextDiffSegment {
+  kind: TextDiffKind;
+  text: string;
+}
+
+export type CaptionChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface CaptionDiff {
+  panelNumber: number;
+  change: CaptionChange;
+  segments: TextDiffSegment[];
+}
+
+const TOKEN_PATTERN = /\s+|[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]|[^\s\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+/g;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+function pushSegment(segments: TextDiffSegment[], kind: TextDiffKind, text: string): void {
+  const previous = segments[segments.length - 1];
+  if (previous?.kind === kind) {
+    previous.text += text;
+    return;
+  }
+
+  segments.push({ kind, text });
+}
+
+/**
+ * Diff two strings word by word using a longest-common-subsequence table.
+ * Captions are a sentence or two, so the quadratic table stays tiny.
+ */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+  const beforeTokens = tokenize(before);
+  const afterTokens = tokenize(after);
+  const lcs = Array.from({ length: beforeTokens.length + 1 }, () => new Array<number>(afterTokens.length + 1).fill(0));
+
+  for (let i = beforeTokens.length - 1; i >= 0; i -= 1) {
+    for (let j = afterTokens.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = beforeTokens[i] === afterTokens[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < beforeTokens.length && j < afterTokens.length) {
+    if (beforeTokens[i] === afterTokens[j]) {
+      pushSegment(segments, 'same', beforeTokens[i]);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'removed', beforeTokens[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, 'added', afterTokens[j]);
+      j += 1;
+    }
+  }
+
+  for (; i < beforeTokens.length; i += 1) {
+    pushSegment(segments, 'removed', beforeTokens[i]);
+  }
+  for (; j < afterTokens.length; j += 1) {
+    pushSegment(segments, 'added', afterTokens[j]);
+  }
+
+  return segments;
+}
+
+/**
+ * Compare captions panel by panel. A longer or shorter rewrite shows up as
+ * added or removed panels at the end.
+ */
+export function diffCaptions(before: string[], after: string[]): CaptionDiff[] {
+  const panelCount = Math.max(before.length, after.length);
+
+  return Array.from({ length: panelCount }, (_, index) => {
+    const previousCaption = before[index];
+    const nextCaption = after[index];
+    const panelNumber = index + 1;
+
+    if (previousCaption === undefined) {
+      return { panelNumber, change: 'added', segments: [{ kind: 'added', text: nextCaption }] };
+    }
+
+    if (nextCaption === undefined) {
+      return { panelNumber, change: 'removed', segments: [{ kind: 'removed', text: previousCaption }] };
+    }
+
+    return {
+      panelNumber,
+      change: previousCaption === nextCaption ? 'unchanged' : 'changed',
+      segments: diffWords(previousCaption, nextCaption),
+    };
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Store-only ZIP writer for e-book exports.
+ * Entries are written uncompressed in the given order, which is exactly what
+ * EPUB needs for its leading `mimetype` file; images are already compressed.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+}
+
+const textEncoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS date and time, the only timestamp format plain ZIP headers carry. */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function buildZipArchive(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const files = entries.map((entry) => {
+    const data = typeof entry.data === 'string' ? textEncoder.encode(entry.data) : entry.data;
+    return { name: textEncoder.encode(entry.path), data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((size, file) => size + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((size, file) => size + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+  const localOffsets: number[] = [];
+  let offset = 0;
+
+  // Local file header (0x04034b50) followed by the raw data; flag bit 11 marks UTF-8 names.
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 0x0800, true);
+    view.setUint16(offset + 8, 0, true);
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(file.name, offset + 30);
+    bytes.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    view.setUint32(offset + 42, localOffsets[index], true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return bytes;
+}